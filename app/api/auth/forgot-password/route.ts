@@ -0,0 +1,74 @@
+// 
+/**
+ * app/api/auth/forgot-password/route.ts
+ * Starts a password reset by emailing a one-time link to the user.
+ * 
+ * The link carries a random token; only its hash is stored on the user, with an expiry of
+ * `PASSWORD_RESET_TTL_MINUTES`. Asking again replaces the previous link. The response is the same whether
+ * or not the email belongs to an account, so the route cannot be used to find out who is registered: the token
+ * is stored and the email sent after the response, so answering takes as long for an unknown email.
+ * Requests are throttled per email and per IP address (see `lib/loginThrottle.ts`), and answered with 429
+ * `TOO_MANY_ATTEMPTS` while they must wait.
+ * 
+ * @param request - The POST request containing the email in JSON format.
+ * @returns A JSON response confirming that an email is sent if the account exists, or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { Collection, WithId } from 'mongodb';
+import dbConnect from '@/lib/mongodb';
+import { IUser, PASSWORD_RESET_TTL_MINUTES } from '@/models/User';
+import { generateSecureToken, hashSecureToken } from '@/lib/secureTokens';
+import { sendMail } from '@/lib/mail';
+import { getAppUrl, passwordResetEmail } from '@/lib/mail/templates';
+import { checkLoginThrottle, countThrottledAttempt, tooManyAttempts } from '@/lib/loginThrottle';
+import { object, parseBody, string } from '@/lib/schema';
+import { errorResponse } from '@/lib/apiHandler';
+
+const bodySchema = object({ email: string({ label: 'Email' }) });
+
+const sendPasswordResetLink = async (usersCollection: Collection<IUser>, user: WithId<IUser>) => {
+  const token = generateSecureToken();
+  await usersCollection.updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        passwordResetTokenHash: hashSecureToken(token),
+        passwordResetExpiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+      },
+    }
+  );
+
+  const link = `${getAppUrl()}/reset-password?token=${encodeURIComponent(token)}`;
+  await sendMail(passwordResetEmail(user.email, user.username, link, PASSWORD_RESET_TTL_MINUTES));
+};
+
+export async function POST(request: Request) {
+  try {
+    const { email } = await parseBody(request, bodySchema);
+
+    const db = await dbConnect();
+
+    const retryAfter = await checkLoginThrottle(db, email, request, 'password_reset');
+    if (retryAfter > 0) {
+      throw tooManyAttempts(retryAfter);
+    }
+    await countThrottledAttempt(db, email, request, 'password_reset');
+
+    const usersCollection = db.collection<IUser>('users');
+    const user = await usersCollection.findOne({ email });
+
+    // Not awaited, so the response does not take longer when the account exists
+    if (user) {
+      sendPasswordResetLink(usersCollection, user)
+        .catch((error) => console.error('Failed to send the password reset email:', error));
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'If an account exists for this email, a reset link has been sent',
+    }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,21 @@
+// 
+/**
+ * app/api/auth/login-attempts/route.ts
+ * Lists the failed login attempts on the account of the authenticated user.
+ * 
+ * - `GET`: Returns the most recent failures first, with their reason (`password` or `two_factor`), IP address,
+ *   user agent and time. Attempts are kept for 30 days.
+ * 
+ * @param req - The incoming HTTP request containing an authorization token.
+ * @returns JSON response with the failed attempts, or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { listLoginAttempts } from '@/lib/loginThrottle';
+import { withAuth } from '@/lib/apiHandler';
+
+export const GET = withAuth(async (req, { db, userId }) => {
+  const attempts = await listLoginAttempts(db, userId);
+
+  return NextResponse.json({ success: true, attempts }, { status: 200 });
+});
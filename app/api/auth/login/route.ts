@@ -5,6 +5,15 @@
  * 
  * Validates email and password, checks for the user in the database, verifies 
  * the password, and generates a JWT token upon successful authentication. 
+ * It also starts a session whose refresh token is set in an httpOnly cookie, so the short-lived
+ * JWT can be renewed through `/api/auth/refresh`.
+ * With `EMAIL_VERIFICATION_POLICY=block`, users whose email is not verified get a 403 `EMAIL_NOT_VERIFIED`.
+ * Users with two-factor authentication get no session yet: the response carries `twoFactorRequired: true` and a
+ * short-lived `challengeToken`, exchanged together with a code at `/api/auth/two-factor`.
+ * An unknown email and a wrong password get the same 401 `INVALID_CREDENTIALS`, and repeated failures make the
+ * next attempts wait (429 `TOO_MANY_ATTEMPTS`, see `lib/loginThrottle.ts`).
+ * An account whose deletion grace period has ended is purged and answers like an unknown email; before that date
+ * login works and the account can be restored (see `lib/accountDeletion.ts`).
  * Returns appropriate responses based on validation and authentication results.
  * 
  * @param request - The POST request containing email and password in JSON format.
@@ -14,58 +23,82 @@
 import { NextResponse } from 'next/server';
 import dbConnect from '@/lib/mongodb';
 import { verifyPassword, IUser } from '@/models/User';
-import { generateToken } from '@/lib/auth';
+import { generateChallengeToken, generateToken } from '@/lib/auth';
+import { setRefreshCookie, startSession } from '@/lib/sessions';
+import { getEmailVerificationPolicy, isEmailVerified } from '@/lib/emailVerification';
+import { checkLoginThrottle, clearLoginFailures, recordLoginFailure, tooManyAttempts } from '@/lib/loginThrottle';
+import { object, parseBody, string } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+import { errorResponse } from '@/lib/apiHandler';
+import { isDeletionDue, purgeAccount } from '@/lib/accountDeletion';
+
+const bodySchema = object({
+  email: string({ label: 'Email' }),
+  password: string({ label: 'Password', trim: false }),
+});
+
+// Compared against when the email is unknown, so that both failures take as long as a real password check
+const UNKNOWN_USER_HASH = '$2a$10$gT0Y/08NQ0xc7NX5/9VZ0eCNCXaO/48hHTz46dWS7t84lSX3Ixv6K';
 
 export async function POST(request: Request) {
   try {
-    const { email, password } = await request.json();
-
     // Verificar se os campos estão presentes
-    if (!email || !password) {
-      return NextResponse.json({
-        success: false,
-        message: 'Email and password are required',
-      }, { status: 400 });
-    }
+    const { email, password } = await parseBody(request, bodySchema);
 
     // Conectar ao banco de dados
     const db = await dbConnect();
     const usersCollection = db.collection<IUser>('users');
 
-    // Encontrar o usuário no banco de dados
-    const user = await usersCollection.findOne({ email });
-    if (!user) {
-      return NextResponse.json({
-        success: false,
-        message: 'User not found',
-      }, { status: 404 });
+    // Recusar a tentativa enquanto o email ou o IP estiver bloqueado
+    const retryAfter = await checkLoginThrottle(db, email, request);
+    if (retryAfter > 0) {
+      throw tooManyAttempts(retryAfter);
+    }
+
+    // Encontrar o usuário no banco de dados; uma conta cujo prazo de exclusão terminou é apagada agora
+    let user = await usersCollection.findOne({ email });
+    if (user && isDeletionDue(user)) {
+      await purgeAccount(db, user);
+      user = null;
+    }
+
+    // Verificar se a senha é válida, com a mesma resposta para um email desconhecido
+    const isMatch = await verifyPassword(password, user ? user.password : UNKNOWN_USER_HASH);
+    if (!user || !isMatch) {
+      await recordLoginFailure(db, { email, userId: user?._id, reason: 'password', req: request });
+      throw new ApiError('INVALID_CREDENTIALS');
+    }
+
+    // Bloquear o login até a confirmação do email, se a política exigir
+    if (!isEmailVerified(user) && getEmailVerificationPolicy() === 'block') {
+      throw new ApiError('EMAIL_NOT_VERIFIED');
     }
 
-    // Verificar se a senha é válida
-    const isMatch = await verifyPassword(password, user.password);
-    if (!isMatch) {
+    // Com 2FA ativo, a sessão só é iniciada depois do código
+    if (user.twoFactorEnabled) {
       return NextResponse.json({
-        success: false,
-        message: 'Invalid credentials',
-      }, { status: 401 });
+        success: true,
+        twoFactorRequired: true,
+        challengeToken: generateChallengeToken(user._id.toString()),
+        message: 'Two-factor code required',
+      }, { status: 200 });
     }
 
-    // Gerar o token JWT
-    const token = generateToken(user._id.toString());
+    // Iniciar a sessão e gerar o token JWT
+    await clearLoginFailures(db, email);
+    const { session, refreshToken } = await startSession(db, user._id, request);
+    const token = generateToken(user._id.toString(), session._id!.toString());
 
     // Retornar sucesso com o token
-    return NextResponse.json({
+    const response = NextResponse.json({
       success: true,
       token,
       message: 'Logged in successfully',
     }, { status: 200 });
+    return setRefreshCookie(response, refreshToken, session.expiresAt);
 
   } catch (error) {
-    // Tratar erros inesperados e retornar 500
-    return NextResponse.json({
-      success: false,
-      message: 'Internal server error',
-      error: (error as Error).message,
-    }, { status: 500 });
+    // Responder com o erro, ou com 500 se for inesperado
+    return errorResponse(error);
   }
 }
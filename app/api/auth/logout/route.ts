@@ -0,0 +1,45 @@
+// 
+/**
+ * app/api/auth/logout/route.ts
+ * Ends the current session on the server.
+ * 
+ * The session is found through the refresh token cookie or, when the cookie is missing, through the
+ * `sessionId` of the access token. Revoking it stops the refresh token at once, so the access token kept
+ * by the client can no longer be renewed. The refresh token cookie is always cleared.
+ * 
+ * @param request - The POST request carrying the `refreshToken` cookie and, optionally, the authorization header.
+ * @returns A JSON response confirming the logout. Logging out without a session still succeeds.
+ */
+
+import { NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import dbConnect from '@/lib/mongodb';
+import { verifyToken } from '@/lib/auth';
+import { errorResponse, getBearerToken } from '@/lib/apiHandler';
+import { clearRefreshCookie, getRefreshToken, revokeSession, revokeSessionByRefreshToken } from '@/lib/sessions';
+
+export async function POST(request: Request) {
+  try {
+    const db = await dbConnect();
+    const refreshToken = getRefreshToken(request);
+    const token = getBearerToken(request);
+
+    if (refreshToken) {
+      await revokeSessionByRefreshToken(db, refreshToken);
+    } else if (token) {
+      try {
+        const decoded = verifyToken(token);
+        if (decoded.sessionId) {
+          await revokeSession(db, new ObjectId(decoded.userId), new ObjectId(decoded.sessionId));
+        }
+      } catch (error) {
+        // An expired token has nothing left to revoke
+      }
+    }
+
+    const response = NextResponse.json({ success: true, message: 'Logged out successfully' }, { status: 200 });
+    return clearRefreshCookie(response);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
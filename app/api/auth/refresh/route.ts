@@ -0,0 +1,42 @@
+// 
+/**
+ * app/api/auth/refresh/route.ts
+ * Renews the access token of a session using the refresh token cookie.
+ * 
+ * The refresh token is rotated on every call and the session expiry slides forward. A refresh token that
+ * was already rotated revokes the session, since only a copy of the token could still be using it.
+ * `apiFetch` calls this route when a request returns 401 and replays the request with the new token.
+ * 
+ * @param request - The POST request carrying the `refreshToken` cookie.
+ * @returns A JSON response with a new JWT token and a new refresh token cookie, or 401 with the cookie
+ *          cleared when the session cannot be renewed.
+ */
+
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { generateToken } from '@/lib/auth';
+import { clearRefreshCookie, getRefreshToken, rotateSession, SessionError, setRefreshCookie } from '@/lib/sessions';
+import { ApiError } from '@/lib/apiError';
+import { errorResponse } from '@/lib/apiHandler';
+
+export async function POST(request: Request) {
+  try {
+    const refreshToken = getRefreshToken(request);
+
+    if (!refreshToken) {
+      throw new ApiError('REFRESH_TOKEN_MISSING');
+    }
+
+    const db = await dbConnect();
+    const { session, refreshToken: newRefreshToken } = await rotateSession(db, refreshToken);
+    const token = generateToken(session.userId.toString(), session._id!.toString());
+
+    const response = NextResponse.json({ success: true, token }, { status: 200 });
+    return newRefreshToken ? setRefreshCookie(response, newRefreshToken, session.expiresAt) : response;
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return clearRefreshCookie(errorResponse(error));
+    }
+    return errorResponse(error);
+  }
+}
@@ -4,7 +4,12 @@
  * Handles user registration by creating new user entries in the database and generating JWT tokens.
  * 
  * Validates username, email, and password fields, checks for existing users, creates new user entries,
- * and generates a JWT token upon successful registration.
+ * and generates a JWT token upon successful registration. A session is started as on login, with its
+ * refresh token set in an httpOnly cookie.
+ * 
+ * The account starts with an unverified email and a verification link is emailed to it. With
+ * `EMAIL_VERIFICATION_POLICY=block` no session is started: the response carries `verificationRequired: true`
+ * instead of a token, and the user logs in after opening the link.
  * 
  * @param request - The POST request containing username, email, and password in JSON format.
  * @returns A JSON response indicating registration success with a JWT token or an error message.
@@ -14,31 +19,55 @@ import { NextResponse } from 'next/server';
 import dbConnect from '@/lib/mongodb';
 import { IUser, createUser } from '@/models/User';
 import { generateToken } from '@/lib/auth';
+import { setRefreshCookie, startSession } from '@/lib/sessions';
+import { getEmailVerificationPolicy, sendVerificationEmail } from '@/lib/emailVerification';
+import { email as emailSchema, object, parseBody, string } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+import { errorResponse } from '@/lib/apiHandler';
+
+const bodySchema = object({
+  username: string({ label: 'Username', max: 50 }),
+  email: emailSchema(),
+  password: string({ label: 'Password', trim: false }),
+});
 
 export async function POST(request: Request) {
   try {
-    const { username, email, password } = await request.json();
-
-    if (!username || !email || !password) {
-      return NextResponse.json({ success: false, message: 'Missing required fields' }, { status: 400 });
-    }
+    const { username, email, password } = await parseBody(request, bodySchema);
 
     const db = await dbConnect();
     const usersCollection = db.collection<IUser>('users');
 
     const existingUser = await usersCollection.findOne({ email });
     if (existingUser) {
-      return NextResponse.json({ success: false, message: 'User already exists' }, { status: 409 });
+      throw new ApiError('USER_EXISTS');
     }
 
-    const newUser: IUser = { username, email, password } as IUser;
+    const newUser: IUser = { username, email, password, emailVerified: false } as IUser;
     const createdUser = await createUser(usersCollection, newUser);
 
-    const token = generateToken(createdUser._id!.toHexString());
+    // A failed email does not undo the registration; the link can be sent again from the login page or banner
+    try {
+      await sendVerificationEmail(db, createdUser);
+    } catch (error) {
+      console.error('Failed to send the verification email:', error);
+    }
+
+    if (getEmailVerificationPolicy() === 'block') {
+      return NextResponse.json({
+        success: true,
+        message: 'User registered, please verify your email before logging in',
+        verificationRequired: true,
+      }, { status: 201 });
+    }
+
+    const { session, refreshToken } = await startSession(db, createdUser._id!, request);
+    const token = generateToken(createdUser._id!.toHexString(), session._id!.toHexString());
 
-    return NextResponse.json({ success: true, message: 'User registered successfully', token }, { status: 201 });
+    const response = NextResponse.json({ success: true, message: 'User registered successfully', token }, { status: 201 });
+    return setRefreshCookie(response, refreshToken, session.expiresAt);
   } catch (error) {
-    return NextResponse.json({ success: false, message: 'Internal server error', error: (error as Error).message }, { status: 500 });
+    return errorResponse(error);
   }
 }
 
@@ -0,0 +1,74 @@
+// 
+/**
+ * app/api/auth/resend-verification/route.ts
+ * Sends a new email verification link, replacing the previous one.
+ * 
+ * Logged-in users (the banner of the header, or a pending email change on the profile page) are identified
+ * by their token, and the link goes to their pending email when there is one. Without a token the route takes
+ * an `email` (the login page, when login is blocked until verification) and answers the same way whether or
+ * not an unverified account exists for it, so it cannot be used to find out who is registered: the link is sent
+ * after the response, so answering takes as long for an unknown email. These requests are throttled per email and
+ * per IP address (see `lib/loginThrottle.ts`), and answered with 429 `TOO_MANY_ATTEMPTS` while they must wait.
+ * 
+ * @param request - The POST request with an authorization header, or with the `email` in JSON format.
+ * @returns A JSON response confirming that the link was sent, or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { errorResponse, getBearerToken, withAuth } from '@/lib/apiHandler';
+import { IUser } from '@/models/User';
+import { isEmailVerified, sendVerificationEmail } from '@/lib/emailVerification';
+import { checkLoginThrottle, countThrottledAttempt, tooManyAttempts } from '@/lib/loginThrottle';
+import { object, parseBody, string } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+
+const bodySchema = object({ email: string({ label: 'Email' }) });
+
+// With a token, the link goes to the logged-in user
+const resendToUser = withAuth(async (request, { db, userId }) => {
+  const user = await db.collection<IUser>('users').findOne({ _id: userId });
+
+  if (!user) {
+    throw new ApiError('USER_NOT_FOUND');
+  }
+  if (isEmailVerified(user) && !user.pendingEmail) {
+    throw new ApiError('EMAIL_ALREADY_VERIFIED');
+  }
+
+  await sendVerificationEmail(db, user);
+  return NextResponse.json({ success: true, message: 'Verification email sent' }, { status: 200 });
+});
+
+export async function POST(request: Request) {
+  if (getBearerToken(request)) {
+    return resendToUser(request);
+  }
+
+  try {
+    const { email } = await parseBody(request, bodySchema);
+
+    const db = await dbConnect();
+
+    const retryAfter = await checkLoginThrottle(db, email, request, 'email_verification');
+    if (retryAfter > 0) {
+      throw tooManyAttempts(retryAfter);
+    }
+    await countThrottledAttempt(db, email, request, 'email_verification');
+
+    const user = await db.collection<IUser>('users').findOne({ email });
+
+    // Not awaited, so the response does not take longer when an unverified account exists
+    if (user && !isEmailVerified(user)) {
+      sendVerificationEmail(db, user)
+        .catch((error) => console.error('Failed to send the verification email:', error));
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'If an unverified account exists for this email, a verification link has been sent',
+    }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,64 @@
+// 
+/**
+ * app/api/auth/reset-password/route.ts
+ * Completes a password reset with the token from the emailed link.
+ * 
+ * The token must match the stored hash and must not be expired. It is removed as soon as the password
+ * changes, so each link works once. Every session of the user is revoked, logging out all devices,
+ * including one that may have been used by someone who knew the old password. Since the link was received
+ * by email, it also confirms the email of the account.
+ * 
+ * The new password follows the same strength rules as a password change (`getPasswordRuleErrors`).
+ * 
+ * @param request - The POST request containing the reset `token` and the new `password` in JSON format.
+ * @returns A JSON response confirming the new password, or an error message when the token is invalid or expired.
+ */
+
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { hashPassword, IUser } from '@/models/User';
+import { getPasswordRuleErrors, MIN_PASSWORD_LENGTH } from '@/lib/utils';
+import { hashSecureToken } from '@/lib/secureTokens';
+import { revokeOtherSessions } from '@/lib/sessions';
+import { object, parseBody, string, ValidationError } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+import { errorResponse } from '@/lib/apiHandler';
+
+const bodySchema = object({
+  token: string({ label: 'Reset token', trim: false }),
+  password: string({ label: 'Password', trim: false }),
+});
+
+export async function POST(request: Request) {
+  try {
+    const { token, password } = await parseBody(request, bodySchema);
+
+    const rules = getPasswordRuleErrors(password);
+    if (rules.length > 0) {
+      const message = `Password must be at least ${MIN_PASSWORD_LENGTH} characters long and contain a letter and a number`;
+      throw new ValidationError([{ path: 'password', code: 'weak_password', message }], { rules });
+    }
+
+    const db = await dbConnect();
+    const usersCollection = db.collection<IUser>('users');
+
+    // Clearing the token in the same update makes the link single-use, even with concurrent requests
+    const user = await usersCollection.findOneAndUpdate(
+      { passwordResetTokenHash: hashSecureToken(token), passwordResetExpiresAt: { $gt: new Date() } },
+      {
+        $set: { password: await hashPassword(password), emailVerified: true },
+        $unset: { passwordResetTokenHash: '', passwordResetExpiresAt: '' },
+      }
+    );
+
+    if (!user) {
+      throw new ApiError('RESET_TOKEN_INVALID');
+    }
+
+    await revokeOtherSessions(db, user._id);
+
+    return NextResponse.json({ success: true, message: 'Password reset successfully' }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
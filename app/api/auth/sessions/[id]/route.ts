@@ -0,0 +1,34 @@
+// 
+/**
+ * app/api/auth/sessions/[id]/route.ts
+ * Revokes one session of the authenticated user.
+ * 
+ * - `DELETE`: Revokes the session so its device can no longer renew its access token. The response tells
+ *   whether it was the session of the request (`current: true`), in which case the client logs out.
+ * 
+ * @param req - The incoming HTTP request containing an authorization token.
+ * @param params - The request parameters, including the session `id`.
+ * @returns JSON response confirming the revocation, or an error message if the session is not found.
+ */
+
+import { NextResponse } from 'next/server';
+import { revokeSession } from '@/lib/sessions';
+import { withAuth } from '@/lib/apiHandler';
+import { object, objectId, parseParams } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+
+const paramsSchema = object({ id: objectId({ label: 'session ID' }) });
+
+export const DELETE = withAuth<{ id: string }>(async (req, { db, userId, sessionId }, { params }) => {
+  const { id } = parseParams(params, paramsSchema);
+  const revoked = await revokeSession(db, userId, id);
+
+  if (!revoked) {
+    throw new ApiError('SESSION_NOT_FOUND');
+  }
+
+  return NextResponse.json(
+    { success: true, message: 'Session revoked', current: id.toString() === sessionId },
+    { status: 200 }
+  );
+});
@@ -0,0 +1,41 @@
+// 
+/**
+ * app/api/auth/sessions/route.ts
+ * Lists and revokes the sessions (logged-in devices) of the authenticated user.
+ * 
+ * This module includes two main functions:
+ * - `GET`: Lists the active sessions, most recently used first, with their user agent, IP address,
+ *   creation and last-seen times. The session of the request is flagged with `current: true`.
+ * - `DELETE`: Revokes every other session. With `includeCurrent=true` the current session is revoked too.
+ * 
+ * @param req - The incoming HTTP request containing an authorization token.
+ * @returns JSON response with the sessions for GET, or the number of revoked sessions for DELETE.
+ */
+
+import { NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { listActiveSessions, revokeOtherSessions } from '@/lib/sessions';
+import { withAuth } from '@/lib/apiHandler';
+import { object, oneOf, optional, parseQuery } from '@/lib/schema';
+
+const deleteQuerySchema = object({
+  includeCurrent: optional(oneOf(['true', 'false'], { message: 'Invalid includeCurrent value' }), { blank: true }),
+});
+
+export const GET = withAuth(async (req, { db, userId, sessionId }) => {
+  const sessions = (await listActiveSessions(db, userId)).map((session) => ({
+    ...session,
+    current: session._id.toString() === sessionId,
+  }));
+
+  return NextResponse.json({ success: true, sessions }, { status: 200 });
+});
+
+export const DELETE = withAuth(async (req, { db, userId, sessionId }) => {
+  const includeCurrent = parseQuery(req, deleteQuerySchema).includeCurrent === 'true';
+
+  const currentId = !includeCurrent && sessionId ? new ObjectId(sessionId) : undefined;
+  const revoked = await revokeOtherSessions(db, userId, currentId);
+
+  return NextResponse.json({ success: true, revoked }, { status: 200 });
+});
@@ -0,0 +1,74 @@
+// 
+/**
+ * app/api/auth/two-factor/route.ts
+ * Second step of the login of users with two-factor authentication.
+ * 
+ * Exchanges the `challengeToken` returned by `/api/auth/login` and a code from the authenticator app (or an unused
+ * recovery code) for a session, answering like a regular login: a JWT and the refresh token cookie. The challenge
+ * expires after `CHALLENGE_TOKEN_TTL` (401, the user logs in again); a wrong or already used code answers 400 and
+ * can be retried with the same challenge. Wrong codes count as failed logins (see `lib/loginThrottle.ts`), so
+ * repeated guesses get a 429 `TOO_MANY_ATTEMPTS`.
+ * 
+ * @param request - The POST request containing `challengeToken` and `code` in JSON format.
+ * @returns A JSON response with the JWT token, or an error message when the challenge or the code is invalid.
+ */
+
+import { NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import dbConnect from '@/lib/mongodb';
+import { IUser } from '@/models/User';
+import { generateToken, verifyChallengeToken } from '@/lib/auth';
+import { setRefreshCookie, startSession } from '@/lib/sessions';
+import { verifySecondFactor } from '@/lib/twoFactor';
+import { checkLoginThrottle, clearLoginFailures, recordLoginFailure, tooManyAttempts } from '@/lib/loginThrottle';
+import { object, parseBody, string } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+import { errorResponse } from '@/lib/apiHandler';
+
+const bodySchema = object({
+  challengeToken: string({ label: 'Challenge', trim: false }),
+  code: string({ label: 'Code' }),
+});
+
+export async function POST(request: Request) {
+  try {
+    const { challengeToken, code } = await parseBody(request, bodySchema);
+
+    let decoded;
+    try {
+      decoded = verifyChallengeToken(challengeToken);
+    } catch (error) {
+      throw new ApiError('TWO_FACTOR_CHALLENGE_INVALID');
+    }
+
+    const db = await dbConnect();
+    const user = await db.collection<IUser>('users').findOne({ _id: new ObjectId(decoded.userId) });
+
+    if (!user || !user.twoFactorEnabled) {
+      throw new ApiError('TWO_FACTOR_CHALLENGE_INVALID');
+    }
+
+    const retryAfter = await checkLoginThrottle(db, user.email, request);
+    if (retryAfter > 0) {
+      throw tooManyAttempts(retryAfter);
+    }
+
+    if (!(await verifySecondFactor(db, user, code))) {
+      await recordLoginFailure(db, { email: user.email, userId: user._id, reason: 'two_factor', req: request });
+      throw new ApiError('TWO_FACTOR_CODE_INVALID');
+    }
+
+    await clearLoginFailures(db, user.email);
+    const { session, refreshToken } = await startSession(db, user._id, request);
+    const token = generateToken(user._id.toString(), session._id!.toString());
+
+    const response = NextResponse.json({
+      success: true,
+      token,
+      message: 'Logged in successfully',
+    }, { status: 200 });
+    return setRefreshCookie(response, refreshToken, session.expiresAt);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,38 @@
+// 
+/**
+ * app/api/auth/verify-email/route.ts
+ * Confirms the email of an account with the token from the link sent on registration.
+ * 
+ * The token must match the stored hash and must not be expired; it is removed once used, so each link
+ * works once. Opening a link again after the email is confirmed answers with the same 400 as an unknown link.
+ * For an email change, the new address replaces the old one at this point.
+ * 
+ * @param request - The POST request containing the verification `token` in JSON format.
+ * @returns A JSON response confirming the email, or an error message when the token is invalid or expired.
+ */
+
+import { NextResponse } from 'next/server';
+import dbConnect from '@/lib/mongodb';
+import { confirmEmailToken, EmailVerificationError } from '@/lib/emailVerification';
+import { object, parseBody, string } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+import { errorResponse } from '@/lib/apiHandler';
+
+const bodySchema = object({ token: string({ label: 'Verification token', trim: false }) });
+
+export async function POST(request: Request) {
+  try {
+    const { token } = await parseBody(request, bodySchema);
+
+    const db = await dbConnect();
+    const verified = await confirmEmailToken(db, token);
+
+    if (!verified) {
+      throw new ApiError('VERIFICATION_TOKEN_INVALID');
+    }
+
+    return NextResponse.json({ success: true, message: 'Email verified successfully' }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
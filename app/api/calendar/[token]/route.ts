@@ -0,0 +1,48 @@
+//
+/**
+ * app/api/calendar/[token]/route.ts
+ * Serves an iCalendar feed of tasks to calendar apps (see `lib/taskCalendar.ts`).
+ *
+ * - `GET`: Public, since calendar apps cannot log in: the secret token in the URL identifies the feed. A `.ics`
+ *   suffix is accepted, as some apps expect it. Returns the tasks with a due date in the categories of the feed,
+ *   built again from the `tasks` collection on every request. Returns 404 `CALENDAR_FEED_NOT_FOUND` for an unknown
+ *   or revoked feed, and for the feeds of an account scheduled for deletion (they are served again if it is restored).
+ *
+ * @param request - The HTTP GET request sent by a calendar app.
+ * @param params - The request parameters, including the feed `token`.
+ * @returns The calendar as `text/calendar`, or a JSON error message.
+ */
+
+import dbConnect from '@/lib/mongodb';
+import { errorResponse } from '@/lib/apiHandler';
+import { ApiError } from '@/lib/apiError';
+import { buildTaskCalendar, findFeedByToken, findFeedTasks } from '@/lib/taskCalendar';
+import { getAppUrl } from '@/lib/mail/templates';
+
+export async function GET(request: Request, { params }: { params: { token: string } }) {
+  try {
+    const db = await dbConnect();
+    const feed = await findFeedByToken(db, params.token.replace(/\.ics$/, ''));
+    if (!feed) {
+      throw new ApiError('CALENDAR_FEED_NOT_FOUND');
+    }
+
+    const tasks = await findFeedTasks(db, feed);
+    const calendar = await buildTaskCalendar(db, feed.userId, tasks, {
+      component: feed.component,
+      appUrl: getAppUrl(),
+      feed,
+    });
+
+    return new Response(calendar, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="tasks.ics"',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -1,69 +1,117 @@
 // 
 /**
  * app/api/categories/[id]/route.ts
- * Handles fetching and deletion of specific user categories by ID, with token-based authentication.
+ * Handles fetching, updating and deletion of specific user categories by ID, with token-based authentication.
  * 
- * This module includes two primary operations:
+ * This module includes the following operations:
  * - `GET`: Retrieves a category by its ID if it belongs to the authenticated user.
- * - `DELETE`: Deletes a category by its ID if it belongs to the authenticated user.
+ * - `PUT` / `PATCH`: Updates the name, description, color, icon or `parentId` of a category. Only the fields
+ *   present in the body change; the slug follows the name. A category cannot be nested under itself or one
+ *   of its sub-categories.
+ * - `DELETE`: Deletes a category by its ID if it belongs to the authenticated user. The `tasks` query parameter
+ *   decides what happens to its tasks: `uncategorize` (default) clears their category, `reassign` moves them to
+ *   the category given by `targetId`, and `delete` removes them. Sub-categories move up to the deleted
+ *   category's parent.
  * 
  * @param req - The incoming HTTP request containing an authorization token.
  * @param params - The request parameters, including the category `id`.
- * @returns JSON response indicating success with category data (for GET) or deletion confirmation (for DELETE),
- *           or an error message if access or the operation fails.
+ * @returns JSON response indicating success with category data (for GET and PUT) or deletion confirmation
+ *           (for DELETE), or an error message if access or the operation fails.
  */
 
 import { NextResponse } from 'next/server';
-import dbConnect from '@/lib/mongodb';
-import { verifyToken } from '@/lib/auth';
-import { ObjectId } from 'mongodb';
+import { withAuth } from '@/lib/apiHandler';
+import {
+  CATEGORY_TASK_ACTIONS,
+  CategoryError,
+  categoryUpdateSchema,
+  handleCategoryTasks,
+  validateCategoryParent,
+} from '@/lib/categories';
+import { invalidField, object, objectId, oneOf, optional, parseBody, parseParams, parseQuery } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
 
-export async function GET(req: Request, { params }: { params: { id: string } }) {
-  try {
-    const db = await dbConnect();
-    const token = req.headers.get('Authorization')?.split(' ')[1];
+const paramsSchema = object({ id: objectId({ label: 'category ID' }) });
 
-    if (!token) {
-      return NextResponse.json({ success: false, message: 'No token provided' }, { status: 401 });
-    }
+const deleteQuerySchema = object({
+  tasks: optional(oneOf(CATEGORY_TASK_ACTIONS, { message: 'Invalid tasks action' }), { blank: true }),
+  targetId: optional(objectId({ message: 'Invalid target category' }), { blank: true }),
+});
+
+export const GET = withAuth<{ id: string }>(async (req, { db, userId }, { params }) => {
+  const { id } = parseParams(params, paramsSchema);
+
+  // Fetch the category by ID and ensure it belongs to the authenticated user
+  const category = await db.collection('categories').findOne({ _id: id, userId });
+
+  if (!category) {
+    throw new ApiError('CATEGORY_NOT_FOUND');
+  }
+
+  return NextResponse.json({ success: true, category }, { status: 200 });
+});
 
-    const decoded = verifyToken(token);
-    const userId = new ObjectId(decoded.userId);
+export const PUT = withAuth<{ id: string }>(async (req, { db, userId }, { params }) => {
+  const { id: categoryId } = parseParams(params, paramsSchema);
 
-    // Fetch the category by ID and ensure it belongs to the authenticated user
-    const category = await db.collection('categories').findOne({ _id: new ObjectId(params.id), userId });
+  const category = await db.collection('categories').findOne({ _id: categoryId, userId });
+  if (!category) {
+    throw new ApiError('CATEGORY_NOT_FOUND');
+  }
 
-    if (!category) {
-      return NextResponse.json({ success: false, message: 'Category not found or does not belong to the user' }, { status: 404 });
+  const fields = await parseBody(req, categoryUpdateSchema);
+  if (fields.parentId) {
+    try {
+      await validateCategoryParent(db, userId, categoryId, fields.parentId);
+    } catch (error) {
+      if (error instanceof CategoryError) {
+        throw invalidField('parentId', error.message, error.code);
+      }
+      throw error;
     }
+  }
 
-    return NextResponse.json({ success: true, category }, { status: 200 });
-  } catch (error) {
-    return NextResponse.json({ success: false, message: 'Internal server error', error: (error as Error).message }, { status: 500 });
+  const updates: Record<string, unknown> = { ...fields };
+  if (fields.name) {
+    updates.slug = fields.name.toLowerCase().replace(/ /g, '-');
   }
-}
 
-export async function DELETE(req: Request, { params }: { params: { id: string } }) {
-  try {
-    const db = await dbConnect();
-    const token = req.headers.get('Authorization')?.split(' ')[1];
+  await db.collection('categories').updateOne({ _id: categoryId, userId }, { $set: updates });
 
-    if (!token) {
-      return NextResponse.json({ success: false, message: 'No token provided' }, { status: 401 });
-    }
+  return NextResponse.json({ success: true, category: { ...category, ...updates } }, { status: 200 });
+});
 
-    const decoded = verifyToken(token);
-    const userId = new ObjectId(decoded.userId);
+export const PATCH = PUT;
 
-    // Ensure the category to be deleted belongs to the authenticated user
-    const deleteResult = await db.collection('categories').deleteOne({ _id: new ObjectId(params.id), userId });
+export const DELETE = withAuth<{ id: string }>(async (req, { db, userId }, { params }) => {
+  const { id: categoryId } = parseParams(params, paramsSchema);
+  const { tasks: action = 'uncategorize', targetId } = parseQuery(req, deleteQuerySchema);
 
-    if (deleteResult.deletedCount === 0) {
-      return NextResponse.json({ success: false, message: 'Category not found or does not belong to the user' }, { status: 404 });
+  if (action === 'reassign') {
+    if (!targetId || targetId.equals(categoryId)) {
+      throw invalidField('targetId', 'Invalid target category');
+    }
+    const target = await db.collection('categories').findOne({ _id: targetId, userId });
+    if (!target) {
+      throw new ApiError('CATEGORY_NOT_FOUND', 'Target category not found');
     }
+  }
+
+  // Ensure the category to be deleted belongs to the authenticated user
+  const category = await db.collection('categories').findOne({ _id: categoryId, userId });
 
-    return NextResponse.json({ success: true, message: 'Category deleted successfully' }, { status: 200 });
-  } catch (error) {
-    return NextResponse.json({ success: false, message: 'Internal server error', error: (error as Error).message }, { status: 500 });
+  if (!category) {
+    throw new ApiError('CATEGORY_NOT_FOUND');
   }
-}
+
+  await handleCategoryTasks(db, userId, categoryId, action, targetId);
+
+  // Keep the sub-categories in the tree by moving them up one level
+  await db.collection('categories').updateMany(
+    { userId, parentId: categoryId },
+    { $set: { parentId: category.parentId ?? null } }
+  );
+  await db.collection('categories').deleteOne({ _id: categoryId, userId });
+
+  return NextResponse.json({ success: true, message: 'Category deleted successfully' }, { status: 200 });
+});
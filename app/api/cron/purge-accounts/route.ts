@@ -0,0 +1,41 @@
+//
+/**
+ * app/api/cron/purge-accounts/route.ts
+ * Purges the accounts whose deletion grace period has ended (see `lib/accountDeletion.ts`).
+ *
+ * - `GET`: Meant to be called by a scheduler, such as a daily cron job, with an `Authorization: Bearer
+ *   <CRON_SECRET>` header. Returns the number of purged accounts. Without `CRON_SECRET` set, every call is refused.
+ *
+ * @param request - The HTTP GET request containing the secret in the authorization header.
+ * @returns JSON response with the number of purged accounts, or a 401.
+ */
+
+import { NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import dbConnect from '@/lib/mongodb';
+import { errorResponse } from '@/lib/apiHandler';
+import { ApiError } from '@/lib/apiError';
+import { purgeDueAccounts } from '@/lib/accountDeletion';
+
+const isAuthorized = (request: Request) => {
+  const secret = process.env.CRON_SECRET;
+  const header = request.headers.get('authorization') || '';
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(header);
+  return !!secret && expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorized(request)) {
+      throw new ApiError('AUTH_TOKEN_INVALID');
+    }
+
+    const db = await dbConnect();
+    const purged = await purgeDueAccounts(db);
+
+    return NextResponse.json({ success: true, purged }, { status: 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -2,48 +2,47 @@
 // app/api/dashboard/route.ts
 /**
  * Handles data requests for the dashboard, providing task counts and other metrics.
- * 
- * This endpoint connects to the MongoDB database, retrieves tasks for the authenticated user,
- * and compiles a summary of task data. Currently, it returns the total task count and a placeholder
- * for unread messages.
- * 
+ *
+ * This endpoint aggregates the authenticated user's tasks in MongoDB and returns completed, pending,
+ * due today and overdue counts, breakdowns by priority and by category, and the number of tasks
+ * completed per day over the last 30 days. The optional `timezone` query parameter (an IANA name such
+ * as `America/Sao_Paulo`) sets which day counts as "today"; it defaults to UTC.
+ *
  * @param req - The HTTP request containing the user's authorization token.
  * @returns JSON response with the user's dashboard data or an error message.
  */
 
 import { NextResponse } from 'next/server';
-import dbConnect from '@/lib/mongodb';
-import { ObjectId } from 'mongodb';
-import { verifyToken } from '@/lib/auth';
 import { ITask } from '@/models/Task';
-
-export async function GET(req: Request) {
-  try {
-    const token = req.headers.get('Authorization')?.split(' ')[1];
-
-    // Verify if token exists and is valid
-    if (!token) {
-      return NextResponse.json({ success: false, message: 'Unauthorized' }, { status: 401 });
-    }
-
-    const { userId } = verifyToken(token);
-
-    // Connect to the database
-    const db = await dbConnect();
-    const tasksCollection = db.collection<ITask>('tasks');
-
-    // Retrieve tasks for the authenticated user
-    const tasks = await tasksCollection.find({ userId: new ObjectId(userId) }).toArray();
-
-    // Build the simplified dashboard data, currently without status separation
-    const dashboardData = {
-      totalTasks: tasks.length,
-      unreadMessages: 0, // Placeholder for future unread messages feature
-    };
-
-    return NextResponse.json({ success: true, dashboard: dashboardData });
-  } catch (error) {
-    console.error('Error fetching dashboard data:', error);
-    return NextResponse.json({ success: false, message: 'Failed to fetch dashboard data' }, { status: 500 });
-  }
-}
+import { buildDashboardPipeline, formatDashboardStats, resolveTimeZone } from '@/lib/dashboardStats';
+import { withAuth } from '@/lib/apiHandler';
+import { object, optional, parseQuery, string } from '@/lib/schema';
+
+const querySchema = object({ timezone: optional(string(), { blank: true }) });
+
+export const GET = withAuth(async (req, { db, userId }) => {
+  // An unknown time zone falls back to UTC rather than failing the request
+  const timeZone = resolveTimeZone(parseQuery(req, querySchema).timezone || null);
+
+  const now = new Date();
+  const tasksCollection = db.collection<ITask>('tasks');
+
+  // Compute every metric in a single aggregation over the user's tasks
+  const [facet] = await tasksCollection
+    .aggregate(buildDashboardPipeline(userId, now, timeZone))
+    .toArray();
+
+  // Resolve category names for the category breakdown
+  const categories = await db
+    .collection('categories')
+    .find({ userId }, { projection: { name: 1 } })
+    .toArray();
+  const categoryNames: Record<string, string> = {};
+  categories.forEach((category) => {
+    categoryNames[category._id.toString()] = category.name;
+  });
+
+  const dashboardData = formatDashboardStats(facet, categoryNames, now, timeZone);
+
+  return NextResponse.json({ success: true, dashboard: dashboardData });
+});
@@ -0,0 +1,44 @@
+// 
+/**
+ * app/api/tags/[id]/merge/route.ts
+ * Merges a tag into another tag of the authenticated user.
+ * 
+ * - `POST`: Body `{ targetId }`. Every task using the tag gets the target tag instead (tasks that already had
+ *   both keep a single copy), then the merged tag is deleted. Returns the target `tag`.
+ * 
+ * @param req - The incoming HTTP request containing an authorization token and the target tag ID.
+ * @param params - The request parameters, including the `id` of the tag being merged.
+ * @returns JSON response with the target tag, or an error message if access or the operation fails.
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/apiHandler';
+import { mergeTags } from '@/lib/tags';
+import { invalidField, object, objectId, parseBody, parseParams } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+
+const paramsSchema = object({ id: objectId({ label: 'tag ID' }) });
+
+const bodySchema = object({ targetId: objectId({ message: 'Invalid target tag' }) });
+
+export const POST = withAuth<{ id: string }>(async (req, { db, userId }, { params }) => {
+  const { id: sourceId } = parseParams(params, paramsSchema);
+  const { targetId } = await parseBody(req, bodySchema);
+
+  if (targetId.equals(sourceId)) {
+    throw invalidField('targetId', 'A tag cannot be merged into itself', 'self_reference');
+  }
+
+  const [source, target] = await Promise.all([
+    db.collection('tags').findOne({ _id: sourceId, userId }),
+    db.collection('tags').findOne({ _id: targetId, userId }),
+  ]);
+
+  if (!source || !target) {
+    throw new ApiError('TAG_NOT_FOUND');
+  }
+
+  await mergeTags(db, userId, sourceId, target._id);
+
+  return NextResponse.json({ success: true, tag: target }, { status: 200 });
+});
@@ -0,0 +1,69 @@
+// 
+/**
+ * app/api/tags/[id]/route.ts
+ * Handles renaming and deletion of specific user tags by ID, with token-based authentication.
+ * 
+ * This module includes two primary operations:
+ * - `PUT`: Changes the `name` and/or `color` of a tag. Tasks reference tags by ID, so every task using the
+ *   tag shows the change. Renaming a tag to the name of another tag answers 409; use the merge route instead.
+ * - `DELETE`: Deletes a tag and removes it from every task that uses it.
+ * 
+ * @param req - The incoming HTTP request containing an authorization token and, for PUT, the changes.
+ * @param params - The request parameters, including the tag `id`.
+ * @returns JSON response with the updated tag (for PUT) or deletion confirmation (for DELETE),
+ *           or an error message if access or the operation fails.
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/apiHandler';
+import { findTagByName, removeTagFromTasks, tagUpdateSchema } from '@/lib/tags';
+import { normalizeTagName } from '@/models/Tag';
+import { object, objectId, parseBody, parseParams } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+
+const paramsSchema = object({ id: objectId({ label: 'tag ID' }) });
+
+export const PUT = withAuth<{ id: string }>(async (req, { db, userId }, { params }) => {
+  const { id: tagId } = parseParams(params, paramsSchema);
+  const { name, color } = await parseBody(req, tagUpdateSchema);
+
+  const updateFields: Record<string, string> = {};
+
+  if (name !== undefined) {
+    const normalizedName = normalizeTagName(name);
+    if (await findTagByName(db, userId, normalizedName, tagId)) {
+      throw new ApiError('TAG_EXISTS');
+    }
+    updateFields.name = normalizedName;
+  }
+
+  if (color !== undefined) {
+    updateFields.color = color;
+  }
+
+  // Ensure the tag belongs to the authenticated user
+  const result = await db.collection('tags').updateOne({ _id: tagId, userId }, { $set: updateFields });
+
+  if (result.matchedCount === 0) {
+    throw new ApiError('TAG_NOT_FOUND');
+  }
+
+  const tag = await db.collection('tags').findOne({ _id: tagId, userId });
+
+  return NextResponse.json({ success: true, tag }, { status: 200 });
+});
+
+export const DELETE = withAuth<{ id: string }>(async (req, { db, userId }, { params }) => {
+  const { id: tagId } = parseParams(params, paramsSchema);
+
+  // Ensure the tag to be deleted belongs to the authenticated user
+  const deleteResult = await db.collection('tags').deleteOne({ _id: tagId, userId });
+
+  if (deleteResult.deletedCount === 0) {
+    throw new ApiError('TAG_NOT_FOUND');
+  }
+
+  await removeTagFromTasks(db, userId, tagId);
+
+  return NextResponse.json({ success: true, message: 'Tag deleted successfully' }, { status: 200 });
+});
@@ -0,0 +1,51 @@
+// 
+/**
+ * app/api/tags/route.ts
+ * Manages retrieval and creation of user-specific tags with authentication.
+ * 
+ * This module includes two main functions:
+ * - `GET`: Retrieves all tags of the authenticated user, sorted by name, with the number of tasks using each one.
+ * - `POST`: Creates a new tag with the provided name and optional color. Tag names are unique per user,
+ *   ignoring case; creating a tag that already exists answers 409 with the existing `tag`.
+ * 
+ * @param req - The incoming HTTP request containing an authorization token and, for POST, the tag data.
+ * @returns JSON response with tag data for GET, or creation confirmation for POST. 
+ *          Returns error messages if access or the operation fails.
+ */
+
+import { NextResponse } from 'next/server';
+import { createTag } from '@/models/Tag';
+import { withAuth } from '@/lib/apiHandler';
+import { findTagByName, newTagSchema } from '@/lib/tags';
+import { parseBody } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+
+export const GET = withAuth(async (req, { db, userId }) => {
+  // Fetch tags only for the authenticated user, together with how many tasks use them
+  const tags = await db.collection('tags').find({ userId }, { sort: { name: 1 } }).toArray();
+  const usage = await db.collection('tasks').aggregate([
+    { $match: { userId, tagIds: { $in: tags.map((tag) => tag._id) } } },
+    { $unwind: '$tagIds' },
+    { $group: { _id: '$tagIds', count: { $sum: 1 } } },
+  ]).toArray();
+
+  const tagsWithUsage = tags.map((tag) => ({
+    ...tag,
+    taskCount: usage.find((entry) => entry._id.equals(tag._id))?.count || 0,
+  }));
+
+  return NextResponse.json({ success: true, tags: tagsWithUsage }, { status: 200 });
+});
+
+export const POST = withAuth(async (req, { db, userId }) => {
+  const newTag = createTag({ ...(await parseBody(req, newTagSchema)), userId });
+
+  const existingTag = await findTagByName(db, userId, newTag.name);
+  if (existingTag) {
+    throw new ApiError('TAG_EXISTS', undefined, { tag: existingTag });
+  }
+
+  await db.collection('tags').insertOne(newTag);
+
+  return NextResponse.json({ success: true, tag: { ...newTag, taskCount: 0 } }, { status: 201 });
+});
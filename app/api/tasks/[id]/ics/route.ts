@@ -0,0 +1,43 @@
+//
+/**
+ * app/api/tasks/[id]/ics/route.ts
+ * Downloads one task of the authenticated user as an iCalendar file, to add it to a calendar app.
+ *
+ * - `GET`: Returns the task as an event when it has a due date, or else as a to-do (see `lib/taskCalendar.ts`).
+ *   Returns 404 `TASK_NOT_FOUND` when the task does not exist or belongs to another user.
+ *
+ * @param req - The incoming HTTP request containing an authorization token.
+ * @param params - The request parameters, including the task `id`.
+ * @returns The `.ics` file as an attachment, or a JSON error message.
+ */
+
+import { withAuth } from '@/lib/apiHandler';
+import { parseParams } from '@/lib/schema';
+import { taskParamsSchema } from '@/lib/taskSchema';
+import { ApiError } from '@/lib/apiError';
+import { ITask } from '@/models/Task';
+import { buildTaskCalendar } from '@/lib/taskCalendar';
+import { getAppUrl } from '@/lib/mail/templates';
+
+export const GET = withAuth<{ id: string }>(async (req, { db, userId }, { params }) => {
+  const { id } = parseParams(params, taskParamsSchema);
+
+  const task = await db.collection<ITask>('tasks').findOne({ _id: id, userId });
+  if (!task) {
+    throw new ApiError('TASK_NOT_FOUND');
+  }
+
+  const calendar = await buildTaskCalendar(db, userId, [task], {
+    component: task.dueDate ? 'event' : 'todo',
+    appUrl: getAppUrl(),
+  });
+
+  return new Response(calendar, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="task-${id}.ics"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+});
@@ -4,9 +4,22 @@
  * Handles API requests for specific task operations, including fetching, updating, and deleting tasks
  * for authenticated users based on task ID.
  * 
- * - GET: Retrieves a specific task by ID for the authenticated user, ensuring ownership.
- * - PUT: Updates the task's details, such as title, description, priority, and due date, for the authenticated user.
- * - DELETE: Removes a specific task by ID for the authenticated user, confirming user ownership.
+ * - GET: Retrieves a specific task by ID for the authenticated user, ensuring ownership, together with the
+ *   tasks blocking it (`blockers`) and the tasks it blocks (`blocking`).
+ * - PUT: Updates the task's details, such as title, description, priority, due date, board status and position,
+ *   for the authenticated user. `completed` and `status` are kept in sync: moving a task to the `done`
+ *   column completes it, and toggling completion moves it in or out of `done`. `completedAt` records
+ *   when the task was last completed. Completing an occurrence of a recurring task creates the next occurrence
+ *   once (see `lib/taskCompletion.ts`), which is returned as `nextTask` and carries the recurrence rule from then
+ *   on. Subtasks are managed through the `/api/tasks/[id]/subtasks` routes. `blockedBy` and `blocks` replace the task's dependencies (see
+ *   `lib/dependencies.ts`); cycles are rejected. A task cannot be completed while one of its blockers is open,
+ *   unless `force` is true: the route answers 409 `TASK_BLOCKED` with the open
+ *   blockers in `details.blockers`. `tagIds` replaces the task's tags.
+ * - DELETE: Removes a specific task by ID for the authenticated user, confirming user ownership, and removes
+ *   it from the dependencies of other tasks.
+ *
+ * The task ID and the body are validated with the schemas of `lib/taskSchema.ts`: a malformed ID or field is
+ * answered with 400 and the path of the field, and `categoryId` must be one of the user's categories.
  * 
  * @param req - The HTTP request containing headers and data for task operations.
  * @param params - The URL parameters, including the task ID.
@@ -14,127 +27,143 @@
  */
 
 import { NextResponse } from 'next/server';
-import dbConnect from '@/lib/mongodb';
-import { verifyToken } from '@/lib/auth';
+import { withAuth } from '@/lib/apiHandler';
 import { ObjectId } from 'mongodb';
+import { ITask } from '@/models/Task';
+import {
+  attachDependencies,
+  DependencyError,
+  getOpenBlockers,
+  saveBlockedTasks,
+  validateDependencies,
+} from '@/lib/dependencies';
+import { TagError, validateTagIds } from '@/lib/tags';
+import { completeTask } from '@/lib/taskCompletion';
+import { invalidField, parseBody, parseParams } from '@/lib/schema';
+import { taskParamsSchema, taskUpdateSchema } from '@/lib/taskSchema';
+import { ApiError } from '@/lib/apiError';
+
+export const GET = withAuth<{ id: string }>(async (req, { db, userId }, { params }) => {
+  const { id } = parseParams(params, taskParamsSchema);
+
+  // Fetch the task by id and userId to ensure ownership
+  const task = await db.collection("tasks").findOne({ _id: id, userId });
+
+  if (!task) {
+    throw new ApiError('TASK_NOT_FOUND');
+  }
 
-export async function GET(req: Request, { params }: { params: { id: string } }) {
-  try {
-    const db = await dbConnect();
-    const token = req.headers.get("Authorization")?.split(" ")[1];
+  const [taskWithDependencies] = await attachDependencies(db, userId, [task]);
 
-    if (!token) {
-      return NextResponse.json({ success: false, message: "No token provided" }, { status: 401 });
-    }
+  return NextResponse.json({ success: true, task: taskWithDependencies }, { status: 200 });
+});
 
-    const decoded = verifyToken(token);
-    const userId = new ObjectId(decoded.userId);
+export const PUT = withAuth<{ id: string }>(async (req, { db, userId }, { params }) => {
+  const { id } = parseParams(params, taskParamsSchema);
+  const { categoryId, completed, status, blocks, force, tagIds, ...fields } = await parseBody(req, taskUpdateSchema);
 
-    // Fetch the task by id and userId to ensure ownership
-    const task = await db.collection("tasks").findOne({ _id: new ObjectId(params.id), userId });
+  // A category must belong to the user; null or an empty string removes it
+  if (categoryId && !(await db.collection('categories').findOne({ _id: categoryId, userId }))) {
+    throw invalidField('categoryId', 'Category not found', 'not_found');
+  }
 
-    if (!task) {
-      return NextResponse.json({ success: false, message: "Task not found" }, { status: 404 });
+  let validTagIds: ObjectId[] | undefined;
+  if (tagIds) {
+    try {
+      validTagIds = await validateTagIds(db, userId, tagIds);
+    } catch (error) {
+      if (error instanceof TagError) {
+        throw invalidField('tagIds', error.message, error.code);
+      }
+      throw error;
     }
+  }
 
-    return NextResponse.json({ success: true, task }, { status: 200 });
-  } catch (error) {
-    return NextResponse.json({ success: false, message: "Internal server error", error: (error as Error).message }, { status: 500 });
+  // Prepare fields to update; fields missing from the body are left unchanged
+  const updateFields: any = {
+    ...fields,
+    ...(categoryId !== undefined ? { categoryId: categoryId && categoryId.toString() } : {}),
+    ...(completed !== undefined ? { completed } : {}),
+    ...(status !== undefined ? { status } : {}),
+    ...(validTagIds ? { tagIds: validTagIds } : {}),
+  };
+
+  // Update the task in the database, ensuring ownership
+  const task = await db.collection('tasks').findOne({ _id: id, userId });
+  if (!task) {
+    throw new ApiError('TASK_NOT_FOUND');
   }
-}
 
-export async function PUT(req: Request, { params }: { params: { id: string } }) {
-  try {
-    const db = await dbConnect();
-    const token = req.headers.get('Authorization')?.split(' ')[1];
-
-    if (!token) {
-      return NextResponse.json(
-        { success: false, message: 'No token provided' },
-        { status: 401 }
-      );
+  // Keep completion and board status consistent with each other
+  if (status !== undefined && completed === undefined) {
+    updateFields.completed = status === 'done';
+  } else if (completed !== undefined && status === undefined) {
+    if (completed) {
+      updateFields.status = 'done';
+    } else if (task.status === 'done') {
+      updateFields.status = 'todo';
     }
+  }
 
-    const decoded = verifyToken(token);
-    const userId = new ObjectId(decoded.userId);
-
-    // Extract updated task details from request body
-    const { title, resume, description, categoryId, completed, priority, dueDate, dueTime } = await req.json();
+  if (updateFields.recurrence && !(updateFields.dueDate || task.dueDate)) {
+    throw invalidField('recurrence', 'Recurring tasks require a due date', 'due_date_required');
+  }
 
-    // Validate priority field for update
-    const validPriorities = ['highest', 'high', 'medium', 'low', 'lowest'];
-    if (priority && !validPriorities.includes(priority)) {
-      return NextResponse.json(
-        { success: false, message: 'Invalid priority level' },
-        { status: 400 }
-      );
+  try {
+    await validateDependencies(db, userId, id, { blockedBy: fields.blockedBy, blocks });
+  } catch (error) {
+    if (error instanceof DependencyError) {
+      throw invalidField(fields.blockedBy ? 'blockedBy' : 'blocks', error.message, error.code);
     }
+    throw error;
+  }
 
-    // Prepare fields to update
-    const updateFields: any = {
-      title,
-      resume,
-      categoryId,
-      description,
-      completed,
-      priority,
-      dueDate: dueDate ? new Date(dueDate) : undefined,
-      dueTime,
-    };
-
-    Object.keys(updateFields).forEach(
-      key => updateFields[key] === undefined && delete updateFields[key]
-    );
-
-    // Update the task in the database, ensuring ownership
-    const task = await db.collection('tasks').findOne({ _id: new ObjectId(params.id), userId });
-    if (!task) {
-      return NextResponse.json(
-        { success: false, message: 'Task not found or does not belong to the user' },
-        { status: 404 }
-      );
+  // Blocked tasks can only be completed once their blockers are, unless the client forces it
+  if (updateFields.completed === true && !task.completed && force !== true) {
+    const openBlockers = await getOpenBlockers(db, userId, updateFields.blockedBy ?? task.blockedBy);
+    if (openBlockers.length > 0) {
+      throw new ApiError('TASK_BLOCKED', undefined, { blockers: openBlockers });
     }
+  }
 
+  // Completing an occurrence of a recurring task creates the next one, which takes over the rule
+  let nextTask: ITask | null = null;
+  if (updateFields.completed === true && !task.completed) {
+    ({ nextTask } = await completeTask(db, userId, task as ITask, updateFields));
+  } else {
+    if (updateFields.completed === false) {
+      updateFields.completedAt = null;
+    }
     await db.collection('tasks').updateOne(
-      { _id: new ObjectId(params.id), userId },
+      { _id: id, userId },
       { $set: updateFields }
     );
-
-    const updatedTask = await db.collection('tasks').findOne({ _id: new ObjectId(params.id), userId });
-
-    return NextResponse.json(
-      { success: true, task: updatedTask },
-      { status: 200 }
-    );
-  } catch (error) {
-    return NextResponse.json(
-      { success: false, message: 'Internal server error', error: (error as Error).message },
-      { status: 500 }
-    );
   }
-}
 
-export async function DELETE(req: Request, { params }: { params: { id: string } }) {
-  try {
-    const db = await dbConnect();
-    const token = req.headers.get('Authorization')?.split(' ')[1];
+  if (blocks) {
+    await saveBlockedTasks(db, userId, id, blocks);
+  }
 
-    if (!token) {
-      return NextResponse.json({ success: false, message: 'No token provided' }, { status: 401 });
-    }
+  const updatedTask = await db.collection('tasks').findOne({ _id: id, userId });
 
-    const decoded = verifyToken(token);
-    const userId = new ObjectId(decoded.userId);
+  return NextResponse.json(
+    { success: true, task: updatedTask, ...(nextTask ? { nextTask } : {}) },
+    { status: 200 }
+  );
+});
 
-    // Ensure the task to be deleted belongs to the authenticated user
-    const deleteResult = await db.collection('tasks').deleteOne({ _id: new ObjectId(params.id), userId });
+export const DELETE = withAuth<{ id: string }>(async (req, { db, userId }, { params }) => {
+  const { id } = parseParams(params, taskParamsSchema);
 
-    if (deleteResult.deletedCount === 0) {
-      return NextResponse.json({ success: false, message: 'Task not found or does not belong to the user' }, { status: 404 });
-    }
+  // Ensure the task to be deleted belongs to the authenticated user
+  const deleteResult = await db.collection('tasks').deleteOne({ _id: id, userId });
 
-    return NextResponse.json({ success: true, message: 'Task deleted successfully' }, { status: 200 });
-  } catch (error) {
-    return NextResponse.json({ success: false, message: 'Internal server error', error: (error as Error).message }, { status: 500 });
+  if (deleteResult.deletedCount === 0) {
+    throw new ApiError('TASK_NOT_FOUND');
   }
-}
+
+  // Tasks blocked by the deleted task are no longer waiting for it
+  await saveBlockedTasks(db, userId, id, []);
+
+  return NextResponse.json({ success: true, message: 'Task deleted successfully' }, { status: 200 });
+});
@@ -0,0 +1,77 @@
+//
+// app/api/tasks/[id]/subtasks/[subtaskId]/route.ts
+/**
+ * Updates or removes a single subtask of a task owned by the authenticated user.
+ *
+ * - PUT: Changes the subtask's `title`, `completed` state or `dueDate` (null clears it). When the parent task
+ *   has `autoCompleteSubtasks` enabled and this completes its last open subtask, the parent task is completed
+ *   too, unless it is still blocked by open tasks; for recurring tasks this creates the next occurrence,
+ *   returned as `nextTask` (see `lib/taskCompletion.ts`).
+ * - DELETE: Removes the subtask from the checklist.
+ *
+ * @param req - The HTTP request containing the authorization header and, for PUT, the fields to change.
+ * @param params - The URL parameters, including the task ID and the subtask ID.
+ * @returns JSON response with the updated task or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/apiHandler';
+import { areAllSubtasksCompleted, ITask } from '@/models/Task';
+import { getOpenBlockers } from '@/lib/dependencies';
+import { completeTask } from '@/lib/taskCompletion';
+import { parseBody, parseParams } from '@/lib/schema';
+import { subtaskParamsSchema, subtaskUpdateSchema } from '@/lib/taskSchema';
+import { ApiError } from '@/lib/apiError';
+
+type SubtaskParams = { id: string; subtaskId: string };
+
+export const PUT = withAuth<SubtaskParams>(async (req, { db, userId }, { params }) => {
+  const { id, subtaskId } = parseParams(params, subtaskParamsSchema);
+  const { title, completed, dueDate } = await parseBody(req, subtaskUpdateSchema);
+  const updateFields: Record<string, unknown> = {};
+
+  if (title !== undefined) updateFields['subtasks.$.title'] = title;
+  if (completed !== undefined) updateFields['subtasks.$.completed'] = completed;
+  if (dueDate !== undefined) updateFields['subtasks.$.dueDate'] = dueDate;
+
+  const taskFilter = { _id: id, userId };
+  const result = await db.collection('tasks').updateOne(
+    { ...taskFilter, 'subtasks._id': subtaskId },
+    { $set: updateFields }
+  );
+
+  if (result.matchedCount === 0) {
+    throw new ApiError('SUBTASK_NOT_FOUND');
+  }
+
+  let task: ITask | null = await db.collection<ITask>('tasks').findOne(taskFilter);
+  let nextTask: ITask | null = null;
+
+  // Complete the parent task once its last subtask is done, if the task asks for it
+  if (
+    task && completed === true && task.autoCompleteSubtasks && !task.completed && areAllSubtasksCompleted(task.subtasks) &&
+    (await getOpenBlockers(db, userId, task.blockedBy)).length === 0
+  ) {
+    ({ task, nextTask } = await completeTask(db, userId, task));
+  }
+
+  return NextResponse.json({ success: true, task, ...(nextTask ? { nextTask } : {}) }, { status: 200 });
+});
+
+export const DELETE = withAuth<SubtaskParams>(async (req, { db, userId }, { params }) => {
+  const { id, subtaskId } = parseParams(params, subtaskParamsSchema);
+
+  const taskFilter = { _id: id, userId };
+  const result = await db.collection<ITask>('tasks').updateOne(
+    { ...taskFilter, 'subtasks._id': subtaskId },
+    { $pull: { subtasks: { _id: subtaskId } } }
+  );
+
+  if (result.matchedCount === 0) {
+    throw new ApiError('SUBTASK_NOT_FOUND');
+  }
+
+  const task = await db.collection('tasks').findOne(taskFilter);
+
+  return NextResponse.json({ success: true, task }, { status: 200 });
+});
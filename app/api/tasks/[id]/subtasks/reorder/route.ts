@@ -0,0 +1,42 @@
+//
+// app/api/tasks/[id]/subtasks/reorder/route.ts
+/**
+ * Persists the order of a task's subtasks for authenticated users.
+ *
+ * - PUT: Receives `subtaskIds`, the IDs of every subtask of the task in their new order, and stores
+ *   the checklist in that order. The list must contain each existing subtask exactly once.
+ *
+ * @param req - The HTTP request containing the authorization header and a JSON body with `subtaskIds`.
+ * @param params - The URL parameters, including the task ID.
+ * @returns JSON response with the updated task or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/apiHandler';
+import { ISubtask } from '@/models/Task';
+import { invalidField, parseBody, parseParams } from '@/lib/schema';
+import { subtaskOrderSchema, taskParamsSchema } from '@/lib/taskSchema';
+import { ApiError } from '@/lib/apiError';
+
+export const PUT = withAuth<{ id: string }>(async (req, { db, userId }, { params }) => {
+  const { id } = parseParams(params, taskParamsSchema);
+  const subtaskIds = (await parseBody(req, subtaskOrderSchema)).subtaskIds.map(String);
+
+  const taskFilter = { _id: id, userId };
+  const task = await db.collection('tasks').findOne(taskFilter);
+  if (!task) {
+    throw new ApiError('TASK_NOT_FOUND');
+  }
+
+  // The new order must be a permutation of the current subtasks
+  const subtasks: ISubtask[] = task.subtasks || [];
+  const byId = new Map(subtasks.map((subtask) => [subtask._id.toString(), subtask]));
+  if (subtaskIds.length !== subtasks.length || new Set(subtaskIds).size !== subtaskIds.length || subtaskIds.some((subtaskId) => !byId.has(subtaskId))) {
+    throw invalidField('subtaskIds', 'Invalid subtask list');
+  }
+
+  const reordered = subtaskIds.map((subtaskId) => byId.get(subtaskId));
+  await db.collection('tasks').updateOne(taskFilter, { $set: { subtasks: reordered } });
+
+  return NextResponse.json({ success: true, task: { ...task, subtasks: reordered } }, { status: 200 });
+});
@@ -0,0 +1,35 @@
+//
+// app/api/tasks/[id]/subtasks/route.ts
+/**
+ * Adds subtasks to a task of the authenticated user.
+ *
+ * - POST: Appends a subtask with a `title` and an optional `dueDate` to the end of the task's checklist,
+ *   without rewriting the rest of the task.
+ *
+ * @param req - The HTTP request containing the authorization header and the subtask data.
+ * @param params - The URL parameters, including the task ID.
+ * @returns JSON response with the new subtask and the updated task, or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/apiHandler';
+import { createSubtask, ITask } from '@/models/Task';
+import { parseBody, parseParams } from '@/lib/schema';
+import { newSubtaskSchema, taskParamsSchema } from '@/lib/taskSchema';
+import { ApiError } from '@/lib/apiError';
+
+export const POST = withAuth<{ id: string }>(async (req, { db, userId }, { params }) => {
+  const { id } = parseParams(params, taskParamsSchema);
+  const subtask = createSubtask(await parseBody(req, newSubtaskSchema));
+
+  const taskFilter = { _id: id, userId };
+  const result = await db.collection<ITask>('tasks').updateOne(taskFilter, { $push: { subtasks: subtask } });
+
+  if (result.matchedCount === 0) {
+    throw new ApiError('TASK_NOT_FOUND');
+  }
+
+  const task = await db.collection('tasks').findOne(taskFilter);
+
+  return NextResponse.json({ success: true, subtask, task }, { status: 201 });
+});
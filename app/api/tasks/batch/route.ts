@@ -0,0 +1,33 @@
+//
+// app/api/tasks/batch/route.ts
+/**
+ * Applies one action to many tasks of the authenticated user, for the bulk action bar of the tasks page.
+ *
+ * - POST: Receives an `action` (`complete`, `uncomplete`, `priority`, `category`, `reschedule` or `delete`), the
+ *   `taskIds` it applies to (up to `MAX_BATCH_TASKS`) and the value of the action: `priority`, `categoryId` (null
+ *   removes the category) or `dueDate`. `force` completes tasks whose blockers are still open. The whole batch is
+ *   checked before anything is written (see `lib/taskBatch.ts`); an invalid value is answered with 400 and its path.
+ *   Returns the result of every task: tasks of other users or unknown tasks fail with `TASK_NOT_FOUND`, and blocked
+ *   tasks with `TASK_BLOCKED` and their open `blockers`.
+ *
+ * @param req - The HTTP request containing the authorization header and a JSON body with the action and task IDs.
+ * @returns JSON response with the result of each task and the number of updated tasks, or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/apiHandler';
+import { parseBody } from '@/lib/schema';
+import { taskBatchSchema } from '@/lib/taskSchema';
+import { applyTaskBatch } from '@/lib/taskBatch';
+
+export const POST = withAuth(async (req, { db, userId }) => {
+  const batch = await parseBody(req, taskBatchSchema);
+
+  const results = await applyTaskBatch(db, userId, batch);
+  const updatedCount = results.filter((result) => result.success).length;
+
+  return NextResponse.json(
+    { success: true, action: batch.action, updatedCount, failedCount: results.length - updatedCount, results },
+    { status: 200 }
+  );
+});
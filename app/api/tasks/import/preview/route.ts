@@ -0,0 +1,36 @@
+//
+/**
+ * app/api/tasks/import/preview/route.ts
+ * Previews an import of tasks for the authenticated user, without saving anything.
+ *
+ * - `POST`: Reads the file sent as `content` (see `lib/taskImport.ts` for the formats and `mapping`) and checks
+ *   every row with the rules of `POST /api/tasks`. Returns the rows with their errors, the number of valid rows and
+ *   the names of the categories and tags that the import would create. CSV files also return their `columns` and the
+ *   `mapping` used, guessed from the header when none was sent. A file that cannot be read is answered with 400
+ *   and `content` as the path of the error.
+ *
+ * @param req - The HTTP request containing the authorization header and a JSON body with `format`, `content` and
+ *   an optional `mapping`.
+ * @returns JSON response with the preview of the import or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/apiHandler';
+import { parseBody } from '@/lib/schema';
+import { planTaskImport, taskImportSchema } from '@/lib/taskImport';
+
+export const POST = withAuth(async (req, { db, userId }) => {
+  const file = await parseBody(req, taskImportSchema);
+  const plan = await planTaskImport(db, userId, file);
+
+  return NextResponse.json({
+    success: true,
+    source: file.source,
+    columns: file.columns,
+    mapping: file.mapping,
+    rows: plan.rows,
+    validCount: plan.tasks.length,
+    newCategories: plan.categories.map(({ name }) => name),
+    newTags: plan.tags.map(({ name }) => name),
+  }, { status: 200 });
+});
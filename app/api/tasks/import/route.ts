@@ -0,0 +1,34 @@
+//
+/**
+ * app/api/tasks/import/route.ts
+ * Imports tasks in bulk for the authenticated user.
+ *
+ * - `POST`: Takes the same body as `POST /api/tasks/import/preview` and creates the tasks of the valid rows,
+ *   together with the missing categories and tags they use. Rows with errors are skipped and returned with their
+ *   errors, so the wizard can report them.
+ *
+ * @param req - The HTTP request containing the authorization header and a JSON body with `format`, `content` and
+ *   an optional `mapping`.
+ * @returns JSON response with the number of imported and skipped rows, or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/apiHandler';
+import { parseBody } from '@/lib/schema';
+import { planTaskImport, saveTaskImport, taskImportSchema } from '@/lib/taskImport';
+
+export const POST = withAuth(async (req, { db, userId }) => {
+  const file = await parseBody(req, taskImportSchema);
+  const plan = await planTaskImport(db, userId, file);
+  await saveTaskImport(db, plan);
+
+  const skippedRows = plan.rows.filter(({ errors }) => errors.length > 0);
+  return NextResponse.json({
+    success: true,
+    imported: plan.tasks.length,
+    skipped: skippedRows.length,
+    createdCategories: plan.categories.map(({ name }) => name),
+    createdTags: plan.tags.map(({ name }) => name),
+    errors: skippedRows.map(({ row, errors }) => ({ row, errors })),
+  }, { status: 201 });
+});
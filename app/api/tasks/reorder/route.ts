@@ -0,0 +1,94 @@
+//
+// app/api/tasks/reorder/route.ts
+/**
+ * Persists the order of tasks inside a board column for authenticated users.
+ *
+ * - PUT: Receives a board `status` and the ordered list of task IDs in that column. Every task is moved
+ *   to the column and receives its index as `position`, so the board order survives reloads. Only tasks
+ *   owned by the authenticated user are touched. Tasks moved to `done` are completed, unless one of
+ *   their blockers is still open: the route then answers 409 `TASK_BLOCKED` with the open blockers in
+ *   `details.blockers` and changes nothing, unless `force` is true (as `PUT /api/tasks/[id]` does).
+ *   Blockers moved to `done` by the same request do not block. Completing an occurrence of a recurring task
+ *   creates the next occurrence; the new tasks are returned as `nextTasks`.
+ *
+ * @param req - The HTTP request containing the authorization header and a JSON body with `status`, `taskIds` and `force`.
+ * @returns JSON response with the number of updated tasks and the next occurrences, or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/apiHandler';
+import { ITask, TASK_STATUSES } from '@/models/Task';
+import { getOpenBlockers } from '@/lib/dependencies';
+import { completeTask } from '@/lib/taskCompletion';
+import { array, boolean, object, objectId, oneOf, optional, parseBody } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+
+const bodySchema = object({
+  status: oneOf(TASK_STATUSES, { message: 'Invalid status' }),
+  taskIds: array(objectId({ message: 'Invalid task list' }), { message: 'Invalid task list' }),
+  force: optional(boolean({ label: 'force' })),
+});
+
+export const PUT = withAuth(async (req, { db, userId }) => {
+  const { status, taskIds, force } = await parseBody(req, bodySchema);
+
+  if (taskIds.length === 0) {
+    return NextResponse.json({ success: true, modifiedCount: 0 }, { status: 200 });
+  }
+
+  // Tasks moved to the done column are completed, unless they are still blocked
+  const completing = status === 'done'
+    ? await db.collection<ITask>('tasks').find({ _id: { $in: taskIds }, userId, completed: { $ne: true } }).toArray()
+    : [];
+
+  if (completing.length > 0 && force !== true) {
+    const columnIds = taskIds.map(String);
+    const blockerIds = completing
+      .flatMap((task) => task.blockedBy || [])
+      .filter((blockerId) => !columnIds.includes(String(blockerId)));
+    const openBlockers = await getOpenBlockers(db, userId, blockerIds);
+    if (openBlockers.length > 0) {
+      throw new ApiError('TASK_BLOCKED', undefined, { blockers: openBlockers });
+    }
+  }
+
+  // Each task takes its index in the column as position; completion follows the done column
+  const completingById = new Map(completing.map((task) => [String(task._id), task]));
+  const operations = taskIds
+    .map((id, index) => ({ id, index }))
+    .filter(({ id }) => !completingById.has(String(id)))
+    .map(({ id, index }) => ({
+      updateOne: {
+        filter: { _id: id, userId },
+        update: [
+          {
+            $set: {
+              status,
+              position: index,
+              completed: status === 'done',
+              // Keep the original completion date of tasks that were already done
+              completedAt: status === 'done' ? { $ifNull: ['$completedAt', '$$NOW'] } : null,
+            },
+          },
+        ],
+      },
+    }));
+
+  let modifiedCount = 0;
+  if (operations.length > 0) {
+    const result = await db.collection('tasks').bulkWrite(operations, { ordered: false });
+    modifiedCount = result.modifiedCount;
+  }
+
+  // Tasks completed by the move create the next occurrence of a recurring task, as `PUT /api/tasks/[id]` does
+  const nextTasks: ITask[] = [];
+  for (let index = 0; index < taskIds.length; index++) {
+    const task = completingById.get(String(taskIds[index]));
+    if (!task) continue;
+    const { completed, nextTask } = await completeTask(db, userId, task, { status, position: index });
+    if (completed) modifiedCount += 1;
+    if (nextTask) nextTasks.push(nextTask);
+  }
+
+  return NextResponse.json({ success: true, modifiedCount, nextTasks }, { status: 200 });
+});
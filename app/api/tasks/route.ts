@@ -3,134 +3,180 @@
 /**
  * Handles task-related API requests, including retrieving and creating tasks for authenticated users.
  * 
- * - GET: Fetches all tasks for the authenticated user, marking overdue tasks based on their due dates.
- * - POST: Validates and creates a new task for the authenticated user, including optional due dates, times, and priorities.
+ * - GET: Fetches a page of the authenticated user's tasks, marking overdue tasks based on their due dates. Accepts
+ *   the filter, sort and cursor pagination parameters described in `lib/taskQuery.ts` (pages hold 50 tasks unless
+ *   `limit` asks for another size), and returns the number of matching tasks as `total` together with
+ *   `nextCursor` (null on the last page). Each task comes with the tasks
+ *   blocking it (`blockers`) and the tasks it blocks (`blocking`). A malformed parameter is answered with 400 and
+ *   its name as the path of the error.
+ * - POST: Validates the body with `newTaskSchema` (see `lib/taskSchema.ts`) and creates a new task for the
+ *   authenticated user, including its category, optional due dates, times, priorities, a recurrence rule
+ *   (see `lib/recurrence.ts`), an initial list of subtasks and its dependencies (`blockedBy` and `blocks`,
+ *   see `lib/dependencies.ts`) and tags (`tagIds`). Invalid fields are answered with 400 and their paths.
  * 
  * @param req - The HTTP request object, containing headers and body data.
  * @returns JSON response with task data or error messages, depending on the operation and outcome.
  */
 
 import { NextResponse } from "next/server";
-import dbConnect from "@/lib/mongodb";
-import { createTask } from "@/models/Task";
-import { verifyToken } from "@/lib/auth";
-import { ObjectId } from "mongodb";
-
-export async function GET(req: Request) {
+import { createSubtask, createTask, ISubtask } from "@/models/Task";
+import { withAuth } from "@/lib/apiHandler";
+import { Document, ObjectId } from "mongodb";
+import { parseTaskQuery, encodeCursor, TaskQueryError } from "@/lib/taskQuery";
+import {
+  attachDependencies,
+  buildReadyStages,
+  DependencyError,
+  saveBlockedTasks,
+  validateDependencies,
+} from "@/lib/dependencies";
+import { TagError, validateTagIds } from "@/lib/tags";
+import { invalidField, parseBody } from "@/lib/schema";
+import { newTaskSchema } from "@/lib/taskSchema";
+
+export const GET = withAuth(async (req, { db, userId }) => {
   console.log("API GET request initiated");
+  let query;
   try {
-    const db = await dbConnect();
-    const token = req.headers.get("Authorization")?.split(" ")[1];
-
-    if (!token) {
-      return NextResponse.json(
-        { success: false, message: "No token provided" },
-        { status: 401 }
-      );
+    query = parseTaskQuery(new URL(req.url).searchParams, userId);
+  } catch (error) {
+    if (error instanceof TaskQueryError) {
+      throw invalidField(error.param, error.message);
     }
+    throw error;
+  }
 
-    const decoded = verifyToken(token);
-    const userId = new ObjectId(decoded.userId);
+  const pageFilter = query.cursorFilter
+    ? { $and: [query.filter, query.cursorFilter] }
+    : query.filter;
+
+  // Fetch one extra task to know whether another page exists. "Ready to start" tasks are the open tasks that
+  // no open task blocks, found by looking up the blockers of each task
+  let tasks: Document[];
+  let total: number;
+  if (query.ready) {
+    const readyStages = buildReadyStages();
+    tasks = await db.collection("tasks").aggregate([
+      { $match: pageFilter },
+      { $sort: query.sort },
+      ...readyStages,
+      { $limit: query.limit + 1 },
+    ]).toArray();
+    const [count] = await db.collection("tasks")
+      .aggregate([{ $match: query.filter }, ...readyStages, { $count: "total" }])
+      .toArray();
+    total = count?.total ?? 0;
+  } else {
+    tasks = await db.collection("tasks").find(pageFilter, { sort: query.sort, limit: query.limit + 1 }).toArray();
+    total = await db.collection("tasks").countDocuments(query.filter);
+  }
 
-    // Fetch all tasks for the authenticated user
-    const tasks = await db.collection("tasks").find({ userId }).toArray();
+  const hasMore = tasks.length > query.limit;
+  const pageTasks = hasMore ? tasks.slice(0, query.limit) : tasks;
+  const nextCursor = hasMore
+    ? encodeCursor(pageTasks[pageTasks.length - 1], query.sortField)
+    : null;
+
+  const currentDate = new Date();
+  const tasksWithDependencies = await attachDependencies(db, userId, pageTasks);
+  const tasksWithOverdueStatus = tasksWithDependencies.map(task => ({
+    ...task,
+    overdue: task.dueDate && new Date(task.dueDate) < currentDate,
+    dueDate: task.dueDate, // Ensure dueDate is returned
+    dueTime: task.dueTime, // Ensure dueTime is returned
+  }));
+
+  return NextResponse.json(
+    { success: true, tasks: tasksWithOverdueStatus, total, nextCursor },
+    { status: 200 }
+  );
+});
+
+export const POST = withAuth(async (req, { db, userId }) => {
+  const {
+    title, resume, description, categoryId, dueDate, dueTime, priority, recurrence, subtasks, autoCompleteSubtasks,
+    blockedBy, blocks, tagIds,
+  } = await parseBody(req, newTaskSchema);
+
+  if (dueTime && !dueDate) {
+    throw invalidField('dueTime', 'Please provide a due date if you set a time.', 'due_date_required');
+  }
 
-    // Log the tasks retrieved from the database
-    console.log("Retrieved tasks:", tasks);
+  // Occurrences of a recurring task are computed from its due date
+  if (recurrence && !dueDate) {
+    throw invalidField('recurrence', 'Recurring tasks require a due date', 'due_date_required');
+  }
 
-    const currentDate = new Date();
-    const tasksWithOverdueStatus = tasks.map(task => ({
-      ...task,
-      overdue: task.dueDate && new Date(task.dueDate) < currentDate,
-      dueDate: task.dueDate, // Ensure dueDate is returned
-      dueTime: task.dueTime, // Ensure dueTime is returned
-    }));
+  if (categoryId && !(await db.collection('categories').findOne({ _id: categoryId, userId }))) {
+    throw invalidField('categoryId', 'Category not found', 'not_found');
+  }
 
-    // Log tasks after processing for overdue status
-    console.log("Processed tasks with dueDate and dueTime:", tasksWithOverdueStatus);
+  // Build the checklist items sent with the new task
+  const newSubtasks: ISubtask[] = (subtasks || []).map((subtask) => createSubtask(subtask));
 
-    return NextResponse.json(
-      { success: true, tasks: tasksWithOverdueStatus },
-      { status: 200 }
-    );
+  // Validate the dependencies against the user's other tasks
+  const newTaskId = new ObjectId();
+  try {
+    await validateDependencies(db, userId, newTaskId, { blockedBy, blocks });
   } catch (error) {
-    return NextResponse.json(
-      {
-        success: false,
-        message: "Internal server error",
-        error: (error as Error).message,
-      },
-      { status: 500 }
-    );
+    if (error instanceof DependencyError) {
+      throw invalidField(blockedBy ? 'blockedBy' : 'blocks', error.message, error.code);
+    }
+    throw error;
   }
-}
 
-export async function POST(req: Request) {
-  try {
-    const db = await dbConnect();
-    const token = req.headers.get('Authorization')?.split(' ')[1];
-
-    if (!token) {
-      return NextResponse.json(
-        { success: false, message: 'No token provided' },
-        { status: 401 }
-      );
+  let validTagIds: ObjectId[] | undefined;
+  if (tagIds) {
+    try {
+      validTagIds = await validateTagIds(db, userId, tagIds);
+    } catch (error) {
+      if (error instanceof TagError) {
+        throw invalidField('tagIds', error.message, error.code);
+      }
+      throw error;
     }
+  }
 
-    const decoded = verifyToken(token);
-    const userId = new ObjectId(decoded.userId);
-
-    // Extract task details from request body
-    const { title, resume, description, dueDate, dueTime, priority } = await req.json();
-
-    // Validate priority field
-    const validPriorities = ['highest', 'high', 'medium', 'low', 'lowest'];
-    if (priority && !validPriorities.includes(priority)) {
-      return NextResponse.json(
-        { success: false, message: 'Invalid priority level' },
-        { status: 400 }
-      );
+  // Process dueDate and dueTime
+  if (dueDate) {
+    if (dueTime) {
+      const [hours, minutes] = dueTime.split(":").map(Number);
+      dueDate.setHours(hours, minutes, 0);
+    } else {
+      dueDate.setHours(23, 59, 0); // Default to end of day
     }
 
-    // Process dueDate and dueTime
-    let processedDueDate: Date | undefined = undefined;
-    if (dueDate) {
-      processedDueDate = new Date(dueDate);
-
-      if (dueTime) {
-        const [hours, minutes] = dueTime.split(":").map(Number);
-        processedDueDate.setHours(hours, minutes, 0);
-      } else {
-        processedDueDate.setHours(23, 59, 0); // Default to end of day
-      }
+    if (dueDate < new Date()) {
+      throw invalidField('dueDate', 'Cannot set a due date in the past', 'past_date');
     }
+  }
 
-    // Create a new task with validated priority
-    const newTask = createTask({
-      title,
-      resume,
-      description,
-      userId,
-      dueDate: processedDueDate,
-      dueTime: dueTime || undefined,
-      priority
-    });
-
-    await db.collection('tasks').insertOne(newTask);
-
-    return NextResponse.json(
-      { success: true, task: { ...newTask, dueDate: newTask.dueDate || null, dueTime: newTask.dueTime || null } }, 
-      { status: 201 }
-    );
-  } catch (error) {
-    return NextResponse.json(
-      {
-        success: false,
-        message: 'Internal server error',
-        error: (error as Error).message,
-      },
-      { status: 500 }
-    );
+  // Create a new task with validated priority
+  const newTask = createTask({
+    _id: newTaskId,
+    title,
+    resume,
+    description,
+    userId,
+    categoryId: categoryId ? categoryId.toString() : undefined,
+    dueDate,
+    dueTime: dueTime || undefined,
+    priority,
+    recurrence: recurrence || undefined,
+    subtasks: newSubtasks,
+    autoCompleteSubtasks: autoCompleteSubtasks === true,
+    blockedBy,
+    tagIds: validTagIds,
+  });
+
+  await db.collection('tasks').insertOne(newTask);
+
+  if (blocks?.length) {
+    await saveBlockedTasks(db, userId, newTaskId, blocks);
   }
-}
 
+  return NextResponse.json(
+    { success: true, task: { ...newTask, dueDate: newTask.dueDate || null, dueTime: newTask.dueTime || null } }, 
+    { status: 201 }
+  );
+});
\ No newline at end of file
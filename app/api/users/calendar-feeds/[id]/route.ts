@@ -0,0 +1,30 @@
+//
+/**
+ * app/api/users/calendar-feeds/[id]/route.ts
+ * Revokes an iCalendar feed of the authenticated user.
+ *
+ * - `DELETE`: Deletes the feed, so its URL stops working at once. Returns 404 `CALENDAR_FEED_NOT_FOUND` for an
+ *   unknown feed.
+ *
+ * @param req - The incoming HTTP request containing an authorization token.
+ * @param params - The request parameters, including the feed `id`.
+ * @returns JSON response confirming the revocation, or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/apiHandler';
+import { object, objectId, parseParams } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+import { revokeFeed } from '@/lib/taskCalendar';
+
+const paramsSchema = object({ id: objectId({ label: 'feed ID' }) });
+
+export const DELETE = withAuth<{ id: string }>(async (req, { db, userId }, { params }) => {
+  const { id } = parseParams(params, paramsSchema);
+
+  if (!(await revokeFeed(db, userId, id))) {
+    throw new ApiError('CALENDAR_FEED_NOT_FOUND');
+  }
+
+  return NextResponse.json({ success: true, message: 'Calendar feed revoked' }, { status: 200 });
+});
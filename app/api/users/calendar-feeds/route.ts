@@ -0,0 +1,48 @@
+//
+/**
+ * app/api/users/calendar-feeds/route.ts
+ * Manages the iCalendar feeds that publish the tasks of the authenticated user to calendar apps.
+ *
+ * - `GET`: Lists the feeds, newest first, with their `categoryIds`, `component`, `createdAt` and `lastUsedAt`.
+ * - `POST`: Creates a feed limited to `categoryIds` (every category when empty or missing) and publishing tasks as
+ *   events or to-dos (`component`, `event` by default). Returns 201 with the feed and its secret `url`, which is
+ *   only shown this once. Unknown categories are answered with 400 and `categoryIds` as the path of the error.
+ *
+ * @param req - The incoming HTTP request containing an authorization token and, for POST, the feed options.
+ * @returns JSON response with the feeds, or the new feed and its URL, or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { withAuth } from '@/lib/apiHandler';
+import { array, invalidField, object, objectId, oneOf, optional, parseBody } from '@/lib/schema';
+import { CALENDAR_FEED_COMPONENTS } from '@/models/CalendarFeed';
+import { createFeed, listFeeds } from '@/lib/taskCalendar';
+import { getAppUrl } from '@/lib/mail/templates';
+
+const bodySchema = object({
+  categoryIds: optional(array(objectId({ message: 'Invalid category' }), { message: 'Invalid category' })),
+  component: optional(oneOf(CALENDAR_FEED_COMPONENTS, { message: 'Invalid component' })),
+});
+
+export const GET = withAuth(async (req, { db, userId }) => {
+  const feeds = await listFeeds(db, userId);
+  return NextResponse.json({ success: true, feeds }, { status: 200 });
+});
+
+export const POST = withAuth(async (req, { db, userId }) => {
+  const { categoryIds = [], component } = await parseBody(req, bodySchema);
+
+  const uniqueIds = Array.from(new Set(categoryIds.map(String))).map((id) => new ObjectId(id));
+  if (uniqueIds.length > 0) {
+    const found = await db.collection('categories').countDocuments({ userId, _id: { $in: uniqueIds } });
+    if (found !== uniqueIds.length) {
+      throw invalidField('categoryIds', 'Category not found', 'not_found');
+    }
+  }
+
+  const { feed, token } = await createFeed(db, userId, { categoryIds: uniqueIds, component });
+  const url = `${getAppUrl()}/api/calendar/${token}.ics`;
+
+  return NextResponse.json({ success: true, feed, url }, { status: 201 });
+});
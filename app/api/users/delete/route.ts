@@ -1,38 +1,71 @@
 //
 // app/api/users/delete/route.ts
 /**
- * Deletes a user account associated with the provided authentication token.
- * 
- * - DELETE: Verifies the user's authentication token, connects to the database, and deletes the user account
- *   associated with the token's user ID.
- * 
- * @param request - The HTTP DELETE request containing the authorization header with the token.
- * @returns JSON response with a success message upon user deletion or an error message if unauthorized or if an issue occurs.
+ * Deletes the account of the authenticated user, after a grace period (see `lib/accountDeletion.ts`).
+ *
+ * - DELETE: The user authenticates again with their `password`, and a `code` when two-factor authentication is
+ *   enabled. The deletion is scheduled for `deletionScheduledFor`, every session is logged out (the refresh token
+ *   cookie is cleared) and an email tells the date. With no grace period, the account is deleted at once.
+ *   A deletion that is already scheduled returns 409 `ACCOUNT_DELETION_PENDING`. Wrong passwords and codes are
+ *   throttled and recorded like failed logins (see `lib/loginThrottle.ts`).
+ *
+ * @param request - The HTTP DELETE request containing the authorization header with the token and a JSON body.
+ * @returns JSON response with the date of the deletion, or an error.
  */
 
 import { NextResponse } from 'next/server';
-import dbConnect from '@/lib/mongodb';
-import { verifyToken } from '@/lib/auth';
-import { ObjectId } from 'mongodb';
+import { IUser, verifyPassword } from '@/models/User';
+import { withAuth } from '@/lib/apiHandler';
+import { invalidField, object, optional, parseBody, string } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+import { verifySecondFactor } from '@/lib/twoFactor';
+import { scheduleAccountDeletion } from '@/lib/accountDeletion';
+import { clearRefreshCookie } from '@/lib/sessions';
+import { checkLoginThrottle, recordLoginFailure, tooManyAttempts } from '@/lib/loginThrottle';
 
-export async function DELETE(request: Request) {
-  try {
-    const authorization = request.headers.get('authorization');
-    const token = authorization?.split(' ')[1];
+const bodySchema = object({
+  password: string({ label: 'Password', trim: false }),
+  code: optional(string({ label: 'Code' })),
+});
 
-    if (!token) {
-      return NextResponse.json({ success: false, message: 'No token provided' }, { status: 401 });
-    }
-
-    const decoded = verifyToken(token);
+export const DELETE = withAuth(async (request, { db, userId }) => {
+  const { password, code } = await parseBody(request, bodySchema);
+  const user = await db.collection<IUser>('users').findOne({ _id: userId });
 
-    const db = await dbConnect();
-    const usersCollection = db.collection('users');
+  if (!user) {
+    throw new ApiError('USER_NOT_FOUND');
+  }
+  if (user.deletionScheduledFor) {
+    throw new ApiError('ACCOUNT_DELETION_PENDING');
+  }
 
-    await usersCollection.deleteOne({ _id: new ObjectId(decoded.userId) });
+  // Guesses here count like failed logins, so a stolen session cannot be used to find out the password
+  const retryAfter = await checkLoginThrottle(db, user.email, request);
+  if (retryAfter > 0) {
+    throw tooManyAttempts(retryAfter);
+  }
 
-    return NextResponse.json({ success: true, message: 'User deleted successfully' }, { status: 200 });
-  } catch (error) {
-    return NextResponse.json({ success: false, message: 'Internal server error', error: (error as Error).message }, { status: 500 });
+  // 403 rather than 401, which the client treats as an expired session
+  if (user.twoFactorEnabled) {
+    if (!code) {
+      throw invalidField('code', 'Code is required', 'required');
+    }
+    const isMatch = await verifyPassword(password, user.password);
+    if (!isMatch || !(await verifySecondFactor(db, user, code))) {
+      await recordLoginFailure(db, { email: user.email, userId, reason: isMatch ? 'two_factor' : 'password', req: request });
+      throw new ApiError('PASSWORD_OR_CODE_INCORRECT');
+    }
+  } else if (!(await verifyPassword(password, user.password))) {
+    await recordLoginFailure(db, { email: user.email, userId, reason: 'password', req: request });
+    throw new ApiError('PASSWORD_INCORRECT');
   }
-}
+
+  const deletionScheduledFor = await scheduleAccountDeletion(db, user);
+
+  const response = NextResponse.json({
+    success: true,
+    message: 'Account deletion scheduled',
+    deletionScheduledFor,
+  }, { status: 200 });
+  return clearRefreshCookie(response);
+});
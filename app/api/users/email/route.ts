@@ -0,0 +1,84 @@
+// 
+/**
+ * app/api/users/email/route.ts
+ * Changes the email of the authenticated user, from the "Security" section of the profile page.
+ * 
+ * - `PUT`: Takes `{ currentPassword, email }`. The current password must be correct and the new email must not
+ *   belong to another account. The new email is kept as `pendingEmail` and a verification link is sent to it;
+ *   the account keeps its current email (and login) until the link is opened (see `lib/emailVerification.ts`).
+ *   Asking again replaces the pending email. Wrong current passwords are throttled and recorded like failed logins
+ *   (see `lib/loginThrottle.ts`).
+ * - `DELETE`: Cancels a pending email change and invalidates the link sent for it.
+ * 
+ * @param req - The incoming HTTP request containing an authorization token and, for PUT, the JSON body.
+ * @returns JSON response with the pending email, or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { IUser, verifyPassword } from '@/models/User';
+import { sendVerificationEmail } from '@/lib/emailVerification';
+import { withAuth } from '@/lib/apiHandler';
+import { email, invalidField, object, parseBody, string } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+import { checkLoginThrottle, recordLoginFailure, tooManyAttempts } from '@/lib/loginThrottle';
+
+const bodySchema = object({
+  currentPassword: string({ label: 'Current password', trim: false }),
+  email: email(),
+});
+
+export const PUT = withAuth(async (req, { db, userId }) => {
+  const { currentPassword, email: newEmail } = await parseBody(req, bodySchema);
+
+  const usersCollection = db.collection<IUser>('users');
+  const user = await usersCollection.findOne({ _id: userId });
+
+  if (!user) {
+    throw new ApiError('USER_NOT_FOUND');
+  }
+
+  // Guesses here count like failed logins, so a stolen session cannot be used to find out the password
+  const retryAfter = await checkLoginThrottle(db, user.email, req);
+  if (retryAfter > 0) {
+    throw tooManyAttempts(retryAfter);
+  }
+
+  // 403 rather than 401, which the client treats as an expired session
+  if (!(await verifyPassword(currentPassword, user.password))) {
+    await recordLoginFailure(db, { email: user.email, userId, reason: 'password', req });
+    throw new ApiError('PASSWORD_INCORRECT');
+  }
+
+  if (newEmail === user.email) {
+    throw invalidField('email', 'The new email is the current email', 'unchanged');
+  }
+
+  if (await usersCollection.findOne({ email: newEmail })) {
+    throw new ApiError('EMAIL_IN_USE');
+  }
+
+  await sendVerificationEmail(db, user, newEmail);
+
+  return NextResponse.json({
+    success: true,
+    message: 'Verification email sent to the new address',
+    pendingEmail: newEmail,
+  }, { status: 200 });
+});
+
+export const DELETE = withAuth(async (req, { db, userId }) => {
+  const usersCollection = db.collection<IUser>('users');
+  const user = await usersCollection.findOne({ _id: userId });
+
+  if (!user) {
+    throw new ApiError('USER_NOT_FOUND');
+  }
+
+  // The link was sent to the pending email, so it must not confirm anything else; the banner can send a new one
+  await usersCollection.updateOne(
+    { _id: user._id },
+    { $unset: { pendingEmail: '', emailVerificationTokenHash: '', emailVerificationExpiresAt: '' } }
+  );
+
+  return NextResponse.json({ success: true, message: 'Email change cancelled' }, { status: 200 });
+});
@@ -0,0 +1,49 @@
+//
+/**
+ * app/api/users/export/[id]/download/route.ts
+ * Downloads a ready data export of the authenticated user.
+ *
+ * - `GET`: `format` chooses the file: `zip` (default) for the whole archive, `json` for `data.json` or `csv` for
+ *   `tasks.csv`. Returns 404 `DATA_EXPORT_NOT_FOUND` for an unknown or expired job, and 409
+ *   `DATA_EXPORT_NOT_READY` while it is running or when it failed.
+ *
+ * @param req - The incoming HTTP request containing an authorization token.
+ * @param params - The request parameters, including the export `id`.
+ * @returns The file as an attachment, or a JSON error message.
+ */
+
+import { withAuth } from '@/lib/apiHandler';
+import { object, objectId, oneOf, optional, parseParams, parseQuery } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+import { DATA_EXPORT_DOWNLOADS, DataExportDownload, findDataExport, readDataExportFile } from '@/lib/dataExport';
+
+const paramsSchema = object({ id: objectId({ label: 'export ID' }) });
+
+const querySchema = object({
+  format: optional(oneOf(Object.keys(DATA_EXPORT_DOWNLOADS) as DataExportDownload[], { message: 'Invalid format' })),
+});
+
+export const GET = withAuth<{ id: string }>(async (req, { db, userId }, { params }) => {
+  const { id } = parseParams(params, paramsSchema);
+  const { format = 'zip' } = parseQuery(req, querySchema);
+
+  const job = await findDataExport(db, userId, id);
+  if (!job) {
+    throw new ApiError('DATA_EXPORT_NOT_FOUND');
+  }
+
+  const file = job.status === 'ready' ? await readDataExportFile(db, userId, id, format) : null;
+  if (!file) {
+    throw new ApiError('DATA_EXPORT_NOT_READY');
+  }
+
+  return new Response(file.content, {
+    status: 200,
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.filename}"`,
+      'Content-Length': String(file.content.length),
+      'Cache-Control': 'no-store',
+    },
+  });
+});
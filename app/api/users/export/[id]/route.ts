@@ -0,0 +1,31 @@
+//
+/**
+ * app/api/users/export/[id]/route.ts
+ * Reports the progress of a data export of the authenticated user.
+ *
+ * - `GET`: Returns the job with its `status` (`pending`, `running`, `ready` or `failed`) and `progress` (0 to 100).
+ *   Returns 404 `DATA_EXPORT_NOT_FOUND` for an unknown or expired job.
+ *
+ * @param req - The incoming HTTP request containing an authorization token.
+ * @param params - The request parameters, including the export `id`.
+ * @returns JSON response with the export job, or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/apiHandler';
+import { object, objectId, parseParams } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+import { findDataExport } from '@/lib/dataExport';
+
+const paramsSchema = object({ id: objectId({ label: 'export ID' }) });
+
+export const GET = withAuth<{ id: string }>(async (req, { db, userId }, { params }) => {
+  const { id } = parseParams(params, paramsSchema);
+  const job = await findDataExport(db, userId, id);
+
+  if (!job) {
+    throw new ApiError('DATA_EXPORT_NOT_FOUND');
+  }
+
+  return NextResponse.json({ success: true, export: job }, { status: 200 });
+});
@@ -0,0 +1,26 @@
+//
+/**
+ * app/api/users/export/route.ts
+ * Exports the data of the authenticated user from the profile page (see `lib/dataExport.ts`).
+ *
+ * - `GET`: Returns the latest export job, or `null` when there is none.
+ * - `POST`: Starts an export in the background and returns its job with a 202; while a job is running for the user,
+ *   that job is returned instead of starting another one. Its progress is read from `/api/users/export/[id]`.
+ *
+ * @param req - The incoming HTTP request containing an authorization token.
+ * @returns JSON response with the export job, or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/apiHandler';
+import { findLatestDataExport, startDataExport } from '@/lib/dataExport';
+
+export const GET = withAuth(async (req, { db, userId }) => {
+  const job = await findLatestDataExport(db, userId);
+  return NextResponse.json({ success: true, export: job }, { status: 200 });
+});
+
+export const POST = withAuth(async (req, { db, userId }) => {
+  const job = await startDataExport(db, userId);
+  return NextResponse.json({ success: true, export: job }, { status: 202 });
+});
@@ -0,0 +1,75 @@
+// 
+/**
+ * app/api/users/password/route.ts
+ * Changes the password of the authenticated user, from the "Security" section of the profile page.
+ * 
+ * - `PUT`: Takes `{ currentPassword, newPassword }`. The current password must be correct and the new one must
+ *   follow the strength rules of `getPasswordRuleErrors` (the broken rules are returned in `details.rules`) and differ
+ *   from the current one. Every other session of the user is revoked, and a pending password reset link stops
+ *   working; the session of the request stays logged in. Wrong current passwords are throttled and recorded like
+ *   failed logins (see `lib/loginThrottle.ts`).
+ * 
+ * @param req - The incoming HTTP request containing an authorization token and the JSON body.
+ * @returns JSON response with the number of revoked sessions, or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { hashPassword, IUser, verifyPassword } from '@/models/User';
+import { revokeOtherSessions } from '@/lib/sessions';
+import { getPasswordRuleErrors, MIN_PASSWORD_LENGTH } from '@/lib/utils';
+import { withAuth } from '@/lib/apiHandler';
+import { invalidField, object, parseBody, string, ValidationError } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+import { checkLoginThrottle, recordLoginFailure, tooManyAttempts } from '@/lib/loginThrottle';
+
+const bodySchema = object({
+  currentPassword: string({ label: 'Current password', trim: false }),
+  newPassword: string({ label: 'New password', trim: false }),
+});
+
+export const PUT = withAuth(async (req, { db, userId, sessionId }) => {
+  const { currentPassword, newPassword } = await parseBody(req, bodySchema);
+
+  const rules = getPasswordRuleErrors(newPassword);
+  if (rules.length > 0) {
+    const message = `Password must be at least ${MIN_PASSWORD_LENGTH} characters long and contain a letter and a number`;
+    throw new ValidationError([{ path: 'newPassword', code: 'weak_password', message }], { rules });
+  }
+
+  const usersCollection = db.collection<IUser>('users');
+  const user = await usersCollection.findOne({ _id: userId });
+
+  if (!user) {
+    throw new ApiError('USER_NOT_FOUND');
+  }
+
+  // Guesses here count like failed logins, so a stolen session cannot be used to find out the password
+  const retryAfter = await checkLoginThrottle(db, user.email, req);
+  if (retryAfter > 0) {
+    throw tooManyAttempts(retryAfter);
+  }
+
+  // 403 rather than 401, which the client treats as an expired session
+  if (!(await verifyPassword(currentPassword, user.password))) {
+    await recordLoginFailure(db, { email: user.email, userId, reason: 'password', req });
+    throw new ApiError('PASSWORD_INCORRECT');
+  }
+
+  if (await verifyPassword(newPassword, user.password)) {
+    throw invalidField('newPassword', 'The new password must differ from the current one', 'unchanged');
+  }
+
+  await usersCollection.updateOne(
+    { _id: userId },
+    {
+      $set: { password: await hashPassword(newPassword) },
+      $unset: { passwordResetTokenHash: '', passwordResetExpiresAt: '' },
+    }
+  );
+
+  const currentId = sessionId ? new ObjectId(sessionId) : undefined;
+  const revoked = await revokeOtherSessions(db, userId, currentId);
+
+  return NextResponse.json({ success: true, message: 'Password changed successfully', revoked }, { status: 200 });
+});
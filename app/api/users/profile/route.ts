@@ -3,117 +3,86 @@
 /**
  * Handles user profile retrieval and updates for authenticated users.
  *
- * - GET: Fetches the user profile data based on a valid authentication token.
- * - POST: Updates user profile details, including fields like first name, last name, nickname, and bio.
+ * - GET: Fetches the user profile data based on a valid authentication token, without the password hash and the
+ *   secrets of the account (token hashes, two-factor secret and recovery codes).
+ * - POST: Updates user profile details, including fields like first name, last name, nickname, and bio. Names are
+ *   limited to 50 characters and the bio to 500; invalid fields are answered with 400 and their paths.
  * 
  * @param request - HTTP request containing headers and, if applicable, JSON body with updated user fields.
- * @param res - Optional response object for testing environments.
  * @returns JSON response with success status and profile data or error details if authentication or processing fails.
  */
 
 import { NextResponse } from 'next/server';
-import { verifyToken } from '@/lib/auth'; // Function to verify JWT
-import dbConnect from '@/lib/mongodb'; // Function to connect to MongoDB
-import { ObjectId } from 'mongodb';
-
-// Function to send a response based on the environment (tests or production)
-function sendResponse(res: any, body: any, status: number) {
-  if (res && typeof res.statusCode !== 'undefined') {
-    // Use res.statusCode and res.json in test environment
-    res.statusCode = status;
-    return res.json(body);
-  } else {
-    // Use NextResponse.json in production (Next.js)
-    return NextResponse.json(body, { status });
-  }
-}
+import { withAuth } from '@/lib/apiHandler';
+import { ApiError } from '@/lib/apiError';
+import { object, oneOf, optional, parseBody, string } from '@/lib/schema';
+
+const MAX_NAME_LENGTH = 50;
+const MAX_BIO_LENGTH = 500;
+const PREFERRED_NAME_OPTIONS = ['username', 'firstName', 'lastName', 'nickname', 'fullName'] as const;
+
+// Credentials and secrets never leave the server
+const PRIVATE_USER_FIELDS = {
+  password: 0,
+  passwordResetTokenHash: 0,
+  emailVerificationTokenHash: 0,
+  twoFactorSecret: 0,
+  twoFactorPendingSecret: 0,
+  twoFactorRecoveryCodes: 0,
+};
+
+const name = optional(string({ empty: true, max: MAX_NAME_LENGTH }));
+
+// The username, email and password are changed through their own routes
+const profileSchema = object({
+  firstName: name,
+  lastName: name,
+  nickname: name,
+  bio: optional(string({ label: 'Bio', empty: true, max: MAX_BIO_LENGTH })),
+  // A data URL from the file picker, a link, or an empty string for no picture
+  profilePicture: optional(string({
+    empty: true,
+    trim: false,
+    pattern: /^$|^data:image\/[\w.+-]+;base64,|^https?:\/\//,
+    message: 'Invalid profile picture',
+  })),
+  preferredNameOption: optional(oneOf(PREFERRED_NAME_OPTIONS, { message: 'Invalid preferred name option' })),
+});
 
 // GET request to fetch the user profile
-export async function GET(request: Request, res?: any) {
-  try {
-    const authorization = request.headers.get('authorization');
-    const token = authorization?.split(' ')[1];
-
-    if (!token) {
-      // Return a 401 response if the token is missing
-      return sendResponse(res, { success: false, message: 'No token provided' }, 401);
-    }
-
-    let decoded;
-    try {
-      decoded = verifyToken(token);
-    } catch (error) {
-      // Return 401 if the token is invalid
-      return sendResponse(res, { success: false, message: 'Invalid token' }, 401);
-    }
+export const GET = withAuth(async (request, { db, userId }) => {
+  const usersCollection = db.collection('users');
+  const user = await usersCollection.findOne({ _id: userId }, { projection: PRIVATE_USER_FIELDS });
 
-    const db = await dbConnect();
-    const usersCollection = db.collection('users');
-    const user = await usersCollection.findOne({ _id: new ObjectId(decoded.userId) });
-
-    if (!user) {
-      // Return a 404 response if the user is not found
-      return sendResponse(res, { success: false, message: 'User not found' }, 404);
-    }
-
-    // Return the user profile data
-    return sendResponse(res, { success: true, profile: user }, 200);
-  } catch (error) {
-    // Handle unexpected errors and return 500
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return sendResponse(res, { success: false, message: 'Failed to fetch profile', error: message }, 500);
+  if (!user) {
+    // Return a 404 response if the user is not found
+    throw new ApiError('USER_NOT_FOUND');
   }
-}
-
 
-// POST request to update the user profile
-export async function POST(request: Request, res?: any) {
-  try {
-    const authorization = request.headers.get('authorization');
-    const token = authorization?.split(' ')[1];
-
-    if (!token) {
-      // Return a 401 response if the token is missing
-      return sendResponse(res, { success: false, message: 'No token provided' }, 401);
-    }
-
-    const decoded = verifyToken(token);
-    const db = await dbConnect();
-    const usersCollection = db.collection('users');
-
-    const user = await usersCollection.findOne({ _id: new ObjectId(decoded.userId) });
-    if (!user) {
-      // Return a 404 response if the user is not found
-      return sendResponse(res, { success: false, message: 'User not found' }, 404);
-    }
+  // Return the user profile data
+  return NextResponse.json({ success: true, profile: user }, { status: 200 });
+});
 
-    const { firstName, lastName, nickname, bio, profilePicture, preferredNameOption } = await request.json();
 
-    // Update the user's profile in the database
-    const updatedProfile = await usersCollection.updateOne(
-      { _id: user._id }, 
-      {
-        $set: {
-          firstName, 
-          lastName, 
-          nickname, 
-          bio, 
-          profilePicture, 
-          preferredNameOption 
-        },
-      }
-    );
+// POST request to update the user profile
+export const POST = withAuth(async (request, { db, userId }) => {
+  const fields = await parseBody(request, profileSchema);
+  const usersCollection = db.collection('users');
+
+  const user = await usersCollection.findOne({ _id: userId });
+  if (!user) {
+    // Return a 404 response if the user is not found
+    throw new ApiError('USER_NOT_FOUND');
+  }
 
-    if (!updatedProfile.acknowledged) {
-      // Return a 500 response if the update operation failed
-      return sendResponse(res, { success: false, message: 'Failed to update profile' }, 500);
-    }
+  // Update the user's profile in the database; fields missing from the body are left unchanged
+  const updatedProfile = await usersCollection.updateOne({ _id: user._id }, { $set: fields });
 
-    // Return a success response when the profile is successfully updated
-    return sendResponse(res, { success: true, message: 'Profile updated successfully' }, 200);
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    // Return a 500 response in case of server errors
-    return sendResponse(res, { success: false, message: 'Failed to update profile', error: message }, 500);
+  if (!updatedProfile.acknowledged) {
+    // Answered as an unexpected error (500)
+    throw new Error('Failed to update profile');
   }
-}
+
+  // Return a success response when the profile is successfully updated
+  return NextResponse.json({ success: true, message: 'Profile updated successfully' }, { status: 200 });
+});
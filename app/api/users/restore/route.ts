@@ -0,0 +1,27 @@
+//
+/**
+ * app/api/users/restore/route.ts
+ * Keeps the account of the authenticated user when its deletion is scheduled (see `lib/accountDeletion.ts`).
+ *
+ * - `POST`: Cancels the deletion. Returns 400 `ACCOUNT_DELETION_NOT_SCHEDULED` when there is none to cancel.
+ *
+ * @param req - The incoming HTTP request containing an authorization token.
+ * @returns JSON response confirming that the account was restored, or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { IUser } from '@/models/User';
+import { withAuth } from '@/lib/apiHandler';
+import { ApiError } from '@/lib/apiError';
+import { restoreAccount } from '@/lib/accountDeletion';
+
+export const POST = withAuth(async (req, { db, userId }) => {
+  const user = await db.collection<IUser>('users').findOne({ _id: userId });
+  if (!user) throw new ApiError('USER_NOT_FOUND');
+
+  if (!(await restoreAccount(db, user))) {
+    throw new ApiError('ACCOUNT_DELETION_NOT_SCHEDULED');
+  }
+
+  return NextResponse.json({ success: true, message: 'Account restored' }, { status: 200 });
+});
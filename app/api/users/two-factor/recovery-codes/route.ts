@@ -0,0 +1,42 @@
+// 
+/**
+ * app/api/users/two-factor/recovery-codes/route.ts
+ * Replaces the recovery codes of the authenticated user, for example when they run out or may have been seen.
+ * 
+ * - `POST`: Takes a current `code` from the authenticator app (or a recovery code), invalidates every previous
+ *   recovery code and returns the new ones. They are only returned this once.
+ * 
+ * @param req - The incoming HTTP request containing an authorization token and the `code` in JSON format.
+ * @returns JSON response with the new recovery codes, or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { IUser } from '@/models/User';
+import { generateRecoveryCodes, verifySecondFactor } from '@/lib/twoFactor';
+import { withAuth } from '@/lib/apiHandler';
+import { object, parseBody, string } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+
+const bodySchema = object({ code: string({ label: 'Code' }) });
+
+export const POST = withAuth(async (req, { db, userId }) => {
+  const { code } = await parseBody(req, bodySchema);
+  const usersCollection = db.collection<IUser>('users');
+  const user = await usersCollection.findOne({ _id: userId });
+
+  if (!user) {
+    throw new ApiError('USER_NOT_FOUND');
+  }
+  if (!user.twoFactorEnabled) {
+    throw new ApiError('TWO_FACTOR_NOT_ENABLED');
+  }
+
+  if (!(await verifySecondFactor(db, user, code))) {
+    throw new ApiError('CODE_INCORRECT');
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await usersCollection.updateOne({ _id: user._id }, { $set: { twoFactorRecoveryCodes: hashes } });
+
+  return NextResponse.json({ success: true, recoveryCodes: codes }, { status: 200 });
+});
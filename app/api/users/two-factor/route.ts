@@ -0,0 +1,111 @@
+// 
+/**
+ * app/api/users/two-factor/route.ts
+ * Manages the two-factor authentication (2FA) of the authenticated user, from the profile page.
+ * 
+ * This module includes four functions:
+ * - `GET`: Returns whether 2FA is enabled and how many recovery codes are left.
+ * - `POST`: Starts enrollment: creates a pending secret and returns it with its `otpauth://` link, shown as a
+ *   QR code. Starting again replaces the pending secret.
+ * - `PUT`: Confirms enrollment with a code from the app, enables 2FA and returns the recovery codes. They are only
+ *   returned this once.
+ * - `DELETE`: Disables 2FA. The user authenticates again with their password and a code (or a recovery code).
+ * 
+ * @param req - The incoming HTTP request containing an authorization token and, for PUT and DELETE, a JSON body.
+ * @returns JSON response with the 2FA status, the enrollment secret or the recovery codes, or an error message.
+ */
+
+import { NextResponse } from 'next/server';
+import { Db, ObjectId } from 'mongodb';
+import { IUser, verifyPassword } from '@/models/User';
+import { withAuth } from '@/lib/apiHandler';
+import { object, parseBody, string } from '@/lib/schema';
+import { buildOtpAuthUrl, findTotpStep, generateTotpSecret } from '@/lib/totp';
+import { generateRecoveryCodes, TWO_FACTOR_FIELDS, verifySecondFactor } from '@/lib/twoFactor';
+import { ApiError } from '@/lib/apiError';
+
+const findUser = (db: Db, userId: ObjectId) => db.collection<IUser>('users').findOne({ _id: userId });
+
+const codeSchema = object({ code: string({ label: 'Code' }) });
+
+const disableSchema = object({
+  password: string({ label: 'Password', trim: false }),
+  code: string({ label: 'Code' }),
+});
+
+export const GET = withAuth(async (req, { db, userId }) => {
+  const user = await findUser(db, userId);
+  if (!user) throw new ApiError('USER_NOT_FOUND');
+
+  return NextResponse.json({
+    success: true,
+    enabled: user.twoFactorEnabled === true,
+    recoveryCodesRemaining: user.twoFactorRecoveryCodes?.length || 0,
+  }, { status: 200 });
+});
+
+export const POST = withAuth(async (req, { db, userId }) => {
+  const user = await findUser(db, userId);
+  if (!user) throw new ApiError('USER_NOT_FOUND');
+
+  if (user.twoFactorEnabled) {
+    throw new ApiError('TWO_FACTOR_ALREADY_ENABLED');
+  }
+
+  const secret = generateTotpSecret();
+  await db.collection<IUser>('users').updateOne({ _id: user._id }, { $set: { twoFactorPendingSecret: secret } });
+
+  return NextResponse.json({ success: true, secret, otpauthUrl: buildOtpAuthUrl(secret, user.email) }, { status: 200 });
+});
+
+export const PUT = withAuth(async (req, { db, userId }) => {
+  const user = await findUser(db, userId);
+  if (!user) throw new ApiError('USER_NOT_FOUND');
+
+  const { code } = await parseBody(req, codeSchema);
+
+  if (user.twoFactorEnabled || !user.twoFactorPendingSecret) {
+    throw new ApiError('TWO_FACTOR_SETUP_MISSING');
+  }
+
+  const step = findTotpStep(user.twoFactorPendingSecret, code.replace(/\s/g, ''));
+  if (step === null) {
+    throw new ApiError('TWO_FACTOR_CODE_INVALID');
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await db.collection<IUser>('users').updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        twoFactorEnabled: true,
+        twoFactorSecret: user.twoFactorPendingSecret,
+        twoFactorRecoveryCodes: hashes,
+        twoFactorLastUsedStep: step,
+      },
+      $unset: { twoFactorPendingSecret: '' },
+    }
+  );
+
+  return NextResponse.json({ success: true, message: 'Two-factor authentication enabled', recoveryCodes: codes }, { status: 200 });
+});
+
+export const DELETE = withAuth(async (req, { db, userId }) => {
+  const user = await findUser(db, userId);
+  if (!user) throw new ApiError('USER_NOT_FOUND');
+
+  const { password, code } = await parseBody(req, disableSchema);
+
+  if (!user.twoFactorEnabled) {
+    throw new ApiError('TWO_FACTOR_NOT_ENABLED');
+  }
+
+  // 403 rather than 401, which the client treats as an expired session
+  if (!(await verifyPassword(password, user.password)) || !(await verifySecondFactor(db, user, code))) {
+    throw new ApiError('PASSWORD_OR_CODE_INCORRECT');
+  }
+
+  await db.collection<IUser>('users').updateOne({ _id: user._id }, { $unset: TWO_FACTOR_FIELDS });
+
+  return NextResponse.json({ success: true, message: 'Two-factor authentication disabled' }, { status: 200 });
+});
@@ -1,48 +1,63 @@
+/**
+ * CategoriesPage.tsx
+ *
+ * Page to manage the authenticated user's categories.
+ *
+ * - Creates categories with a name, description, color and icon; the "+" button of a category
+ *   creates the new category as one of its sub-categories.
+ * - Shows the categories as a tree, with sub-categories indented under their parent.
+ * - Edits categories inline; a category cannot be moved under itself or one of its sub-categories.
+ * - Asks what to do with the tasks of a category before deleting it (see DeleteCategoryModal).
+ *
+ * @returns The category management page.
+ */
+
 "use client";
-import React, { useState, useEffect } from "react";
+import React, { useCallback, useState, useEffect } from "react";
 import { useProtectedPage } from "@/hooks/useProtectedPage";
 import { apiFetch } from "@/lib/apiFetch";
 import { Skeleton } from "@/components/Loading";
-import { FaRegTrashAlt } from "react-icons/fa";
+import { FaCheck, FaPen, FaPlus, FaRegTrashAlt, FaTimes } from "react-icons/fa";
 import { useTranslation } from "react-i18next";
+import CategoryIcon from "@/components/categories/CategoryIcon";
+import DeleteCategoryModal, { DeleteCategoryAction } from "@/components/categories/DeleteCategoryModal";
+import { buildCategoryTree, CATEGORY_ICONS, flattenCategoryTree, getDescendantIds } from "@/lib/categoryTree";
+import { Category } from "@/types/TaskCategoryTypes";
+
+type CategoryDraft = Required<Pick<Category, "name" | "description" | "color" | "icon">> & { parentId: string };
 
-export interface Category {
-  _id: string;
-  name: string;
-  description?: string;
-}
+const DEFAULT_COLOR = "#3b82f6";
+const emptyDraft: CategoryDraft = { name: "", description: "", color: DEFAULT_COLOR, icon: "", parentId: "" };
+const inputClassName = "p-2 border border-gray-300 rounded bg-transparent";
 
 const CategoriesPage: React.FC = () => {
   const { isAuthenticated, loading } = useProtectedPage();
   const [categories, setCategories] = useState<Category[]>([]);
-  const [newCategoryName, setNewCategoryName] = useState("");
-  const [newCategoryDescription, setNewCategoryDescription] = useState("");
+  const [newCategory, setNewCategory] = useState<CategoryDraft>(emptyDraft);
+  const [editing, setEditing] = useState<{ id: string; draft: CategoryDraft } | null>(null);
+  const [deleting, setDeleting] = useState<Category | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const { t } = useTranslation();
 
-  useEffect(() => {
-    console.log("useEffect triggered"); // Log para verificar reexecuções
-
-    const fetchCategories = async () => {
-      try {
-        console.log("Fetching categories...");
-        const data = await apiFetch("/api/categories", { method: "GET" });
-        console.log("GET Response:", data);
+  const fetchCategories = useCallback(async () => {
+    try {
+      const data = await apiFetch("/api/categories", { method: "GET" });
 
-        if (data && data.success) {
-          setCategories(data.categories);
-        } else {
-          setErrorMessage("Error fetching categories.");
-        }
-      } catch (error) {
-        console.error("Error fetching categories:", error);
+      if (data && data.success) {
+        setCategories(data.categories);
+      } else {
+        setErrorMessage("Error fetching categories.");
       }
-    };
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+    }
+  }, []);
 
+  useEffect(() => {
     if (isAuthenticated) {
       fetchCategories();
     }
-  }, [isAuthenticated]);
+  }, [isAuthenticated, fetchCategories]);
 
   if (loading) {
     return (
@@ -61,57 +76,133 @@ const CategoriesPage: React.FC = () => {
     return null;
   }
 
+  const rows = flattenCategoryTree(buildCategoryTree(categories));
+
+  // Sends the draft fields in the shape the API expects
+  const toPayload = (draft: CategoryDraft) => ({
+    name: draft.name,
+    description: draft.description,
+    color: draft.color,
+    icon: draft.icon || null,
+    parentId: draft.parentId || null,
+  });
+
   const addCategory = async () => {
-    if (newCategoryName.trim() !== "") {
+    if (newCategory.name.trim() !== "") {
       try {
         const data = await apiFetch("/api/categories", {
           method: "POST",
-          body: JSON.stringify({
-            name: newCategoryName,
-            description: newCategoryDescription,
-          }),
+          body: JSON.stringify(toPayload(newCategory)),
         });
-        console.log("POST Response:", data); // Log the API response for POST
 
         if (data && data.success) {
-          const updatedCategories = [...categories, data.category];
-          setCategories(updatedCategories);
-          console.log("Updated Categories:", updatedCategories); // Log the updated state
-
-          setNewCategoryName("");
-          setNewCategoryDescription("");
+          setCategories([...categories, data.category]);
+          setNewCategory(emptyDraft);
         } else {
           setErrorMessage(t("categories.errorAddingCategory"));
         }
       } catch (error) {
-        console.error("Error adding category:", error); // Log any errors
+        console.error("Error adding category:", error);
         setErrorMessage(t("categories.errorAddingCategory"));
       }
     }
   };
 
-  const deleteCategory = async (id: string) => {
+  const startEditing = (category: Category) => {
+    setEditing({
+      id: category._id,
+      draft: {
+        name: category.name,
+        description: category.description || "",
+        color: category.color || DEFAULT_COLOR,
+        icon: category.icon || "",
+        parentId: category.parentId || "",
+      },
+    });
+  };
+
+  const updateCategory = async () => {
+    if (!editing || editing.draft.name.trim() === "") return;
+    try {
+      const data = await apiFetch(`/api/categories/${editing.id}`, {
+        method: "PUT",
+        body: JSON.stringify(toPayload(editing.draft)),
+      });
+
+      if (data && data.success) {
+        setCategories(categories.map((category) => (category._id === editing.id ? data.category : category)));
+        setEditing(null);
+      } else {
+        setErrorMessage(t("categories.errorUpdatingCategory"));
+      }
+    } catch (error) {
+      console.error("Error updating category:", error);
+      setErrorMessage(t("categories.errorUpdatingCategory"));
+    }
+  };
+
+  const deleteCategory = async (id: string, action: DeleteCategoryAction, targetId?: string) => {
+    const params = new URLSearchParams({ tasks: action });
+    if (targetId) params.set("targetId", targetId);
+
     try {
-      const data = await apiFetch(`/api/categories/${id}`, {
+      const data = await apiFetch(`/api/categories/${id}?${params.toString()}`, {
         method: "DELETE",
       });
-      console.log("DELETE Response:", data); // Log the API response for DELETE
 
       if (data && data.success) {
-        const updatedCategories = categories.filter(
-          (category) => category._id !== id
+        // Sub-categories moved up to the parent of the deleted category
+        const deleted = categories.find((category) => category._id === id);
+        setCategories(
+          categories
+            .filter((category) => category._id !== id)
+            .map((category) =>
+              category.parentId === id ? { ...category, parentId: deleted?.parentId ?? null } : category
+            )
         );
-        setCategories(updatedCategories);
-        console.log("Categories after deletion:", updatedCategories); // Log the updated state
       } else {
         setErrorMessage(t("categories.errorDeletingCategory"));
       }
     } catch (error) {
-      console.error("Error deleting category:", error); // Log any errors
+      console.error("Error deleting category:", error);
       setErrorMessage(t("categories.errorDeletingCategory"));
     }
+    setDeleting(null);
   };
 
+  // Color and icon inputs shared by the add form and the inline editor
+  const renderStyleFields = (draft: CategoryDraft, onChange: (draft: CategoryDraft) => void, testIdPrefix: string) => (
+    <>
+      <input
+        type="color"
+        className="mr-2 h-10 w-10"
+        value={draft.color}
+        onChange={(e) => onChange({ ...draft, color: e.target.value })}
+        aria-label={t("categories.color")}
+        data-testid={`${testIdPrefix}-color`}
+        data-cy={`${testIdPrefix}-color`}
+      />
+      <select
+        className={`mr-2 ${inputClassName}`}
+        value={draft.icon}
+        onChange={(e) => onChange({ ...draft, icon: e.target.value })}
+        aria-label={t("categories.icon")}
+        data-testid={`${testIdPrefix}-icon`}
+        data-cy={`${testIdPrefix}-icon`}
+      >
+        <option value="">{t("categories.noIcon")}</option>
+        {CATEGORY_ICONS.map((icon) => (
+          <option key={icon} value={icon}>
+            {t(`categories.icons.${icon}`)}
+          </option>
+        ))}
+      </select>
+    </>
+  );
+
+  const editingDescendants = editing ? getDescendantIds(categories, editing.id) : new Set<string>();
+  const newCategoryParent = categories.find((category) => category._id === newCategory.parentId);
+
   return (
     <div data-testid="categories-list" className="mt-24 p-8 dark:text-gray-300">
       <h2
@@ -129,28 +220,40 @@ const CategoriesPage: React.FC = () => {
       )}
 
       <div
-        className="mb-4"
+        className="mb-4 flex flex-wrap items-center gap-y-2"
         data-testid="categories-form"
         data-cy="categories-form"
       >
         <input
           type="text"
-          className="mr-2 p-2 border border-gray-300 rounded"
+          className={`mr-2 ${inputClassName}`}
           placeholder={t("categories.categoryNamePlaceholder")}
-          value={newCategoryName}
-          onChange={(e) => setNewCategoryName(e.target.value)}
+          value={newCategory.name}
+          onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })}
           data-testid="category-name-input"
           data-cy="category-name-input"
         />
         <input
           type="text"
-          className="mr-2 p-2 border border-gray-300 rounded"
+          className={`mr-2 ${inputClassName}`}
           placeholder={t("categories.categoryDescriptionPlaceholder")}
-          value={newCategoryDescription}
-          onChange={(e) => setNewCategoryDescription(e.target.value)}
+          value={newCategory.description}
+          onChange={(e) => setNewCategory({ ...newCategory, description: e.target.value })}
           data-testid="category-description-input"
           data-cy="category-description-input"
         />
+        {renderStyleFields(newCategory, setNewCategory, "category-new")}
+        {newCategoryParent && (
+          <span className="mr-2 flex items-center gap-1 text-sm text-gray-500" data-testid="category-new-parent">
+            {t("categories.addingUnder", { name: newCategoryParent.name })}
+            <button
+              onClick={() => setNewCategory({ ...newCategory, parentId: "" })}
+              aria-label={t("categories.noParent")}
+            >
+              <FaTimes />
+            </button>
+          </span>
+        )}
         <button
           onClick={addCategory}
           className="px-4 py-2 rounded bg-blue-500 text-white hover:bg-blue-700 transition"
@@ -162,30 +265,130 @@ const CategoriesPage: React.FC = () => {
       </div>
 
       <ul
-  className="list-disc space-y-2 pl-5"
-  data-testid="category-list-items"
-  data-cy="category-list-items"
->
-  {categories?.map((category) => (
-    <li key={category._id} className="flex justify-between items-center">
-      <span
-        data-testid={`category-name-${category._id}`}
-        data-cy={`category-name-${category._id}`}
-      >
-        {category.name}
-      </span>
-      <button
-        data-testid={`delete-category-${category._id}`}
-        data-cy={`delete-category-${category._id}`}
-        onClick={() => deleteCategory(category._id)}
-        className="ml-2 px-4 py-2 rounded bg-red-500 text-white hover:bg-red-700 transition"
+        className="space-y-2"
+        data-testid="category-list-items"
+        data-cy="category-list-items"
       >
-        <FaRegTrashAlt />
-      </button>
-    </li>
-  ))}
-</ul>
+        {rows.map(({ category, depth }) => (
+          <li
+            key={category._id}
+            className="flex flex-wrap items-center gap-2"
+            // Indent sub-categories under their parent
+            style={{ paddingLeft: `${depth * 1.5}rem` }}
+            data-testid={`category-item-${category._id}`}
+          >
+            {editing?.id === category._id ? (
+              <>
+                <input
+                  type="text"
+                  className={inputClassName}
+                  value={editing.draft.name}
+                  onChange={(e) => setEditing({ ...editing, draft: { ...editing.draft, name: e.target.value } })}
+                  onKeyDown={(e) => e.key === "Enter" && updateCategory()}
+                  data-testid={`category-edit-name-${category._id}`}
+                  data-cy={`category-edit-name-${category._id}`}
+                />
+                <input
+                  type="text"
+                  className={inputClassName}
+                  placeholder={t("categories.categoryDescriptionPlaceholder")}
+                  value={editing.draft.description}
+                  onChange={(e) =>
+                    setEditing({ ...editing, draft: { ...editing.draft, description: e.target.value } })
+                  }
+                  data-testid={`category-edit-description-${category._id}`}
+                />
+                {renderStyleFields(editing.draft, (draft) => setEditing({ ...editing, draft }), `category-edit-${category._id}`)}
+                <select
+                  className={inputClassName}
+                  value={editing.draft.parentId}
+                  onChange={(e) => setEditing({ ...editing, draft: { ...editing.draft, parentId: e.target.value } })}
+                  aria-label={t("categories.parent")}
+                  data-testid={`category-edit-parent-${category._id}`}
+                  data-cy={`category-edit-parent-${category._id}`}
+                >
+                  <option value="">{t("categories.noParent")}</option>
+                  {rows
+                    // A category cannot move under itself or one of its sub-categories
+                    .filter(({ category: option }) => option._id !== category._id && !editingDescendants.has(option._id))
+                    .map(({ category: option, depth: optionDepth }) => (
+                      <option key={option._id} value={option._id}>
+                        {"\u00A0\u00A0".repeat(optionDepth)}
+                        {option.name}
+                      </option>
+                    ))}
+                </select>
+                <button
+                  onClick={updateCategory}
+                  className="p-2 text-green-600"
+                  aria-label={t("categories.save")}
+                  data-testid={`category-edit-save-${category._id}`}
+                  data-cy={`category-edit-save-${category._id}`}
+                >
+                  <FaCheck />
+                </button>
+                <button
+                  onClick={() => setEditing(null)}
+                  className="p-2 text-gray-500"
+                  aria-label={t("task.cancel")}
+                >
+                  <FaTimes />
+                </button>
+              </>
+            ) : (
+              <>
+                <CategoryIcon icon={category.icon} color={category.color} />
+                <span
+                  data-testid={`category-name-${category._id}`}
+                  data-cy={`category-name-${category._id}`}
+                >
+                  {category.name}
+                </span>
+                {category.description && (
+                  <span className="text-sm text-gray-500">{category.description}</span>
+                )}
+                <button
+                  onClick={() => setNewCategory({ ...newCategory, parentId: category._id })}
+                  className="p-2 text-gray-500 hover:text-blue-500"
+                  aria-label={t("categories.addSubcategory")}
+                  data-testid={`add-subcategory-${category._id}`}
+                  data-cy={`add-subcategory-${category._id}`}
+                >
+                  <FaPlus />
+                </button>
+                <button
+                  onClick={() => startEditing(category)}
+                  className="p-2 text-gray-500 hover:text-blue-500"
+                  aria-label={t("categories.edit")}
+                  data-testid={`edit-category-${category._id}`}
+                  data-cy={`edit-category-${category._id}`}
+                >
+                  <FaPen />
+                </button>
+              </>
+            )}
+
+            <button
+              data-testid={`delete-category-${category._id}`}
+              data-cy={`delete-category-${category._id}`}
+              onClick={() => setDeleting(category)}
+              className="ml-auto px-4 py-2 rounded bg-red-500 text-white hover:bg-red-700 transition"
+              aria-label={t("categories.delete")}
+            >
+              <FaRegTrashAlt />
+            </button>
+          </li>
+        ))}
+      </ul>
 
+      {deleting && (
+        <DeleteCategoryModal
+          category={deleting}
+          options={rows.filter(({ category }) => category._id !== deleting._id)}
+          onConfirm={(action, targetId) => deleteCategory(deleting._id, action, targetId)}
+          onCancel={() => setDeleting(null)}
+        />
+      )}
     </div>
   );
 };
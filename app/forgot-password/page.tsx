@@ -0,0 +1,22 @@
+/**
+ * ForgotPasswordPage.tsx
+ * 
+ * Page where users ask for a password reset link.
+ * 
+ * @returns A centered forgot password form.
+ * 
+ * Dependencies:
+ * - `ForgotPassword`: Component that sends the email to the forgot password API.
+ */
+
+import ForgotPassword from '@/components/auth/ForgotPassword';
+
+const ForgotPasswordPage = () => {
+  return (
+    <div className='flex min-h-screen flex-col items-center justify-center'>
+      <ForgotPassword />
+    </div>
+  );
+};
+
+export default ForgotPasswordPage;
@@ -74,6 +74,16 @@ export default function LoginPage() {
               <span className="block">{t("login.loginRequired")}</span>
             </p>
           )}
+          {message === "account_deletion_scheduled" && (
+            <p className="text-center text-blue-500 mb-4" data-cy="account-deletion-message">
+              {t("login.accountDeletionScheduled")}
+            </p>
+          )}
+          {message === "password_reset" && (
+            <p className="text-green-500 mb-4" data-cy="password-reset-message">
+              {t("login.passwordReset")}
+            </p>
+          )}
 
           {/* Render the sign-in form */}
           <SignIn />
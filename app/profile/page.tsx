@@ -6,7 +6,15 @@
  * Features:
  * - Fetches and displays profile information for authenticated users, including fields for first name, last name, nickname, and bio.
  * - Provides functionality to upload and preview a profile picture.
- * - Handles profile updates through an API, with status and error messages displayed to the user.
+ * - Handles profile updates through an API, with status and error messages displayed to the user. Errors on a
+ *   field returned by the API are shown under its input.
+ * - Changes the email or password in a "Security" section (`SecuritySection`).
+ * - Enables or disables two-factor authentication and manages its recovery codes (`TwoFactorSection`).
+ * - Lists the devices where the user is logged in and lets them revoke those sessions (`SessionList`).
+ * - Lists the recent failed login attempts on the account (`LoginAttemptList`).
+ * - Publishes the tasks to calendar apps through secret iCalendar feeds, which can be revoked (`CalendarFeedSection`).
+ * - Exports the profile, categories, tags and tasks as JSON and CSV files in a ZIP archive (`DataExportSection`).
+ * - Deletes the account after a grace period, or restores it while the deletion is scheduled (`DeleteAccountSection`).
  * - Protects the page to ensure it’s only accessible to authenticated users.
  *
  * @returns A form that allows the user to view and update their profile information.
@@ -20,12 +28,20 @@
 "use client";
 import React, { useState, useEffect } from "react";
 import { fetchProfile, updateProfile } from "@/lib/user"; // API functions for fetching and updating profile
+import { describeApiError, getFieldErrorMessages } from "@/lib/apiError";
 import Image from "next/image"; // Next.js Image component for optimized images
 import { Spinner } from "@/components/Loading"; // Loading spinner component
 import { useProtectedPage } from "@/hooks/useProtectedPage"; // Custom hook to handle protected pages
 import { useUserProfile } from "@/context/UserProfileProvider";
 import Dropdown from "@/components/common/Dropdown";
 import { useTranslation } from "react-i18next";
+import SecuritySection from "@/components/profile/SecuritySection";
+import TwoFactorSection from "@/components/profile/TwoFactorSection";
+import SessionList from "@/components/profile/SessionList";
+import LoginAttemptList from "@/components/profile/LoginAttemptList";
+import CalendarFeedSection from "@/components/profile/CalendarFeedSection";
+import DataExportSection from "@/components/profile/DataExportSection";
+import DeleteAccountSection from "@/components/profile/DeleteAccountSection";
 
 const ProfilePage = () => {
   const { t } = useTranslation();
@@ -47,6 +63,7 @@ const ProfilePage = () => {
   const [imagePreview, setImagePreview] = useState<string | null>(null); // State to manage profile picture preview
   const [statusMessage, setStatusMessage] = useState<string | null>(null); // Status message for profile update
   const [errorMessage, setErrorMessage] = useState<string | null>(null); // Error message for profile fetch or update
+  const [fieldErrors, setFieldErrors] = useState<{ [field: string]: string }>({}); // Field errors returned by the API
 
   useEffect(() => {
     // Function to fetch profile data from the API
@@ -99,6 +116,7 @@ const ProfilePage = () => {
     e.preventDefault(); // Prevent the default form behavior
     setStatusMessage(null); // Clear any previous status messages
     setErrorMessage(null); // Clear any previous error messages
+    setFieldErrors({});
 
     try {
       // Make API request to update the profile
@@ -110,9 +128,22 @@ const ProfilePage = () => {
         setErrorMessage(t("profile.update_failure")); // Show failure message
       }
     } catch (error) {
-      setErrorMessage(t("profile.update_error")); // Handle API request error
+      const errors = getFieldErrorMessages(error, t);
+      if (Object.keys(errors).length > 0) {
+        setFieldErrors(errors);
+      } else {
+        setErrorMessage(describeApiError(error, t)); // Handle API request error
+      }
     }
   };
+
+  // Shows the error returned by the API for a field, if any
+  const renderFieldError = (field: string) =>
+    fieldErrors[field] && (
+      <p className="text-red-500 text-xs" data-cy={`${field}-error`}>
+        {fieldErrors[field]}
+      </p>
+    );
   
    // Handle dropdown selection for the preferred name
    const handleDropdownSelect = (value: string) => {
@@ -131,6 +162,7 @@ const ProfilePage = () => {
     // Certifique-se de limpar mensagens ao alterar o valor
     setStatusMessage(null);
     setErrorMessage(null);
+    setFieldErrors((prevErrors) => ({ ...prevErrors, [name]: "" }));
   };
 
   // Handle file input changes for profile picture
@@ -190,6 +222,7 @@ const ProfilePage = () => {
             <input type="file" onChange={handleFileChange} />{" "}
             {/* File input for profile picture */}
           </div>
+          {renderFieldError("profilePicture")}
         </div>
         <hr />
         {/* Username and Preferred Name fields */}
@@ -233,6 +266,7 @@ const ProfilePage = () => {
             >
               {t("profile.preferred_name")}
             </label>
+            {renderFieldError("preferredNameOption")}
           </div>
         </div>
 
@@ -257,6 +291,7 @@ const ProfilePage = () => {
             >
               {t("profile.first_name")}
             </label>
+            {renderFieldError("firstName")}
           </div>
 
           <div className="relative flex flex-col w-1/2 space-y-2">
@@ -277,6 +312,7 @@ const ProfilePage = () => {
             >
               {t("profile.last_name")}
             </label>
+            {renderFieldError("lastName")}
           </div>
         </div>
 
@@ -299,6 +335,7 @@ const ProfilePage = () => {
           >
             {t("profile.nickname")}
           </label>
+          {renderFieldError("nickname")}
         </div>
 
         {/* Bio */}
@@ -320,6 +357,7 @@ const ProfilePage = () => {
           >
             {t("profile.biography")}
           </label>
+          {renderFieldError("bio")}
         </div>
 
         {/* Save Button */}
@@ -343,6 +381,20 @@ const ProfilePage = () => {
           </p>
         )}
       </form>
+
+      <SecuritySection />
+
+      <TwoFactorSection />
+
+      <SessionList />
+
+      <LoginAttemptList />
+
+      <CalendarFeedSection />
+
+      <DataExportSection />
+
+      <DeleteAccountSection />
     </div>
   );
 };
@@ -0,0 +1,26 @@
+/**
+ * ResetPasswordPage.tsx
+ * 
+ * Page opened from the password reset email, where users choose a new password.
+ * 
+ * @returns A centered reset password form.
+ * 
+ * Dependencies:
+ * - `ResetPassword`: Component that reads the token from the URL and sends the new password.
+ */
+
+import { Suspense } from 'react';
+import ResetPassword from '@/components/auth/ResetPassword';
+
+const ResetPasswordPage = () => {
+  return (
+    <div className='flex min-h-screen flex-col items-center justify-center'>
+      {/* useSearchParams needs a Suspense boundary in statically rendered pages */}
+      <Suspense>
+        <ResetPassword />
+      </Suspense>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
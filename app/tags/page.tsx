@@ -0,0 +1,279 @@
+/**
+ * TagsPage.tsx
+ *
+ * Page to manage the authenticated user's tags.
+ *
+ * - Creates tags with a name and a color.
+ * - Renames tags and changes their color; tasks reference tags by ID, so every task shows the change.
+ * - Merges a tag into another one, moving its tasks to the other tag, and deletes tags.
+ * - Shows how many tasks use each tag.
+ *
+ * @returns The tag management page.
+ */
+
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import { FaCheck, FaPen, FaRegTrashAlt, FaTimes } from "react-icons/fa";
+import { useTranslation } from "react-i18next";
+import { useProtectedPage } from "@/hooks/useProtectedPage";
+import { apiFetch } from "@/lib/apiFetch";
+import { Skeleton } from "@/components/Loading";
+import TagChip from "@/components/common/TagChip";
+import { Tag } from "@/types/TaskCategoryTypes";
+
+const inputClassName = "p-2 border border-gray-300 rounded bg-transparent";
+
+const TagsPage: React.FC = () => {
+  const { isAuthenticated, loading } = useProtectedPage();
+  const { t } = useTranslation();
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [newTagName, setNewTagName] = useState("");
+  const [newTagColor, setNewTagColor] = useState("#3b82f6");
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({});
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const fetchTags = useCallback(async () => {
+    try {
+      const data = await apiFetch("/api/tags", { method: "GET" });
+      if (data && data.success) {
+        setTags(data.tags);
+      } else {
+        setErrorMessage(t("tags.fetchError"));
+      }
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      setErrorMessage(t("tags.fetchError"));
+    }
+  }, [t]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchTags();
+    }
+  }, [isAuthenticated, fetchTags]);
+
+  if (loading) {
+    return (
+      <Skeleton
+        data-testid="tags-skeleton"
+        repeatCount={4}
+        count={5}
+        type="text"
+        widths={["w-1/2", "w-full", "w-full", "w-full", "w-1/2"]}
+        skeletonDuration={1000}
+      />
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  // Runs a tag request, showing `errorKey` when it fails
+  const runRequest = async (errorKey: string, request: () => Promise<any>) => {
+    setErrorMessage(null);
+    try {
+      const data = await request();
+      if (data && data.success) return data;
+    } catch (error) {
+      console.error("Error saving tag:", error);
+    }
+    setErrorMessage(t(errorKey));
+    return null;
+  };
+
+  const addTag = async () => {
+    if (!newTagName.trim()) return;
+    const data = await runRequest("tags.errorAdding", () =>
+      apiFetch("/api/tags", {
+        method: "POST",
+        body: JSON.stringify({ name: newTagName, color: newTagColor }),
+      })
+    );
+    if (data) {
+      setTags((prevTags) => [...prevTags, data.tag].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewTagName("");
+    }
+  };
+
+  const updateTag = async (id: string, changes: Partial<Pick<Tag, "name" | "color">>) => {
+    const data = await runRequest("tags.errorUpdating", () =>
+      apiFetch(`/api/tags/${id}`, { method: "PUT", body: JSON.stringify(changes) })
+    );
+    if (data) {
+      setTags((prevTags) => prevTags.map((tag) => (tag._id === id ? { ...tag, ...data.tag } : tag)));
+      setEditing(null);
+    }
+  };
+
+  const mergeTag = async (id: string) => {
+    const targetId = mergeTargets[id];
+    if (!targetId) return;
+    const data = await runRequest("tags.errorMerging", () =>
+      apiFetch(`/api/tags/${id}/merge`, { method: "POST", body: JSON.stringify({ targetId }) })
+    );
+    if (data) {
+      // Task counts change on both tags, so reload them
+      await fetchTags();
+    }
+  };
+
+  const deleteTag = async (id: string) => {
+    const data = await runRequest("tags.errorDeleting", () =>
+      apiFetch(`/api/tags/${id}`, { method: "DELETE" })
+    );
+    if (data) {
+      setTags((prevTags) => prevTags.filter((tag) => tag._id !== id));
+    }
+  };
+
+  return (
+    <div data-testid="tags-page" className="mt-24 p-8 dark:text-gray-300">
+      <h2 className="text-lg font-bold mb-4" data-testid="tags-title" data-cy="tags-title">
+        {t("tags.manageTags")}
+      </h2>
+
+      {errorMessage && (
+        <p className="text-red-500" data-testid="tags-error">
+          {errorMessage}
+        </p>
+      )}
+
+      <div className="mb-4 flex items-center" data-testid="tags-form" data-cy="tags-form">
+        <input
+          type="text"
+          className={`mr-2 ${inputClassName}`}
+          placeholder={t("tags.namePlaceholder")}
+          value={newTagName}
+          onChange={(e) => setNewTagName(e.target.value)}
+          data-testid="tag-name-input"
+          data-cy="tag-name-input"
+        />
+        <input
+          type="color"
+          className="mr-2 h-10 w-10"
+          value={newTagColor}
+          onChange={(e) => setNewTagColor(e.target.value)}
+          aria-label={t("tags.color")}
+          data-testid="tag-color-input"
+          data-cy="tag-color-input"
+        />
+        <button
+          onClick={addTag}
+          className="px-4 py-2 rounded bg-blue-500 text-white hover:bg-blue-700 transition"
+          data-testid="tag-add-button"
+          data-cy="tag-add-button"
+        >
+          {t("tags.addButton")}
+        </button>
+      </div>
+
+      {tags.length === 0 && <p className="text-gray-500">{t("tags.noTags")}</p>}
+
+      <ul className="space-y-3" data-testid="tag-list-items" data-cy="tag-list-items">
+        {tags.map((tag) => (
+          <li key={tag._id} className="flex flex-wrap items-center gap-2" data-testid={`tag-item-${tag._id}`}>
+            <input
+              type="color"
+              className="h-8 w-8"
+              value={tag.color}
+              onChange={(e) =>
+                setTags((prevTags) =>
+                  prevTags.map((other) => (other._id === tag._id ? { ...other, color: e.target.value } : other))
+                )
+              }
+              // The picker fires on every move, so the color is saved once the picker closes
+              onBlur={(e) => updateTag(tag._id, { color: e.target.value })}
+              aria-label={t("tags.color")}
+              data-testid={`tag-color-${tag._id}`}
+            />
+
+            {editing?.id === tag._id ? (
+              <>
+                <input
+                  type="text"
+                  className={inputClassName}
+                  value={editing.name}
+                  onChange={(e) => setEditing({ id: tag._id, name: e.target.value })}
+                  onKeyDown={(e) => e.key === "Enter" && updateTag(tag._id, { name: editing.name })}
+                  data-testid={`tag-rename-input-${tag._id}`}
+                />
+                <button
+                  onClick={() => updateTag(tag._id, { name: editing.name })}
+                  className="p-2 text-green-600"
+                  aria-label={t("tags.save")}
+                  data-testid={`tag-rename-save-${tag._id}`}
+                >
+                  <FaCheck />
+                </button>
+                <button
+                  onClick={() => setEditing(null)}
+                  className="p-2 text-gray-500"
+                  aria-label={t("task.cancel")}
+                >
+                  <FaTimes />
+                </button>
+              </>
+            ) : (
+              <>
+                <TagChip tag={tag} testId={`tag-name-${tag._id}`} />
+                <span className="text-sm text-gray-500">
+                  {t("tags.taskCount", { count: tag.taskCount || 0 })}
+                </span>
+                <button
+                  onClick={() => setEditing({ id: tag._id, name: tag.name })}
+                  className="p-2 text-gray-500 hover:text-blue-500"
+                  aria-label={t("tags.rename")}
+                  data-testid={`tag-rename-${tag._id}`}
+                >
+                  <FaPen />
+                </button>
+              </>
+            )}
+
+            {tags.length > 1 && (
+              <span className="flex items-center gap-1 ml-auto">
+                <select
+                  value={mergeTargets[tag._id] || ""}
+                  onChange={(e) => setMergeTargets({ ...mergeTargets, [tag._id]: e.target.value })}
+                  className={`${inputClassName} text-sm`}
+                  data-testid={`tag-merge-target-${tag._id}`}
+                >
+                  <option value="">{t("tags.mergeInto")}</option>
+                  {tags
+                    .filter((other) => other._id !== tag._id)
+                    .map((other) => (
+                      <option key={other._id} value={other._id}>
+                        {other.name}
+                      </option>
+                    ))}
+                </select>
+                <button
+                  onClick={() => mergeTag(tag._id)}
+                  disabled={!mergeTargets[tag._id]}
+                  className="px-3 py-2 rounded bg-gray-500 text-white hover:bg-gray-600 transition disabled:opacity-50"
+                  data-testid={`tag-merge-${tag._id}`}
+                >
+                  {t("tags.merge")}
+                </button>
+              </span>
+            )}
+
+            <button
+              data-testid={`delete-tag-${tag._id}`}
+              data-cy={`delete-tag-${tag._id}`}
+              onClick={() => deleteTag(tag._id)}
+              className={`px-4 py-2 rounded bg-red-500 text-white hover:bg-red-700 transition ${tags.length > 1 ? "" : "ml-auto"}`}
+              aria-label={t("tags.delete")}
+            >
+              <FaRegTrashAlt />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TagsPage;
@@ -0,0 +1,261 @@
+/**
+ * BoardPage.tsx
+ *
+ * Kanban board page for the authenticated user's tasks.
+ *
+ * - Renders the shared tasks from TasksProvider with BoardView, one column per workflow status.
+ * - Applies the same filters as the other task views through TaskFilterModal.
+ * - Lets the user choose which columns are visible; the choice is stored in localStorage.
+ * - Persists moves and reordering through `PUT /api/tasks/reorder`, restoring the previous order on failure.
+ *   Moving a task that still has open blockers to Done asks for confirmation first, then forces the completion.
+ *
+ * @returns The board page with filters, column settings and the task board.
+ */
+
+"use client";
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import BoardView from "@/components/tasks/BoardView";
+import { Skeleton } from "@/components/Loading";
+import { useProtectedPage } from "@/hooks/useProtectedPage";
+import { apiFetch } from "@/lib/apiFetch";
+import { DEFAULT_BOARD_COLUMNS, moveTask } from "@/lib/board";
+import { ApiError } from "@/lib/apiError";
+import { BoardColumn, Task, TaskReference, TaskStatus } from "@/types/TaskCategoryTypes";
+import { useTasks } from "@/context/TasksProvider";
+import TaskFilterModal from "@/components/filters/TaskFilterModal";
+import { FaColumns, FaFilter } from "react-icons/fa";
+import { useTranslation } from "react-i18next";
+
+const COLUMNS_STORAGE_KEY = "boardColumns";
+
+export default function BoardPage() {
+  const { t } = useTranslation();
+  const { isAuthenticated, loading } = useProtectedPage();
+  const router = useRouter();
+  const {
+    tasks,
+    hasFilters,
+    categories,
+    tags,
+    loadingData,
+    errorMessage,
+    setErrorMessage,
+    setTasks,
+    loadTasks,
+  } = useTasks();
+  const [showFilterModal, setShowFilterModal] = useState(false);
+  const [columns, setColumns] = useState<BoardColumn[]>(DEFAULT_BOARD_COLUMNS);
+  const [showColumnSettings, setShowColumnSettings] = useState(false);
+  // Move waiting for confirmation because the task is still blocked
+  const [blockedMove, setBlockedMove] = useState<{
+    task: Task;
+    beforeTaskId: string | null;
+    blockers: TaskReference[];
+  } | null>(null);
+
+  // Load the saved column configuration, ignoring unknown or malformed entries
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(COLUMNS_STORAGE_KEY);
+      if (stored) {
+        const parsed: BoardColumn[] = JSON.parse(stored);
+        setColumns(
+          DEFAULT_BOARD_COLUMNS.map((column) => ({
+            ...column,
+            visible: parsed.find((c) => c.status === column.status)?.visible ?? true,
+          }))
+        );
+      }
+    } catch (error) {
+      console.error("Error loading board columns:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAuthenticated) loadTasks();
+  }, [isAuthenticated, loadTasks]);
+
+  const toggleColumn = (status: TaskStatus) => {
+    const updatedColumns = columns.map((column) =>
+      column.status === status ? { ...column, visible: !column.visible } : column
+    );
+    setColumns(updatedColumns);
+    localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify(updatedColumns));
+  };
+
+  const handleMoveTask = async (taskId: string, status: TaskStatus, beforeTaskId: string | null, force = false) => {
+    const previousTasks = tasks;
+    const { tasks: updatedTasks, columnTaskIds } = moveTask(tasks, taskId, status, beforeTaskId);
+    setTasks(updatedTasks);
+    setErrorMessage(null);
+    setBlockedMove(null);
+
+    try {
+      const response = await apiFetch("/api/tasks/reorder", {
+        method: "PUT",
+        body: JSON.stringify({ status, taskIds: columnTaskIds, ...(force ? { force } : {}) }),
+      });
+      if (!response || !response.success) {
+        throw new Error("Failed to save board order");
+      }
+      // Completing a recurring task creates its next occurrence
+      if (response.nextTasks?.length) {
+        setTasks((prevTasks) => [...prevTasks, ...response.nextTasks]);
+      }
+    } catch (error) {
+      setTasks(previousTasks);
+      const task = previousTasks.find((task) => task._id === taskId);
+      if (error instanceof ApiError && error.code === "TASK_BLOCKED" && task) {
+        setBlockedMove({ task, beforeTaskId, blockers: (error.details?.blockers as TaskReference[]) || [] });
+        return;
+      }
+      console.error("Error moving task:", error);
+      setErrorMessage(t("board.moveError"));
+    }
+  };
+
+  if (loading || loadingData) {
+    return (
+      <div className="flex flex-1 justify-center items-center">
+        <Skeleton
+          repeatCount={3}
+          count={2}
+          type="text"
+          widths={["w-full", "w-3/4"]}
+          skeletonDuration={1000}
+        />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div
+      className="mt-20 p-8 dark:text-gray-300"
+      data-cy="task-board-page"
+      data-testid="task-board-page"
+    >
+      <div className="mb-4 flex justify-between">
+        <h1
+          className="text-xl font-bold"
+          data-cy="task-board-title"
+          data-testid="task-board-title"
+        >
+          {t("board.title")}
+        </h1>
+        <div className="flex items-center">
+          <div className="relative">
+            <button
+              onClick={() => setShowColumnSettings(!showColumnSettings)}
+              className="flex items-center bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 px-3 py-2 rounded-lg shadow hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+              data-cy="board-columns-button"
+              data-testid="board-columns-button"
+            >
+              <FaColumns className="mr-1" />
+              {t("board.columnsButton")}
+            </button>
+            {showColumnSettings && (
+              <div
+                className="absolute right-0 z-10 mt-2 w-48 p-3 space-y-2 rounded-lg shadow-lg bg-white dark:bg-gray-800"
+                data-cy="board-columns-settings"
+                data-testid="board-columns-settings"
+              >
+                {columns.map((column) => (
+                  <label key={column.status} className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={column.visible}
+                      onChange={() => toggleColumn(column.status)}
+                      data-cy={`board-column-toggle-${column.status}`}
+                      data-testid={`board-column-toggle-${column.status}`}
+                    />
+                    <span>{t(`board.columns.${column.status}`)}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <button
+            onClick={() => setShowFilterModal(true)}
+            className="ml-2 flex items-center bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 px-3 py-2 rounded-lg shadow hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+            data-cy="filter-modal-button"
+            data-testid="filter-modal-button"
+          >
+            <FaFilter className="mr-1" />
+            {t("tasksPage.filterButton")}
+          </button>
+
+          <button
+            onClick={() => router.push("/tasks/new")}
+            className="ml-2 bg-blue-500 text-white p-2 rounded-lg shadow hover:bg-blue-600 transition-all"
+            data-cy="button-add-task"
+            data-testid="button-add-task"
+          >
+            {t("tasksPage.addNewTaskButton")}
+          </button>
+        </div>
+      </div>
+
+      {showFilterModal && (
+        <TaskFilterModal onClose={() => setShowFilterModal(false)} />
+      )}
+
+      {errorMessage && <p className="text-red-500">{errorMessage}</p>}
+
+      {blockedMove && (
+        <div
+          className="mb-4 p-3 rounded-md border border-yellow-400 bg-yellow-50 dark:bg-yellow-900 dark:border-yellow-700"
+          data-cy="blocked-task-confirm"
+          data-testid="blocked-task-confirm"
+        >
+          <p className="mb-2">
+            {t("dependencies.confirm_complete", {
+              title: blockedMove.task.title,
+              blockers: blockedMove.blockers.map((blocker) => blocker.title).join(", "),
+            })}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleMoveTask(blockedMove.task._id, "done", blockedMove.beforeTaskId, true)}
+              className="bg-yellow-500 text-white px-3 py-1 rounded-md hover:bg-yellow-600 transition-all"
+              data-cy="blocked-task-force"
+              data-testid="blocked-task-force"
+            >
+              {t("dependencies.complete_anyway")}
+            </button>
+            <button
+              onClick={() => setBlockedMove(null)}
+              className="bg-gray-500 text-white px-3 py-1 rounded-md hover:bg-gray-600 transition-all"
+              data-cy="blocked-task-cancel"
+              data-testid="blocked-task-cancel"
+            >
+              {t("task.cancel")}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {tasks.length === 0 && (
+        <p className="text-gray-500 mt-4">
+          {hasFilters
+            ? t("tasksPage.noFilteredTasks")
+            : t("tasksPage.noTasks")}
+        </p>
+      )}
+
+      <BoardView
+        tasks={tasks}
+        categories={categories}
+        tags={tags}
+        columns={columns.filter((column) => column.visible).map((column) => column.status)}
+        onEditTask={(id) => router.push(`/tasks/edit/${id}`)}
+        onMoveTask={handleMoveTask}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * CalendarPage.tsx
+ *
+ * Full-page calendar of the authenticated user's tasks.
+ *
+ * - Renders the shared, filtered tasks from TasksProvider on the Calendar component.
+ * - Reschedules a task when it is dragged to another day, restoring the previous date on failure.
+ *
+ * @returns The calendar page with filters and the full-size task calendar.
+ */
+
+"use client";
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Calendar from "@/components/dashboard/Calendar";
+import { Skeleton } from "@/components/Loading";
+import { useProtectedPage } from "@/hooks/useProtectedPage";
+import { rescheduleTask } from "@/lib/calendar";
+import { useTasks } from "@/context/TasksProvider";
+import TaskFilterModal from "@/components/filters/TaskFilterModal";
+import { FaFilter } from "react-icons/fa";
+import { useTranslation } from "react-i18next";
+
+export default function CalendarPage() {
+  const { t } = useTranslation();
+  const { isAuthenticated, loading } = useProtectedPage();
+  const router = useRouter();
+  const {
+    tasks,
+    loadingData,
+    errorMessage,
+    setErrorMessage,
+    updateTask,
+    loadTasks,
+  } = useTasks();
+  const [showFilterModal, setShowFilterModal] = useState(false);
+
+  useEffect(() => {
+    if (isAuthenticated) loadTasks();
+  }, [isAuthenticated, loadTasks]);
+
+  const handleReschedule = async (taskId: string, dateKey: string) => {
+    const task = tasks.find((item) => item._id === taskId);
+    if (!task) return;
+
+    setErrorMessage(null);
+    try {
+      const updatedTask = await rescheduleTask(task, dateKey);
+      updateTask(taskId, updatedTask);
+    } catch (error) {
+      console.error("Error rescheduling task:", error);
+      setErrorMessage(t("calendar.rescheduleError"));
+    }
+  };
+
+  if (loading || loadingData) {
+    return (
+      <div className="flex flex-1 justify-center items-center">
+        <Skeleton
+          repeatCount={3}
+          count={2}
+          type="text"
+          widths={["w-full", "w-3/4"]}
+          skeletonDuration={1000}
+        />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div
+      className="mt-20 p-8 dark:text-gray-300"
+      data-cy="task-calendar-page"
+      data-testid="task-calendar-page"
+    >
+      <div className="mb-4 flex justify-between">
+        <h1
+          className="text-xl font-bold"
+          data-cy="task-calendar-title"
+          data-testid="task-calendar-title"
+        >
+          {t("calendar.title")}
+        </h1>
+        <div className="flex items-center">
+          <button
+            onClick={() => setShowFilterModal(true)}
+            className="flex items-center bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 px-3 py-2 rounded-lg shadow hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+            data-cy="filter-modal-button"
+            data-testid="filter-modal-button"
+          >
+            <FaFilter className="mr-1" />
+            {t("tasksPage.filterButton")}
+          </button>
+
+          <button
+            onClick={() => router.push("/tasks/new")}
+            className="ml-2 bg-blue-500 text-white p-2 rounded-lg shadow hover:bg-blue-600 transition-all"
+            data-cy="button-add-task"
+            data-testid="button-add-task"
+          >
+            {t("tasksPage.addNewTaskButton")}
+          </button>
+        </div>
+      </div>
+
+      {showFilterModal && (
+        <TaskFilterModal onClose={() => setShowFilterModal(false)} />
+      )}
+
+      {errorMessage && <p className="text-red-500 mb-4">{errorMessage}</p>}
+
+      <Calendar
+        tasks={tasks}
+        onReschedule={handleReschedule}
+        onSelectTask={(id) => router.push(`/tasks/edit/${id}`)}
+      />
+    </div>
+  );
+}
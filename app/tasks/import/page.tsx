@@ -0,0 +1,24 @@
+/**
+ * ImportTasksPage.tsx
+ *
+ * Renders the page for importing tasks from a file.
+ *
+ * - This page component displays the TaskImportWizard component once the user is authenticated, so tasks
+ *   saved by this app, by a spreadsheet, by Todoist or by Trello can be added in bulk.
+ *
+ * @returns The TaskImportWizard component for importing tasks.
+ */
+
+"use client";
+import TaskImportWizard from "@/components/tasks/TaskImportWizard";
+import { useProtectedPage } from "@/hooks/useProtectedPage";
+
+export default function ImportTasksPage() {
+  const { isAuthenticated, loading } = useProtectedPage();
+
+  if (loading || !isAuthenticated) {
+    return null;
+  }
+
+  return <TaskImportWizard />;
+}
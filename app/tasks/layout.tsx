@@ -0,0 +1,16 @@
+/**
+ * TasksLayout.tsx
+ *
+ * Shared layout for every task route.
+ *
+ * - Wraps the task views in TasksProvider so fetched tasks, categories and active filters
+ *   are kept when switching between the cards, list, board and calendar views.
+ *
+ * @returns The task pages wrapped in the shared tasks context.
+ */
+
+import { TasksProvider } from "@/context/TasksProvider";
+
+export default function TasksLayout({ children }: { children: React.ReactNode }) {
+  return <TasksProvider>{children}</TasksProvider>;
+}
@@ -0,0 +1,204 @@
+/**
+ * ListPage.tsx
+ *
+ * Table view of the authenticated user's tasks.
+ *
+ * - Renders the shared tasks from TasksProvider with ListView, so filters chosen in other views are kept.
+ * - Toggles task completion inline through `PUT /api/tasks/[id]`, restoring the previous state on failure.
+ *   Completing a task that still has open blockers asks for confirmation first, then forces the completion.
+ *
+ * @returns The list page with filters and the sortable, groupable task table.
+ */
+
+"use client";
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import ListView from "@/components/tasks/ListView";
+import { Skeleton } from "@/components/Loading";
+import { useProtectedPage } from "@/hooks/useProtectedPage";
+import { apiFetch } from "@/lib/apiFetch";
+import { useTasks } from "@/context/TasksProvider";
+import TaskFilterModal from "@/components/filters/TaskFilterModal";
+import { FaFilter } from "react-icons/fa";
+import { useTranslation } from "react-i18next";
+import { Task } from "@/types/TaskCategoryTypes";
+
+export default function ListPage() {
+  const { t } = useTranslation();
+  const { isAuthenticated, loading } = useProtectedPage();
+  const router = useRouter();
+  const {
+    tasks,
+    hasFilters,
+    categories,
+    loadingData,
+    errorMessage,
+    setErrorMessage,
+    setTasks,
+    updateTask,
+    loadTasks,
+  } = useTasks();
+  const [showFilterModal, setShowFilterModal] = useState(false);
+  const [blockedTask, setBlockedTask] = useState<Task | null>(null); // Task waiting for confirmation to complete
+
+  useEffect(() => {
+    if (isAuthenticated) loadTasks();
+  }, [isAuthenticated, loadTasks]);
+
+  const toggleTaskCompletion = async (id: string, force = false) => {
+    const taskToToggle = tasks.find((task) => task._id === id);
+    if (!taskToToggle) return;
+
+    const completed = !taskToToggle.completed;
+    setBlockedTask(null);
+    if (completed && !force && taskToToggle.blockers?.some((blocker) => !blocker.completed)) {
+      setBlockedTask(taskToToggle);
+      return;
+    }
+
+    updateTask(id, { completed });
+    setErrorMessage(null);
+
+    try {
+      const response = await apiFetch(`/api/tasks/${id}`, {
+        method: "PUT",
+        body: JSON.stringify({ completed, ...(force ? { force } : {}) }),
+      });
+      if (response && response.success) {
+        // Keep the blocker state of the tasks this task blocks up to date
+        setTasks((prevTasks) =>
+          prevTasks.map((task) =>
+            task.blockers?.some((blocker) => blocker._id === id)
+              ? {
+                  ...task,
+                  blockers: task.blockers.map((blocker) =>
+                    blocker._id === id ? { ...blocker, completed } : blocker
+                  ),
+                }
+              : task
+          )
+        );
+        updateTask(id, response.task);
+        // Completing a recurring task creates its next occurrence
+        if (response.nextTask) {
+          setTasks((prevTasks) => [...prevTasks, response.nextTask]);
+        }
+      } else {
+        throw new Error("Failed to update task");
+      }
+    } catch (error) {
+      console.error("Error toggling task completion:", error);
+      updateTask(id, { completed: taskToToggle.completed });
+      setErrorMessage(t("list.toggleError"));
+    }
+  };
+
+  if (loading || loadingData) {
+    return (
+      <div className="flex flex-1 justify-center items-center">
+        <Skeleton
+          repeatCount={3}
+          count={2}
+          type="text"
+          widths={["w-full", "w-3/4"]}
+          skeletonDuration={1000}
+        />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div
+      className="mt-20 p-8 dark:text-gray-300"
+      data-cy="task-list-page"
+      data-testid="task-list-page"
+    >
+      <div className="mb-4 flex justify-between">
+        <h1
+          className="text-xl font-bold"
+          data-cy="task-list-page-title"
+          data-testid="task-list-page-title"
+        >
+          {t("list.title")}
+        </h1>
+        <div className="flex items-center">
+          <button
+            onClick={() => setShowFilterModal(true)}
+            className="flex items-center bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 px-3 py-2 rounded-lg shadow hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+            data-cy="filter-modal-button"
+            data-testid="filter-modal-button"
+          >
+            <FaFilter className="mr-1" />
+            {t("tasksPage.filterButton")}
+          </button>
+
+          <button
+            onClick={() => router.push("/tasks/new")}
+            className="ml-2 bg-blue-500 text-white p-2 rounded-lg shadow hover:bg-blue-600 transition-all"
+            data-cy="button-add-task"
+            data-testid="button-add-task"
+          >
+            {t("tasksPage.addNewTaskButton")}
+          </button>
+        </div>
+      </div>
+
+      {showFilterModal && (
+        <TaskFilterModal onClose={() => setShowFilterModal(false)} />
+      )}
+
+      {errorMessage && <p className="text-red-500">{errorMessage}</p>}
+
+      {blockedTask && (
+        <div
+          className="mb-4 p-3 rounded-md border border-yellow-400 bg-yellow-50 dark:bg-yellow-900 dark:border-yellow-700"
+          data-cy="blocked-task-confirm"
+          data-testid="blocked-task-confirm"
+        >
+          <p className="mb-2">
+            {t("dependencies.confirm_complete", {
+              title: blockedTask.title,
+              blockers: (blockedTask.blockers || [])
+                .filter((blocker) => !blocker.completed)
+                .map((blocker) => blocker.title)
+                .join(", "),
+            })}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => toggleTaskCompletion(blockedTask._id, true)}
+              className="bg-yellow-500 text-white px-3 py-1 rounded-md hover:bg-yellow-600 transition-all"
+              data-cy="blocked-task-force"
+              data-testid="blocked-task-force"
+            >
+              {t("dependencies.complete_anyway")}
+            </button>
+            <button
+              onClick={() => setBlockedTask(null)}
+              className="bg-gray-500 text-white px-3 py-1 rounded-md hover:bg-gray-600 transition-all"
+              data-cy="blocked-task-cancel"
+              data-testid="blocked-task-cancel"
+            >
+              {t("task.cancel")}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {tasks.length === 0 && hasFilters && (
+        <p className="text-gray-500 mt-4">{t("tasksPage.noFilteredTasks")}</p>
+      )}
+
+      <ListView
+        tasks={tasks}
+        categories={categories}
+        onEditTask={(id) => router.push(`/tasks/edit/${id}`)}
+        onToggleCompletion={toggleTaskCompletion}
+      />
+    </div>
+  );
+}
@@ -1,64 +1,86 @@
 "use client";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import CardsView from "@/components/tasks/CardsView";
+import BulkActionBar from "@/components/tasks/BulkActionBar";
 import { Skeleton } from "@/components/Loading";
 import { useProtectedPage } from "@/hooks/useProtectedPage";
-import { apiFetch } from "@/lib/apiFetch";
-import { Task, Category } from "@/types/TaskCategoryTypes";
-import FilterModal from "@/components/filters/FilterModal";
-import PriorityFilter from "@/components/filters/PriorityFilter";
+import { useTasks } from "@/context/TasksProvider";
+import TaskFilterModal from "@/components/filters/TaskFilterModal";
 import { FaFilter } from "react-icons/fa";
 import { useTranslation } from "react-i18next";
+import { fetchFilteredTaskIds, toggleTaskSelection } from "@/lib/taskSelection";
+import { TaskBatchResponse } from "@/types/TaskBatchTypes";
 
 export default function TasksPage() {
   const { t } = useTranslation();
   const { isAuthenticated, loading } = useProtectedPage();
   const router = useRouter();
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [loadingData, setLoadingData] = useState<boolean>(true);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [selectedPriorities, setSelectedPriorities] = useState<string[]>([]);
+  const {
+    tasks,
+    categories,
+    tags,
+    total,
+    hasMore,
+    hasFilters,
+    loadingData,
+    loadingMore,
+    errorMessage,
+    setErrorMessage,
+    filters,
+    loadTasks,
+    loadMoreTasks,
+  } = useTasks();
   const [showFilterModal, setShowFilterModal] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]); // Tasks selected for bulk actions
+  const [anchorId, setAnchorId] = useState<string | null>(null); // Last clicked task, start of a shift-click range
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
-  const filteredTasks = tasks.filter((task) =>
-    selectedPriorities.length > 0
-      ? selectedPriorities.includes(task.priority.toLowerCase())
-      : true
-  );
+  useEffect(() => {
+    if (isAuthenticated) loadTasks({ paginate: true });
+  }, [isAuthenticated, loadTasks]);
 
-  const clearFilters = () => {
-    setSelectedPriorities([]);
-  };
+  // A new filter starts a new selection
+  useEffect(() => {
+    setSelectedIds([]);
+    setAnchorId(null);
+  }, [filters]);
 
+  // Loads the next page once the end of the list scrolls into view
   useEffect(() => {
-    const fetchTasksAndCategories = async () => {
-      try {
-        const taskData = await apiFetch("/api/tasks", { method: "GET" });
-        if (taskData && taskData.success) {
-          setTasks(taskData.tasks);
-        } else {
-          setErrorMessage(t("tasksPage.fetchError"));
-        }
-
-        const categoryData = await apiFetch("/api/categories", {
-          method: "GET",
-        });
-        if (categoryData && categoryData.success) {
-          setCategories(categoryData.categories);
-        } else {
-          setErrorMessage(t("tasksPage.fetchError"));
-        }
-      } catch (error) {
-        setErrorMessage(t("tasksPage.fetchError"));
-      } finally {
-        setLoadingData(false);
-      }
-    };
-
-    if (isAuthenticated) fetchTasksAndCategories();
-  }, [isAuthenticated, t]);
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || typeof IntersectionObserver === "undefined") return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMoreTasks();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMoreTasks]);
+
+  const handleSelectTask = (id: string, shiftKey: boolean) => {
+    setSelectedIds((prevIds) =>
+      toggleTaskSelection(prevIds, tasks.map((task) => task._id), id, { anchorId, range: shiftKey })
+    );
+    setAnchorId(id);
+  };
+
+  const handleSelectAll = async () => {
+    try {
+      setSelectedIds(await fetchFilteredTaskIds(filters));
+    } catch (error) {
+      setErrorMessage(t("tasksPage.fetchError"));
+    }
+  };
+
+  // Deleted and missing tasks leave the selection; the others stay selected for another action
+  const handleBatchApplied = (response: TaskBatchResponse) => {
+    const removedIds = response.results
+      .filter((result) => result.code === "TASK_NOT_FOUND" || (response.action === "delete" && result.success))
+      .map((result) => result.taskId);
+    setSelectedIds((prevIds) => prevIds.filter((id) => !removedIds.includes(id)));
+    loadTasks({ paginate: true });
+  };
 
   if (loading || loadingData) {
     return (
@@ -103,6 +125,15 @@ export default function TasksPage() {
             {t("tasksPage.filterButton")}
           </button>
 
+          <button
+            onClick={() => router.push("/tasks/import")}
+            className="ml-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 px-3 py-2 rounded-lg shadow hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+            data-cy="button-import-tasks"
+            data-testid="button-import-tasks"
+          >
+            {t("tasksPage.importButton")}
+          </button>
+
           <button
             onClick={() => router.push("/tasks/new")}
             className="ml-2 bg-blue-500 text-white p-2 rounded-lg shadow hover:bg-blue-600 transition-all"
@@ -115,38 +146,75 @@ export default function TasksPage() {
       </div>
 
       {showFilterModal && (
-        <FilterModal
-          onClose={() => setShowFilterModal(false)}
-          onClearFilters={clearFilters}
-        >
-          <PriorityFilter
-            selectedPriorities={selectedPriorities}
-            onPriorityChange={(priority: string) =>
-              setSelectedPriorities((prevPriorities) =>
-                prevPriorities.includes(priority)
-                  ? prevPriorities.filter((p) => p !== priority)
-                  : [...prevPriorities, priority]
-              )
-            }
-          />
-        </FilterModal>
+        <TaskFilterModal onClose={() => setShowFilterModal(false)} />
       )}
 
       {errorMessage && <p className="text-red-500">{errorMessage}</p>}
 
-      {filteredTasks.length === 0 && (
+      {selectedIds.length > 0 && (
+        <BulkActionBar
+          selectedIds={selectedIds}
+          total={total}
+          categories={categories}
+          onSelectAll={handleSelectAll}
+          onClearSelection={() => setSelectedIds([])}
+          onApplied={handleBatchApplied}
+        />
+      )}
+
+      {tasks.length === 0 && (
         <p className="text-gray-500 mt-4">
-          {tasks.length === 0
-            ? t("tasksPage.noTasks")
-            : t("tasksPage.noFilteredTasks")}
+          {hasFilters
+            ? t("tasksPage.noFilteredTasks")
+            : t("tasksPage.noTasks")}
+        </p>
+      )}
+
+      {tasks.length > 0 && (
+        <p
+          className="text-sm text-gray-500 mb-2"
+          data-cy="tasks-count"
+          data-testid="tasks-count"
+        >
+          {t("tasksPage.showingCount", { count: tasks.length, total })}
+          {selectedIds.length === 0 && (
+            <button
+              onClick={handleSelectAll}
+              className="ml-2 text-blue-500 hover:underline"
+              data-cy="select-all-tasks"
+              data-testid="select-all-tasks"
+            >
+              {t("bulkActions.select_all", { count: total })}
+            </button>
+          )}
         </p>
       )}
 
       <CardsView
-        tasks={filteredTasks}
+        tasks={tasks}
         categories={categories}
+        tags={tags}
         onEditTask={(id) => router.push(`/tasks/edit/${id}`)}
+        selectedIds={selectedIds}
+        onSelectTask={handleSelectTask}
       />
+
+      {hasMore && (
+        <div
+          ref={sentinelRef}
+          className="flex justify-center py-4"
+          data-cy="tasks-load-more"
+          data-testid="tasks-load-more"
+        >
+          <button
+            onClick={loadMoreTasks}
+            disabled={loadingMore}
+            className="bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 px-3 py-2 rounded-lg shadow hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
+          >
+            {loadingMore ? t("tasksPage.loadingMore") : t("tasksPage.loadMore")}
+          </button>
+        </div>
+      )}
     </div>
   );
 }
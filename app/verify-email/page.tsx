@@ -0,0 +1,26 @@
+/**
+ * VerifyEmailPage.tsx
+ * 
+ * Page opened from the email verification link sent on registration.
+ * 
+ * @returns The centered result of the verification.
+ * 
+ * Dependencies:
+ * - `VerifyEmail`: Component that reads the token from the URL and confirms the email.
+ */
+
+import { Suspense } from 'react';
+import VerifyEmail from '@/components/auth/VerifyEmail';
+
+const VerifyEmailPage = () => {
+  return (
+    <div className='flex min-h-screen flex-col items-center justify-center'>
+      {/* useSearchParams needs a Suspense boundary in statically rendered pages */}
+      <Suspense>
+        <VerifyEmail />
+      </Suspense>
+    </div>
+  );
+};
+
+export default VerifyEmailPage;
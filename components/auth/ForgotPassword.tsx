@@ -0,0 +1,99 @@
+/**
+ * ForgotPassword.tsx
+ *
+ * Form asking for the email of the account whose password was forgotten.
+ *
+ * - Sends the email to `/api/auth/forgot-password`, which emails a one-time reset link.
+ * - Shows the same confirmation whether or not the email is registered, like the API.
+ *
+ * @returns The forgot password form, or the confirmation once it is sent.
+ */
+
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useTranslation } from "react-i18next";
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState("");
+  const [sent, setSent] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+
+    try {
+      const response = await fetch("/api/auth/forgot-password", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ email }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to request a password reset");
+      }
+      setSent(true);
+    } catch (error) {
+      setError(t("passwordReset.requestError"));
+      console.error("Password reset request failed:", error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-white text-black shadow-lg rounded-lg max-w-sm">
+      <h2 className="text-lg font-bold mb-4" data-cy="forgot-password-title" data-testid="forgot-password-title">
+        {t("passwordReset.forgotTitle")}
+      </h2>
+
+      {sent ? (
+        <p className="text-green-600 mb-4" data-cy="forgot-password-sent" data-testid="forgot-password-sent">
+          {t("passwordReset.emailSent")}
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <p className="text-sm text-gray-600 mb-4">{t("passwordReset.forgotDescription")}</p>
+          <div className="mb-4">
+            <label htmlFor="email" className="block text-sm font-medium mb-2">
+              {t("login.email")}
+            </label>
+            <input
+              id="email"
+              type="email"
+              className="p-2 border border-gray-300 rounded w-full"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              data-cy="forgot-password-email"
+              data-testid="forgot-password-email"
+            />
+          </div>
+          {error && <p className="text-red-500 mb-4">{error}</p>}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full px-4 py-2 rounded bg-blue-500 text-white hover:bg-blue-700 transition disabled:opacity-50"
+            data-cy="forgot-password-submit"
+            data-testid="forgot-password-submit"
+          >
+            {t("passwordReset.sendLink")}
+          </button>
+        </form>
+      )}
+
+      <p className="mt-4">
+        <Link className="text-red-500" href="/login">
+          {t("passwordReset.backToLogin")}
+        </Link>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * PasswordRules.tsx
+ *
+ * Checklist of the password strength rules, shown under a new password field.
+ *
+ * - Marks each rule of `getPasswordRuleErrors` as met or not while the user types.
+ *
+ * @component
+ * @param password - The password being typed.
+ * @returns The list of rules with their state.
+ */
+
+import React from "react";
+import { FaCheck, FaTimes } from "react-icons/fa";
+import { useTranslation } from "react-i18next";
+import { getPasswordRuleErrors, MIN_PASSWORD_LENGTH, PasswordRule } from "@/lib/utils";
+
+const RULES: PasswordRule[] = ["length", "letter", "number"];
+
+const PasswordRules: React.FC<{ password: string }> = ({ password }) => {
+  const { t } = useTranslation();
+  const errors = getPasswordRuleErrors(password);
+
+  return (
+    <ul className="mt-2 space-y-1 text-sm" data-testid="password-rules">
+      {RULES.map((rule) => {
+        const met = !errors.includes(rule);
+        const Icon = met ? FaCheck : FaTimes;
+        return (
+          <li
+            key={rule}
+            className={`flex items-center gap-2 ${met ? "text-green-600" : "text-gray-500"}`}
+            data-testid={`password-rule-${rule}`}
+            data-met={met}
+          >
+            <Icon className="w-3 h-3" aria-hidden="true" />
+            {t(`passwordRules.${rule}`, { count: MIN_PASSWORD_LENGTH })}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default PasswordRules;
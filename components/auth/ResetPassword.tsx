@@ -0,0 +1,135 @@
+/**
+ * ResetPassword.tsx
+ *
+ * Form to choose a new password, opened from the link of the password reset email.
+ *
+ * - Reads the one-time token from the `token` query parameter.
+ * - Checks that both passwords match and follow the strength rules before calling `/api/auth/reset-password`.
+ * - Sends the user to the login page once the password is changed; every session was logged out.
+ *
+ * @returns The new password form, or a message when the link has no token.
+ */
+
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useTranslation } from "react-i18next";
+import { getPasswordRuleErrors } from "@/lib/utils";
+import { ApiError, describeApiError } from "@/lib/apiError";
+import PasswordRules from "@/components/auth/PasswordRules";
+
+export default function ResetPassword() {
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const { t } = useTranslation();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (getPasswordRuleErrors(password).length > 0) {
+      setError(t("passwordRules.notMet"));
+      return;
+    }
+    if (password !== confirmation) {
+      setError(t("passwordReset.mismatch"));
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await fetch("/api/auth/reset-password", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token, password }),
+      });
+
+      if (!response.ok) {
+        const error = ApiError.fromResponse(response.status, await response.json().catch(() => null));
+        setError(error.code === "RESET_TOKEN_INVALID" ? t("passwordReset.invalidLink") : describeApiError(error, t));
+        return;
+      }
+      router.push("/login?message=password_reset");
+    } catch (error) {
+      setError(t("passwordReset.resetError"));
+      console.error("Password reset failed:", error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="p-4 bg-white text-black shadow-lg rounded-lg max-w-sm">
+      <h2 className="text-lg font-bold mb-4" data-cy="reset-password-title" data-testid="reset-password-title">
+        {t("passwordReset.resetTitle")}
+      </h2>
+
+      {!token ? (
+        <p className="text-red-500 mb-4" data-testid="reset-password-missing-token">
+          {t("passwordReset.invalidLink")}
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <div className="mb-4">
+            <label htmlFor="password" className="block text-sm font-medium mb-2">
+              {t("passwordReset.newPassword")}
+            </label>
+            <input
+              id="password"
+              type="password"
+              autoComplete="new-password"
+              className="p-2 border border-gray-300 rounded w-full"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              data-cy="reset-password-input"
+              data-testid="reset-password-input"
+            />
+            <PasswordRules password={password} />
+          </div>
+          <div className="mb-4">
+            <label htmlFor="password-confirmation" className="block text-sm font-medium mb-2">
+              {t("passwordReset.confirmPassword")}
+            </label>
+            <input
+              id="password-confirmation"
+              type="password"
+              autoComplete="new-password"
+              className="p-2 border border-gray-300 rounded w-full"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              required
+              data-cy="reset-password-confirmation"
+              data-testid="reset-password-confirmation"
+            />
+          </div>
+          {error && <p className="text-red-500 mb-4" data-testid="reset-password-error">{error}</p>}
+          <button
+            type="submit"
+            disabled={submitting}
+            className="w-full px-4 py-2 rounded bg-blue-500 text-white hover:bg-blue-700 transition disabled:opacity-50"
+            data-cy="reset-password-submit"
+            data-testid="reset-password-submit"
+          >
+            {t("passwordReset.savePassword")}
+          </button>
+        </form>
+      )}
+
+      <p className="mt-4">
+        <Link className="text-red-500" href="/forgot-password">
+          {t("passwordReset.requestNewLink")}
+        </Link>
+      </p>
+    </div>
+  );
+}
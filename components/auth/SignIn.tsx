@@ -5,11 +5,16 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { useAuthContext } from "@/context/AuthProvider";
 import Link from "next/link";
 import { useTranslation } from "react-i18next"; // Import useTranslation
+import { ApiError, describeApiError } from "@/lib/apiError";
 
 export default function SignIn() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [verificationRequired, setVerificationRequired] = useState(false);
+  const [verificationSent, setVerificationSent] = useState(false);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState("");
   const router = useRouter();
   const searchParams = useSearchParams();
   const redirectUrl = searchParams.get("redirect") || "/dashboard";
@@ -24,6 +29,8 @@ export default function SignIn() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setVerificationRequired(false);
+    setVerificationSent(false);
 
     try {
       const response = await fetch("/api/auth/login", {
@@ -36,20 +43,91 @@ export default function SignIn() {
 
       const data = await response.json();
       if (!response.ok) {
-        throw new Error(data.message || "Failed to login");
+        throw ApiError.fromResponse(response.status, data);
       }
 
-      login(data.token);
-
-      if (isMounted) {
-        router.push(redirectUrl);
+      // With 2FA enabled, the password only unlocks the step asking for a code
+      if (data.twoFactorRequired) {
+        setChallengeToken(data.challengeToken);
+        return;
       }
+
+      completeLogin(data.token);
     } catch (error) {
-      setError(t("login.sessionExpired")); // Use translation for error message
+      if (error instanceof ApiError && error.code === "EMAIL_NOT_VERIFIED") {
+        setVerificationRequired(true);
+        return;
+      }
+      showError(error);
       console.error("Login failed:", error);
     }
   };
 
+  // Repeated failures lock the login for a while; the wait is shown in whole minutes
+  const showError = (error: unknown) => {
+    if (error instanceof ApiError && error.code === "TOO_MANY_ATTEMPTS") {
+      const retryAfter = Number(error.details?.retryAfter) || 0;
+      setError(t("login.tooManyAttempts", { count: Math.max(1, Math.ceil(retryAfter / 60)) }));
+      return;
+    }
+    setError(describeApiError(error, t));
+  };
+
+  const completeLogin = (token: string) => {
+    login(token);
+
+    if (isMounted) {
+      router.push(redirectUrl);
+    }
+  };
+
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/two-factor", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ challengeToken, code }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw ApiError.fromResponse(response.status, data);
+      }
+
+      completeLogin(data.token);
+    } catch (error) {
+      if (error instanceof ApiError && error.code === "TWO_FACTOR_CHALLENGE_INVALID") {
+        // The challenge expired: start over from the password
+        setChallengeToken(null);
+        setCode("");
+      }
+      showError(error);
+      console.error("Two-factor login failed:", error);
+    }
+  };
+
+  // Login is blocked until the email is verified, so the new link is requested by email
+  const handleResendVerification = async () => {
+    try {
+      await fetch("/api/auth/resend-verification", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ email }),
+      });
+      setVerificationSent(true);
+    } catch (error) {
+      setError(t("emailVerification.resendError"));
+      console.error("Resending the verification email failed:", error);
+    }
+  };
+
   return (
     <div className="p-4 bg-white text-black shadow-lg rounded-lg">
       <h2 
@@ -58,47 +136,114 @@ export default function SignIn() {
       >
         {t("login.signIn")}
       </h2>
-      <form onSubmit={handleSubmit}>
-        <div className="mb-4">
-          <label htmlFor="email" className="block text-sm font-medium mb-2">
-            {t("login.email")}
-          </label>
-          <input
-            id="email"
-            type="email"
-            className="p-2 border border-gray-300 rounded w-full"
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            required
-          />
-        </div>
-        <div className="mb-4">
-          <label htmlFor="password" className="block text-sm font-medium mb-2">
-            {t("login.password")}
-          </label>
-          <input
-            id="password"
-            type="password"
-            className="p-2 border border-gray-300 rounded w-full"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            required
-          />
-        </div>
-        {error && <p className="text-red-500 mb-4">{error}</p>}
-        <button
-          type="submit"
-          className="w-full px-4 py-2 rounded bg-blue-500 text-white hover:bg-blue-700 transition"
-        >
-          {t("login.signInButton")}
-        </button>
-        <p className="mt-4">
-          {t("login.noAccount")}{" "}
-          <Link className="text-red-500" href="/register">
-            {t("login.registerHere")}
-          </Link>
-        </p>
-      </form>
+      {challengeToken ? (
+        <form onSubmit={handleCodeSubmit} data-cy="two-factor-form" data-testid="two-factor-form">
+          <p className="mb-4 text-sm">{t("twoFactor.prompt")}</p>
+          <div className="mb-4">
+            <label htmlFor="two-factor-code" className="block text-sm font-medium mb-2">
+              {t("twoFactor.code")}
+            </label>
+            <input
+              id="two-factor-code"
+              type="text"
+              autoComplete="one-time-code"
+              className="p-2 border border-gray-300 rounded w-full"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+              autoFocus
+              data-cy="two-factor-code"
+              data-testid="two-factor-code"
+            />
+            <p className="mt-1 text-xs text-gray-500">{t("twoFactor.recoveryHint")}</p>
+          </div>
+          {error && <p className="text-red-500 mb-4">{error}</p>}
+          <button
+            type="submit"
+            className="w-full px-4 py-2 rounded bg-blue-500 text-white hover:bg-blue-700 transition"
+          >
+            {t("twoFactor.verify")}
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setChallengeToken(null);
+              setCode("");
+              setError(null);
+            }}
+            className="w-full mt-2 text-sm text-blue-500 underline"
+          >
+            {t("twoFactor.back")}
+          </button>
+        </form>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <div className="mb-4">
+            <label htmlFor="email" className="block text-sm font-medium mb-2">
+              {t("login.email")}
+            </label>
+            <input
+              id="email"
+              type="email"
+              className="p-2 border border-gray-300 rounded w-full"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+          <div className="mb-4">
+            <label htmlFor="password" className="block text-sm font-medium mb-2">
+              {t("login.password")}
+            </label>
+            <input
+              id="password"
+              type="password"
+              className="p-2 border border-gray-300 rounded w-full"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          </div>
+          <p className="mb-4 text-sm text-right">
+            <Link className="text-blue-500" href="/forgot-password" data-cy="forgot-password-link">
+              {t("passwordReset.forgotLink")}
+            </Link>
+          </p>
+          {error && <p className="text-red-500 mb-4">{error}</p>}
+          {verificationRequired && (
+            <div className="mb-4 text-sm" data-cy="email-verification-required" data-testid="email-verification-required">
+              <p className="text-red-500">{t("emailVerification.loginBlocked")}</p>
+              {verificationSent ? (
+                <p className="text-green-600" data-testid="email-verification-sent">
+                  {t("emailVerification.sent")}
+                </p>
+              ) : (
+                <button
+                  type="button"
+                  onClick={handleResendVerification}
+                  className="text-blue-500 underline"
+                  data-cy="resend-verification-button"
+                  data-testid="resend-verification-button"
+                >
+                  {t("emailVerification.resend")}
+                </button>
+              )}
+            </div>
+          )}
+          <button
+            type="submit"
+            className="w-full px-4 py-2 rounded bg-blue-500 text-white hover:bg-blue-700 transition"
+          >
+            {t("login.signInButton")}
+          </button>
+          <p className="mt-4">
+            {t("login.noAccount")}{" "}
+            <Link className="text-red-500" href="/register">
+              {t("login.registerHere")}
+            </Link>
+          </p>
+        </form>
+      )}
     </div>
   );
 }
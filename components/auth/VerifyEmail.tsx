@@ -0,0 +1,89 @@
+/**
+ * VerifyEmail.tsx
+ *
+ * Confirms the email of an account, opened from the link of the verification email.
+ *
+ * - Reads the one-time token from the `token` query parameter and sends it to `/api/auth/verify-email` once.
+ * - Shows whether the email was confirmed, with a link to continue to the app.
+ *
+ * @returns The verification result, or a message when the link is invalid or expired.
+ */
+
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useTranslation } from "react-i18next";
+import { Spinner } from "@/components/Loading";
+
+type VerificationStatus = "verifying" | "verified" | "invalid" | "error";
+
+export default function VerifyEmail() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const [status, setStatus] = useState<VerificationStatus>(token ? "verifying" : "invalid");
+  // The token works once, so a second call (as in React strict mode) would report it as invalid
+  const requested = useRef(false);
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    const verify = async () => {
+      try {
+        const response = await fetch("/api/auth/verify-email", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ token }),
+        });
+
+        if (response.ok) {
+          setStatus("verified");
+        } else {
+          setStatus(response.status === 400 ? "invalid" : "error");
+        }
+      } catch (error) {
+        setStatus("error");
+        console.error("Email verification failed:", error);
+      }
+    };
+    verify();
+  }, [token]);
+
+  return (
+    <div className="p-4 bg-white text-black shadow-lg rounded-lg max-w-sm">
+      <h2 className="text-lg font-bold mb-4" data-cy="verify-email-title" data-testid="verify-email-title">
+        {t("emailVerification.title")}
+      </h2>
+
+      {status === "verifying" && <Spinner />}
+      {status === "verified" && (
+        <p className="text-green-600 mb-4" data-testid="verify-email-success">
+          {t("emailVerification.verified")}
+        </p>
+      )}
+      {status === "invalid" && (
+        <p className="text-red-500 mb-4" data-testid="verify-email-invalid">
+          {t("emailVerification.invalidLink")}
+        </p>
+      )}
+      {status === "error" && (
+        <p className="text-red-500 mb-4" data-testid="verify-email-error">
+          {t("emailVerification.verifyError")}
+        </p>
+      )}
+
+      {status !== "verifying" && (
+        <p className="mt-4">
+          <Link className="text-blue-500" href="/login" data-cy="verify-email-continue">
+            {t("emailVerification.continue")}
+          </Link>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+/**
+ * CategoryIcon.tsx
+ *
+ * Icon of a category, drawn in the category color.
+ *
+ * - Maps the icon keys stored on categories (see CATEGORY_ICONS) to react-icons.
+ * - Falls back to a folder icon for categories without an icon.
+ *
+ * @component
+ * @param {string} [icon] - Icon key of the category.
+ * @param {string} [color] - Hex color of the category.
+ * @param {string} [className] - Extra classes for the icon.
+ *
+ * @returns The category icon.
+ */
+
+import React from "react";
+import { IconType } from "react-icons";
+import {
+  FaBook,
+  FaBookmark,
+  FaBriefcase,
+  FaDumbbell,
+  FaFolder,
+  FaGraduationCap,
+  FaHeart,
+  FaHome,
+  FaPlane,
+  FaShoppingCart,
+  FaStar,
+} from "react-icons/fa";
+import { CategoryIcon as CategoryIconKey } from "@/lib/categoryTree";
+
+export const CATEGORY_ICON_COMPONENTS: Record<CategoryIconKey, IconType> = {
+  bookmark: FaBookmark,
+  briefcase: FaBriefcase,
+  home: FaHome,
+  heart: FaHeart,
+  star: FaStar,
+  book: FaBook,
+  "shopping-cart": FaShoppingCart,
+  "graduation-cap": FaGraduationCap,
+  plane: FaPlane,
+  dumbbell: FaDumbbell,
+};
+
+interface CategoryIconProps {
+  icon?: string;
+  color?: string;
+  className?: string;
+}
+
+const CategoryIcon: React.FC<CategoryIconProps> = ({ icon, color, className = "" }) => {
+  const Icon = CATEGORY_ICON_COMPONENTS[icon as CategoryIconKey] || FaFolder;
+  return <Icon className={className} style={{ color: color || "#9ca3af" }} aria-hidden="true" />;
+};
+
+export default CategoryIcon;
@@ -0,0 +1,111 @@
+/**
+ * DeleteCategoryModal.tsx
+ *
+ * Confirmation dialog shown before deleting a category.
+ *
+ * - Lets the user choose what happens to the tasks of the category: move them to another category,
+ *   leave them without a category, or delete them too.
+ * - Reminds that sub-categories move up to the parent of the deleted category.
+ *
+ * @component
+ * @param {Category} category - The category being deleted.
+ * @param {{ category: Category; depth: number }[]} options - The other categories, in tree order, for the target select.
+ * @param {function} onConfirm - Called with the chosen action and, for `reassign`, the target category ID.
+ * @param {function} onCancel - Closes the dialog without deleting.
+ *
+ * @returns A modal with the task options and the confirm and cancel buttons.
+ */
+
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Category } from "@/types/TaskCategoryTypes";
+
+export type DeleteCategoryAction = "reassign" | "uncategorize" | "delete";
+
+interface DeleteCategoryModalProps {
+  category: Category;
+  options: { category: Category; depth: number }[];
+  onConfirm: (action: DeleteCategoryAction, targetId?: string) => void;
+  onCancel: () => void;
+}
+
+const ACTIONS: DeleteCategoryAction[] = ["uncategorize", "reassign", "delete"];
+
+const DeleteCategoryModal: React.FC<DeleteCategoryModalProps> = ({ category, options, onConfirm, onCancel }) => {
+  const { t } = useTranslation();
+  const [action, setAction] = useState<DeleteCategoryAction>("uncategorize");
+  const [targetId, setTargetId] = useState("");
+
+  const canConfirm = action !== "reassign" || !!targetId;
+
+  return (
+    <div
+      className="fixed inset-0 flex items-center justify-center bg-black bg-opacity-50 z-50"
+      data-cy="delete-category-modal"
+      data-testid="delete-category-modal"
+    >
+      <div className="w-full max-w-md bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 space-y-4">
+        <h3 className="text-lg font-semibold">{t("categories.deleteTitle", { name: category.name })}</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t("categories.deleteTasksQuestion")}</p>
+
+        <div className="space-y-2">
+          {ACTIONS.map((option) => (
+            <label key={option} className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="category-delete-action"
+                value={option}
+                checked={action === option}
+                onChange={() => setAction(option)}
+                data-testid={`delete-category-action-${option}`}
+                data-cy={`delete-category-action-${option}`}
+              />
+              {t(`categories.deleteActions.${option}`)}
+            </label>
+          ))}
+        </div>
+
+        {action === "reassign" && (
+          <select
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            className="p-2 w-full border border-gray-300 rounded bg-transparent"
+            data-testid="delete-category-target"
+            data-cy="delete-category-target"
+          >
+            <option value="">{t("categories.selectTarget")}</option>
+            {options.map(({ category: option, depth }) => (
+              <option key={option._id} value={option._id}>
+                {"\u00A0\u00A0".repeat(depth)}
+                {option.name}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">{t("categories.deleteSubcategoriesNote")}</p>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded bg-gray-500 text-white hover:bg-gray-600 transition"
+            data-testid="delete-category-cancel"
+          >
+            {t("task.cancel")}
+          </button>
+          <button
+            onClick={() => onConfirm(action, action === "reassign" ? targetId : undefined)}
+            disabled={!canConfirm}
+            className="px-4 py-2 rounded bg-red-500 text-white hover:bg-red-700 transition disabled:opacity-50"
+            data-testid="delete-category-confirm"
+            data-cy="delete-category-confirm"
+          >
+            {t("categories.deleteConfirm")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeleteCategoryModal;
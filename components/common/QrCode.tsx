@@ -0,0 +1,53 @@
+/**
+ * QrCode.tsx
+ *
+ * Renders text as a QR code in an SVG, with the quiet zone scanners need around it.
+ *
+ * @component
+ * @param value - The text to encode.
+ * @param size - The width and height of the image in pixels.
+ * @param title - Accessible description of the image.
+ * @returns An SVG image of the QR code.
+ */
+
+import React, { useMemo } from "react";
+import { encodeQrCode } from "@/lib/qrCode";
+
+const QUIET_ZONE = 4;
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  title: string;
+}
+
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 192, title }) => {
+  // One path for all dark modules keeps the SVG small
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    const commands: string[] = [];
+    modules.forEach((row, y) =>
+      row.forEach((dark, x) => {
+        if (dark) commands.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+      })
+    );
+    return { path: commands.join(""), dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={title}
+      data-testid="qr-code"
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+export default QrCode;
@@ -0,0 +1,59 @@
+/**
+ * TagChip.tsx
+ *
+ * Small colored label showing the name of a tag.
+ *
+ * - Uses the tag color as background, with dark or light text depending on its brightness.
+ * - Optionally renders a remove button, used by the tag input of the task form.
+ *
+ * @component
+ * @param {Tag} tag - The tag to display.
+ * @param {function} [onRemove] - Called when the remove button is clicked; the button is hidden without it.
+ * @param {string} [testId] - Value of the data-testid and data-cy attributes.
+ *
+ * @returns A rounded chip with the tag name.
+ */
+
+import React from "react";
+import { FaTimes } from "react-icons/fa";
+import { useTranslation } from "react-i18next";
+import { Tag } from "@/types/TaskCategoryTypes";
+
+interface TagChipProps {
+  tag: Pick<Tag, "name" | "color">;
+  onRemove?: () => void;
+  testId?: string;
+}
+
+// Picks a readable text color for a hex background, using its perceived brightness
+const getTextColor = (hex: string) => {
+  const [r, g, b] = [1, 3, 5].map((start) => parseInt(hex.slice(start, start + 2), 16));
+  return r * 0.299 + g * 0.587 + b * 0.114 > 150 ? "#1f2937" : "#ffffff";
+};
+
+const TagChip: React.FC<TagChipProps> = ({ tag, onRemove, testId }) => {
+  const { t } = useTranslation();
+
+  return (
+    <span
+      className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium"
+      style={{ backgroundColor: tag.color, color: getTextColor(tag.color) }}
+      data-testid={testId}
+      data-cy={testId}
+    >
+      {tag.name}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="ml-1"
+          aria-label={t("tags.remove", { name: tag.name })}
+        >
+          <FaTimes />
+        </button>
+      )}
+    </span>
+  );
+};
+
+export default TagChip;
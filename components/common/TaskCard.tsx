@@ -3,13 +3,21 @@
  * 
  * Component for rendering an individual task card in a list or board view.
  * 
- * - Displays task details such as title, priority, category, and due date.
+ * - Displays task details such as title, priority, category, tags, and due date.
  * - Highlights overdue tasks by applying a different border color.
+ * - Shows the checklist progress (completed/total subtasks) when the task has subtasks.
+ * - Lists the tasks blocking this task and the tasks it blocks, with links to them; a lock icon
+ *   marks tasks that still have open blockers.
  * - Provides an edit button that triggers the onEditTask callback.
+ * - Shows a checkbox to select the task for bulk actions when onSelectTask is given, and highlights selected cards.
  * 
  * @param task - The task object containing details like title, priority, due date, and category.
  * @param onEditTask - Callback function to handle task editing, receives the task ID as a parameter.
  * @param category - The category name associated with the task.
+ * @param tags - The tags of the task, shown as colored chips.
+ * @param selected - Whether the task is selected for bulk actions.
+ * @param onSelectTask - Callback for a click on the selection checkbox, receives the task ID and whether the
+ *   shift key was held (to select a range of tasks).
  * 
  * @returns A styled task card with relevant information and actions.
  */
@@ -23,19 +31,33 @@ import {
   FaAngleDown,
   FaAngleUp,
   FaAngleDoubleUp,
+  FaTasks,
+  FaLock,
 } from "react-icons/fa";
 
 import { formatForDataCy } from "@/lib/utils";
-import { Task } from "@/types/TaskCategoryTypes";
+import { Tag, Task } from "@/types/TaskCategoryTypes";
 import { useTranslation } from "react-i18next";
+import TaskDependencyLinks from "@/components/tasks/TaskDependencyLinks";
+import TagChip from "@/components/common/TagChip";
 
 interface TaskCardProps {
   task: Task;
   onEditTask: (id: string) => void;
   category: string | null;
+  tags?: Tag[];
+  selected?: boolean;
+  onSelectTask?: (id: string, shiftKey: boolean) => void;
 }
 
-const TaskCard: React.FC<TaskCardProps> = ({ task, onEditTask, category }) => {
+const TaskCard: React.FC<TaskCardProps> = ({
+  task,
+  onEditTask,
+  category,
+  tags = [],
+  selected = false,
+  onSelectTask,
+}) => {
   const { t, i18n } = useTranslation();
 
   const isTaskOverdue = (dueDate?: string) => {
@@ -69,13 +91,17 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEditTask, category }) => {
     ? new Date(task.dueDate).toLocaleDateString(i18n.language)
     : t("task.no_due_date");
 
+  const subtaskTotal = task.subtasks?.length || 0;
+  const subtasksCompleted = task.subtasks?.filter((subtask) => subtask.completed).length || 0;
+  const isBlocked = !task.completed && !!task.blockers?.some((blocker) => !blocker.completed);
+
   return (
     <div
       className={`relative flex flex-col justify-between p-4 border rounded-md shadow-md transition-all ${
         isTaskOverdue(task.dueDate)
           ? "border-red-600 dark:border-red-400"
           : "border-gray-200 dark:border-gray-900"
-      } bg-white dark:bg-gray-800`}
+      } ${selected ? "ring-2 ring-blue-500" : ""} bg-white dark:bg-gray-800`}
       data-testid={`task-card-${formatForDataCy(task.title)}`}
       data-cy={`task-card-${formatForDataCy(task.title)}`}
     >
@@ -85,6 +111,25 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEditTask, category }) => {
           data-testid={`task-title-${task._id}`}
           data-cy={`task-title-${task._id}`}
         >
+          {onSelectTask && (
+            <input
+              type="checkbox"
+              checked={selected}
+              readOnly
+              onClick={(event) => onSelectTask(task._id, event.shiftKey)}
+              className="mr-2"
+              aria-label={t("bulkActions.select_task", { title: task.title })}
+              data-testid={`select-task-${task._id}`}
+              data-cy={`select-task-${task._id}`}
+            />
+          )}
+          {isBlocked && (
+            <FaLock
+              className="text-gray-500"
+              title={t("dependencies.blocked")}
+              data-testid={`task-blocked-${task._id}`}
+            />
+          )}
           <span className="ml-1">{task.title}</span>
         </span>
       </div>
@@ -95,6 +140,17 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEditTask, category }) => {
           <span className="ml-1">{translatedPriority} {t("priority.priority_label")}</span>
         </p>
         <p>{category || t("task.no_category")}</p>
+        {tags.length > 0 && (
+          <div
+            className="mt-1 flex flex-wrap gap-1"
+            data-testid={`task-tags-${task._id}`}
+            data-cy={`task-tags-${task._id}`}
+          >
+            {tags.map((tag) => (
+              <TagChip key={tag._id} tag={tag} />
+            ))}
+          </div>
+        )}
         <p className={`mt-1 flex items-center ${
               isTaskOverdue(task.dueDate) ? "text-red-600" : "text-gray-500"
             }`}>
@@ -103,6 +159,38 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, onEditTask, category }) => {
           />
           {dueDate}
         </p>
+        {subtaskTotal > 0 && (
+          <div
+            className="mt-2"
+            data-testid={`task-subtasks-${task._id}`}
+            data-cy={`task-subtasks-${task._id}`}
+          >
+            <p className="flex items-center">
+              <FaTasks className="mr-1" />
+              {t("subtasks.progress", { completed: subtasksCompleted, total: subtaskTotal })}
+            </p>
+            <div className="mt-1 h-1.5 w-full rounded bg-gray-200 dark:bg-gray-600 overflow-hidden">
+              <div
+                className="h-full bg-green-500"
+                style={{ width: `${(subtasksCompleted / subtaskTotal) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {(task.blockers?.length || task.blocking?.length) ? (
+          <div className="mt-2 space-y-1">
+            <TaskDependencyLinks
+              label={t("dependencies.blocked_by")}
+              tasks={task.blockers || []}
+              testId={`task-blockers-${task._id}`}
+            />
+            <TaskDependencyLinks
+              label={t("dependencies.blocks")}
+              tasks={task.blocking || []}
+              testId={`task-blocking-${task._id}`}
+            />
+          </div>
+        ) : null}
       </div>
 
       <div className="mt-2">
@@ -1,54 +1,307 @@
-import React, { useState } from 'react';
+/**
+ * Calendar.tsx
+ *
+ * Calendar that places tasks on their due date, with daily, weekly, monthly and yearly views.
+ *
+ * - Tasks are ordered by due time inside each day; overdue tasks are highlighted in red.
+ * - When `onReschedule` is provided, tasks can be dragged to another day in the daily, weekly
+ *   and monthly views to change their due date.
+ * - Future occurrences of recurring tasks are projected on the calendar with a dashed border; clicking
+ *   one opens the task it repeats, and they cannot be dragged.
+ * - The `compact` variant is meant for the dashboard: smaller cells and fewer task titles per day.
+ *
+ * @param tasks - Array of tasks to place on the calendar; tasks without a due date are ignored.
+ * @param compact - Renders the smaller dashboard version of the calendar.
+ * @param onReschedule - Callback fired when a task is dropped on another day, with the day as `YYYY-MM-DD`.
+ * @param onSelectTask - Callback fired when a task is clicked.
+ *
+ * @returns A navigable calendar of tasks.
+ */
 
-const Calendar: React.FC = () => {
-  const [view, setView] = useState<'daily' | 'weekly' | 'monthly' | 'yearly'>('monthly');
+import React, { useMemo, useState } from "react";
+import { FaChevronLeft, FaChevronRight, FaRedo } from "react-icons/fa";
+import { useTranslation } from "react-i18next";
+import { Task } from "@/types/TaskCategoryTypes";
+import {
+  CalendarView,
+  expandRecurringTasks,
+  getMonthGrid,
+  getViewRange,
+  getWeekDays,
+  groupTasksByDay,
+  isTaskOverdue,
+  shiftDate,
+  toDateKey,
+} from "@/lib/calendar";
+
+interface CalendarProps {
+  tasks?: Task[];
+  compact?: boolean;
+  onReschedule?: (taskId: string, dateKey: string) => void;
+  onSelectTask?: (taskId: string) => void;
+}
+
+const views: CalendarView[] = ["daily", "weekly", "monthly", "yearly"];
+
+const Calendar: React.FC<CalendarProps> = ({
+  tasks = [],
+  compact = false,
+  onReschedule,
+  onSelectTask,
+}) => {
+  const { t, i18n } = useTranslation();
+  const [view, setView] = useState<CalendarView>("monthly");
+  const [currentDate, setCurrentDate] = useState<Date>(new Date());
+  const [dragOverKey, setDragOverKey] = useState<string | null>(null);
+
+  const tasksByDay = useMemo(() => {
+    const { start, end } = getViewRange(view, currentDate);
+    return groupTasksByDay(expandRecurringTasks(tasks, start, end));
+  }, [tasks, view, currentDate]);
+  const todayKey = toDateKey(new Date());
+  const maxTasksPerDay = compact ? 2 : 4;
+
+  const getPeriodLabel = () => {
+    const locale = i18n?.language;
+    switch (view) {
+      case "daily":
+        return currentDate.toLocaleDateString(locale, { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+      case "weekly": {
+        const days = getWeekDays(currentDate);
+        return `${days[0].toLocaleDateString(locale)} – ${days[6].toLocaleDateString(locale)}`;
+      }
+      case "monthly":
+        return currentDate.toLocaleDateString(locale, { month: "long", year: "numeric" });
+      case "yearly":
+        return `${currentDate.getFullYear()}`;
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, dateKey: string) => {
+    e.preventDefault();
+    setDragOverKey(null);
+    const taskId = e.dataTransfer.getData("text/plain");
+    if (taskId && onReschedule) {
+      onReschedule(taskId, dateKey);
+    }
+  };
+
+  const dropHandlers = (dateKey: string) =>
+    onReschedule
+      ? {
+          onDragOver: (e: React.DragEvent) => {
+            e.preventDefault();
+            if (dragOverKey !== dateKey) setDragOverKey(dateKey);
+          },
+          onDragLeave: () => setDragOverKey(null),
+          onDrop: (e: React.DragEvent) => handleDrop(e, dateKey),
+        }
+      : {};
+
+  const renderTask = (task: Task) => (
+    <li
+      key={task._id}
+      draggable={!!onReschedule && !task.recurringTaskId}
+      onDragStart={(e) => e.dataTransfer.setData("text/plain", task._id)}
+      onClick={() => onSelectTask?.(task.recurringTaskId || task._id)}
+      className={`truncate px-1 rounded text-xs cursor-pointer ${
+        task.recurringTaskId
+          ? "border border-dashed border-blue-400 text-blue-800 dark:text-blue-200"
+          : isTaskOverdue(task)
+            ? "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200"
+            : task.completed
+              ? "bg-gray-200 text-gray-500 line-through dark:bg-gray-600"
+              : "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200"
+      }`}
+      title={task.title}
+      data-cy={`calendar-task-${task._id}`}
+      data-testid={`calendar-task-${task._id}`}
+    >
+      {task.recurrence && <FaRedo className="inline mr-1 text-[0.6rem]" aria-label={t("recurrence.recurring")} />}
+      {!compact && task.dueTime && <span className="mr-1 font-semibold">{task.dueTime}</span>}
+      {task.title}
+    </li>
+  );
+
+  const renderDayCell = (day: Date, outsideMonth = false) => {
+    const dateKey = toDateKey(day);
+    const dayTasks = tasksByDay[dateKey] || [];
+    const hiddenCount = dayTasks.length - maxTasksPerDay;
+
+    return (
+      <div
+        key={dateKey}
+        {...dropHandlers(dateKey)}
+        className={`p-1 border border-gray-200 dark:border-gray-600 ${compact ? "min-h-[3.5rem]" : "min-h-[6rem]"} ${
+          outsideMonth ? "opacity-50" : ""
+        } ${dragOverKey === dateKey ? "ring-2 ring-blue-400" : ""}`}
+        data-cy={`calendar-day-${dateKey}`}
+        data-testid={`calendar-day-${dateKey}`}
+      >
+        <span
+          className={`inline-block text-xs px-1 rounded-full ${
+            dateKey === todayKey ? "bg-blue-500 text-white" : ""
+          }`}
+        >
+          {day.getDate()}
+        </span>
+        <ul className="space-y-0.5">
+          {dayTasks.slice(0, maxTasksPerDay).map(renderTask)}
+          {hiddenCount > 0 && (
+            <li className="text-xs text-gray-500">{t("calendar.more", { count: hiddenCount })}</li>
+          )}
+        </ul>
+      </div>
+    );
+  };
+
+  const renderWeekdayHeader = (days: Date[]) =>
+    days.map((day) => (
+      <div key={`header-${day.getDay()}`} className="text-xs font-semibold text-center text-gray-500">
+        {day.toLocaleDateString(i18n?.language, { weekday: "short" })}
+      </div>
+    ));
+
+  const renderDailyView = () => {
+    const dateKey = toDateKey(currentDate);
+    const dayTasks = tasksByDay[dateKey] || [];
+    return (
+      <div {...dropHandlers(dateKey)} data-cy={`calendar-day-${dateKey}`} data-testid={`calendar-day-${dateKey}`}>
+        {dayTasks.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("calendar.noTasks")}</p>
+        ) : (
+          <ul className="space-y-1">{dayTasks.map(renderTask)}</ul>
+        )}
+      </div>
+    );
+  };
+
+  const renderWeeklyView = () => {
+    const days = getWeekDays(currentDate);
+    return (
+      <div className="grid grid-cols-7">
+        {renderWeekdayHeader(days)}
+        {days.map((day) => renderDayCell(day))}
+      </div>
+    );
+  };
+
+  const renderMonthlyView = () => {
+    const days = getMonthGrid(currentDate);
+    return (
+      <div className="grid grid-cols-7">
+        {renderWeekdayHeader(days.slice(0, 7))}
+        {days.map((day) => renderDayCell(day, day.getMonth() !== currentDate.getMonth()))}
+      </div>
+    );
+  };
+
+  const renderYearlyView = () => (
+    <div className={`grid gap-4 ${compact ? "grid-cols-2 md:grid-cols-3" : "grid-cols-2 md:grid-cols-4"}`}>
+      {Array.from({ length: 12 }, (_, month) => {
+        const monthDate = new Date(currentDate.getFullYear(), month, 1);
+        return (
+          <button
+            key={month}
+            onClick={() => {
+              setCurrentDate(monthDate);
+              setView("monthly");
+            }}
+            className="text-left p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+            data-cy={`calendar-month-${month + 1}`}
+            data-testid={`calendar-month-${month + 1}`}
+          >
+            <span className="text-sm font-semibold capitalize">
+              {monthDate.toLocaleDateString(i18n?.language, { month: "long" })}
+            </span>
+            <div className="grid grid-cols-7 gap-0.5 mt-1">
+              {getMonthGrid(monthDate).map((day) => {
+                const dateKey = toDateKey(day);
+                const dayTasks = day.getMonth() === month ? tasksByDay[dateKey] || [] : [];
+                return (
+                  <span
+                    key={dateKey}
+                    className={`h-2 rounded-sm ${
+                      dayTasks.some((task) => isTaskOverdue(task))
+                        ? "bg-red-500"
+                        : dayTasks.length > 0
+                          ? "bg-blue-500"
+                          : "bg-gray-200 dark:bg-gray-600"
+                    } ${day.getMonth() !== month ? "invisible" : ""}`}
+                  />
+                );
+              })}
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
 
   const renderCalendarView = () => {
     switch (view) {
-      case 'daily':
-        return <div>Daily View</div>;
-      case 'weekly':
-        return <div>Weekly View</div>;
-      case 'monthly':
-        return <div>Monthly View</div>;
-      case 'yearly':
-        return <div>Yearly View</div>;
+      case "daily":
+        return renderDailyView();
+      case "weekly":
+        return renderWeeklyView();
+      case "yearly":
+        return renderYearlyView();
+      case "monthly":
       default:
-        return <div>Monthly View</div>;
+        return renderMonthlyView();
     }
   };
 
   return (
     <div data-cy="dashboard-calendar" className="bg-gray-100 dark:bg-gray-700 p-4 rounded-lg shadow-md w-full transition-all duration-300 ease-in-out">
       <div className="flex flex-col lg:flex-row justify-between mb-4">
-        <h2 className="text-xl font-bold text-gray-800 dark:text-gray-300 mb-4 lg:mb-0 transition-all duration-300 ease-in-out">
-          Calendar
-        </h2>
-        <div className="flex flex-wrap justify-center lg:justify-end space-x-2">
+        <div className="flex items-center mb-4 lg:mb-0">
           <button
-            onClick={() => setView('daily')}
-            className={`px-3 py-1 mb-2 lg:mb-0 rounded transition-all duration-300 ease-in-out ${view === 'daily' ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-300'}`}
+            onClick={() => setCurrentDate(shiftDate(currentDate, view, -1))}
+            className="p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+            aria-label={t("calendar.previous")}
+            data-cy="calendar-previous"
+            data-testid="calendar-previous"
           >
-            Daily
+            <FaChevronLeft />
           </button>
           <button
-            onClick={() => setView('weekly')}
-            className={`px-3 py-1 mb-2 lg:mb-0 rounded transition-all duration-300 ease-in-out ${view === 'weekly' ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-300'}`}
+            onClick={() => setCurrentDate(new Date())}
+            className="px-3 py-1 rounded bg-gray-200 dark:bg-gray-600 text-sm"
+            data-cy="calendar-today"
+            data-testid="calendar-today"
           >
-            Weekly
+            {t("calendar.today")}
           </button>
           <button
-            onClick={() => setView('monthly')}
-            className={`px-3 py-1 mb-2 lg:mb-0 rounded transition-all duration-300 ease-in-out ${view === 'monthly' ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-300'}`}
+            onClick={() => setCurrentDate(shiftDate(currentDate, view, 1))}
+            className="p-2 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+            aria-label={t("calendar.next")}
+            data-cy="calendar-next"
+            data-testid="calendar-next"
           >
-            Monthly
+            <FaChevronRight />
           </button>
-          <button
-            onClick={() => setView('yearly')}
-            className={`px-3 py-1 mb-2 lg:mb-0 rounded transition-all duration-300 ease-in-out ${view === 'yearly' ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-300'}`}
+          <h2
+            className="ml-2 text-xl font-bold text-gray-800 dark:text-gray-300 capitalize transition-all duration-300 ease-in-out"
+            data-cy="calendar-period"
+            data-testid="calendar-period"
           >
-            Yearly
-          </button>
+            {getPeriodLabel()}
+          </h2>
+        </div>
+        <div className="flex flex-wrap justify-center lg:justify-end space-x-2">
+          {views.map((option) => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-1 mb-2 lg:mb-0 rounded transition-all duration-300 ease-in-out ${view === option ? 'bg-blue-500 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-300'}`}
+              data-cy={`calendar-view-${option}`}
+              data-testid={`calendar-view-${option}`}
+            >
+              {t(`calendar.views.${option}`)}
+            </button>
+          ))}
         </div>
       </div>
       <div className="transition-all duration-300 ease-in-out">{renderCalendarView()}</div>
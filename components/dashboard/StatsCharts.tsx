@@ -0,0 +1,165 @@
+/**
+ * StatsCharts.tsx
+ *
+ * Charts summarizing the user's tasks on the dashboard.
+ *
+ * - Stat cards with completed, pending, due today and overdue counts.
+ * - Horizontal bar charts of tasks by priority and by category, split into completed and open tasks.
+ * - A column chart with the number of tasks completed on each of the last 30 days.
+ *
+ * @param stats - Dashboard statistics returned by `GET /api/dashboard`.
+ *
+ * @returns The dashboard statistics rendered as cards and charts.
+ */
+
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { DashboardStats, TaskCountSummary } from "@/types/DashboardTypes";
+
+interface StatsChartsProps {
+  stats: DashboardStats;
+}
+
+interface BarChartItem extends TaskCountSummary {
+  key: string;
+  label: string;
+}
+
+const StatCard: React.FC<{ id: string; label: string; value: number; className: string }> = ({
+  id,
+  label,
+  value,
+  className,
+}) => (
+  <div
+    className="bg-gray-100 dark:bg-gray-700 p-4 rounded-lg shadow-md"
+    data-cy={`stat-${id}`}
+    data-testid={`stat-${id}`}
+  >
+    <p className="text-sm text-gray-500 dark:text-gray-400">{label}</p>
+    <p className={`text-2xl font-bold ${className}`}>{value}</p>
+  </div>
+);
+
+const BarChart: React.FC<{ id: string; title: string; items: BarChartItem[] }> = ({ id, title, items }) => {
+  const { t } = useTranslation();
+  const maxTotal = Math.max(1, ...items.map((item) => item.total));
+
+  return (
+    <div
+      className="bg-gray-100 dark:bg-gray-700 p-4 rounded-lg shadow-md"
+      data-cy={`chart-${id}`}
+      data-testid={`chart-${id}`}
+    >
+      <h4 className="font-semibold mb-3">{title}</h4>
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">{t("dashboard.charts.empty")}</p>
+      ) : (
+        <ul className="space-y-2">
+          {items.map((item) => (
+            <li key={item.key} data-testid={`chart-${id}-${item.key}`}>
+              <div className="flex justify-between text-sm">
+                <span className="capitalize truncate">{item.label}</span>
+                <span className="text-gray-500">
+                  {item.completed}/{item.total}
+                  {item.overdue > 0 && (
+                    <span className="ml-2 text-red-500">
+                      {t("dashboard.charts.overdue_count", { count: item.overdue })}
+                    </span>
+                  )}
+                </span>
+              </div>
+              <div
+                className="flex h-3 rounded bg-gray-200 dark:bg-gray-600 overflow-hidden"
+                style={{ width: `${(item.total / maxTotal) * 100}%` }}
+                title={`${item.label}: ${item.completed}/${item.total}`}
+              >
+                <div className="bg-green-500" style={{ width: `${(item.completed / item.total) * 100}%` }} />
+                <div className="bg-blue-400 flex-1" />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const TrendChart: React.FC<{ trend: DashboardStats["completionTrend"] }> = ({ trend }) => {
+  const { t, i18n } = useTranslation();
+  const maxCount = Math.max(1, ...trend.map((day) => day.count));
+  const barWidth = 100 / Math.max(1, trend.length);
+
+  const formatDay = (dateKey: string) => {
+    const [year, month, day] = dateKey.split("-").map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString(i18n?.language, { day: "numeric", month: "short" });
+  };
+
+  return (
+    <div
+      className="bg-gray-100 dark:bg-gray-700 p-4 rounded-lg shadow-md"
+      data-cy="chart-trend"
+      data-testid="chart-trend"
+    >
+      <h4 className="font-semibold mb-3">{t("dashboard.charts.completion_trend")}</h4>
+      <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-32" role="img">
+        {trend.map((day, index) => {
+          const height = (day.count / maxCount) * 38;
+          return (
+            <rect
+              key={day.date}
+              x={index * barWidth + barWidth * 0.15}
+              y={40 - height}
+              width={barWidth * 0.7}
+              height={height}
+              className="fill-green-500"
+              data-testid={`chart-trend-${day.date}`}
+            >
+              <title>{`${formatDay(day.date)}: ${day.count}`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      {trend.length > 0 && (
+        <div className="flex justify-between text-xs text-gray-500 mt-1">
+          <span>{formatDay(trend[0].date)}</span>
+          <span>{formatDay(trend[trend.length - 1].date)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const StatsCharts: React.FC<StatsChartsProps> = ({ stats }) => {
+  const { t } = useTranslation();
+
+  const priorityItems: BarChartItem[] = stats.byPriority.map((item) => ({
+    ...item,
+    key: item.priority,
+    label: t(`priority.${item.priority}`),
+  }));
+
+  const categoryItems: BarChartItem[] = stats.byCategory.map((item) => ({
+    ...item,
+    key: item.categoryId || "none",
+    label: item.name || t("task.no_category"),
+  }));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard id="completed" label={t("dashboard.charts.completed")} value={stats.tasksCompleted} className="text-green-600" />
+        <StatCard id="pending" label={t("dashboard.charts.pending")} value={stats.tasksPending} className="text-blue-600" />
+        <StatCard id="due-today" label={t("dashboard.charts.due_today")} value={stats.dueToday} className="text-yellow-600" />
+        <StatCard id="overdue" label={t("dashboard.charts.overdue")} value={stats.overdue} className="text-red-600" />
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <BarChart id="priority" title={t("dashboard.charts.by_priority")} items={priorityItems} />
+        <BarChart id="category" title={t("dashboard.charts.by_category")} items={categoryItems} />
+      </div>
+      <TrendChart trend={stats.completionTrend} />
+    </div>
+  );
+};
+
+export default StatsCharts;
@@ -1,21 +1,25 @@
 "use client";
 import React, { useState, useEffect } from "react";
 import Calendar from "@/components/dashboard/Calendar";
+import StatsCharts from "@/components/dashboard/StatsCharts";
 import { Spinner } from "@/components/Loading";
 import Image from "next/image";
+import { useRouter } from "next/navigation";
 import { apiFetch } from "@/lib/apiFetch";
+import { rescheduleTask } from "@/lib/calendar";
+import { fetchAllTasks } from "@/lib/taskFilters";
 import { useUserProfile } from "@/context/UserProfileProvider";
+import { Task } from "@/types/TaskCategoryTypes";
+import { DashboardStats } from "@/types/DashboardTypes";
 import { useTranslation } from "react-i18next";
 
 const Dashboard = () => {
   const { t } = useTranslation(); // Hook for translations
   const { user, loadingProfile, getPreferredName } = useUserProfile();
-  const [dashboardData, setDashboardData] = useState<{
-    tasksCompleted: number;
-    tasksPending: number;
-    dueToday: number;
-    unreadMessages: number;
-  } | null>(null);
+  const router = useRouter();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [calendarError, setCalendarError] = useState<string | null>(null);
+  const [dashboardData, setDashboardData] = useState<DashboardStats | null>(null);
 
   const [loadingDashboard, setLoadingDashboard] = useState(true);
   const [currentDateTime, setCurrentDateTime] = useState<string>("");
@@ -23,7 +27,11 @@ const Dashboard = () => {
   useEffect(() => {
     const fetchDashboardData = async () => {
       try {
-        const data = await apiFetch("/api/dashboard", { method: "GET" });
+        // Send the browser time zone so "due today" matches the user's day
+        const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+        const data = await apiFetch(`/api/dashboard?timezone=${encodeURIComponent(timeZone)}`, {
+          method: "GET",
+        });
         if (data && data.success) {
           setDashboardData(data.dashboard);
         }
@@ -34,7 +42,16 @@ const Dashboard = () => {
       }
     };
 
+    const fetchTasks = async () => {
+      try {
+        setTasks(await fetchAllTasks());
+      } catch (error) {
+        console.error("Error fetching tasks for the calendar:", error);
+      }
+    };
+
     fetchDashboardData();
+    fetchTasks();
 
     const intervalId = setInterval(() => {
       const now = new Date();
@@ -50,6 +67,22 @@ const Dashboard = () => {
     return () => clearInterval(intervalId);
   }, []);
 
+  const handleReschedule = async (taskId: string, dateKey: string) => {
+    const task = tasks.find((item) => item._id === taskId);
+    if (!task) return;
+
+    setCalendarError(null);
+    try {
+      const updatedTask = await rescheduleTask(task, dateKey);
+      setTasks((prevTasks) =>
+        prevTasks.map((item) => (item._id === taskId ? { ...item, ...updatedTask } : item))
+      );
+    } catch (error) {
+      console.error("Error rescheduling task:", error);
+      setCalendarError(t("calendar.rescheduleError"));
+    }
+  };
+
   if (!user || loadingDashboard) {
     return (
       <div className="">
@@ -96,19 +129,20 @@ const Dashboard = () => {
         <h3 className="text-md font-semibold mb-2" data-cy="dashboard-status">
           {t("dashboard.stats_title")}
         </h3>
-        <ul>
-          <li>{t("dashboard.tasks_completed", { count: dashboardData.tasksCompleted })}</li>
-          <li>{t("dashboard.tasks_pending", { count: dashboardData.tasksPending })}</li>
-          <li>{t("dashboard.tasks_due_today", { count: dashboardData.dueToday })}</li>
-          <li>{t("dashboard.unread_messages", { count: dashboardData.unreadMessages })}</li>
-        </ul>
+        <StatsCharts stats={dashboardData} />
       </div>
 
       <div className="mt-6">
         <h3 className="text-md font-semibold mb-2">
           {t("dashboard.calendar_title")}
         </h3>
-        <Calendar />
+        {calendarError && <p className="text-red-500 mb-2">{calendarError}</p>}
+        <Calendar
+          compact
+          tasks={tasks}
+          onReschedule={handleReschedule}
+          onSelectTask={(id) => router.push(`/tasks/edit/${id}`)}
+        />
       </div>
     </>
   );
@@ -0,0 +1,75 @@
+/**
+ * TagFilter.tsx
+ *
+ * Tag section of the task filter modal.
+ *
+ * - Toggles tags on and off; selected tags are highlighted with their color.
+ * - Chooses whether tasks must have any or all of the selected tags.
+ * - Renders nothing when the user has no tags.
+ *
+ * @component
+ * @param {Tag[]} tags - The user's tags.
+ * @param {string[]} selectedTagIds - IDs of the selected tags.
+ * @param {function} onTagChange - Called with the ID of the tag to toggle.
+ * @param {"any" | "all"} match - How the selected tags are matched.
+ * @param {function} onMatchChange - Called with the new match mode.
+ *
+ * @returns The tag filter controls.
+ */
+
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { Tag } from "@/types/TaskCategoryTypes";
+
+interface TagFilterProps {
+  tags: Tag[];
+  selectedTagIds: string[];
+  onTagChange: (tagId: string) => void;
+  match: "any" | "all";
+  onMatchChange: (match: "any" | "all") => void;
+}
+
+const TagFilter: React.FC<TagFilterProps> = ({ tags, selectedTagIds, onTagChange, match, onMatchChange }) => {
+  const { t } = useTranslation();
+
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-medium">{t("tags.title")}</h3>
+        <select
+          value={match}
+          onChange={(e) => onMatchChange(e.target.value as "any" | "all")}
+          className="p-1 border rounded-lg bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-sm"
+          data-cy="tag-filter-match"
+          data-testid="tag-filter-match"
+        >
+          <option value="any">{t("tags.match_any")}</option>
+          <option value="all">{t("tags.match_all")}</option>
+        </select>
+      </div>
+      <div className="flex flex-wrap gap-2 mt-2">
+        {tags.map((tag) => {
+          const selected = selectedTagIds.includes(tag._id);
+          return (
+            <button
+              key={tag._id}
+              className={`px-3 py-1 rounded-full border transition-all duration-300 ${
+                selected ? "text-white" : "bg-gray-100 text-gray-600 border-gray-300"
+              }`}
+              style={selected ? { backgroundColor: tag.color, borderColor: tag.color } : undefined}
+              onClick={() => onTagChange(tag._id)}
+              data-cy={`tag-filter-${tag._id}`}
+              data-testid={`tag-filter-${tag._id}`}
+            >
+              {tag.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TagFilter;
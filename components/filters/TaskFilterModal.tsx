@@ -0,0 +1,198 @@
+/**
+ * TaskFilterModal.tsx
+ *
+ * Filter modal shared by every task view.
+ *
+ * - Wraps FilterModal with the task filters stored in TasksProvider, so the same filters
+ *   apply to the cards, list, board and calendar views.
+ * - Filters by priority, category, tags (any or all of them), completion, due date range, overdue tasks,
+ *   tasks ready to start (no open blockers) and a text search, and sets the sort order used by the server.
+ * - The search field is debounced so typing does not reload the tasks on every keystroke.
+ *
+ * @component
+ * @param {function} onClose - Function to handle closing the modal.
+ *
+ * @returns The filter modal bound to the shared task filter state.
+ */
+
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import FilterModal from "@/components/filters/FilterModal";
+import PriorityFilter from "@/components/filters/PriorityFilter";
+import TagFilter from "@/components/filters/TagFilter";
+import { useTasks } from "@/context/TasksProvider";
+import { TaskFilters, TaskSortOption } from "@/lib/taskFilters";
+
+interface TaskFilterModalProps {
+  onClose: () => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const sortOptions: TaskSortOption[] = ["createdAt", "dueDate", "title"];
+
+const inputClassName =
+  "w-full p-2 border rounded-lg bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600";
+
+const TaskFilterModal: React.FC<TaskFilterModalProps> = ({ onClose }) => {
+  const { t } = useTranslation();
+  const { filters, categories, tags, setFilter, togglePriority, toggleTag, clearFilters } = useTasks();
+  const [search, setSearch] = useState(filters.search);
+
+  useEffect(() => {
+    if (search === filters.search) return;
+    const timeout = setTimeout(() => setFilter("search", search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search, filters.search, setFilter]);
+
+  const handleClearFilters = () => {
+    setSearch("");
+    clearFilters();
+  };
+
+  return (
+    <FilterModal onClose={onClose} onClearFilters={handleClearFilters}>
+      <div className="mb-4">
+        <h3 className="text-lg font-medium">{t("filters.search")}</h3>
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={t("filters.searchPlaceholder")}
+          className={`${inputClassName} mt-2`}
+          data-cy="filter-search"
+          data-testid="filter-search"
+        />
+      </div>
+
+      <PriorityFilter
+        selectedPriorities={filters.priorities}
+        onPriorityChange={togglePriority}
+      />
+
+      <TagFilter
+        tags={tags}
+        selectedTagIds={filters.tagIds}
+        onTagChange={toggleTag}
+        match={filters.tagMatch}
+        onMatchChange={(match) => setFilter("tagMatch", match)}
+      />
+
+      <div className="mb-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="block">
+          <span className="text-lg font-medium">{t("filters.category")}</span>
+          <select
+            value={filters.categoryId}
+            onChange={(e) => setFilter("categoryId", e.target.value)}
+            className={`${inputClassName} mt-2`}
+            data-cy="filter-category"
+            data-testid="filter-category"
+          >
+            <option value="">{t("filters.all")}</option>
+            <option value="none">{t("task.no_category")}</option>
+            {categories.map((category) => (
+              <option key={category._id} value={category._id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="block">
+          <span className="text-lg font-medium">{t("filters.status")}</span>
+          <select
+            value={filters.completed}
+            onChange={(e) => setFilter("completed", e.target.value as TaskFilters["completed"])}
+            className={`${inputClassName} mt-2`}
+            data-cy="filter-completed"
+            data-testid="filter-completed"
+          >
+            <option value="">{t("filters.all")}</option>
+            <option value="false">{t("filters.open")}</option>
+            <option value="true">{t("filters.completed")}</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="mb-4">
+        <h3 className="text-lg font-medium">{t("filters.dueDate")}</h3>
+        <div className="grid grid-cols-2 gap-4 mt-2">
+          <label className="block text-sm">
+            {t("filters.dueFrom")}
+            <input
+              type="date"
+              value={filters.dueFrom}
+              onChange={(e) => setFilter("dueFrom", e.target.value)}
+              className={inputClassName}
+              data-cy="filter-due-from"
+              data-testid="filter-due-from"
+            />
+          </label>
+          <label className="block text-sm">
+            {t("filters.dueTo")}
+            <input
+              type="date"
+              value={filters.dueTo}
+              onChange={(e) => setFilter("dueTo", e.target.value)}
+              className={inputClassName}
+              data-cy="filter-due-to"
+              data-testid="filter-due-to"
+            />
+          </label>
+        </div>
+        <label className="flex items-center mt-2">
+          <input
+            type="checkbox"
+            checked={filters.overdueOnly}
+            onChange={(e) => setFilter("overdueOnly", e.target.checked)}
+            className="mr-2"
+            data-cy="filter-overdue"
+            data-testid="filter-overdue"
+          />
+          {t("filters.overdueOnly")}
+        </label>
+        <label className="flex items-center mt-2">
+          <input
+            type="checkbox"
+            checked={filters.readyOnly}
+            onChange={(e) => setFilter("readyOnly", e.target.checked)}
+            className="mr-2"
+            data-cy="filter-ready"
+            data-testid="filter-ready"
+          />
+          {t("filters.readyOnly")}
+        </label>
+      </div>
+
+      <div className="mb-4">
+        <h3 className="text-lg font-medium">{t("filters.sortBy")}</h3>
+        <div className="grid grid-cols-2 gap-4 mt-2">
+          <select
+            value={filters.sort}
+            onChange={(e) => setFilter("sort", e.target.value as TaskSortOption)}
+            className={inputClassName}
+            data-cy="filter-sort"
+            data-testid="filter-sort"
+          >
+            {sortOptions.map((option) => (
+              <option key={option} value={option}>
+                {t(`filters.sort.${option}`)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.order}
+            onChange={(e) => setFilter("order", e.target.value as TaskFilters["order"])}
+            className={inputClassName}
+            data-cy="filter-order"
+            data-testid="filter-order"
+          >
+            <option value="asc">{t("filters.ascending")}</option>
+            <option value="desc">{t("filters.descending")}</option>
+          </select>
+        </div>
+      </div>
+    </FilterModal>
+  );
+};
+
+export default TaskFilterModal;
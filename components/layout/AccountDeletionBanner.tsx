@@ -0,0 +1,66 @@
+/**
+ * AccountDeletionBanner.tsx
+ *
+ * Banner shown under the header while the account of the logged-in user is scheduled for deletion.
+ *
+ * - Tells the date the account and its data will be deleted on.
+ * - Restores the account, cancelling the deletion.
+ *
+ * @component
+ * @returns A strip below the header with the date and the restore button.
+ */
+
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { restoreAccount } from "@/lib/user";
+
+type RestoreStatus = "idle" | "restoring" | "restored" | "error";
+
+const AccountDeletionBanner: React.FC<{ deletionScheduledFor: string }> = ({ deletionScheduledFor }) => {
+  const { t, i18n } = useTranslation();
+  const [status, setStatus] = useState<RestoreStatus>("idle");
+
+  const handleRestore = async () => {
+    setStatus("restoring");
+    try {
+      await restoreAccount();
+      setStatus("restored");
+    } catch (error) {
+      setStatus("error");
+    }
+  };
+
+  const date = new Date(deletionScheduledFor).toLocaleString(i18n?.language, { dateStyle: "medium", timeStyle: "short" });
+
+  return (
+    <div
+      className="absolute left-0 top-full w-full flex items-center justify-center gap-4 px-4 py-2 text-sm bg-red-100 text-red-900 dark:bg-red-900 dark:text-red-100"
+      role="status"
+      data-cy="account-deletion-banner"
+      data-testid="account-deletion-banner"
+    >
+      {status === "restored" ? (
+        <span className="font-medium" data-testid="account-restored">
+          {t("accountDeletion.restored")}
+        </span>
+      ) : (
+        <>
+          <span>{t("accountDeletion.banner", { date })}</span>
+          <button
+            type="button"
+            onClick={handleRestore}
+            disabled={status === "restoring"}
+            className="underline font-medium disabled:opacity-50"
+            data-cy="restore-account-button"
+            data-testid="restore-account-button"
+          >
+            {t("accountDeletion.restore")}
+          </button>
+        </>
+      )}
+      {status === "error" && <span className="text-red-600">{t("accountDeletion.restoreError")}</span>}
+    </div>
+  );
+};
+
+export default AccountDeletionBanner;
@@ -0,0 +1,78 @@
+/**
+ * EmailVerificationBanner.tsx
+ *
+ * Banner shown under the header while the email of the logged-in user is not verified.
+ *
+ * - Reminds the user to open the link sent on registration.
+ * - Sends a new link, replacing the previous one.
+ * - Can be hidden until the next page load.
+ *
+ * @component
+ * @returns A strip below the header with the reminder and the resend button.
+ */
+
+import React, { useState } from "react";
+import { HiOutlineX } from "react-icons/hi";
+import { useTranslation } from "react-i18next";
+import { resendVerificationEmail } from "@/lib/user";
+
+type ResendStatus = "idle" | "sending" | "sent" | "error";
+
+const EmailVerificationBanner: React.FC<{ email: string }> = ({ email }) => {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<ResendStatus>("idle");
+  const [dismissed, setDismissed] = useState(false);
+
+  if (dismissed) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setStatus("sending");
+    try {
+      await resendVerificationEmail();
+      setStatus("sent");
+    } catch (error) {
+      setStatus("error");
+    }
+  };
+
+  return (
+    <div
+      className="absolute left-0 top-full w-full flex items-center justify-center gap-4 px-4 py-2 text-sm bg-yellow-100 text-yellow-900 dark:bg-yellow-900 dark:text-yellow-100"
+      role="status"
+      data-cy="email-verification-banner"
+      data-testid="email-verification-banner"
+    >
+      <span>{t("emailVerification.banner", { email })}</span>
+      {status === "sent" ? (
+        <span className="font-medium" data-testid="email-verification-sent">
+          {t("emailVerification.sent")}
+        </span>
+      ) : (
+        <button
+          type="button"
+          onClick={handleResend}
+          disabled={status === "sending"}
+          className="underline font-medium disabled:opacity-50"
+          data-cy="resend-verification-button"
+          data-testid="resend-verification-button"
+        >
+          {t("emailVerification.resend")}
+        </button>
+      )}
+      {status === "error" && <span className="text-red-600">{t("emailVerification.resendError")}</span>}
+      <button
+        type="button"
+        onClick={() => setDismissed(true)}
+        className="p-1"
+        aria-label={t("emailVerification.dismiss")}
+        data-testid="email-verification-dismiss"
+      >
+        <HiOutlineX className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default EmailVerificationBanner;
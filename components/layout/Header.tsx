@@ -8,6 +8,8 @@ import Title from "@/components/layout/Title";
 import { logoutAndRedirect } from "@/lib/auth";
 import { fetchProfile } from "@/lib/user";
 import UserProfileMenu from "@/components/layout/UserProfileMenu";
+import EmailVerificationBanner from "@/components/layout/EmailVerificationBanner";
+import AccountDeletionBanner from "@/components/layout/AccountDeletionBanner";
 
 interface HeaderProps {
   toggleTheme: () => void;
@@ -38,6 +40,9 @@ const Header = forwardRef<HTMLDivElement, HeaderProps>(({
     firstName: string;
     lastName: string;
     username: string;
+    email: string;
+    emailVerified?: boolean;
+    deletionScheduledFor?: string;
     preferredNameOption: string;
     profilePicture?: string;
   } | null>(null);
@@ -88,6 +93,12 @@ const Header = forwardRef<HTMLDivElement, HeaderProps>(({
           </button>
         </div>
       </div>
+
+      {isAuthenticated && user?.deletionScheduledFor ? (
+        <AccountDeletionBanner deletionScheduledFor={user.deletionScheduledFor} />
+      ) : (
+        isAuthenticated && user?.emailVerified === false && <EmailVerificationBanner email={user.email} />
+      )}
     </header>
   );
 });
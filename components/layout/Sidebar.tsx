@@ -1,7 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useTranslation } from 'react-i18next';
-import { FaCalendarAlt, FaTasks, FaUser, FaPowerOff, FaBookmark, FaChevronDown, FaChevronUp, FaSun } from 'react-icons/fa';
+import { FaCalendarAlt, FaTasks, FaUser, FaPowerOff, FaBookmark, FaTags, FaChevronDown, FaChevronUp, FaSun } from 'react-icons/fa';
 import { BsFillMoonStarsFill } from "react-icons/bs";
 import Title from '@/components/layout/Title';
 import { logoutAndRedirect } from '@/lib/auth';
@@ -64,6 +64,18 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, handleClose, toggleTheme, the
               {t('sidebar.categories')}
             </Link>
           </li>
+          <li>
+            <Link
+              href="/tags"
+              className={`flex items-center p-2 rounded ${isActive('/tags') ? 'bg-blue-500 text-white' : 'text-gray-800 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-700'}`}
+              onClick={handleClose}
+              data-cy="sidebar-tags"
+              data-testid="sidebar-tags"
+            >
+              <FaTags className="w-5 h-5 mr-2" />
+              {t('sidebar.tags')}
+            </Link>
+          </li>
           <li>
             <div
               className="flex items-center p-2 text-gray-800 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-700 rounded cursor-pointer"
@@ -0,0 +1,209 @@
+/**
+ * CalendarFeedSection.tsx
+ *
+ * "Calendar feeds" part of the profile page, which publishes the user's tasks to calendar apps (Google Calendar,
+ * Apple Calendar, Outlook...).
+ *
+ * - Creates a feed of the tasks with a due date, optionally limited to some categories (and their sub-categories),
+ *   publishing them as events or as to-dos.
+ * - Shows the secret URL of a new feed once, with buttons to copy it or open it in a calendar app (`webcal://`).
+ * - Lists the feeds with their categories and when a calendar app last read them, and revokes them.
+ *
+ * @component
+ * @returns The list of feeds, their revoke buttons and the form to create a feed.
+ */
+
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { apiFetch } from "@/lib/apiFetch";
+import { createCalendarFeed, fetchCalendarFeeds, revokeCalendarFeed } from "@/lib/user";
+import { describeApiError } from "@/lib/apiError";
+import { Category } from "@/types/TaskCategoryTypes";
+import { CalendarFeed, CalendarFeedComponent } from "@/types/CalendarFeedTypes";
+
+const CalendarFeedSection: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+  const [component, setComponent] = useState<CalendarFeedComponent>("event");
+  const [newUrl, setNewUrl] = useState<string | null>(null); // URL of the feed just created, shown once
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [feedList, categoryData] = await Promise.all([
+          fetchCalendarFeeds(),
+          apiFetch("/api/categories", { method: "GET" }),
+        ]);
+        setFeeds(feedList);
+        if (categoryData && categoryData.success) {
+          setCategories(categoryData.categories);
+        }
+      } catch (error) {
+        setError(t("profile.calendar_feeds.load_error"));
+      }
+    };
+    load();
+  }, [t]);
+
+  const toggleCategory = (categoryId: string) => {
+    setCategoryIds((prevIds) =>
+      prevIds.includes(categoryId) ? prevIds.filter((id) => id !== categoryId) : [...prevIds, categoryId]
+    );
+  };
+
+  const handleCreate = async () => {
+    setError(null);
+    try {
+      const { feed, url } = await createCalendarFeed(categoryIds, component);
+      setFeeds((prevFeeds) => [feed, ...prevFeeds]);
+      setNewUrl(url);
+      setCategoryIds([]);
+    } catch (error) {
+      setError(describeApiError(error, t));
+    }
+  };
+
+  const handleRevoke = async (feedId: string) => {
+    setError(null);
+    try {
+      await revokeCalendarFeed(feedId);
+      setFeeds((prevFeeds) => prevFeeds.filter((feed) => feed._id !== feedId));
+    } catch (error) {
+      setError(describeApiError(error, t));
+    }
+  };
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleString(i18n?.language, { dateStyle: "medium", timeStyle: "short" });
+
+  const describeCategories = (feed: CalendarFeed) => {
+    if (feed.categoryIds.length === 0) return t("profile.calendar_feeds.all_categories");
+    return feed.categoryIds
+      .map((id) => categories.find((category) => category._id === id)?.name)
+      .filter(Boolean)
+      .join(", ");
+  };
+
+  return (
+    <section className="mt-10 space-y-4" data-testid="calendar-feeds-section" data-cy="calendar-feeds-section">
+      <h3 className="text-xl font-bold">{t("profile.calendar_feeds.title")}</h3>
+      <p className="text-sm text-gray-500">{t("profile.calendar_feeds.description")}</p>
+
+      {newUrl && (
+        <div className="space-y-2 p-3 rounded border border-green-500" data-testid="calendar-feed-url">
+          <p>{t("profile.calendar_feeds.url_intro")}</p>
+          <input
+            type="text"
+            readOnly
+            value={newUrl}
+            onFocus={(e) => e.target.select()}
+            className="w-full p-2 border border-gray-300 rounded bg-transparent font-mono text-sm"
+          />
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() => navigator.clipboard?.writeText(newUrl)}
+              className="px-4 py-2 rounded border border-blue-500 text-blue-500 hover:bg-blue-500 hover:text-white transition"
+            >
+              {t("profile.calendar_feeds.copy_url")}
+            </button>
+            <a
+              href={newUrl.replace(/^https?:/, "webcal:")}
+              className="px-4 py-2 rounded border border-blue-500 text-blue-500 hover:bg-blue-500 hover:text-white transition"
+            >
+              {t("profile.calendar_feeds.subscribe")}
+            </a>
+            <button
+              type="button"
+              onClick={() => setNewUrl(null)}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-700"
+              data-testid="calendar-feed-url-done"
+            >
+              {t("profile.calendar_feeds.url_saved")}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <ul className="space-y-2" data-testid="calendar-feed-list">
+        {feeds.map((feed) => (
+          <li
+            key={feed._id}
+            className="flex items-center gap-4 p-3 rounded border border-gray-300 dark:border-gray-600"
+            data-testid={`calendar-feed-${feed._id}`}
+          >
+            <div className="flex-1">
+              <p className="font-medium">
+                {describeCategories(feed)} · {t(`profile.calendar_feeds.component_${feed.component}`)}
+              </p>
+              <p className="text-sm text-gray-500">
+                {t("profile.calendar_feeds.created", { date: formatDate(feed.createdAt) })}
+                {" · "}
+                {feed.lastUsedAt
+                  ? t("profile.calendar_feeds.last_used", { date: formatDate(feed.lastUsedAt) })
+                  : t("profile.calendar_feeds.never_used")}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => handleRevoke(feed._id)}
+              className="px-3 py-1 rounded border border-red-500 text-red-500 hover:bg-red-500 hover:text-white transition"
+              data-testid={`revoke-calendar-feed-${feed._id}`}
+              data-cy={`revoke-calendar-feed-${feed._id}`}
+            >
+              {t("profile.calendar_feeds.revoke")}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="space-y-2">
+        <p className="text-sm text-gray-500">{t("profile.calendar_feeds.categories_hint")}</p>
+        <div className="flex flex-wrap gap-3">
+          {categories.map((category) => (
+            <label key={category._id} className="flex items-center gap-1 text-sm">
+              <input
+                type="checkbox"
+                checked={categoryIds.includes(category._id)}
+                onChange={() => toggleCategory(category._id)}
+                data-testid={`calendar-feed-category-${category._id}`}
+              />
+              {category.name}
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={component}
+            onChange={(e) => setComponent(e.target.value as CalendarFeedComponent)}
+            className="p-2 border border-gray-300 rounded bg-transparent dark:bg-gray-800"
+            data-testid="calendar-feed-component"
+          >
+            <option value="event">{t("profile.calendar_feeds.component_event")}</option>
+            <option value="todo">{t("profile.calendar_feeds.component_todo")}</option>
+          </select>
+          <button
+            type="button"
+            onClick={handleCreate}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-700"
+            data-testid="create-calendar-feed"
+            data-cy="create-calendar-feed"
+          >
+            {t("profile.calendar_feeds.create")}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-red-500" data-testid="calendar-feeds-message">
+          {error}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default CalendarFeedSection;
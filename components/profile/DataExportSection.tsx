@@ -0,0 +1,153 @@
+/**
+ * DataExportSection.tsx
+ *
+ * "Export your data" part of the profile page.
+ *
+ * - Starts an export of the profile, categories, tags and tasks, which runs in the background on the server.
+ * - Shows its progress, asking the server for it every `POLL_INTERVAL_MS` until it ends.
+ * - Once ready, downloads the ZIP archive (JSON and CSV files), or only the JSON data or the tasks CSV, until the
+ *   export expires.
+ *
+ * @component
+ * @returns The export button, its progress bar or the download buttons.
+ */
+
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { downloadDataExport, fetchDataExport, startDataExport } from "@/lib/user";
+import { describeApiError } from "@/lib/apiError";
+import { saveFile } from "@/lib/utils";
+import { DataExportFormat, DataExportJob } from "@/types/DataExportTypes";
+
+const POLL_INTERVAL_MS = 1000;
+
+const DOWNLOADS: { format: DataExportFormat; suffix: string }[] = [
+  { format: "zip", suffix: ".zip" },
+  { format: "json", suffix: "-data.json" },
+  { format: "csv", suffix: "-tasks.csv" },
+];
+
+const isRunning = (job: DataExportJob | null) => job?.status === "pending" || job?.status === "running";
+
+const DataExportSection: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const [job, setJob] = useState<DataExportJob | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadLatest = async () => {
+      try {
+        setJob(await fetchDataExport());
+      } catch (error) {
+        setError(t("profile.data_export.load_error"));
+      }
+    };
+    loadLatest();
+  }, [t]);
+
+  // Follow a running export until it ends
+  useEffect(() => {
+    if (!job || !isRunning(job)) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        setJob(await fetchDataExport(job._id));
+      } catch (error) {
+        setError(describeApiError(error, t));
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [job, t]);
+
+  const handleStart = async () => {
+    setError(null);
+    try {
+      setJob(await startDataExport());
+    } catch (error) {
+      setError(describeApiError(error, t));
+    }
+  };
+
+  const handleDownload = async (format: DataExportFormat, suffix: string) => {
+    if (!job) return;
+    setError(null);
+    try {
+      const file = await downloadDataExport(job._id, format);
+      saveFile(file, `tasks-export-${job.createdAt.slice(0, 10)}${suffix}`);
+    } catch (error) {
+      setError(describeApiError(error, t));
+    }
+  };
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleString(i18n?.language, { dateStyle: "medium", timeStyle: "short" });
+
+  const renderContent = () => {
+    if (isRunning(job)) {
+      return (
+        <div className="space-y-2 max-w-md" data-testid="data-export-progress">
+          <p>{t("profile.data_export.running")}</p>
+          <div
+            className="h-2 w-full rounded bg-gray-200 dark:bg-gray-700 overflow-hidden"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={job!.progress}
+          >
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${job!.progress}%` }} />
+          </div>
+          <p className="text-sm text-gray-500">{t("profile.data_export.progress", { progress: job!.progress })}</p>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-500">{t("profile.data_export.description")}</p>
+        {job?.status === "ready" && (
+          <div className="space-y-2" data-testid="data-export-ready">
+            <p>{t("profile.data_export.ready", { date: formatDate(job.expiresAt) })}</p>
+            <div className="flex flex-wrap gap-2">
+              {DOWNLOADS.map(({ format, suffix }) => (
+                <button
+                  key={format}
+                  type="button"
+                  onClick={() => handleDownload(format, suffix)}
+                  className="px-4 py-2 rounded border border-blue-500 text-blue-500 hover:bg-blue-500 hover:text-white transition"
+                  data-testid={`download-export-${format}`}
+                  data-cy={`download-export-${format}`}
+                >
+                  {t(`profile.data_export.download_${format}`)}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {job?.status === "failed" && <p className="text-red-500">{t("profile.data_export.failed")}</p>}
+        <button
+          type="button"
+          onClick={handleStart}
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-700"
+          data-testid="start-data-export"
+          data-cy="start-data-export"
+        >
+          {job ? t("profile.data_export.export_again") : t("profile.data_export.export")}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <section className="mt-10 space-y-4" data-testid="data-export-section" data-cy="data-export-section">
+      <h3 className="text-xl font-bold">{t("profile.data_export.title")}</h3>
+      {renderContent()}
+      {error && (
+        <p className="text-red-500" data-testid="data-export-message">
+          {error}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default DataExportSection;
@@ -0,0 +1,184 @@
+/**
+ * DeleteAccountSection.tsx
+ *
+ * "Delete account" part of the profile page.
+ *
+ * - Explains that the account and all of its data are deleted after a grace period, during which logging in again
+ *   allows restoring it.
+ * - Asks for confirmation, then for the password (and a code when two-factor authentication is enabled).
+ * - Once the deletion is scheduled every session is logged out, so the user is sent to the login page.
+ * - While a deletion is scheduled, shows its date and a button to keep the account.
+ *
+ * @component
+ * @returns The deletion status with the form matching it.
+ */
+
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { deleteAccount, fetchProfile, restoreAccount } from "@/lib/user";
+import { describeApiError } from "@/lib/apiError";
+import { clearToken } from "@/lib/tokenUtils";
+import { redirectToLogin } from "@/lib/redirection";
+
+const inputClassName =
+  "p-3 w-full bg-transparent border border-gray-300 dark:border-gray-600 rounded focus:border-blue-500 focus:ring-2 focus:ring-blue-400 focus:outline-none transition";
+
+const DeleteAccountSection: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const [account, setAccount] = useState<{ twoFactorEnabled: boolean; deletionScheduledFor: string | null } | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadAccount = async () => {
+      try {
+        const { profile } = await fetchProfile();
+        setAccount({
+          twoFactorEnabled: profile.twoFactorEnabled === true,
+          deletionScheduledFor: profile.deletionScheduledFor || null,
+        });
+      } catch (error) {
+        setError(t("profile.delete_account.load_error"));
+      }
+    };
+    loadAccount();
+  }, [t]);
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleString(i18n?.language, { dateStyle: "medium", timeStyle: "short" });
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await deleteAccount(password, account?.twoFactorEnabled ? code : undefined);
+      clearToken(); // Every session was logged out, this one included
+      redirectToLogin("account_deletion_scheduled");
+    } catch (error) {
+      setError(describeApiError(error, t));
+    }
+  };
+
+  const handleRestore = async () => {
+    setError(null);
+    try {
+      await restoreAccount();
+      window.location.reload(); // The header banner shows the deletion as well
+    } catch (error) {
+      setError(describeApiError(error, t));
+    }
+  };
+
+  const handleCancel = () => {
+    setConfirming(false);
+    setPassword("");
+    setCode("");
+    setError(null);
+  };
+
+  const renderContent = () => {
+    if (!account) return null;
+
+    if (account.deletionScheduledFor) {
+      return (
+        <div className="space-y-4">
+          <p data-testid="account-deletion-date">
+            {t("profile.delete_account.scheduled", { date: formatDate(account.deletionScheduledFor) })}
+          </p>
+          <button
+            type="button"
+            onClick={handleRestore}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-700"
+            data-testid="restore-account"
+            data-cy="restore-account"
+          >
+            {t("profile.delete_account.restore")}
+          </button>
+        </div>
+      );
+    }
+
+    if (!confirming) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">{t("profile.delete_account.description")}</p>
+          <button
+            type="button"
+            onClick={() => setConfirming(true)}
+            className="px-4 py-2 rounded border border-red-500 text-red-500 hover:bg-red-500 hover:text-white transition"
+            data-testid="delete-account"
+            data-cy="delete-account"
+          >
+            {t("profile.delete_account.delete")}
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <form onSubmit={handleDelete} className="space-y-4" data-testid="delete-account-form" data-cy="delete-account-form">
+        <p className="font-medium text-red-500">{t("profile.delete_account.confirm_intro")}</p>
+        <div className="flex flex-col gap-2 md:flex-row md:items-center">
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder={t("profile.security.current_password")}
+            required
+            className={`${inputClassName} md:w-64`}
+            data-testid="delete-account-password"
+            data-cy="delete-account-password"
+          />
+          {account.twoFactorEnabled && (
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder={t("profile.two_factor.code_placeholder")}
+              required
+              className={`${inputClassName} md:w-64`}
+              data-testid="delete-account-code"
+              data-cy="delete-account-code"
+            />
+          )}
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            className="px-4 py-2 rounded bg-red-500 text-white hover:bg-red-700 transition"
+            data-testid="confirm-delete-account"
+            data-cy="confirm-delete-account"
+          >
+            {t("profile.delete_account.confirm")}
+          </button>
+          <button
+            type="button"
+            onClick={handleCancel}
+            className="px-4 py-2 rounded border border-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 transition"
+          >
+            {t("profile.delete_account.cancel")}
+          </button>
+        </div>
+      </form>
+    );
+  };
+
+  return (
+    <section className="mt-10 space-y-4" data-testid="delete-account-section" data-cy="delete-account-section">
+      <h3 className="text-xl font-bold">{t("profile.delete_account.title")}</h3>
+      {renderContent()}
+      {error && (
+        <p className="text-red-500" data-testid="delete-account-message">
+          {error}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default DeleteAccountSection;
@@ -0,0 +1,84 @@
+/**
+ * LoginAttemptList.tsx
+ *
+ * "Failed sign-in attempts" section of the profile page, so the user can notice someone guessing their password.
+ *
+ * - Lists the failed logins of the last 30 days, most recent first, with their device, IP address and time.
+ * - Tells a wrong password apart from a wrong two-factor code, which means the password is known.
+ *
+ * @component
+ * @returns The list of failed login attempts, or a message when there are none.
+ */
+
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { fetchLoginAttempts } from "@/lib/user";
+import { FailedLoginAttempt } from "@/types/SessionTypes";
+import { describeUserAgent } from "@/lib/utils";
+
+const LoginAttemptList: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const [attempts, setAttempts] = useState<FailedLoginAttempt[] | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadAttempts = async () => {
+      try {
+        setAttempts(await fetchLoginAttempts());
+      } catch (error) {
+        setErrorMessage(t("profile.login_attempts.load_error"));
+      }
+    };
+    loadAttempts();
+  }, [t]);
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleString(i18n?.language, { dateStyle: "medium", timeStyle: "short" });
+
+  return (
+    <section className="mt-10 space-y-4" data-testid="login-attempts-section" data-cy="login-attempts-section">
+      <h3 className="text-xl font-bold">{t("profile.login_attempts.title")}</h3>
+
+      {errorMessage && (
+        <p className="text-red-500" data-testid="login-attempts-error">
+          {errorMessage}
+        </p>
+      )}
+
+      {attempts && attempts.length === 0 && (
+        <p className="text-sm text-gray-500" data-testid="login-attempts-empty">
+          {t("profile.login_attempts.empty")}
+        </p>
+      )}
+
+      <ul className="space-y-2" data-testid="login-attempt-list">
+        {attempts?.map((attempt) => {
+          const device = describeUserAgent(attempt.userAgent);
+          const label = device && (device.browser || device.system)
+            ? [device.browser, device.system].filter(Boolean).join(` ${t("profile.sessions.on")} `)
+            : t("profile.sessions.unknown_device");
+
+          return (
+            <li
+              key={attempt._id}
+              className="p-3 rounded border border-gray-300 dark:border-gray-600"
+              data-testid={`login-attempt-${attempt._id}`}
+            >
+              <p className="font-medium">
+                {attempt.reason === "two_factor"
+                  ? t("profile.login_attempts.wrong_code")
+                  : t("profile.login_attempts.wrong_password")}
+              </p>
+              <p className="text-sm text-gray-500" title={attempt.userAgent}>
+                {formatDate(attempt.createdAt)} · {label}
+                {attempt.ip && ` · ${attempt.ip}`}
+              </p>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default LoginAttemptList;
@@ -0,0 +1,238 @@
+/**
+ * SecuritySection.tsx
+ *
+ * "Security" section of the profile page, where the user changes their email or password.
+ *
+ * - Both changes ask for the current password.
+ * - A new email is only applied once the link sent to it is opened; until then it is shown as pending,
+ *   with options to send the link again or cancel the change.
+ * - A new password must follow the strength rules (`PasswordRules`); changing it logs out every other device.
+ *
+ * @component
+ * @returns The email and password forms.
+ */
+
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { cancelEmailChange, changeEmail, changePassword, fetchProfile, resendVerificationEmail } from "@/lib/user";
+import { describeApiError } from "@/lib/apiError";
+import { getPasswordRuleErrors } from "@/lib/utils";
+import PasswordRules from "@/components/auth/PasswordRules";
+
+type Feedback = { type: "success" | "error"; message: string } | null;
+
+const inputClassName =
+  "p-3 w-full bg-transparent border border-gray-300 dark:border-gray-600 rounded focus:border-blue-500 focus:ring-2 focus:ring-blue-400 focus:outline-none transition";
+
+const FeedbackMessage: React.FC<{ feedback: Feedback; testId: string }> = ({ feedback, testId }) =>
+  feedback ? (
+    <p className={feedback.type === "success" ? "text-green-500" : "text-red-500"} data-testid={testId} data-cy={testId}>
+      {feedback.message}
+    </p>
+  ) : null;
+
+const SecuritySection: React.FC = () => {
+  const { t } = useTranslation();
+  const [email, setEmail] = useState("");
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null);
+
+  const [newEmail, setNewEmail] = useState("");
+  const [emailPassword, setEmailPassword] = useState("");
+  const [emailFeedback, setEmailFeedback] = useState<Feedback>(null);
+
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [passwordFeedback, setPasswordFeedback] = useState<Feedback>(null);
+
+  useEffect(() => {
+    const loadEmail = async () => {
+      try {
+        const { profile } = await fetchProfile();
+        setEmail(profile.email || "");
+        setPendingEmail(profile.pendingEmail || null);
+      } catch (error) {
+        setEmailFeedback({ type: "error", message: t("profile.security.load_error") });
+      }
+    };
+    loadEmail();
+  }, [t]);
+
+  const handleEmailSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setEmailFeedback(null);
+    try {
+      const pending = await changeEmail(emailPassword, newEmail.trim());
+      setPendingEmail(pending);
+      setNewEmail("");
+      setEmailPassword("");
+      setEmailFeedback({ type: "success", message: t("profile.security.email_sent", { email: pending }) });
+    } catch (error) {
+      setEmailFeedback({ type: "error", message: describeApiError(error, t) });
+    }
+  };
+
+  const handleResend = async () => {
+    setEmailFeedback(null);
+    try {
+      await resendVerificationEmail();
+      setEmailFeedback({ type: "success", message: t("profile.security.email_sent", { email: pendingEmail }) });
+    } catch (error) {
+      setEmailFeedback({ type: "error", message: describeApiError(error, t) });
+    }
+  };
+
+  const handleCancel = async () => {
+    setEmailFeedback(null);
+    try {
+      await cancelEmailChange();
+      setPendingEmail(null);
+    } catch (error) {
+      setEmailFeedback({ type: "error", message: describeApiError(error, t) });
+    }
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordFeedback(null);
+
+    if (getPasswordRuleErrors(newPassword).length > 0) {
+      setPasswordFeedback({ type: "error", message: t("passwordRules.notMet") });
+      return;
+    }
+    if (newPassword !== confirmation) {
+      setPasswordFeedback({ type: "error", message: t("passwordReset.mismatch") });
+      return;
+    }
+
+    try {
+      const revoked = await changePassword(currentPassword, newPassword);
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmation("");
+      setPasswordFeedback({ type: "success", message: t("profile.security.password_changed", { count: revoked }) });
+    } catch (error) {
+      setPasswordFeedback({ type: "error", message: describeApiError(error, t) });
+    }
+  };
+
+  return (
+    <section className="mt-10 space-y-6" data-testid="security-section" data-cy="security-section">
+      <h3 className="text-xl font-bold">{t("profile.security.title")}</h3>
+
+      <form onSubmit={handleEmailSubmit} className="space-y-4" data-testid="change-email-form" data-cy="change-email-form">
+        <h4 className="font-bold">{t("profile.security.email_title")}</h4>
+        <p className="text-sm text-gray-500" data-testid="current-email">
+          {t("profile.security.current_email", { email })}
+        </p>
+        {pendingEmail && (
+          <div className="text-sm flex flex-wrap items-center gap-2" data-testid="pending-email">
+            <span>{t("profile.security.pending_email", { email: pendingEmail })}</span>
+            <button type="button" onClick={handleResend} className="text-blue-500 underline" data-cy="resend-email-change">
+              {t("emailVerification.resend")}
+            </button>
+            <button type="button" onClick={handleCancel} className="text-red-500 underline" data-cy="cancel-email-change">
+              {t("profile.security.cancel_change")}
+            </button>
+          </div>
+        )}
+        <div className="flex flex-col gap-4 md:flex-row">
+          <label className="flex-1 space-y-1">
+            <span className="block text-sm">{t("profile.security.new_email")}</span>
+            <input
+              type="email"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              required
+              className={inputClassName}
+              data-testid="new-email-input"
+              data-cy="new-email-input"
+            />
+          </label>
+          <label className="flex-1 space-y-1">
+            <span className="block text-sm">{t("profile.security.current_password")}</span>
+            <input
+              type="password"
+              autoComplete="current-password"
+              value={emailPassword}
+              onChange={(e) => setEmailPassword(e.target.value)}
+              required
+              className={inputClassName}
+              data-testid="email-current-password-input"
+              data-cy="email-current-password-input"
+            />
+          </label>
+        </div>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-700"
+          data-testid="change-email-submit"
+          data-cy="change-email-submit"
+        >
+          {t("profile.security.change_email")}
+        </button>
+        <FeedbackMessage feedback={emailFeedback} testId="change-email-message" />
+      </form>
+
+      <hr />
+
+      <form onSubmit={handlePasswordSubmit} className="space-y-4" data-testid="change-password-form" data-cy="change-password-form">
+        <h4 className="font-bold">{t("profile.security.password_title")}</h4>
+        <label className="block space-y-1">
+          <span className="block text-sm">{t("profile.security.current_password")}</span>
+          <input
+            type="password"
+            autoComplete="current-password"
+            value={currentPassword}
+            onChange={(e) => setCurrentPassword(e.target.value)}
+            required
+            className={inputClassName}
+            data-testid="current-password-input"
+            data-cy="current-password-input"
+          />
+        </label>
+        <div className="flex flex-col gap-4 md:flex-row">
+          <label className="flex-1 space-y-1">
+            <span className="block text-sm">{t("passwordReset.newPassword")}</span>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              required
+              className={inputClassName}
+              data-testid="new-password-input"
+              data-cy="new-password-input"
+            />
+            <PasswordRules password={newPassword} />
+          </label>
+          <label className="flex-1 space-y-1">
+            <span className="block text-sm">{t("passwordReset.confirmPassword")}</span>
+            <input
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              required
+              className={inputClassName}
+              data-testid="new-password-confirmation"
+              data-cy="new-password-confirmation"
+            />
+          </label>
+        </div>
+        <p className="text-sm text-gray-500">{t("profile.security.password_hint")}</p>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-700"
+          data-testid="change-password-submit"
+          data-cy="change-password-submit"
+        >
+          {t("profile.security.change_password")}
+        </button>
+        <FeedbackMessage feedback={passwordFeedback} testId="change-password-message" />
+      </form>
+    </section>
+  );
+};
+
+export default SecuritySection;
@@ -0,0 +1,135 @@
+/**
+ * SessionList.tsx
+ *
+ * "Sessions" section of the profile page, listing the devices where the user is logged in.
+ *
+ * - Shows each session with its browser and operating system, IP address, and last-seen time.
+ * - Marks the session of the current browser.
+ * - Revokes a single session or every other session; revoking the current one logs the user out.
+ *
+ * @component
+ * @returns The list of active sessions with their revoke buttons.
+ */
+
+import React, { useCallback, useEffect, useState } from "react";
+import { FaDesktop, FaMobileAlt } from "react-icons/fa";
+import { useTranslation } from "react-i18next";
+import { fetchSessions, revokeOtherSessions, revokeSession } from "@/lib/user";
+import { logoutAndRedirect } from "@/lib/auth";
+import { UserSession } from "@/types/SessionTypes";
+import { describeUserAgent } from "@/lib/utils";
+
+const SessionList: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await fetchSessions());
+    } catch (error) {
+      setErrorMessage(t("profile.sessions.load_error"));
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (sessionId: string) => {
+    setErrorMessage(null);
+    try {
+      const wasCurrent = await revokeSession(sessionId);
+      if (wasCurrent) {
+        logoutAndRedirect();
+        return;
+      }
+      setSessions((prevSessions) => prevSessions.filter((session) => session._id !== sessionId));
+    } catch (error) {
+      setErrorMessage(t("profile.sessions.revoke_error"));
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setErrorMessage(null);
+    try {
+      await revokeOtherSessions();
+      setSessions((prevSessions) => prevSessions.filter((session) => session.current));
+    } catch (error) {
+      setErrorMessage(t("profile.sessions.revoke_error"));
+    }
+  };
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleString(i18n?.language, { dateStyle: "medium", timeStyle: "short" });
+
+  return (
+    <section className="mt-10 space-y-4" data-testid="sessions-section" data-cy="sessions-section">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold">{t("profile.sessions.title")}</h3>
+        {sessions.some((session) => !session.current) && (
+          <button
+            type="button"
+            onClick={handleRevokeOthers}
+            className="px-4 py-2 rounded bg-red-500 text-white hover:bg-red-700 transition"
+            data-testid="revoke-other-sessions"
+            data-cy="revoke-other-sessions"
+          >
+            {t("profile.sessions.revoke_others")}
+          </button>
+        )}
+      </div>
+
+      {errorMessage && (
+        <p className="text-red-500" data-testid="sessions-error">
+          {errorMessage}
+        </p>
+      )}
+
+      <ul className="space-y-2" data-testid="session-list">
+        {sessions.map((session) => {
+          const device = describeUserAgent(session.userAgent);
+          const DeviceIcon = device?.mobile ? FaMobileAlt : FaDesktop;
+          const label = device && (device.browser || device.system)
+            ? [device.browser, device.system].filter(Boolean).join(` ${t("profile.sessions.on")} `)
+            : t("profile.sessions.unknown_device");
+
+          return (
+            <li
+              key={session._id}
+              className="flex items-center gap-4 p-3 rounded border border-gray-300 dark:border-gray-600"
+              data-testid={`session-${session._id}`}
+            >
+              <DeviceIcon className="text-2xl text-gray-500" aria-hidden="true" />
+              <div className="flex-1">
+                <p className="font-medium" title={session.userAgent}>
+                  {label}
+                  {session.current && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">
+                      {t("profile.sessions.current")}
+                    </span>
+                  )}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {t("profile.sessions.last_seen", { date: formatDate(session.lastUsedAt) })}
+                  {session.ip && ` · ${session.ip}`}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRevoke(session._id)}
+                className="px-3 py-1 rounded border border-red-500 text-red-500 hover:bg-red-500 hover:text-white transition"
+                data-testid={`revoke-session-${session._id}`}
+                data-cy={`revoke-session-${session._id}`}
+              >
+                {session.current ? t("profile.sessions.log_out") : t("profile.sessions.revoke")}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default SessionList;
@@ -0,0 +1,273 @@
+/**
+ * TwoFactorSection.tsx
+ *
+ * "Two-factor authentication" part of the profile page.
+ *
+ * - Enrolls an authenticator app: shows the secret as a QR code (and as text, to type it in), then enables 2FA
+ *   once a code from the app confirms it.
+ * - Shows the recovery codes once, right after enabling 2FA or generating new ones.
+ * - Generates new recovery codes with a current code, and disables 2FA with the password and a code.
+ *
+ * @component
+ * @returns The 2FA status with the forms matching it.
+ */
+
+import React, { useCallback, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  confirmTwoFactorSetup,
+  disableTwoFactor,
+  fetchTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+} from "@/lib/user";
+import { describeApiError } from "@/lib/apiError";
+import QrCode from "@/components/common/QrCode";
+
+type Feedback = { type: "success" | "error"; message: string } | null;
+
+const inputClassName =
+  "p-3 w-full bg-transparent border border-gray-300 dark:border-gray-600 rounded focus:border-blue-500 focus:ring-2 focus:ring-blue-400 focus:outline-none transition";
+
+const TwoFactorSection: React.FC = () => {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<{ enabled: boolean; recoveryCodesRemaining: number } | null>(null);
+  const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [setupCode, setSetupCode] = useState("");
+  const [regenerateCode, setRegenerateCode] = useState("");
+  const [disablePassword, setDisablePassword] = useState("");
+  const [disableCode, setDisableCode] = useState("");
+  const [feedback, setFeedback] = useState<Feedback>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await fetchTwoFactorStatus());
+    } catch (error) {
+      setFeedback({ type: "error", message: t("profile.two_factor.load_error") });
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleStart = async () => {
+    setFeedback(null);
+    try {
+      setSetup(await startTwoFactorSetup());
+    } catch (error) {
+      setFeedback({ type: "error", message: describeApiError(error, t) });
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFeedback(null);
+    try {
+      setRecoveryCodes(await confirmTwoFactorSetup(setupCode));
+      setSetup(null);
+      setSetupCode("");
+      await loadStatus();
+    } catch (error) {
+      setFeedback({ type: "error", message: describeApiError(error, t) });
+    }
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFeedback(null);
+    try {
+      setRecoveryCodes(await regenerateRecoveryCodes(regenerateCode));
+      setRegenerateCode("");
+      await loadStatus();
+    } catch (error) {
+      setFeedback({ type: "error", message: describeApiError(error, t) });
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFeedback(null);
+    try {
+      await disableTwoFactor(disablePassword, disableCode);
+      setDisablePassword("");
+      setDisableCode("");
+      setFeedback({ type: "success", message: t("profile.two_factor.disabled") });
+      await loadStatus();
+    } catch (error) {
+      setFeedback({ type: "error", message: describeApiError(error, t) });
+    }
+  };
+
+  const codeInput = (value: string, onChange: (value: string) => void, testId: string) => (
+    <input
+      type="text"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={t("profile.two_factor.code_placeholder")}
+      required
+      className={inputClassName}
+      data-testid={testId}
+      data-cy={testId}
+    />
+  );
+
+  const renderContent = () => {
+    if (!status) return null;
+
+    if (recoveryCodes) {
+      return (
+        <div className="space-y-4" data-testid="recovery-codes">
+          <p>{t("profile.two_factor.recovery_codes_intro")}</p>
+          <ul className="grid grid-cols-2 gap-2 font-mono max-w-sm">
+            {recoveryCodes.map((code) => (
+              <li key={code} className="px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-center">
+                {code}
+              </li>
+            ))}
+          </ul>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => navigator.clipboard?.writeText(recoveryCodes.join("\n"))}
+              className="px-4 py-2 rounded border border-blue-500 text-blue-500 hover:bg-blue-500 hover:text-white transition"
+            >
+              {t("profile.two_factor.copy_codes")}
+            </button>
+            <button
+              type="button"
+              onClick={() => setRecoveryCodes(null)}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-700"
+              data-testid="recovery-codes-done"
+              data-cy="recovery-codes-done"
+            >
+              {t("profile.two_factor.codes_saved")}
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    if (!status.enabled && !setup) {
+      return (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">{t("profile.two_factor.description")}</p>
+          <button
+            type="button"
+            onClick={handleStart}
+            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-700"
+            data-testid="enable-two-factor"
+            data-cy="enable-two-factor"
+          >
+            {t("profile.two_factor.enable")}
+          </button>
+        </div>
+      );
+    }
+
+    if (setup) {
+      return (
+        <form onSubmit={handleConfirm} className="space-y-4" data-testid="two-factor-setup" data-cy="two-factor-setup">
+          <p>{t("profile.two_factor.scan")}</p>
+          <QrCode value={setup.otpauthUrl} title={t("profile.two_factor.qr_title")} />
+          <p className="text-sm">
+            {t("profile.two_factor.manual_entry")}{" "}
+            <code className="font-mono break-all" data-testid="two-factor-secret">
+              {setup.secret.match(/.{1,4}/g)?.join(" ")}
+            </code>
+          </p>
+          <label className="block space-y-1 max-w-xs">
+            <span className="block text-sm">{t("profile.two_factor.enter_code")}</span>
+            {codeInput(setupCode, setSetupCode, "two-factor-setup-code")}
+          </label>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-700"
+              data-testid="confirm-two-factor"
+              data-cy="confirm-two-factor"
+            >
+              {t("profile.two_factor.confirm")}
+            </button>
+            <button
+              type="button"
+              onClick={() => setSetup(null)}
+              className="px-4 py-2 rounded border border-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 transition"
+            >
+              {t("profile.two_factor.cancel")}
+            </button>
+          </div>
+        </form>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <p>
+          <span className="px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800" data-testid="two-factor-enabled">
+            {t("profile.two_factor.on")}
+          </span>{" "}
+          <span className="text-sm text-gray-500">
+            {t("profile.two_factor.codes_remaining", { count: status.recoveryCodesRemaining })}
+          </span>
+        </p>
+
+        <form onSubmit={handleRegenerate} className="space-y-2" data-testid="regenerate-codes-form">
+          <h5 className="font-medium">{t("profile.two_factor.regenerate_title")}</h5>
+          <div className="flex flex-col gap-2 md:flex-row md:items-center">
+            <div className="md:w-64">{codeInput(regenerateCode, setRegenerateCode, "regenerate-codes-code")}</div>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded border border-blue-500 text-blue-500 hover:bg-blue-500 hover:text-white transition"
+              data-cy="regenerate-codes"
+            >
+              {t("profile.two_factor.regenerate")}
+            </button>
+          </div>
+        </form>
+
+        <form onSubmit={handleDisable} className="space-y-2" data-testid="disable-two-factor-form">
+          <h5 className="font-medium">{t("profile.two_factor.disable_title")}</h5>
+          <div className="flex flex-col gap-2 md:flex-row md:items-center">
+            <input
+              type="password"
+              autoComplete="current-password"
+              value={disablePassword}
+              onChange={(e) => setDisablePassword(e.target.value)}
+              placeholder={t("profile.security.current_password")}
+              required
+              className={`${inputClassName} md:w-64`}
+              data-testid="disable-two-factor-password"
+              data-cy="disable-two-factor-password"
+            />
+            <div className="md:w-64">{codeInput(disableCode, setDisableCode, "disable-two-factor-code")}</div>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded bg-red-500 text-white hover:bg-red-700 transition"
+              data-cy="disable-two-factor"
+            >
+              {t("profile.two_factor.disable")}
+            </button>
+          </div>
+        </form>
+      </div>
+    );
+  };
+
+  return (
+    <section className="mt-10 space-y-4" data-testid="two-factor-section" data-cy="two-factor-section">
+      <h3 className="text-xl font-bold">{t("profile.two_factor.title")}</h3>
+      {renderContent()}
+      {feedback && (
+        <p className={feedback.type === "success" ? "text-green-500" : "text-red-500"} data-testid="two-factor-message">
+          {feedback.message}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default TwoFactorSection;
@@ -3,18 +3,24 @@
  *
  * Form component for user registration, allowing users to create an account by providing
  * required information (username, email, and password) and optional fields (first name,
- * last name, and nickname). Handles automatic login after successful registration.
+ * last name, and nickname). Logs the user in after a successful registration with the token of the
+ * session the server starts, unless the server requires the email to be verified first.
  *
  * @component
+ * Errors on a field returned by the API (such as an invalid email) are shown under its input.
+ *
  * @returns A form for user registration with validation, error handling, and auto-login features.
  */
 
 "use client";
 import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
+import { useAuthContext } from "@/context/AuthProvider";
+import type { FieldError } from "@/lib/apiError";
 
 const RegisterForm: React.FC = () => {
   const router = useRouter();
+  const { login } = useAuthContext();
 
   // States for user input
   const [username, setUsername] = useState("");
@@ -26,6 +32,7 @@ const RegisterForm: React.FC = () => {
 
   // States for feedback messages
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<{ [field: string]: string }>({});
   const [success, setSuccess] = useState<string | null>(null);
   const [isMounted, setIsMounted] = useState(false);
 
@@ -37,6 +44,7 @@ const RegisterForm: React.FC = () => {
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
     setError(null);
+    setFieldErrors({});
     setSuccess(null);
 
     if (!username || !email || !password) {
@@ -62,38 +70,32 @@ const RegisterForm: React.FC = () => {
       const registerData = await registerResponse.json();
 
       if (!registerResponse.ok) {
+        const invalidFields: FieldError[] = registerData.details?.errors || [];
+        if (invalidFields.length > 0) {
+          const errors: { [field: string]: string } = {};
+          invalidFields.forEach(({ path, message }) => {
+            errors[path] = errors[path] || message;
+          });
+          setFieldErrors(errors);
+          return;
+        }
         throw new Error(registerData.message || "Failed to register");
       }
 
-      setSuccess("User registered successfully");
-      await handleAutoLogin();
-    } catch (err) {
-      setError((err as Error).message || "Error registering user");
-    }
-  };
-
-  // Automatically log in the user after successful registration
-  const handleAutoLogin = async () => {
-    try {
-      const loginResponse = await fetch("/api/auth/login", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, password }),
-      });
-      const loginData = await loginResponse.json();
-
-      if (!loginResponse.ok) {
-        throw new Error(loginData.message || "Failed to login automatically");
+      if (registerData.verificationRequired) {
+        setSuccess("User registered successfully. Check your email to confirm your address before logging in.");
+        return;
       }
 
-      document.cookie = `authToken=${loginData.token}; path=/; max-age=3600; SameSite=Lax`;
-      localStorage.setItem("token", loginData.token);
+      setSuccess("User registered successfully");
 
+      // The registration starts the session and sets its refresh cookie, so no separate login is needed
+      login(registerData.token);
       if (isMounted) {
         window.location.reload();
       }
     } catch (err) {
-      setError((err as Error).message || "Failed to login automatically");
+      setError((err as Error).message || "Error registering user");
     }
   };
 
@@ -106,6 +108,7 @@ const RegisterForm: React.FC = () => {
     setLastName("");
     setNickname("");
     setError(null);
+    setFieldErrors({});
     setSuccess(null);
   };
 
@@ -131,6 +134,9 @@ const RegisterForm: React.FC = () => {
               >
                 Email
               </label>
+              {fieldErrors.email && (
+                <p className="text-red-500 text-xs">{fieldErrors.email}</p>
+              )}
             </div>
             <div className="relative flex flex-col w-1/2 space-y-2">
               <input
@@ -148,6 +154,9 @@ const RegisterForm: React.FC = () => {
               >
                 Password
               </label>
+              {fieldErrors.password && (
+                <p className="text-red-500 text-xs">{fieldErrors.password}</p>
+              )}
             </div>
           </div>
 
@@ -167,6 +176,9 @@ const RegisterForm: React.FC = () => {
             >
               Username
             </label>
+            {fieldErrors.username && (
+              <p className="text-red-500 text-xs">{fieldErrors.username}</p>
+            )}
           </div>
 
           <div className="flex space-x-2 lg:space-x-4">
@@ -0,0 +1,145 @@
+/**
+ * BoardView.tsx
+ *
+ * Displays tasks as a kanban board, with one column per workflow status.
+ *
+ * - Renders each task with the shared TaskCard component, ordered by its position in the column.
+ * - Supports native drag-and-drop to move tasks between columns or reorder them inside a column.
+ * - Dropping a task on another card places it right before that card; dropping it on the empty
+ *   area of a column moves it to the end of that column.
+ *
+ * @param tasks - Array of tasks to display.
+ * @param categories - Array of categories to match with tasks.
+ * @param columns - Board columns to render, in display order.
+ * @param onEditTask - Callback to handle task editing.
+ * @param onMoveTask - Callback fired when a task is dropped, with the target status and the task it was dropped before.
+ *
+ * @returns A board of task columns with drag-and-drop support.
+ */
+
+"use client";
+import React, { useState } from "react";
+import TaskCard from "@/components/common/TaskCard";
+import { Task, Category, Tag, TaskStatus } from "@/types/TaskCategoryTypes";
+import { getTaskStatus, sortByPosition } from "@/lib/board";
+import { useTranslation } from "react-i18next";
+
+interface BoardViewProps {
+  tasks: Task[];
+  categories: Category[];
+  tags?: Tag[];
+  columns: TaskStatus[];
+  onEditTask: (id: string) => void;
+  onMoveTask: (taskId: string, status: TaskStatus, beforeTaskId: string | null) => void;
+}
+
+const BoardView: React.FC<BoardViewProps> = ({
+  tasks,
+  categories,
+  tags = [],
+  columns,
+  onEditTask,
+  onMoveTask,
+}) => {
+  const { t } = useTranslation();
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ status: TaskStatus; beforeTaskId: string | null } | null>(null);
+
+  const handleDragStart = (e: React.DragEvent, taskId: string) => {
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", taskId);
+    setDraggedTaskId(taskId);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedTaskId(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (e: React.DragEvent, status: TaskStatus, beforeTaskId: string | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = "move";
+    if (dropTarget?.status !== status || dropTarget?.beforeTaskId !== beforeTaskId) {
+      setDropTarget({ status, beforeTaskId });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, status: TaskStatus, beforeTaskId: string | null) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const taskId = e.dataTransfer.getData("text/plain") || draggedTaskId;
+    if (taskId && taskId !== beforeTaskId) {
+      onMoveTask(taskId, status, beforeTaskId);
+    }
+    handleDragEnd();
+  };
+
+  return (
+    <div
+      className="mt-10 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4"
+      data-cy="task-board"
+      data-testid="task-board"
+    >
+      {columns.map((status) => {
+        const columnTasks = tasks
+          .filter((task) => getTaskStatus(task) === status)
+          .sort(sortByPosition);
+
+        return (
+          <section
+            key={status}
+            onDragOver={(e) => handleDragOver(e, status, null)}
+            onDrop={(e) => handleDrop(e, status, null)}
+            className={`flex flex-col p-3 rounded-lg bg-gray-100 dark:bg-gray-900 transition-all ${
+              dropTarget?.status === status && dropTarget.beforeTaskId === null
+                ? "ring-2 ring-blue-400"
+                : ""
+            }`}
+            data-cy={`board-column-${status}`}
+            data-testid={`board-column-${status}`}
+          >
+            <h2 className="flex justify-between items-center mb-3 font-semibold">
+              {t(`board.columns.${status}`)}
+              <span className="text-sm text-gray-500">{columnTasks.length}</span>
+            </h2>
+
+            <div className="flex flex-col gap-3 min-h-[4rem]">
+              {columnTasks.length === 0 && (
+                <p className="text-sm text-gray-500">{t("board.emptyColumn")}</p>
+              )}
+              {columnTasks.map((task) => {
+                const category =
+                  categories.find((cat) => cat._id === task.categoryId)?.name || t("task.no_category");
+                return (
+                  <div
+                    key={task._id}
+                    draggable
+                    onDragStart={(e) => handleDragStart(e, task._id)}
+                    onDragEnd={handleDragEnd}
+                    onDragOver={(e) => handleDragOver(e, status, task._id)}
+                    onDrop={(e) => handleDrop(e, status, task._id)}
+                    className={`cursor-grab rounded-md border-t-4 transition-all ${
+                      dropTarget?.beforeTaskId === task._id ? "border-blue-400" : "border-transparent"
+                    } ${draggedTaskId === task._id ? "opacity-50" : ""}`}
+                    data-cy={`board-task-${task._id}`}
+                    data-testid={`board-task-${task._id}`}
+                  >
+                    <TaskCard
+                      task={task}
+                      category={category}
+                      tags={tags.filter((tag) => task.tagIds?.includes(tag._id))}
+                      onEditTask={onEditTask}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default BoardView;
@@ -0,0 +1,265 @@
+/**
+ * BulkActionBar.tsx
+ *
+ * Bar of the tasks page that applies an action to every selected task at once (see `lib/taskSelection.ts`).
+ *
+ * - Shows how many tasks are selected, and selects every task matching the filters or clears the selection.
+ * - Completes or reopens the tasks, changes their priority, moves them to a category, reschedules them to a day,
+ *   or deletes them after a confirmation.
+ * - Reports how many tasks were changed and why the others were not. Tasks that could not be completed because
+ *   of open blockers can be completed anyway.
+ *
+ * @component
+ * @param selectedIds - IDs of the selected tasks.
+ * @param total - Number of tasks matching the filters.
+ * @param categories - The user's categories, to move tasks to.
+ * @param onSelectAll - Callback to select every task matching the filters.
+ * @param onClearSelection - Callback to unselect every task.
+ * @param onApplied - Callback once an action was applied, receives its response to refresh the tasks.
+ *
+ * @returns The selection summary, the action buttons and the result of the last action.
+ */
+
+"use client";
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { runTaskBatch } from "@/lib/taskSelection";
+import { describeApiError } from "@/lib/apiError";
+import { PRIORITY_ORDER } from "@/lib/taskList";
+import { Category } from "@/types/TaskCategoryTypes";
+import { TaskBatchRequest, TaskBatchResponse } from "@/types/TaskBatchTypes";
+
+interface BulkActionBarProps {
+  selectedIds: string[];
+  total: number;
+  categories: Category[];
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onApplied: (response: TaskBatchResponse) => void;
+}
+
+const NO_CATEGORY = "none";
+
+const buttonClassName =
+  "px-3 py-2 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-all disabled:opacity-50";
+const selectClassName = "p-2 rounded-lg border border-gray-300 bg-transparent dark:bg-gray-800";
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedIds,
+  total,
+  categories,
+  onSelectAll,
+  onClearSelection,
+  onApplied,
+}) => {
+  const { t } = useTranslation();
+  const [dueDate, setDueDate] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [lastResponse, setLastResponse] = useState<TaskBatchResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (request: Omit<TaskBatchRequest, "taskIds">, taskIds = selectedIds) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await runTaskBatch({ ...request, taskIds });
+      setLastResponse(response);
+      onApplied(response);
+    } catch (error) {
+      setError(describeApiError(error, t));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // The date input gives a day; the server keeps the due time of each task on that day
+  const handleReschedule = () => {
+    const [year, month, day] = dueDate.split("-").map(Number);
+    run({ action: "reschedule", dueDate: new Date(year, month - 1, day).toISOString() });
+  };
+
+  const handleCategoryChange = (value: string) => {
+    if (!value) return;
+    run({ action: "category", categoryId: value === NO_CATEGORY ? null : value });
+  };
+
+  const blockedIds = lastResponse?.results
+    .filter((result) => result.code === "TASK_BLOCKED")
+    .map((result) => result.taskId) || [];
+  const notFoundCount = lastResponse?.results.filter((result) => result.code === "TASK_NOT_FOUND").length || 0;
+
+  const renderResult = () => {
+    if (!lastResponse) return null;
+    return (
+      <div className="text-sm" data-testid="bulk-result">
+        <p>{t("bulkActions.updated", { count: lastResponse.updatedCount })}</p>
+        {notFoundCount > 0 && (
+          <p className="text-red-500">{t("bulkActions.not_found", { count: notFoundCount })}</p>
+        )}
+        {blockedIds.length > 0 && (
+          <p className="text-red-500">
+            {t("bulkActions.blocked", { count: blockedIds.length })}{" "}
+            <button
+              type="button"
+              onClick={() => run({ action: "complete", force: true }, blockedIds)}
+              disabled={busy}
+              className="underline"
+              data-testid="bulk-complete-anyway"
+            >
+              {t("bulkActions.complete_anyway")}
+            </button>
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className="sticky top-16 z-10 mb-4 p-3 space-y-2 rounded-lg shadow bg-white dark:bg-gray-800 border border-blue-500"
+      data-cy="bulk-action-bar"
+      data-testid="bulk-action-bar"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold" data-testid="bulk-selected-count">
+          {t("bulkActions.selected", { count: selectedIds.length })}
+        </span>
+        {selectedIds.length < total && (
+          <button type="button" onClick={onSelectAll} className="text-blue-500 hover:underline" data-testid="bulk-select-all">
+            {t("bulkActions.select_all", { count: total })}
+          </button>
+        )}
+        <button type="button" onClick={onClearSelection} className="text-blue-500 hover:underline" data-testid="bulk-clear">
+          {t("bulkActions.clear")}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => run({ action: "complete" })}
+          disabled={busy}
+          className={buttonClassName}
+          data-cy="bulk-complete"
+          data-testid="bulk-complete"
+        >
+          {t("bulkActions.complete")}
+        </button>
+        <button
+          type="button"
+          onClick={() => run({ action: "uncomplete" })}
+          disabled={busy}
+          className={buttonClassName}
+          data-cy="bulk-uncomplete"
+          data-testid="bulk-uncomplete"
+        >
+          {t("bulkActions.uncomplete")}
+        </button>
+
+        <select
+          value=""
+          onChange={(event) => event.target.value && run({ action: "priority", priority: event.target.value })}
+          disabled={busy}
+          className={selectClassName}
+          aria-label={t("bulkActions.set_priority")}
+          data-cy="bulk-priority"
+          data-testid="bulk-priority"
+        >
+          <option value="">{t("bulkActions.set_priority")}</option>
+          {PRIORITY_ORDER.map((priority) => (
+            <option key={priority} value={priority}>
+              {t(`priority.${priority}`)}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value=""
+          onChange={(event) => handleCategoryChange(event.target.value)}
+          disabled={busy}
+          className={selectClassName}
+          aria-label={t("bulkActions.move_to_category")}
+          data-cy="bulk-category"
+          data-testid="bulk-category"
+        >
+          <option value="">{t("bulkActions.move_to_category")}</option>
+          <option value={NO_CATEGORY}>{t("task.no_category")}</option>
+          {categories.map((category) => (
+            <option key={category._id} value={category._id}>
+              {category.name}
+            </option>
+          ))}
+        </select>
+
+        <input
+          type="date"
+          value={dueDate}
+          onChange={(event) => setDueDate(event.target.value)}
+          className={selectClassName}
+          aria-label={t("bulkActions.due_date")}
+          data-testid="bulk-due-date"
+        />
+        <button
+          type="button"
+          onClick={handleReschedule}
+          disabled={busy || !dueDate}
+          className={buttonClassName}
+          data-cy="bulk-reschedule"
+          data-testid="bulk-reschedule"
+        >
+          {t("bulkActions.reschedule")}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => setShowDeleteModal(true)}
+          disabled={busy}
+          className="px-3 py-2 rounded-lg bg-red-500 text-white hover:bg-red-600 transition-all disabled:opacity-50"
+          data-cy="bulk-delete"
+          data-testid="bulk-delete"
+        >
+          {t("bulkActions.delete")}
+        </button>
+      </div>
+
+      {renderResult()}
+      {error && (
+        <p className="text-sm text-red-500" data-testid="bulk-error">
+          {error}
+        </p>
+      )}
+
+      {showDeleteModal && (
+        <div className="z-20 fixed inset-0 flex justify-center items-center bg-gray-900 bg-opacity-50">
+          <div className="bg-white dark:bg-slate-800 p-6 rounded-md shadow-lg text-center">
+            <p className="mb-4 text-lg">{t("bulkActions.confirm_delete", { count: selectedIds.length })}</p>
+            <div className="flex justify-center gap-4">
+              <button
+                type="button"
+                onClick={() => {
+                  setShowDeleteModal(false);
+                  run({ action: "delete" });
+                }}
+                className="bg-red-500 text-white px-4 py-2 rounded-md hover:bg-red-600 transition-all"
+                data-cy="bulk-delete-confirm"
+                data-testid="bulk-delete-confirm"
+              >
+                {t("bulkActions.delete")}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowDeleteModal(false)}
+                className="bg-gray-500 text-white px-4 py-2 rounded-md hover:bg-gray-600 transition-all"
+              >
+                {t("task.cancel")}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -3,13 +3,17 @@
  * 
  * Displays a grid view of tasks as cards, with functionality to toggle task completion.
  * 
- * - Maps each task to a TaskCard component with category and status information.
+ * - Maps each task to a TaskCard component with category, tags and status information.
  * - Toggles the completion status of tasks on click, with API calls to update the backend.
  * - Displays a message if no tasks are available.
+ * - Lets the user select cards for bulk actions when onSelectTask is given.
  * 
  * @param tasks - Array of tasks to display.
  * @param categories - Array of categories to match with tasks.
+ * @param tags - Array of the user's tags to match with tasks.
  * @param onEditTask - Callback to handle task editing.
+ * @param selectedIds - IDs of the tasks selected for bulk actions.
+ * @param onSelectTask - Callback for a click on the selection checkbox of a card.
  * 
  * @returns A grid of TaskCard components or a message if no tasks are available.
  */
@@ -17,17 +21,27 @@
 "use client";
 import React from "react";
 import TaskCard from "@/components/common/TaskCard";
-import { Task, Category } from "@/types/TaskCategoryTypes";
+import { Task, Category, Tag } from "@/types/TaskCategoryTypes";
 import { apiFetch } from "@/lib/apiFetch";
 import { useTranslation } from "react-i18next"; // Import useTranslation for translations
 
 interface CardsViewProps {
   tasks: Task[];
   categories: Category[];
+  tags?: Tag[];
   onEditTask: (id: string) => void;
+  selectedIds?: string[];
+  onSelectTask?: (id: string, shiftKey: boolean) => void;
 }
 
-const CardsView: React.FC<CardsViewProps> = ({ tasks, categories, onEditTask }) => {
+const CardsView: React.FC<CardsViewProps> = ({
+  tasks,
+  categories,
+  tags = [],
+  onEditTask,
+  selectedIds = [],
+  onSelectTask,
+}) => {
   const { t } = useTranslation();
 
   const toggleTaskCompletion = async (id: string) => {
@@ -68,7 +82,10 @@ const CardsView: React.FC<CardsViewProps> = ({ tasks, categories, onEditTask })
             key={task._id}
             task={task}
             category={category}
+            tags={tags.filter((tag) => task.tagIds?.includes(tag._id))}
             onEditTask={onEditTask}
+            selected={selectedIds.includes(task._id)}
+            onSelectTask={onSelectTask}
           />
         );
       })}
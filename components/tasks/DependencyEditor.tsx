@@ -0,0 +1,94 @@
+/**
+ * DependencyEditor.tsx
+ *
+ * Picker for one side of a task's dependencies, used by TaskForm for "blocked by" and "blocks".
+ *
+ * - Lists the selected tasks with a link to each one and a button to remove it.
+ * - Adds tasks through a select listing the user's other tasks.
+ *
+ * @component
+ * @param {string} label - Title of the section.
+ * @param {string[]} selectedIds - IDs of the selected tasks.
+ * @param {TaskReference[]} options - Tasks that can be selected.
+ * @param {function} onChange - Called with the updated list of IDs.
+ * @param {string} testId - Base value of the data-testid and data-cy attributes.
+ *
+ * @returns The list of selected tasks and the select to add more.
+ */
+
+import React from "react";
+import Link from "next/link";
+import { FaTimes } from "react-icons/fa";
+import { useTranslation } from "react-i18next";
+import { TaskReference } from "@/types/TaskCategoryTypes";
+
+interface DependencyEditorProps {
+  label: string;
+  selectedIds: string[];
+  options: TaskReference[];
+  onChange: (ids: string[]) => void;
+  testId: string;
+}
+
+const inputClassName =
+  "p-2 w-full bg-transparent border border-gray-300 dark:border-gray-600 rounded focus:border-blue-500 focus:ring-2 focus:ring-blue-400 focus:outline-none transition";
+
+const DependencyEditor: React.FC<DependencyEditorProps> = ({ label, selectedIds, options, onChange, testId }) => {
+  const { t } = useTranslation();
+
+  const selected = selectedIds.map(
+    (id) => options.find((option) => option._id === id) || { _id: id, title: t("task.untitled"), completed: false }
+  );
+  const available = options.filter((option) => !selectedIds.includes(option._id));
+
+  return (
+    <div data-cy={testId} data-testid={testId}>
+      <span className="text-gray-500 dark:text-gray-300">{label}</span>
+
+      {selected.length > 0 && (
+        <ul className="flex flex-wrap gap-2 my-2">
+          {selected.map((task) => (
+            <li
+              key={task._id}
+              className="flex items-center gap-1 px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-700 text-sm"
+              data-testid={`${testId}-item-${task._id}`}
+            >
+              <Link
+                href={`/tasks/edit/${task._id}`}
+                className={`text-blue-500 hover:underline ${task.completed ? "line-through opacity-70" : ""}`}
+              >
+                {task.title}
+              </Link>
+              <button
+                type="button"
+                onClick={() => onChange(selectedIds.filter((id) => id !== task._id))}
+                className="p-1 text-gray-500 hover:text-red-500"
+                aria-label={t("dependencies.remove")}
+                data-testid={`${testId}-remove-${task._id}`}
+              >
+                <FaTimes />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <select
+        value=""
+        onChange={(e) => e.target.value && onChange([...selectedIds, e.target.value])}
+        className={`${inputClassName} mt-1`}
+        data-cy={`${testId}-select`}
+        data-testid={`${testId}-select`}
+      >
+        <option value="">{t("dependencies.add")}</option>
+        {available.map((option) => (
+          <option key={option._id} value={option._id}>
+            {option.title}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default DependencyEditor;
@@ -0,0 +1,246 @@
+/**
+ * ListView.tsx
+ *
+ * Displays tasks in a dense table, with sortable columns, optional grouping and inline completion toggles.
+ *
+ * - Columns (title, priority, due date, category, created date) are sorted by clicking their header;
+ *   clicking the active header again reverses the direction.
+ * - Tasks can be grouped by category or priority.
+ * - Rows support keyboard navigation: Arrow Up/Down and Home/End move between rows,
+ *   Enter opens the task for editing and Space toggles its completion.
+ *
+ * @param tasks - Array of tasks to display.
+ * @param categories - Array of categories to match with tasks.
+ * @param onEditTask - Callback to handle task editing.
+ * @param onToggleCompletion - Callback to toggle the completion state of a task.
+ *
+ * @returns A table of tasks or a message if no tasks are available.
+ */
+
+"use client";
+import React, { useMemo, useRef, useState } from "react";
+import { FaPen, FaSort, FaSortDown, FaSortUp } from "react-icons/fa";
+import { Task, Category } from "@/types/TaskCategoryTypes";
+import {
+  groupTasks,
+  sortTasks,
+  SortDirection,
+  TaskGroupBy,
+  TaskSortKey,
+} from "@/lib/taskList";
+import { formatForDataCy } from "@/lib/utils";
+import { useTranslation } from "react-i18next";
+
+interface ListViewProps {
+  tasks: Task[];
+  categories: Category[];
+  onEditTask: (id: string) => void;
+  onToggleCompletion: (id: string) => void;
+}
+
+const sortableColumns: TaskSortKey[] = ["title", "priority", "dueDate", "category", "createdAt"];
+const groupOptions: TaskGroupBy[] = ["none", "category", "priority"];
+
+const ListView: React.FC<ListViewProps> = ({
+  tasks,
+  categories,
+  onEditTask,
+  onToggleCompletion,
+}) => {
+  const { t, i18n } = useTranslation();
+  const [sortKey, setSortKey] = useState<TaskSortKey>("createdAt");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+  const [groupBy, setGroupBy] = useState<TaskGroupBy>("none");
+  const rowRefs = useRef<(HTMLTableRowElement | null)[]>([]);
+
+  const groups = useMemo(
+    () => groupTasks(sortTasks(tasks, sortKey, sortDirection, categories), groupBy, categories),
+    [tasks, sortKey, sortDirection, groupBy, categories]
+  );
+
+  // Flat list of tasks in display order, used for keyboard navigation across groups
+  const orderedTasks = groups.flatMap((group) => group.tasks);
+
+  const handleSort = (key: TaskSortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === "asc" ? "desc" : "asc");
+    } else {
+      setSortKey(key);
+      setSortDirection("asc");
+    }
+  };
+
+  const focusRow = (index: number) => {
+    const target = Math.max(0, Math.min(index, orderedTasks.length - 1));
+    rowRefs.current[target]?.focus();
+  };
+
+  const handleRowKeyDown = (e: React.KeyboardEvent, task: Task, index: number) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        focusRow(index + 1);
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        focusRow(index - 1);
+        break;
+      case "Home":
+        e.preventDefault();
+        focusRow(0);
+        break;
+      case "End":
+        e.preventDefault();
+        focusRow(orderedTasks.length - 1);
+        break;
+      case "Enter":
+        e.preventDefault();
+        onEditTask(task._id);
+        break;
+      case " ":
+        e.preventDefault();
+        onToggleCompletion(task._id);
+        break;
+    }
+  };
+
+  const getGroupLabel = (key: string) => {
+    if (groupBy === "priority") return t(`priority.${key}`);
+    return categories.find((cat) => cat._id === key)?.name || t("task.no_category");
+  };
+
+  const formatDate = (date?: string) =>
+    date ? new Date(date).toLocaleDateString(i18n.language) : "—";
+
+  const renderSortIcon = (key: TaskSortKey) => {
+    if (key !== sortKey) return <FaSort className="ml-1 text-gray-400" />;
+    return sortDirection === "asc" ? <FaSortUp className="ml-1" /> : <FaSortDown className="ml-1" />;
+  };
+
+  if (tasks.length === 0) {
+    return <p className="text-gray-500 mt-4">{t("task.no_tasks")}</p>;
+  }
+
+  let rowIndex = -1;
+
+  return (
+    <div className="mt-10" data-cy="task-table" data-testid="task-table">
+      <div className="flex items-center justify-end mb-2 text-sm">
+        <label htmlFor="groupBy" className="mr-2 text-gray-500">
+          {t("list.groupBy")}
+        </label>
+        <select
+          id="groupBy"
+          value={groupBy}
+          onChange={(e) => setGroupBy(e.target.value as TaskGroupBy)}
+          className="p-1 border border-gray-300 dark:border-gray-600 rounded bg-transparent"
+          data-cy="list-group-by"
+          data-testid="list-group-by"
+        >
+          {groupOptions.map((option) => (
+            <option key={option} value={option}>
+              {t(`list.group.${option}`)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="text-left border-b border-gray-300 dark:border-gray-600">
+            <th className="p-2 w-10">
+              <span className="sr-only">{t("list.columns.completed")}</span>
+            </th>
+            {sortableColumns.map((key) => (
+              <th
+                key={key}
+                className="p-2"
+                aria-sort={key === sortKey ? (sortDirection === "asc" ? "ascending" : "descending") : "none"}
+              >
+                <button
+                  onClick={() => handleSort(key)}
+                  className="flex items-center font-semibold"
+                  data-cy={`list-sort-${key}`}
+                  data-testid={`list-sort-${key}`}
+                >
+                  {t(`list.columns.${key}`)}
+                  {renderSortIcon(key)}
+                </button>
+              </th>
+            ))}
+            <th className="p-2 w-10">
+              <span className="sr-only">{t("task.edit")}</span>
+            </th>
+          </tr>
+        </thead>
+        {groups.map((group) => (
+          <tbody key={group.key || "ungrouped"}>
+            {groupBy !== "none" && (
+              <tr className="bg-gray-100 dark:bg-gray-900">
+                <th
+                  colSpan={sortableColumns.length + 2}
+                  className="p-2 text-left"
+                  data-cy={`list-group-${group.key || "none"}`}
+                  data-testid={`list-group-${group.key || "none"}`}
+                >
+                  {getGroupLabel(group.key)} ({group.tasks.length})
+                </th>
+              </tr>
+            )}
+            {group.tasks.map((task) => {
+              rowIndex += 1;
+              const index = rowIndex;
+              const isOverdue = !task.completed && !!task.dueDate && new Date(task.dueDate) < new Date();
+              return (
+                <tr
+                  key={task._id}
+                  ref={(el) => {
+                    rowRefs.current[index] = el;
+                  }}
+                  tabIndex={0}
+                  onKeyDown={(e) => handleRowKeyDown(e, task, index)}
+                  className="border-b border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:bg-blue-50 dark:focus:bg-gray-700"
+                  data-cy={`list-row-${formatForDataCy(task.title)}`}
+                  data-testid={`list-row-${formatForDataCy(task.title)}`}
+                >
+                  <td className="p-2">
+                    <input
+                      type="checkbox"
+                      checked={!!task.completed}
+                      onChange={() => onToggleCompletion(task._id)}
+                      tabIndex={-1}
+                      aria-label={`toggle-${task._id}`}
+                      data-cy={`list-toggle-${task._id}`}
+                      data-testid={`list-toggle-${task._id}`}
+                    />
+                  </td>
+                  <td className={`p-2 ${task.completed ? "line-through text-gray-400" : ""}`}>
+                    {task.title}
+                  </td>
+                  <td className="p-2">{t(`priority.${task.priority}`)}</td>
+                  <td className={`p-2 ${isOverdue ? "text-red-600" : ""}`}>{formatDate(task.dueDate)}</td>
+                  <td className="p-2">
+                    {categories.find((cat) => cat._id === task.categoryId)?.name || t("task.no_category")}
+                  </td>
+                  <td className="p-2">{formatDate(task.createdAt)}</td>
+                  <td className="p-2">
+                    <button
+                      onClick={() => onEditTask(task._id)}
+                      tabIndex={-1}
+                      className="text-blue-500 hover:text-blue-600"
+                      aria-label={`edit-${task._id}`}
+                    >
+                      <FaPen />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        ))}
+      </table>
+    </div>
+  );
+};
+
+export default ListView;
@@ -0,0 +1,247 @@
+/**
+ * RecurrenceEditor.tsx
+ *
+ * Form section for the repeat rule of a task, used by TaskForm.
+ *
+ * - Repeats daily, weekly on chosen weekdays, monthly on a day of the month or on the nth weekday,
+ *   or yearly, every N periods.
+ * - The series can end after a number of occurrences or on a date.
+ * - Monthly options are derived from the due date and follow it when the due date changes.
+ *
+ * @component
+ * @param {RecurrenceRule | null} value - The current rule, or null when the task does not repeat.
+ * @param {function} onChange - Called with the updated rule, or null when repetition is turned off.
+ * @param {string} dueDate - The task due date (`YYYY-MM-DD`) the occurrences are computed from.
+ *
+ * @returns The recurrence controls of the task form.
+ */
+
+import React, { useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import { RecurrenceFrequency, RecurrenceRule } from "@/types/TaskCategoryTypes";
+import { getWeekdayPosition, RECURRENCE_FREQUENCIES } from "@/lib/recurrence";
+import { toDateKey } from "@/lib/calendar";
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  dueDate: string;
+}
+
+type MonthlyMode = "day" | "weekday" | "last";
+type EndMode = "never" | "count" | "until";
+
+const inputClassName =
+  "p-2 bg-transparent border border-gray-300 dark:border-gray-600 rounded focus:border-blue-500 focus:ring-2 focus:ring-blue-400 focus:outline-none transition";
+
+// Parses a YYYY-MM-DD string as a local date, falling back to today
+const parseDueDate = (dueDate: string): Date => {
+  const [year, month, day] = dueDate.split("-").map(Number);
+  return year && month && day ? new Date(year, month - 1, day) : new Date();
+};
+
+const getMonthlyMode = (rule: RecurrenceRule): MonthlyMode =>
+  rule.nthWeekday ? (rule.nthWeekday.nth === -1 ? "last" : "weekday") : "day";
+
+const buildMonthlyFields = (mode: MonthlyMode, date: Date): Pick<RecurrenceRule, "monthDay" | "nthWeekday"> => {
+  const { nth, weekday } = getWeekdayPosition(date);
+  switch (mode) {
+    case "weekday":
+      return { monthDay: undefined, nthWeekday: { nth: Math.min(nth, 4), weekday } };
+    case "last":
+      return { monthDay: undefined, nthWeekday: { nth: -1, weekday } };
+    default:
+      return { monthDay: date.getDate(), nthWeekday: undefined };
+  }
+};
+
+const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, onChange, dueDate }) => {
+  const { t, i18n } = useTranslation();
+  const date = parseDueDate(dueDate);
+  const position = getWeekdayPosition(date);
+
+  // Keep monthly rules aligned with the due date; once aligned, the rule no longer changes
+  useEffect(() => {
+    if (value?.frequency !== "monthly" || !dueDate) return;
+    const fields = buildMonthlyFields(getMonthlyMode(value), parseDueDate(dueDate));
+    if (
+      fields.monthDay !== value.monthDay ||
+      fields.nthWeekday?.nth !== value.nthWeekday?.nth ||
+      fields.nthWeekday?.weekday !== value.nthWeekday?.weekday
+    ) {
+      onChange({ ...value, ...fields });
+    }
+  }, [dueDate, value, onChange]);
+
+  const weekdayName = (weekday: number, format: "short" | "long") =>
+    new Date(2024, 0, 7 + weekday).toLocaleDateString(i18n?.language, { weekday: format }); // 2024-01-07 is a Sunday
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const changeFrequency = (frequency: RecurrenceFrequency) => {
+    if (!value) return;
+    onChange({
+      frequency,
+      interval: value.interval,
+      count: value.count,
+      until: value.until,
+      ...(frequency === "weekly" ? { weekdays: [date.getDay()] } : {}),
+      ...(frequency === "monthly" ? buildMonthlyFields("day", date) : {}),
+    });
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    const weekdays = value?.weekdays || [];
+    const next = weekdays.includes(weekday)
+      ? weekdays.filter((day) => day !== weekday)
+      : [...weekdays, weekday].sort((a, b) => a - b);
+    if (next.length > 0) update({ weekdays: next });
+  };
+
+  const endMode: EndMode = value?.count ? "count" : value?.until ? "until" : "never";
+
+  const changeEndMode = (mode: EndMode) => {
+    if (!value) return;
+    const rule = { ...value, count: undefined, until: undefined };
+    if (mode === "count") onChange({ ...rule, count: 5 });
+    else if (mode === "until") onChange({ ...rule, until: dueDate || toDateKey(new Date()) });
+    else onChange(rule);
+  };
+
+  return (
+    <div className="w-full mb-6" data-cy="recurrence-editor" data-testid="recurrence-editor">
+      <label className="flex items-center text-gray-500 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={!!value}
+          onChange={(e) =>
+            onChange(e.target.checked ? { frequency: "weekly", interval: 1, weekdays: [date.getDay()] } : null)
+          }
+          className="mr-2"
+          data-cy="recurrence-toggle"
+          data-testid="recurrence-toggle"
+        />
+        {t("recurrence.repeat")}
+      </label>
+
+      {value && (
+        <div className="mt-3 space-y-3 pl-6">
+          <div className="flex items-center gap-2">
+            <span>{t("recurrence.every")}</span>
+            <input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              className={`${inputClassName} w-20`}
+              data-cy="recurrence-interval"
+              data-testid="recurrence-interval"
+            />
+            <select
+              value={value.frequency}
+              onChange={(e) => changeFrequency(e.target.value as RecurrenceFrequency)}
+              className={inputClassName}
+              data-cy="recurrence-frequency"
+              data-testid="recurrence-frequency"
+            >
+              {RECURRENCE_FREQUENCIES.map((frequency) => (
+                <option key={frequency} value={frequency}>
+                  {t(`recurrence.units.${frequency}`, { count: value.interval })}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {value.frequency === "weekly" && (
+            <div className="flex flex-wrap gap-1">
+              {Array.from({ length: 7 }, (_, weekday) => (
+                <button
+                  key={weekday}
+                  type="button"
+                  onClick={() => toggleWeekday(weekday)}
+                  className={`px-2 py-1 rounded-full border text-sm capitalize ${
+                    value.weekdays?.includes(weekday)
+                      ? "bg-blue-500 text-white border-blue-500"
+                      : "bg-gray-100 text-gray-600 border-gray-300"
+                  }`}
+                  data-cy={`recurrence-weekday-${weekday}`}
+                  data-testid={`recurrence-weekday-${weekday}`}
+                >
+                  {weekdayName(weekday, "short")}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {value.frequency === "monthly" && (
+            <select
+              value={getMonthlyMode(value)}
+              onChange={(e) => update(buildMonthlyFields(e.target.value as MonthlyMode, date))}
+              className={inputClassName}
+              data-cy="recurrence-monthly"
+              data-testid="recurrence-monthly"
+            >
+              <option value="day">{t("recurrence.monthly_day", { day: date.getDate() })}</option>
+              {position.nth <= 4 && (
+                <option value="weekday">
+                  {t("recurrence.monthly_weekday", {
+                    nth: t(`recurrence.nth.${position.nth}`),
+                    weekday: weekdayName(position.weekday, "long"),
+                  })}
+                </option>
+              )}
+              {position.isLast && (
+                <option value="last">
+                  {t("recurrence.monthly_weekday", {
+                    nth: t("recurrence.nth.last"),
+                    weekday: weekdayName(position.weekday, "long"),
+                  })}
+                </option>
+              )}
+            </select>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span>{t("recurrence.ends")}</span>
+            <select
+              value={endMode}
+              onChange={(e) => changeEndMode(e.target.value as EndMode)}
+              className={inputClassName}
+              data-cy="recurrence-end"
+              data-testid="recurrence-end"
+            >
+              <option value="never">{t("recurrence.end_never")}</option>
+              <option value="count">{t("recurrence.end_count")}</option>
+              <option value="until">{t("recurrence.end_until")}</option>
+            </select>
+            {endMode === "count" && (
+              <input
+                type="number"
+                min={1}
+                value={value.count}
+                onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                className={`${inputClassName} w-20`}
+                data-cy="recurrence-count"
+                data-testid="recurrence-count"
+              />
+            )}
+            {endMode === "until" && (
+              <input
+                type="date"
+                value={value.until}
+                onChange={(e) => update({ until: e.target.value })}
+                className={inputClassName}
+                data-cy="recurrence-until"
+                data-testid="recurrence-until"
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceEditor;
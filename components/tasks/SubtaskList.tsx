@@ -0,0 +1,159 @@
+/**
+ * SubtaskList.tsx
+ *
+ * Editable checklist of subtasks, used by TaskForm.
+ *
+ * - Adds subtasks with a title and an optional due date.
+ * - Toggles, reorders (move up / move down) and removes subtasks.
+ * - Shows the checklist progress as "completed/total".
+ *
+ * The component only renders the list; TaskForm decides whether changes are kept locally (new tasks)
+ * or saved right away through the subtask API (existing tasks).
+ *
+ * @component
+ * @param {Subtask[]} subtasks - The subtasks to display, in order.
+ * @param {function} onAdd - Called with the title and optional due date of a new subtask.
+ * @param {function} onToggle - Called with the ID of the subtask to complete or reopen.
+ * @param {function} onMove - Called with the ID of a subtask and the direction to move it (-1 up, 1 down).
+ * @param {function} onRemove - Called with the ID of the subtask to remove.
+ *
+ * @returns The checklist UI with controls to edit it.
+ */
+
+import React, { useState } from "react";
+import { FaArrowDown, FaArrowUp, FaTrash } from "react-icons/fa";
+import { useTranslation } from "react-i18next";
+import { Subtask } from "@/types/TaskCategoryTypes";
+
+interface SubtaskListProps {
+  subtasks: Subtask[];
+  onAdd: (title: string, dueDate: string | null) => void;
+  onToggle: (id: string) => void;
+  onMove: (id: string, direction: -1 | 1) => void;
+  onRemove: (id: string) => void;
+}
+
+const inputClassName =
+  "p-2 bg-transparent border border-gray-300 dark:border-gray-600 rounded focus:border-blue-500 focus:ring-2 focus:ring-blue-400 focus:outline-none transition";
+
+const SubtaskList: React.FC<SubtaskListProps> = ({ subtasks, onAdd, onToggle, onMove, onRemove }) => {
+  const { t, i18n } = useTranslation();
+  const [newTitle, setNewTitle] = useState("");
+  const [newDueDate, setNewDueDate] = useState("");
+
+  const completedCount = subtasks.filter((subtask) => subtask.completed).length;
+
+  const handleAdd = () => {
+    if (!newTitle.trim()) return;
+    onAdd(newTitle.trim(), newDueDate || null);
+    setNewTitle("");
+    setNewDueDate("");
+  };
+
+  return (
+    <div data-cy="subtask-list" data-testid="subtask-list">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-gray-500 dark:text-gray-300">{t("subtasks.title")}</span>
+        {subtasks.length > 0 && (
+          <span className="text-sm text-gray-500" data-testid="subtask-progress">
+            {t("subtasks.progress", { completed: completedCount, total: subtasks.length })}
+          </span>
+        )}
+      </div>
+
+      <ul className="space-y-1 mb-2">
+        {subtasks.map((subtask, index) => (
+          <li
+            key={subtask._id}
+            className="flex items-center gap-2"
+            data-cy={`subtask-${index}`}
+            data-testid={`subtask-${index}`}
+          >
+            <input
+              type="checkbox"
+              checked={subtask.completed}
+              onChange={() => onToggle(subtask._id)}
+              aria-label={subtask.title}
+              data-testid={`subtask-toggle-${index}`}
+            />
+            <span className={`flex-1 ${subtask.completed ? "line-through text-gray-500" : ""}`}>
+              {subtask.title}
+            </span>
+            {subtask.dueDate && (
+              <span className="text-xs text-gray-500">
+                {new Date(subtask.dueDate).toLocaleDateString(i18n?.language)}
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={() => onMove(subtask._id, -1)}
+              disabled={index === 0}
+              className="p-1 text-gray-500 disabled:opacity-30"
+              aria-label={t("subtasks.move_up")}
+              data-testid={`subtask-up-${index}`}
+            >
+              <FaArrowUp />
+            </button>
+            <button
+              type="button"
+              onClick={() => onMove(subtask._id, 1)}
+              disabled={index === subtasks.length - 1}
+              className="p-1 text-gray-500 disabled:opacity-30"
+              aria-label={t("subtasks.move_down")}
+              data-testid={`subtask-down-${index}`}
+            >
+              <FaArrowDown />
+            </button>
+            <button
+              type="button"
+              onClick={() => onRemove(subtask._id)}
+              className="p-1 text-red-500"
+              aria-label={t("subtasks.remove")}
+              data-testid={`subtask-remove-${index}`}
+            >
+              <FaTrash />
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder={t("subtasks.placeholder")}
+          className={`${inputClassName} flex-1`}
+          data-cy="subtask-input"
+          data-testid="subtask-input"
+        />
+        <input
+          type="date"
+          value={newDueDate}
+          onChange={(e) => setNewDueDate(e.target.value)}
+          className={inputClassName}
+          aria-label={t("task.due_date")}
+          data-cy="subtask-due-date"
+          data-testid="subtask-due-date"
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          className="bg-blue-500 text-white px-3 py-2 rounded-md hover:bg-blue-600 transition-all"
+          data-cy="subtask-add"
+          data-testid="subtask-add"
+        >
+          {t("subtasks.add")}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SubtaskList;
@@ -0,0 +1,137 @@
+/**
+ * TagInput.tsx
+ *
+ * Tag picker with autocomplete, used by TaskForm.
+ *
+ * - Shows the selected tags as chips that can be removed.
+ * - Suggests the user's tags matching the typed text; Enter picks the tag with that exact name,
+ *   or creates it when no tag has that name.
+ * - New tags get the next color of a small palette; colors can be changed on the tags page.
+ *
+ * @component
+ * @param {Tag[]} tags - The user's tags.
+ * @param {string[]} selectedIds - IDs of the tags of the task.
+ * @param {function} onChange - Called with the updated list of tag IDs.
+ * @param {function} onCreate - Creates a tag with the given name and color, resolving to the new tag (or null).
+ *
+ * @returns The tag chips and the autocomplete input.
+ */
+
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import TagChip from "@/components/common/TagChip";
+import { Tag } from "@/types/TaskCategoryTypes";
+
+interface TagInputProps {
+  tags: Tag[];
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  onCreate: (name: string, color: string) => Promise<Tag | null>;
+}
+
+const TAG_COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#8b5cf6", "#ec4899", "#14b8a6", "#6b7280"];
+const MAX_SUGGESTIONS = 6;
+
+const TagInput: React.FC<TagInputProps> = ({ tags, selectedIds, onChange, onCreate }) => {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState("");
+  const [focused, setFocused] = useState(false);
+
+  const name = query.trim().replace(/\s+/g, " ");
+  const selectedTags = selectedIds
+    .map((id) => tags.find((tag) => tag._id === id))
+    .filter((tag): tag is Tag => !!tag);
+  const exactMatch = tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+  const suggestions = tags
+    .filter((tag) => !selectedIds.includes(tag._id) && tag.name.toLowerCase().includes(name.toLowerCase()))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const selectTag = (tagId: string) => {
+    if (!selectedIds.includes(tagId)) onChange([...selectedIds, tagId]);
+    setQuery("");
+  };
+
+  const submit = async () => {
+    if (!name) return;
+    if (exactMatch) {
+      selectTag(exactMatch._id);
+      return;
+    }
+    const created = await onCreate(name, TAG_COLORS[tags.length % TAG_COLORS.length]);
+    if (created) selectTag(created._id);
+  };
+
+  return (
+    <div className="relative" data-cy="tag-input" data-testid="tag-input">
+      <span className="text-gray-500 dark:text-gray-300">{t("tags.title")}</span>
+
+      {selectedTags.length > 0 && (
+        <div className="flex flex-wrap gap-1 my-2">
+          {selectedTags.map((tag) => (
+            <TagChip
+              key={tag._id}
+              tag={tag}
+              onRemove={() => onChange(selectedIds.filter((id) => id !== tag._id))}
+              testId={`tag-input-chip-${tag._id}`}
+            />
+          ))}
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            submit();
+          }
+        }}
+        placeholder={t("tags.placeholder")}
+        className="p-2 w-full bg-transparent border border-gray-300 dark:border-gray-600 rounded focus:border-blue-500 focus:ring-2 focus:ring-blue-400 focus:outline-none transition"
+        data-cy="tag-input-field"
+        data-testid="tag-input-field"
+      />
+
+      {focused && (suggestions.length > 0 || (name && !exactMatch)) && (
+        <ul
+          className="absolute z-10 mt-1 w-full rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg"
+          data-testid="tag-suggestions"
+        >
+          {suggestions.map((tag) => (
+            <li key={tag._id}>
+              <button
+                type="button"
+                // Keep the input focused so the list does not close before the click
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectTag(tag._id)}
+                className="w-full text-left px-3 py-2 hover:bg-gray-100 dark:hover:bg-gray-700"
+                data-testid={`tag-suggestion-${tag._id}`}
+              >
+                <TagChip tag={tag} />
+              </button>
+            </li>
+          ))}
+          {name && !exactMatch && (
+            <li>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={submit}
+                className="w-full text-left px-3 py-2 text-blue-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+                data-testid="tag-create"
+              >
+                {t("tags.create", { name })}
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
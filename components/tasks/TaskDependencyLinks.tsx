@@ -0,0 +1,50 @@
+/**
+ * TaskDependencyLinks.tsx
+ *
+ * Inline list of related tasks in a dependency, used by TaskCard and TaskForm.
+ *
+ * - Links every task to its edit page.
+ * - Completed tasks are struck through, so open blockers stand out.
+ * - Renders nothing when the list is empty.
+ *
+ * @component
+ * @param {string} label - Text shown before the links (e.g. "Blocked by").
+ * @param {TaskReference[]} tasks - The related tasks.
+ * @param {string} testId - Base value of the data-testid and data-cy attributes.
+ *
+ * @returns The label followed by a link to each related task.
+ */
+
+import React from "react";
+import Link from "next/link";
+import { TaskReference } from "@/types/TaskCategoryTypes";
+
+interface TaskDependencyLinksProps {
+  label: string;
+  tasks: TaskReference[];
+  testId: string;
+}
+
+const TaskDependencyLinks: React.FC<TaskDependencyLinksProps> = ({ label, tasks, testId }) => {
+  if (tasks.length === 0) return null;
+
+  return (
+    <p className="flex flex-wrap items-center gap-1" data-testid={testId} data-cy={testId}>
+      <span>{label}:</span>
+      {tasks.map((task, index) => (
+        <span key={task._id}>
+          <Link
+            href={`/tasks/edit/${task._id}`}
+            className={`text-blue-500 hover:underline ${task.completed ? "line-through opacity-70" : ""}`}
+            data-testid={`${testId}-link-${task._id}`}
+          >
+            {task.title}
+          </Link>
+          {index < tasks.length - 1 && ","}
+        </span>
+      ))}
+    </p>
+  );
+};
+
+export default TaskDependencyLinks;
@@ -6,6 +6,12 @@
  * Allows saving, updating, or deleting tasks, with validations for required fields and time dependencies.
  *
  * - Displays categories and priority options as dropdowns, and a markdown editor for the description.
+ * - Lets the task repeat with a recurrence rule edited through RecurrenceEditor.
+ * - Edits the task's checklist with SubtaskList. Subtasks of a new task are sent along with it; on an
+ *   existing task every subtask change is saved right away through the subtask API.
+ * - Edits the tasks blocking this task and the tasks it blocks with DependencyEditor, linking to each of them.
+ * - Adds tags with TagInput, which autocompletes the user's tags and creates new ones.
+ * - Downloads an existing task as an `.ics` file, to add it to a calendar app.
  * - Shows a delete confirmation modal when deleting a task.
  *
  * @component
@@ -17,11 +23,20 @@
 "use client";
 import React, { useState, useEffect } from "react";
 import { apiFetch } from "@/lib/apiFetch";
+import { describeApiError, getFieldErrorMessages } from "@/lib/apiError";
 import { useRouter } from "next/navigation";
 import dynamic from "next/dynamic"; // To dynamically import react-quill
 import "react-quill/dist/quill.snow.css"; // React Quill CSS for styling
 import { useTranslation } from "react-i18next";
 import Dropdown from "@/components/common/Dropdown";
+import RecurrenceEditor from "@/components/tasks/RecurrenceEditor";
+import SubtaskList from "@/components/tasks/SubtaskList";
+import DependencyEditor from "@/components/tasks/DependencyEditor";
+import TagInput from "@/components/tasks/TagInput";
+import { downloadTaskIcs } from "@/lib/user";
+import { saveFile } from "@/lib/utils";
+import { fetchAllTasks } from "@/lib/taskFilters";
+import { RecurrenceRule, Subtask, Tag, TaskReference } from "@/types/TaskCategoryTypes";
 import {
   FaAngleDoubleUp,
   FaAngleUp,
@@ -33,6 +48,17 @@ import {
 // Dynamically import react-quill for Markdown-like editor
 const ReactQuill = dynamic(() => import("react-quill"), { ssr: false });
 
+// Form errors showing the field errors returned by the API, keyed by the first segment of their path
+const FIELD_ERROR_KEYS: { [field: string]: string } = {
+  title: "taskName",
+  resume: "resume",
+  dueDate: "dateInput",
+  dueTime: "dateInput",
+  recurrence: "recurrence",
+  subtasks: "subtasks",
+  tagIds: "tags",
+};
+
 // Define Task and Category interfaces
 interface Task {
   _id?: string;
@@ -43,6 +69,12 @@ interface Task {
   priority: "highest" | "high" | "medium" | "low" | "lowest";
   dueDate?: string;
   dueTime?: string;
+  recurrence?: RecurrenceRule | null;
+  subtasks?: Subtask[];
+  autoCompleteSubtasks?: boolean;
+  blockedBy?: string[];
+  blocking?: TaskReference[];
+  tagIds?: string[];
 }
 
 interface Category {
@@ -89,6 +121,20 @@ const TodoForm: React.FC<{ task?: Task }> = ({ task }) => {
   >(task?.priority || "medium"); // State for task priority
   const [dateInput, setDateInput] = useState<string>(task?.dueDate || ""); // State for due date
   const [timeInput, setTimeInput] = useState<string>(task?.dueTime || ""); // State for due time
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(
+    task?.recurrence || null
+  ); // State for the repeat rule
+  const [subtasks, setSubtasks] = useState<Subtask[]>(task?.subtasks || []); // State for the checklist
+  const [autoCompleteSubtasks, setAutoCompleteSubtasks] = useState<boolean>(
+    task?.autoCompleteSubtasks || false
+  ); // Complete the task when every subtask is done
+  const [blockedBy, setBlockedBy] = useState<string[]>(task?.blockedBy || []); // Tasks blocking this one
+  const [blocks, setBlocks] = useState<string[]>(
+    task?.blocking?.map((blocked) => blocked._id) || []
+  ); // Tasks blocked by this one
+  const [tagIds, setTagIds] = useState<string[]>(task?.tagIds || []); // Tags of the task
+  const [tags, setTags] = useState<Tag[]>([]); // The user's tags, for autocompletion
+  const [otherTasks, setOtherTasks] = useState<TaskReference[]>([]); // Tasks available as dependencies
   const [categories, setCategories] = useState<Category[]>([]); // State for category list
   const [showDeleteModal, setShowDeleteModal] = useState(false); // State for delete confirmation modal
   const [errors, setErrors] = useState<{ [key: string]: string }>({}); // State for error messages
@@ -104,6 +150,34 @@ const TodoForm: React.FC<{ task?: Task }> = ({ task }) => {
     fetchCategories();
   }, []);
 
+  // Fetch the user's tags for autocompletion
+  useEffect(() => {
+    const fetchTags = async () => {
+      const tagData = await apiFetch("/api/tags", { method: "GET" });
+      if (tagData && tagData.success) {
+        setTags(tagData.tags);
+      }
+    };
+    fetchTags();
+  }, []);
+
+  // Fetch the user's other tasks to choose dependencies from
+  useEffect(() => {
+    const fetchOtherTasks = async () => {
+      try {
+        const tasks = await fetchAllTasks("sort=title&order=asc");
+        setOtherTasks(
+          tasks
+            .filter((other) => other._id !== task?._id)
+            .map(({ _id, title, completed }) => ({ _id, title, completed }))
+        );
+      } catch (error) {
+        console.error("Error fetching tasks for dependencies:", error);
+      }
+    };
+    fetchOtherTasks();
+  }, [task?._id]);
+
   // Load task data into the form when the task changes
   useEffect(() => {
     if (task) {
@@ -116,6 +190,12 @@ const TodoForm: React.FC<{ task?: Task }> = ({ task }) => {
         task.dueDate ? new Date(task.dueDate).toISOString().substr(0, 10) : ""
       );
       setTimeInput(task.dueTime || "");
+      setRecurrence(task.recurrence || null);
+      setSubtasks(task.subtasks || []);
+      setAutoCompleteSubtasks(task.autoCompleteSubtasks || false);
+      setBlockedBy(task.blockedBy || []);
+      setBlocks(task.blocking?.map((blocked) => blocked._id) || []);
+      setTagIds(task.tagIds || []);
     }
   }, [task]);
 
@@ -130,6 +210,9 @@ const TodoForm: React.FC<{ task?: Task }> = ({ task }) => {
       newErrors.dateInput =
         t("task.due_date") + " " + t("task.required_if_time");
 
+    if (recurrence && !dateInput)
+      newErrors.recurrence = t("recurrence.due_date_required");
+
     if (Object.keys(newErrors).length > 0) {
       setErrors(newErrors);
       return;
@@ -144,24 +227,156 @@ const TodoForm: React.FC<{ task?: Task }> = ({ task }) => {
       priority,
       dueDate: dateInput,
       dueTime: timeInput,
+      recurrence,
+      autoCompleteSubtasks,
+      blockedBy,
+      blocks,
+      tagIds,
+      // Subtasks of existing tasks are saved through the subtask API as they change
+      ...(task?._id
+        ? {}
+        : {
+            subtasks: subtasks.map(({ title, completed, dueDate }) => ({ title, completed, dueDate })),
+          }),
     };
 
-    if (task?._id) {
-      const response = await apiFetch(`/api/tasks/${task._id}`, {
-        method: "PUT",
-        body: JSON.stringify(taskPayload),
+    try {
+      if (task?._id) {
+        const response = await apiFetch(`/api/tasks/${task._id}`, {
+          method: "PUT",
+          body: JSON.stringify(taskPayload),
+        });
+        if (response && response.success) {
+          router.push("/tasks");
+        }
+      } else {
+        const response = await apiFetch("/api/tasks", {
+          method: "POST",
+          body: JSON.stringify(taskPayload),
+        });
+        if (response && response.success) {
+          router.push("/tasks");
+        }
+      }
+    } catch (error) {
+      console.error("Error saving task:", error);
+      const fieldErrors: { [key: string]: string } = {};
+      Object.entries(getFieldErrorMessages(error, t)).forEach(([path, message]) => {
+        // Dependency errors and fields without an input of their own are shown with the dependencies
+        const key = FIELD_ERROR_KEYS[path.split(".")[0]] || "dependencies";
+        fieldErrors[key] = fieldErrors[key] || message;
       });
-      if (response && response.success) {
-        router.push("/tasks");
+      setErrors(Object.keys(fieldErrors).length > 0 ? fieldErrors : { dependencies: describeApiError(error, t) });
+    }
+  };
+
+  // Saves a subtask change of an existing task, restoring the previous checklist on failure
+  const saveSubtaskChange = async (
+    previous: Subtask[],
+    request: () => Promise<any>
+  ) => {
+    setErrors((prevErrors) => ({ ...prevErrors, subtasks: "" }));
+    try {
+      const response = await request();
+      if (!response || !response.success) {
+        throw new Error("Failed to save subtask");
       }
-    } else {
-      const response = await apiFetch("/api/tasks", {
+      setSubtasks(response.task.subtasks || []);
+    } catch (error) {
+      console.error("Error saving subtask:", error);
+      setSubtasks(previous);
+      setErrors((prevErrors) => ({ ...prevErrors, subtasks: t("subtasks.save_error") }));
+    }
+  };
+
+  const handleAddSubtask = (title: string, dueDate: string | null) => {
+    if (!task?._id) {
+      setSubtasks([...subtasks, { _id: `new-${Date.now()}`, title, completed: false, dueDate }]);
+      return;
+    }
+    saveSubtaskChange(subtasks, () =>
+      apiFetch(`/api/tasks/${task._id}/subtasks`, {
         method: "POST",
-        body: JSON.stringify(taskPayload),
+        body: JSON.stringify({ title, dueDate }),
+      })
+    );
+  };
+
+  const handleToggleSubtask = (id: string) => {
+    const previous = subtasks;
+    const toggled = subtasks.find((subtask) => subtask._id === id);
+    if (!toggled) return;
+    setSubtasks(
+      subtasks.map((subtask) =>
+        subtask._id === id ? { ...subtask, completed: !subtask.completed } : subtask
+      )
+    );
+    if (task?._id) {
+      saveSubtaskChange(previous, () =>
+        apiFetch(`/api/tasks/${task._id}/subtasks/${id}`, {
+          method: "PUT",
+          body: JSON.stringify({ completed: !toggled.completed }),
+        })
+      );
+    }
+  };
+
+  const handleMoveSubtask = (id: string, direction: -1 | 1) => {
+    const previous = subtasks;
+    const index = subtasks.findIndex((subtask) => subtask._id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= subtasks.length) return;
+
+    const reordered = [...subtasks];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSubtasks(reordered);
+    if (task?._id) {
+      saveSubtaskChange(previous, () =>
+        apiFetch(`/api/tasks/${task._id}/subtasks/reorder`, {
+          method: "PUT",
+          body: JSON.stringify({ subtaskIds: reordered.map((subtask) => subtask._id) }),
+        })
+      );
+    }
+  };
+
+  const handleRemoveSubtask = (id: string) => {
+    const previous = subtasks;
+    setSubtasks(subtasks.filter((subtask) => subtask._id !== id));
+    if (task?._id) {
+      saveSubtaskChange(previous, () =>
+        apiFetch(`/api/tasks/${task._id}/subtasks/${id}`, { method: "DELETE" })
+      );
+    }
+  };
+
+  // Creates a tag typed in the tag input
+  const handleCreateTag = async (name: string, color: string): Promise<Tag | null> => {
+    setErrors((prevErrors) => ({ ...prevErrors, tags: "" }));
+    try {
+      const response = await apiFetch("/api/tags", {
+        method: "POST",
+        body: JSON.stringify({ name, color }),
       });
       if (response && response.success) {
-        router.push("/tasks");
+        setTags((prevTags) => [...prevTags, response.tag]);
+        return response.tag;
       }
+    } catch (error) {
+      console.error("Error creating tag:", error);
+    }
+    setErrors((prevErrors) => ({ ...prevErrors, tags: t("tags.create_error") }));
+    return null;
+  };
+
+  // Download the task as an iCalendar file
+  const handleDownloadIcs = async () => {
+    if (!task?._id) return;
+    setErrors((prevErrors) => ({ ...prevErrors, download: "" }));
+    try {
+      saveFile(await downloadTaskIcs(task._id), `task-${task._id}.ics`);
+    } catch (error) {
+      setErrors((prevErrors) => ({ ...prevErrors, download: describeApiError(error, t) }));
     }
   };
 
@@ -362,6 +577,99 @@ const TodoForm: React.FC<{ task?: Task }> = ({ task }) => {
         </div>
       </div>
 
+      {/* Subtasks */}
+      <div className="w-full mb-6">
+        <SubtaskList
+          subtasks={subtasks}
+          onAdd={handleAddSubtask}
+          onToggle={handleToggleSubtask}
+          onMove={handleMoveSubtask}
+          onRemove={handleRemoveSubtask}
+        />
+        <label className="flex items-center mt-2 text-sm text-gray-500 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={autoCompleteSubtasks}
+            onChange={(e) => setAutoCompleteSubtasks(e.target.checked)}
+            className="mr-2"
+            data-cy="subtask-auto-complete"
+            data-testid="subtask-auto-complete"
+          />
+          {t("subtasks.auto_complete")}
+        </label>
+        {errors.subtasks && (
+          <p
+            className="text-sm text-red-500"
+            data-cy="subtask-error"
+            data-testid="subtask-error"
+          >
+            {errors.subtasks}
+          </p>
+        )}
+      </div>
+
+      {/* Tags */}
+      <div className="w-full mb-6">
+        <TagInput
+          tags={tags}
+          selectedIds={tagIds}
+          onChange={setTagIds}
+          onCreate={handleCreateTag}
+        />
+        {errors.tags && (
+          <p
+            className="text-sm text-red-500"
+            data-cy="tag-error"
+            data-testid="tag-error"
+          >
+            {errors.tags}
+          </p>
+        )}
+      </div>
+
+      {/* Dependencies */}
+      <div className="grid grid-cols-2 gap-4 mb-6">
+        <DependencyEditor
+          label={t("dependencies.blocked_by")}
+          selectedIds={blockedBy}
+          options={otherTasks}
+          onChange={setBlockedBy}
+          testId="dependency-blocked-by"
+        />
+        <DependencyEditor
+          label={t("dependencies.blocks")}
+          selectedIds={blocks}
+          options={otherTasks}
+          onChange={setBlocks}
+          testId="dependency-blocks"
+        />
+        {errors.dependencies && (
+          <p
+            className="col-span-2 text-sm text-red-500"
+            data-cy="dependency-error"
+            data-testid="dependency-error"
+          >
+            {errors.dependencies}
+          </p>
+        )}
+      </div>
+
+      {/* Recurrence */}
+      <RecurrenceEditor
+        value={recurrence}
+        onChange={setRecurrence}
+        dueDate={dateInput}
+      />
+      {errors.recurrence && (
+        <p
+          className="-mt-4 mb-6 text-sm text-red-500"
+          data-cy="recurrence-error"
+          data-testid="recurrence-error"
+        >
+          {errors.recurrence}
+        </p>
+      )}
+
       {/* Action Buttons */}
       <div className="flex justify-between">
         <button
@@ -378,6 +686,16 @@ const TodoForm: React.FC<{ task?: Task }> = ({ task }) => {
         >
           {t("task.cancel")}
         </button>
+        {task?._id && (
+          <button
+            onClick={handleDownloadIcs}
+            className="border border-blue-500 text-blue-500 px-4 py-2 rounded-md hover:bg-blue-500 hover:text-white transition-all"
+            data-cy="task-form-download-ics"
+            data-testid="task-form-download-ics"
+          >
+            {t("task.download_ics")}
+          </button>
+        )}
         {task?._id && (
           <button
             onClick={() => {
@@ -392,6 +710,12 @@ const TodoForm: React.FC<{ task?: Task }> = ({ task }) => {
         )}
       </div>
 
+      {errors.download && (
+        <p className="mt-2 text-sm text-red-500" data-testid="download-ics-error">
+          {errors.download}
+        </p>
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteModal && (
         <div className="z-10 fixed inset-0 flex justify-center items-center bg-gray-900 bg-opacity-50">
@@ -0,0 +1,307 @@
+/**
+ * TaskImportWizard.tsx
+ *
+ * Imports many tasks at once from a file.
+ *
+ * - Accepts a CSV file, the JSON file or ZIP archive of a data export (see the profile page), or a Todoist or
+ *   Trello JSON export, or an iCalendar (.ics) file whose events and to-dos become tasks.
+ * - Previews the rows read from the file with the errors of each one, checked by the server with the same rules as
+ *   a task created through TaskForm, and the categories and tags that will be created.
+ * - For CSV files, lets the user choose the column of each field, starting from the columns guessed from the header,
+ *   and previews the rows again after every change.
+ * - Imports the valid rows and reports the rows that were skipped.
+ *
+ * @component
+ * @returns The file picker, the preview of the import or its result.
+ */
+
+"use client";
+import React, { useState } from "react";
+import Link from "next/link";
+import { useTranslation } from "react-i18next";
+import { apiFetch } from "@/lib/apiFetch";
+import { describeApiError, FieldError } from "@/lib/apiError";
+import {
+  CsvMapping,
+  TaskImportField,
+  TaskImportFormat,
+  TaskImportPreview,
+  TaskImportResult,
+} from "@/types/TaskImportTypes";
+
+const MAPPED_FIELDS: TaskImportField[] = [
+  "title",
+  "resume",
+  "description",
+  "category",
+  "priority",
+  "status",
+  "completed",
+  "dueDate",
+  "dueTime",
+  "tags",
+  "subtasks",
+];
+
+interface ImportFile {
+  name: string;
+  format: TaskImportFormat;
+  content: string; // Text of the file, or base64 for a ZIP archive
+}
+
+const getFormat = (name: string): TaskImportFormat => {
+  const extension = name.toLowerCase().split(".").pop();
+  if (extension === "csv" || extension === "zip" || extension === "ics") return extension;
+  return "json";
+};
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(index, index + 0x8000)));
+  }
+  return btoa(binary);
+};
+
+const readFile = async (file: File): Promise<ImportFile> => {
+  const format = getFormat(file.name);
+  const content = format === "zip" ? toBase64(await file.arrayBuffer()) : await file.text();
+  return { name: file.name, format, content };
+};
+
+const TaskImportWizard: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [preview, setPreview] = useState<TaskImportPreview | null>(null);
+  const [result, setResult] = useState<TaskImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestPreview = async (importFile: ImportFile, mapping?: CsvMapping) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await apiFetch("/api/tasks/import/preview", {
+        method: "POST",
+        body: JSON.stringify({ format: importFile.format, content: importFile.content, mapping }),
+      });
+      setPreview(response);
+    } catch (error) {
+      setPreview(null);
+      setError(describeApiError(error, t));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    if (!selected) return;
+    const importFile = await readFile(selected);
+    setFile(importFile);
+    setResult(null);
+    await requestPreview(importFile);
+  };
+
+  const handleMappingChange = (field: TaskImportField, value: string) => {
+    if (!file || !preview) return;
+    const mapping: CsvMapping = { ...preview.mapping };
+    if (value === "") {
+      delete mapping[field];
+    } else {
+      mapping[field] = Number(value);
+    }
+    requestPreview(file, mapping);
+  };
+
+  const handleImport = async () => {
+    if (!file || !preview) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await apiFetch("/api/tasks/import", {
+        method: "POST",
+        body: JSON.stringify({ format: file.format, content: file.content, mapping: preview.mapping }),
+      });
+      setResult(response);
+      setPreview(null);
+      setFile(null);
+    } catch (error) {
+      setError(describeApiError(error, t));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // The field is the first segment of the path, such as `subtasks` for `subtasks.0.title`
+  const describeRowError = ({ path, code, params }: FieldError) => {
+    const field = path.split(".")[0];
+    const message = t(`apiErrors.fields.${code}`, params);
+    return field ? `${t(`taskImport.fields.${field}`)}: ${message}` : message;
+  };
+
+  const formatDate = (date: string | null) =>
+    date ? new Date(date).toLocaleString(i18n?.language, { dateStyle: "medium", timeStyle: "short" }) : "";
+
+  const renderMapping = () => (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-4" data-testid="import-mapping">
+      {MAPPED_FIELDS.map((field) => (
+        <label key={field} className="flex flex-col text-sm text-gray-500 dark:text-gray-300">
+          {t(`taskImport.fields.${field}`)}
+          <select
+            value={preview?.mapping?.[field] ?? ""}
+            onChange={(event) => handleMappingChange(field, event.target.value)}
+            disabled={busy}
+            className="mt-1 p-2 border border-gray-300 rounded bg-transparent dark:bg-gray-800"
+            data-testid={`import-mapping-${field}`}
+          >
+            <option value="">{t("taskImport.notImported")}</option>
+            {preview?.columns?.map((column, index) => (
+              <option key={index} value={index}>
+                {column || t("taskImport.column", { number: index + 1 })}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+    </div>
+  );
+
+  const renderPreview = (data: TaskImportPreview) => {
+    const invalidCount = data.rows.length - data.validCount;
+    return (
+      <div className="space-y-4" data-testid="import-preview">
+        <p>
+          {t(`taskImport.source.${data.source}`, { name: file?.name })}
+        </p>
+        {data.source === "csv" && renderMapping()}
+        <p data-testid="import-summary">
+          {t("taskImport.summary", { valid: data.validCount, total: data.rows.length })}
+          {invalidCount > 0 && ` ${t("taskImport.invalidRows", { count: invalidCount })}`}
+        </p>
+        {data.newCategories.length > 0 && (
+          <p className="text-sm text-gray-500">
+            {t("taskImport.newCategories", { names: data.newCategories.join(", ") })}
+          </p>
+        )}
+        {data.newTags.length > 0 && (
+          <p className="text-sm text-gray-500">{t("taskImport.newTags", { names: data.newTags.join(", ") })}</p>
+        )}
+
+        <div className="overflow-x-auto max-h-[60vh] border border-gray-200 dark:border-gray-700 rounded">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-gray-100 dark:bg-gray-800 sticky top-0">
+              <tr>
+                <th className="p-2">{t("taskImport.columns.row")}</th>
+                <th className="p-2">{t("taskImport.fields.title")}</th>
+                <th className="p-2">{t("taskImport.fields.category")}</th>
+                <th className="p-2">{t("taskImport.fields.priority")}</th>
+                <th className="p-2">{t("taskImport.fields.dueDate")}</th>
+                <th className="p-2">{t("taskImport.fields.tags")}</th>
+                <th className="p-2">{t("taskImport.fields.subtasks")}</th>
+                <th className="p-2">{t("taskImport.columns.errors")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.rows.map((row) => (
+                <tr
+                  key={row.row}
+                  className={`border-t border-gray-200 dark:border-gray-700 ${
+                    row.errors.length > 0 ? "bg-red-50 dark:bg-red-900/20" : ""
+                  }`}
+                  data-testid={`import-row-${row.row}`}
+                >
+                  <td className="p-2">{row.row}</td>
+                  <td className="p-2">
+                    {row.completed && <span className="mr-1">✓</span>}
+                    {row.title}
+                  </td>
+                  <td className="p-2">{row.category}</td>
+                  <td className="p-2">{row.priority && t(`priority.${row.priority}`, row.priority)}</td>
+                  <td className="p-2">{formatDate(row.dueDate)}</td>
+                  <td className="p-2">{row.tags.join(", ")}</td>
+                  <td className="p-2">{row.subtasks || ""}</td>
+                  <td className="p-2 text-red-500">
+                    {row.errors.map((rowError, index) => (
+                      <div key={index}>{describeRowError(rowError)}</div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <button
+          type="button"
+          onClick={handleImport}
+          disabled={busy || data.validCount === 0}
+          className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          data-testid="import-submit"
+          data-cy="import-submit"
+        >
+          {t("taskImport.import", { count: data.validCount })}
+        </button>
+      </div>
+    );
+  };
+
+  const renderResult = (data: TaskImportResult) => (
+    <div className="space-y-2" data-testid="import-result">
+      <p>{t("taskImport.imported", { count: data.imported })}</p>
+      {data.createdCategories.length > 0 && (
+        <p className="text-sm text-gray-500">
+          {t("taskImport.createdCategories", { names: data.createdCategories.join(", ") })}
+        </p>
+      )}
+      {data.createdTags.length > 0 && (
+        <p className="text-sm text-gray-500">
+          {t("taskImport.createdTags", { names: data.createdTags.join(", ") })}
+        </p>
+      )}
+      {data.skipped > 0 && (
+        <div className="text-red-500">
+          <p>{t("taskImport.skipped", { count: data.skipped })}</p>
+          <ul className="list-disc pl-6 text-sm">
+            {data.errors.map(({ row, errors }) => (
+              <li key={row}>
+                {t("taskImport.rowErrors", { row, errors: errors.map(describeRowError).join("; ") })}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <Link href="/tasks" className="text-blue-500 hover:underline" data-testid="import-go-to-tasks">
+        {t("taskImport.goToTasks")}
+      </Link>
+    </div>
+  );
+
+  return (
+    <div className="mt-20 p-8 space-y-6 dark:text-gray-300" data-testid="task-import" data-cy="task-import">
+      <h1 className="text-xl font-bold">{t("taskImport.title")}</h1>
+      <div className="space-y-2">
+        <p className="text-sm text-gray-500">{t("taskImport.description")}</p>
+        <input
+          type="file"
+          accept=".csv,.json,.zip,.ics,text/csv,application/json,application/zip,text/calendar"
+          onChange={handleFileChange}
+          disabled={busy}
+          data-testid="import-file"
+          data-cy="import-file"
+        />
+      </div>
+      {busy && <p className="text-sm text-gray-500">{t("taskImport.loading")}</p>}
+      {error && (
+        <p className="text-red-500" data-testid="import-error">
+          {error}
+        </p>
+      )}
+      {preview && renderPreview(preview)}
+      {result && renderResult(result)}
+    </div>
+  );
+};
+
+export default TaskImportWizard;
@@ -0,0 +1,221 @@
+//
+/**
+ * context/TasksProvider.tsx
+ * Context provider that shares the user's tasks, categories, tags and active filters between task views.
+ *
+ * The provider is mounted by `app/tasks/layout.tsx`, so switching between the cards, list, board and
+ * calendar views keeps the fetched data and the selected filters. Filtering and sorting happen on the
+ * server: every change to the filters reloads the tasks through `GET /api/tasks`.
+ *
+ * Each view calls `loadTasks` once the user is authenticated. The cards view asks for paginated data
+ * and loads further pages with `loadMoreTasks`; the other views load every matching task, page after page
+ * (see `fetchAllTasks`).
+ * The first call shows the loading state, later calls refresh the data silently.
+ *
+ * @interface TasksContextProps - Exposes tasks, categories, filter state and helpers to update them.
+ * @function TasksProvider - Context provider holding the shared task state.
+ * @function useTasks - Custom hook to access the tasks context.
+ */
+
+"use client";
+
+import React, { createContext, useCallback, useContext, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { apiFetch } from "@/lib/apiFetch";
+import {
+  buildTaskQueryString,
+  DEFAULT_TASK_FILTERS,
+  fetchAllTasks,
+  hasActiveFilters,
+  TaskFilters,
+} from "@/lib/taskFilters";
+import { Task, Category, Tag } from "@/types/TaskCategoryTypes";
+
+export const TASKS_PAGE_SIZE = 24;
+
+interface LoadTasksOptions {
+  paginate?: boolean;
+}
+
+interface TasksContextProps {
+  tasks: Task[];
+  categories: Category[];
+  tags: Tag[];
+  total: number;
+  hasMore: boolean;
+  loadingData: boolean;
+  loadingMore: boolean;
+  errorMessage: string | null;
+  setErrorMessage: (message: string | null) => void;
+  setTasks: React.Dispatch<React.SetStateAction<Task[]>>;
+  updateTask: (id: string, changes: Partial<Task>) => void;
+  loadTasks: (options?: LoadTasksOptions) => Promise<void>;
+  loadMoreTasks: () => Promise<void>;
+  filters: TaskFilters;
+  hasFilters: boolean;
+  setFilter: <K extends keyof TaskFilters>(key: K, value: TaskFilters[K]) => void;
+  togglePriority: (priority: string) => void;
+  toggleTag: (tagId: string) => void;
+  clearFilters: () => void;
+}
+
+const TasksContext = createContext<TasksContextProps | undefined>(undefined);
+
+export const TasksProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { t } = useTranslation();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingData, setLoadingData] = useState<boolean>(true);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [filters, setFilters] = useState<TaskFilters>(DEFAULT_TASK_FILTERS);
+  const hasLoaded = useRef(false);
+  const requestId = useRef(0); // Ignores responses from requests made with outdated filters
+
+  const loadTasks = useCallback(async ({ paginate = false }: LoadTasksOptions = {}) => {
+    const currentRequest = ++requestId.current;
+    if (!hasLoaded.current) setLoadingData(true);
+
+    try {
+      if (paginate) {
+        const query = buildTaskQueryString(filters, { limit: TASKS_PAGE_SIZE });
+        const taskData = await apiFetch(`/api/tasks?${query}`, { method: "GET" });
+        if (currentRequest !== requestId.current) return;
+
+        if (taskData && taskData.success) {
+          setTasks(taskData.tasks);
+          setTotal(taskData.total ?? taskData.tasks.length);
+          setNextCursor(taskData.nextCursor ?? null);
+        } else {
+          setErrorMessage(t("tasksPage.fetchError"));
+        }
+      } else {
+        const allTasks = await fetchAllTasks(buildTaskQueryString(filters));
+        if (currentRequest !== requestId.current) return;
+
+        setTasks(allTasks);
+        setTotal(allTasks.length);
+        setNextCursor(null);
+      }
+
+      const categoryData = await apiFetch("/api/categories", {
+        method: "GET",
+      });
+      if (categoryData && categoryData.success) {
+        setCategories(categoryData.categories);
+      } else {
+        setErrorMessage(t("tasksPage.fetchError"));
+      }
+
+      const tagData = await apiFetch("/api/tags", { method: "GET" });
+      if (tagData && tagData.success) {
+        setTags(tagData.tags);
+      } else {
+        setErrorMessage(t("tasksPage.fetchError"));
+      }
+    } catch (error) {
+      setErrorMessage(t("tasksPage.fetchError"));
+    } finally {
+      if (currentRequest === requestId.current) {
+        hasLoaded.current = true;
+        setLoadingData(false);
+      }
+    }
+  }, [filters, t]);
+
+  const loadMoreTasks = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+
+    const currentRequest = requestId.current;
+    setLoadingMore(true);
+
+    try {
+      const query = buildTaskQueryString(filters, { limit: TASKS_PAGE_SIZE, cursor: nextCursor });
+      const taskData = await apiFetch(`/api/tasks?${query}`, { method: "GET" });
+      if (currentRequest !== requestId.current) return;
+
+      if (taskData && taskData.success) {
+        setTasks((prevTasks) => [...prevTasks, ...taskData.tasks]);
+        setTotal(taskData.total);
+        setNextCursor(taskData.nextCursor ?? null);
+      } else {
+        setErrorMessage(t("tasksPage.fetchError"));
+      }
+    } catch (error) {
+      setErrorMessage(t("tasksPage.fetchError"));
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [filters, nextCursor, loadingMore, t]);
+
+  const updateTask = useCallback((id: string, changes: Partial<Task>) => {
+    setTasks((prevTasks) =>
+      prevTasks.map((task) => (task._id === id ? { ...task, ...changes } : task))
+    );
+  }, []);
+
+  const setFilter = useCallback(<K extends keyof TaskFilters>(key: K, value: TaskFilters[K]) => {
+    setFilters((prevFilters) => ({ ...prevFilters, [key]: value }));
+  }, []);
+
+  const togglePriority = useCallback((priority: string) => {
+    setFilters((prevFilters) => ({
+      ...prevFilters,
+      priorities: prevFilters.priorities.includes(priority)
+        ? prevFilters.priorities.filter((p) => p !== priority)
+        : [...prevFilters.priorities, priority],
+    }));
+  }, []);
+
+  const toggleTag = useCallback((tagId: string) => {
+    setFilters((prevFilters) => ({
+      ...prevFilters,
+      tagIds: prevFilters.tagIds.includes(tagId)
+        ? prevFilters.tagIds.filter((id) => id !== tagId)
+        : [...prevFilters.tagIds, tagId],
+    }));
+  }, []);
+
+  const clearFilters = useCallback(() => {
+    setFilters(DEFAULT_TASK_FILTERS);
+  }, []);
+
+  return (
+    <TasksContext.Provider
+      value={{
+        tasks,
+        categories,
+        tags,
+        total,
+        hasMore: nextCursor !== null,
+        loadingData,
+        loadingMore,
+        errorMessage,
+        setErrorMessage,
+        setTasks,
+        updateTask,
+        loadTasks,
+        loadMoreTasks,
+        filters,
+        hasFilters: hasActiveFilters(filters),
+        setFilter,
+        togglePriority,
+        toggleTag,
+        clearFilters,
+      }}
+    >
+      {children}
+    </TasksContext.Provider>
+  );
+};
+
+export const useTasks = () => {
+  const context = useContext(TasksContext);
+  if (!context) {
+    throw new Error("useTasks must be used within a TasksProvider");
+  }
+  return context;
+};
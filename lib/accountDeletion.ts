@@ -0,0 +1,101 @@
+//
+/**
+ * lib/accountDeletion.ts
+ * Deletes an account and everything it owns, after a grace period during which it can be restored.
+ *
+ * Asking for the deletion only schedules it: the user gets a `deletionScheduledFor` date, every session is revoked
+ * and an email tells the date. Logging in again before that date still works, and the header offers to restore the
+ * account. Once the date has passed, the account is purged: the user and their documents in every collection of
+ * `USER_DATA_COLLECTIONS`.
+ *
+ * The grace period lasts `ACCOUNT_DELETION_GRACE_DAYS` days (30 by default); `0` purges the account at once.
+ * Purging runs from `/api/cron/purge-accounts`, called by a scheduler, and for a single account when its owner
+ * tries to log in after the date, so that it answers like an unknown email even if the scheduler is late.
+ *
+ * It includes:
+ * - `getAccountDeletionGraceDays`: Reads the grace period.
+ * - `isDeletionDue`: Tells whether the grace period of a user has ended.
+ * - `scheduleAccountDeletion`: Starts the grace period, logs out every session and emails the date.
+ * - `restoreAccount`: Cancels a scheduled deletion.
+ * - `purgeAccount`: Deletes a user and their data.
+ * - `purgeDueAccounts`: Purges every account whose grace period has ended.
+ *
+ * @throws Error - When `ACCOUNT_DELETION_GRACE_DAYS` is not a whole number of days.
+ */
+
+import { Db } from 'mongodb';
+import { IUser } from '@/models/User';
+import { revokeOtherSessions } from '@/lib/sessions';
+import { clearLoginFailures } from '@/lib/loginThrottle';
+import { sendMail } from '@/lib/mail';
+import { accountDeletionEmail, getAppUrl } from '@/lib/mail/templates';
+
+const DEFAULT_GRACE_DAYS = 30;
+
+// Collections whose documents belong to a user through their `userId`; new ones must be added here to be purged
+export const USER_DATA_COLLECTIONS = ['tasks', 'categories', 'tags', 'sessions', 'loginAttempts', 'dataExports', 'calendarFeeds'] as const;
+
+export const getAccountDeletionGraceDays = () => {
+  const value = process.env.ACCOUNT_DELETION_GRACE_DAYS;
+  if (value === undefined || value === '') return DEFAULT_GRACE_DAYS;
+
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 0) {
+    throw new Error(`Invalid ACCOUNT_DELETION_GRACE_DAYS: ${value}`);
+  }
+  return days;
+};
+
+export const isDeletionDue = (user: Pick<IUser, 'deletionScheduledFor'>, now = new Date()) =>
+  !!user.deletionScheduledFor && user.deletionScheduledFor <= now;
+
+export const purgeAccount = async (db: Db, user: Pick<IUser, '_id' | 'email'>) => {
+  await Promise.all(USER_DATA_COLLECTIONS.map((name) => db.collection(name).deleteMany({ userId: user._id })));
+  await clearLoginFailures(db, user.email);
+  // The user goes last, so that an interrupted purge is found and run again
+  await db.collection<IUser>('users').deleteOne({ _id: user._id });
+};
+
+// Resolves to the date the account will be purged on; with no grace period it is purged before resolving
+export const scheduleAccountDeletion = async (db: Db, user: IUser) => {
+  const graceDays = getAccountDeletionGraceDays();
+  const now = new Date();
+  const deletionScheduledFor = new Date(now.getTime() + graceDays * 24 * 60 * 60 * 1000);
+
+  if (graceDays === 0) {
+    await purgeAccount(db, user);
+    return deletionScheduledFor;
+  }
+
+  await db.collection<IUser>('users').updateOne(
+    { _id: user._id },
+    { $set: { deletionRequestedAt: now, deletionScheduledFor } }
+  );
+  await revokeOtherSessions(db, user._id);
+  await sendMail(accountDeletionEmail(user.email, user.username, `${getAppUrl()}/login`, deletionScheduledFor));
+
+  return deletionScheduledFor;
+};
+
+// Resolves to false when no deletion was scheduled, or when its grace period has already ended
+export const restoreAccount = async (db: Db, user: IUser) => {
+  if (!user.deletionScheduledFor || isDeletionDue(user)) return false;
+
+  await db.collection<IUser>('users').updateOne(
+    { _id: user._id },
+    { $unset: { deletionRequestedAt: '', deletionScheduledFor: '' } }
+  );
+  return true;
+};
+
+// Resolves to the number of purged accounts
+export const purgeDueAccounts = async (db: Db, now = new Date()) => {
+  const users = await db.collection<IUser>('users')
+    .find({ deletionScheduledFor: { $lte: now } }, { projection: { _id: 1, email: 1 } })
+    .toArray();
+
+  for (const user of users) {
+    await purgeAccount(db, user);
+  }
+  return users.length;
+};
@@ -0,0 +1,148 @@
+//
+/**
+ * lib/apiError.ts
+ * Errors of the API, shared by the routes and the client.
+ *
+ * Every failed request answers with the same envelope, where `code` names the error for programs and
+ * `message` describes it in English for logs:
+ *
+ *   404 { success: false, code: 'TASK_NOT_FOUND', message: 'Task not found', requestId: '…' }
+ *   400 { success: false, code: 'VALIDATION_FAILED', message: 'Title is required',
+ *         details: { errors: [{ path: 'title', code: 'required', message: 'Title is required' }] }, requestId: '…' }
+ *
+ * `details` carries data that depends on the error, such as the field errors of an invalid request, the seconds
+ * to wait before retrying a login or the tasks blocking a task. `requestId` is also sent in the `X-Request-Id`
+ * header and in the server log of unexpected errors, so a report can be matched with its log.
+ *
+ * It includes:
+ * - `API_ERRORS`: The catalog of error codes, with their status and default message.
+ * - `FIELD_ERROR_CODES`: The codes of the errors on a field of an invalid request.
+ * - `ApiError`: Thrown by routes to answer with an error, and by `apiFetch` when a request fails.
+ * - `describeApiError` and `getFieldErrorMessages`: The localized messages of an error, from the `apiErrors`
+ *   keys of `locales/*.json`.
+ */
+
+export const API_ERRORS = {
+  VALIDATION_FAILED: { status: 400, message: 'Invalid request' },
+  AUTH_TOKEN_MISSING: { status: 401, message: 'No token provided' },
+  AUTH_TOKEN_INVALID: { status: 401, message: 'Invalid token' },
+  SESSION_REVOKED: { status: 401, message: 'Session revoked' },
+  SESSION_EXPIRED: { status: 401, message: 'Session expired' },
+  REFRESH_TOKEN_MISSING: { status: 401, message: 'No refresh token provided' },
+  REFRESH_TOKEN_INVALID: { status: 401, message: 'Invalid refresh token' },
+  REFRESH_TOKEN_REUSED: { status: 401, message: 'Refresh token reuse detected' },
+  INVALID_CREDENTIALS: { status: 401, message: 'Invalid credentials' },
+  TWO_FACTOR_CHALLENGE_INVALID: { status: 401, message: 'Invalid or expired challenge' },
+  TWO_FACTOR_CODE_INVALID: { status: 400, message: 'Invalid code' },
+  EMAIL_NOT_VERIFIED: { status: 403, message: 'Email not verified' },
+  PASSWORD_INCORRECT: { status: 403, message: 'Current password is incorrect' },
+  PASSWORD_OR_CODE_INCORRECT: { status: 403, message: 'Invalid password or code' },
+  CODE_INCORRECT: { status: 403, message: 'Invalid code' },
+  TOO_MANY_ATTEMPTS: { status: 429, message: 'Too many failed attempts' },
+  RESET_TOKEN_INVALID: { status: 400, message: 'Invalid or expired reset token' },
+  VERIFICATION_TOKEN_INVALID: { status: 400, message: 'Invalid or expired verification token' },
+  EMAIL_ALREADY_VERIFIED: { status: 400, message: 'Email already verified' },
+  TWO_FACTOR_ALREADY_ENABLED: { status: 400, message: 'Two-factor authentication is already enabled' },
+  TWO_FACTOR_NOT_ENABLED: { status: 400, message: 'Two-factor authentication is not enabled' },
+  TWO_FACTOR_SETUP_MISSING: { status: 400, message: 'No two-factor setup in progress' },
+  USER_EXISTS: { status: 409, message: 'User already exists' },
+  EMAIL_IN_USE: { status: 409, message: 'Email already in use' },
+  ACCOUNT_DELETION_PENDING: { status: 409, message: 'Account deletion already scheduled' },
+  ACCOUNT_DELETION_NOT_SCHEDULED: { status: 400, message: 'No account deletion scheduled' },
+  USER_NOT_FOUND: { status: 404, message: 'User not found' },
+  SESSION_NOT_FOUND: { status: 404, message: 'Session not found' },
+  TASK_NOT_FOUND: { status: 404, message: 'Task not found' },
+  SUBTASK_NOT_FOUND: { status: 404, message: 'Subtask not found' },
+  TASK_BLOCKED: { status: 409, message: 'Task is blocked by open tasks' },
+  CATEGORY_NOT_FOUND: { status: 404, message: 'Category not found' },
+  TAG_NOT_FOUND: { status: 404, message: 'Tag not found' },
+  TAG_EXISTS: { status: 409, message: 'Tag already exists' },
+  DATA_EXPORT_NOT_FOUND: { status: 404, message: 'Export not found' },
+  DATA_EXPORT_NOT_READY: { status: 409, message: 'Export is not ready' },
+  CALENDAR_FEED_NOT_FOUND: { status: 404, message: 'Calendar feed not found' },
+  INTERNAL_ERROR: { status: 500, message: 'Internal server error' },
+} as const;
+
+export type ApiErrorCode = keyof typeof API_ERRORS;
+
+export const FIELD_ERROR_CODES = [
+  'required',
+  'invalid',
+  'too_short', // With `min` in `params`
+  'too_long', // With `max` in `params`
+  'not_found',
+  'past_date',
+  'due_date_required',
+  'unchanged',
+  'self_reference',
+  'cycle',
+  'weak_password',
+] as const;
+
+export type FieldErrorCode = typeof FIELD_ERROR_CODES[number];
+
+export interface FieldError {
+  path: string; // Dot-separated path of the field in the body, query or params; '' for the whole body
+  code: FieldErrorCode;
+  message: string;
+  params?: Record<string, number>;
+}
+
+export interface ApiErrorDetails {
+  errors?: FieldError[];
+  [key: string]: unknown;
+}
+
+export interface ApiErrorBody {
+  success: false;
+  code: ApiErrorCode;
+  message: string;
+  details?: ApiErrorDetails;
+  requestId?: string;
+}
+
+export class ApiError extends Error {
+  status: number;
+  requestId?: string;
+
+  constructor(public code: ApiErrorCode, message?: string, public details?: ApiErrorDetails) {
+    super(message || API_ERRORS[code].message);
+    this.status = API_ERRORS[code].status;
+  }
+
+  get fieldErrors(): FieldError[] {
+    return this.details?.errors || [];
+  }
+
+  // Rebuilds the error of a failed response; responses without an envelope (such as a proxy error) keep their status
+  static fromResponse(status: number, body: Partial<ApiErrorBody> | null) {
+    const code = body?.code && body.code in API_ERRORS ? body.code : 'INTERNAL_ERROR';
+    const error = new ApiError(code, body?.message, body?.details);
+    error.status = status;
+    error.requestId = body?.requestId;
+    return error;
+  }
+}
+
+type Translate = (key: string, options?: Record<string, unknown>) => string;
+
+const describeFieldError = ({ code, params }: FieldError, t: Translate) => t(`apiErrors.fields.${code}`, params);
+
+// An invalid request is described by its first field error; errors that are not an `ApiError`, such as a network
+// failure, are described as internal errors
+export const describeApiError = (error: unknown, t: Translate) => {
+  if (!(error instanceof ApiError)) return t('apiErrors.INTERNAL_ERROR');
+  const [fieldError] = error.fieldErrors;
+  return fieldError ? describeFieldError(fieldError, t) : t(`apiErrors.${error.code}`);
+};
+
+// The localized message of each invalid field, keyed by its path; the first error of a field wins
+export const getFieldErrorMessages = (error: unknown, t: Translate) => {
+  const messages: { [path: string]: string } = {};
+  if (error instanceof ApiError) {
+    error.fieldErrors.forEach((fieldError) => {
+      messages[fieldError.path] = messages[fieldError.path] || describeFieldError(fieldError, t);
+    });
+  }
+  return messages;
+};
@@ -6,53 +6,108 @@
  * and redirects upon token expiration. It integrates `getToken` for token retrieval and `handleAuthRedirection`
  * for handling authentication errors, ensuring consistent API interactions across the app.
  * 
+ * When a request returns 401, the access token is renewed with `refreshAccessToken` (which uses the
+ * httpOnly refresh token cookie) and the request is sent again, so an expired token does not interrupt
+ * the user. The login page is only shown when the session itself can no longer be renewed.
+ * 
+ * Other failed requests throw an `ApiError` (see `lib/apiError.ts`) with the status and the `code`, `details` and
+ * `requestId` returned by the API, so components can show a localized message for the code and forms can show
+ * the field errors of an invalid request next to the matching inputs.
+ * 
+ * `apiDownload` works the same way for files, such as the data export, and resolves to their content.
+ * 
  * @param url - The endpoint URL for the API request.
  * @param options - Additional options for the fetch request (method, headers, etc.).
  * @returns JSON response if the request is successful; otherwise, throws an error or redirects if unauthorized.
  */
 
 import { handleAuthRedirection } from '@/lib/redirection';
-import { getToken } from '@/lib/tokenUtils'; // Import getToken to centralize token retrieval
+import { getToken, setToken } from '@/lib/tokenUtils'; // Import getToken to centralize token retrieval
+import { ApiError } from '@/lib/apiError';
 
-export const apiFetch = async (url: string, options: RequestInit = {}) => {
+let refreshPromise: Promise<string | null> | null = null;
+
+// Renews the access token; requests failing at the same time share a single refresh
+export const refreshAccessToken = (): Promise<string | null> => {
+  if (!refreshPromise) {
+    refreshPromise = fetch('/api/auth/refresh', { method: 'POST', credentials: 'same-origin' })
+      .then(async (response) => {
+        if (!response.ok) return null;
+        const data = await response.json();
+        if (!data || !data.token) return null;
+        setToken(data.token);
+        return data.token as string;
+      })
+      .catch(() => null)
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+// Sends the request with the access token, renewing it once on a 401; resolves to null when the session is over
+const authorizedFetch = async (url: string, options: RequestInit) => {
   const token = getToken(); // Use centralized getToken from tokenUtils
 
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-  };
+  const buildOptions = (accessToken: string | null): RequestInit => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
 
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
-    console.log('Token:', token); // Log the token for debugging purposes
-  }
+    if (accessToken) {
+      headers['Authorization'] = `Bearer ${accessToken}`;
+    }
 
-  console.log('URL:', url); // Log the URL to debug
-  const fetchOptions: RequestInit = {
-    ...options,
-    headers: {
-      ...headers,
-      ...(options.headers || {}),
-    },
+    return {
+      ...options,
+      headers: {
+        ...headers,
+        ...(options.headers || {}),
+      },
+    };
   };
 
-  try {
-    const response = await fetch(url, fetchOptions);
-
-    if (response.status === 401) {
-      // Evita redirecionamento automático em ambiente de teste
-      if (process.env.NODE_ENV !== 'test') {
-        handleAuthRedirection("token_expired", window);
-      }
-      return null;
+  console.log('URL:', url); // Log the URL to debug
+
+  let response = await fetch(url, buildOptions(token));
+
+  // Without a token the user logged out, so there is no session to renew
+  if (response.status === 401 && token) {
+    const newToken = await refreshAccessToken();
+    if (newToken) {
+      response = await fetch(url, buildOptions(newToken));
     }
+  }
 
-    if (!response.ok) {
-      throw new Error('Failed to fetch');
+  if (response.status === 401) {
+    // Evita redirecionamento automático em ambiente de teste
+    if (process.env.NODE_ENV !== 'test') {
+      handleAuthRedirection("token_expired", window);
     }
+    return null;
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw ApiError.fromResponse(response.status, data);
+  }
 
-    return await response.json();
+  return response;
+};
+
+export const apiFetch = async (url: string, options: RequestInit = {}) => {
+  try {
+    const response = await authorizedFetch(url, options);
+    return response ? await response.json() : null;
   } catch (error) {
     console.error('Error in apiFetch:', error);
     throw error;
   }
 };
+
+// Like `apiFetch`, for responses that are files; resolves to their content
+export const apiDownload = async (url: string, options: RequestInit = {}): Promise<Blob | null> => {
+  const response = await authorizedFetch(url, options);
+  return response ? response.blob() : null;
+};
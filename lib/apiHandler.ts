@@ -0,0 +1,88 @@
+//
+/**
+ * lib/apiHandler.ts
+ * Authentication and error responses shared by the API routes.
+ *
+ * `withAuth` wraps a route handler: it reads the JWT from the `Authorization: Bearer <token>` header, checks it
+ * and its session with `verifySessionToken` (so a revoked session is refused at once), connects to the database
+ * and calls the handler with the `db`, the `userId` and the `sessionId` of the token. Every route answers the same
+ * way when authentication fails:
+ * - 401 `AUTH_TOKEN_MISSING`: The header is missing.
+ * - 401 `AUTH_TOKEN_INVALID`: The token is malformed, expired or not an access token.
+ * - 401 `SESSION_REVOKED`: The session of the token was logged out or revoked.
+ *
+ * Handlers throw an `ApiError` (see `lib/apiError.ts`) to answer with an error, such as a `ValidationError`
+ * (see `lib/schema.ts`) or a 403 when the action needs more, such as the current password. `errorResponse`
+ * turns it into the error envelope; any other error is logged with the request ID and becomes a 500
+ * `INTERNAL_ERROR` that does not reveal its message. Routes without authentication call `errorResponse`
+ * in their own `catch`.
+ *
+ * @example
+ * export const GET = withAuth(async (req, { db, userId }) => { ... });
+ * export const PUT = withAuth<{ id: string }>(async (req, { db, userId }, { params }) => {
+ *   const { id } = parseParams(params, paramsSchema);
+ *   const fields = await parseBody(req, bodySchema);
+ *   if (!task) throw new ApiError('TASK_NOT_FOUND');
+ *   ...
+ * });
+ */
+
+import { NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { Db, ObjectId } from 'mongodb';
+import dbConnect from '@/lib/mongodb';
+import { verifySessionToken } from '@/lib/sessions';
+import { ApiError, ApiErrorBody } from '@/lib/apiError';
+
+export interface AuthContext {
+  db: Db;
+  userId: ObjectId;
+  sessionId?: string; // Missing on tokens issued before sessions existed
+}
+
+export interface RouteContext<P> {
+  params: P;
+}
+
+type AuthenticatedHandler<P> = (req: Request, auth: AuthContext, context: RouteContext<P>) => Promise<Response>;
+
+export const getBearerToken = (req: Request) => req.headers.get('Authorization')?.split(' ')[1];
+
+export const errorResponse = (error: unknown) => {
+  const requestId = randomUUID();
+  const apiError = error instanceof ApiError ? error : new ApiError('INTERNAL_ERROR');
+  if (!(error instanceof ApiError)) {
+    console.error(`Request ${requestId} failed:`, error);
+  }
+
+  const body: ApiErrorBody = { success: false, code: apiError.code, message: apiError.message, requestId };
+  if (apiError.details) {
+    body.details = apiError.details;
+  }
+  const headers: Record<string, string> = { 'X-Request-Id': requestId };
+  if (typeof apiError.details?.retryAfter === 'number') {
+    headers['Retry-After'] = String(apiError.details.retryAfter);
+  }
+  return NextResponse.json(body, { status: apiError.status, headers });
+};
+
+export const withAuth = <P = Record<string, never>>(handler: AuthenticatedHandler<P>) =>
+  async (req: Request, context?: RouteContext<P>): Promise<Response> => {
+    try {
+      const token = getBearerToken(req);
+      if (!token) {
+        throw new ApiError('AUTH_TOKEN_MISSING');
+      }
+
+      const db = await dbConnect();
+      const decoded = await verifySessionToken(db, token);
+
+      return await handler(
+        req,
+        { db, userId: new ObjectId(decoded.userId), sessionId: decoded.sessionId },
+        context || { params: {} as P }
+      );
+    } catch (error) {
+      return errorResponse(error);
+    }
+  };
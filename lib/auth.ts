@@ -6,10 +6,15 @@
  * This module provides essential functions for handling JSON Web Tokens (JWT) within the application,
  * including generating, verifying, and clearing tokens, as well as user authentication checks and logout functionality.
  * It includes:
- * - `generateToken`: Creates a signed JWT for a specified user.
+ * - `generateToken`: Creates a short-lived signed JWT for a specified user and session. The client renews it
+ *   through `/api/auth/refresh` (see `lib/sessions.ts`).
  * - `verifyToken`: Verifies a given JWT and returns decoded user information if valid.
+ * - `generateChallengeToken` / `verifyChallengeToken`: A short-lived JWT proving that the password of a user with
+ *   two-factor authentication was checked; it is exchanged with a code for a session (see `/api/auth/two-factor`).
+ *   Access tokens and challenge tokens are not interchangeable.
  * - `checkAuth`: Checks the user's authentication status based on the stored token.
- * - `logout`: Clears authentication data and redirects the user to the login page.
+ * - `endServerSession`: Asks the server to revoke the current session (see `/api/auth/logout`).
+ * - `logout`: Ends the session, clears authentication data and redirects the user to the login page.
  * - `logoutAndRedirect`: A utility function combining token clearance and redirection for a seamless logout experience.
  * 
  * @throws Error - Throws an error if `JWT_SECRET` is not set on the server.
@@ -27,18 +32,46 @@ if (!JWT_SECRET && typeof window === 'undefined') {
 
 interface JwtPayload {
   userId: string;
+  sessionId?: string; // Session the token was issued for
+  purpose?: string; // Set on tokens that do not grant access, such as two-factor challenges
 }
 
-export const generateToken = (userId: string): string => {
-  return jwt.sign({ userId }, JWT_SECRET, { expiresIn: '1h' });
+export const ACCESS_TOKEN_TTL = '15m';
+export const CHALLENGE_TOKEN_TTL = '5m';
+const TWO_FACTOR_PURPOSE = 'two-factor';
+
+export const generateToken = (userId: string, sessionId?: string): string => {
+  return jwt.sign(sessionId ? { userId, sessionId } : { userId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
 };
 
 export const verifyToken = (token: string): JwtPayload => {
+  let decoded: JwtPayload;
   try {
-    return jwt.verify(token, JWT_SECRET) as JwtPayload;
+    decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
   } catch (error) {
     throw new Error('Invalid token');
   }
+  if (decoded.purpose) {
+    throw new Error('Invalid token');
+  }
+  return decoded;
+};
+
+export const generateChallengeToken = (userId: string): string => {
+  return jwt.sign({ userId, purpose: TWO_FACTOR_PURPOSE }, JWT_SECRET, { expiresIn: CHALLENGE_TOKEN_TTL });
+};
+
+export const verifyChallengeToken = (token: string): JwtPayload => {
+  let decoded: JwtPayload;
+  try {
+    decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
+  } catch (error) {
+    throw new Error('Invalid challenge');
+  }
+  if (decoded.purpose !== TWO_FACTOR_PURPOSE) {
+    throw new Error('Invalid challenge');
+  }
+  return decoded;
 };
 
 export const checkAuth = async (): Promise<boolean> => {
@@ -68,8 +101,26 @@ export const checkAuth = async (): Promise<boolean> => {
   }
 };
 
+/**
+ * Revokes the current session on the server without waiting for the answer. `keepalive` lets the request
+ * finish while the page redirects to the login page.
+ */
+export const endServerSession = (): void => {
+  if (typeof fetch !== 'function') return;
+
+  const token = window.localStorage.getItem('token');
+  fetch('/api/auth/logout', {
+    method: 'POST',
+    keepalive: true,
+    credentials: 'same-origin',
+    headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+  }).catch((error) => console.error('Failed to end the session:', error));
+};
+
 export const logout = (): void => {
   if (typeof window !== 'undefined') {
+    endServerSession();
+
     // Remove the authToken from localStorage
     window.localStorage.removeItem('token');
     
@@ -87,6 +138,7 @@ export const logout = (): void => {
 
 export const logoutAndRedirect = (): void => {
   if (typeof window !== 'undefined') {
+    endServerSession(); // Revoke the session before its token is removed
     clearToken(); // Remove the token
     redirectToLogin('logout_successful'); // Redirect to the login page with a success message
   }
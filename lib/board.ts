@@ -0,0 +1,62 @@
+//
+/**
+ * lib/board.ts
+ * Helpers for placing and reordering tasks on the board view.
+ *
+ * Tasks are grouped by their workflow `status` and ordered by `position` inside each column.
+ * Older tasks that were created before the board existed have no status, so their column is
+ * derived from the `completed` flag.
+ * It includes:
+ * - `DEFAULT_BOARD_COLUMNS`: The default column configuration, with every column visible.
+ * - `getTaskStatus`: Resolves the column a task belongs to.
+ * - `sortByPosition`: Comparator that orders tasks by position, then by creation date.
+ * - `moveTask`: Moves a task to a column before another task and renumbers that column.
+ */
+
+import { BoardColumn, Task, TaskStatus } from '@/types/TaskCategoryTypes';
+
+export const DEFAULT_BOARD_COLUMNS: BoardColumn[] = [
+  { status: 'todo', visible: true },
+  { status: 'in_progress', visible: true },
+  { status: 'blocked', visible: true },
+  { status: 'done', visible: true },
+];
+
+export const getTaskStatus = (task: Task): TaskStatus =>
+  task.status || (task.completed ? 'done' : 'todo');
+
+export const sortByPosition = (a: Task, b: Task): number => {
+  const byPosition = (a.position ?? 0) - (b.position ?? 0);
+  if (byPosition !== 0) return byPosition;
+  return new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime();
+};
+
+/**
+ * Moves `taskId` into the `status` column, right before `beforeTaskId` (or at the end when it is null).
+ * Returns the updated task list and the ordered IDs of the target column, ready to be persisted.
+ */
+export const moveTask = (
+  tasks: Task[],
+  taskId: string,
+  status: TaskStatus,
+  beforeTaskId: string | null
+): { tasks: Task[]; columnTaskIds: string[] } => {
+  const movedTask = tasks.find((task) => task._id === taskId);
+  if (!movedTask) return { tasks, columnTaskIds: [] };
+
+  const column = tasks
+    .filter((task) => task._id !== taskId && getTaskStatus(task) === status)
+    .sort(sortByPosition);
+
+  const insertAt = beforeTaskId ? column.findIndex((task) => task._id === beforeTaskId) : -1;
+  column.splice(insertAt === -1 ? column.length : insertAt, 0, movedTask);
+
+  const columnTaskIds = column.map((task) => task._id);
+  const updatedTasks = tasks.map((task) => {
+    const index = columnTaskIds.indexOf(task._id);
+    if (index === -1) return task;
+    return { ...task, status, position: index, completed: status === 'done' };
+  });
+
+  return { tasks: updatedTasks, columnTaskIds };
+};
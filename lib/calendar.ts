@@ -0,0 +1,169 @@
+//
+/**
+ * lib/calendar.ts
+ * Date helpers used by the calendar views to place tasks on their due dates.
+ *
+ * All helpers work with local dates, so a task due at 23:59 stays on the day the user picked.
+ * It includes:
+ * - `toDateKey`: Formats a date as a `YYYY-MM-DD` key in local time.
+ * - `getMonthGrid`: Returns the six weeks (Sunday first) that cover a month.
+ * - `getWeekDays`: Returns the seven days of the week containing a date.
+ * - `shiftDate`: Moves a date by one unit of the active calendar view.
+ * - `getViewRange`: Returns the first and last instants shown by a calendar view.
+ * - `expandRecurringTasks`: Adds the future occurrences of open recurring tasks that fall inside a range.
+ * - `groupTasksByDay`: Indexes tasks with a due date by day, ordered by due time.
+ * - `isTaskOverdue`: Checks whether an open task is past its due date.
+ * - `rescheduleTask`: Moves a task to another day through `PUT /api/tasks/[id]`, keeping its due time.
+ */
+
+import { apiFetch } from '@/lib/apiFetch';
+import { getOccurrencesBetween } from '@/lib/recurrence';
+import { Task } from '@/types/TaskCategoryTypes';
+
+export type CalendarView = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export const toDateKey = (date: Date): string => {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const getMonthGrid = (date: Date): Date[] => {
+  const firstOfMonth = new Date(date.getFullYear(), date.getMonth(), 1);
+  const start = new Date(firstOfMonth);
+  start.setDate(1 - firstOfMonth.getDay());
+
+  return Array.from({ length: 42 }, (_, index) => {
+    const day = new Date(start);
+    day.setDate(start.getDate() + index);
+    return day;
+  });
+};
+
+export const getWeekDays = (date: Date): Date[] => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+
+  return Array.from({ length: 7 }, (_, index) => {
+    const day = new Date(start);
+    day.setDate(start.getDate() + index);
+    return day;
+  });
+};
+
+export const shiftDate = (date: Date, view: CalendarView, amount: number): Date => {
+  const shifted = new Date(date);
+  switch (view) {
+    case 'daily':
+      shifted.setDate(shifted.getDate() + amount);
+      break;
+    case 'weekly':
+      shifted.setDate(shifted.getDate() + amount * 7);
+      break;
+    case 'monthly':
+      shifted.setDate(1);
+      shifted.setMonth(shifted.getMonth() + amount);
+      break;
+    case 'yearly':
+      shifted.setFullYear(shifted.getFullYear() + amount);
+      break;
+  }
+  return shifted;
+};
+
+export const getViewRange = (view: CalendarView, date: Date): { start: Date; end: Date } => {
+  let start: Date;
+  let end: Date;
+  switch (view) {
+    case 'daily':
+      start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+      end = new Date(start);
+      break;
+    case 'weekly': {
+      const days = getWeekDays(date);
+      [start, end] = [days[0], days[6]];
+      break;
+    }
+    case 'yearly':
+      start = new Date(date.getFullYear(), 0, 1);
+      end = new Date(date.getFullYear(), 11, 31);
+      break;
+    case 'monthly':
+    default: {
+      const days = getMonthGrid(date);
+      [start, end] = [days[0], days[days.length - 1]];
+      break;
+    }
+  }
+  end.setHours(23, 59, 59, 999);
+  return { start, end };
+};
+
+/**
+ * Projects the future occurrences of open recurring tasks inside a range. Projected occurrences get a
+ * `<taskId>:<YYYY-MM-DD>` ID and `recurringTaskId` pointing to the stored task; they only exist on the calendar.
+ */
+export const expandRecurringTasks = (tasks: Task[], start: Date, end: Date): Task[] => {
+  const expanded = [...tasks];
+
+  tasks.forEach((task) => {
+    if (!task.recurrence || task.completed || !task.dueDate) return;
+
+    getOccurrencesBetween(task.recurrence, new Date(task.dueDate), task.occurrence ?? 1, start, end).forEach(
+      ({ date, occurrence }) => {
+        expanded.push({
+          ...task,
+          _id: `${task._id}:${toDateKey(date)}`,
+          dueDate: date.toISOString(),
+          occurrence,
+          recurringTaskId: task._id,
+        });
+      }
+    );
+  });
+
+  return expanded;
+};
+
+export const groupTasksByDay = (tasks: Task[]): Record<string, Task[]> => {
+  const byDay: Record<string, Task[]> = {};
+
+  tasks.forEach((task) => {
+    if (!task.dueDate) return;
+    const key = toDateKey(new Date(task.dueDate));
+    (byDay[key] = byDay[key] || []).push(task);
+  });
+
+  Object.values(byDay).forEach((dayTasks) =>
+    dayTasks.sort((a, b) => (a.dueTime || '23:59').localeCompare(b.dueTime || '23:59'))
+  );
+
+  return byDay;
+};
+
+export const isTaskOverdue = (task: Task, now: Date = new Date()): boolean =>
+  !task.completed && !!task.dueDate && new Date(task.dueDate) < now;
+
+/**
+ * Builds the new due date for a task moved to `dateKey`, keeping the time of day it already had.
+ */
+export const getRescheduledDueDate = (task: Task, dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const dueDate = task.dueDate ? new Date(task.dueDate) : new Date(year, month - 1, day, 23, 59);
+  dueDate.setFullYear(year, month - 1, day);
+  return dueDate;
+};
+
+export const rescheduleTask = async (task: Task, dateKey: string): Promise<Task> => {
+  const dueDate = getRescheduledDueDate(task, dateKey);
+
+  const response = await apiFetch(`/api/tasks/${task._id}`, {
+    method: 'PUT',
+    body: JSON.stringify({ dueDate: dueDate.toISOString() }),
+  });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to reschedule task');
+  }
+
+  return response.task;
+};
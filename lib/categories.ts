@@ -0,0 +1,98 @@
+//
+/**
+ * lib/categories.ts
+ * Validation shared by the category routes.
+ *
+ * It includes:
+ * - `newCategorySchema` and `categoryUpdateSchema`: The bodies of the category routes (see `lib/schema.ts`), with
+ *   the editable fields of a category (name, description, color, icon and parent).
+ * - `validateCategoryParent`: Checks that a parent category exists, belongs to the user and is not the
+ *   category itself or one of its sub-categories.
+ * - `CATEGORY_TASK_ACTIONS`: What happens to the tasks of a deleted category.
+ * - `handleCategoryTasks`: Reassigns, uncategorizes or deletes the tasks of a deleted category.
+ *
+ * @throws CategoryError - When the parent category is invalid; routes answer with 400.
+ */
+
+import { Db, ObjectId } from 'mongodb';
+import { CATEGORY_ICONS, getDescendantIds } from '@/lib/categoryTree';
+import { removeDependenciesOn } from '@/lib/dependencies';
+import { nullable, object, objectId, oneOf, optional, string } from '@/lib/schema';
+import { FieldErrorCode } from '@/lib/apiError';
+
+// `code` is the code of the field error reported for it (see `lib/apiError.ts`)
+export class CategoryError extends Error {
+  constructor(message: string, public code: FieldErrorCode = 'invalid') {
+    super(message);
+  }
+}
+
+// `reassign` moves the tasks to another category, `uncategorize` clears their category, `delete` removes them
+export const CATEGORY_TASK_ACTIONS = ['reassign', 'uncategorize', 'delete'] as const;
+export type CategoryTaskAction = typeof CATEGORY_TASK_ACTIONS[number];
+
+const categoryName = string({ label: 'Category name', message: 'Category name is required' });
+
+const categoryFields = {
+  description: optional(string({ empty: true, message: 'Invalid category description' })),
+  color: optional(nullable(string({ pattern: /^#[0-9a-fA-F]{6}$/, message: 'Invalid category color' }))),
+  icon: optional(nullable(oneOf(CATEGORY_ICONS, { message: 'Invalid category icon' }))),
+  parentId: optional(nullable(objectId({ message: 'Invalid parent category' }))),
+};
+
+export const newCategorySchema = object({ name: categoryName, ...categoryFields });
+
+// Only the fields present in the body are returned, so the result can be used for partial updates
+export const categoryUpdateSchema = object({ name: optional(categoryName), ...categoryFields });
+
+export const validateCategoryParent = async (
+  db: Db,
+  userId: ObjectId,
+  categoryId: ObjectId | null,
+  parentId: ObjectId
+): Promise<void> => {
+  const categories = (await db.collection('categories')
+    .find({ userId }, { projection: { name: 1, parentId: 1 } })
+    .toArray())
+    .map((category) => ({
+      _id: category._id.toString(),
+      name: category.name,
+      parentId: category.parentId ? category.parentId.toString() : null,
+    }));
+
+  if (!categories.some((category) => category._id === parentId.toString())) {
+    throw new CategoryError('Parent category not found', 'not_found');
+  }
+
+  if (categoryId) {
+    const id = categoryId.toString();
+    if (parentId.toString() === id || getDescendantIds(categories, id).has(parentId.toString())) {
+      throw new CategoryError('A category cannot be nested under itself or one of its sub-categories', 'cycle');
+    }
+  }
+};
+
+/**
+ * Applies `action` to the tasks of a deleted category. Tasks store the category ID as a string.
+ * `targetId` is required by `reassign` and must already be validated by the caller.
+ */
+export const handleCategoryTasks = async (
+  db: Db,
+  userId: ObjectId,
+  categoryId: ObjectId,
+  action: CategoryTaskAction,
+  targetId?: ObjectId
+): Promise<void> => {
+  const tasks = db.collection('tasks');
+  const filter = { userId, categoryId: categoryId.toString() };
+
+  if (action === 'reassign') {
+    await tasks.updateMany(filter, { $set: { categoryId: targetId!.toString() } });
+  } else if (action === 'uncategorize') {
+    await tasks.updateMany(filter, { $set: { categoryId: null } });
+  } else {
+    const taskIds = await tasks.distinct('_id', filter);
+    await tasks.deleteMany(filter);
+    await removeDependenciesOn(db, userId, taskIds);
+  }
+};
@@ -0,0 +1,75 @@
+//
+/**
+ * lib/categoryTree.ts
+ * Helpers for nested categories, shared by the categories page and the category routes.
+ *
+ * Categories point to their parent through `parentId`; top-level categories have no parent.
+ * It includes:
+ * - `CATEGORY_ICONS`: The icons a category can use.
+ * - `buildCategoryTree`: Nests categories under their parents, sorted by name.
+ * - `flattenCategoryTree`: Lists a tree depth-first with the depth of each category, for indented selects.
+ * - `getDescendantIds`: Collects the IDs of every sub-category of a category, at any depth.
+ *
+ * Categories whose parent no longer exists are treated as top-level categories.
+ */
+
+import { Category } from '@/types/TaskCategoryTypes';
+
+export const CATEGORY_ICONS = [
+  'bookmark',
+  'briefcase',
+  'home',
+  'heart',
+  'star',
+  'book',
+  'shopping-cart',
+  'graduation-cap',
+  'plane',
+  'dumbbell',
+] as const;
+export type CategoryIcon = typeof CATEGORY_ICONS[number];
+
+export interface CategoryNode<T extends Category = Category> {
+  category: T;
+  children: CategoryNode<T>[];
+}
+
+export const buildCategoryTree = <T extends Category>(categories: T[]): CategoryNode<T>[] => {
+  const ids = new Set(categories.map((category) => String(category._id)));
+  const byName = (a: CategoryNode<T>, b: CategoryNode<T>) => a.category.name.localeCompare(b.category.name);
+
+  const buildLevel = (parentId: string | null): CategoryNode<T>[] =>
+    categories
+      .filter((category) => {
+        const parent = category.parentId ? String(category.parentId) : null;
+        return parentId === null ? !parent || !ids.has(parent) : parent === parentId;
+      })
+      .map((category) => ({ category, children: buildLevel(String(category._id)) }))
+      .sort(byName);
+
+  return buildLevel(null);
+};
+
+export const flattenCategoryTree = <T extends Category>(
+  tree: CategoryNode<T>[],
+  depth = 0
+): { category: T; depth: number }[] =>
+  tree.flatMap((node) => [{ category: node.category, depth }, ...flattenCategoryTree(node.children, depth + 1)]);
+
+export const getDescendantIds = <T extends Category>(categories: T[], categoryId: string): Set<string> => {
+  const descendants = new Set<string>();
+  const queue = [categoryId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    categories.forEach((category) => {
+      const id = String(category._id);
+      if (category.parentId && String(category.parentId) === current && !descendants.has(id)) {
+        descendants.add(id);
+        queue.push(id);
+      }
+    });
+  }
+
+  return descendants;
+};
@@ -0,0 +1,89 @@
+//
+/**
+ * lib/csv.ts
+ * Writes CSV files (RFC 4180) meant to be opened in a spreadsheet, and reads the CSV files saved by spreadsheets.
+ *
+ * Values containing a comma, a quote or a line break are quoted. Values starting with `=`, `+`, `-` or `@` get a
+ * leading `'` so spreadsheets show them as text instead of running them as formulas. Files start with a byte order
+ * mark, which tells spreadsheets that the content is UTF-8, and use CRLF line endings.
+ *
+ * It includes:
+ * - `toCsv`: Builds a CSV file from a header and rows of values.
+ * - `parseCsv`: Splits a CSV file into rows of values. The separator is guessed from the first line, since
+ *   spreadsheets in some languages save with `;`. Values written by `toCsv` read back as they were.
+ */
+
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+const formatValue = (value: CsvValue) => {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  const safe = typeof value === 'string' && FORMULA_PREFIX.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const toCsv = (header: string[], rows: CsvValue[][]) =>
+  '\uFEFF' + [header, ...rows].map((row) => row.map(formatValue).join(',')).join('\r\n') + '\r\n';
+
+const SEPARATORS = [',', ';', '\t'];
+
+// The separator found most often outside quotes in the first line
+const detectSeparator = (text: string) => {
+  const counts = new Map(SEPARATORS.map((separator) => [separator, 0]));
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+  return SEPARATORS.reduce((best, separator) => (counts.get(separator)! > counts.get(best)! ? separator : best));
+};
+
+const unescapeFormula = (value: string) => (/^'[=+\-@]/.test(value) ? value.slice(1) : value);
+
+export const parseCsv = (input: string): string[][] => {
+  const text = input.startsWith('\uFEFF') ? input.slice(1) : input;
+  const separator = detectSeparator(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let quoted = false;
+
+  const endValue = () => {
+    row.push(unescapeFormula(value));
+    value = '';
+  };
+  const endRow = () => {
+    endValue();
+    // Blank lines, such as the one after the last line break, are skipped
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        value += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      endValue();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      endRow();
+    } else {
+      value += char;
+    }
+  }
+  if (value || row.length > 0) endRow();
+  return rows;
+};
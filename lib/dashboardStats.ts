@@ -0,0 +1,158 @@
+//
+/**
+ * lib/dashboardStats.ts
+ * Builds the MongoDB aggregation behind `GET /api/dashboard` and shapes its result for the client.
+ *
+ * The pipeline runs a single `$facet` over the user's tasks to collect:
+ * - `totals`: Total, completed, due today and overdue task counts.
+ * - `byPriority` / `byCategory`: The same counts grouped by priority and by category.
+ * - `completionTrend`: Tasks completed on each day of the last `TREND_DAYS` days, based on `completedAt`.
+ *
+ * Days are computed in the user's time zone, so "due today" and the trend match the calendar the user sees.
+ */
+
+import { Document, ObjectId } from 'mongodb';
+import { DashboardStats, TaskCountSummary } from '@/types/DashboardTypes';
+
+export const TREND_DAYS = 30;
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Falls back to UTC when the client sends an unknown time zone
+export const resolveTimeZone = (timeZone: string | null): string => {
+  if (!timeZone) return 'UTC';
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch (error) {
+    return 'UTC';
+  }
+};
+
+// Formats a date as YYYY-MM-DD in the given time zone
+export const toZonedDateKey = (date: Date, timeZone: string): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+
+const countFields = (now: Date) => ({
+  total: { $sum: 1 },
+  completed: { $sum: { $cond: ['$isCompleted', 1, 0] } },
+  overdue: {
+    $sum: {
+      $cond: [{ $and: ['$hasDueDate', { $not: ['$isCompleted'] }, { $lt: ['$dueDate', now] }] }, 1, 0],
+    },
+  },
+});
+
+export const buildDashboardPipeline = (userId: ObjectId, now: Date, timeZone: string): Document[] => {
+  const todayKey = toZonedDateKey(now, timeZone);
+  const trendStart = new Date(now.getTime() - TREND_DAYS * DAY_IN_MS);
+
+  return [
+    { $match: { userId } },
+    {
+      $addFields: {
+        isCompleted: { $eq: ['$completed', true] },
+        hasDueDate: { $eq: [{ $type: '$dueDate' }, 'date'] },
+      },
+    },
+    {
+      $facet: {
+        totals: [
+          {
+            $group: {
+              _id: null,
+              ...countFields(now),
+              dueToday: {
+                $sum: {
+                  $cond: [
+                    {
+                      $and: [
+                        '$hasDueDate',
+                        { $eq: [{ $dateToString: { format: '%Y-%m-%d', date: '$dueDate', timezone: timeZone } }, todayKey] },
+                      ],
+                    },
+                    1,
+                    0,
+                  ],
+                },
+              },
+            },
+          },
+        ],
+        byPriority: [{ $group: { _id: { $ifNull: ['$priority', 'medium'] }, ...countFields(now) } }],
+        byCategory: [
+          {
+            $group: {
+              // Tasks saved with an empty category are grouped with the uncategorized ones
+              _id: { $cond: [{ $eq: [{ $ifNull: ['$categoryId', ''] }, ''] }, null, '$categoryId'] },
+              ...countFields(now),
+            },
+          },
+        ],
+        completionTrend: [
+          { $match: { isCompleted: true, completedAt: { $gte: trendStart } } },
+          {
+            $group: {
+              _id: { $dateToString: { format: '%Y-%m-%d', date: '$completedAt', timezone: timeZone } },
+              count: { $sum: 1 },
+            },
+          },
+        ],
+      },
+    },
+  ];
+};
+
+const PRIORITY_ORDER = ['highest', 'high', 'medium', 'low', 'lowest'];
+
+export const formatDashboardStats = (
+  facet: Document | undefined,
+  categoryNames: Record<string, string>,
+  now: Date,
+  timeZone: string
+): DashboardStats => {
+  const totals = facet?.totals?.[0] || { total: 0, completed: 0, overdue: 0, dueToday: 0 };
+  const toSummary = (group: Document): TaskCountSummary => ({
+    total: group.total,
+    completed: group.completed,
+    overdue: group.overdue,
+  });
+
+  const byPriority = (facet?.byPriority || [])
+    .map((group: Document) => ({ priority: group._id, ...toSummary(group) }))
+    .sort((a: { priority: string }, b: { priority: string }) =>
+      PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority)
+    );
+
+  const byCategory = (facet?.byCategory || [])
+    .map((group: Document) => {
+      const categoryId = group._id ? group._id.toString() : null;
+      return {
+        categoryId,
+        name: categoryId ? categoryNames[categoryId] ?? null : null,
+        ...toSummary(group),
+      };
+    })
+    .sort((a: TaskCountSummary, b: TaskCountSummary) => b.total - a.total);
+
+  // Fill the days without completions so the trend always covers the whole period
+  const completedByDay: Record<string, number> = {};
+  (facet?.completionTrend || []).forEach((day: Document) => {
+    completedByDay[day._id] = day.count;
+  });
+  const completionTrend = Array.from({ length: TREND_DAYS }, (_, index) => {
+    const date = toZonedDateKey(new Date(now.getTime() - (TREND_DAYS - 1 - index) * DAY_IN_MS), timeZone);
+    return { date, count: completedByDay[date] || 0 };
+  });
+
+  return {
+    totalTasks: totals.total,
+    tasksCompleted: totals.completed,
+    tasksPending: totals.total - totals.completed,
+    dueToday: totals.dueToday,
+    overdue: totals.overdue,
+    unreadMessages: 0, // Placeholder for future unread messages feature
+    byPriority,
+    byCategory,
+    completionTrend,
+  };
+};
@@ -0,0 +1,341 @@
+//
+/**
+ * lib/dataExport.ts
+ * Exports the data of a user as a ZIP archive, in a background job.
+ *
+ * The archive holds `data.json`, the machine-readable export read back by the import, and CSV files for people
+ * (`tasks.csv`, `categories.csv` and `tags.csv`, see `lib/csv.ts`). `data.json` has the profile, the categories,
+ * the tags and the tasks (with their Markdown/HTML `description` and their subtasks), with IDs as strings and dates
+ * in ISO format. Credentials and secrets (password hash, tokens, two-factor secret) are never exported.
+ *
+ * Starting an export stores a job (see `models/DataExport.ts`) and returns at once; the job runs in the server
+ * process and records its progress, which the profile page polls. A job that has not ended after
+ * `DATA_EXPORT_TIMEOUT_MINUTES`, for example because the server restarted, counts as failed.
+ *
+ * It includes:
+ * - `DATA_EXPORT_FORMAT` / `DATA_EXPORT_VERSION`: Identify the format of `data.json`.
+ * - `collectExportData`: Reads the data of a user in the format of `data.json`.
+ * - `buildExportFiles`: Turns that data into the files of the archive.
+ * - `startDataExport`: Starts a job, or returns the one already running for the user.
+ * - `findDataExport` / `findLatestDataExport`: Read a job of the user, without its archive.
+ * - `readDataExportFile`: Returns the archive of a ready job, or one of its files, as a download.
+ */
+
+import { Binary, Db, ObjectId } from 'mongodb';
+import { IUser } from '@/models/User';
+import { ICategory } from '@/models/Category';
+import { ITag } from '@/models/Tag';
+import { ISubtask, ITask, TaskStatus } from '@/models/Task';
+import { createDataExport, DataExportStatus, IDataExport } from '@/models/DataExport';
+import { RecurrenceRule } from '@/types/TaskCategoryTypes';
+import { createZip, readZip } from '@/lib/zip';
+import { toCsv } from '@/lib/csv';
+
+export const DATA_EXPORT_FORMAT = 'personal-task-tracker';
+export const DATA_EXPORT_VERSION = 1;
+export const DATA_EXPORT_TIMEOUT_MINUTES = 10;
+
+// Tasks are read in batches so the progress moves while a long list is exported
+const TASK_BATCH_SIZE = 200;
+
+export const DATA_EXPORT_DOWNLOADS = {
+  zip: { file: null, contentType: 'application/zip' },
+  json: { file: 'data.json', contentType: 'application/json; charset=utf-8' },
+  csv: { file: 'tasks.csv', contentType: 'text/csv; charset=utf-8' },
+} as const;
+
+export type DataExportDownload = keyof typeof DATA_EXPORT_DOWNLOADS;
+
+export interface ExportedProfile {
+  username: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  nickname?: string;
+  bio?: string;
+  profilePicture?: string;
+  preferredNameOption?: string;
+}
+
+export interface ExportedCategory {
+  id: string;
+  name: string;
+  slug: string;
+  description: string;
+  color: string | null;
+  icon: string | null;
+  parentId: string | null;
+}
+
+export interface ExportedTag {
+  id: string;
+  name: string;
+  color: string;
+  createdAt: string | null;
+}
+
+export interface ExportedSubtask {
+  id: string;
+  title: string;
+  completed: boolean;
+  dueDate: string | null;
+}
+
+export interface ExportedTask {
+  id: string;
+  title: string;
+  resume: string;
+  description: string;
+  status: TaskStatus | null;
+  priority: ITask['priority'] | null;
+  completed: boolean;
+  completedAt: string | null;
+  dueDate: string | null;
+  dueTime: string | null;
+  categoryId: string | null;
+  tagIds: string[];
+  blockedBy: string[];
+  subtasks: ExportedSubtask[];
+  autoCompleteSubtasks: boolean;
+  recurrence: RecurrenceRule | null;
+  occurrence: number | null;
+  createdAt: string | null;
+}
+
+export interface ExportData {
+  format: typeof DATA_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  profile: ExportedProfile;
+  categories: ExportedCategory[];
+  tags: ExportedTag[];
+  tasks: ExportedTask[];
+}
+
+// Fields of the profile that are exported; the others hold credentials or internal state
+const PROFILE_FIELDS = [
+  'username', 'email', 'firstName', 'lastName', 'nickname', 'bio', 'profilePicture', 'preferredNameOption',
+] as const;
+
+const toIsoString = (date?: Date | string | null) => (date ? new Date(date).toISOString() : null);
+
+const exportCategory = (category: ICategory): ExportedCategory => ({
+  id: category._id!.toString(),
+  name: category.name,
+  slug: category.slug,
+  description: category.description || '',
+  color: category.color || null,
+  icon: category.icon || null,
+  parentId: category.parentId ? category.parentId.toString() : null,
+});
+
+const exportTag = (tag: ITag): ExportedTag => ({
+  id: tag._id!.toString(),
+  name: tag.name,
+  color: tag.color,
+  createdAt: toIsoString(tag.createdAt),
+});
+
+const exportSubtask = (subtask: ISubtask): ExportedSubtask => ({
+  id: subtask._id.toString(),
+  title: subtask.title,
+  completed: subtask.completed === true,
+  dueDate: toIsoString(subtask.dueDate),
+});
+
+const exportTask = (task: ITask): ExportedTask => ({
+  id: task._id!.toString(),
+  title: task.title,
+  resume: task.resume,
+  description: task.description || '',
+  status: task.status || null,
+  priority: task.priority || null,
+  completed: task.completed === true,
+  completedAt: toIsoString(task.completedAt),
+  dueDate: toIsoString(task.dueDate),
+  dueTime: task.dueTime || null,
+  categoryId: task.categoryId ? String(task.categoryId) : null,
+  tagIds: (task.tagIds || []).map(String),
+  blockedBy: (task.blockedBy || []).map(String),
+  subtasks: (task.subtasks || []).map(exportSubtask),
+  autoCompleteSubtasks: task.autoCompleteSubtasks === true,
+  recurrence: task.recurrence || null,
+  occurrence: task.occurrence ?? null,
+  createdAt: toIsoString(task.createdAt),
+});
+
+// `onProgress` receives the share of the data read so far, from 0 to 1
+export const collectExportData = async (
+  db: Db,
+  userId: ObjectId,
+  onProgress: (share: number) => Promise<void> = async () => {}
+): Promise<ExportData> => {
+  const user = await db.collection<IUser>('users').findOne({ _id: userId });
+  if (!user) throw new Error('User not found');
+
+  const profile = Object.fromEntries(
+    PROFILE_FIELDS.filter((field) => user[field] !== undefined).map((field) => [field, user[field]])
+  ) as unknown as ExportedProfile;
+
+  const categories = await db.collection<ICategory>('categories').find({ userId }).sort({ name: 1 }).toArray();
+  const tags = await db.collection<ITag>('tags').find({ userId }).sort({ name: 1 }).toArray();
+  await onProgress(0.1);
+
+  const total = await db.collection<ITask>('tasks').countDocuments({ userId });
+  const tasks: ExportedTask[] = [];
+  const cursor = db.collection<ITask>('tasks').find({ userId }).sort({ createdAt: 1, _id: 1 }).batchSize(TASK_BATCH_SIZE);
+  for await (const task of cursor) {
+    tasks.push(exportTask(task));
+    if (tasks.length % TASK_BATCH_SIZE === 0) {
+      await onProgress(0.1 + 0.9 * (tasks.length / Math.max(total, 1)));
+    }
+  }
+
+  return {
+    format: DATA_EXPORT_FORMAT,
+    version: DATA_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile,
+    categories: categories.map(exportCategory),
+    tags: tags.map(exportTag),
+    tasks,
+  };
+};
+
+export const buildExportFiles = (data: ExportData) => {
+  const categoryNames = new Map(data.categories.map((category) => [category.id, category.name]));
+  const tagNames = new Map(data.tags.map((tag) => [tag.id, tag.name]));
+
+  const tasksCsv = toCsv(
+    ['id', 'title', 'resume', 'description', 'status', 'priority', 'completed', 'completedAt', 'dueDate', 'dueTime',
+      'category', 'tags', 'subtasks', 'blockedBy', 'createdAt'],
+    data.tasks.map((task) => [
+      task.id,
+      task.title,
+      task.resume,
+      task.description,
+      task.status,
+      task.priority,
+      task.completed,
+      task.completedAt,
+      task.dueDate,
+      task.dueTime,
+      task.categoryId ? categoryNames.get(task.categoryId) : null,
+      task.tagIds.map((id) => tagNames.get(id)).filter(Boolean).join('; '),
+      task.subtasks.map((subtask) => `[${subtask.completed ? 'x' : ' '}] ${subtask.title}`).join('; '),
+      task.blockedBy.join('; '),
+      task.createdAt,
+    ])
+  );
+  const categoriesCsv = toCsv(
+    ['id', 'name', 'slug', 'description', 'color', 'icon', 'parent'],
+    data.categories.map((category) => [
+      category.id,
+      category.name,
+      category.slug,
+      category.description,
+      category.color,
+      category.icon,
+      category.parentId ? categoryNames.get(category.parentId) : null,
+    ])
+  );
+  const tagsCsv = toCsv(['id', 'name', 'color'], data.tags.map((tag) => [tag.id, tag.name, tag.color]));
+
+  return [
+    { name: 'data.json', content: Buffer.from(JSON.stringify(data, null, 2), 'utf8') },
+    { name: 'tasks.csv', content: Buffer.from(tasksCsv, 'utf8') },
+    { name: 'categories.csv', content: Buffer.from(categoriesCsv, 'utf8') },
+    { name: 'tags.csv', content: Buffer.from(tagsCsv, 'utf8') },
+  ];
+};
+
+const dataExports = (db: Db) => db.collection<IDataExport>('dataExports');
+
+let indexesCreated: Promise<unknown> | null = null;
+
+// The indexes are created once per server process, on the first export
+const ensureIndexes = (db: Db) => {
+  if (!indexesCreated) {
+    indexesCreated = Promise.all([
+      dataExports(db).createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+      dataExports(db).createIndex({ userId: 1, createdAt: -1 }),
+    ]).catch((error) => {
+      indexesCreated = null;
+      throw error;
+    });
+  }
+  return indexesCreated;
+};
+
+// The archive stays in the database; the status of a job is read without it
+const WITHOUT_ARCHIVE = { projection: { archive: 0 } };
+
+const isStale = (job: Pick<IDataExport, 'status' | 'createdAt'>, now = Date.now()) =>
+  (job.status === 'pending' || job.status === 'running') &&
+  now - job.createdAt.getTime() > DATA_EXPORT_TIMEOUT_MINUTES * 60 * 1000;
+
+// Jobs that timed out are reported as failed
+const withStatus = <T extends Pick<IDataExport, 'status' | 'createdAt'>>(job: T | null): T | null =>
+  job && isStale(job) ? { ...job, status: 'failed' as DataExportStatus } : job;
+
+const runDataExport = async (db: Db, job: IDataExport) => {
+  let reported = 0;
+  const setProgress = async (share: number) => {
+    const progress = Math.floor(share * 90); // The last 10% are for the archive
+    if (progress - reported < 5) return;
+    reported = progress;
+    await dataExports(db).updateOne({ _id: job._id }, { $set: { progress } });
+  };
+
+  try {
+    await dataExports(db).updateOne({ _id: job._id }, { $set: { status: 'running' } });
+    const data = await collectExportData(db, job.userId, setProgress);
+    const archive = createZip(buildExportFiles(data));
+    await dataExports(db).updateOne(
+      { _id: job._id },
+      { $set: { status: 'ready', progress: 100, archive: new Binary(archive), size: archive.length, completedAt: new Date() } }
+    );
+  } catch (error) {
+    console.error(`Data export ${job._id} failed:`, error);
+    await dataExports(db).updateOne({ _id: job._id }, { $set: { status: 'failed', completedAt: new Date() } });
+  }
+};
+
+// Resolves to the job, without waiting for it to end
+export const startDataExport = async (db: Db, userId: ObjectId) => {
+  await ensureIndexes(db);
+
+  const active = await dataExports(db).findOne(
+    { userId, status: { $in: ['pending', 'running'] } },
+    { ...WITHOUT_ARCHIVE, sort: { createdAt: -1 } }
+  );
+  if (active && !isStale(active)) return active;
+
+  const job = createDataExport(userId);
+  await dataExports(db).insertOne(job);
+  runDataExport(db, job).catch((error) => console.error(`Data export ${job._id} failed:`, error));
+  return job;
+};
+
+export const findDataExport = async (db: Db, userId: ObjectId, exportId: ObjectId) =>
+  withStatus(await dataExports(db).findOne({ _id: exportId, userId }, WITHOUT_ARCHIVE));
+
+export const findLatestDataExport = async (db: Db, userId: ObjectId) =>
+  withStatus(await dataExports(db).findOne({ userId }, { ...WITHOUT_ARCHIVE, sort: { createdAt: -1 } }));
+
+// Resolves to null when the job does not exist or is not ready
+export const readDataExportFile = async (db: Db, userId: ObjectId, exportId: ObjectId, format: DataExportDownload) => {
+  const job = await dataExports(db).findOne({ _id: exportId, userId, status: 'ready' });
+  if (!job?.archive) return null;
+
+  const archive = Buffer.from(job.archive.buffer);
+  const { file, contentType } = DATA_EXPORT_DOWNLOADS[format];
+  const date = job.createdAt.toISOString().slice(0, 10);
+  if (!file) {
+    return { filename: `tasks-export-${date}.zip`, contentType, content: archive };
+  }
+
+  const entry = readZip(archive).find(({ name }) => name === file);
+  if (!entry) return null;
+  return { filename: `tasks-export-${date}-${file}`, contentType, content: entry.content };
+};
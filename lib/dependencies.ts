@@ -0,0 +1,211 @@
+//
+/**
+ * lib/dependencies.ts
+ * Dependencies between tasks: a task can be blocked by other tasks of the same user.
+ *
+ * Only the `blockedBy` side is stored on a task; the tasks it blocks are found by looking up the tasks
+ * whose `blockedBy` contains its ID.
+ *
+ * It includes:
+ * - `parseDependencyIds`: Validates a list of task IDs received by the API.
+ * - `hasDependencyCycle`: Tells whether a task depends on itself, directly or through other tasks.
+ * - `validateDependencies`: Checks that the dependencies of a task exist, belong to the user and do not form a cycle.
+ * - `saveBlockedTasks`: Stores the tasks blocked by a task on those tasks.
+ * - `removeDependenciesOn`: Removes deleted tasks from the `blockedBy` of the remaining tasks.
+ * - `getOpenBlockers`: Lists the blockers of a task that are not completed yet.
+ * - `buildReadyStages`: Keeps the open tasks whose blockers are all completed ("ready to start") in an aggregation.
+ * - `attachDependencies`: Adds the `blockers` and `blocking` references shown by the task card and form.
+ *
+ * @throws DependencyError - When dependencies are malformed, unknown or cyclic; routes answer with 400.
+ */
+
+import { ClientSession, Db, Document, ObjectId } from 'mongodb';
+import { TaskReference } from '@/types/TaskCategoryTypes';
+import { FieldErrorCode } from '@/lib/apiError';
+
+// `code` is the code of the field error reported for it (see `lib/apiError.ts`)
+export class DependencyError extends Error {
+  constructor(message: string, public code: FieldErrorCode = 'invalid') {
+    super(message);
+  }
+}
+
+// Maps a task ID to the IDs of the tasks blocking it
+export type DependencyGraph = Map<string, string[]>;
+
+export const parseDependencyIds = (input: unknown, name: string): ObjectId[] => {
+  if (!Array.isArray(input) || input.some((id) => typeof id !== 'string' || !ObjectId.isValid(id))) {
+    throw new DependencyError(`Invalid ${name}`);
+  }
+  return Array.from(new Set<string>(input)).map((id) => new ObjectId(id));
+};
+
+/**
+ * Follows the `blockedBy` edges from `taskId` and returns true when they lead back to it.
+ * Every edge added by an update touches the updated task, so checking its own paths is enough.
+ */
+export const hasDependencyCycle = (taskId: string, graph: DependencyGraph): boolean => {
+  const visited = new Set<string>();
+  const stack = [...(graph.get(taskId) || [])];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    stack.push(...(graph.get(current) || []));
+  }
+
+  return false;
+};
+
+// Loads the tasks reachable from `startIds` through their `blockedBy` edges, with a single `$graphLookup`
+const loadBlockerGraph = async (db: Db, userId: ObjectId, startIds: ObjectId[]): Promise<DependencyGraph> => {
+  const graph: DependencyGraph = new Map();
+  if (startIds.length === 0) return graph;
+
+  const tasks = await db.collection('tasks').aggregate([
+    { $match: { userId, _id: { $in: startIds } } },
+    {
+      $graphLookup: {
+        from: 'tasks',
+        startWith: '$blockedBy',
+        connectFromField: 'blockedBy',
+        connectToField: '_id',
+        as: 'upstream',
+        restrictSearchWithMatch: { userId },
+      },
+    },
+    { $project: { blockedBy: 1, 'upstream._id': 1, 'upstream.blockedBy': 1 } },
+  ]).toArray();
+
+  tasks.forEach((task) => {
+    [task, ...(task.upstream || [])].forEach((node: Document) => {
+      graph.set(node._id.toString(), ((node.blockedBy || []) as ObjectId[]).map(String));
+    });
+  });
+  return graph;
+};
+
+export const validateDependencies = async (
+  db: Db,
+  userId: ObjectId,
+  taskId: ObjectId,
+  changes: { blockedBy?: ObjectId[]; blocks?: ObjectId[] }
+): Promise<void> => {
+  const id = taskId.toString();
+  const blockedBy = (changes.blockedBy || []).map(String);
+  const blocks = (changes.blocks || []).map(String);
+
+  if (blockedBy.includes(id) || blocks.includes(id)) {
+    throw new DependencyError('A task cannot depend on itself', 'self_reference');
+  }
+  if (blockedBy.length === 0 && blocks.length === 0) return;
+
+  const dependencyIds = Array.from(new Set([...blockedBy, ...blocks]))
+    .map((dependencyId) => new ObjectId(dependencyId));
+  const found = await db.collection('tasks').countDocuments({ userId, _id: { $in: dependencyIds } });
+  if (found !== dependencyIds.length) {
+    throw new DependencyError('Dependency not found', 'not_found');
+  }
+
+  // A cycle leads back to the task through the tasks it waits for, so only that part of the graph is loaded
+  const graph = await loadBlockerGraph(db, userId, changes.blockedBy || [taskId]);
+
+  // Apply the requested changes before looking for cycles
+  if (changes.blockedBy) {
+    graph.set(id, blockedBy);
+  }
+  if (changes.blocks) {
+    graph.forEach((blockers, otherId) => {
+      const withoutTask = blockers.filter((blockerId) => blockerId !== id);
+      graph.set(otherId, blocks.includes(otherId) ? [...withoutTask, id] : withoutTask);
+    });
+  }
+
+  if (hasDependencyCycle(id, graph)) {
+    throw new DependencyError('Dependency cycle detected', 'cycle');
+  }
+};
+
+// Makes `taskId` block exactly the given tasks
+export const saveBlockedTasks = async (db: Db, userId: ObjectId, taskId: ObjectId, blocks: ObjectId[]) => {
+  const tasks = db.collection<{ blockedBy?: ObjectId[] }>('tasks');
+  await tasks.updateMany({ userId, _id: { $nin: blocks }, blockedBy: taskId }, { $pull: { blockedBy: taskId } });
+  if (blocks.length > 0) {
+    await tasks.updateMany({ userId, _id: { $in: blocks } }, { $addToSet: { blockedBy: taskId } });
+  }
+};
+
+export const removeDependenciesOn = async (db: Db, userId: ObjectId, taskIds: ObjectId[], session?: ClientSession) => {
+  if (taskIds.length === 0) return;
+  await db.collection<{ blockedBy?: ObjectId[] }>('tasks').updateMany(
+    { userId, blockedBy: { $in: taskIds } },
+    { $pullAll: { blockedBy: taskIds } },
+    { session }
+  );
+};
+
+export const getOpenBlockers = async (db: Db, userId: ObjectId, blockedBy: ObjectId[] = []): Promise<TaskReference[]> => {
+  if (blockedBy.length === 0) return [];
+
+  const blockers = await db.collection('tasks')
+    .find({ userId, _id: { $in: blockedBy }, completed: { $ne: true } }, { projection: { title: 1 } })
+    .toArray();
+
+  return blockers.map((blocker) => ({ _id: blocker._id.toString(), title: blocker.title, completed: false }));
+};
+
+// Aggregation stages keeping the open tasks that no open task blocks, looking their blockers up by `_id`
+export const buildReadyStages = (): Document[] => [
+  { $match: { completed: { $ne: true } } },
+  {
+    $lookup: {
+      from: 'tasks',
+      localField: 'blockedBy',
+      foreignField: '_id',
+      pipeline: [{ $match: { completed: { $ne: true } } }, { $project: { _id: 1 } }],
+      as: 'openBlockers',
+    },
+  },
+  { $match: { openBlockers: { $size: 0 } } },
+  { $project: { openBlockers: 0 } },
+];
+
+/**
+ * Adds `blockers` (the tasks blocking each task) and `blocking` (the tasks it blocks) to a list of tasks,
+ * as `{ _id, title, completed }` references, using a single query.
+ */
+export const attachDependencies = async <T extends Document>(db: Db, userId: ObjectId, tasks: T[]) => {
+  const taskIds = tasks.map((task) => task._id).filter(Boolean) as ObjectId[];
+  const blockerIds = tasks.flatMap((task) => (task.blockedBy || []) as ObjectId[]);
+
+  if (taskIds.length === 0) {
+    return tasks.map((task) => ({ ...task, blockers: [] as TaskReference[], blocking: [] as TaskReference[] }));
+  }
+
+  const related = await db.collection('tasks')
+    .find(
+      { userId, $or: [{ _id: { $in: blockerIds } }, { blockedBy: { $in: taskIds } }] },
+      { projection: { title: 1, completed: 1, blockedBy: 1 } }
+    )
+    .toArray();
+
+  const toReference = (task: Document): TaskReference => ({
+    _id: task._id.toString(),
+    title: task.title,
+    completed: task.completed === true,
+  });
+
+  return tasks.map((task) => {
+    const id = task._id?.toString();
+    const blockedBy = ((task.blockedBy || []) as ObjectId[]).map(String);
+    return {
+      ...task,
+      blockers: related.filter((other) => blockedBy.includes(other._id.toString())).map(toReference),
+      blocking: related
+        .filter((other) => ((other.blockedBy || []) as ObjectId[]).some((blockerId) => String(blockerId) === id))
+        .map(toReference),
+    };
+  });
+};
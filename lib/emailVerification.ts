@@ -0,0 +1,95 @@
+//
+/**
+ * lib/emailVerification.ts
+ * Confirms that the email of an account belongs to its user.
+ *
+ * New accounts are created with `emailVerified: false` and receive a link with a one-time token; only its hash
+ * is stored on the user, with an expiry of `EMAIL_VERIFICATION_TTL_HOURS`. Accounts created before this check
+ * have no `emailVerified` field and count as verified.
+ *
+ * Changing the email from the profile page uses the same link: the new address is kept in `pendingEmail` and only
+ * replaces the email of the account once the link sent to it is opened.
+ *
+ * What an unverified user can do depends on the `EMAIL_VERIFICATION_POLICY` environment variable:
+ * - `limited` (default): Login works and the header shows a banner asking to confirm the email.
+ * - `block`: Login is refused until the email is verified, and registration does not log the user in.
+ *
+ * It includes:
+ * - `getEmailVerificationPolicy`: Reads the policy.
+ * - `isEmailVerified`: Tells whether a user has confirmed their email.
+ * - `sendVerificationEmail`: Stores a new token for a user (replacing the previous one) and emails the link,
+ *   to the pending email when there is one.
+ * - `confirmEmailToken`: Marks the user of a valid token as verified, switches to the pending email and consumes
+ *   the token.
+ *
+ * @throws Error - When `EMAIL_VERIFICATION_POLICY` has an unknown value.
+ * @throws EmailVerificationError - When the pending email was taken by another account in the meantime
+ *   (`EMAIL_IN_USE`, a 409).
+ */
+
+import { Db } from 'mongodb';
+import { ApiError } from '@/lib/apiError';
+import { EMAIL_VERIFICATION_TTL_HOURS, IUser } from '@/models/User';
+import { generateSecureToken, hashSecureToken } from '@/lib/secureTokens';
+import { sendMail } from '@/lib/mail';
+import { emailVerificationEmail, getAppUrl } from '@/lib/mail/templates';
+
+export class EmailVerificationError extends ApiError {}
+
+export const EMAIL_VERIFICATION_POLICIES = ['limited', 'block'] as const;
+export type EmailVerificationPolicy = typeof EMAIL_VERIFICATION_POLICIES[number];
+
+export const getEmailVerificationPolicy = (): EmailVerificationPolicy => {
+  const policy = process.env.EMAIL_VERIFICATION_POLICY || 'limited';
+  if (!EMAIL_VERIFICATION_POLICIES.includes(policy as EmailVerificationPolicy)) {
+    throw new Error(`Unknown EMAIL_VERIFICATION_POLICY: ${policy}`);
+  }
+  return policy as EmailVerificationPolicy;
+};
+
+export const isEmailVerified = (user: Pick<IUser, 'emailVerified'>) => user.emailVerified !== false;
+
+export const sendVerificationEmail = async (
+  db: Db,
+  user: Pick<IUser, '_id' | 'email' | 'username' | 'pendingEmail'>,
+  pendingEmail?: string
+) => {
+  const token = generateSecureToken();
+  await db.collection<IUser>('users').updateOne(
+    { _id: user._id },
+    {
+      $set: {
+        emailVerificationTokenHash: hashSecureToken(token),
+        emailVerificationExpiresAt: new Date(Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000),
+        ...(pendingEmail ? { pendingEmail } : {}),
+      },
+    }
+  );
+
+  const link = `${getAppUrl()}/verify-email?token=${encodeURIComponent(token)}`;
+  const to = pendingEmail || user.pendingEmail || user.email;
+  await sendMail(emailVerificationEmail(to, user.username, link, EMAIL_VERIFICATION_TTL_HOURS));
+};
+
+// Resolves to true when the email is verified, or false when the token is unknown, used or expired
+export const confirmEmailToken = async (db: Db, token: string) => {
+  const usersCollection = db.collection<IUser>('users');
+  const tokenFilter = { emailVerificationTokenHash: hashSecureToken(token), emailVerificationExpiresAt: { $gt: new Date() } };
+
+  const user = await usersCollection.findOne(tokenFilter);
+  if (!user) return false;
+
+  if (user.pendingEmail && await usersCollection.findOne({ email: user.pendingEmail, _id: { $ne: user._id } })) {
+    throw new EmailVerificationError('EMAIL_IN_USE');
+  }
+
+  // Matching the token again makes the link single-use, even with concurrent requests
+  const result = await usersCollection.updateOne(
+    { _id: user._id, ...tokenFilter },
+    {
+      $set: { emailVerified: true, ...(user.pendingEmail ? { email: user.pendingEmail } : {}) },
+      $unset: { emailVerificationTokenHash: '', emailVerificationExpiresAt: '', pendingEmail: '' },
+    }
+  );
+  return result.modifiedCount > 0;
+};
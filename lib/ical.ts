@@ -0,0 +1,314 @@
+//
+/**
+ * lib/ical.ts
+ * Writes and reads iCalendar files (RFC 5545).
+ *
+ * Only what tasks need is supported: components with their properties and parameters, text values, dates,
+ * date-times and recurrence rules. Written lines are folded at 75 octets and end with CRLF, as calendar apps
+ * expect. Date-times are read in UTC (`Z`), in the time zone named by `TZID` when the runtime knows it, or else
+ * in local time.
+ *
+ * It includes:
+ * - `buildIcsCalendar`: Writes a VCALENDAR holding the given components.
+ * - `escapeIcsText`, `formatIcsDate` and `formatIcsDateTime`: Format the values of properties.
+ * - `parseIcs`: Reads the components of a file, and `findIcsComponents` lists the components with a name.
+ * - `getIcsProperty`, `getIcsText`, `getIcsTextList` and `getIcsDate`: Read the properties of a component.
+ * - `toRRule` and `fromRRule`: Convert a recurrence rule (see `lib/recurrence.ts`) to and from an `RRULE` value.
+ *
+ * @throws IcsError - When a file is not an iCalendar file.
+ * @throws RecurrenceError - When an `RRULE` cannot be expressed as a recurrence rule of a task.
+ */
+
+import { RecurrenceRule } from '@/types/TaskCategoryTypes';
+import { RecurrenceError } from '@/lib/recurrence';
+
+export class IcsError extends Error {}
+
+export interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string; // As written in the file: text values are escaped
+}
+
+export interface IcsComponent {
+  name: string;
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+const MAX_LINE_OCTETS = 75;
+const PRODUCT_ID = '-//Personal Task Tracker//Tasks//EN';
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const pad = (value: number, length = 2) => `${value}`.padStart(length, '0');
+
+export const escapeIcsText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeIcsText = (text: string) =>
+  text.replace(/\\([\\;,nN])/g, (match, char) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// A whole day, such as the due date of a task without a due time, in local time
+export const formatIcsDate = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+export const formatIcsDateTime = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T` +
+  `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// Continuation lines start with a space; multi-byte characters are never split
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+};
+
+const writeComponent = (component: IcsComponent): string[] => [
+  `BEGIN:${component.name}`,
+  ...component.properties.map(({ name, params, value }) =>
+    [name, ...Object.entries(params).map(([key, param]) => `${key}=${param}`)].join(';') + `:${value}`),
+  ...component.components.flatMap(writeComponent),
+  `END:${component.name}`,
+];
+
+// `properties` are added to the calendar itself, such as its name (`X-WR-CALNAME`)
+export const buildIcsCalendar = (components: IcsComponent[], properties: IcsProperty[] = []) =>
+  writeComponent({
+    name: 'VCALENDAR',
+    properties: [
+      { name: 'VERSION', params: {}, value: '2.0' },
+      { name: 'PRODID', params: {}, value: PRODUCT_ID },
+      { name: 'CALSCALE', params: {}, value: 'GREGORIAN' },
+      ...properties,
+    ],
+    components,
+  }).map(foldLine).join('\r\n') + '\r\n';
+
+// Splits on the separators found outside double quotes, such as the `:` of a quoted parameter value
+const splitOutsideQuotes = (text: string, separator: string) => {
+  const parts: string[] = [];
+  let part = '';
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      parts.push(part);
+      part = '';
+    } else {
+      part += char;
+    }
+  }
+  parts.push(part);
+  return parts;
+};
+
+const parseLine = (line: string): IcsProperty | null => {
+  const [head, ...rest] = splitOutsideQuotes(line, ':');
+  if (rest.length === 0) return null;
+  const [name, ...params] = splitOutsideQuotes(head, ';');
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(params.map((param) => {
+      const [key, ...value] = param.split('=');
+      return [key.toUpperCase(), value.join('=').replace(/^"|"$/g, '')];
+    })),
+    value: rest.join(':'),
+  };
+};
+
+// Returns the VCALENDAR components of the file
+export const parseIcs = (text: string): IcsComponent[] => {
+  const lines = text.replace(/^\uFEFF/, '').replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const calendars: IcsComponent[] = [];
+  const stack: IcsComponent[] = [];
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const property = parseLine(line);
+    if (!property) {
+      throw new IcsError('Invalid iCalendar file');
+    }
+
+    if (property.name === 'BEGIN') {
+      const component = { name: property.value.toUpperCase(), properties: [], components: [] };
+      if (stack.length > 0) stack[stack.length - 1].components.push(component);
+      else if (component.name === 'VCALENDAR') calendars.push(component);
+      else throw new IcsError('Invalid iCalendar file');
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.pop()?.name !== property.value.toUpperCase()) {
+        throw new IcsError('Invalid iCalendar file');
+      }
+    } else if (stack.length > 0) {
+      stack[stack.length - 1].properties.push(property);
+    }
+  }
+
+  if (calendars.length === 0 || stack.length > 0) {
+    throw new IcsError('Invalid iCalendar file');
+  }
+  return calendars;
+};
+
+export const findIcsComponents = (calendars: IcsComponent[], names: string[]) =>
+  calendars.flatMap((calendar) => calendar.components.filter((component) => names.includes(component.name)));
+
+export const getIcsProperty = (component: IcsComponent, name: string) =>
+  component.properties.find((property) => property.name === name);
+
+export const getIcsText = (component: IcsComponent, name: string) => {
+  const property = getIcsProperty(component, name);
+  return property ? unescapeIcsText(property.value) : undefined;
+};
+
+// `CATEGORIES` may be repeated and holds a list separated by commas
+export const getIcsTextList = (component: IcsComponent, name: string) =>
+  component.properties
+    .filter((property) => property.name === name)
+    .flatMap((property) => property.value.split(/(?<!\\),/))
+    .map((value) => unescapeIcsText(value).trim())
+    .filter(Boolean);
+
+// Offset of a time zone at an instant, in milliseconds
+const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find((entry) => entry.type === type)?.value);
+  const wallTime = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallTime - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Time zones unknown to the runtime, such as Windows names, are read in local time
+const zonedTimeToDate = (fields: number[], timeZone: string) => {
+  const [year, month, day, hours, minutes, seconds] = fields;
+  const wallTime = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  try {
+    const guess = wallTime - getTimeZoneOffset(new Date(wallTime), timeZone);
+    // The offset at the guess is the right one, unless a daylight saving change lies between them
+    return new Date(wallTime - getTimeZoneOffset(new Date(guess), timeZone));
+  } catch (error) {
+    return new Date(year, month - 1, day, hours, minutes, seconds);
+  }
+};
+
+// `allDay` is true for DATE values, which are returned as local midnight
+export const getIcsDate = (component: IcsComponent, name: string): { date: Date; allDay: boolean } | null => {
+  const property = getIcsProperty(component, name);
+  const match = property?.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!property || !match) return null;
+
+  const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map((value) => Number(value || 0));
+  if (match[4] === undefined || property.params.VALUE === 'DATE') {
+    return { date: new Date(year, month - 1, day), allDay: true };
+  }
+
+  const fields = [year, month, day, hours, minutes, seconds];
+  let date: Date;
+  if (match[7]) {
+    date = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+  } else if (property.params.TZID) {
+    date = zonedTimeToDate(fields, property.params.TZID);
+  } else {
+    date = new Date(year, month - 1, day, hours, minutes, seconds);
+  }
+  return isNaN(date.getTime()) ? null : { date, allDay: false };
+};
+
+/**
+ * Writes the `RRULE` of a recurrence rule. `allDay` tells whether the start of the component is a DATE, since the
+ * end date (`UNTIL`) must be of the same type: date-times end at the last second of the local end date.
+ */
+export const toRRule = (rule: RecurrenceRule, allDay: boolean) => {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    parts.push(`BYDAY=${rule.weekdays.map((day) => WEEKDAYS[day]).join(',')}`);
+  }
+  if (rule.frequency === 'monthly' && rule.nthWeekday) {
+    parts.push(`BYDAY=${rule.nthWeekday.nth}${WEEKDAYS[rule.nthWeekday.weekday]}`);
+  } else if (rule.frequency === 'monthly' && rule.monthDay) {
+    parts.push(`BYMONTHDAY=${rule.monthDay}`);
+  }
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    const [year, month, day] = rule.until.split('-').map(Number);
+    const until = new Date(year, month - 1, day, 23, 59, 59);
+    parts.push(`UNTIL=${allDay ? formatIcsDate(until) : formatIcsDateTime(until)}`);
+  }
+  return parts.join(';');
+};
+
+const SUPPORTED_RRULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'COUNT', 'UNTIL', 'WKST'];
+
+/**
+ * Reads an `RRULE` into a recurrence rule, to be checked by `parseRecurrence`. Parts left out by the rule are taken
+ * from `start`, as calendar apps do: the weekday of weekly rules and the day of monthly rules.
+ */
+export const fromRRule = (value: string, start: Date): Record<string, unknown> => {
+  const parts = Object.fromEntries(value.split(';').map((part) => {
+    const [key, ...rest] = part.split('=');
+    return [key.toUpperCase(), rest.join('=').toUpperCase()];
+  }));
+  const frequency = parts.FREQ?.toLowerCase();
+  if (Object.keys(parts).some((key) => !SUPPORTED_RRULE_PARTS.includes(key)) || !frequency) {
+    throw new RecurrenceError('Unsupported recurrence rule');
+  }
+
+  const rule: Record<string, unknown> = { frequency, interval: parts.INTERVAL ? Number(parts.INTERVAL) : 1 };
+  const matches = parts.BYDAY ? parts.BYDAY.split(',').map((day) => day.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/)) : [];
+  if (matches.some((day) => !day)) {
+    throw new RecurrenceError('Unsupported recurrence rule');
+  }
+  const days = matches as RegExpMatchArray[];
+
+  if (frequency === 'weekly') {
+    rule.weekdays = days.length
+      ? days.map((day) => WEEKDAYS.indexOf(day[2]))
+      : [start.getDay()];
+  } else if (frequency === 'monthly') {
+    if (days.length === 1 && days[0][1]) {
+      rule.nthWeekday = { nth: Number(days[0][1]), weekday: WEEKDAYS.indexOf(days[0][2]) };
+    } else if (days.length > 0) {
+      throw new RecurrenceError('Unsupported recurrence rule');
+    } else {
+      rule.monthDay = parts.BYMONTHDAY ? Number(parts.BYMONTHDAY) : start.getDate();
+    }
+  } else if (days.length > 0 || parts.BYMONTHDAY) {
+    throw new RecurrenceError('Unsupported recurrence rule');
+  }
+
+  if (parts.COUNT) rule.count = Number(parts.COUNT);
+  if (parts.UNTIL) {
+    const match = parts.UNTIL.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) {
+      throw new RecurrenceError('Invalid recurrence end date');
+    }
+    // A UTC end is turned into the local date it falls on
+    const until = match[7]
+      ? new Date(Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +match[6]))
+      : new Date(+match[1], +match[2] - 1, +match[3]);
+    rule.until = `${until.getFullYear()}-${pad(until.getMonth() + 1)}-${pad(until.getDate())}`;
+  }
+  return rule;
+};
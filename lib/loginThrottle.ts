@@ -0,0 +1,142 @@
+//
+/**
+ * lib/loginThrottle.ts
+ * Slows down password guessing on `/api/auth/login`, on the code step of `/api/auth/two-factor` and on the
+ * password asked again by `/api/users/password`, `/api/users/email` and `/api/users/delete`, and repeated password
+ * reset requests on `/api/auth/forgot-password` and verification requests on `/api/auth/resend-verification`.
+ *
+ * Failed attempts are counted per email and per IP address in the `loginThrottles` collection. After a few
+ * failures every new one makes the next attempt wait twice as long (1 s, 2 s, 4 s, ...), and past a limit the
+ * email or address is locked out for `LOCKOUT_MINUTES`. Counters are deleted by a TTL index once
+ * `THROTTLE_WINDOW_MINUTES` pass without a failure, and the email counter is reset by a successful login.
+ * Emails without an account are counted like the others, so the responses do not tell them apart. Password reset
+ * and email verification requests have counters of their own (the `password_reset` and `email_verification`
+ * scopes), where every request counts, so asking for links does not lock the user out of logging in.
+ *
+ * Failures on an existing account are also stored in `loginAttempts` for `LOGIN_ATTEMPT_RETENTION_DAYS`, where the
+ * owner can review them from the profile page.
+ *
+ * It includes:
+ * - `checkLoginThrottle`: Returns how many seconds a login for an email, from the address of a request, must wait.
+ * - `countThrottledAttempt`: Counts an attempt for the email and the address, and delays the next one once past the limits.
+ * - `recordLoginFailure`: Counts a failure for the email and the address, and stores it for the account owner.
+ * - `clearLoginFailures`: Resets the counter of an email after a successful login.
+ * - `listLoginAttempts`: Lists the recent failed attempts on an account.
+ * - `tooManyAttempts`: The 429 `TOO_MANY_ATTEMPTS` error thrown while a login must wait, with `retryAfter` (seconds).
+ */
+
+import { Db, ObjectId } from 'mongodb';
+import {
+  createLoginAttempt,
+  ILoginAttempt,
+  ILoginThrottle,
+  LoginFailureReason,
+  THROTTLE_WINDOW_MINUTES,
+} from '@/models/LoginAttempt';
+import { getClientIp } from '@/lib/sessions';
+import { ApiError } from '@/lib/apiError';
+
+export const LOCKOUT_MINUTES = 15;
+
+export type ThrottleScope = 'login' | 'password_reset' | 'email_verification';
+
+// Failures allowed before the backoff starts, and before the lockout. An address is shared by everyone
+// behind the same network, so it gets more room than an email.
+const LIMITS = {
+  account: { backoffAfter: 3, lockoutAfter: 10 },
+  ip: { backoffAfter: 10, lockoutAfter: 50 },
+};
+
+const LOGIN_ATTEMPT_LIST_LIMIT = 50;
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Login counters keep their original keys; other scopes prefix theirs with the scope
+const getThrottleKeys = (email: string, req: Request, scope: ThrottleScope) => {
+  const ip = getClientIp(req);
+  const prefix = scope === 'login' ? '' : `${scope}:`;
+  return [
+    { key: `${prefix}account:${normalizeEmail(email)}`, limits: LIMITS.account },
+    ...(ip ? [{ key: `${prefix}ip:${ip}`, limits: LIMITS.ip }] : []),
+  ];
+};
+
+// Seconds to wait after a given number of failures
+const getDelaySeconds = (failures: number, limits: { backoffAfter: number; lockoutAfter: number }) => {
+  if (failures >= limits.lockoutAfter) return LOCKOUT_MINUTES * 60;
+  if (failures < limits.backoffAfter) return 0;
+  return 2 ** (failures - limits.backoffAfter);
+};
+
+let indexesCreated: Promise<unknown> | null = null;
+
+// The TTL indexes are created once per server process, on the first failure
+const ensureIndexes = (db: Db) => {
+  if (!indexesCreated) {
+    indexesCreated = Promise.all([
+      db.collection<ILoginThrottle>('loginThrottles').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+      db.collection<ILoginAttempt>('loginAttempts').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+      db.collection<ILoginAttempt>('loginAttempts').createIndex({ userId: 1, createdAt: -1 }),
+    ]).catch((error) => {
+      indexesCreated = null;
+      throw error;
+    });
+  }
+  return indexesCreated;
+};
+
+export const checkLoginThrottle = async (db: Db, email: string, req: Request, scope: ThrottleScope = 'login') => {
+  const keys = getThrottleKeys(email, req, scope).map(({ key }) => key);
+  const throttles = await db.collection<ILoginThrottle>('loginThrottles')
+    .find({ _id: { $in: keys }, lockedUntil: { $gt: new Date() } })
+    .toArray();
+
+  const waitMs = Math.max(0, ...throttles.map((throttle) => throttle.lockedUntil.getTime() - Date.now()));
+  return Math.ceil(waitMs / 1000);
+};
+
+export const countThrottledAttempt = async (db: Db, email: string, req: Request, scope: ThrottleScope = 'login') => {
+  await ensureIndexes(db);
+  const throttles = db.collection<ILoginThrottle>('loginThrottles');
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + THROTTLE_WINDOW_MINUTES * 60 * 1000);
+
+  for (const { key, limits } of getThrottleKeys(email, req, scope)) {
+    const throttle = await throttles.findOneAndUpdate(
+      { _id: key },
+      { $inc: { failures: 1 }, $set: { lastFailureAt: now, expiresAt } },
+      { upsert: true, returnDocument: 'after' }
+    );
+    const lockedUntil = new Date(now.getTime() + getDelaySeconds(throttle?.failures || 1, limits) * 1000);
+    await throttles.updateOne({ _id: key }, { $set: { lockedUntil } });
+  }
+};
+
+export const recordLoginFailure = async (
+  db: Db,
+  { email, userId, reason, req }: { email: string; userId?: ObjectId; reason: LoginFailureReason; req: Request }
+) => {
+  await countThrottledAttempt(db, email, req);
+
+  if (userId) {
+    await db.collection<ILoginAttempt>('loginAttempts').insertOne(createLoginAttempt({
+      userId,
+      reason,
+      ip: getClientIp(req),
+      userAgent: req.headers.get('user-agent') || undefined,
+    }));
+  }
+};
+
+export const clearLoginFailures = async (db: Db, email: string) => {
+  await db.collection<ILoginThrottle>('loginThrottles').deleteOne({ _id: `account:${normalizeEmail(email)}` });
+};
+
+export const listLoginAttempts = (db: Db, userId: ObjectId) =>
+  db.collection<ILoginAttempt>('loginAttempts')
+    .find({ userId }, { projection: { reason: 1, ip: 1, userAgent: 1, createdAt: 1 } })
+    .sort({ createdAt: -1 })
+    .limit(LOGIN_ATTEMPT_LIST_LIMIT)
+    .toArray();
+
+export const tooManyAttempts = (retryAfter: number) => new ApiError('TOO_MANY_ATTEMPTS', undefined, { retryAfter });
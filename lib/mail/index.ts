@@ -0,0 +1,65 @@
+//
+/**
+ * lib/mail/index.ts
+ * Sends email through the transport selected by the `MAIL_TRANSPORT` environment variable.
+ *
+ * Transports:
+ * - `file` (default): Writes `.eml` files to `MAIL_OUTBOX_DIR` (defaults to `.mail-outbox`), so the app runs offline.
+ * - `console`: Prints messages to the server console.
+ * - `smtp`: Sends through `SMTP_HOST` / `SMTP_PORT`, with `SMTP_SECURE=true` for implicit TLS and optional
+ *   `SMTP_USER` / `SMTP_PASSWORD`, which are only sent once the connection is encrypted.
+ *
+ * Messages are sent from `MAIL_FROM`. Other transports only need to implement `MailTransport`;
+ * `setMailTransport` replaces the configured one.
+ *
+ * @throws Error - When `MAIL_TRANSPORT` is unknown or `MAIL_TRANSPORT=smtp` is set without `SMTP_HOST`.
+ */
+
+import { MailMessage, MailTransport } from '@/lib/mail/types';
+import { createConsoleTransport, createFileTransport } from '@/lib/mail/localTransports';
+import { createSmtpTransport } from '@/lib/mail/smtpTransport';
+
+export type { MailMessage, MailTransport } from '@/lib/mail/types';
+
+const DEFAULT_FROM = 'Personal Task Tracker <no-reply@localhost>';
+
+let transport: MailTransport | null = null;
+
+const createTransportFromEnv = (): MailTransport => {
+  const from = process.env.MAIL_FROM || DEFAULT_FROM;
+  const kind = process.env.MAIL_TRANSPORT || 'file';
+
+  switch (kind) {
+    case 'file':
+      return createFileTransport(process.env.MAIL_OUTBOX_DIR || '.mail-outbox', from);
+    case 'console':
+      return createConsoleTransport(from);
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is not defined');
+      }
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from,
+      });
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${kind}`);
+  }
+};
+
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    transport = createTransportFromEnv();
+  }
+  return transport;
+};
+
+export const setMailTransport = (customTransport: MailTransport | null) => {
+  transport = customTransport;
+};
+
+export const sendMail = (message: MailMessage) => getMailTransport().send(message);
@@ -0,0 +1,29 @@
+//
+/**
+ * lib/mail/localTransports.ts
+ * Transports that keep messages on the machine running the app, so mail works offline and in development.
+ *
+ * It includes:
+ * - `createFileTransport`: Writes each message as an `.eml` file, which any mail client can open.
+ * - `createConsoleTransport`: Prints each message to the server console.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { MailMessage, MailTransport } from '@/lib/mail/types';
+import { buildMimeMessage } from '@/lib/mail/mime';
+
+export const createFileTransport = (directory: string, from: string): MailTransport => ({
+  async send(message: MailMessage) {
+    await mkdir(directory, { recursive: true });
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipient}.eml`;
+    await writeFile(path.join(directory, fileName), buildMimeMessage(message, from), 'utf8');
+  },
+});
+
+export const createConsoleTransport = (from: string): MailTransport => ({
+  async send(message: MailMessage) {
+    console.log(`[mail] From: ${from}\n[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}`);
+  },
+});
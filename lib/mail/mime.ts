@@ -0,0 +1,57 @@
+//
+/**
+ * lib/mail/mime.ts
+ * Builds the raw text of an email (RFC 5322 with MIME), shared by the SMTP and file transports.
+ *
+ * Bodies are base64 encoded, which keeps lines short and avoids any line starting with a dot,
+ * so the result can be sent over SMTP as is. Messages with an HTML body are sent as
+ * `multipart/alternative` with the plain text version first.
+ */
+
+import { randomBytes } from 'crypto';
+import { MailMessage } from '@/lib/mail/types';
+
+// Non-ASCII header values use the MIME encoded-word syntax
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const encodeBody = (body: string) =>
+  (Buffer.from(body, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+
+const textPart = (contentType: string, body: string) =>
+  [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(body),
+  ].join('\r\n');
+
+export const getAddress = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] || mailbox.trim();
+
+export const buildMimeMessage = (message: MailMessage, from: string, date = new Date()): string => {
+  const domain = getAddress(from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    return [...headers, textPart('text/plain', message.text)].join('\r\n');
+  }
+
+  const boundary = `boundary-${randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    textPart('text/plain', message.text),
+    `--${boundary}`,
+    textPart('text/html', message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+};
@@ -0,0 +1,133 @@
+//
+/**
+ * lib/mail/smtpTransport.ts
+ * Minimal SMTP client used when `MAIL_TRANSPORT=smtp`.
+ *
+ * Opens one connection per message: greeting, `EHLO`, `STARTTLS` when the server offers it on a plain
+ * connection, `AUTH PLAIN` when credentials are configured, then `MAIL FROM`, `RCPT TO` and `DATA`.
+ * Use `secure: true` for servers that expect TLS from the start (usually port 465). Credentials are only sent over
+ * TLS, so a server without `STARTTLS` on a plain connection is refused when they are configured.
+ *
+ * @throws Error - When the server answers a command with an unexpected code; the message holds its reply.
+ * @throws Error - When credentials are configured and the connection cannot be encrypted.
+ */
+
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { MailMessage, MailTransport } from '@/lib/mail/types';
+import { buildMimeMessage, getAddress } from '@/lib/mail/mime';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+const TIMEOUT_MS = 15 * 1000;
+
+// Resolves with the next complete reply; multi-line replies end with a "250 " style line
+const readReply = (socket: net.Socket): Promise<SmtpReply> =>
+  new Promise((resolve, reject) => {
+    let data = '';
+
+    const cleanup = () => {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    };
+    const onData = (chunk: Buffer) => {
+      data += chunk.toString('utf8');
+      const lines = data.split('\r\n').filter(Boolean);
+      const last = lines[lines.length - 1];
+      if (data.endsWith('\r\n') && /^\d{3}( |$)/.test(last)) {
+        cleanup();
+        resolve({ code: Number(last.slice(0, 3)), message: lines.join('\n') });
+      }
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error('SMTP connection closed'));
+    };
+
+    socket.on('data', onData);
+    socket.on('error', onError);
+    socket.on('close', onClose);
+  });
+
+const expectReply = async (reply: Promise<SmtpReply>, expected: number[]) => {
+  const { code, message } = await reply;
+  if (!expected.includes(code)) {
+    throw new Error(`SMTP error: ${message}`);
+  }
+  return message;
+};
+
+const command = (socket: net.Socket, line: string, expected: number[]) => {
+  const reply = readReply(socket);
+  socket.write(`${line}\r\n`);
+  return expectReply(reply, expected);
+};
+
+const connect = (options: SmtpOptions) => {
+  const socket = options.secure
+    ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+    : net.connect({ host: options.host, port: options.port });
+  socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+  return { socket, greeting: readReply(socket) };
+};
+
+const upgradeToTls = (socket: net.Socket, host: string): Promise<tls.TLSSocket> =>
+  new Promise((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: host }, () => resolve(secureSocket));
+    secureSocket.once('error', reject);
+  });
+
+export const createSmtpTransport = (options: SmtpOptions): MailTransport => ({
+  async send(message: MailMessage) {
+    const connection = connect(options);
+    let socket: net.Socket = connection.socket;
+    let encrypted = options.secure;
+
+    try {
+      await expectReply(connection.greeting, [220]);
+      const hostname = os.hostname();
+      const capabilities = await command(socket, `EHLO ${hostname}`, [250]);
+
+      if (!options.secure && /STARTTLS/i.test(capabilities)) {
+        await command(socket, 'STARTTLS', [220]);
+        socket = await upgradeToTls(socket, options.host);
+        encrypted = true;
+        await command(socket, `EHLO ${hostname}`, [250]);
+      }
+
+      if (options.user) {
+        if (!encrypted) {
+          throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials over a plain connection');
+        }
+        const credentials = Buffer.from(`\0${options.user}\0${options.password || ''}`, 'utf8').toString('base64');
+        await command(socket, `AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await command(socket, `MAIL FROM:<${getAddress(options.from)}>`, [250]);
+      await command(socket, `RCPT TO:<${getAddress(message.to)}>`, [250, 251]);
+      await command(socket, 'DATA', [354]);
+      await command(socket, `${buildMimeMessage(message, options.from)}\r\n.`, [250]);
+      await command(socket, 'QUIT', [221]).catch(() => undefined);
+    } finally {
+      socket.destroy();
+    }
+  },
+});
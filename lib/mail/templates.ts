@@ -0,0 +1,99 @@
+//
+/**
+ * lib/mail/templates.ts
+ * Builds the emails sent by the app.
+ *
+ * Links point to `APP_URL`, never to the origin of a request: its `Host` header is chosen by the client, so a forged
+ * one would send password reset and verification links to another site. Outside production `APP_URL` defaults to
+ * the local development server; in production building a link without it throws.
+ *
+ * It includes:
+ * - `getAppUrl`: Resolves the base URL used in links, throwing in production when `APP_URL` is not set.
+ * - `passwordResetEmail`: The message with the one-time password reset link.
+ * - `emailVerificationEmail`: The message with the link confirming the address of an account.
+ * - `accountDeletionEmail`: The notice that an account will be deleted, with the link to log in and restore it.
+ */
+
+import { MailMessage } from '@/lib/mail/types';
+
+const DEVELOPMENT_APP_URL = 'http://localhost:3000';
+
+export const getAppUrl = () => {
+  const appUrl = process.env.APP_URL || (process.env.NODE_ENV === 'production' ? null : DEVELOPMENT_APP_URL);
+  if (!appUrl) {
+    throw new Error('APP_URL is not defined');
+  }
+  return appUrl.replace(/\/$/, '');
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+export const passwordResetEmail = (to: string, username: string, link: string, expiresInMinutes: number): MailMessage => ({
+  to,
+  subject: 'Reset your password',
+  text: [
+    `Hi ${username},`,
+    '',
+    'We received a request to reset the password of your Personal Task Tracker account.',
+    `Open this link within ${expiresInMinutes} minutes to choose a new password:`,
+    '',
+    link,
+    '',
+    'The link works once. If you did not ask for a new password, you can ignore this email.',
+  ].join('\n'),
+  html: [
+    `<p>Hi ${escapeHtml(username)},</p>`,
+    '<p>We received a request to reset the password of your Personal Task Tracker account.</p>',
+    `<p>Open this link within ${expiresInMinutes} minutes to choose a new password:</p>`,
+    `<p><a href="${escapeHtml(link)}">Reset my password</a></p>`,
+    '<p>The link works once. If you did not ask for a new password, you can ignore this email.</p>',
+  ].join('\n'),
+});
+
+export const emailVerificationEmail = (to: string, username: string, link: string, expiresInHours: number): MailMessage => ({
+  to,
+  subject: 'Confirm your email address',
+  text: [
+    `Hi ${username},`,
+    '',
+    'Please confirm that this is the email address of your Personal Task Tracker account.',
+    `Open this link within ${expiresInHours} hours:`,
+    '',
+    link,
+    '',
+    'If you did not create an account, you can ignore this email.',
+  ].join('\n'),
+  html: [
+    `<p>Hi ${escapeHtml(username)},</p>`,
+    '<p>Please confirm that this is the email address of your Personal Task Tracker account.</p>',
+    `<p>Open this link within ${expiresInHours} hours:</p>`,
+    `<p><a href="${escapeHtml(link)}">Confirm my email</a></p>`,
+    '<p>If you did not create an account, you can ignore this email.</p>',
+  ].join('\n'),
+});
+
+export const accountDeletionEmail = (to: string, username: string, link: string, deletionDate: Date): MailMessage => {
+  const date = deletionDate.toUTCString();
+  return {
+    to,
+    subject: 'Your account will be deleted',
+    text: [
+      `Hi ${username},`,
+      '',
+      `Your Personal Task Tracker account and all of its data will be deleted on ${date}.`,
+      'To keep your account, log in before that date and choose to restore it:',
+      '',
+      link,
+      '',
+      'If you did not ask for this, log in and restore your account, then change your password.',
+    ].join('\n'),
+    html: [
+      `<p>Hi ${escapeHtml(username)},</p>`,
+      `<p>Your Personal Task Tracker account and all of its data will be deleted on ${escapeHtml(date)}.</p>`,
+      '<p>To keep your account, log in before that date and choose to restore it:</p>',
+      `<p><a href="${escapeHtml(link)}">Log in</a></p>`,
+      '<p>If you did not ask for this, log in and restore your account, then change your password.</p>',
+    ].join('\n'),
+  };
+};
@@ -0,0 +1,19 @@
+//
+/**
+ * lib/mail/types.ts
+ * Type definitions shared by the mail transports.
+ *
+ * @interface MailMessage - A message to a single recipient, with a plain text body and an optional HTML body.
+ * @interface MailTransport - Delivers messages; see `lib/mail/index.ts` for the available transports.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
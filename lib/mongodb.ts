@@ -6,13 +6,14 @@
  * This module initializes a singleton MongoDB client and connects to the database.
  * The connection is maintained globally in development to prevent creating multiple
  * client instances during hot reloads. It exports a `dbConnect` function to retrieve
- * the database instance, which can be used across the application for database operations.
+ * the database instance, which can be used across the application for database operations,
+ * and `runInTransaction` to apply several writes together. Transactions need a replica set.
  * 
  * @returns The database instance connected to MongoDB.
  * @throws Error - If `MONGODB_URI` is missing in the environment configuration.
  */
 
-import { MongoClient } from 'mongodb';
+import { ClientSession, MongoClient } from 'mongodb';
 
 declare global {
   var _mongoClientPromise: Promise<MongoClient>;
@@ -37,4 +38,15 @@ async function dbConnect() {
   return client.db();
 }
 
+// Runs `fn` in a transaction, which the driver retries on transient errors; `fn` passes `session` to every operation
+export async function runInTransaction<T>(fn: (session: ClientSession) => Promise<T>): Promise<T> {
+  const client = await clientPromise;
+  const session = client.startSession();
+  try {
+    return await session.withTransaction(fn);
+  } finally {
+    await session.endSession();
+  }
+}
+
 export default dbConnect;
@@ -0,0 +1,348 @@
+//
+/**
+ * lib/qrCode.ts
+ * QR code encoder used to show the two-factor setup link (`otpauth://`) to authenticator apps.
+ *
+ * Encodes text as UTF-8 in byte mode with error correction level M, in the smallest version (1 to 40)
+ * that fits, and picks the mask with the lowest penalty score, following ISO/IEC 18004. It runs in the
+ * browser, so the secret never leaves the page to be rendered elsewhere.
+ *
+ * It includes:
+ * - `encodeQrCode`: Returns the modules of the symbol as rows of booleans (true for dark modules),
+ *   without the quiet zone.
+ *
+ * @throws Error - When the text is too long for a version 40 symbol.
+ */
+
+// Error correction level M: codewords per block and number of blocks, indexed by version
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+];
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+];
+const ECC_FORMAT_BITS = 0; // Level M
+
+const PENALTY_N1 = 3;
+const PENALTY_N2 = 3;
+const PENALTY_N3 = 40;
+const PENALTY_N4 = 10;
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+// Data and error correction modules of a symbol, once the function patterns are placed
+const getNumRawDataModules = (version: number) => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const getNumDataCodewords = (version: number) =>
+  Math.floor(getNumRawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[version] * NUM_ERROR_CORRECTION_BLOCKS[version];
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number) => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]) => {
+  const result = divisor.map(() => 0);
+  data.forEach((byte) => {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  });
+  return result;
+};
+
+// Splits the data into blocks, adds their error correction codewords and interleaves them
+const addEccAndInterleave = (data: number[], version: number) => {
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[version];
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version];
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks);
+  const divisor = reedSolomonDivisor(blockEccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < numBlocks; i++) {
+    const length = shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < numShortBlocks) block.push(0); // Placeholder so every block has the same length
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+};
+
+const getAlignmentPositions = (version: number, size: number) => {
+  if (version === 1) return [];
+  const numAlign = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (numAlign * 2 - 2)) * 2;
+  const result = [6];
+  for (let position = size - 7; result.length < numAlign; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+};
+
+const buildSegmentBits = (bytes: Uint8Array, version: number) => {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4); // Byte mode
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+  return bits;
+};
+
+export const encodeQrCode = (text: string): boolean[][] => {
+  const bytes = new TextEncoder().encode(text);
+
+  let version = 1;
+  let bits = buildSegmentBits(bytes, version);
+  while (bits.length > getNumDataCodewords(version) * 8) {
+    version++;
+    if (version > 40) {
+      throw new Error('Text too long for a QR code');
+    }
+    bits = buildSegmentBits(bytes, version);
+  }
+
+  // Terminator, padding to a whole byte, then alternating pad bytes
+  const capacity = getNumDataCodewords(version) * 8;
+  bits.push(...new Array<number>(Math.min(4, capacity - bits.length)).fill(0));
+  bits.push(...new Array<number>((8 - (bits.length % 8)) % 8).fill(0));
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad);
+  }
+
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+
+  const setFunctionModule = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  const drawFormatBits = (mask: number) => {
+    const data = (ECC_FORMAT_BITS << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const formatBits = ((data << 10) | remainder) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) setFunctionModule(8, i, getBit(formatBits, i));
+    setFunctionModule(8, 7, getBit(formatBits, 6));
+    setFunctionModule(8, 8, getBit(formatBits, 7));
+    setFunctionModule(7, 8, getBit(formatBits, 8));
+    for (let i = 9; i < 15; i++) setFunctionModule(14 - i, 8, getBit(formatBits, i));
+
+    for (let i = 0; i < 8; i++) setFunctionModule(size - 1 - i, 8, getBit(formatBits, i));
+    for (let i = 8; i < 15; i++) setFunctionModule(8, size - 15 + i, getBit(formatBits, i));
+    setFunctionModule(8, size - 8, true); // Always dark
+  };
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunctionModule(6, i, i % 2 === 0);
+    setFunctionModule(i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([x, y]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x + dx >= 0 && x + dx < size && y + dy >= 0 && y + dy < size) {
+          setFunctionModule(x + dx, y + dy, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  });
+
+  // Alignment patterns, except where they would overlap the finder patterns
+  const alignment = getAlignmentPositions(version, size);
+  alignment.forEach((y, i) => {
+    alignment.forEach((x, j) => {
+      const last = alignment.length - 1;
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  // Reserve the format areas before placing the data
+  drawFormatBits(0);
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const versionBits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = getBit(versionBits, i);
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunctionModule(a, b, dark);
+      setFunctionModule(b, a, dark);
+    }
+  }
+
+  // Data modules, in two-column strips zigzagging from the bottom right corner
+  const data = addEccAndInterleave(codewords, version);
+  let bitIndex = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5; // Skip the vertical timing pattern
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!isFunction[y][x] && bitIndex < data.length * 8) {
+          modules[y][x] = getBit(data[bitIndex >>> 3], 7 - (bitIndex & 7));
+          bitIndex++;
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        let invert: boolean;
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break;
+          case 1: invert = y % 2 === 0; break;
+          case 2: invert = x % 3 === 0; break;
+          case 3: invert = (x + y) % 3 === 0; break;
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break;
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break;
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break;
+        }
+        if (!isFunction[y][x] && invert) modules[y][x] = !modules[y][x];
+      }
+    }
+  };
+
+  // Counts the 1:1:3:1:1 runs (finder-like patterns) ending the run history, with light space on one side
+  const countFinderPatterns = (history: number[]) => {
+    const n = history[1];
+    const core = n > 0 && history[2] === n && history[3] === n * 3 && history[4] === n && history[5] === n;
+    return (core && history[0] >= n * 4 && history[6] >= n ? 1 : 0) + (core && history[6] >= n * 4 && history[0] >= n ? 1 : 0);
+  };
+
+  const addRunToHistory = (runLength: number, history: number[]) => {
+    // The first run of a line includes the light border around the symbol
+    const length = history[0] === 0 ? runLength + size : runLength;
+    history.pop();
+    history.unshift(length);
+  };
+
+  const getPenaltyScore = () => {
+    let result = 0;
+    const scanLine = (getModule: (i: number) => boolean) => {
+      let runColor = false;
+      let runLength = 0;
+      const history = new Array<number>(7).fill(0);
+      for (let i = 0; i < size; i++) {
+        if (getModule(i) === runColor) {
+          runLength++;
+          if (runLength === 5) result += PENALTY_N1;
+          else if (runLength > 5) result++;
+        } else {
+          addRunToHistory(runLength, history);
+          if (!runColor) result += countFinderPatterns(history) * PENALTY_N3;
+          runColor = getModule(i);
+          runLength = 1;
+        }
+      }
+      if (runColor) {
+        addRunToHistory(runLength, history);
+        runLength = 0;
+      }
+      addRunToHistory(runLength + size, history);
+      result += countFinderPatterns(history) * PENALTY_N3;
+    };
+
+    for (let y = 0; y < size; y++) scanLine((x) => modules[y][x]);
+    for (let x = 0; x < size; x++) scanLine((y) => modules[y][x]);
+
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = modules[y][x];
+        if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) {
+          result += PENALTY_N2;
+        }
+      }
+    }
+
+    const dark = modules.reduce((count, row) => count + row.filter(Boolean).length, 0);
+    const total = size * size;
+    result += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * PENALTY_N4;
+    return result;
+  };
+
+  let bestMask = 0;
+  let minPenalty = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    applyMask(mask);
+    drawFormatBits(mask);
+    const penalty = getPenaltyScore();
+    if (penalty < minPenalty) {
+      bestMask = mask;
+      minPenalty = penalty;
+    }
+    applyMask(mask); // Masks are XORs, so applying one again removes it
+  }
+
+  applyMask(bestMask);
+  drawFormatBits(bestMask);
+  return modules;
+};
@@ -0,0 +1,221 @@
+//
+/**
+ * lib/recurrence.ts
+ * Repeat rules for recurring tasks, modelled after iCalendar RRULEs.
+ *
+ * It includes:
+ * - `parseRecurrence`: Validates a rule received by the API and keeps only the fields that apply to its frequency.
+ * - `getNextOccurrence`: Computes the due date of the occurrence that follows a given one.
+ * - `getOccurrencesBetween`: Lists the occurrences of a series that fall inside a date range (used by the calendar).
+ * - `getWeekdayPosition`: Tells which weekday of the month a date is (e.g. the 3rd Tuesday), for the task form.
+ *
+ * Occurrences keep the time of day of the date they are computed from. Like RRULEs, monthly and yearly
+ * rules skip periods where the day does not exist (e.g. the 31st in April, or February 29th in common years).
+ */
+
+import { RecurrenceFrequency, RecurrenceRule } from '@/types/TaskCategoryTypes';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+const MAX_INTERVAL = 999;
+const MAX_PERIODS_SEARCHED = 100; // Months or years searched for a date matching a monthly or yearly rule
+
+export class RecurrenceError extends Error {}
+
+const isIntegerBetween = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+export const parseRecurrence = (input: unknown): RecurrenceRule => {
+  if (!input || typeof input !== 'object') {
+    throw new RecurrenceError('Invalid recurrence rule');
+  }
+
+  const data = input as Record<string, any>;
+  if (!RECURRENCE_FREQUENCIES.includes(data.frequency)) {
+    throw new RecurrenceError('Invalid recurrence frequency');
+  }
+
+  const interval = data.interval ?? 1;
+  if (!isIntegerBetween(interval, 1, MAX_INTERVAL)) {
+    throw new RecurrenceError('Invalid recurrence interval');
+  }
+
+  const rule: RecurrenceRule = { frequency: data.frequency, interval };
+
+  if (rule.frequency === 'weekly') {
+    const weekdays = data.weekdays;
+    if (!Array.isArray(weekdays) || weekdays.length === 0 || weekdays.some((day) => !isIntegerBetween(day, 0, 6))) {
+      throw new RecurrenceError('Weekly recurrence requires at least one weekday');
+    }
+    rule.weekdays = Array.from(new Set<number>(weekdays)).sort((a, b) => a - b);
+  }
+
+  if (rule.frequency === 'monthly') {
+    if (data.nthWeekday) {
+      const { nth, weekday } = data.nthWeekday;
+      if (!(isIntegerBetween(nth, 1, 4) || nth === -1) || !isIntegerBetween(weekday, 0, 6)) {
+        throw new RecurrenceError('Invalid monthly weekday');
+      }
+      rule.nthWeekday = { nth, weekday };
+    } else if (isIntegerBetween(data.monthDay, 1, 31)) {
+      rule.monthDay = data.monthDay;
+    } else {
+      throw new RecurrenceError('Monthly recurrence requires a day of the month or a weekday');
+    }
+  }
+
+  if (data.count !== undefined && data.count !== null) {
+    if (!isIntegerBetween(data.count, 1, MAX_INTERVAL)) {
+      throw new RecurrenceError('Invalid recurrence count');
+    }
+    rule.count = data.count;
+  }
+
+  if (data.until) {
+    if (typeof data.until !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(data.until) || isNaN(new Date(data.until).getTime())) {
+      throw new RecurrenceError('Invalid recurrence end date');
+    }
+    if (rule.count !== undefined) {
+      throw new RecurrenceError('A recurrence can end after a number of occurrences or on a date, not both');
+    }
+    rule.until = data.until;
+  }
+
+  return rule;
+};
+
+// Local YYYY-MM-DD key, used to compare days regardless of the time of day
+const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+const withTimeOf = (date: Date, source: Date) => {
+  const result = new Date(date);
+  result.setHours(source.getHours(), source.getMinutes(), source.getSeconds(), source.getMilliseconds());
+  return result;
+};
+
+// Returns the nth (or last, for -1) weekday of a month, or null when the month has no such day
+const getNthWeekdayOfMonth = (year: number, month: number, nth: number, weekday: number): Date | null => {
+  if (nth === -1) {
+    const last = new Date(year, month, daysInMonth(year, month));
+    last.setDate(last.getDate() - ((last.getDay() - weekday + 7) % 7));
+    return last;
+  }
+  const first = new Date(year, month, 1);
+  const day = 1 + ((weekday - first.getDay() + 7) % 7) + (nth - 1) * 7;
+  return day <= daysInMonth(year, month) ? new Date(year, month, day) : null;
+};
+
+export const getWeekdayPosition = (date: Date): { nth: number; weekday: number; isLast: boolean } => ({
+  nth: Math.ceil(date.getDate() / 7),
+  weekday: date.getDay(),
+  isLast: date.getDate() + 7 > daysInMonth(date.getFullYear(), date.getMonth()),
+});
+
+const startOfWeek = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+
+const getNextCandidate = (rule: RecurrenceRule, current: Date): Date | null => {
+  const interval = rule.interval || 1;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return new Date(current.getFullYear(), current.getMonth(), current.getDate() + interval);
+
+    case 'weekly': {
+      const weekdays = rule.weekdays?.length ? rule.weekdays : [current.getDay()];
+      const currentWeek = startOfWeek(current).getTime();
+      // Look through the rest of this week and the next active week
+      for (let offset = 1; offset <= 7 * interval + 7; offset++) {
+        const candidate = new Date(current.getFullYear(), current.getMonth(), current.getDate() + offset);
+        const weeksApart = Math.round((startOfWeek(candidate).getTime() - currentWeek) / (7 * 24 * 60 * 60 * 1000));
+        if (weekdays.includes(candidate.getDay()) && weeksApart % interval === 0) {
+          return candidate;
+        }
+      }
+      return null;
+    }
+
+    case 'monthly': {
+      for (let period = 0; period <= MAX_PERIODS_SEARCHED; period += interval) {
+        const year = current.getFullYear();
+        const month = current.getMonth() + period;
+        let candidate: Date | null;
+        if (rule.nthWeekday) {
+          candidate = getNthWeekdayOfMonth(year, month, rule.nthWeekday.nth, rule.nthWeekday.weekday);
+        } else {
+          const monthDay = rule.monthDay ?? current.getDate();
+          const monthStart = new Date(year, month, 1);
+          candidate = monthDay <= daysInMonth(monthStart.getFullYear(), monthStart.getMonth())
+            ? new Date(monthStart.getFullYear(), monthStart.getMonth(), monthDay)
+            : null;
+        }
+        if (candidate && toDayKey(candidate) > toDayKey(current)) {
+          return candidate;
+        }
+      }
+      return null;
+    }
+
+    case 'yearly': {
+      for (let period = interval; period <= MAX_PERIODS_SEARCHED; period += interval) {
+        const year = current.getFullYear() + period;
+        if (current.getDate() <= daysInMonth(year, current.getMonth())) {
+          return new Date(year, current.getMonth(), current.getDate());
+        }
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+};
+
+/**
+ * Computes the occurrence following `current`, which is occurrence number `occurrence` (1-based) of the series.
+ * Returns null when the series has ended.
+ */
+export const getNextOccurrence = (rule: RecurrenceRule, current: Date, occurrence = 1): Date | null => {
+  if (rule.count !== undefined && occurrence >= rule.count) {
+    return null;
+  }
+
+  const candidate = getNextCandidate(rule, current);
+  if (!candidate) return null;
+
+  const next = withTimeOf(candidate, current);
+  if (rule.until && toDayKey(next) > rule.until) {
+    return null;
+  }
+  return next;
+};
+
+/**
+ * Lists the occurrences after `first` that fall between `rangeStart` and `rangeEnd` (inclusive).
+ * `first` itself is not included, as it is the stored task.
+ */
+export const getOccurrencesBetween = (
+  rule: RecurrenceRule,
+  first: Date,
+  firstOccurrence: number,
+  rangeStart: Date,
+  rangeEnd: Date,
+  limit = 1000
+): { date: Date; occurrence: number }[] => {
+  const occurrences: { date: Date; occurrence: number }[] = [];
+  let current = first;
+  let occurrence = firstOccurrence;
+
+  for (let step = 0; step < limit; step++) {
+    const next = getNextOccurrence(rule, current, occurrence);
+    if (!next || next > rangeEnd) break;
+    occurrence += 1;
+    if (next >= rangeStart) {
+      occurrences.push({ date: next, occurrence });
+    }
+    current = next;
+  }
+
+  return occurrences;
+};
@@ -0,0 +1,211 @@
+//
+/**
+ * lib/schema.ts
+ * Declarative validation of the body, query string and params of API requests.
+ *
+ * A schema describes the value a route expects and returns it typed and normalized (trimmed strings, `ObjectId`s,
+ * `Date`s). Unknown fields are dropped. Every problem is reported with the path of its field, such as `title`
+ * or `subtasks.0.title`, and a code (`required`, `too_long`, ...), so forms can show a localized message next to
+ * the matching input. The errors are sent in `details.errors` of a 400 `VALIDATION_FAILED` (see `lib/apiError.ts`),
+ * whose `message` repeats the first error.
+ *
+ * It includes:
+ * - `string`, `email`, `number`, `boolean`, `oneOf`, `objectId`, `date`, `array` and `object`: The schemas.
+ * - `optional`, `nullable` and `custom`: Accept a missing or null value, or reuse an existing parser.
+ * - `parseBody`, `parseQuery` and `parseParams`: Validate a part of a request.
+ * - `invalidField`: An error on one field, for checks that need the database (ownership, duplicates).
+ *
+ * @throws ValidationError - When a value does not match its schema, with every field error found.
+ */
+
+import { ObjectId } from 'mongodb';
+import { ApiError, ApiErrorDetails, FieldError, FieldErrorCode } from '@/lib/apiError';
+
+// `details` adds data to the response next to the errors, such as the broken password rules
+export class ValidationError extends ApiError {
+  constructor(public errors: FieldError[], details: ApiErrorDetails = {}) {
+    super('VALIDATION_FAILED', errors[0]?.message, { ...details, errors });
+  }
+}
+
+// Reads the value found at `path`; on failure it adds to `errors`, and the returned value is ignored
+export type Schema<T> = (value: unknown, path: string, errors: FieldError[]) => T;
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+interface Messages {
+  label?: string; // Name of the field in the messages; defaults to its path
+  message?: string; // Replaces the message for an invalid value
+  required?: string; // Replaces the message for a missing value
+}
+
+const OBJECT_ID_PATTERN = /^[0-9a-fA-F]{24}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const joinPath = (path: string, key: string | number) => (path ? `${path}.${key}` : String(key));
+
+type Failure = Omit<FieldError, 'path'>;
+
+const fail = (errors: FieldError[], path: string, failure: Failure): never => {
+  errors.push({ path, ...failure });
+  return undefined as never;
+};
+
+const required = (options: Messages, label: string): Failure =>
+  ({ code: 'required', message: options.required || `${label} is required` });
+
+const invalid = (options: Messages, label: string): Failure =>
+  ({ code: 'invalid', message: options.message || `Invalid ${label}` });
+
+const check = <T>(
+  options: Messages,
+  test: (value: unknown, label: string) => { value: T } | Failure
+): Schema<T> => (value, path, errors) => {
+  const label = options.label || path || 'value';
+  if (value === undefined || value === null) {
+    return fail(errors, path, required(options, label));
+  }
+  const result = test(value, label);
+  return 'code' in result ? fail(errors, path, result) : result.value;
+};
+
+interface StringOptions extends Messages {
+  min?: number;
+  max?: number;
+  pattern?: RegExp;
+  empty?: boolean; // Accept an empty string
+  trim?: boolean; // Defaults to true; passwords and tokens are kept as sent
+}
+
+export const string = (options: StringOptions = {}) =>
+  check<string>(options, (value, label) => {
+    if (typeof value !== 'string') return invalid(options, label);
+    const text = options.trim === false ? value : value.trim();
+    if (!text && !options.empty) return required(options, label);
+    if (options.min !== undefined && text.length < options.min) {
+      const message = options.message || `${label} must be at least ${options.min} characters long`;
+      return { code: 'too_short', message, params: { min: options.min } };
+    }
+    if (options.max !== undefined && text.length > options.max) {
+      const message = options.message || `${label} must be at most ${options.max} characters long`;
+      return { code: 'too_long', message, params: { max: options.max } };
+    }
+    if (options.pattern && !options.pattern.test(text)) return invalid(options, label);
+    return { value: text };
+  });
+
+export const number = (options: Messages & { min?: number; max?: number; integer?: boolean } = {}) =>
+  check<number>(options, (value, label) => {
+    const isInvalid =
+      typeof value !== 'number' ||
+      !Number.isFinite(value) ||
+      (options.integer && !Number.isInteger(value)) ||
+      (options.min !== undefined && value < options.min) ||
+      (options.max !== undefined && value > options.max);
+    return isInvalid ? invalid(options, label) : { value: value as number };
+  });
+
+export const boolean = (options: Messages = {}) =>
+  check<boolean>(options, (value, label) =>
+    typeof value === 'boolean' ? { value } : invalid(options, label)
+  );
+
+export const oneOf = <T extends string>(values: readonly T[], options: Messages = {}) =>
+  check<T>(options, (value, label) =>
+    (values as readonly unknown[]).includes(value) ? { value: value as T } : invalid(options, label)
+  );
+
+export const objectId = (options: Messages = {}) =>
+  check<ObjectId>(options, (value, label) =>
+    typeof value === 'string' && OBJECT_ID_PATTERN.test(value)
+      ? { value: new ObjectId(value) }
+      : invalid(options, label)
+  );
+
+export const email = (options: Messages = {}) =>
+  string({ label: 'Email', pattern: EMAIL_PATTERN, message: 'Invalid email', ...options });
+
+// A date string such as "2025-01-31" or an ISO timestamp
+export const date = (options: Messages = {}) =>
+  check<Date>(options, (value, label) => {
+    const parsed = typeof value === 'string' && value ? new Date(value) : null;
+    return parsed && !isNaN(parsed.getTime()) ? { value: parsed } : invalid(options, label);
+  });
+
+export const array = <T>(item: Schema<T>, options: Messages & { max?: number } = {}): Schema<T[]> =>
+  (value, path, errors) => {
+    const label = options.label || path || 'value';
+    if (value === undefined || value === null) {
+      return fail(errors, path, required(options, label));
+    }
+    if (!Array.isArray(value) || (options.max !== undefined && value.length > options.max)) {
+      return fail(errors, path, invalid(options, label));
+    }
+    return value.map((entry, index) => item(entry, joinPath(path, index), errors));
+  };
+
+type Shape = Record<string, Schema<unknown>>;
+type ObjectOf<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+// Fields whose value is missing are left out of the result, so it can be used for partial updates
+export const object = <S extends Shape>(shape: S, options: Messages = {}): Schema<ObjectOf<S>> =>
+  (value, path, errors) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(errors, path, invalid(options, options.label || path || 'request body'));
+    }
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape)) {
+      const parsed = shape[key]((value as Record<string, unknown>)[key], joinPath(path, key), errors);
+      if (parsed !== undefined) result[key] = parsed;
+    }
+    return result as ObjectOf<S>;
+  };
+
+// `blank` also treats an empty string as missing, for form inputs left empty
+export const optional = <T>(schema: Schema<T>, options: { blank?: boolean } = {}): Schema<T | undefined> =>
+  (value, path, errors) =>
+    value === undefined || (options.blank && value === '') ? undefined : schema(value, path, errors);
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> =>
+  (value, path, errors) => (value === null ? null : schema(value, path, errors));
+
+// Runs an existing parser; the errors of the given class become errors on the field, with their `code` if any
+export const custom = <T>(
+  parse: (value: unknown) => T,
+  errorClass: abstract new (...args: never[]) => Error & { code?: FieldErrorCode }
+): Schema<T> =>
+  (value, path, errors) => {
+    try {
+      return parse(value);
+    } catch (error) {
+      if (error instanceof errorClass) return fail(errors, path, { code: error.code || 'invalid', message: error.message });
+      throw error;
+    }
+  };
+
+export const validate = <T>(value: unknown, schema: Schema<T>): T => {
+  const errors: FieldError[] = [];
+  const result = schema(value, '', errors);
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+  return result;
+};
+
+export const parseBody = async <T>(req: Request, schema: Schema<T>): Promise<T> => {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch (error) {
+    throw new ValidationError([{ path: '', code: 'invalid', message: 'Invalid JSON body' }]);
+  }
+  return validate(body, schema);
+};
+
+// Query values are strings; a parameter given several times keeps its last value
+export const parseQuery = <T>(req: Request, schema: Schema<T>): T =>
+  validate(Object.fromEntries(new URL(req.url).searchParams), schema);
+
+export const parseParams = <T>(params: unknown, schema: Schema<T>): T => validate(params, schema);
+
+export const invalidField = (path: string, message: string, code: FieldErrorCode = 'invalid') =>
+  new ValidationError([{ path, code, message }]);
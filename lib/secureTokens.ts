@@ -0,0 +1,18 @@
+//
+/**
+ * lib/secureTokens.ts
+ * Random tokens for links and cookies that grant access, such as refresh tokens and password reset links.
+ *
+ * Only the SHA-256 hash of a token is stored in the database, so a leaked database does not leak
+ * usable tokens. Lookups hash the presented token and search for the hash.
+ *
+ * It includes:
+ * - `generateSecureToken`: Creates a URL-safe random token.
+ * - `hashSecureToken`: Hashes a token for storage and lookup.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+export const generateSecureToken = (bytes = 32) => randomBytes(bytes).toString('base64url');
+
+export const hashSecureToken = (token: string) => createHash('sha256').update(token).digest('hex');
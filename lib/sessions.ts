@@ -0,0 +1,194 @@
+//
+/**
+ * lib/sessions.ts
+ * Server-side sessions renewed with rotating refresh tokens.
+ *
+ * Access tokens (see `lib/auth.ts`) are short-lived JWTs kept by the client. The refresh token is a random
+ * string sent in an httpOnly cookie scoped to `/api/auth`, and each use replaces it with a new one.
+ * Presenting a token that was already replaced means it was copied, so the whole session is revoked.
+ *
+ * It includes:
+ * - `startSession`: Creates a session for a user who just logged in or registered.
+ * - `rotateSession`: Exchanges a refresh token for a new one and slides the session expiry.
+ * - `verifySessionToken`: Verifies an access token and checks that its session was not revoked.
+ * - `listActiveSessions`: Lists the sessions of a user that can still be renewed, for the profile page.
+ * - `revokeSession` / `revokeSessionByRefreshToken` / `revokeOtherSessions`: End one or several sessions.
+ * - `getRefreshToken`: Reads the refresh token cookie of a request.
+ * - `getClientIp`: Reads the address of the client from the `x-forwarded-for` header set by the proxy.
+ * - `setRefreshCookie` / `clearRefreshCookie`: Write or remove the refresh token cookie on a response.
+ *
+ * Revoking a session stops its refresh token at once, and its access tokens are rejected by every route that
+ * uses `verifySessionToken` (all the authenticated routes, through `withAuth` in `lib/apiHandler.ts`).
+ *
+ * @throws SessionError - When a refresh token is unknown, expired, revoked or reused, or when an access token
+ *   is invalid or belongs to a revoked session; it is an `ApiError` whose code routes answer with a 401.
+ */
+
+import { NextResponse } from 'next/server';
+import { Db, ObjectId } from 'mongodb';
+import { createSession, getSessionExpiry, ISession } from '@/models/Session';
+import { verifyToken } from '@/lib/auth';
+import { generateSecureToken, hashSecureToken } from '@/lib/secureTokens';
+import { ApiError } from '@/lib/apiError';
+
+export class SessionError extends ApiError {}
+
+export const REFRESH_TOKEN_COOKIE = 'refreshToken';
+
+// Two tabs can refresh with the same token at once; the late one is not treated as a reuse
+const ROTATION_GRACE_MS = 30 * 1000;
+
+export const hashRefreshToken = hashSecureToken;
+
+const generateRefreshToken = () => generateSecureToken(48);
+
+export const getClientIp = (req: Request) => req.headers.get('x-forwarded-for')?.split(',')[0].trim() || undefined;
+
+export const startSession = async (db: Db, userId: ObjectId, req: Request) => {
+  const refreshToken = generateRefreshToken();
+  const session = createSession({
+    userId,
+    tokenHash: hashRefreshToken(refreshToken),
+    userAgent: req.headers.get('user-agent') || undefined,
+    ip: getClientIp(req),
+  });
+
+  await db.collection<ISession>('sessions').insertOne(session);
+  return { session, refreshToken };
+};
+
+/**
+ * Returns the session and its new refresh token. `refreshToken` is null when the token was rotated a moment
+ * ago by a concurrent request: the cookie already holds the newer token, so it must not be replaced.
+ */
+export const rotateSession = async (db: Db, refreshToken: string) => {
+  const sessions = db.collection<ISession>('sessions');
+  const tokenHash = hashRefreshToken(refreshToken);
+  const now = new Date();
+
+  const session = await sessions.findOne({ tokenHash });
+
+  if (!session) {
+    const rotated = await sessions.findOne({ previousTokenHashes: tokenHash });
+    if (!rotated) {
+      throw new SessionError('REFRESH_TOKEN_INVALID');
+    }
+
+    const lastHash = rotated.previousTokenHashes[rotated.previousTokenHashes.length - 1];
+    const isConcurrent = lastHash === tokenHash && !!rotated.rotatedAt
+      && now.getTime() - rotated.rotatedAt.getTime() < ROTATION_GRACE_MS;
+
+    if (!isConcurrent) {
+      await sessions.updateOne({ _id: rotated._id }, { $set: { revokedAt: now } });
+      throw new SessionError('REFRESH_TOKEN_REUSED');
+    }
+    if (rotated.revokedAt || rotated.expiresAt < now) {
+      throw new SessionError('SESSION_EXPIRED');
+    }
+    return { session: rotated, refreshToken: null };
+  }
+
+  if (session.revokedAt || session.expiresAt < now) {
+    throw new SessionError('SESSION_EXPIRED');
+  }
+
+  const newToken = generateRefreshToken();
+  const expiresAt = getSessionExpiry(now);
+
+  // Matching on the old hash makes the rotation atomic when two requests race
+  const result = await sessions.updateOne(
+    { _id: session._id, tokenHash },
+    {
+      $set: { tokenHash: hashRefreshToken(newToken), lastUsedAt: now, rotatedAt: now, expiresAt },
+      $push: { previousTokenHashes: tokenHash },
+    }
+  );
+  if (result.matchedCount === 0) {
+    return { session, refreshToken: null };
+  }
+
+  return { session: { ...session, lastUsedAt: now, rotatedAt: now, expiresAt }, refreshToken: newToken };
+};
+
+// Active sessions are neither revoked nor expired
+const activeFilter = () => ({ revokedAt: null, expiresAt: { $gt: new Date() } });
+
+/**
+ * Verifies an access token and, when it was issued for a session, checks that the session is still active.
+ * Tokens issued before sessions existed carry no `sessionId` and stay valid until they expire.
+ */
+export const verifySessionToken = async (db: Db, token: string) => {
+  let decoded;
+  try {
+    decoded = verifyToken(token);
+  } catch (error) {
+    throw new SessionError('AUTH_TOKEN_INVALID');
+  }
+  if (decoded.sessionId) {
+    const session = await db.collection<ISession>('sessions').findOne(
+      { _id: new ObjectId(decoded.sessionId), userId: new ObjectId(decoded.userId), ...activeFilter() },
+      { projection: { _id: 1 } }
+    );
+    if (!session) {
+      throw new SessionError('SESSION_REVOKED');
+    }
+  }
+  return decoded;
+};
+
+export const listActiveSessions = (db: Db, userId: ObjectId) =>
+  db.collection<ISession>('sessions')
+    .find(
+      { userId, ...activeFilter() },
+      { projection: { userAgent: 1, ip: 1, createdAt: 1, lastUsedAt: 1 } }
+    )
+    .sort({ lastUsedAt: -1 })
+    .toArray();
+
+export const revokeSession = async (db: Db, userId: ObjectId, sessionId: ObjectId) => {
+  const result = await db.collection<ISession>('sessions').updateOne(
+    { _id: sessionId, userId, revokedAt: null },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.matchedCount > 0;
+};
+
+export const revokeSessionByRefreshToken = async (db: Db, refreshToken: string) => {
+  await db.collection<ISession>('sessions').updateOne(
+    { tokenHash: hashRefreshToken(refreshToken), revokedAt: null },
+    { $set: { revokedAt: new Date() } }
+  );
+};
+
+// Revokes every session of the user except `currentId`, or all of them when it is omitted
+export const revokeOtherSessions = async (db: Db, userId: ObjectId, currentId?: ObjectId) => {
+  const result = await db.collection<ISession>('sessions').updateMany(
+    { userId, revokedAt: null, ...(currentId ? { _id: { $ne: currentId } } : {}) },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount;
+};
+
+export const getRefreshToken = (req: Request): string | null => {
+  const cookies = req.headers.get('cookie') || '';
+  const match = cookies.split(';').map((cookie) => cookie.trim()).find((cookie) => cookie.startsWith(`${REFRESH_TOKEN_COOKIE}=`));
+  return match ? decodeURIComponent(match.slice(REFRESH_TOKEN_COOKIE.length + 1)) : null;
+};
+
+export const setRefreshCookie = (response: NextResponse, refreshToken: string, expiresAt: Date) => {
+  response.cookies.set({
+    name: REFRESH_TOKEN_COOKIE,
+    value: refreshToken,
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/api/auth',
+    expires: expiresAt,
+  });
+  return response;
+};
+
+export const clearRefreshCookie = (response: NextResponse) => {
+  response.cookies.set({ name: REFRESH_TOKEN_COOKIE, value: '', httpOnly: true, path: '/api/auth', maxAge: 0 });
+  return response;
+};
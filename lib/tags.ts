@@ -0,0 +1,68 @@
+//
+/**
+ * lib/tags.ts
+ * Helpers shared by the tag routes and the task routes.
+ *
+ * It includes:
+ * - `newTagSchema` and `tagUpdateSchema`: The bodies of the tag routes (see `lib/schema.ts`).
+ * - `validateTagIds`: Removes duplicates from the `tagIds` of a task and checks that every tag belongs to the user.
+ * - `findTagByName`: Looks up a tag of the user by name, ignoring case.
+ * - `mergeTags`: Moves every task from one tag to another and removes the merged tag.
+ * - `removeTagFromTasks`: Removes a deleted tag from the tasks that use it.
+ *
+ * Tasks reference tags by ID, so renaming a tag or changing its color applies to every task at once.
+ *
+ * @throws TagError - When a tag ID is unknown; routes answer with 400.
+ */
+
+import { Db, ObjectId } from 'mongodb';
+import { ITag, MAX_TAG_NAME_LENGTH } from '@/models/Tag';
+import { escapeRegex } from '@/lib/utils';
+import { object, optional, string } from '@/lib/schema';
+import { FieldErrorCode } from '@/lib/apiError';
+
+// `code` is the code of the field error reported for it (see `lib/apiError.ts`)
+export class TagError extends Error {
+  constructor(message: string, public code: FieldErrorCode = 'invalid') {
+    super(message);
+  }
+}
+
+type TaggedTask = { tagIds?: ObjectId[] };
+
+const tagName = string({ label: 'Tag name', max: MAX_TAG_NAME_LENGTH });
+const tagColor = string({ pattern: /^#[0-9a-fA-F]{6}$/, message: 'Invalid tag color' });
+
+export const newTagSchema = object({ name: tagName, color: optional(tagColor) });
+
+export const tagUpdateSchema = object({ name: optional(tagName), color: optional(tagColor) });
+
+// The format of the IDs is checked by the schema of the task routes (see `lib/taskSchema.ts`)
+export const validateTagIds = async (db: Db, userId: ObjectId, ids: ObjectId[]): Promise<ObjectId[]> => {
+  const tagIds = Array.from(new Set(ids.map(String))).map((id) => new ObjectId(id));
+  if (tagIds.length === 0) return tagIds;
+
+  const found = await db.collection('tags').countDocuments({ userId, _id: { $in: tagIds } });
+  if (found !== tagIds.length) {
+    throw new TagError('Tag not found', 'not_found');
+  }
+  return tagIds;
+};
+
+export const findTagByName = (db: Db, userId: ObjectId, name: string, excludeId?: ObjectId) =>
+  db.collection<ITag>('tags').findOne({
+    userId,
+    name: new RegExp(`^${escapeRegex(name)}$`, 'i'),
+    ...(excludeId ? { _id: { $ne: excludeId } } : {}),
+  });
+
+export const mergeTags = async (db: Db, userId: ObjectId, sourceId: ObjectId, targetId: ObjectId) => {
+  const tasks = db.collection<TaggedTask>('tasks');
+  await tasks.updateMany({ userId, tagIds: sourceId }, { $addToSet: { tagIds: targetId } });
+  await tasks.updateMany({ userId, tagIds: sourceId }, { $pull: { tagIds: sourceId } });
+  await db.collection('tags').deleteOne({ _id: sourceId, userId });
+};
+
+export const removeTagFromTasks = async (db: Db, userId: ObjectId, tagId: ObjectId) => {
+  await db.collection<TaggedTask>('tasks').updateMany({ userId, tagIds: tagId }, { $pull: { tagIds: tagId } });
+};
@@ -0,0 +1,183 @@
+//
+/**
+ * lib/taskBatch.ts
+ * Applies one action to many tasks of a user at once, for the bulk action bar of the tasks page.
+ *
+ * Every task of the batch is checked before anything is written, so a request with an invalid action value (an
+ * unknown category, a missing priority...) changes nothing. The changes are then written in one transaction (see
+ * `runInTransaction` in `lib/mongodb.ts`), so a batch that fails partway through leaves every task as it was.
+ * Tasks that cannot be changed are left out and reported in the results: tasks that do not exist or belong to
+ * another user (`TASK_NOT_FOUND`), and tasks completed while one of their blockers is open (`TASK_BLOCKED`), unless
+ * `force` is true. A blocker completed by the same batch does not block.
+ *
+ * The actions follow the rules of `PUT /api/tasks/[id]`:
+ * - `complete` and `uncomplete`: Keep `status` and `completedAt` in sync with completion. Completing an occurrence
+ *   of a recurring task creates the next occurrence once (see `lib/taskCompletion.ts`).
+ * - `priority` and `category`: Set the priority, or move the tasks to a category of the user (null removes it).
+ * - `reschedule`: Moves the tasks to the day starting at `dueDate` (midnight in the user's time zone), keeping their
+ *   due time; tasks without one are due at 23:59, as new tasks are.
+ * - `delete`: Removes the tasks and removes them from the dependencies of the remaining tasks.
+ *
+ * @throws ValidationError - When the value of the action is missing or the category is not the user's.
+ */
+
+import { AnyBulkWriteOperation, ClientSession, Db, Document, ObjectId } from 'mongodb';
+import { ITask } from '@/models/Task';
+import { runInTransaction } from '@/lib/mongodb';
+import { completeTask } from '@/lib/taskCompletion';
+import { removeDependenciesOn } from '@/lib/dependencies';
+import { Infer, invalidField } from '@/lib/schema';
+import { taskBatchSchema } from '@/lib/taskSchema';
+import { ApiErrorCode } from '@/lib/apiError';
+import { TaskReference } from '@/types/TaskCategoryTypes';
+
+export type TaskBatch = Infer<typeof taskBatchSchema>;
+
+export interface TaskBatchResult {
+  taskId: string;
+  success: boolean;
+  code?: ApiErrorCode; // Why the task was left unchanged
+  blockers?: TaskReference[]; // The open blockers of a task that could not be completed
+}
+
+const DEFAULT_DUE_TIME = '23:59';
+
+// Date of the due time `time` ("HH:MM") on the day starting at `dayStart`, like `createTask` sets it
+const atTime = (dayStart: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(dayStart);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+const checkActionValue = async (db: Db, userId: ObjectId, batch: TaskBatch) => {
+  if (batch.action === 'priority' && !batch.priority) {
+    throw invalidField('priority', 'Priority is required', 'required');
+  }
+  if (batch.action === 'reschedule' && !batch.dueDate) {
+    throw invalidField('dueDate', 'Due date is required', 'required');
+  }
+  if (batch.action === 'category') {
+    if (batch.categoryId === undefined) {
+      throw invalidField('categoryId', 'Category is required', 'required');
+    }
+    if (batch.categoryId && !(await db.collection('categories').findOne({ _id: batch.categoryId, userId }))) {
+      throw invalidField('categoryId', 'Category not found', 'not_found');
+    }
+  }
+};
+
+/**
+ * Returns the open blockers of each task that cannot be completed. Tasks completed by the batch count as
+ * completed, so they are removed from the batch until every remaining task can be completed.
+ */
+const findBlockedTasks = async (db: Db, userId: ObjectId, tasks: ITask[], session: ClientSession) => {
+  const blockerIds = tasks.flatMap((task) => task.blockedBy || []);
+  if (blockerIds.length === 0) return new Map<string, TaskReference[]>();
+
+  const openBlockers = await db.collection('tasks')
+    .find({ userId, _id: { $in: blockerIds }, completed: { $ne: true } }, { projection: { title: 1 }, session })
+    .toArray();
+  const openById = new Map(openBlockers.map((blocker) => [
+    blocker._id.toString(),
+    { _id: blocker._id.toString(), title: blocker.title as string, completed: false },
+  ]));
+
+  const completing = new Set(tasks.map((task) => String(task._id)));
+  const blocked = new Map<string, TaskReference[]>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const task of tasks) {
+      const id = String(task._id);
+      if (!completing.has(id)) continue;
+      const blockers = (task.blockedBy || [])
+        .map(String)
+        .filter((blockerId) => openById.has(blockerId) && !completing.has(blockerId))
+        .map((blockerId) => openById.get(blockerId)!);
+      if (blockers.length > 0) {
+        completing.delete(id);
+        blocked.set(id, blockers);
+        changed = true;
+      }
+    }
+  }
+  return blocked;
+};
+
+const buildOperations = (batch: TaskBatch, userId: ObjectId, tasks: ITask[]): AnyBulkWriteOperation[] => {
+  const ids = tasks.map((task) => task._id!);
+  const setMany = (fields: Document) => [{ updateMany: { filter: { _id: { $in: ids }, userId }, update: { $set: fields } } }];
+
+  switch (batch.action) {
+    case 'complete':
+      // Recurring tasks are completed one by one by `completeTask`, which creates their next occurrence once
+      return tasks.filter((task) => !task.completed && !task.recurrence).map((task) => ({
+        updateOne: {
+          filter: { _id: task._id, userId, completed: { $ne: true } },
+          update: { $set: { completed: true, status: 'done', completedAt: new Date() } },
+        },
+      }));
+    case 'uncomplete':
+      return tasks.map((task) => ({
+        updateOne: {
+          filter: { _id: task._id, userId },
+          update: { $set: { completed: false, completedAt: null, status: task.status === 'done' ? 'todo' : task.status } },
+        },
+      }));
+    case 'priority':
+      return setMany({ priority: batch.priority });
+    case 'category':
+      return setMany({ categoryId: batch.categoryId ? batch.categoryId.toString() : null });
+    case 'reschedule':
+      return tasks.map((task) => ({
+        updateOne: {
+          filter: { _id: task._id, userId },
+          update: { $set: { dueDate: atTime(batch.dueDate!, task.dueTime || DEFAULT_DUE_TIME) } },
+        },
+      }));
+    case 'delete':
+      // `applyTaskBatch` then removes the deleted tasks from the dependencies of the remaining ones
+      return [{ deleteMany: { filter: { _id: { $in: ids }, userId } } }];
+  }
+};
+
+// Resolves to the result of each task, in the order of `batch.taskIds`
+export const applyTaskBatch = async (db: Db, userId: ObjectId, batch: TaskBatch): Promise<TaskBatchResult[]> => {
+  await checkActionValue(db, userId, batch);
+
+  const taskIds = Array.from(new Set(batch.taskIds.map(String))).map((id) => new ObjectId(id));
+
+  const { foundById, blocked } = await runInTransaction(async (session) => {
+    const found = taskIds.length > 0
+      ? await db.collection<ITask>('tasks').find({ _id: { $in: taskIds }, userId }, { session }).toArray()
+      : [];
+
+    const blocked = batch.action === 'complete' && batch.force !== true
+      ? await findBlockedTasks(db, userId, found.filter((task) => !task.completed), session)
+      : new Map<string, TaskReference[]>();
+    const tasks = found.filter((task) => !blocked.has(String(task._id)));
+
+    const operations = tasks.length > 0 ? buildOperations(batch, userId, tasks) : [];
+    if (operations.length > 0) {
+      await db.collection('tasks').bulkWrite(operations, { ordered: true, session });
+    }
+    if (batch.action === 'complete') {
+      for (const task of tasks.filter((task) => !task.completed && task.recurrence)) {
+        await completeTask(db, userId, task, {}, session);
+      }
+    }
+    if (batch.action === 'delete') {
+      await removeDependenciesOn(db, userId, tasks.map((task) => task._id!), session);
+    }
+
+    return { foundById: new Map(found.map((task) => [String(task._id), task])), blocked };
+  });
+
+  return taskIds.map((id): TaskBatchResult => {
+    const taskId = id.toString();
+    if (!foundById.has(taskId)) return { taskId, success: false, code: 'TASK_NOT_FOUND' };
+    const blockers = blocked.get(taskId);
+    return blockers ? { taskId, success: false, code: 'TASK_BLOCKED', blockers } : { taskId, success: true };
+  });
+};
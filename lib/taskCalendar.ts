@@ -0,0 +1,245 @@
+//
+/**
+ * lib/taskCalendar.ts
+ * Publishes tasks to calendar apps as iCalendar files (see `lib/ical.ts`).
+ *
+ * Tasks with a due time become events of `EVENT_DURATION_MINUTES` starting at that time, or to-dos due then.
+ * Tasks due on a day without a time become all-day events or to-dos due that day. Recurring tasks carry their
+ * rule as an `RRULE`, so calendar apps show their next occurrences. The category of a task is the first of its
+ * `CATEGORIES`, followed by its tags, and the `.ics` import (see `lib/taskImport.ts`) reads them back that way.
+ *
+ * It includes:
+ * - `taskToIcsComponent`: The VEVENT or VTODO of a task.
+ * - `buildTaskCalendar`: The iCalendar file of a list of tasks, with the names of their categories and tags.
+ * - `createFeed`, `listFeeds`, `revokeFeed` and `findFeedByToken`: Manage the secret feeds of a user
+ *   (see `models/CalendarFeed.ts`). The feeds of an account scheduled for deletion are not served.
+ * - `findFeedTasks`: The tasks published by a feed.
+ */
+
+import { Db, ObjectId } from 'mongodb';
+import { ITask } from '@/models/Task';
+import { IUser } from '@/models/User';
+import { CalendarFeedComponent, createCalendarFeed, ICalendarFeed } from '@/models/CalendarFeed';
+import { buildIcsCalendar, escapeIcsText, formatIcsDate, formatIcsDateTime, IcsComponent, IcsProperty, toRRule } from '@/lib/ical';
+import { generateSecureToken, hashSecureToken } from '@/lib/secureTokens';
+import { getDescendantIds } from '@/lib/categoryTree';
+
+export const EVENT_DURATION_MINUTES = 30;
+
+const UID_DOMAIN = 'personal-task-tracker';
+
+// iCalendar priorities go from 1 (highest) to 9 (lowest)
+export const ICS_PRIORITIES: Record<NonNullable<ITask['priority']>, number> = {
+  highest: 1,
+  high: 3,
+  medium: 5,
+  low: 7,
+  lowest: 9,
+};
+
+const ICS_STATUSES = { todo: 'NEEDS-ACTION', in_progress: 'IN-PROCESS', blocked: 'NEEDS-ACTION', done: 'COMPLETED' };
+
+// The description is HTML written by the editor of TaskForm; calendar apps show plain text
+const htmlToText = (html: string) =>
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h\d)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const property = (name: string, value: string, params: Record<string, string> = {}): IcsProperty =>
+  ({ name, params, value });
+
+const text = (name: string, value: string) => property(name, escapeIcsText(value));
+
+interface TaskLabels {
+  category?: string;
+  tags?: string[];
+  url?: string; // Page of the task in the app
+}
+
+// A to-do is returned for tasks without a due date, since an event needs a start
+export const taskToIcsComponent = (
+  task: ITask,
+  component: CalendarFeedComponent,
+  { category, tags = [], url }: TaskLabels = {}
+): IcsComponent => {
+  const dueDate = task.dueDate ? new Date(task.dueDate) : null;
+  const allDay = !task.dueTime;
+  const isEvent = component === 'event' && dueDate !== null;
+  const description = [task.resume, task.description ? htmlToText(task.description) : '']
+    .filter(Boolean)
+    .join('\n\n');
+
+  const properties: IcsProperty[] = [
+    property('UID', `${task._id}@${UID_DOMAIN}`),
+    property('DTSTAMP', formatIcsDateTime(new Date())),
+    ...(task.createdAt ? [property('CREATED', formatIcsDateTime(new Date(task.createdAt)))] : []),
+    text('SUMMARY', task.title),
+    ...(description ? [text('DESCRIPTION', description)] : []),
+  ];
+
+  if (dueDate && isEvent && allDay) {
+    const nextDay = new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate() + 1);
+    properties.push(
+      property('DTSTART', formatIcsDate(dueDate), { VALUE: 'DATE' }),
+      property('DTEND', formatIcsDate(nextDay), { VALUE: 'DATE' })
+    );
+  } else if (dueDate && isEvent) {
+    properties.push(
+      property('DTSTART', formatIcsDateTime(dueDate)),
+      property('DURATION', `PT${EVENT_DURATION_MINUTES}M`)
+    );
+  } else if (dueDate) {
+    properties.push(allDay
+      ? property('DUE', formatIcsDate(dueDate), { VALUE: 'DATE' })
+      : property('DUE', formatIcsDateTime(dueDate)));
+  }
+
+  if (!isEvent) {
+    properties.push(property('STATUS', task.completed ? 'COMPLETED' : ICS_STATUSES[task.status || 'todo']));
+    if (task.completed && task.completedAt) {
+      properties.push(property('COMPLETED', formatIcsDateTime(new Date(task.completedAt))));
+    }
+  }
+  properties.push(property('PRIORITY', String(ICS_PRIORITIES[task.priority || 'medium'])));
+
+  const labels = [category, ...tags].filter((label): label is string => Boolean(label));
+  if (labels.length > 0) {
+    properties.push(property('CATEGORIES', labels.map(escapeIcsText).join(',')));
+  }
+  if (task.recurrence && dueDate) {
+    properties.push(property('RRULE', toRRule(task.recurrence, allDay)));
+  }
+  if (url) {
+    properties.push(property('URL', url));
+  }
+
+  return { name: isEvent ? 'VEVENT' : 'VTODO', properties, components: [] };
+};
+
+const CALENDAR_NAME = 'Tasks';
+
+/**
+ * Builds the file of `tasks`, reading the names of their categories and tags. `appUrl` links every task to its page
+ * in the app. A feed passes its `categoryIds`, whose names are added to the name of the calendar, and calendar apps
+ * are asked to read it again every hour.
+ */
+export const buildTaskCalendar = async (
+  db: Db,
+  userId: ObjectId,
+  tasks: ITask[],
+  { component, appUrl, feed }: { component: CalendarFeedComponent; appUrl: string; feed?: Pick<ICalendarFeed, 'categoryIds'> }
+) => {
+  const [categories, tags] = await Promise.all([
+    db.collection('categories').find({ userId }, { projection: { name: 1 } }).toArray(),
+    db.collection('tags').find({ userId }, { projection: { name: 1 } }).toArray(),
+  ]);
+  const categoryNames = new Map(categories.map((category) => [category._id.toString(), category.name as string]));
+  const tagNames = new Map(tags.map((tag) => [tag._id.toString(), tag.name as string]));
+
+  const components = tasks.map((task) => taskToIcsComponent(task, component, {
+    category: task.categoryId ? categoryNames.get(String(task.categoryId)) : undefined,
+    tags: (task.tagIds || []).map((id) => tagNames.get(id.toString())).filter((tag): tag is string => Boolean(tag)),
+    url: `${appUrl}/tasks/edit/${task._id}`,
+  }));
+
+  if (!feed) {
+    return buildIcsCalendar(components);
+  }
+
+  const feedCategories = feed.categoryIds.map((id) => categoryNames.get(id.toString())).filter(Boolean);
+  const name = feedCategories.length > 0 ? `${CALENDAR_NAME}: ${feedCategories.join(', ')}` : CALENDAR_NAME;
+  return buildIcsCalendar(components, [
+    property('X-WR-CALNAME', escapeIcsText(name)),
+    property('REFRESH-INTERVAL', 'PT1H', { VALUE: 'DURATION' }),
+    property('X-PUBLISHED-TTL', 'PT1H'),
+  ]);
+};
+
+const calendarFeeds = (db: Db) => db.collection<ICalendarFeed>('calendarFeeds');
+
+let indexesCreated: Promise<unknown> | null = null;
+
+// The indexes are created once per server process, on the first feed created
+const ensureIndexes = (db: Db) => {
+  if (!indexesCreated) {
+    indexesCreated = Promise.all([
+      calendarFeeds(db).createIndex({ tokenHash: 1 }, { unique: true }),
+      calendarFeeds(db).createIndex({ userId: 1, createdAt: -1 }),
+    ]).catch((error) => {
+      indexesCreated = null;
+      throw error;
+    });
+  }
+  return indexesCreated;
+};
+
+// The feeds are returned without the hash of their token
+const WITHOUT_TOKEN = { projection: { tokenHash: 0 } };
+
+// Resolves to the feed and its token, which is only known now
+export const createFeed = async (
+  db: Db,
+  userId: ObjectId,
+  { categoryIds, component }: { categoryIds?: ObjectId[]; component?: CalendarFeedComponent }
+) => {
+  await ensureIndexes(db);
+
+  const token = generateSecureToken();
+  const feed = createCalendarFeed({ userId, tokenHash: hashSecureToken(token), categoryIds, component });
+  await calendarFeeds(db).insertOne(feed);
+
+  const { tokenHash, ...publicFeed } = feed;
+  return { feed: publicFeed, token };
+};
+
+export const listFeeds = (db: Db, userId: ObjectId) =>
+  calendarFeeds(db).find({ userId }, { ...WITHOUT_TOKEN, sort: { createdAt: -1 } }).toArray();
+
+// Resolves to false when the feed does not exist
+export const revokeFeed = async (db: Db, userId: ObjectId, feedId: ObjectId) =>
+  (await calendarFeeds(db).deleteOne({ _id: feedId, userId })).deletedCount > 0;
+
+// Resolves to null when the feed does not exist, or its owner has asked for the deletion of their account
+export const findFeedByToken = async (db: Db, token: string) => {
+  const feed = await calendarFeeds(db).findOne({ tokenHash: hashSecureToken(token) });
+  if (!feed) return null;
+
+  const owner = await db.collection<IUser>('users').findOne({ _id: feed.userId }, { projection: { deletionScheduledFor: 1 } });
+  if (!owner || owner.deletionScheduledFor) return null;
+
+  await calendarFeeds(db).updateOne({ _id: feed._id }, { $set: { lastUsedAt: new Date() } });
+  return feed;
+};
+
+// Tasks with a due date, in the categories of the feed or their sub-categories; tasks store the category as a string
+export const findFeedTasks = async (db: Db, feed: ICalendarFeed) => {
+  const filter: Record<string, unknown> = { userId: feed.userId, dueDate: { $ne: null } };
+
+  if (feed.categoryIds.length > 0) {
+    const categories = (await db.collection('categories')
+      .find({ userId: feed.userId }, { projection: { name: 1, parentId: 1 } })
+      .toArray())
+      .map((category) => ({
+        _id: category._id.toString(),
+        name: category.name,
+        parentId: category.parentId ? category.parentId.toString() : null,
+      }));
+    const ids = new Set<string>();
+    for (const categoryId of feed.categoryIds.map(String)) {
+      ids.add(categoryId);
+      getDescendantIds(categories, categoryId).forEach((id) => ids.add(id));
+    }
+    filter.categoryId = { $in: Array.from(ids) };
+  }
+
+  return db.collection<ITask>('tasks').find(filter, { sort: { dueDate: 1 } }).toArray();
+};
@@ -0,0 +1,54 @@
+//
+/**
+ * lib/taskCompletion.ts
+ * Completion of a task, shared by the routes that can complete one: editing the task, completing its last subtask,
+ * moving it to the done column of the board and the bulk actions.
+ *
+ * `completeTask` completes an open task of the user: `status` moves to `done` (unless `fields` sets another one)
+ * and `completedAt` records when. Completing an occurrence of a recurring task creates the next occurrence, which
+ * takes over the rule. The update only matches a task that is still open, so the next occurrence is created once
+ * even when the same task is completed twice at the same time. `session` runs the writes in a transaction.
+ *
+ * @returns Whether this call completed the task, the task with its completion fields and the next occurrence it created.
+ */
+
+import { ClientSession, Db, Document, ObjectId } from 'mongodb';
+import { createNextOccurrence, ITask } from '@/models/Task';
+
+export interface TaskCompletion {
+  completed: boolean;
+  task: ITask;
+  nextTask: ITask | null;
+}
+
+export const completeTask = async (
+  db: Db,
+  userId: ObjectId,
+  task: ITask,
+  fields: Document = {}, // Other fields changed with the completion
+  session?: ClientSession
+): Promise<TaskCompletion> => {
+  const completionFields: Document = { status: 'done', ...fields, completed: true, completedAt: new Date() };
+  const nextTask = createNextOccurrence({ ...task, ...completionFields } as ITask);
+  if (task.recurrence || fields.recurrence) {
+    completionFields.recurrence = null;
+  }
+
+  const result = await db.collection('tasks').updateOne(
+    { _id: task._id, userId, completed: { $ne: true } },
+    { $set: completionFields },
+    { session }
+  );
+
+  const completedTask = { ...task, ...completionFields } as ITask;
+
+  // Another request completed the task first and created the next occurrence
+  if (result.modifiedCount !== 1) {
+    return { completed: false, task: completedTask, nextTask: null };
+  }
+
+  if (nextTask) {
+    await db.collection('tasks').insertOne(nextTask, { session });
+  }
+  return { completed: true, task: completedTask, nextTask };
+};
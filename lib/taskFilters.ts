@@ -0,0 +1,108 @@
+//
+/**
+ * lib/taskFilters.ts
+ * Client-side description of the task filters and their mapping to `GET /api/tasks` query parameters.
+ *
+ * It includes:
+ * - `TaskFilters`: The filters shared by every task view.
+ * - `DEFAULT_TASK_FILTERS`: Filters with nothing selected.
+ * - `hasActiveFilters`: Checks whether any filter narrows the task list.
+ * - `buildTaskQueryString`: Serializes filters, sort order and pagination into a query string.
+ * - `fetchAllTasks`: Loads every task matching a query string, following the pages of `GET /api/tasks`, for the
+ *   views that show all of them at once (list, board, calendar).
+ */
+
+import { apiFetch } from '@/lib/apiFetch';
+import { Task } from '@/types/TaskCategoryTypes';
+
+// Largest page `GET /api/tasks` returns
+export const MAX_TASKS_PAGE_SIZE = 100;
+
+export type TaskSortOption = 'createdAt' | 'dueDate' | 'title';
+
+export interface TaskFilters {
+  priorities: string[];
+  categoryId: string; // '' for any category, 'none' for uncategorized tasks
+  tagIds: string[];
+  tagMatch: 'any' | 'all'; // Whether tasks need any or all of the selected tags
+  completed: '' | 'true' | 'false';
+  dueFrom: string;
+  dueTo: string;
+  overdueOnly: boolean;
+  readyOnly: boolean; // Open tasks whose blockers are all completed
+  search: string;
+  sort: TaskSortOption;
+  order: 'asc' | 'desc';
+}
+
+export const DEFAULT_TASK_FILTERS: TaskFilters = {
+  priorities: [],
+  categoryId: '',
+  tagIds: [],
+  tagMatch: 'any',
+  completed: '',
+  dueFrom: '',
+  dueTo: '',
+  overdueOnly: false,
+  readyOnly: false,
+  search: '',
+  sort: 'createdAt',
+  order: 'desc',
+};
+
+export const hasActiveFilters = (filters: TaskFilters): boolean =>
+  filters.priorities.length > 0 ||
+  filters.categoryId !== '' ||
+  filters.tagIds.length > 0 ||
+  filters.completed !== '' ||
+  filters.dueFrom !== '' ||
+  filters.dueTo !== '' ||
+  filters.overdueOnly ||
+  filters.readyOnly ||
+  filters.search.trim() !== '';
+
+export const buildTaskQueryString = (
+  filters: TaskFilters,
+  pagination: { limit?: number; cursor?: string | null } = {}
+): string => {
+  const params = new URLSearchParams();
+
+  if (filters.priorities.length > 0) params.set('priority', filters.priorities.join(','));
+  if (filters.categoryId) params.set('category', filters.categoryId);
+  if (filters.tagIds.length > 0) {
+    params.set('tags', filters.tagIds.join(','));
+    params.set('tagMatch', filters.tagMatch);
+  }
+  if (filters.completed) params.set('completed', filters.completed);
+  if (filters.dueFrom) params.set('dueFrom', filters.dueFrom);
+  if (filters.dueTo) params.set('dueTo', filters.dueTo);
+  if (filters.overdueOnly) params.set('overdue', 'true');
+  if (filters.readyOnly) params.set('ready', 'true');
+  if (filters.search.trim()) params.set('q', filters.search.trim());
+  params.set('sort', filters.sort);
+  params.set('order', filters.order);
+  if (pagination.limit) params.set('limit', String(pagination.limit));
+  if (pagination.cursor) params.set('cursor', pagination.cursor);
+
+  return params.toString();
+};
+
+export const fetchAllTasks = async (query = ''): Promise<Task[]> => {
+  const tasks: Task[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const params = new URLSearchParams(query);
+    params.set('limit', String(MAX_TASKS_PAGE_SIZE));
+    if (cursor) params.set('cursor', cursor);
+
+    const response = await apiFetch(`/api/tasks?${params.toString()}`, { method: 'GET' });
+    if (!response || !response.success) {
+      throw new Error('Failed to fetch tasks');
+    }
+    tasks.push(...response.tasks);
+    cursor = response.nextCursor ?? null;
+  } while (cursor);
+
+  return tasks;
+};
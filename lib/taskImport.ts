@@ -0,0 +1,684 @@
+//
+/**
+ * lib/taskImport.ts
+ * Imports tasks in bulk from files saved by this app or by other to-do apps.
+ *
+ * A file is read into rows, which are checked with the rules of `POST /api/tasks` and `createTask` before anything
+ * is saved, so the import wizard can preview the tasks and the errors of each row. Categories and tags are matched
+ * by name, ignoring case; the missing ones are created together with the tasks that use them. A data export keeps
+ * the description, color, icon and parent of its categories and the color of its tags, which the created ones take.
+ *
+ * Supported files (`format`):
+ * - `csv`: Any CSV file. `mapping` gives the column of each field (0-based); without it, the columns are guessed
+ *   from the header by `suggestCsvMapping`, which recognizes the `tasks.csv` of a data export.
+ * - `json`: The `data.json` of a data export (see `lib/dataExport.ts`), a Todoist export (its projects become
+ *   categories, labels become tags and sub-tasks become subtasks) or a Trello board (its lists become categories,
+ *   labels become tags and checklists become subtasks). The kind of file is detected from its content.
+ * - `zip`: The archive of a data export, sent in base64; its `data.json` is imported.
+ * - `ics`: An iCalendar file. Its to-dos are imported with their due date, and its events with their start; the
+ *   first of their `CATEGORIES` is the category and the others are tags (see `lib/taskCalendar.ts`).
+ *
+ * Tasks without a summary (`resume`), such as those of Todoist and Trello, use their title as summary.
+ * Due dates in the past are rejected as by `POST /api/tasks`, except for completed tasks and the tasks of a data
+ * export, which are restored as they were. Dependencies between tasks are not imported.
+ *
+ * It includes:
+ * - `readImportFile`: Reads the rows of a file.
+ * - `taskImportSchema`: The body of the import routes (`format`, `content` and `mapping`), read into its rows.
+ * - `suggestCsvMapping`: Guesses the column of each field from a CSV header.
+ * - `planTaskImport`: Validates the rows and builds the tasks, categories and tags to create.
+ * - `saveTaskImport`: Saves the valid tasks of a plan.
+ *
+ * @throws TaskImportError - When the file cannot be read; `taskImportSchema` reports it as an error of `content`.
+ */
+
+import { Db, ObjectId } from 'mongodb';
+import { createTask, ITask, TASK_STATUSES } from '@/models/Task';
+import { createCategory, ICategory } from '@/models/Category';
+import { createTag, isValidTagColor, ITag, MAX_TAG_NAME_LENGTH, normalizeTagName } from '@/models/Tag';
+import { FieldError, FieldErrorCode } from '@/lib/apiError';
+import { boolean, number, object, oneOf, optional, Schema, string } from '@/lib/schema';
+import { newTaskSchema } from '@/lib/taskSchema';
+import { newCategorySchema } from '@/lib/categories';
+import { parseCsv } from '@/lib/csv';
+import { readZip, ZipError } from '@/lib/zip';
+import { DATA_EXPORT_FORMAT, ExportData } from '@/lib/dataExport';
+import { findIcsComponents, fromRRule, getIcsDate, getIcsProperty, getIcsText, getIcsTextList, IcsComponent, IcsError, parseIcs } from '@/lib/ical';
+import { ICS_PRIORITIES } from '@/lib/taskCalendar';
+import { RecurrenceError } from '@/lib/recurrence';
+
+export const MAX_IMPORT_ROWS = 1000;
+export const MAX_IMPORT_SIZE = 5 * 1024 * 1024; // Characters of the file, or of its base64 for a ZIP archive
+
+export const TASK_IMPORT_FORMATS = ['csv', 'json', 'zip', 'ics'] as const;
+export type TaskImportFormat = typeof TASK_IMPORT_FORMATS[number];
+
+// What the file was saved by: a CSV file, a data export of this app, Todoist, Trello or a calendar app
+export type TaskImportSource = 'csv' | 'export' | 'todoist' | 'trello' | 'ics';
+
+export const TASK_IMPORT_FIELDS = [
+  'title',
+  'resume',
+  'description',
+  'category',
+  'priority',
+  'status',
+  'completed',
+  'dueDate',
+  'dueTime',
+  'tags',
+  'subtasks',
+] as const;
+export type TaskImportField = typeof TASK_IMPORT_FIELDS[number];
+
+// Column of each field in a CSV file; fields without a column are left empty
+export type CsvMapping = Partial<Record<TaskImportField, number>>;
+
+// `code` is the code of the field error reported for it (see `lib/apiError.ts`)
+export class TaskImportError extends Error {
+  constructor(message: string, public code: FieldErrorCode = 'invalid', public params?: Record<string, number>) {
+    super(message);
+  }
+}
+
+// A task as read from the file; its values are checked by `planTaskImport`
+export interface ImportedRow {
+  row: number; // Row of the CSV file (the header is row 1), or position of the task in a JSON file
+  title?: unknown;
+  resume?: unknown;
+  description?: unknown;
+  category?: string;
+  priority?: unknown;
+  status?: unknown;
+  completed?: unknown;
+  dueDate?: unknown;
+  dueTime?: unknown;
+  recurrence?: unknown;
+  tags?: string[];
+  subtasks?: { title: unknown; completed?: unknown; dueDate?: unknown }[];
+}
+
+// Details of a category or a tag saved by the file, checked when the category or tag is created
+export interface ImportedCategory {
+  name: string;
+  description?: unknown;
+  color?: unknown;
+  icon?: unknown;
+  parent?: string; // Name of the parent category
+}
+
+export interface ImportedTag {
+  name: string;
+  color?: unknown;
+}
+
+export interface ImportFile {
+  source: TaskImportSource;
+  columns?: string[]; // Header of a CSV file
+  mapping?: CsvMapping; // Mapping used to read a CSV file
+  rows: ImportedRow[];
+  categories?: ImportedCategory[];
+  tags?: ImportedTag[];
+}
+
+// A row as shown by the preview, with every error found in it
+export interface ImportPreviewRow {
+  row: number;
+  title: string;
+  category: string | null;
+  priority: string | null;
+  dueDate: Date | null;
+  completed: boolean;
+  tags: string[];
+  subtasks: number;
+  errors: FieldError[];
+}
+
+export interface TaskImportPlan {
+  rows: ImportPreviewRow[];
+  tasks: ITask[]; // The tasks of the valid rows
+  categories: ICategory[]; // Missing categories used by the valid rows
+  tags: ITag[]; // Missing tags used by the valid rows
+}
+
+const columnIndex = optional(number({ min: 0, integer: true, message: 'Invalid column' }));
+
+const csvMapping = object(
+  Object.fromEntries(TASK_IMPORT_FIELDS.map((field) => [field, columnIndex])),
+  { message: 'Invalid mapping' }
+) as Schema<CsvMapping>;
+
+const importBody = object({
+  format: oneOf(TASK_IMPORT_FORMATS, { message: 'Invalid format' }),
+  content: string({ label: 'File', max: MAX_IMPORT_SIZE, trim: false }),
+  mapping: optional(csvMapping),
+});
+
+// Header names recognized for each field, compared without case, spaces, dashes or underscores
+const COLUMN_NAMES: Record<TaskImportField, string[]> = {
+  title: ['title', 'name', 'task', 'content', 'subject'],
+  resume: ['resume', 'summary'],
+  description: ['description', 'notes', 'note', 'details', 'desc'],
+  category: ['category', 'project', 'list'],
+  priority: ['priority'],
+  status: ['status', 'state'],
+  completed: ['completed', 'done', 'complete', 'checked'],
+  dueDate: ['duedate', 'due', 'date', 'deadline'],
+  dueTime: ['duetime', 'time'],
+  tags: ['tags', 'tag', 'labels', 'label'],
+  subtasks: ['subtasks', 'checklist', 'checklists'],
+};
+
+const normalizeColumnName = (name: string) => name.toLowerCase().replace(/[\s_-]/g, '');
+
+export const suggestCsvMapping = (columns: string[]): CsvMapping => {
+  const names = columns.map(normalizeColumnName);
+  const mapping: CsvMapping = {};
+  for (const field of TASK_IMPORT_FIELDS) {
+    const index = names.findIndex((name) => COLUMN_NAMES[field].includes(name));
+    if (index !== -1) mapping[field] = index;
+  }
+  return mapping;
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x', 'done'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+// Unknown words are kept, so they are reported as an invalid value
+const parseCsvBoolean = (value?: string) => {
+  const normalized = value?.toLowerCase();
+  if (normalized && TRUE_VALUES.includes(normalized)) return true;
+  if (normalized && FALSE_VALUES.includes(normalized)) return false;
+  return value;
+};
+
+const splitList = (value?: string) => (value ? value.split(';').map((item) => item.trim()).filter(Boolean) : []);
+
+// Subtasks are written as `[x] Title` by the data export; other files may list only their titles
+const parseCsvSubtask = (value: string) => {
+  const match = value.match(/^\[([ xX]?)\]\s*(.*)$/);
+  return match ? { title: match[2], completed: /x/i.test(match[1]) } : { title: value };
+};
+
+const readCsv = (content: string, mapping?: CsvMapping): ImportFile => {
+  const [columns, ...lines] = parseCsv(content);
+  if (!columns) {
+    throw new TaskImportError('The file is empty', 'required');
+  }
+
+  const columnMapping = mapping || suggestCsvMapping(columns);
+  const rows = lines.map((values, index): ImportedRow => {
+    const cell = (field: TaskImportField) => {
+      const column = columnMapping[field];
+      return (column !== undefined && values[column]?.trim()) || undefined;
+    };
+    const title = cell('title');
+    return {
+      row: index + 2,
+      title,
+      resume: cell('resume') || title,
+      description: cell('description'),
+      category: cell('category'),
+      priority: cell('priority')?.toLowerCase(),
+      status: cell('status')?.toLowerCase(),
+      completed: parseCsvBoolean(cell('completed')),
+      dueDate: cell('dueDate'),
+      dueTime: cell('dueTime'),
+      tags: splitList(cell('tags')),
+      subtasks: splitList(cell('subtasks')).map(parseCsvSubtask),
+    };
+  });
+
+  return { source: 'csv', columns, mapping: columnMapping, rows };
+};
+
+const readExport = (data: ExportData): ImportFile => {
+  const categoryNames = new Map((data.categories || []).map((category) => [category.id, category.name]));
+  const tagNames = new Map((data.tags || []).map((tag) => [tag.id, tag.name]));
+
+  const rows = (data.tasks || []).map((task, index): ImportedRow => ({
+    row: index + 1,
+    title: task.title,
+    resume: task.resume,
+    description: task.description || undefined,
+    category: (task.categoryId && categoryNames.get(task.categoryId)) || undefined,
+    priority: task.priority || undefined,
+    status: task.status || undefined,
+    completed: task.completed,
+    dueDate: task.dueDate || undefined,
+    dueTime: task.dueTime || undefined,
+    recurrence: task.recurrence || undefined,
+    tags: (task.tagIds || []).map((id) => tagNames.get(id)).filter((name): name is string => Boolean(name)),
+    subtasks: (task.subtasks || []).map(({ title, completed, dueDate }) => ({ title, completed, dueDate })),
+  }));
+
+  return {
+    source: 'export',
+    rows,
+    categories: (data.categories || []).map((category) => ({
+      name: category.name,
+      description: category.description || undefined,
+      color: category.color || undefined,
+      icon: category.icon || undefined,
+      parent: (category.parentId && categoryNames.get(category.parentId)) || undefined,
+    })),
+    tags: (data.tags || []).map(({ name, color }) => ({ name, color })),
+  };
+};
+
+// Files of other apps are read as plain JSON; their values are checked with type guards before use
+type JsonObject = Record<string, unknown>;
+
+const isJsonObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The objects of a list; anything else is left out
+const objectsOf = (value: unknown): JsonObject[] => (Array.isArray(value) ? value.filter(isJsonObject) : []);
+
+const idOf = (value: unknown) => (value === undefined || value === null ? undefined : String(value));
+
+const isDataExport = (data: unknown): data is ExportData =>
+  isJsonObject(data) && data.format === DATA_EXPORT_FORMAT && Array.isArray(data.tasks);
+
+const isTodoistItem = (item: unknown): item is JsonObject => isJsonObject(item) && typeof item.content === 'string';
+
+// Names of the projects or labels of a Todoist file, by ID
+const namesById = (list: unknown) => new Map(
+  objectsOf(list)
+    .filter((entry) => typeof entry.name === 'string')
+    .map((entry) => [String(entry.id), entry.name as string])
+);
+
+// Todoist priorities go from 1 (the default) to 4 (urgent)
+const TODOIST_PRIORITIES: Record<number, string> = { 1: 'medium', 2: 'medium', 3: 'high', 4: 'highest' };
+
+// Dates without a time are whole-day tasks; dates with a time are in the user's time zone
+const readTodoistDue = (due: unknown) => {
+  const value = isJsonObject(due) && typeof due.date === 'string' ? due.date : undefined;
+  return { dueDate: value?.slice(0, 10), dueTime: value && value.length > 10 ? value.slice(11, 16) : undefined };
+};
+
+// Handles the backup of the Sync API (`items`) and the lists of tasks of the REST API (`tasks` or an array)
+const readTodoist = (data: unknown, items: JsonObject[]): ImportedRow[] => {
+  const file = isJsonObject(data) ? data : {};
+  const projectNames = namesById(file.projects);
+  const labelNames = namesById(file.labels);
+  const itemIds = new Set(items.map((item) => String(item.id)));
+  const parentId = (item: JsonObject) => idOf(item.parent_id ?? item.parentId);
+  const isCompleted = (item: JsonObject) => Boolean(item.checked ?? item.is_completed ?? item.isCompleted);
+
+  const rows: ImportedRow[] = [];
+  items.forEach((item, index) => {
+    // Sub-tasks become subtasks of their parent, when the parent is in the file
+    const parent = parentId(item);
+    if (parent && itemIds.has(parent)) return;
+
+    const projectId = idOf(item.project_id ?? item.projectId);
+    const subtasks = items
+      .filter((child) => parentId(child) === String(item.id))
+      .map((child) => ({ title: child.content, completed: isCompleted(child), dueDate: readTodoistDue(child.due).dueDate }));
+    const labels: unknown[] = Array.isArray(item.labels) ? item.labels : [];
+
+    rows.push({
+      row: index + 1,
+      title: item.content,
+      resume: item.content,
+      description: item.description || undefined,
+      category: projectId !== undefined ? projectNames.get(projectId) : undefined,
+      priority: TODOIST_PRIORITIES[Number(item.priority)] || undefined,
+      completed: isCompleted(item),
+      ...readTodoistDue(item.due),
+      tags: labels.map((label) => labelNames.get(String(label)) || String(label)),
+      subtasks,
+    });
+  });
+  return rows;
+};
+
+const formatTime = (date: Date) => `${`${date.getHours()}`.padStart(2, '0')}:${`${date.getMinutes()}`.padStart(2, '0')}`;
+
+// Trello due dates are instants, so the due time is the local time of that instant
+const readTrelloDue = (due: unknown) => {
+  const date = typeof due === 'string' ? new Date(due) : null;
+  if (!date || isNaN(date.getTime())) return { dueDate: due || undefined };
+  return { dueDate: due, dueTime: formatTime(date) };
+};
+
+// Archived cards, and the cards of archived lists, are left out
+const readTrello = (data: JsonObject, cards: unknown[]): ImportedRow[] => {
+  const lists = new Map(objectsOf(data.lists).map((list) => [list.id, list]));
+  const checklists = objectsOf(data.checklists);
+
+  const rows: ImportedRow[] = [];
+  cards.forEach((card, index) => {
+    if (!isJsonObject(card)) return;
+    const list = lists.get(card.idList);
+    if (card.closed || list?.closed) return;
+
+    const items = checklists
+      .filter((checklist) => checklist.idCard === card.id)
+      .flatMap((checklist) => objectsOf(checklist.checkItems));
+    rows.push({
+      row: index + 1,
+      title: card.name,
+      resume: card.name,
+      description: card.desc || undefined,
+      category: typeof list?.name === 'string' ? list.name : undefined,
+      completed: card.dueComplete === true,
+      ...(card.due ? readTrelloDue(card.due) : {}),
+      tags: objectsOf(card.labels)
+        .map((label) => label.name)
+        .filter((name): name is string => typeof name === 'string' && Boolean(name)),
+      subtasks: items.map((item) => ({ title: item.name, completed: item.state === 'complete' })),
+    });
+  });
+  return rows;
+};
+
+const readJson = (content: string): ImportFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new TaskImportError('Invalid JSON file');
+  }
+
+  if (isDataExport(data)) {
+    return readExport(data);
+  }
+  if (isJsonObject(data) && Array.isArray(data.cards) && Array.isArray(data.lists)) {
+    return { source: 'trello', rows: readTrello(data, data.cards) };
+  }
+  const todoistItems = Array.isArray(data) ? data : isJsonObject(data) ? data.items || data.tasks : undefined;
+  if (Array.isArray(todoistItems) && todoistItems.every(isTodoistItem)) {
+    return { source: 'todoist', rows: readTodoist(data, todoistItems) };
+  }
+  throw new TaskImportError('Unsupported JSON file');
+};
+
+const readArchive = (content: string): ImportFile => {
+  let files;
+  try {
+    files = readZip(Buffer.from(content, 'base64'));
+  } catch (error) {
+    if (error instanceof ZipError) throw new TaskImportError(error.message);
+    throw error;
+  }
+
+  const data = files.find(({ name }) => name === 'data.json');
+  const file = data ? readJson(data.content.toString('utf8')) : null;
+  if (!file || file.source !== 'export') {
+    throw new TaskImportError('The archive is not a data export');
+  }
+  return file;
+};
+
+// iCalendar priorities go from 1 (highest) to 9 (lowest); 0 means none
+const readIcsPriority = (value?: string) => {
+  const priority = Number(value);
+  if (!priority) return undefined;
+  const [name] = Object.entries(ICS_PRIORITIES).reduce((closest, entry) =>
+    Math.abs(entry[1] - priority) < Math.abs(closest[1] - priority) ? entry : closest);
+  return name;
+};
+
+// A rule that cannot be read is kept as is, so the row reports an invalid recurrence
+const readIcsRecurrence = (component: IcsComponent, start?: Date) => {
+  const rule = getIcsProperty(component, 'RRULE')?.value;
+  if (!rule || !start) return rule;
+  try {
+    return fromRRule(rule, start);
+  } catch (error) {
+    if (error instanceof RecurrenceError) return rule;
+    throw error;
+  }
+};
+
+// Cancelled events and the changed occurrences of recurring events (`RECURRENCE-ID`) are left out
+const readIcs = (content: string): ImportFile => {
+  let calendars;
+  try {
+    calendars = parseIcs(content);
+  } catch (error) {
+    if (error instanceof IcsError) throw new TaskImportError(error.message);
+    throw error;
+  }
+
+  const components = findIcsComponents(calendars, ['VTODO', 'VEVENT']).filter((component) =>
+    !getIcsProperty(component, 'RECURRENCE-ID') && getIcsText(component, 'STATUS')?.toUpperCase() !== 'CANCELLED');
+
+  const rows = components.map((component, index): ImportedRow => {
+    const due = component.name === 'VTODO'
+      ? getIcsDate(component, 'DUE') || getIcsDate(component, 'DTSTART')
+      : getIcsDate(component, 'DTSTART');
+    const [category, ...tags] = getIcsTextList(component, 'CATEGORIES');
+    const title = getIcsText(component, 'SUMMARY');
+    return {
+      row: index + 1,
+      title,
+      resume: title,
+      description: getIcsText(component, 'DESCRIPTION'),
+      category,
+      priority: readIcsPriority(getIcsText(component, 'PRIORITY')),
+      completed: getIcsText(component, 'STATUS')?.toUpperCase() === 'COMPLETED' || !!getIcsProperty(component, 'COMPLETED'),
+      dueDate: due?.date.toISOString(),
+      dueTime: due && !due.allDay ? formatTime(due.date) : undefined,
+      recurrence: readIcsRecurrence(component, due?.date),
+      tags,
+    };
+  });
+
+  return { source: 'ics', rows };
+};
+
+const READERS: Record<TaskImportFormat, (content: string, mapping?: CsvMapping) => ImportFile> = {
+  csv: readCsv,
+  json: readJson,
+  zip: readArchive,
+  ics: readIcs,
+};
+
+export const readImportFile = (format: TaskImportFormat, content: string, mapping?: CsvMapping): ImportFile => {
+  const file = READERS[format](content, mapping);
+  if (file.rows.length === 0) {
+    throw new TaskImportError('The file has no tasks', 'required');
+  }
+  if (file.rows.length > MAX_IMPORT_ROWS) {
+    throw new TaskImportError(`The file has more than ${MAX_IMPORT_ROWS} tasks`, 'too_long', { max: MAX_IMPORT_ROWS });
+  }
+  return file;
+};
+
+// Reads the file of the body, so a file that cannot be read is reported as an error of `content`
+export const taskImportSchema: Schema<ImportFile> = (value, path, errors) => {
+  const errorCount = errors.length;
+  const { format, content, mapping } = importBody(value, path, errors);
+  if (errors.length > errorCount) return undefined as never;
+
+  try {
+    return readImportFile(format, content, mapping);
+  } catch (error) {
+    if (!(error instanceof TaskImportError)) throw error;
+    errors.push({ path: 'content', code: error.code, message: error.message, ...(error.params && { params: error.params }) });
+    return undefined as never;
+  }
+};
+
+// The fields that `newTaskSchema` does not check
+const rowSchema = object({
+  status: optional(oneOf(TASK_STATUSES, { message: 'Invalid status' })),
+  completed: optional(boolean({ label: 'completed value' })),
+});
+
+const textOf = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Checks a row with the rules of `POST /api/tasks`, and builds its task with `createTask`
+const checkRow = (row: ImportedRow, userId: ObjectId, source: TaskImportSource) => {
+  const errors: FieldError[] = [];
+  const fields = newTaskSchema({
+    title: row.title,
+    resume: row.resume,
+    description: row.description,
+    priority: row.priority,
+    dueDate: row.dueDate,
+    dueTime: row.dueTime,
+    recurrence: row.recurrence,
+    subtasks: row.subtasks,
+  }, '', errors);
+  const { status, completed } = rowSchema({ status: row.status, completed: row.completed }, '', errors);
+  const isCompleted = completed ?? status === 'done';
+
+  const tags = Array.from(new Set((row.tags || []).map(normalizeTagName).filter(Boolean)));
+  if (tags.some((tag) => tag.length > MAX_TAG_NAME_LENGTH)) {
+    errors.push({
+      path: 'tags',
+      code: 'too_long',
+      message: `Tag name must be at most ${MAX_TAG_NAME_LENGTH} characters long`,
+      params: { max: MAX_TAG_NAME_LENGTH },
+    });
+  }
+
+  const { dueDate, dueTime, recurrence } = fields;
+  if (dueTime && !dueDate) {
+    errors.push({ path: 'dueTime', code: 'due_date_required', message: 'Please provide a due date if you set a time.' });
+  }
+  if (recurrence && !dueDate) {
+    errors.push({ path: 'recurrence', code: 'due_date_required', message: 'Recurring tasks require a due date' });
+  }
+  if (dueDate && !isNaN(dueDate.getTime())) {
+    const [hours, minutes] = dueTime ? dueTime.split(':').map(Number) : [23, 59];
+    dueDate.setHours(hours, minutes, 0, 0);
+    // Completed tasks and the tasks of a data export keep the due date they had
+    if (dueDate < new Date() && !isCompleted && source !== 'export') {
+      errors.push({ path: 'dueDate', code: 'past_date', message: 'Cannot set a due date in the past' });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { task: null, tags, errors };
+  }
+
+  // `createTask` rejects past due dates, so a past date that is kept is set on the task it builds
+  const isPastDueDate = !!dueDate && dueDate < new Date();
+  try {
+    const task = createTask({
+      title: fields.title,
+      resume: fields.resume,
+      description: fields.description,
+      userId,
+      dueDate: isPastDueDate ? undefined : dueDate,
+      dueTime: (!isPastDueDate && dueTime) || undefined,
+      priority: fields.priority,
+      completed: isCompleted,
+      status: isCompleted ? 'done' : status === 'done' ? 'todo' : status,
+      recurrence: recurrence || undefined,
+      subtasks: (fields.subtasks || []).map((subtask) => ({
+        _id: new ObjectId(),
+        title: subtask.title,
+        completed: subtask.completed === true,
+        dueDate: subtask.dueDate ?? null,
+      })),
+    });
+    if (isPastDueDate) {
+      Object.assign(task, { dueDate, dueTime: dueTime || undefined });
+    }
+    return { task, tags, errors };
+  } catch (error) {
+    errors.push({ path: '', code: 'invalid', message: (error as Error).message });
+    return { task: null, tags, errors };
+  }
+};
+
+const nameKey = (name: string) => name.toLowerCase();
+
+const categoryNameOf = (value: unknown) => textOf(value).replace(/\s+/g, ' ');
+
+// Details that fail the rules of `POST /api/categories` are left out
+const categoryDetailsOf = (category?: ImportedCategory) => {
+  if (!category) return {};
+  const errors: FieldError[] = [];
+  const { description, color, icon } = newCategorySchema({
+    name: category.name,
+    description: category.description,
+    color: category.color,
+    icon: category.icon,
+  }, '', errors);
+  return errors.length > 0 ? {} : { description, color: color ?? undefined, icon: icon ?? undefined };
+};
+
+// Nothing is saved: the categories and tags to create get their IDs now, so the tasks can reference them
+export const planTaskImport = async (db: Db, userId: ObjectId, file: ImportFile): Promise<TaskImportPlan> => {
+  const [existingCategories, existingTags] = await Promise.all([
+    db.collection('categories').find({ userId }, { projection: { name: 1 } }).toArray(),
+    db.collection('tags').find({ userId }, { projection: { name: 1 } }).toArray(),
+  ]);
+  const categoryIds = new Map(existingCategories.map((category) => [nameKey(category.name), category._id]));
+  const tagIds = new Map(existingTags.map((tag) => [nameKey(tag.name), tag._id]));
+
+  const fileCategories = new Map((file.categories || []).map((category) => [nameKey(categoryNameOf(category.name)), category]));
+  const fileTagColors = new Map((file.tags || []).map((tag) => [nameKey(normalizeTagName(tag.name)), tag.color]));
+
+  const plan: TaskImportPlan = { rows: [], tasks: [], categories: [], tags: [] };
+
+  // A missing parent is planned before its sub-category; `planning` stops at a loop of parents in the file
+  const findOrPlanCategory = (name: string, planning = new Set<string>()): ObjectId => {
+    if (!categoryIds.has(nameKey(name))) {
+      planning.add(nameKey(name));
+      const fileCategory = fileCategories.get(nameKey(name));
+      const parent = fileCategory?.parent && categoryNameOf(fileCategory.parent);
+      const parentId = parent && !planning.has(nameKey(parent)) ? findOrPlanCategory(parent, planning) : null;
+
+      const category = createCategory({ name, userId, ...categoryDetailsOf(fileCategory), parentId });
+      plan.categories.push(category);
+      categoryIds.set(nameKey(name), category._id!);
+    }
+    return categoryIds.get(nameKey(name))!;
+  };
+
+  const findOrPlanTag = (name: string) => {
+    if (!tagIds.has(nameKey(name))) {
+      const color = fileTagColors.get(nameKey(name));
+      const tag = createTag({ name, userId, ...(isValidTagColor(color) ? { color } : {}) });
+      plan.tags.push(tag);
+      tagIds.set(nameKey(name), tag._id!);
+    }
+    return tagIds.get(nameKey(name))!;
+  };
+
+  for (const row of file.rows) {
+    const { task, tags, errors } = checkRow(row, userId, file.source);
+    const category = categoryNameOf(row.category) || null;
+
+    if (task) {
+      task.categoryId = category ? findOrPlanCategory(category).toString() : undefined;
+      task.tagIds = tags.map(findOrPlanTag);
+      plan.tasks.push(task);
+    }
+
+    plan.rows.push({
+      row: row.row,
+      title: textOf(row.title),
+      category,
+      priority: task?.priority || textOf(row.priority) || null,
+      dueDate: task?.dueDate || null,
+      completed: task?.completed ?? row.completed === true,
+      tags,
+      subtasks: row.subtasks?.length || 0,
+      errors,
+    });
+  }
+
+  return plan;
+};
+
+export const saveTaskImport = async (db: Db, plan: TaskImportPlan) => {
+  if (plan.categories.length > 0) {
+    await db.collection('categories').insertMany(plan.categories);
+  }
+  if (plan.tags.length > 0) {
+    await db.collection('tags').insertMany(plan.tags);
+  }
+  if (plan.tasks.length > 0) {
+    await db.collection('tasks').insertMany(plan.tasks);
+  }
+};
@@ -0,0 +1,90 @@
+//
+/**
+ * lib/taskList.ts
+ * Sorting and grouping helpers for the list view of tasks.
+ *
+ * It includes:
+ * - `PRIORITY_ORDER`: Priority levels from the most to the least urgent.
+ * - `sortTasks`: Returns a sorted copy of the tasks for a given column and direction.
+ * - `groupTasks`: Splits tasks into labelled groups by category or priority.
+ *
+ * Tasks without a value for the sorted column (no due date, no category) are always placed last,
+ * whatever the sort direction.
+ */
+
+import { Task, Category } from '@/types/TaskCategoryTypes';
+
+export type TaskSortKey = 'title' | 'priority' | 'dueDate' | 'category' | 'createdAt';
+export type SortDirection = 'asc' | 'desc';
+export type TaskGroupBy = 'none' | 'category' | 'priority';
+
+export const PRIORITY_ORDER: Task['priority'][] = ['highest', 'high', 'medium', 'low', 'lowest'];
+
+export interface TaskGroup {
+  key: string;
+  tasks: Task[];
+}
+
+const getSortValue = (task: Task, key: TaskSortKey, categories: Category[]): string | number | null => {
+  switch (key) {
+    case 'title':
+      return task.title.toLowerCase();
+    case 'priority':
+      return PRIORITY_ORDER.indexOf(task.priority);
+    case 'dueDate':
+      return task.dueDate ? new Date(task.dueDate).getTime() : null;
+    case 'category':
+      return categories.find((cat) => cat._id === task.categoryId)?.name.toLowerCase() ?? null;
+    case 'createdAt':
+      return task.createdAt ? new Date(task.createdAt).getTime() : null;
+    default:
+      return null;
+  }
+};
+
+export const sortTasks = (
+  tasks: Task[],
+  key: TaskSortKey,
+  direction: SortDirection,
+  categories: Category[] = []
+): Task[] => {
+  const modifier = direction === 'asc' ? 1 : -1;
+
+  return [...tasks].sort((a, b) => {
+    const valueA = getSortValue(a, key, categories);
+    const valueB = getSortValue(b, key, categories);
+
+    if (valueA === null && valueB === null) return 0;
+    if (valueA === null) return 1;
+    if (valueB === null) return -1;
+    if (valueA < valueB) return -1 * modifier;
+    if (valueA > valueB) return 1 * modifier;
+    return 0;
+  });
+};
+
+/**
+ * Groups already sorted tasks, keeping their order inside each group.
+ * Category groups use the category ID as key ('' for uncategorized tasks).
+ */
+export const groupTasks = (tasks: Task[], groupBy: TaskGroupBy, categories: Category[] = []): TaskGroup[] => {
+  if (groupBy === 'none') {
+    return [{ key: '', tasks }];
+  }
+
+  const keys =
+    groupBy === 'priority'
+      ? PRIORITY_ORDER
+      : [...categories.map((cat) => cat._id), ''];
+
+  return keys
+    .map((key) => ({
+      key,
+      tasks: tasks.filter((task) =>
+        groupBy === 'priority'
+          ? task.priority === key
+          : (categories.some((cat) => cat._id === task.categoryId) ? task.categoryId : '') === key
+      ),
+    }))
+    .filter((group) => group.tasks.length > 0);
+};
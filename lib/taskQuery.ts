@@ -0,0 +1,219 @@
+//
+/**
+ * lib/taskQuery.ts
+ * Translates the query string of `GET /api/tasks` into a MongoDB filter, sort and cursor.
+ *
+ * Supported parameters:
+ * - `priority`: Comma-separated priority levels (e.g. `high,highest`).
+ * - `category`: A category ID, or `none` for tasks without a category.
+ * - `completed`: `true` or `false`.
+ * - `dueFrom` / `dueTo`: Inclusive due-date range (ISO dates; `dueTo` without a time covers the whole day).
+ * - `overdue`: `true` to only return open tasks past their due date.
+ * - `tags` / `tagMatch`: Comma-separated tag IDs, matching tasks with `any` (default) or `all` of them.
+ * - `q`: Case-insensitive text search on the title and resume.
+ * - `ready`: `true` to only return open tasks whose blockers are all completed. The route adds this
+ *   condition with the aggregation stages of `buildReadyStages` (see `lib/dependencies.ts`), as it looks up
+ *   the blockers of each task.
+ * - `sort` / `order`: Sort field (`createdAt`, `dueDate` or `title`) and direction (`asc` or `desc`).
+ * - `limit` / `cursor`: Page size (`DEFAULT_PAGE_SIZE` when missing, at most `MAX_PAGE_SIZE`) and the opaque
+ *   cursor returned as `nextCursor` by the previous page.
+ *
+ * Cursors encode the sort value and `_id` of the last task of a page, so pages stay stable while
+ * tasks are added or removed. Tasks without a value for the sort field come first in ascending
+ * order and last in descending order, matching MongoDB's own ordering of missing values.
+ *
+ * @throws TaskQueryError - When a parameter is malformed, with the name of the parameter; routes answer with 400.
+ */
+
+import { ObjectId, Filter, Document, Sort } from 'mongodb';
+import { escapeRegex } from '@/lib/utils';
+
+export const TASK_SORT_FIELDS = ['createdAt', 'dueDate', 'title'] as const;
+export type TaskSortField = typeof TASK_SORT_FIELDS[number];
+
+const VALID_PRIORITIES = ['highest', 'high', 'medium', 'low', 'lowest'];
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+export class TaskQueryError extends Error {
+  constructor(message: string, public param: string) {
+    super(message);
+  }
+}
+
+export interface TaskQuery {
+  filter: Filter<Document>;
+  sort: Sort;
+  sortField: TaskSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursorFilter?: Filter<Document>;
+  ready: boolean;
+}
+
+interface CursorPayload {
+  v: string | null; // Sort value of the last task, serialized
+  d?: boolean; // Whether `v` is a date
+  id: string; // _id of the last task
+}
+
+const parseDate = (value: string, name: string, endOfDay = false): Date => {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new TaskQueryError(`Invalid ${name} date`, name);
+  }
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+};
+
+export const encodeCursor = (task: Document, sortField: TaskSortField): string => {
+  const value = task[sortField];
+  const payload: CursorPayload = {
+    v: value === undefined || value === null ? null : value instanceof Date ? value.toISOString() : String(value),
+    d: value instanceof Date || undefined,
+    id: task._id.toString(),
+  };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+};
+
+const decodeCursor = (cursor: string): { value: Date | string | null; id: ObjectId } => {
+  try {
+    const payload: CursorPayload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!ObjectId.isValid(payload.id)) throw new Error('Invalid cursor id');
+    const value = payload.v === null ? null : payload.d ? new Date(payload.v) : payload.v;
+    return { value, id: new ObjectId(payload.id) };
+  } catch (error) {
+    throw new TaskQueryError('Invalid cursor', 'cursor');
+  }
+};
+
+// Builds the condition selecting the tasks that come after the cursor in the current sort order
+const buildCursorFilter = (
+  sortField: TaskSortField,
+  order: 'asc' | 'desc',
+  value: Date | string | null,
+  id: ObjectId
+): Filter<Document> => {
+  if (order === 'asc') {
+    if (value === null) {
+      return { $or: [{ [sortField]: null, _id: { $gt: id } }, { [sortField]: { $ne: null } }] };
+    }
+    return { $or: [{ [sortField]: { $gt: value } }, { [sortField]: value, _id: { $gt: id } }] };
+  }
+
+  if (value === null) {
+    return { [sortField]: null, _id: { $lt: id } };
+  }
+  return {
+    $or: [
+      { [sortField]: { $lt: value } },
+      { [sortField]: value, _id: { $lt: id } },
+      { [sortField]: null },
+    ],
+  };
+};
+
+export const parseTaskQuery = (params: URLSearchParams, userId: ObjectId, now: Date = new Date()): TaskQuery => {
+  const conditions: Filter<Document>[] = [{ userId }];
+
+  const priority = params.get('priority');
+  if (priority) {
+    const priorities = priority.split(',').map((p) => p.trim().toLowerCase()).filter(Boolean);
+    if (priorities.some((p) => !VALID_PRIORITIES.includes(p))) {
+      throw new TaskQueryError('Invalid priority level', 'priority');
+    }
+    conditions.push({ priority: { $in: priorities } });
+  }
+
+  const category = params.get('category');
+  if (category) {
+    conditions.push(category === 'none' ? { categoryId: { $in: [null, ''] } } : { categoryId: category });
+  }
+
+  const tags = params.get('tags');
+  if (tags) {
+    const tagIds = tags.split(',').map((id) => id.trim()).filter(Boolean);
+    if (tagIds.some((id) => !ObjectId.isValid(id))) {
+      throw new TaskQueryError('Invalid tag', 'tags');
+    }
+    const tagMatch = params.get('tagMatch') || 'any';
+    if (tagMatch !== 'any' && tagMatch !== 'all') {
+      throw new TaskQueryError('Invalid tagMatch value', 'tagMatch');
+    }
+    const ids = tagIds.map((id) => new ObjectId(id));
+    conditions.push({ tagIds: tagMatch === 'all' ? { $all: ids } : { $in: ids } });
+  }
+
+  const completed = params.get('completed');
+  if (completed !== null && completed !== '') {
+    if (completed !== 'true' && completed !== 'false') {
+      throw new TaskQueryError('Invalid completed value', 'completed');
+    }
+    conditions.push(completed === 'true' ? { completed: true } : { completed: { $ne: true } });
+  }
+
+  const dueRange: Record<string, Date> = {};
+  const dueFrom = params.get('dueFrom');
+  const dueTo = params.get('dueTo');
+  if (dueFrom) dueRange.$gte = parseDate(dueFrom, 'dueFrom');
+  if (dueTo) dueRange.$lte = parseDate(dueTo, 'dueTo', true);
+  if (Object.keys(dueRange).length > 0) {
+    conditions.push({ dueDate: dueRange });
+  }
+
+  if (params.get('overdue') === 'true') {
+    conditions.push({ dueDate: { $lt: now }, completed: { $ne: true } });
+  }
+
+  const search = params.get('q')?.trim();
+  if (search) {
+    const pattern = new RegExp(escapeRegex(search), 'i');
+    conditions.push({ $or: [{ title: pattern }, { resume: pattern }] });
+  }
+
+  const ready = params.get('ready');
+  if (ready !== null && ready !== '' && ready !== 'true' && ready !== 'false') {
+    throw new TaskQueryError('Invalid ready value', 'ready');
+  }
+
+  const sortField = (params.get('sort') || 'createdAt') as TaskSortField;
+  if (!TASK_SORT_FIELDS.includes(sortField)) {
+    throw new TaskQueryError('Invalid sort field', 'sort');
+  }
+
+  const order = params.get('order') || (sortField === 'createdAt' ? 'desc' : 'asc');
+  if (order !== 'asc' && order !== 'desc') {
+    throw new TaskQueryError('Invalid sort order', 'order');
+  }
+
+  let limit = DEFAULT_PAGE_SIZE;
+  const limitParam = params.get('limit');
+  if (limitParam) {
+    limit = Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new TaskQueryError('Invalid limit', 'limit');
+    }
+    limit = Math.min(limit, MAX_PAGE_SIZE);
+  }
+
+  let cursorFilter: Filter<Document> | undefined;
+  const cursor = params.get('cursor');
+  if (cursor) {
+    const { value, id } = decodeCursor(cursor);
+    cursorFilter = buildCursorFilter(sortField, order, value, id);
+  }
+
+  const direction = order === 'asc' ? 1 : -1;
+
+  return {
+    filter: conditions.length === 1 ? conditions[0] : { $and: conditions },
+    sort: { [sortField]: direction, _id: direction },
+    sortField,
+    order,
+    limit,
+    cursorFilter,
+    ready: ready === 'true',
+  };
+};
@@ -0,0 +1,133 @@
+//
+/**
+ * lib/taskSchema.ts
+ * Schemas of the task and subtask routes (see `lib/schema.ts`).
+ *
+ * It includes:
+ * - `taskParamsSchema` and `subtaskParamsSchema`: The IDs in the URL of the task and subtask routes.
+ * - `newTaskSchema`: The body of `POST /api/tasks`, including its initial subtasks.
+ * - `taskUpdateSchema`: The body of `PUT /api/tasks/[id]`, where every field is optional.
+ * - `newSubtaskSchema`, `subtaskUpdateSchema` and `subtaskOrderSchema`: The bodies of the subtask routes.
+ * - `taskBatchSchema`: The body of `POST /api/tasks/batch`, an action applied to many tasks (see `lib/taskBatch.ts`).
+ *
+ * Checks that need the database, such as the ownership of the category, tags and dependencies, are made by
+ * the routes once the body is valid.
+ */
+
+import { TASK_STATUSES } from '@/models/Task';
+import { parseRecurrence, RecurrenceError } from '@/lib/recurrence';
+import { DependencyError, parseDependencyIds } from '@/lib/dependencies';
+import {
+  array,
+  boolean,
+  custom,
+  date,
+  nullable,
+  number,
+  object,
+  objectId,
+  oneOf,
+  optional,
+  Schema,
+  string,
+} from '@/lib/schema';
+import { ObjectId } from 'mongodb';
+
+const TASK_PRIORITIES = ['highest', 'high', 'medium', 'low', 'lowest'] as const;
+
+export const TASK_BATCH_ACTIONS = ['complete', 'uncomplete', 'priority', 'category', 'reschedule', 'delete'] as const;
+export type TaskBatchAction = typeof TASK_BATCH_ACTIONS[number];
+
+// The tasks page splits larger selections into several requests (see `lib/taskSelection.ts`)
+export const MAX_BATCH_TASKS = 500;
+
+export const taskParamsSchema = object({ id: objectId({ label: 'task ID' }) });
+
+export const subtaskParamsSchema = object({
+  id: objectId({ label: 'task ID' }),
+  subtaskId: objectId({ label: 'subtask ID' }),
+});
+
+const title = string({ label: 'Title' });
+const resume = string({ label: 'Resume' });
+const description = string({ label: 'Description', empty: true });
+const priority = oneOf(TASK_PRIORITIES, { message: 'Invalid priority level' });
+const dueDate = optional(date({ message: 'Invalid due date' }), { blank: true });
+// An empty time leaves the task due at the end of the day
+const dueTime = string({ empty: true, pattern: /^$|^([01]\d|2[0-3]):[0-5]\d$/, message: 'Invalid due time' });
+const recurrence = custom(parseRecurrence, RecurrenceError);
+const autoCompleteSubtasks = boolean({ label: 'autoCompleteSubtasks' });
+const blockedBy = custom((value) => parseDependencyIds(value, 'blockedBy'), DependencyError);
+const blocks = custom((value) => parseDependencyIds(value, 'blocks'), DependencyError);
+const tagIds = array(objectId({ message: 'Invalid tagIds' }), { message: 'Invalid tagIds' });
+
+// Tasks without a category have a null or empty `categoryId`
+const categoryId: Schema<ObjectId | null> = (value, path, errors) =>
+  value === '' ? null : nullable(objectId({ message: 'Invalid category' }))(value, path, errors);
+
+const subtaskTitle = string({ message: 'Subtask title is required', required: 'Subtask title is required' });
+const subtaskDueDate = optional(nullable(date({ message: 'Invalid subtask due date' })), { blank: true });
+
+export const newTaskSchema = object({
+  title,
+  resume,
+  description: optional(description),
+  categoryId: optional(categoryId),
+  priority: optional(priority),
+  dueDate,
+  dueTime: optional(dueTime),
+  recurrence: optional(nullable(recurrence)),
+  subtasks: optional(array(object({
+    title: subtaskTitle,
+    completed: optional(boolean()),
+    dueDate: subtaskDueDate,
+  }), { message: 'Invalid subtasks' })),
+  autoCompleteSubtasks: optional(autoCompleteSubtasks),
+  blockedBy: optional(blockedBy),
+  blocks: optional(blocks),
+  tagIds: optional(tagIds),
+});
+
+export const taskUpdateSchema = object({
+  title: optional(title),
+  resume: optional(resume),
+  description: optional(description),
+  categoryId: optional(categoryId),
+  completed: optional(boolean({ label: 'completed value' })),
+  priority: optional(priority),
+  dueDate,
+  dueTime: optional(dueTime),
+  status: optional(oneOf(TASK_STATUSES, { message: 'Invalid status' })),
+  position: optional(number({ min: 0, message: 'Invalid position' })),
+  recurrence: optional(nullable(recurrence)), // null removes the rule
+  autoCompleteSubtasks: optional(autoCompleteSubtasks),
+  blockedBy: optional(blockedBy),
+  blocks: optional(blocks),
+  force: optional(boolean({ label: 'force' })),
+  tagIds: optional(tagIds),
+});
+
+export const newSubtaskSchema = object({
+  title: subtaskTitle,
+  dueDate: subtaskDueDate,
+});
+
+export const subtaskUpdateSchema = object({
+  title: optional(subtaskTitle),
+  completed: optional(boolean({ label: 'completed value' })),
+  dueDate: optional(nullable(date({ message: 'Invalid subtask due date' }))),
+});
+
+export const subtaskOrderSchema = object({
+  subtaskIds: array(objectId({ message: 'Invalid subtask list' }), { message: 'Invalid subtask list' }),
+});
+
+// The value of the action is checked by `applyTaskBatch`: `priority`, `categoryId` or `dueDate`
+export const taskBatchSchema = object({
+  action: oneOf(TASK_BATCH_ACTIONS, { message: 'Invalid action' }),
+  taskIds: array(objectId({ message: 'Invalid task list' }), { max: MAX_BATCH_TASKS, message: 'Invalid task list' }),
+  priority: optional(priority),
+  categoryId: optional(categoryId),
+  dueDate: optional(date({ message: 'Invalid due date' })),
+  force: optional(boolean({ label: 'force' })),
+});
@@ -0,0 +1,89 @@
+//
+/**
+ * lib/taskSelection.ts
+ * Selection of many tasks on the tasks page, and the bulk actions applied to them.
+ *
+ * It includes:
+ * - `toggleTaskSelection`: Selects or unselects a task, or a range of tasks when the shift key is held.
+ * - `fetchFilteredTaskIds`: The IDs of every task matching the filters, including the pages not loaded yet.
+ * - `runTaskBatch`: Applies an action to the selected tasks through `POST /api/tasks/batch`, in requests of up to
+ *   `MAX_BATCH_TASKS` tasks, so a selection of every filtered task can be larger than one request allows.
+ */
+
+import { apiFetch } from '@/lib/apiFetch';
+import { buildTaskQueryString, fetchAllTasks, TaskFilters } from '@/lib/taskFilters';
+import { TaskBatchRequest, TaskBatchResponse, TaskBatchResult } from '@/types/TaskBatchTypes';
+
+// Largest number of tasks `POST /api/tasks/batch` takes in one request
+export const MAX_BATCH_TASKS = 500;
+
+/**
+ * Returns the new selection after a click on the checkbox of `taskId`. With `range`, every task shown between
+ * `anchorId` (the task clicked before) and `taskId` is added; without an anchor on the page, only `taskId` toggles.
+ */
+export const toggleTaskSelection = (
+  selectedIds: string[],
+  shownIds: string[],
+  taskId: string,
+  { anchorId, range = false }: { anchorId?: string | null; range?: boolean } = {}
+): string[] => {
+  const from = anchorId ? shownIds.indexOf(anchorId) : -1;
+  const to = shownIds.indexOf(taskId);
+
+  if (range && from !== -1 && to !== -1) {
+    const rangeIds = shownIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+    return Array.from(new Set([...selectedIds, ...rangeIds]));
+  }
+
+  return selectedIds.includes(taskId)
+    ? selectedIds.filter((id) => id !== taskId)
+    : [...selectedIds, taskId];
+};
+
+export const fetchFilteredTaskIds = async (filters: TaskFilters): Promise<string[]> => {
+  const tasks = await fetchAllTasks(buildTaskQueryString(filters));
+  return tasks.map((task) => task._id);
+};
+
+const postTaskBatch = async (request: TaskBatchRequest): Promise<TaskBatchResponse> => {
+  const response = await apiFetch('/api/tasks/batch', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to update tasks');
+  }
+
+  return response;
+};
+
+/**
+ * Sends the tasks in requests of up to `MAX_BATCH_TASKS` tasks and merges their results, in the order of
+ * `request.taskIds`. A task blocked only by tasks that another request completed is sent again afterwards, as one
+ * request would have completed it.
+ */
+export const runTaskBatch = async (request: TaskBatchRequest): Promise<TaskBatchResponse> => {
+  const taskIds = Array.from(new Set(request.taskIds));
+  const results = new Map<string, TaskBatchResult>();
+  const retried = new Set<string>();
+
+  let pending = taskIds;
+  while (pending.length > 0) {
+    for (let start = 0; start < pending.length; start += MAX_BATCH_TASKS) {
+      const response = await postTaskBatch({ ...request, taskIds: pending.slice(start, start + MAX_BATCH_TASKS) });
+      response.results.forEach((result) => results.set(result.taskId, result));
+    }
+
+    // Each task is sent again at most once, in case a blocker was reopened meanwhile
+    pending = taskIds.filter((taskId) => {
+      const blockers = results.get(taskId)?.blockers;
+      return !retried.has(taskId) && blockers && blockers.every((blocker) => results.get(blocker._id)?.success);
+    });
+    pending.forEach((taskId) => retried.add(taskId));
+  }
+
+  const merged = taskIds.map((taskId) => results.get(taskId)!);
+  const updatedCount = merged.filter((result) => result.success).length;
+  return { action: request.action, updatedCount, failedCount: merged.length - updatedCount, results: merged };
+};
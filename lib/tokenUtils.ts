@@ -12,6 +12,7 @@
 import { apiFetch } from '@/lib/apiFetch';
 
 export const getToken = () => localStorage.getItem('token');
+export const setToken = (token: string) => localStorage.setItem('token', token);
 export const clearToken = () => localStorage.removeItem('token');
 
 // Function to verify token with API
@@ -0,0 +1,78 @@
+//
+/**
+ * lib/twoFactor.ts
+ * Two-factor authentication with TOTP codes (see `lib/totp.ts`) and one-time recovery codes.
+ *
+ * Enrollment stores a pending secret that only becomes active once the user types a code from their app.
+ * Recovery codes are shown once, when 2FA is enabled or the codes are regenerated; only their hashes are stored
+ * and each works once. A TOTP code is also accepted only once: the time step of the last accepted code is kept
+ * on the user and older or equal steps are refused.
+ *
+ * It includes:
+ * - `generateRecoveryCodes`: Creates a set of recovery codes and their hashes.
+ * - `verifySecondFactor`: Checks a TOTP or recovery code for a user and consumes it.
+ * - `TWO_FACTOR_FIELDS`: The 2FA fields of a user, to remove them all when 2FA is disabled.
+ */
+
+import { randomBytes } from 'crypto';
+import { Db } from 'mongodb';
+import { IUser } from '@/models/User';
+import { hashSecureToken } from '@/lib/secureTokens';
+import { base32Encode, findTotpStep } from '@/lib/totp';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+export const TWO_FACTOR_FIELDS = {
+  twoFactorEnabled: '',
+  twoFactorSecret: '',
+  twoFactorPendingSecret: '',
+  twoFactorRecoveryCodes: '',
+  twoFactorLastUsedStep: '',
+} as const;
+
+// Codes are compared without dashes, spaces or case, however the user typed them
+const normalizeCode = (code: string) => code.replace(/[\s-]/g, '').toLowerCase();
+
+const hashRecoveryCode = (code: string) => hashSecureToken(normalizeCode(code));
+
+// Codes look like "k4mz-q7ta": 40 random bits, in base32 so they avoid ambiguous characters
+export const generateRecoveryCodes = () => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(randomBytes(5)).toLowerCase();
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+/**
+ * Checks a code typed by a user with 2FA enabled (or being disabled) and consumes it.
+ * Resolves to the kind of code accepted, or null when it is wrong or was already used.
+ */
+export const verifySecondFactor = async (
+  db: Db,
+  user: Pick<IUser, '_id' | 'twoFactorSecret'>,
+  code: string
+): Promise<'totp' | 'recovery' | null> => {
+  const usersCollection = db.collection<IUser>('users');
+  const normalized = normalizeCode(code);
+
+  const step = user.twoFactorSecret ? findTotpStep(user.twoFactorSecret, normalized) : null;
+  if (step !== null) {
+    // The condition on the last step makes the check and its update atomic
+    const result = await usersCollection.updateOne(
+      {
+        _id: user._id,
+        $or: [{ twoFactorLastUsedStep: { $exists: false } }, { twoFactorLastUsedStep: { $lt: step } }],
+      },
+      { $set: { twoFactorLastUsedStep: step } }
+    );
+    return result.modifiedCount > 0 ? 'totp' : null;
+  }
+
+  const hash = hashRecoveryCode(normalized);
+  const result = await db.collection<{ twoFactorRecoveryCodes?: string[] }>('users').updateOne(
+    { _id: user._id, twoFactorRecoveryCodes: hash },
+    { $pullAll: { twoFactorRecoveryCodes: [hash] } }
+  );
+  return result.modifiedCount > 0 ? 'recovery' : null;
+};
@@ -5,11 +5,21 @@
  * 
  * Contains functions to fetch and update the user profile, handling session expiration and token validation
  * using the `apiFetch` function. Ensures secure and reliable profile data handling.
+ * It also lists and revokes the user's sessions (logged-in devices), lists the failed login attempts on the account, asks for a new email verification link, and
+ * changes the email or password. Failed requests throw an `ApiError` whose `code` tells the reason (such as
+ * `PASSWORD_INCORRECT` or `EMAIL_IN_USE`).
+ * Two-factor authentication is enrolled, disabled and given new recovery codes from here as well.
+ * Finally, the account can be scheduled for deletion and restored during its grace period, and its data exported.
+ * The iCalendar feeds that publish the tasks to calendar apps are created and revoked here, and a single task can be
+ * downloaded as an `.ics` file.
  * 
  * @returns - Returns user profile data or throws an error on failure.
  */
 
-import { apiFetch } from '@/lib/apiFetch'; // Using the apiFetch function
+import { apiDownload, apiFetch } from '@/lib/apiFetch'; // Using the apiFetch function
+import { FailedLoginAttempt, UserSession } from '@/types/SessionTypes';
+import { DataExportFormat, DataExportJob } from '@/types/DataExportTypes';
+import { CalendarFeed, CalendarFeedComponent } from '@/types/CalendarFeedTypes';
 
 // Fetch the user profile from the API
 export const fetchProfile = async (): Promise<any> => {
@@ -49,3 +59,260 @@ export const updateProfile = async (profileData: any): Promise<any> => {
     throw error;
   }
 };
+
+// Fetch the active sessions of the user
+export const fetchSessions = async (): Promise<UserSession[]> => {
+  const response = await apiFetch('/api/auth/sessions', { method: 'GET' });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to fetch sessions');
+  }
+
+  return response.sessions;
+};
+
+// Revoke one session; resolves to true when it was the session of this browser
+export const revokeSession = async (sessionId: string): Promise<boolean> => {
+  const response = await apiFetch(`/api/auth/sessions/${sessionId}`, { method: 'DELETE' });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to revoke session');
+  }
+
+  return response.current === true;
+};
+
+// Revoke every session except the one of this browser
+export const revokeOtherSessions = async (): Promise<number> => {
+  const response = await apiFetch('/api/auth/sessions', { method: 'DELETE' });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to revoke sessions');
+  }
+
+  return response.revoked;
+};
+
+// Fetch the failed login attempts on the account, most recent first
+export const fetchLoginAttempts = async (): Promise<FailedLoginAttempt[]> => {
+  const response = await apiFetch('/api/auth/login-attempts', { method: 'GET' });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to fetch login attempts');
+  }
+
+  return response.attempts;
+};
+
+// Send a new link to confirm the email of the logged-in user
+export const resendVerificationEmail = async (): Promise<void> => {
+  const response = await apiFetch('/api/auth/resend-verification', { method: 'POST' });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to send verification email');
+  }
+};
+
+// Ask to change the email; the new address is applied once its verification link is opened
+export const changeEmail = async (currentPassword: string, email: string): Promise<string> => {
+  const response = await apiFetch('/api/users/email', {
+    method: 'PUT',
+    body: JSON.stringify({ currentPassword, email }),
+  });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to change email');
+  }
+
+  return response.pendingEmail;
+};
+
+// Cancel a pending email change
+export const cancelEmailChange = async (): Promise<void> => {
+  const response = await apiFetch('/api/users/email', { method: 'DELETE' });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to cancel email change');
+  }
+};
+
+// Change the password; resolves to the number of other sessions that were logged out
+export const changePassword = async (currentPassword: string, newPassword: string): Promise<number> => {
+  const response = await apiFetch('/api/users/password', {
+    method: 'PUT',
+    body: JSON.stringify({ currentPassword, newPassword }),
+  });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to change password');
+  }
+
+  return response.revoked;
+};
+
+// Whether two-factor authentication is enabled, and how many recovery codes are left
+export const fetchTwoFactorStatus = async (): Promise<{ enabled: boolean; recoveryCodesRemaining: number }> => {
+  const response = await apiFetch('/api/users/two-factor', { method: 'GET' });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to fetch two-factor status');
+  }
+
+  return { enabled: response.enabled, recoveryCodesRemaining: response.recoveryCodesRemaining };
+};
+
+// Start enrolling an authenticator app; resolves to the secret and its otpauth:// link
+export const startTwoFactorSetup = async (): Promise<{ secret: string; otpauthUrl: string }> => {
+  const response = await apiFetch('/api/users/two-factor', { method: 'POST' });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to start two-factor setup');
+  }
+
+  return { secret: response.secret, otpauthUrl: response.otpauthUrl };
+};
+
+// Confirm the enrollment with a code from the app; resolves to the recovery codes, shown only once
+export const confirmTwoFactorSetup = async (code: string): Promise<string[]> => {
+  const response = await apiFetch('/api/users/two-factor', {
+    method: 'PUT',
+    body: JSON.stringify({ code }),
+  });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to enable two-factor authentication');
+  }
+
+  return response.recoveryCodes;
+};
+
+// Disable two-factor authentication, authenticating again with the password and a code
+export const disableTwoFactor = async (password: string, code: string): Promise<void> => {
+  const response = await apiFetch('/api/users/two-factor', {
+    method: 'DELETE',
+    body: JSON.stringify({ password, code }),
+  });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to disable two-factor authentication');
+  }
+};
+
+// Replace every recovery code; resolves to the new codes, shown only once
+export const regenerateRecoveryCodes = async (code: string): Promise<string[]> => {
+  const response = await apiFetch('/api/users/two-factor/recovery-codes', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to regenerate recovery codes');
+  }
+
+  return response.recoveryCodes;
+};
+
+// Schedule the deletion of the account, authenticating again; resolves to the date it will be deleted on.
+// Every session is logged out, including this one.
+export const deleteAccount = async (password: string, code?: string): Promise<string> => {
+  const response = await apiFetch('/api/users/delete', {
+    method: 'DELETE',
+    body: JSON.stringify({ password, code }),
+  });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to delete account');
+  }
+
+  return response.deletionScheduledFor;
+};
+
+// Cancel the scheduled deletion of the account
+export const restoreAccount = async (): Promise<void> => {
+  const response = await apiFetch('/api/users/restore', { method: 'POST' });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to restore account');
+  }
+};
+
+// Start exporting the data of the user; the export runs in the background
+export const startDataExport = async (): Promise<DataExportJob> => {
+  const response = await apiFetch('/api/users/export', { method: 'POST' });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to start data export');
+  }
+
+  return response.export;
+};
+
+// Fetch an export to follow its progress, or the latest one when no ID is given
+export const fetchDataExport = async (exportId?: string): Promise<DataExportJob | null> => {
+  const response = await apiFetch(exportId ? `/api/users/export/${exportId}` : '/api/users/export', { method: 'GET' });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to fetch data export');
+  }
+
+  return response.export;
+};
+
+// Download a ready export, as the whole ZIP archive or only its JSON data or tasks CSV
+export const downloadDataExport = async (exportId: string, format: DataExportFormat): Promise<Blob> => {
+  const file = await apiDownload(`/api/users/export/${exportId}/download?format=${format}`, { method: 'GET' });
+
+  if (!file) {
+    throw new Error('Failed to download data export');
+  }
+
+  return file;
+};
+
+// Fetch the iCalendar feeds of the user, without their URLs
+export const fetchCalendarFeeds = async (): Promise<CalendarFeed[]> => {
+  const response = await apiFetch('/api/users/calendar-feeds', { method: 'GET' });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to fetch calendar feeds');
+  }
+
+  return response.feeds;
+};
+
+// Create a feed of the tasks in the given categories (every category when empty); its URL is only returned now
+export const createCalendarFeed = async (
+  categoryIds: string[],
+  component: CalendarFeedComponent
+): Promise<{ feed: CalendarFeed; url: string }> => {
+  const response = await apiFetch('/api/users/calendar-feeds', {
+    method: 'POST',
+    body: JSON.stringify({ categoryIds, component }),
+  });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to create calendar feed');
+  }
+
+  return { feed: response.feed, url: response.url };
+};
+
+// Revoke a feed, so calendar apps can no longer read its URL
+export const revokeCalendarFeed = async (feedId: string): Promise<void> => {
+  const response = await apiFetch(`/api/users/calendar-feeds/${feedId}`, { method: 'DELETE' });
+
+  if (!response || !response.success) {
+    throw new Error('Failed to revoke calendar feed');
+  }
+};
+
+// Download a task as an iCalendar file, to add it to a calendar app once
+export const downloadTaskIcs = async (taskId: string): Promise<Blob> => {
+  const file = await apiDownload(`/api/tasks/${taskId}/ics`, { method: 'GET' });
+
+  if (!file) {
+    throw new Error('Failed to download task');
+  }
+
+  return file;
+};
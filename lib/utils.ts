@@ -4,7 +4,10 @@
  * Utility functions for general formatting and data handling.
  * 
  * Contains functions to format strings for usage in data-cy attributes, ensuring consistency and
- * compatibility across different parts of the application.
+ * compatibility across different parts of the application, and to escape text used inside regular expressions.
+ * It also holds the password strength rules (`getPasswordRuleErrors`), checked by both the password forms and the API,
+ * and `describeUserAgent`, which labels the devices of the sessions and failed logins on the profile page.
+ * `saveFile` saves a file downloaded by the browser, such as a data export or the `.ics` file of a task.
  * 
  * @param text - The input string to be formatted.
  * @returns - A formatted string suitable for data-cy attribute usage.
@@ -12,3 +15,55 @@
 
 export const formatForDataCy = (text: string): string => text.trim().replace(/\s+/g, "-").toLowerCase();
 
+
+// Escapes the characters that have a special meaning in regular expressions
+export const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Shortest password accepted when a password is set or changed
+export const MIN_PASSWORD_LENGTH = 8;
+
+export type PasswordRule = "length" | "letter" | "number";
+
+// Lists the strength rules a new password breaks; an empty list means the password is accepted
+export const getPasswordRuleErrors = (password: string): PasswordRule[] => {
+  const errors: PasswordRule[] = [];
+  if (password.length < MIN_PASSWORD_LENGTH) errors.push("length");
+  // A character with upper and lower case forms is a letter, accented ones included
+  if (!password.split("").some((char) => char.toLowerCase() !== char.toUpperCase())) errors.push("letter");
+  if (!/\d/.test(password)) errors.push("number");
+  return errors;
+};
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Windows/, "Windows"],
+  [/Mac OS X/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// Turns a user agent into a short label such as "Chrome on Windows"
+export const describeUserAgent = (userAgent?: string) => {
+  if (!userAgent) return null;
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return { browser, system, mobile: /Mobile|Android|iPhone/.test(userAgent) };
+};
+
+// Saves a downloaded file under `filename` through a temporary link
+export const saveFile = (file: Blob, filename: string) => {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
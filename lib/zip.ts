@@ -0,0 +1,165 @@
+//
+/**
+ * lib/zip.ts
+ * Minimal ZIP archive writer and reader, for the data export (see `lib/dataExport.ts`).
+ *
+ * Files are compressed with deflate through `zlib` and their names are stored as UTF-8. Only single-disk archives
+ * without ZIP64 extensions are supported, which is enough for archives of a few megabytes written by common tools
+ * or by `createZip` itself.
+ *
+ * It includes:
+ * - `createZip`: Builds an archive from a list of files.
+ * - `readZip`: Lists the files of an archive with their content, checking their CRC.
+ *
+ * @throws ZipError - When an archive is malformed, uses an unsupported feature or expands beyond `maxSize`.
+ */
+
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+export class ZipError extends Error {}
+
+export interface ZipEntry {
+  name: string;
+  content: Buffer;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const VERSION = 20; // 2.0: deflate
+const UTF8_FLAG = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer) => {
+  let crc = 0xffffffff;
+  for (let index = 0; index < data.length; index++) crc = CRC_TABLE[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS time and date, in local time as the format expects
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+export const createZip = (files: ZipEntry[], modifiedAt = new Date()): Buffer => {
+  const { time, date } = toDosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const compressed = deflateRawSync(file.content);
+    const crc = crc32(file.content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+    local.writeUInt16LE(VERSION, 4);
+    local.writeUInt16LE(UTF8_FLAG, 6);
+    local.writeUInt16LE(METHOD_DEFLATE, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(file.content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28); // Extra field length
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+    central.writeUInt16LE(VERSION, 4); // Made by
+    central.writeUInt16LE(VERSION, 6); // Needed to extract
+    central.writeUInt16LE(UTF8_FLAG, 8);
+    central.writeUInt16LE(METHOD_DEFLATE, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(file.content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42); // Offset of the local header; the other fields stay 0
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(END_OF_CENTRAL_DIRECTORY_SIZE);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};
+
+// The end record sits at the end of the archive, followed by a comment of up to 64 KiB
+const findEndOfCentralDirectory = (archive: Buffer) => {
+  const last = archive.length - END_OF_CENTRAL_DIRECTORY_SIZE;
+  for (let position = last; position >= Math.max(0, last - 0xffff); position--) {
+    if (archive.readUInt32LE(position) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) return position;
+  }
+  throw new ZipError('Not a ZIP archive');
+};
+
+// `maxSize` limits the total size of the extracted files, so a small archive cannot expand without bounds
+export const readZip = (archive: Buffer, { maxSize = 50 * 1024 * 1024 } = {}): ZipEntry[] => {
+  if (archive.length < END_OF_CENTRAL_DIRECTORY_SIZE) throw new ZipError('Not a ZIP archive');
+
+  const end = findEndOfCentralDirectory(archive);
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+  let remaining = maxSize;
+  const entries: ZipEntry[] = [];
+
+  try {
+    for (let index = 0; index < count; index++) {
+      if (archive.readUInt32LE(position) !== CENTRAL_HEADER_SIGNATURE) throw new ZipError('Invalid ZIP central directory');
+      const flags = archive.readUInt16LE(position + 8);
+      const method = archive.readUInt16LE(position + 10);
+      const crc = archive.readUInt32LE(position + 16);
+      const compressedSize = archive.readUInt32LE(position + 20);
+      const size = archive.readUInt32LE(position + 24);
+      const nameLength = archive.readUInt16LE(position + 28);
+      const extraLength = archive.readUInt16LE(position + 30);
+      const commentLength = archive.readUInt16LE(position + 32);
+      const localOffset = archive.readUInt32LE(position + 42);
+      const name = archive.subarray(position + 46, position + 46 + nameLength).toString(flags & UTF8_FLAG ? 'utf8' : 'latin1');
+      position += 46 + nameLength + extraLength + commentLength;
+
+      if (flags & 0x1) throw new ZipError(`Encrypted ZIP entries are not supported: ${name}`);
+      if (archive.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) throw new ZipError(`Invalid ZIP entry: ${name}`);
+      if (name.endsWith('/')) continue; // Folders have no content
+
+      const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+      const data = archive.subarray(dataStart, dataStart + compressedSize);
+      if (size > remaining) throw new ZipError('ZIP archive is too large');
+
+      let content: Buffer;
+      if (method === METHOD_STORE) content = data;
+      else if (method === METHOD_DEFLATE) content = inflateRawSync(data, { maxOutputLength: Math.max(remaining, 1) });
+      else throw new ZipError(`Unsupported ZIP compression method ${method}: ${name}`);
+
+      if (content.length !== size || crc32(content) !== crc) throw new ZipError(`Corrupted ZIP entry: ${name}`);
+      remaining -= content.length;
+      entries.push({ name, content });
+    }
+  } catch (error) {
+    if (error instanceof ZipError) throw error;
+    // Offsets past the end of the buffer, or a deflate stream that is broken or too large
+    throw new ZipError('Invalid ZIP archive');
+  }
+
+  return entries;
+};
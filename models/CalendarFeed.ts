@@ -0,0 +1,39 @@
+//
+/**
+ * models/CalendarFeed.ts
+ * Defines the iCalendar feeds that publish the tasks of a user to calendar apps (see `lib/taskCalendar.ts`).
+ *
+ * A feed is read through a secret URL, since calendar apps cannot log in. Only the SHA-256 hash of its token is
+ * stored (see `lib/secureTokens.ts`), so the URL is shown once, when the feed is created. `categoryIds` limits the
+ * feed to the tasks of those categories and their sub-categories; an empty list publishes every task with a due
+ * date. `component` chooses whether tasks are published as events or as to-dos.
+ *
+ * @param data - Partial feed data that includes userId, tokenHash, categoryIds and component.
+ * @returns - For createCalendarFeed, a new ICalendarFeed.
+ */
+
+import { ObjectId } from 'mongodb';
+
+export const CALENDAR_FEED_COMPONENTS = ['event', 'todo'] as const;
+export type CalendarFeedComponent = typeof CALENDAR_FEED_COMPONENTS[number];
+
+export interface ICalendarFeed {
+  _id: ObjectId;
+  userId: ObjectId;
+  tokenHash: string;
+  categoryIds: ObjectId[]; // Empty for every category
+  component: CalendarFeedComponent; // VEVENT or VTODO
+  createdAt: Date;
+  lastUsedAt?: Date; // Last time a calendar app read the feed
+}
+
+export function createCalendarFeed(data: Pick<ICalendarFeed, 'userId' | 'tokenHash'> & Partial<ICalendarFeed>): ICalendarFeed {
+  return {
+    _id: data._id || new ObjectId(),
+    userId: data.userId,
+    tokenHash: data.tokenHash,
+    categoryIds: data.categoryIds ?? [],
+    component: data.component || 'event',
+    createdAt: new Date(),
+  };
+}
@@ -3,10 +3,11 @@
  * models/Category.ts
  * Defines the Category model and provides a factory function for creating categories.
  * 
- * The Category model includes fields such as name, slug, description, and userId,
- * which associates the category with a specific user.
+ * The Category model includes fields such as name, slug, description, color, icon, and userId,
+ * which associates the category with a specific user. `parentId` nests a category under another
+ * one (see `lib/categoryTree.ts`).
  * 
- * @param data - Partial category data that includes name, slug, description, and userId.
+ * @param data - Partial category data that includes name, slug, description, color, icon, parentId, and userId.
  * @returns - A new ICategory instance with the necessary fields populated.
  * @throws - Throws an error if the category name is missing.
  */
@@ -18,6 +19,9 @@ export interface ICategory {
   name: string;
   slug: string;
   description?: string;
+  color?: string; // Hex color, e.g. "#3b82f6"
+  icon?: string; // One of CATEGORY_ICONS
+  parentId?: ObjectId | null; // Parent category, null for top-level categories
   userId: ObjectId; // Associate the category with a user
 }
 
@@ -31,6 +35,9 @@ export function createCategory(data: Partial<ICategory>): ICategory {
     name: data.name,
     slug: data.slug || data.name.toLowerCase().replace(/ /g, '-'),
     description: data.description || '',
+    color: data.color,
+    icon: data.icon,
+    parentId: data.parentId ?? null,
     userId: data.userId!, // Ensure userId is provided when creating a category
   };
 }
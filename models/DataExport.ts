@@ -0,0 +1,43 @@
+//
+/**
+ * models/DataExport.ts
+ * Defines the jobs that export the data of a user (see `lib/dataExport.ts`).
+ *
+ * A job starts as `pending`, reports its `progress` (0 to 100) while `running`, and ends as `ready` with the ZIP
+ * `archive`, or as `failed`. Jobs are deleted by a TTL index `DATA_EXPORT_RETENTION_HOURS` after they were created,
+ * so an archive can be downloaded again until then.
+ *
+ * @param userId - The user whose data is exported.
+ * @returns - For createDataExport, a new pending IDataExport.
+ */
+
+import { Binary, ObjectId } from 'mongodb';
+
+export const DATA_EXPORT_RETENTION_HOURS = 24;
+
+export const DATA_EXPORT_STATUSES = ['pending', 'running', 'ready', 'failed'] as const;
+export type DataExportStatus = typeof DATA_EXPORT_STATUSES[number];
+
+export interface IDataExport {
+  _id: ObjectId;
+  userId: ObjectId;
+  status: DataExportStatus;
+  progress: number; // Percentage of the work done
+  archive?: Binary; // The ZIP file, once ready
+  size?: number; // Size of the archive in bytes
+  createdAt: Date;
+  completedAt?: Date; // When the job ended, ready or failed
+  expiresAt: Date; // TTL
+}
+
+export function createDataExport(userId: ObjectId): IDataExport {
+  const now = new Date();
+  return {
+    _id: new ObjectId(),
+    userId,
+    status: 'pending',
+    progress: 0,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + DATA_EXPORT_RETENTION_HOURS * 60 * 60 * 1000),
+  };
+}
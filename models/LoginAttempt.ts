@@ -0,0 +1,57 @@
+//
+/**
+ * models/LoginAttempt.ts
+ * Defines the documents used to slow down password guessing (see `lib/loginThrottle.ts`).
+ *
+ * - `ILoginThrottle`: A failure counter for an email or an IP address, with the time until which logins from it
+ *   are refused. It is deleted by a TTL index once `THROTTLE_WINDOW_MINUTES` pass without a new failure.
+ * - `ILoginAttempt`: A failed login on an existing account, kept for `LOGIN_ATTEMPT_RETENTION_DAYS` so its owner
+ *   can review it on the profile page.
+ *
+ * @param data - Partial attempt data that includes userId, reason, ip and userAgent.
+ * @returns - For createLoginAttempt, a new ILoginAttempt that expires after `LOGIN_ATTEMPT_RETENTION_DAYS`.
+ * @throws - Throws an error if the user or the reason is missing.
+ */
+
+import { ObjectId } from 'mongodb';
+
+// Failures older than this no longer count towards a lockout
+export const THROTTLE_WINDOW_MINUTES = 60;
+export const LOGIN_ATTEMPT_RETENTION_DAYS = 30;
+
+export interface ILoginThrottle {
+  _id: string; // "account:<email>" or "ip:<address>"
+  failures: number; // Failures since the counter was created
+  lastFailureAt: Date;
+  lockedUntil: Date; // Logins from this email or address are refused until then
+  expiresAt: Date; // TTL: the counter is deleted after a quiet window
+}
+
+export type LoginFailureReason = 'password' | 'two_factor';
+
+export interface ILoginAttempt {
+  _id?: ObjectId;
+  userId: ObjectId;
+  reason: LoginFailureReason; // Wrong password, or wrong code at the two-factor step
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+  expiresAt: Date; // TTL
+}
+
+export function createLoginAttempt(data: Partial<ILoginAttempt>): ILoginAttempt {
+  if (!data.userId || !data.reason) {
+    throw new Error('User and reason are required');
+  }
+
+  const now = new Date();
+  return {
+    _id: data._id || new ObjectId(),
+    userId: data.userId,
+    reason: data.reason,
+    ip: data.ip,
+    userAgent: data.userAgent,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + LOGIN_ATTEMPT_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+  };
+}
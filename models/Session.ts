@@ -0,0 +1,56 @@
+// 
+/**
+ * models/Session.ts
+ * Defines the Session model and provides a factory function for creating sessions.
+ * 
+ * A session is created at login and renewed with a refresh token (see `lib/sessions.ts`). Only a SHA-256
+ * hash of the current refresh token is stored; the hashes of rotated tokens are kept in `previousTokenHashes`
+ * so that a stolen token that is used again can be detected.
+ * 
+ * @param data - Partial session data that includes userId, tokenHash, userAgent and ip.
+ * @returns - A new ISession instance that expires after `REFRESH_TOKEN_TTL_DAYS` of inactivity.
+ * @throws - Throws an error if the user or the token hash is missing.
+ */
+
+import { ObjectId } from 'mongodb';
+
+// Sessions slide: every refresh pushes the expiry this many days forward
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+
+export interface ISession {
+  _id?: ObjectId;
+  userId: ObjectId;
+  tokenHash: string; // Hash of the current refresh token
+  previousTokenHashes: string[]; // Hashes of the rotated refresh tokens
+  userAgent?: string;
+  ip?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  rotatedAt?: Date | null; // Last time the refresh token was rotated
+  expiresAt: Date;
+  revokedAt?: Date | null;
+}
+
+export const getSessionExpiry = (from: Date = new Date()): Date =>
+  new Date(from.getTime() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+export function createSession(data: Partial<ISession>): ISession {
+  if (!data.userId || !data.tokenHash) {
+    throw new Error('User and token hash are required');
+  }
+
+  const now = new Date();
+  return {
+    _id: data._id || new ObjectId(),
+    userId: data.userId,
+    tokenHash: data.tokenHash,
+    previousTokenHashes: data.previousTokenHashes || [],
+    userAgent: data.userAgent,
+    ip: data.ip,
+    createdAt: now,
+    lastUsedAt: now,
+    rotatedAt: null,
+    expiresAt: getSessionExpiry(now),
+    revokedAt: null,
+  };
+}
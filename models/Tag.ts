@@ -0,0 +1,54 @@
+// 
+/**
+ * models/Tag.ts
+ * Defines the Tag model and provides a factory function for creating tags.
+ * 
+ * Tags are free-form, colored labels owned by a user. Unlike categories, a task can have many tags:
+ * tasks reference them through their `tagIds` field. Tag names are unique per user, ignoring case.
+ * 
+ * @param data - Partial tag data that includes name, color, and userId.
+ * @returns - A new ITag instance with the necessary fields populated.
+ * @throws - Throws an error if the tag name is missing or the color is not a hex color.
+ */
+
+import { ObjectId } from 'mongodb';
+
+export const DEFAULT_TAG_COLOR = '#3b82f6';
+export const MAX_TAG_NAME_LENGTH = 40;
+
+export interface ITag {
+  _id?: ObjectId;
+  name: string;
+  color: string; // Hex color, e.g. "#3b82f6"
+  userId: ObjectId; // Associate the tag with a user
+  createdAt: Date;
+}
+
+export const isValidTagColor = (color: unknown): color is string =>
+  typeof color === 'string' && /^#[0-9a-fA-F]{6}$/.test(color);
+
+export const normalizeTagName = (name: unknown): string =>
+  typeof name === 'string' ? name.trim().replace(/\s+/g, ' ') : '';
+
+export function createTag(data: Partial<ITag>): ITag {
+  const name = normalizeTagName(data.name);
+  if (!name) {
+    throw new Error('Tag name is required');
+  }
+
+  if (name.length > MAX_TAG_NAME_LENGTH) {
+    throw new Error('Tag name is too long');
+  }
+
+  if (data.color !== undefined && !isValidTagColor(data.color)) {
+    throw new Error('Invalid tag color');
+  }
+
+  return {
+    _id: data._id || new ObjectId(),
+    name,
+    color: data.color || DEFAULT_TAG_COLOR,
+    userId: data.userId!, // Ensure userId is provided when creating a tag
+    createdAt: new Date(),
+  };
+}
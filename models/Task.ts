@@ -4,7 +4,12 @@
  * Defines the Task model and provides a factory function for creating tasks.
  * 
  * The Task model includes fields like title, resume, description, dueDate, dueTime,
- * priority, and userId, which associates the task with a specific user.
+ * priority, and userId, which associates the task with a specific user. The `status`
+ * and `position` fields place the task in a board column and keep its order there.
+ * Recurring tasks carry a `recurrence` rule; `createNextOccurrence` builds the task for the
+ * occurrence that follows a completed one. `subtasks` holds an ordered checklist; `createSubtask`
+ * validates and builds a checklist item. `blockedBy` lists the tasks that must be completed
+ * before this one (see `lib/dependencies.ts`), and `tagIds` references the task's tags.
  * 
  * @param data - Partial task data that includes title, resume, description, dueDate,
  * dueTime, priority, and userId.
@@ -14,6 +19,19 @@
  */
 
 import { ObjectId } from 'mongodb';
+import { RecurrenceRule } from '@/types/TaskCategoryTypes';
+import { getNextOccurrence } from '@/lib/recurrence';
+
+// Workflow states used by the board view, in their default column order
+export const TASK_STATUSES = ['todo', 'in_progress', 'blocked', 'done'] as const;
+export type TaskStatus = typeof TASK_STATUSES[number];
+
+export interface ISubtask {
+  _id: ObjectId;
+  title: string;
+  completed: boolean;
+  dueDate?: Date | null; // Optional due date of the subtask
+}
 
 export interface ITask {
   _id?: ObjectId;
@@ -21,12 +39,48 @@ export interface ITask {
   resume: string; // Short description or summary of the task
   description?: string; // Optional longer description in Markdown format
   userId: ObjectId;
+  categoryId?: string; // Category the task belongs to
   dueDate?: Date; // Due date as a Date object
   dueTime?: string; // Optional due time as a string (e.g., "12:00")
   priority?: 'highest' | 'high' | 'medium' | 'low' | 'lowest';
+  completed?: boolean;
+  status?: TaskStatus; // Board column the task belongs to
+  position?: number; // Order of the task inside its board column
+  completedAt?: Date | null; // When the task was last completed
+  recurrence?: RecurrenceRule | null; // Repeat rule, kept on the latest occurrence of the series
+  occurrence?: number; // 1-based index of the occurrence in its series
+  subtasks?: ISubtask[]; // Checklist items, in display order
+  autoCompleteSubtasks?: boolean; // Completes the task once every subtask is completed
+  blockedBy?: ObjectId[]; // Tasks that must be completed before this one
+  tagIds?: ObjectId[]; // Tags of the task (see models/Tag.ts)
   createdAt: Date;
 }
 
+export function createSubtask(data: Partial<Omit<ISubtask, 'dueDate'>> & { dueDate?: Date | string | null }): ISubtask {
+  const title = typeof data.title === 'string' ? data.title.trim() : '';
+  if (!title) {
+    throw new Error('Subtask title is required');
+  }
+
+  let dueDate: Date | null = null;
+  if (data.dueDate) {
+    dueDate = new Date(data.dueDate);
+    if (isNaN(dueDate.getTime())) {
+      throw new Error('Invalid subtask due date');
+    }
+  }
+
+  return {
+    _id: data._id || new ObjectId(),
+    title,
+    completed: data.completed === true,
+    dueDate,
+  };
+}
+
+export const areAllSubtasksCompleted = (subtasks: ISubtask[] = []): boolean =>
+  subtasks.length > 0 && subtasks.every((subtask) => subtask.completed);
+
 export function createTask(data: Partial<ITask>): ITask {
   // Validate required fields
   if (!data.title) {
@@ -62,9 +116,54 @@ export function createTask(data: Partial<ITask>): ITask {
     dueDate: data.dueDate ?? undefined,
     dueTime: data.dueTime ?? undefined,
     priority: data.priority || 'medium',
+    completed: data.completed ?? false,
+    status: data.status || (data.completed ? 'done' : 'todo'),
+    position: data.position ?? 0,
+    completedAt: data.completed ? new Date() : undefined,
+    recurrence: data.recurrence ?? undefined,
+    occurrence: data.recurrence ? data.occurrence ?? 1 : undefined,
+    subtasks: data.subtasks ?? [],
+    autoCompleteSubtasks: data.autoCompleteSubtasks ?? false,
+    blockedBy: data.blockedBy ?? [],
+    tagIds: data.tagIds ?? [],
     createdAt: new Date(),
   };
 
   return task;
 }
 
+// Builds the open task for the occurrence after `task`, or returns null when the series has ended
+export function createNextOccurrence(task: ITask): ITask | null {
+  if (!task.recurrence || !task.dueDate) {
+    return null;
+  }
+
+  const occurrence = task.occurrence ?? 1;
+  const nextDueDate = getNextOccurrence(task.recurrence, new Date(task.dueDate), occurrence);
+  if (!nextDueDate) {
+    return null;
+  }
+
+  return {
+    _id: new ObjectId(),
+    title: task.title,
+    resume: task.resume,
+    description: task.description || '',
+    userId: task.userId,
+    categoryId: task.categoryId,
+    dueDate: nextDueDate,
+    dueTime: task.dueTime,
+    priority: task.priority || 'medium',
+    completed: false,
+    status: 'todo',
+    position: 0,
+    recurrence: task.recurrence,
+    occurrence: occurrence + 1,
+    // The checklist starts over on every occurrence
+    subtasks: (task.subtasks || []).map((subtask) => ({ ...subtask, _id: new ObjectId(), completed: false })),
+    autoCompleteSubtasks: task.autoCompleteSubtasks,
+    tagIds: task.tagIds,
+    createdAt: new Date(),
+  };
+}
+
@@ -5,7 +5,11 @@
  * 
  * The User model includes fields like username, email, password, firstName, lastName,
  * nickname, bio, and profilePicture. Password hashing and verification are implemented
- * for secure authentication.
+ * for secure authentication. A pending password reset stores the hash of its one-time token and
+ * its expiry (see `app/api/auth/forgot-password`); the email verification link works the same way
+ * (see `lib/emailVerification.ts`). Two-factor authentication keeps its TOTP secret and the hashes of its
+ * recovery codes on the user (see `lib/twoFactor.ts`). An account whose deletion was asked for keeps the date it will
+ * be purged on until then (see `lib/accountDeletion.ts`).
  * 
  * @param password - The user's plain text password.
  * @param hashedPassword - The user's hashed password for verification.
@@ -28,8 +32,24 @@ export interface IUser extends Document {
   nickname?: string;   // New field: nickname
   bio?: string;       // New field: bio (optional)
   profilePicture?: string; // New field: profile picture (optional, URL to the image)
+  passwordResetTokenHash?: string; // Hash of the pending password reset token
+  passwordResetExpiresAt?: Date; // The reset link stops working after this date
+  emailVerified?: boolean; // False until the link sent on registration is opened; missing on older accounts
+  emailVerificationTokenHash?: string; // Hash of the pending email verification token
+  emailVerificationExpiresAt?: Date; // The verification link stops working after this date
+  pendingEmail?: string; // New email requested from the profile page, applied once its link is opened
+  twoFactorEnabled?: boolean; // Login asks for a TOTP or recovery code after the password
+  twoFactorSecret?: string; // Base32 TOTP secret shared with the authenticator app
+  twoFactorPendingSecret?: string; // Secret being enrolled, until a first code confirms it
+  twoFactorRecoveryCodes?: string[]; // Hashes of the unused recovery codes
+  twoFactorLastUsedStep?: number; // Time step of the last accepted TOTP code, so a code cannot be replayed
+  deletionRequestedAt?: Date; // When the user asked to delete the account
+  deletionScheduledFor?: Date; // The account and its data are purged after this date, unless it is restored
 }
 
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+export const EMAIL_VERIFICATION_TTL_HOURS = 24;
+
 export const hashPassword = async (password: string): Promise<string> => {
   return await bcrypt.hash(password, 10);
 };
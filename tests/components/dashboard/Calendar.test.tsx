@@ -0,0 +1,50 @@
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import Calendar from "@/components/dashboard/Calendar";
+import { toDateKey } from "@/lib/calendar";
+import { Task } from "@/types/TaskCategoryTypes";
+
+jest.mock("@/lib/apiFetch", () => ({
+  apiFetch: jest.fn(),
+}));
+
+describe("Calendar Component", () => {
+  const today = new Date();
+  const tomorrow = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1);
+  const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+
+  const tasks: Task[] = [
+    { _id: "due", title: "Due task", completed: false, priority: "medium", dueDate: tomorrow.toISOString() },
+    { _id: "late", title: "Late task", completed: false, priority: "high", dueDate: yesterday.toISOString() },
+  ];
+
+  it("places tasks on their due day and highlights overdue ones", () => {
+    render(<Calendar tasks={tasks} />);
+    fireEvent.click(screen.getByTestId("calendar-view-weekly"));
+
+    // Switch to the week of the due task when it falls on the next week
+    if (!screen.queryByTestId(`calendar-day-${toDateKey(tomorrow)}`)) {
+      fireEvent.click(screen.getByTestId("calendar-next"));
+    }
+
+    const dueDay = screen.getByTestId(`calendar-day-${toDateKey(tomorrow)}`);
+    expect(dueDay).toContainElement(screen.getByTestId("calendar-task-due"));
+
+    fireEvent.click(screen.getByTestId("calendar-view-daily"));
+    fireEvent.click(screen.getByTestId("calendar-today"));
+    fireEvent.click(screen.getByTestId("calendar-previous"));
+    expect(screen.getByTestId("calendar-task-late")).toHaveClass("text-red-700");
+  });
+
+  it("reschedules a task when it is dropped on another day", () => {
+    const onReschedule = jest.fn();
+    render(<Calendar tasks={tasks} onReschedule={onReschedule} />);
+    fireEvent.click(screen.getByTestId("calendar-view-daily"));
+
+    const todayKey = toDateKey(today);
+    const dataTransfer = { getData: jest.fn(() => "due"), setData: jest.fn() };
+    fireEvent.drop(screen.getByTestId(`calendar-day-${todayKey}`), { dataTransfer });
+
+    expect(onReschedule).toHaveBeenCalledWith("due", todayKey);
+  });
+});
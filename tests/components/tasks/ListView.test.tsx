@@ -0,0 +1,75 @@
+import React from "react";
+import { render, screen, fireEvent, within } from "@testing-library/react";
+import ListView from "@/components/tasks/ListView";
+import { Task } from "@/types/TaskCategoryTypes";
+
+jest.mock("react-i18next", () => ({
+  useTranslation: () => ({
+    t: (key: string) => key,
+    i18n: { language: "en" },
+  }),
+}));
+
+const tasks: Task[] = [
+  { _id: "1", title: "Alpha", completed: false, priority: "low", createdAt: "2024-01-01" },
+  { _id: "2", title: "Beta", completed: false, priority: "highest", createdAt: "2024-01-02" },
+];
+
+describe("ListView Component", () => {
+  const onEditTask = jest.fn();
+  const onToggleCompletion = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const renderList = () =>
+    render(
+      <ListView
+        tasks={tasks}
+        categories={[]}
+        onEditTask={onEditTask}
+        onToggleCompletion={onToggleCompletion}
+      />
+    );
+
+  const getRowTitles = () =>
+    screen.getAllByRole("row").slice(1).map((row) => within(row).getAllByRole("cell")[1].textContent);
+
+  it("sorts rows when a column header is clicked", () => {
+    renderList();
+
+    // Newest tasks come first by default
+    expect(getRowTitles()).toEqual(["Beta", "Alpha"]);
+
+    fireEvent.click(screen.getByTestId("list-sort-title"));
+    expect(getRowTitles()).toEqual(["Alpha", "Beta"]);
+
+    fireEvent.click(screen.getByTestId("list-sort-title"));
+    expect(getRowTitles()).toEqual(["Beta", "Alpha"]);
+  });
+
+  it("supports keyboard navigation, editing and completion toggles", () => {
+    renderList();
+
+    const firstRow = screen.getByTestId("list-row-beta");
+    firstRow.focus();
+    fireEvent.keyDown(firstRow, { key: "ArrowDown" });
+    expect(screen.getByTestId("list-row-alpha")).toHaveFocus();
+
+    fireEvent.keyDown(screen.getByTestId("list-row-alpha"), { key: " " });
+    expect(onToggleCompletion).toHaveBeenCalledWith("1");
+
+    fireEvent.keyDown(screen.getByTestId("list-row-alpha"), { key: "Enter" });
+    expect(onEditTask).toHaveBeenCalledWith("1");
+  });
+
+  it("groups rows by priority", () => {
+    renderList();
+
+    fireEvent.change(screen.getByTestId("list-group-by"), { target: { value: "priority" } });
+
+    expect(screen.getByTestId("list-group-highest")).toBeInTheDocument();
+    expect(screen.getByTestId("list-group-low")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,118 @@
+// tests/unit/api/calendarFeeds.test.ts
+
+import { GET as LIST, POST } from '@/app/api/users/calendar-feeds/route';
+import { DELETE } from '@/app/api/users/calendar-feeds/[id]/route';
+import { GET as FEED } from '@/app/api/calendar/[token]/route';
+import dbConnect from '@/lib/mongodb';
+import { verifyToken } from '@/lib/auth';
+import { hashSecureToken } from '@/lib/secureTokens';
+import { ObjectId } from 'mongodb';
+
+jest.mock('@/lib/mongodb');
+jest.mock('@/lib/auth');
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  find: jest.fn(),
+  findOne: jest.fn(),
+  countDocuments: jest.fn(),
+  insertOne: jest.fn(),
+  updateOne: jest.fn(),
+  deleteOne: jest.fn(),
+  createIndex: jest.fn(),
+};
+
+(dbConnect as jest.Mock).mockResolvedValue(mockDb);
+
+describe('Calendar feed API Endpoints', () => {
+  const userId = new ObjectId().toHexString();
+  const categoryId = new ObjectId();
+  const headers = new Headers({ authorization: `Bearer ${userId}` });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
+  });
+
+  it('should create a feed and return its secret URL, storing only the hash of the token', async () => {
+    mockDb.countDocuments.mockResolvedValue(1);
+
+    const response = await POST(new Request('http://localhost:3000/api/users/calendar-feeds', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ categoryIds: [categoryId.toHexString()], component: 'todo' }),
+    }));
+
+    expect(response.status).toBe(201);
+    const json = await response.json();
+    const token = json.url.match(/\/api\/calendar\/([\w-]+)\.ics$/)[1];
+    const stored = mockDb.insertOne.mock.calls[0][0];
+    expect(stored).toEqual(expect.objectContaining({ tokenHash: hashSecureToken(token), component: 'todo' }));
+    expect(stored.categoryIds).toEqual([categoryId]);
+    expect(json.feed.tokenHash).toBeUndefined();
+  });
+
+  it('should not create a feed of another user\'s categories', async () => {
+    mockDb.countDocuments.mockResolvedValue(0);
+
+    const response = await POST(new Request('http://localhost:3000/api/users/calendar-feeds', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ categoryIds: [categoryId.toHexString()] }),
+    }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details.errors).toEqual([expect.objectContaining({ path: 'categoryIds', code: 'not_found' })]);
+    expect(mockDb.insertOne).not.toHaveBeenCalled();
+  });
+
+  it('should list the feeds without their token hashes and revoke them', async () => {
+    const feedId = new ObjectId();
+    mockDb.find.mockReturnValue({ toArray: jest.fn().mockResolvedValue([{ _id: feedId }]) });
+    mockDb.deleteOne.mockResolvedValueOnce({ deletedCount: 1 }).mockResolvedValueOnce({ deletedCount: 0 });
+
+    const listResponse = await LIST(new Request('http://localhost:3000/api/users/calendar-feeds', { method: 'GET', headers }));
+    const params = { params: { id: feedId.toHexString() } };
+    const request = () => new Request(`http://localhost:3000/api/users/calendar-feeds/${feedId}`, { method: 'DELETE', headers });
+
+    expect((await listResponse.json()).feeds).toHaveLength(1);
+    expect(mockDb.find).toHaveBeenCalledWith(
+      { userId: new ObjectId(userId) },
+      expect.objectContaining({ projection: { tokenHash: 0 } })
+    );
+    expect((await DELETE(request(), params)).status).toBe(200);
+    expect((await DELETE(request(), params)).status).toBe(404);
+  });
+
+  it('should serve the tasks of a feed without authentication, and 404 for unknown tokens', async () => {
+    const feed = { _id: new ObjectId(), userId: new ObjectId(userId), categoryIds: [], component: 'event' };
+    const task = { _id: new ObjectId(), title: 'Rent', dueDate: new Date(2030, 0, 31), dueTime: null };
+    mockDb.findOne.mockResolvedValueOnce(feed).mockResolvedValueOnce({ _id: feed.userId }).mockResolvedValueOnce(null);
+    mockDb.find.mockImplementation(() => ({
+      toArray: jest.fn().mockResolvedValue(mockDb.collection.mock.calls.at(-1)[0] === 'tasks' ? [task] : []),
+    }));
+
+    const response = await FEED(new Request('http://localhost:3000/api/calendar/secret.ics', { method: 'GET' }), { params: { token: 'secret.ics' } });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/calendar; charset=utf-8');
+    expect(await response.text()).toContain('SUMMARY:Rent');
+    expect(mockDb.findOne).toHaveBeenCalledWith({ tokenHash: hashSecureToken('secret') });
+    expect(verifyToken).not.toHaveBeenCalled();
+
+    const missing = await FEED(new Request('http://localhost:3000/api/calendar/revoked', { method: 'GET' }), { params: { token: 'revoked' } });
+    expect(missing.status).toBe(404);
+  });
+
+  it('should not serve the feeds of an account scheduled for deletion', async () => {
+    const feed = { _id: new ObjectId(), userId: new ObjectId(userId), categoryIds: [], component: 'event' };
+    mockDb.findOne.mockResolvedValueOnce(feed).mockResolvedValueOnce({ _id: feed.userId, deletionScheduledFor: new Date(Date.now() + 60000) });
+
+    const response = await FEED(new Request('http://localhost:3000/api/calendar/secret', { method: 'GET' }), { params: { token: 'secret' } });
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).code).toBe('CALENDAR_FEED_NOT_FOUND');
+    expect(mockDb.findOne).toHaveBeenLastCalledWith({ _id: feed.userId }, { projection: { deletionScheduledFor: 1 } });
+    expect(mockDb.updateOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,139 @@
+// tests/unit/api/categories.test.ts
+
+import { POST } from '@/app/api/categories/route';
+import { PUT, DELETE } from '@/app/api/categories/[id]/route';
+import dbConnect from '@/lib/mongodb';
+import { verifyToken } from '@/lib/auth';
+import { ObjectId } from 'mongodb';
+
+jest.mock('@/lib/mongodb');
+jest.mock('@/lib/auth');
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  find: jest.fn(),
+  findOne: jest.fn(),
+  insertOne: jest.fn(),
+  updateOne: jest.fn(),
+  updateMany: jest.fn(),
+  deleteOne: jest.fn(),
+  deleteMany: jest.fn(),
+  distinct: jest.fn(),
+};
+
+(dbConnect as jest.Mock).mockResolvedValue(mockDb);
+
+describe('/api/categories API Endpoints', () => {
+  const userId = new ObjectId().toHexString();
+  const categoryId = new ObjectId();
+  const childId = new ObjectId();
+  const parentId = new ObjectId();
+  const targetId = new ObjectId();
+
+  const buildRequest = (url: string, method: string, body?: any) =>
+    new Request(`http://localhost:3000/api/categories${url}`, {
+      method,
+      headers: new Headers({ authorization: `Bearer ${userId}` }),
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+  const params = { params: { id: categoryId.toHexString() } };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
+    mockDb.findOne.mockResolvedValue({ _id: categoryId, name: 'Work', parentId });
+    mockDb.find.mockReturnValue({
+      toArray: jest.fn().mockResolvedValue([
+        { _id: parentId, name: 'Life', parentId: null },
+        { _id: categoryId, name: 'Work', parentId },
+        { _id: childId, name: 'Meetings', parentId: categoryId },
+      ]),
+    });
+  });
+
+  it('should create a sub-category under an existing parent', async () => {
+    const response = await POST(buildRequest('', 'POST', { name: 'Trips', parentId: parentId.toHexString(), icon: 'plane' }));
+
+    expect(response.status).toBe(201);
+    const json = await response.json();
+    expect(json.category).toEqual(expect.objectContaining({ name: 'Trips', icon: 'plane', parentId: parentId.toHexString() }));
+  });
+
+  it('should update only the fields sent and keep the slug in sync with the name', async () => {
+    const response = await PUT(buildRequest(`/${categoryId}`, 'PUT', { name: 'Day Job', color: '#10b981' }), params);
+
+    expect(response.status).toBe(200);
+    expect(mockDb.updateOne).toHaveBeenCalledWith(
+      { _id: categoryId, userId: new ObjectId(userId) },
+      { $set: { name: 'Day Job', slug: 'day-job', color: '#10b981' } }
+    );
+  });
+
+  it('should not nest a category under one of its sub-categories', async () => {
+    const response = await PUT(buildRequest(`/${categoryId}`, 'PUT', { parentId: childId.toHexString() }), params);
+
+    expect(response.status).toBe(400);
+    const json = await response.json();
+    expect(json.message).toBe('A category cannot be nested under itself or one of its sub-categories');
+    expect(mockDb.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should reject an unknown icon', async () => {
+    const response = await PUT(buildRequest(`/${categoryId}`, 'PUT', { icon: 'rocket' }), params);
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should clear the category of its tasks by default and move sub-categories up', async () => {
+    const response = await DELETE(buildRequest(`/${categoryId}`, 'DELETE'), params);
+
+    expect(response.status).toBe(200);
+    const user = new ObjectId(userId);
+    expect(mockDb.updateMany).toHaveBeenCalledWith(
+      { userId: user, categoryId: categoryId.toHexString() },
+      { $set: { categoryId: null } }
+    );
+    expect(mockDb.updateMany).toHaveBeenCalledWith({ userId: user, parentId: categoryId }, { $set: { parentId } });
+    expect(mockDb.deleteOne).toHaveBeenCalledWith({ _id: categoryId, userId: user });
+  });
+
+  it('should move the tasks to the target category', async () => {
+    const response = await DELETE(
+      buildRequest(`/${categoryId}?tasks=reassign&targetId=${targetId}`, 'DELETE'),
+      params
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockDb.updateMany).toHaveBeenCalledWith(
+      { userId: new ObjectId(userId), categoryId: categoryId.toHexString() },
+      { $set: { categoryId: targetId.toHexString() } }
+    );
+  });
+
+  it('should require a target category other than the deleted one', async () => {
+    const response = await DELETE(
+      buildRequest(`/${categoryId}?tasks=reassign&targetId=${categoryId}`, 'DELETE'),
+      params
+    );
+
+    expect(response.status).toBe(400);
+    expect(mockDb.deleteOne).not.toHaveBeenCalled();
+  });
+
+  it('should delete the tasks and remove them from other tasks dependencies', async () => {
+    const taskId = new ObjectId();
+    mockDb.distinct.mockResolvedValue([taskId]);
+
+    const response = await DELETE(buildRequest(`/${categoryId}?tasks=delete`, 'DELETE'), params);
+
+    expect(response.status).toBe(200);
+    const user = new ObjectId(userId);
+    expect(mockDb.deleteMany).toHaveBeenCalledWith({ userId: user, categoryId: categoryId.toHexString() });
+    expect(mockDb.updateMany).toHaveBeenCalledWith(
+      { userId: user, blockedBy: { $in: [taskId] } },
+      { $pullAll: { blockedBy: [taskId] } },
+      { session: undefined }
+    );
+  });
+});
@@ -0,0 +1,99 @@
+// tests/unit/api/dashboard.test.ts
+
+import { GET } from '@/app/api/dashboard/route';
+import dbConnect from '@/lib/mongodb';
+import { verifyToken } from '@/lib/auth';
+import { ObjectId } from 'mongodb';
+
+jest.mock('@/lib/mongodb');
+jest.mock('@/lib/auth');
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  aggregate: jest.fn().mockReturnThis(),
+  find: jest.fn().mockReturnThis(),
+  toArray: jest.fn(),
+};
+
+(dbConnect as jest.Mock).mockResolvedValue(mockDb);
+
+describe('/api/dashboard API Endpoint', () => {
+  const userId = new ObjectId().toHexString();
+  const categoryId = new ObjectId();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
+  });
+
+  const buildRequest = (query = '', token: string | null = `Bearer ${userId}`) =>
+    new Request(`http://localhost:3000/api/dashboard${query}`, {
+      method: 'GET',
+      headers: new Headers(token ? { authorization: token } : {}),
+    });
+
+  it('should return the aggregated statistics with category names and a full completion trend', async () => {
+    mockDb.toArray
+      .mockResolvedValueOnce([
+        {
+          totals: [{ _id: null, total: 5, completed: 2, overdue: 1, dueToday: 1 }],
+          byPriority: [
+            { _id: 'low', total: 1, completed: 1, overdue: 0 },
+            { _id: 'highest', total: 4, completed: 1, overdue: 1 },
+          ],
+          byCategory: [
+            { _id: null, total: 1, completed: 0, overdue: 0 },
+            { _id: categoryId.toHexString(), total: 4, completed: 2, overdue: 1 },
+          ],
+          completionTrend: [],
+        },
+      ])
+      .mockResolvedValueOnce([{ _id: categoryId, name: 'Work' }]);
+
+    const response = await GET(buildRequest('?timezone=America/Sao_Paulo'));
+
+    expect(response.status).toBe(200);
+    const { dashboard } = await response.json();
+    expect(dashboard).toEqual(
+      expect.objectContaining({
+        totalTasks: 5,
+        tasksCompleted: 2,
+        tasksPending: 3,
+        dueToday: 1,
+        overdue: 1,
+      })
+    );
+    expect(dashboard.byPriority.map((item: any) => item.priority)).toEqual(['highest', 'low']);
+    expect(dashboard.byCategory[0]).toEqual({
+      categoryId: categoryId.toHexString(),
+      name: 'Work',
+      total: 4,
+      completed: 2,
+      overdue: 1,
+    });
+    expect(dashboard.completionTrend).toHaveLength(30);
+
+    const [pipeline] = mockDb.aggregate.mock.calls[0];
+    expect(pipeline[0]).toEqual({ $match: { userId: new ObjectId(userId) } });
+  });
+
+  it('should return zeroed statistics when the user has no tasks', async () => {
+    mockDb.toArray
+      .mockResolvedValueOnce([{ totals: [], byPriority: [], byCategory: [], completionTrend: [] }])
+      .mockResolvedValueOnce([]);
+
+    const response = await GET(buildRequest());
+
+    const { dashboard } = await response.json();
+    expect(dashboard).toEqual(
+      expect.objectContaining({ totalTasks: 0, tasksCompleted: 0, tasksPending: 0, dueToday: 0, overdue: 0 })
+    );
+  });
+
+  it('should return 401 without a token', async () => {
+    const response = await GET(buildRequest('', null));
+
+    expect(response.status).toBe(401);
+    expect(mockDb.aggregate).not.toHaveBeenCalled();
+  });
+});
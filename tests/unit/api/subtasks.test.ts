@@ -0,0 +1,150 @@
+// tests/unit/api/subtasks.test.ts
+
+import { POST } from '@/app/api/tasks/[id]/subtasks/route';
+import { PUT as REORDER } from '@/app/api/tasks/[id]/subtasks/reorder/route';
+import { PUT, DELETE } from '@/app/api/tasks/[id]/subtasks/[subtaskId]/route';
+import dbConnect from '@/lib/mongodb';
+import { verifyToken } from '@/lib/auth';
+import { ObjectId } from 'mongodb';
+
+jest.mock('@/lib/mongodb');
+jest.mock('@/lib/auth');
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  findOne: jest.fn(),
+  updateOne: jest.fn(),
+  insertOne: jest.fn(),
+};
+
+(dbConnect as jest.Mock).mockResolvedValue(mockDb);
+
+describe('/api/tasks/[id]/subtasks API Endpoints', () => {
+  const userId = new ObjectId().toHexString();
+  const taskId = new ObjectId().toHexString();
+  const firstId = new ObjectId();
+  const secondId = new ObjectId();
+
+  const buildTask = (overrides = {}) => ({
+    _id: new ObjectId(taskId),
+    userId: new ObjectId(userId),
+    title: 'Groceries',
+    resume: 'Weekly groceries',
+    completed: false,
+    subtasks: [
+      { _id: firstId, title: 'Milk', completed: true, dueDate: null },
+      { _id: secondId, title: 'Bread', completed: false, dueDate: null },
+    ],
+    ...overrides,
+  });
+
+  const buildRequest = (url: string, method: string, body?: any) =>
+    new Request(`http://localhost:3000/api/tasks/${taskId}/subtasks${url}`, {
+      method,
+      headers: new Headers({ authorization: `Bearer ${userId}` }),
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
+    mockDb.updateOne.mockResolvedValue({ matchedCount: 1, modifiedCount: 1 });
+  });
+
+  it('should append a subtask without rewriting the task', async () => {
+    mockDb.findOne.mockResolvedValue(buildTask());
+
+    const response = await POST(buildRequest('', 'POST', { title: '  Eggs ' }), { params: { id: taskId } });
+
+    expect(response.status).toBe(201);
+    const json = await response.json();
+    expect(json.subtask).toEqual(expect.objectContaining({ title: 'Eggs', completed: false }));
+
+    const [filter, update] = mockDb.updateOne.mock.calls[0];
+    expect(filter).toEqual({ _id: new ObjectId(taskId), userId: new ObjectId(userId) });
+    expect(update.$push.subtasks).toEqual(expect.objectContaining({ title: 'Eggs' }));
+  });
+
+  it('should reject a subtask without a title', async () => {
+    const response = await POST(buildRequest('', 'POST', { title: ' ' }), { params: { id: taskId } });
+
+    expect(response.status).toBe(400);
+    expect(mockDb.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should store the subtasks in the new order', async () => {
+    mockDb.findOne.mockResolvedValue(buildTask());
+
+    const response = await REORDER(
+      buildRequest('/reorder', 'PUT', { subtaskIds: [secondId.toHexString(), firstId.toHexString()] }),
+      { params: { id: taskId } }
+    );
+
+    expect(response.status).toBe(200);
+    const [, update] = mockDb.updateOne.mock.calls[0];
+    expect(update.$set.subtasks.map((subtask: any) => subtask.title)).toEqual(['Bread', 'Milk']);
+  });
+
+  it('should reject an order that does not list every subtask once', async () => {
+    mockDb.findOne.mockResolvedValue(buildTask());
+
+    const response = await REORDER(
+      buildRequest('/reorder', 'PUT', { subtaskIds: [firstId.toHexString(), firstId.toHexString()] }),
+      { params: { id: taskId } }
+    );
+
+    expect(response.status).toBe(400);
+    expect(mockDb.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should complete the parent task when its last subtask is completed and auto-completion is on', async () => {
+    mockDb.findOne.mockResolvedValue(
+      buildTask({
+        autoCompleteSubtasks: true,
+        subtasks: [
+          { _id: firstId, title: 'Milk', completed: true, dueDate: null },
+          { _id: secondId, title: 'Bread', completed: true, dueDate: null },
+        ],
+      })
+    );
+
+    const response = await PUT(buildRequest(`/${secondId}`, 'PUT', { completed: true }), {
+      params: { id: taskId, subtaskId: secondId.toHexString() },
+    });
+
+    expect(response.status).toBe(200);
+    const json = await response.json();
+    expect(json.task.completed).toBe(true);
+
+    expect(mockDb.updateOne.mock.calls[0][0]).toEqual(
+      expect.objectContaining({ 'subtasks._id': secondId })
+    );
+    expect(mockDb.updateOne.mock.calls[0][1]).toEqual({ $set: { 'subtasks.$.completed': true } });
+    expect(mockDb.updateOne.mock.calls[1][1].$set).toEqual(
+      expect.objectContaining({ completed: true, status: 'done' })
+    );
+  });
+
+  it('should leave the parent task open when auto-completion is off', async () => {
+    mockDb.findOne.mockResolvedValue(
+      buildTask({ subtasks: [{ _id: firstId, title: 'Milk', completed: true, dueDate: null }] })
+    );
+
+    await PUT(buildRequest(`/${firstId}`, 'PUT', { completed: true }), {
+      params: { id: taskId, subtaskId: firstId.toHexString() },
+    });
+
+    expect(mockDb.updateOne).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return 404 when removing a subtask that does not exist', async () => {
+    mockDb.updateOne.mockResolvedValue({ matchedCount: 0, modifiedCount: 0 });
+
+    const missingId = new ObjectId().toHexString();
+    const response = await DELETE(buildRequest(`/${missingId}`, 'DELETE'), {
+      params: { id: taskId, subtaskId: missingId },
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
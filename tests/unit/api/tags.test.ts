@@ -0,0 +1,125 @@
+// tests/unit/api/tags.test.ts
+
+import { POST } from '@/app/api/tags/route';
+import { PUT, DELETE } from '@/app/api/tags/[id]/route';
+import { POST as MERGE } from '@/app/api/tags/[id]/merge/route';
+import dbConnect from '@/lib/mongodb';
+import { verifyToken } from '@/lib/auth';
+import { ObjectId } from 'mongodb';
+
+jest.mock('@/lib/mongodb');
+jest.mock('@/lib/auth');
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  findOne: jest.fn(),
+  insertOne: jest.fn(),
+  updateOne: jest.fn(),
+  updateMany: jest.fn(),
+  deleteOne: jest.fn(),
+};
+
+(dbConnect as jest.Mock).mockResolvedValue(mockDb);
+
+describe('/api/tags API Endpoints', () => {
+  const userId = new ObjectId().toHexString();
+  const tagId = new ObjectId();
+  const targetId = new ObjectId();
+
+  const buildRequest = (url: string, method: string, body?: any) =>
+    new Request(`http://localhost:3000/api/tags${url}`, {
+      method,
+      headers: new Headers({ authorization: `Bearer ${userId}` }),
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
+    mockDb.findOne.mockResolvedValue(null);
+    mockDb.updateOne.mockResolvedValue({ matchedCount: 1, modifiedCount: 1 });
+    mockDb.deleteOne.mockResolvedValue({ deletedCount: 1 });
+  });
+
+  it('should create a tag with a normalized name', async () => {
+    const response = await POST(buildRequest('', 'POST', { name: '  Work   trip ', color: '#10b981' }));
+
+    expect(response.status).toBe(201);
+    const json = await response.json();
+    expect(json.tag).toEqual(expect.objectContaining({ name: 'Work trip', color: '#10b981' }));
+    expect(mockDb.insertOne).toHaveBeenCalled();
+  });
+
+  it('should reject a tag whose name already exists, ignoring case', async () => {
+    mockDb.findOne.mockResolvedValue({ _id: tagId, name: 'Work', color: '#3b82f6' });
+
+    const response = await POST(buildRequest('', 'POST', { name: 'work' }));
+
+    expect(response.status).toBe(409);
+    expect(mockDb.findOne.mock.calls[0][0].name).toEqual(/^work$/i);
+    expect(mockDb.insertOne).not.toHaveBeenCalled();
+  });
+
+  it('should reject an invalid color', async () => {
+    const response = await POST(buildRequest('', 'POST', { name: 'Work', color: 'blue' }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should rename a tag without touching the tasks that use it', async () => {
+    mockDb.findOne.mockResolvedValueOnce(null).mockResolvedValueOnce({ _id: tagId, name: 'Errands' });
+
+    const response = await PUT(buildRequest(`/${tagId}`, 'PUT', { name: 'Errands' }), { params: { id: tagId.toHexString() } });
+
+    expect(response.status).toBe(200);
+    expect(mockDb.updateOne).toHaveBeenCalledWith(
+      { _id: tagId, userId: new ObjectId(userId) },
+      { $set: { name: 'Errands' } }
+    );
+    expect(mockDb.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to rename a tag to the name of another tag', async () => {
+    mockDb.findOne.mockResolvedValue({ _id: targetId, name: 'Errands' });
+
+    const response = await PUT(buildRequest(`/${tagId}`, 'PUT', { name: 'errands' }), { params: { id: tagId.toHexString() } });
+
+    expect(response.status).toBe(409);
+    expect(mockDb.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should move the tasks of a merged tag to the target tag and delete it', async () => {
+    mockDb.findOne
+      .mockResolvedValueOnce({ _id: tagId, name: 'Chores' })
+      .mockResolvedValueOnce({ _id: targetId, name: 'Errands' });
+
+    const response = await MERGE(
+      buildRequest(`/${tagId}/merge`, 'POST', { targetId: targetId.toHexString() }),
+      { params: { id: tagId.toHexString() } }
+    );
+
+    expect(response.status).toBe(200);
+    const owner = new ObjectId(userId);
+    expect(mockDb.updateMany).toHaveBeenNthCalledWith(
+      1,
+      { userId: owner, tagIds: tagId },
+      { $addToSet: { tagIds: targetId } }
+    );
+    expect(mockDb.updateMany).toHaveBeenNthCalledWith(
+      2,
+      { userId: owner, tagIds: tagId },
+      { $pull: { tagIds: tagId } }
+    );
+    expect(mockDb.deleteOne).toHaveBeenCalledWith({ _id: tagId, userId: owner });
+  });
+
+  it('should remove a deleted tag from every task', async () => {
+    const response = await DELETE(buildRequest(`/${tagId}`, 'DELETE'), { params: { id: tagId.toHexString() } });
+
+    expect(response.status).toBe(200);
+    expect(mockDb.updateMany).toHaveBeenCalledWith(
+      { userId: new ObjectId(userId), tagIds: tagId },
+      { $pull: { tagIds: tagId } }
+    );
+  });
+});
@@ -5,6 +5,7 @@ import { GET, POST } from '@/app/api/tasks/route';
 import dbConnect from '@/lib/mongodb';
 import { verifyToken } from '@/lib/auth';
 import { ObjectId } from 'mongodb';
+import { DEFAULT_PAGE_SIZE } from '@/lib/taskQuery';
 
 jest.mock('@/lib/mongodb');
 jest.mock('@/lib/auth');
@@ -12,6 +13,8 @@ jest.mock('@/lib/auth');
 const mockDb = {
   collection: jest.fn().mockReturnThis(),
   find: jest.fn(),
+  aggregate: jest.fn(),
+  countDocuments: jest.fn(),
   insertOne: jest.fn(),
 };
 
@@ -63,6 +66,35 @@ describe('/api/tasks API Endpoint', () => {
     );
   });
 
+  it('should return the first page by default and look up the blockers of ready tasks', async () => {
+    (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
+    const readyTask = { _id: new ObjectId(), title: 'Build', completed: false, userId };
+    mockDb.aggregate
+      .mockReturnValueOnce({ toArray: jest.fn().mockResolvedValue([readyTask]) })
+      .mockReturnValueOnce({ toArray: jest.fn().mockResolvedValue([{ total: 1 }]) });
+    mockDb.find.mockReturnValue({ toArray: jest.fn().mockResolvedValue([]) });
+
+    const request = new Request('http://localhost:3000/api/tasks?ready=true', {
+      method: 'GET',
+      headers: new Headers({ authorization: token }),
+    });
+
+    const response = await GET(request);
+
+    expect(response.status).toBe(200);
+    const json = await response.json();
+    expect(json.tasks).toHaveLength(1);
+    expect(json.total).toBe(1);
+    expect(json.nextCursor).toBeNull();
+
+    const [pipeline] = mockDb.aggregate.mock.calls[0];
+    expect(pipeline).toEqual(expect.arrayContaining([
+      expect.objectContaining({ $lookup: expect.objectContaining({ localField: 'blockedBy', foreignField: '_id' }) }),
+      { $match: { openBlockers: { $size: 0 } } },
+    ]));
+    expect(pipeline[pipeline.length - 1]).toEqual({ $limit: DEFAULT_PAGE_SIZE + 1 });
+  });
+
   it('should create a new task', async () => {
     (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
   
@@ -0,0 +1,167 @@
+// tests/unit/api/tasksBatch.test.ts
+
+import { POST } from '@/app/api/tasks/batch/route';
+import dbConnect, { runInTransaction } from '@/lib/mongodb';
+import { verifyToken } from '@/lib/auth';
+import { ObjectId } from 'mongodb';
+
+jest.mock('@/lib/mongodb');
+jest.mock('@/lib/auth');
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  find: jest.fn(),
+  findOne: jest.fn(),
+  bulkWrite: jest.fn(),
+  updateOne: jest.fn(),
+  insertOne: jest.fn(),
+  updateMany: jest.fn(),
+};
+const session = { id: 'session' };
+
+(dbConnect as jest.Mock).mockResolvedValue(mockDb);
+
+describe('/api/tasks/batch API Endpoint', () => {
+  const userId = new ObjectId().toHexString();
+  const owner = new ObjectId(userId);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.find.mockReset();
+    (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
+    mockDb.updateOne.mockResolvedValue({ matchedCount: 1, modifiedCount: 1 });
+    (runInTransaction as jest.Mock).mockImplementation((fn) => fn(session));
+  });
+
+  // The first query returns the tasks of the batch, the next one the open blockers
+  const mockFind = (tasks: any[], openBlockers: any[] = []) => {
+    mockDb.find
+      .mockReturnValueOnce({ toArray: jest.fn().mockResolvedValue(tasks) })
+      .mockReturnValueOnce({ toArray: jest.fn().mockResolvedValue(openBlockers) });
+  };
+
+  const buildRequest = (body: any) =>
+    new Request('http://localhost:3000/api/tasks/batch', {
+      method: 'POST',
+      headers: new Headers({ authorization: `Bearer ${userId}` }),
+      body: JSON.stringify(body),
+    });
+
+  it('should change the tasks of the user in one bulk write and report the unknown ones', async () => {
+    const task = { _id: new ObjectId(), userId: owner, title: 'Rent' };
+    const missingId = new ObjectId();
+    mockFind([task]);
+
+    const response = await POST(buildRequest({
+      action: 'priority',
+      priority: 'highest',
+      taskIds: [task._id.toHexString(), missingId.toHexString(), task._id.toHexString()],
+    }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      success: true,
+      action: 'priority',
+      updatedCount: 1,
+      failedCount: 1,
+      results: [
+        { taskId: task._id.toHexString(), success: true },
+        { taskId: missingId.toHexString(), success: false, code: 'TASK_NOT_FOUND' },
+      ],
+    });
+    expect(mockDb.find).toHaveBeenCalledWith({ _id: { $in: [task._id, missingId] }, userId: owner }, { session });
+    expect(mockDb.bulkWrite).toHaveBeenCalledTimes(1);
+    expect(mockDb.bulkWrite.mock.calls[0][1]).toEqual({ ordered: true, session });
+    expect(mockDb.bulkWrite.mock.calls[0][0]).toEqual([{
+      updateMany: { filter: { _id: { $in: [task._id] }, userId: owner }, update: { $set: { priority: 'highest' } } },
+    }]);
+  });
+
+  it('should complete tasks whose blockers are completed by the same batch, and skip the blocked ones', async () => {
+    const blocker = { _id: new ObjectId(), userId: owner, title: 'Design', blockedBy: [] };
+    const ready = { _id: new ObjectId(), userId: owner, title: 'Build', blockedBy: [blocker._id] };
+    const outsideBlocker = { _id: new ObjectId(), title: 'Budget' };
+    const blocked = { _id: new ObjectId(), userId: owner, title: 'Ship', blockedBy: [outsideBlocker._id] };
+    const recurring = {
+      _id: new ObjectId(), userId: owner, title: 'Gym', dueDate: new Date('2030-01-01T10:00:00Z'),
+      recurrence: { frequency: 'daily', interval: 1 },
+    };
+    mockFind([blocker, ready, blocked, recurring], [blocker, outsideBlocker]);
+
+    const response = await POST(buildRequest({
+      action: 'complete',
+      taskIds: [blocker, ready, blocked, recurring].map(({ _id }) => _id.toHexString()),
+    }));
+
+    const json = await response.json();
+    expect(json.updatedCount).toBe(3);
+    expect(json.results[2]).toEqual({
+      taskId: blocked._id.toHexString(),
+      success: false,
+      code: 'TASK_BLOCKED',
+      blockers: [{ _id: outsideBlocker._id.toHexString(), title: 'Budget', completed: false }],
+    });
+
+    const operations = mockDb.bulkWrite.mock.calls[0][0];
+    const updatedIds = operations.filter((operation: any) => operation.updateOne).map((operation: any) => operation.updateOne.filter._id);
+    expect(updatedIds).toEqual([blocker._id, ready._id]);
+    expect(operations[0].updateOne.filter).toEqual(expect.objectContaining({ completed: { $ne: true } }));
+
+    // The recurring task is completed on its own, creating its next occurrence once
+    const [filter, update] = mockDb.updateOne.mock.calls[0];
+    expect(filter).toEqual({ _id: recurring._id, userId: owner, completed: { $ne: true } });
+    expect(update.$set).toEqual(expect.objectContaining({ completed: true, status: 'done', recurrence: null }));
+    expect(mockDb.insertOne.mock.calls[0][0]).toEqual(expect.objectContaining({ title: 'Gym', occurrence: 2, completed: false }));
+    // Every write of the batch belongs to the same transaction
+    expect(runInTransaction).toHaveBeenCalledTimes(1);
+    expect(mockDb.updateOne.mock.calls[0][2]).toEqual({ session });
+    expect(mockDb.insertOne.mock.calls[0][1]).toEqual({ session });
+  });
+
+  it('should reschedule to a day keeping the due time of each task', async () => {
+    const timed = { _id: new ObjectId(), userId: owner, dueTime: '09:30' };
+    const untimed = { _id: new ObjectId(), userId: owner };
+    mockFind([timed, untimed]);
+
+    await POST(buildRequest({
+      action: 'reschedule',
+      dueDate: new Date(2030, 2, 12).toISOString(),
+      taskIds: [timed._id.toHexString(), untimed._id.toHexString()],
+    }));
+
+    const [first, second] = mockDb.bulkWrite.mock.calls[0][0];
+    expect(first.updateOne.update.$set.dueDate).toEqual(new Date(2030, 2, 12, 9, 30));
+    expect(second.updateOne.update.$set.dueDate).toEqual(new Date(2030, 2, 12, 23, 59));
+  });
+
+  it('should delete the tasks and remove them from the dependencies of other tasks', async () => {
+    const task = { _id: new ObjectId(), userId: owner };
+    mockFind([task]);
+
+    await POST(buildRequest({ action: 'delete', taskIds: [task._id.toHexString()] }));
+
+    expect(mockDb.bulkWrite.mock.calls[0][0]).toEqual([
+      { deleteMany: { filter: { _id: { $in: [task._id] }, userId: owner } } },
+    ]);
+    expect(mockDb.updateMany).toHaveBeenCalledWith(
+      { userId: owner, blockedBy: { $in: [task._id] } },
+      { $pullAll: { blockedBy: [task._id] } },
+      { session }
+    );
+  });
+
+  it('should change nothing when the value of the action is missing or the category is not the user\'s', async () => {
+    const taskIds = [new ObjectId().toHexString()];
+    mockDb.findOne.mockResolvedValue(null);
+
+    const missing = await POST(buildRequest({ action: 'priority', taskIds }));
+    const unknownCategory = await POST(buildRequest({ action: 'category', categoryId: new ObjectId().toHexString(), taskIds }));
+    const unknownAction = await POST(buildRequest({ action: 'archive', taskIds }));
+
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).details.errors).toEqual([expect.objectContaining({ path: 'priority', code: 'required' })]);
+    expect((await unknownCategory.json()).details.errors).toEqual([expect.objectContaining({ path: 'categoryId', code: 'not_found' })]);
+    expect(unknownAction.status).toBe(400);
+    expect(mockDb.bulkWrite).not.toHaveBeenCalled();
+  });
+});
@@ -11,6 +11,11 @@ const mockDb = {
   collection: jest.fn().mockReturnThis(),
   findOne: jest.fn(),  // Certifique-se de que findOne está mockado corretamente
   updateOne: jest.fn(),  // Adiciona o mock da função updateOne
+  insertOne: jest.fn(),
+  find: jest.fn(),
+  aggregate: jest.fn(),
+  countDocuments: jest.fn(),
+  updateMany: jest.fn(),
 };
 
 (dbConnect as jest.Mock).mockResolvedValue(mockDb);
@@ -79,4 +84,154 @@ describe('/api/tasks/[id] API Endpoint', () => {
       userId: new ObjectId(userId),
     });
   });
+
+  it('should create the next occurrence when a recurring task is completed', async () => {
+    (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
+
+    const recurrence = { frequency: 'weekly', interval: 1, weekdays: [1, 3] };
+    const existingTask = {
+      _id: new ObjectId(taskId),
+      title: 'Weekly report',
+      resume: 'Send the weekly report',
+      completed: false,
+      status: 'todo',
+      dueDate: new Date(2030, 0, 7, 18, 0), // Monday
+      dueTime: '18:00',
+      recurrence,
+      occurrence: 2,
+      userId: new ObjectId(userId),
+    };
+    mockDb.findOne.mockResolvedValue(existingTask);
+    mockDb.updateOne.mockResolvedValue({ matchedCount: 1, modifiedCount: 1 });
+
+    const request = new Request(`http://localhost:3000/api/tasks/${taskId}`, {
+      method: 'PUT',
+      headers: new Headers({ authorization: token }),
+      body: JSON.stringify({ completed: true }),
+    });
+
+    const response = await PUT(request, { params: { id: taskId } });
+
+    expect(response.status).toBe(200);
+    const [, update] = mockDb.updateOne.mock.calls[0];
+    expect(update.$set).toEqual(
+      expect.objectContaining({ completed: true, status: 'done', recurrence: null })
+    );
+
+    const [nextTask] = mockDb.insertOne.mock.calls[0];
+    expect(nextTask).toEqual(
+      expect.objectContaining({
+        title: 'Weekly report',
+        completed: false,
+        status: 'todo',
+        dueDate: new Date(2030, 0, 9, 18, 0), // Wednesday
+        recurrence,
+        occurrence: 3,
+      })
+    );
+  });
+
+  it('should not create another occurrence when the task was completed by another request', async () => {
+    (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
+
+    mockDb.findOne.mockResolvedValue({
+      _id: new ObjectId(taskId),
+      title: 'Daily review',
+      completed: false,
+      dueDate: new Date(2030, 0, 7, 18, 0),
+      recurrence: { frequency: 'daily', interval: 1 },
+      userId: new ObjectId(userId),
+    });
+    mockDb.updateOne.mockResolvedValue({ matchedCount: 0, modifiedCount: 0 });
+
+    const request = new Request(`http://localhost:3000/api/tasks/${taskId}`, {
+      method: 'PUT',
+      headers: new Headers({ authorization: token }),
+      body: JSON.stringify({ completed: true }),
+    });
+
+    const response = await PUT(request, { params: { id: taskId } });
+
+    expect(response.status).toBe(200);
+    expect(mockDb.updateOne.mock.calls[0][0]).toEqual(expect.objectContaining({ completed: { $ne: true } }));
+    expect(mockDb.insertOne).not.toHaveBeenCalled();
+    expect((await response.json()).nextTask).toBeUndefined();
+  });
+
+  it('should reject an invalid recurrence rule', async () => {
+    (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
+
+    const request = new Request(`http://localhost:3000/api/tasks/${taskId}`, {
+      method: 'PUT',
+      headers: new Headers({ authorization: token }),
+      body: JSON.stringify({ recurrence: { frequency: 'weekly', interval: 1, weekdays: [] } }),
+    });
+
+    const response = await PUT(request, { params: { id: taskId } });
+
+    expect(response.status).toBe(400);
+    expect(mockDb.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to complete a task while one of its blockers is open', async () => {
+    (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
+
+    const blockerId = new ObjectId();
+    mockDb.findOne.mockResolvedValue({
+      _id: new ObjectId(taskId),
+      title: 'Deploy',
+      completed: false,
+      blockedBy: [blockerId],
+      userId: new ObjectId(userId),
+    });
+    mockDb.find.mockReturnValue({
+      toArray: jest.fn().mockResolvedValue([{ _id: blockerId, title: 'Write tests' }]),
+    });
+
+    const buildRequest = (body: object) =>
+      new Request(`http://localhost:3000/api/tasks/${taskId}`, {
+        method: 'PUT',
+        headers: new Headers({ authorization: token }),
+        body: JSON.stringify(body),
+      });
+
+    const response = await PUT(buildRequest({ completed: true }), { params: { id: taskId } });
+
+    expect(response.status).toBe(409);
+    const json = await response.json();
+    expect(json.code).toBe('TASK_BLOCKED');
+    expect(json.details.blockers).toEqual([{ _id: blockerId.toHexString(), title: 'Write tests', completed: false }]);
+    expect(mockDb.updateOne).not.toHaveBeenCalled();
+
+    mockDb.updateOne.mockResolvedValue({ matchedCount: 1, modifiedCount: 1 });
+    const forced = await PUT(buildRequest({ completed: true, force: true }), { params: { id: taskId } });
+
+    expect(forced.status).toBe(200);
+    expect(mockDb.updateOne.mock.calls[0][1].$set).toEqual(expect.objectContaining({ completed: true }));
+  });
+
+  it('should reject dependencies that form a cycle', async () => {
+    (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
+
+    const otherId = new ObjectId();
+    mockDb.findOne.mockResolvedValue({ _id: new ObjectId(taskId), title: 'Deploy', userId: new ObjectId(userId) });
+    mockDb.countDocuments.mockResolvedValue(1);
+    mockDb.aggregate.mockReturnValue({
+      toArray: jest.fn().mockResolvedValue([
+        { _id: otherId, blockedBy: [new ObjectId(taskId)], upstream: [{ _id: new ObjectId(taskId) }] },
+      ]),
+    });
+
+    const request = new Request(`http://localhost:3000/api/tasks/${taskId}`, {
+      method: 'PUT',
+      headers: new Headers({ authorization: token }),
+      body: JSON.stringify({ blockedBy: [otherId.toHexString()] }),
+    });
+
+    const response = await PUT(request, { params: { id: taskId } });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).message).toBe('Dependency cycle detected');
+    expect(mockDb.updateOne).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,102 @@
+// tests/unit/api/tasksImport.test.ts
+
+import { POST as PREVIEW } from '@/app/api/tasks/import/preview/route';
+import { POST as IMPORT } from '@/app/api/tasks/import/route';
+import dbConnect from '@/lib/mongodb';
+import { verifyToken } from '@/lib/auth';
+import { ObjectId } from 'mongodb';
+
+jest.mock('@/lib/mongodb');
+jest.mock('@/lib/auth');
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  find: jest.fn(),
+  insertMany: jest.fn(),
+};
+
+(dbConnect as jest.Mock).mockResolvedValue(mockDb);
+
+const csv = [
+  'Title,Project,Due',
+  'Rent,Home,2030-01-31',
+  'Old,Home,2000-01-01',
+  'Report,Work,',
+].join('\r\n');
+
+describe('/api/tasks/import API Endpoints', () => {
+  const userId = new ObjectId().toHexString();
+  const homeId = new ObjectId();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
+    mockDb.find.mockImplementation(() => ({
+      toArray: jest.fn().mockResolvedValue(mockDb.collection.mock.calls.at(-1)[0] === 'categories'
+        ? [{ _id: homeId, name: 'home' }]
+        : []),
+    }));
+  });
+
+  const buildRequest = (path: string, body: any) =>
+    new Request(`http://localhost:3000/api/tasks/${path}`, {
+      method: 'POST',
+      headers: new Headers({ authorization: `Bearer ${userId}` }),
+      body: JSON.stringify(body),
+    });
+
+  it('should preview the rows with their errors and the categories to create, without saving', async () => {
+    const response = await PREVIEW(buildRequest('import/preview', { format: 'csv', content: csv }));
+
+    expect(response.status).toBe(200);
+    const json = await response.json();
+    expect(json).toEqual(expect.objectContaining({
+      source: 'csv',
+      columns: ['Title', 'Project', 'Due'],
+      mapping: { title: 0, category: 1, dueDate: 2 },
+      validCount: 2,
+      newCategories: ['Work'],
+      newTags: [],
+    }));
+    expect(json.rows.map(({ row, errors }: any) => [row, errors.map(({ code }: any) => code)]))
+      .toEqual([[2, []], [3, ['past_date']], [4, []]]);
+    expect(mockDb.insertMany).not.toHaveBeenCalled();
+  });
+
+  it('should use the mapping sent by the wizard', async () => {
+    const response = await PREVIEW(buildRequest('import/preview', {
+      format: 'csv',
+      content: csv,
+      mapping: { title: 1 },
+    }));
+
+    const json = await response.json();
+    expect(json.mapping).toEqual({ title: 1 });
+    expect(json.rows[0].title).toBe('Home');
+    expect(json.newCategories).toEqual([]);
+  });
+
+  it('should create the valid tasks and their missing categories, and skip rows with errors', async () => {
+    const response = await IMPORT(buildRequest('import', { format: 'csv', content: csv }));
+
+    expect(response.status).toBe(201);
+    const json = await response.json();
+    expect(json).toEqual(expect.objectContaining({ imported: 2, skipped: 1, createdCategories: ['Work'] }));
+    expect(json.errors).toEqual([{ row: 3, errors: [expect.objectContaining({ path: 'dueDate', code: 'past_date' })] }]);
+
+    const [categories] = mockDb.insertMany.mock.calls[0];
+    const [tasks] = mockDb.insertMany.mock.calls[1];
+    expect(categories).toEqual([expect.objectContaining({ name: 'Work', userId: new ObjectId(userId) })]);
+    expect(tasks.map(({ title, categoryId }: any) => [title, categoryId]))
+      .toEqual([['Rent', homeId.toString()], ['Report', categories[0]._id.toString()]]);
+  });
+
+  it('should report a file that cannot be read as an error of its content', async () => {
+    const response = await IMPORT(buildRequest('import', { format: 'json', content: 'not json' }));
+
+    expect(response.status).toBe(400);
+    const json = await response.json();
+    expect(json.details.errors).toEqual([expect.objectContaining({ path: 'content', code: 'invalid' })]);
+    expect(mockDb.insertMany).not.toHaveBeenCalled();
+  });
+});
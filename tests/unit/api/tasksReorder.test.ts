@@ -0,0 +1,142 @@
+// tests/unit/api/tasksReorder.test.ts
+
+import { PUT } from '@/app/api/tasks/reorder/route';
+import dbConnect from '@/lib/mongodb';
+import { verifyToken } from '@/lib/auth';
+import { ObjectId } from 'mongodb';
+
+jest.mock('@/lib/mongodb');
+jest.mock('@/lib/auth');
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  find: jest.fn(),
+  bulkWrite: jest.fn(),
+  updateOne: jest.fn(),
+  insertOne: jest.fn(),
+};
+
+(dbConnect as jest.Mock).mockResolvedValue(mockDb);
+
+describe('/api/tasks/reorder API Endpoint', () => {
+  const userId = new ObjectId().toHexString();
+  const token = `Bearer ${userId}`;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
+    mockDb.find.mockReset();
+    mockDb.find.mockReturnValue({ toArray: jest.fn().mockResolvedValue([]) });
+  });
+
+  // The first query returns the tasks completed by the move, the next one their open blockers
+  const mockFind = (completing: any[], openBlockers: any[] = []) => {
+    mockDb.find
+      .mockReturnValueOnce({ toArray: jest.fn().mockResolvedValue(completing) })
+      .mockReturnValueOnce({ toArray: jest.fn().mockResolvedValue(openBlockers) });
+  };
+
+  const buildRequest = (body: any) =>
+    new Request('http://localhost:3000/api/tasks/reorder', {
+      method: 'PUT',
+      headers: new Headers({ authorization: token }),
+      body: JSON.stringify(body),
+    });
+
+  it('should move the tasks to the column and store their order', async () => {
+    const taskIds = [new ObjectId().toHexString(), new ObjectId().toHexString()];
+    mockDb.bulkWrite.mockResolvedValue({ modifiedCount: 2 });
+
+    const response = await PUT(buildRequest({ status: 'done', taskIds }));
+
+    expect(response.status).toBe(200);
+    const json = await response.json();
+    expect(json).toEqual({ success: true, modifiedCount: 2, nextTasks: [] });
+
+    const [operations] = mockDb.bulkWrite.mock.calls[0];
+    expect(operations).toHaveLength(2);
+    expect(operations[1].updateOne).toEqual({
+      filter: { _id: new ObjectId(taskIds[1]), userId: new ObjectId(userId) },
+      update: [
+        {
+          $set: {
+            status: 'done',
+            position: 1,
+            completed: true,
+            completedAt: { $ifNull: ['$completedAt', '$$NOW'] },
+          },
+        },
+      ],
+    });
+  });
+
+  it('should refuse to complete a task moved to done while one of its blockers is open, unless forced', async () => {
+    const blockerId = new ObjectId();
+    const doneBlockerId = new ObjectId();
+    const taskId = new ObjectId();
+    mockFind([{ _id: taskId, blockedBy: [blockerId, doneBlockerId] }], [{ _id: blockerId, title: 'Design' }]);
+
+    const response = await PUT(buildRequest({ status: 'done', taskIds: [taskId.toHexString(), doneBlockerId.toHexString()] }));
+
+    expect(response.status).toBe(409);
+    const json = await response.json();
+    expect(json.code).toBe('TASK_BLOCKED');
+    expect(json.details.blockers).toEqual([{ _id: blockerId.toHexString(), title: 'Design', completed: false }]);
+    // Blockers moved to done by the same request do not block
+    expect(mockDb.find.mock.calls[1][0]._id).toEqual({ $in: [blockerId] });
+    expect(mockDb.bulkWrite).not.toHaveBeenCalled();
+
+    mockDb.bulkWrite.mockResolvedValue({ modifiedCount: 2 });
+    const forced = await PUT(buildRequest({ status: 'done', taskIds: [taskId.toHexString()], force: true }));
+
+    expect(forced.status).toBe(200);
+    expect(mockDb.bulkWrite).toHaveBeenCalledTimes(1);
+  });
+
+  it('should create the next occurrence of a recurring task moved to done', async () => {
+    const recurrence = { frequency: 'daily', interval: 1 };
+    const doneId = new ObjectId();
+    const recurring = {
+      _id: new ObjectId(),
+      userId: new ObjectId(userId),
+      title: 'Gym',
+      completed: false,
+      status: 'todo',
+      dueDate: new Date(2030, 0, 1, 10, 0),
+      recurrence,
+    };
+    mockFind([recurring]);
+    mockDb.bulkWrite.mockResolvedValue({ modifiedCount: 0 });
+    mockDb.updateOne.mockResolvedValue({ matchedCount: 1, modifiedCount: 1 });
+
+    const response = await PUT(buildRequest({ status: 'done', taskIds: [doneId.toHexString(), recurring._id.toHexString()] }));
+
+    expect(response.status).toBe(200);
+    const json = await response.json();
+    expect(json.modifiedCount).toBe(1);
+    expect(json.nextTasks).toEqual([expect.objectContaining({ title: 'Gym', occurrence: 2, completed: false })]);
+
+    // The task already done keeps its completion; the recurring task goes through the completion logic
+    expect(mockDb.bulkWrite.mock.calls[0][0].map((operation: any) => operation.updateOne.filter._id)).toEqual([doneId]);
+    const [filter, update] = mockDb.updateOne.mock.calls[0];
+    expect(filter).toEqual({ _id: recurring._id, userId: new ObjectId(userId), completed: { $ne: true } });
+    expect(update.$set).toEqual(expect.objectContaining({ completed: true, status: 'done', position: 1, recurrence: null }));
+    expect(mockDb.insertOne.mock.calls[0][0]).toEqual(
+      expect.objectContaining({ title: 'Gym', dueDate: new Date(2030, 0, 2, 10, 0), recurrence, occurrence: 2 })
+    );
+  });
+
+  it('should reject an unknown status', async () => {
+    const response = await PUT(buildRequest({ status: 'archived', taskIds: [] }));
+
+    expect(response.status).toBe(400);
+    expect(mockDb.bulkWrite).not.toHaveBeenCalled();
+  });
+
+  it('should reject malformed task IDs', async () => {
+    const response = await PUT(buildRequest({ status: 'todo', taskIds: ['not-an-id'] }));
+
+    expect(response.status).toBe(400);
+    expect(mockDb.bulkWrite).not.toHaveBeenCalled();
+  });
+});
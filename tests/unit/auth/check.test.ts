@@ -1,11 +1,15 @@
 import { createMocks } from 'node-mocks-http';
 import { GET } from '@/app/api/auth/check/route';
 import { verifyToken } from '@/lib/auth';
+import dbConnect from '@/lib/mongodb';
 
 // Mock the verifyToken function
 jest.mock('@/lib/auth', () => ({
   verifyToken: jest.fn(), // Mock the verifyToken function
 }));
+jest.mock('@/lib/mongodb');
+
+(dbConnect as jest.Mock).mockResolvedValue({});
 
 describe('GET /api/auth/check', () => {
   beforeEach(() => {
@@ -24,7 +28,7 @@ describe('GET /api/auth/check', () => {
     });
 
     // Mock verifyToken to return a decoded user when a valid token is passed
-    (verifyToken as jest.Mock).mockReturnValueOnce({ userId: 'userId' });
+    (verifyToken as jest.Mock).mockReturnValueOnce({ userId: '64b7f0c2a1b2c3d4e5f60718' });
 
     // Check if the verifyToken mock is called
     console.log('Mock verifyToken function:', verifyToken);
@@ -59,7 +63,7 @@ describe('GET /api/auth/check', () => {
     expect(json).toEqual({
       success: true,
       message: 'Authenticated',
-      user: { userId: 'userId' }, // Expected user object
+      user: { userId: '64b7f0c2a1b2c3d4e5f60718' }, // Expected user object
     });
   });
 
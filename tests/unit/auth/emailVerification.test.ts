@@ -0,0 +1,190 @@
+// tests/unit/auth/emailVerification.test.ts
+
+import { POST as REGISTER } from '@/app/api/auth/register/route';
+import { POST as LOGIN } from '@/app/api/auth/login/route';
+import { POST as VERIFY } from '@/app/api/auth/verify-email/route';
+import { POST as RESEND } from '@/app/api/auth/resend-verification/route';
+import dbConnect from '@/lib/mongodb';
+import { sendMail } from '@/lib/mail';
+import { verifyToken } from '@/lib/auth';
+import { verifyPassword } from '@/models/User';
+import { hashSecureToken } from '@/lib/secureTokens';
+import { checkLoginThrottle, countThrottledAttempt } from '@/lib/loginThrottle';
+import { ObjectId } from 'mongodb';
+
+jest.mock('@/lib/mongodb');
+jest.mock('@/lib/auth');
+jest.mock('@/lib/mail');
+jest.mock('@/models/User', () => ({
+  ...jest.requireActual('@/models/User'),
+  verifyPassword: jest.fn(),
+}));
+jest.mock('@/lib/loginThrottle', () => ({
+  ...jest.requireActual('@/lib/loginThrottle'),
+  checkLoginThrottle: jest.fn(),
+  countThrottledAttempt: jest.fn(),
+}));
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  find: jest.fn().mockReturnThis(),
+  toArray: jest.fn().mockResolvedValue([]),
+  findOne: jest.fn(),
+  findOneAndUpdate: jest.fn(),
+  insertOne: jest.fn(),
+  updateOne: jest.fn(),
+  deleteOne: jest.fn(),
+};
+
+(dbConnect as jest.Mock).mockResolvedValue(mockDb);
+
+const buildRequest = (url: string, body?: any, token?: string) =>
+  new Request(`http://localhost:3000/api/auth/${url}`, {
+    method: 'POST',
+    headers: new Headers({
+      'Content-Type': 'application/json',
+      ...(token ? { authorization: `Bearer ${token}` } : {}),
+    }),
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+describe('Email verification', () => {
+  const userId = new ObjectId();
+  const unverifiedUser = { _id: userId, email: 'test@example.com', username: 'test', password: 'hashed', emailVerified: false };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.EMAIL_VERIFICATION_POLICY;
+    mockDb.insertOne.mockResolvedValue({ insertedId: userId });
+    (verifyPassword as jest.Mock).mockResolvedValue(true);
+    (checkLoginThrottle as jest.Mock).mockResolvedValue(0);
+  });
+
+  it('should create unverified users and email them a verification link', async () => {
+    mockDb.findOne.mockResolvedValue(null);
+
+    const response = await REGISTER(buildRequest('register', { username: 'test', email: 'test@example.com', password: 'password123' }));
+
+    expect(response.status).toBe(201);
+    expect(mockDb.insertOne).toHaveBeenCalledWith(expect.objectContaining({ emailVerified: false }));
+
+    const message = (sendMail as jest.Mock).mock.calls[0][0];
+    expect(message.to).toBe('test@example.com');
+    const token = decodeURIComponent(message.text.match(/verify-email\?token=(\S+)/)[1]);
+    const [filter, update] = mockDb.updateOne.mock.calls[0];
+    expect(filter).toEqual({ _id: userId });
+    expect(update.$set.emailVerificationTokenHash).toBe(hashSecureToken(token));
+  });
+
+  it('should not log in after registering when the policy blocks unverified users', async () => {
+    process.env.EMAIL_VERIFICATION_POLICY = 'block';
+    mockDb.findOne.mockResolvedValue(null);
+
+    const response = await REGISTER(buildRequest('register', { username: 'test', email: 'test@example.com', password: 'password123' }));
+
+    expect(response.status).toBe(201);
+    const json = await response.json();
+    expect(json.verificationRequired).toBe(true);
+    expect(json.token).toBeUndefined();
+    expect(response.headers.get('set-cookie')).toBeNull();
+  });
+
+  it('should refuse to log in unverified users when the policy blocks them', async () => {
+    process.env.EMAIL_VERIFICATION_POLICY = 'block';
+    mockDb.findOne.mockResolvedValue(unverifiedUser);
+
+    const response = await LOGIN(buildRequest('login', { email: 'test@example.com', password: 'password123' }));
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).code).toBe('EMAIL_NOT_VERIFIED');
+  });
+
+  it('should let unverified users log in with the limited policy', async () => {
+    mockDb.findOne.mockResolvedValue(unverifiedUser);
+
+    const response = await LOGIN(buildRequest('login', { email: 'test@example.com', password: 'password123' }));
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should verify the email with a valid token and reject unknown ones', async () => {
+    mockDb.findOne.mockResolvedValueOnce(unverifiedUser).mockResolvedValueOnce(null);
+    mockDb.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+    const verified = await VERIFY(buildRequest('verify-email', { token: 'token' }));
+    expect(verified.status).toBe(200);
+    const tokenFilter = { emailVerificationTokenHash: hashSecureToken('token'), emailVerificationExpiresAt: { $gt: expect.any(Date) } };
+    expect(mockDb.findOne).toHaveBeenCalledWith(tokenFilter);
+    const [filter, update] = mockDb.updateOne.mock.calls[0];
+    expect(filter).toEqual({ _id: userId, ...tokenFilter });
+    expect(update.$set).toEqual({ emailVerified: true });
+
+    const rejected = await VERIFY(buildRequest('verify-email', { token: 'token' }));
+    expect(rejected.status).toBe(400);
+  });
+
+  it('should switch to the pending email once its link is opened', async () => {
+    mockDb.findOne
+      .mockResolvedValueOnce({ ...unverifiedUser, emailVerified: true, pendingEmail: 'new@example.com' })
+      .mockResolvedValueOnce(null);
+    mockDb.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+    const response = await VERIFY(buildRequest('verify-email', { token: 'token' }));
+
+    expect(response.status).toBe(200);
+    const [, update] = mockDb.updateOne.mock.calls[0];
+    expect(update.$set).toEqual({ emailVerified: true, email: 'new@example.com' });
+    expect(update.$unset).toEqual(expect.objectContaining({ pendingEmail: '' }));
+  });
+
+  it('should not switch to a pending email taken by another account in the meantime', async () => {
+    mockDb.findOne
+      .mockResolvedValueOnce({ ...unverifiedUser, pendingEmail: 'new@example.com' })
+      .mockResolvedValueOnce({ _id: new ObjectId(), email: 'new@example.com' });
+
+    const response = await VERIFY(buildRequest('verify-email', { token: 'token' }));
+
+    expect(response.status).toBe(409);
+    expect(mockDb.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should resend the link to the logged-in user unless already verified', async () => {
+    (verifyToken as jest.Mock).mockReturnValue({ userId: userId.toHexString() });
+    mockDb.findOne.mockResolvedValueOnce(unverifiedUser).mockResolvedValueOnce({ ...unverifiedUser, emailVerified: true });
+
+    const sent = await RESEND(buildRequest('resend-verification', undefined, 'access-token'));
+    expect(sent.status).toBe(200);
+    expect(sendMail).toHaveBeenCalledTimes(1);
+
+    const alreadyVerified = await RESEND(buildRequest('resend-verification', undefined, 'access-token'));
+    expect(alreadyVerified.status).toBe(400);
+    expect(sendMail).toHaveBeenCalledTimes(1);
+  });
+
+  it('should answer the same way when resending to an unknown email', async () => {
+    mockDb.findOne.mockResolvedValue(null);
+
+    const response = await RESEND(buildRequest('resend-verification', { email: 'nobody@example.com' }));
+
+    expect(response.status).toBe(200);
+    expect(countThrottledAttempt).toHaveBeenCalledWith(mockDb, 'nobody@example.com', expect.any(Request), 'email_verification');
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+
+  it('should send the link to an unverified email after answering, and throttle repeated requests', async () => {
+    mockDb.findOne.mockResolvedValue(unverifiedUser);
+    const mailSent = new Promise<any>((resolve) => (sendMail as jest.Mock).mockImplementationOnce(async (message) => resolve(message)));
+
+    const response = await RESEND(buildRequest('resend-verification', { email: 'test@example.com' }));
+
+    expect(response.status).toBe(200);
+    expect((await mailSent).to).toBe('test@example.com');
+
+    (checkLoginThrottle as jest.Mock).mockResolvedValue(60);
+    const throttled = await RESEND(buildRequest('resend-verification', { email: 'test@example.com' }));
+
+    expect(throttled.status).toBe(429);
+    expect(checkLoginThrottle).toHaveBeenLastCalledWith(mockDb, 'test@example.com', expect.any(Request), 'email_verification');
+    expect(sendMail).toHaveBeenCalledTimes(1);
+  });
+});
@@ -2,6 +2,7 @@ import { createMocks } from 'node-mocks-http';
 import { POST } from '@/app/api/auth/login/route';
 import dbConnect from '@/lib/mongodb';
 import { verifyPassword } from '@/models/User';
+import { checkLoginThrottle, recordLoginFailure } from '@/lib/loginThrottle';
 import { ObjectId } from 'mongodb';
 
 jest.mock('@/lib/mongodb');
@@ -10,6 +11,12 @@ jest.mock('@/models/User', () => ({
   verifyPassword: jest.fn(),
 }));
 jest.mock('@/lib/auth');
+jest.mock('@/lib/loginThrottle', () => ({
+  ...jest.requireActual('@/lib/loginThrottle'),
+  checkLoginThrottle: jest.fn(),
+  recordLoginFailure: jest.fn(),
+  clearLoginFailures: jest.fn(),
+}));
 
 const mockDb = {
   collection: jest.fn().mockReturnThis(),
@@ -21,6 +28,7 @@ const mockDb = {
 describe('POST /api/auth/login', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (checkLoginThrottle as jest.Mock).mockResolvedValue(0);
   });
 
   it('should return 401 if password is incorrect', async () => {
@@ -54,8 +62,73 @@ describe('POST /api/auth/login', () => {
     const json = await response.json();
     expect(json).toEqual({
       success: false,
+      code: 'INVALID_CREDENTIALS',
       message: 'Invalid credentials',
+      requestId: expect.any(String),
+    });
+  });
+
+  it('should answer an unknown email like a wrong password', async () => {
+    mockDb.collection.mockReturnValue({
+      findOne: mockDb.findOne.mockResolvedValue(null),
+    });
+    (verifyPassword as jest.Mock).mockResolvedValue(false);
+
+    const response = await POST(new Request('http://localhost:3000/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ email: 'nobody@example.com', password: 'password123' }),
+      headers: new Headers({ 'x-forwarded-for': '203.0.113.7' }),
+    }));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual(expect.objectContaining({ code: 'INVALID_CREDENTIALS' }));
+    expect(recordLoginFailure).toHaveBeenCalledWith(mockDb, expect.objectContaining({ email: 'nobody@example.com', userId: undefined }));
+  });
+
+  it('should purge an account whose deletion grace period ended and answer like an unknown email', async () => {
+    const userId = new ObjectId();
+    const deleteMany = jest.fn();
+    const deleteOne = jest.fn();
+    mockDb.collection.mockReturnValue({
+      findOne: mockDb.findOne.mockResolvedValue({
+        _id: userId,
+        email: 'test@example.com',
+        password: 'hashedpassword',
+        deletionScheduledFor: new Date(Date.now() - 1000),
+      }),
+      deleteMany,
+      deleteOne,
     });
+    (verifyPassword as jest.Mock).mockResolvedValue(true);
+
+    const response = await POST(new Request('http://localhost:3000/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ email: 'test@example.com', password: 'password123' }),
+      headers: new Headers(),
+    }));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual(expect.objectContaining({ code: 'INVALID_CREDENTIALS' }));
+    expect(deleteMany).toHaveBeenCalledWith({ userId });
+    expect(deleteOne).toHaveBeenCalledWith({ _id: userId });
+  });
+
+  it('should return 429 while the email or the address is locked out', async () => {
+    (checkLoginThrottle as jest.Mock).mockResolvedValue(120);
+
+    const response = await POST(new Request('http://localhost:3000/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ email: 'test@example.com', password: 'password123' }),
+      headers: new Headers(),
+    }));
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('120');
+    expect(await response.json()).toEqual(expect.objectContaining({
+      code: 'TOO_MANY_ATTEMPTS',
+      details: { retryAfter: 120 },
+    }));
+    expect(verifyPassword).not.toHaveBeenCalled();
   });
 
   it('should return 500 if there is a server error', async () => {
@@ -80,10 +153,13 @@ describe('POST /api/auth/login', () => {
 
     expect(response.status).toBe(500);
     const json = await response.json();
+    // The message of an unexpected error stays in the server log
     expect(json).toEqual({
       success: false,
+      code: 'INTERNAL_ERROR',
       message: 'Internal server error',
-      error: 'Internal server error',
+      requestId: expect.any(String),
     });
+    expect(response.headers.get('X-Request-Id')).toBe(json.requestId);
   });
 });
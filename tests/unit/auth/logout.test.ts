@@ -30,4 +30,18 @@ describe('logoutAndRedirect', () => {
     // Expect the redirection to happen
     expect(window.location.href).toBe('/login?message=logout_successful');
   });
+
+  // Test that the session is revoked on the server with the token that is being removed
+  it('should ask the server to end the session', () => {
+    localStorage.setItem('token', 'mockToken');
+    global.fetch = jest.fn().mockResolvedValue({ ok: true });
+
+    logoutAndRedirect();
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/auth/logout', expect.objectContaining({
+      method: 'POST',
+      keepalive: true,
+      headers: { Authorization: 'Bearer mockToken' },
+    }));
+  });
 });
@@ -0,0 +1,114 @@
+// tests/unit/auth/passwordReset.test.ts
+
+import { POST as FORGOT } from '@/app/api/auth/forgot-password/route';
+import { POST as RESET } from '@/app/api/auth/reset-password/route';
+import dbConnect from '@/lib/mongodb';
+import { sendMail } from '@/lib/mail';
+import { hashSecureToken } from '@/lib/secureTokens';
+import { checkLoginThrottle, countThrottledAttempt } from '@/lib/loginThrottle';
+import { ObjectId } from 'mongodb';
+
+jest.mock('@/lib/mongodb');
+jest.mock('@/lib/auth');
+jest.mock('@/lib/mail');
+jest.mock('@/lib/loginThrottle', () => ({
+  ...jest.requireActual('@/lib/loginThrottle'),
+  checkLoginThrottle: jest.fn(),
+  countThrottledAttempt: jest.fn(),
+}));
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  findOne: jest.fn(),
+  findOneAndUpdate: jest.fn(),
+  updateOne: jest.fn(),
+  updateMany: jest.fn(),
+};
+
+(dbConnect as jest.Mock).mockResolvedValue(mockDb);
+
+const buildRequest = (url: string, body: any) =>
+  new Request(`http://localhost:3000/api/auth/${url}`, {
+    method: 'POST',
+    headers: new Headers({ 'Content-Type': 'application/json' }),
+    body: JSON.stringify(body),
+  });
+
+describe('Password reset routes', () => {
+  const userId = new ObjectId();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.updateMany.mockResolvedValue({ modifiedCount: 1 });
+    (checkLoginThrottle as jest.Mock).mockResolvedValue(0);
+  });
+
+  it('should answer the same way for unknown emails without sending anything', async () => {
+    mockDb.findOne.mockResolvedValue(null);
+
+    const response = await FORGOT(buildRequest('forgot-password', { email: 'nobody@example.com' }));
+
+    expect(response.status).toBe(200);
+    expect(countThrottledAttempt).toHaveBeenCalledWith(mockDb, 'nobody@example.com', expect.any(Request), 'password_reset');
+    expect(mockDb.updateOne).not.toHaveBeenCalled();
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+
+  it('should store the hash of the token and email the link', async () => {
+    mockDb.findOne.mockResolvedValue({ _id: userId, email: 'test@example.com', username: 'test' });
+
+    // The email is sent after the response
+    const mailSent = new Promise<any>((resolve) => (sendMail as jest.Mock).mockImplementationOnce(async (message) => resolve(message)));
+
+    const response = await FORGOT(buildRequest('forgot-password', { email: 'test@example.com' }));
+
+    expect(response.status).toBe(200);
+    const message = await mailSent;
+    expect(message.to).toBe('test@example.com');
+
+    const token = decodeURIComponent(message.text.match(/reset-password\?token=(\S+)/)[1]);
+    const [, update] = mockDb.updateOne.mock.calls[0];
+    expect(update.$set.passwordResetTokenHash).toBe(hashSecureToken(token));
+    expect(update.$set.passwordResetExpiresAt.getTime()).toBeGreaterThan(Date.now());
+    expect(message.text).toContain('http://localhost:3000/reset-password?token=');
+  });
+
+  it('should return 429 while the email or the address asked for too many links', async () => {
+    (checkLoginThrottle as jest.Mock).mockResolvedValue(60);
+
+    const response = await FORGOT(buildRequest('forgot-password', { email: 'test@example.com' }));
+
+    expect(response.status).toBe(429);
+    expect(checkLoginThrottle).toHaveBeenCalledWith(mockDb, 'test@example.com', expect.any(Request), 'password_reset');
+    expect(mockDb.findOne).not.toHaveBeenCalled();
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+
+  it('should reject passwords that are too short', async () => {
+    const response = await RESET(buildRequest('reset-password', { token: 'token', password: 'short' }));
+
+    expect(response.status).toBe(400);
+    expect(mockDb.findOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown or expired tokens', async () => {
+    mockDb.findOneAndUpdate.mockResolvedValue(null);
+
+    const response = await RESET(buildRequest('reset-password', { token: 'token', password: 'new-password1' }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).message).toBe('Invalid or expired reset token');
+  });
+
+  it('should change the password, consume the token and log out every session', async () => {
+    mockDb.findOneAndUpdate.mockResolvedValue({ _id: userId });
+
+    const response = await RESET(buildRequest('reset-password', { token: 'token', password: 'new-password1' }));
+
+    expect(response.status).toBe(200);
+    const [filter, update] = mockDb.findOneAndUpdate.mock.calls[0];
+    expect(filter).toEqual({ passwordResetTokenHash: hashSecureToken('token'), passwordResetExpiresAt: { $gt: expect.any(Date) } });
+    expect(update.$unset).toEqual({ passwordResetTokenHash: '', passwordResetExpiresAt: '' });
+    expect(mockDb.updateMany).toHaveBeenCalledWith({ userId, revokedAt: null }, { $set: { revokedAt: expect.any(Date) } });
+  });
+});
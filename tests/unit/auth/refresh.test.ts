@@ -0,0 +1,108 @@
+import { POST } from '@/app/api/auth/refresh/route';
+import dbConnect from '@/lib/mongodb';
+import { generateToken } from '@/lib/auth';
+import { hashRefreshToken } from '@/lib/sessions';
+import { ObjectId } from 'mongodb';
+
+jest.mock('@/lib/mongodb');
+jest.mock('@/lib/auth');
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  findOne: jest.fn(),
+  updateOne: jest.fn(),
+};
+
+(dbConnect as jest.Mock).mockResolvedValue(mockDb);
+
+describe('POST /api/auth/refresh', () => {
+  const userId = new ObjectId();
+  const sessionId = new ObjectId();
+  const future = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+  const buildRequest = (cookie?: string) =>
+    new Request('http://localhost:3000/api/auth/refresh', {
+      method: 'POST',
+      headers: new Headers(cookie ? { cookie } : {}),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (generateToken as jest.Mock).mockReturnValue('newAccessToken');
+    mockDb.updateOne.mockResolvedValue({ matchedCount: 1 });
+  });
+
+  it('should return 401 without a refresh token cookie', async () => {
+    const response = await POST(buildRequest());
+
+    expect(response.status).toBe(401);
+    expect(mockDb.findOne).not.toHaveBeenCalled();
+  });
+
+  it('should rotate the refresh token and return a new access token', async () => {
+    mockDb.findOne.mockResolvedValueOnce({ _id: sessionId, userId, expiresAt: future, previousTokenHashes: [] });
+
+    const response = await POST(buildRequest('theme=dark; refreshToken=old-token'));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, token: 'newAccessToken' });
+    expect(generateToken).toHaveBeenCalledWith(userId.toString(), sessionId.toString());
+
+    const [filter, update] = mockDb.updateOne.mock.calls[0];
+    expect(filter).toEqual({ _id: sessionId, tokenHash: hashRefreshToken('old-token') });
+    expect(update.$push).toEqual({ previousTokenHashes: hashRefreshToken('old-token') });
+    expect(update.$set.tokenHash).not.toBe(hashRefreshToken('old-token'));
+    expect(update.$set.expiresAt.getTime()).toBeGreaterThan(future.getTime());
+
+    const cookie = response.headers.get('set-cookie');
+    expect(cookie).toContain('refreshToken=');
+    expect(cookie).toContain('HttpOnly');
+  });
+
+  it('should revoke the session when a rotated token is used again', async () => {
+    const oldHash = hashRefreshToken('stolen-token');
+    mockDb.findOne
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({
+        _id: sessionId,
+        userId,
+        expiresAt: future,
+        previousTokenHashes: [oldHash],
+        rotatedAt: new Date(Date.now() - 60 * 60 * 1000),
+      });
+
+    const response = await POST(buildRequest('refreshToken=stolen-token'));
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).message).toBe('Refresh token reuse detected');
+    expect(mockDb.updateOne).toHaveBeenCalledWith({ _id: sessionId }, { $set: { revokedAt: expect.any(Date) } });
+    expect(response.headers.get('set-cookie')).toContain('refreshToken=;');
+  });
+
+  it('should accept a token rotated a moment ago by a concurrent request without replacing the cookie', async () => {
+    mockDb.findOne
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({
+        _id: sessionId,
+        userId,
+        expiresAt: future,
+        previousTokenHashes: [hashRefreshToken('old-token')],
+        rotatedAt: new Date(),
+      });
+
+    const response = await POST(buildRequest('refreshToken=old-token'));
+
+    expect(response.status).toBe(200);
+    expect(mockDb.updateOne).not.toHaveBeenCalled();
+    expect(response.headers.get('set-cookie')).toBeNull();
+  });
+
+  it('should reject an expired session', async () => {
+    mockDb.findOne.mockResolvedValueOnce({ _id: sessionId, userId, expiresAt: new Date(Date.now() - 1000), previousTokenHashes: [] });
+
+    const response = await POST(buildRequest('refreshToken=old-token'));
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).message).toBe('Session expired');
+  });
+});
@@ -6,11 +6,13 @@ import { ObjectId } from 'mongodb';
 
 jest.mock('@/lib/mongodb');
 jest.mock('@/lib/auth');
+jest.mock('@/lib/mail');
 
 const mockDb = {
   collection: jest.fn().mockReturnThis(),
   findOne: jest.fn(),
   insertOne: jest.fn(),
+  updateOne: jest.fn(),
 };
 
 (dbConnect as jest.Mock).mockResolvedValue(mockDb);
@@ -35,6 +37,7 @@ describe('POST /api/auth/register', () => {
       insertOne: mockDb.insertOne.mockResolvedValue({
         insertedId: new ObjectId(),
       }),
+      updateOne: mockDb.updateOne,
     });
 
     (generateToken as jest.Mock).mockReturnValue('validtoken');
@@ -42,7 +45,7 @@ describe('POST /api/auth/register', () => {
     const response = await POST(new Request('http://localhost:3000/api/auth/register', {
       method: 'POST',
       body: JSON.stringify(req.body),
-      headers: req.headers as HeadersInit,
+      headers: new Headers(req.headers as HeadersInit),
     }));
 
     expect(response.status).toBe(201);
@@ -52,6 +55,7 @@ describe('POST /api/auth/register', () => {
       message: 'User registered successfully',
       token: 'validtoken',
     });
+    expect(response.headers.get('set-cookie')).toContain('refreshToken=');
   });
 
   it('should return 409 if user already exists', async () => {
@@ -78,7 +82,9 @@ describe('POST /api/auth/register', () => {
     const json = await response.json();
     expect(json).toEqual({
       success: false,
+      code: 'USER_EXISTS',
       message: 'User already exists',
+      requestId: expect.any(String),
     });
   });
 
@@ -100,7 +106,15 @@ describe('POST /api/auth/register', () => {
     const json = await response.json();
     expect(json).toEqual({
       success: false,
-      message: 'Missing required fields',
+      code: 'VALIDATION_FAILED',
+      message: 'Email is required',
+      details: {
+        errors: [
+          { path: 'email', code: 'required', message: 'Email is required' },
+          { path: 'password', code: 'required', message: 'Password is required' },
+        ],
+      },
+      requestId: expect.any(String),
     });
   });
 
@@ -128,8 +142,9 @@ describe('POST /api/auth/register', () => {
     const json = await response.json();
     expect(json).toEqual({
       success: false,
+      code: 'INTERNAL_ERROR',
       message: 'Internal server error',
-      error: 'Internal server error',
+      requestId: expect.any(String),
     });
   });
 });
@@ -0,0 +1,124 @@
+import { POST as LOGOUT } from '@/app/api/auth/logout/route';
+import { GET, DELETE } from '@/app/api/auth/sessions/route';
+import { DELETE as DELETE_ONE } from '@/app/api/auth/sessions/[id]/route';
+import dbConnect from '@/lib/mongodb';
+import { verifyToken } from '@/lib/auth';
+import { hashRefreshToken } from '@/lib/sessions';
+import { ObjectId } from 'mongodb';
+
+jest.mock('@/lib/mongodb');
+jest.mock('@/lib/auth');
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  find: jest.fn().mockReturnThis(),
+  sort: jest.fn().mockReturnThis(),
+  toArray: jest.fn(),
+  findOne: jest.fn(),
+  updateOne: jest.fn(),
+  updateMany: jest.fn(),
+};
+
+(dbConnect as jest.Mock).mockResolvedValue(mockDb);
+
+describe('Session routes', () => {
+  const userId = new ObjectId();
+  const sessionId = new ObjectId();
+  const otherSessionId = new ObjectId();
+
+  const buildRequest = (url: string, method: string, headers: Record<string, string> = {}) =>
+    new Request(`http://localhost:3000/api/auth${url}`, {
+      method,
+      headers: new Headers({ authorization: 'Bearer validtoken', ...headers }),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (verifyToken as jest.Mock).mockReturnValue({ userId: userId.toString(), sessionId: sessionId.toString() });
+    mockDb.findOne.mockResolvedValue({ _id: sessionId });
+    mockDb.updateOne.mockResolvedValue({ matchedCount: 1 });
+  });
+
+  it('should list active sessions and flag the current one', async () => {
+    mockDb.toArray.mockResolvedValue([
+      { _id: sessionId, userAgent: 'Chrome', lastUsedAt: new Date() },
+      { _id: otherSessionId, userAgent: 'Firefox', lastUsedAt: new Date() },
+    ]);
+
+    const response = await GET(buildRequest('/sessions', 'GET'));
+
+    expect(response.status).toBe(200);
+    const json = await response.json();
+    expect(json.sessions.map((session: any) => session.current)).toEqual([true, false]);
+    expect(mockDb.find).toHaveBeenCalledWith(
+      { userId, revokedAt: null, expiresAt: { $gt: expect.any(Date) } },
+      { projection: { userAgent: 1, ip: 1, createdAt: 1, lastUsedAt: 1 } }
+    );
+  });
+
+  it('should reject access tokens of a revoked session', async () => {
+    mockDb.findOne.mockResolvedValue(null);
+
+    const response = await GET(buildRequest('/sessions', 'GET'));
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).message).toBe('Session revoked');
+  });
+
+  it('should revoke every session except the current one', async () => {
+    mockDb.updateMany.mockResolvedValue({ modifiedCount: 2 });
+
+    const response = await DELETE(buildRequest('/sessions', 'DELETE'));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).revoked).toBe(2);
+    expect(mockDb.updateMany).toHaveBeenCalledWith(
+      { userId, revokedAt: null, _id: { $ne: sessionId } },
+      { $set: { revokedAt: expect.any(Date) } }
+    );
+  });
+
+  it('should revoke a single session of the user', async () => {
+    const response = await DELETE_ONE(buildRequest(`/sessions/${otherSessionId}`, 'DELETE'), {
+      params: { id: otherSessionId.toString() },
+    });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).current).toBe(false);
+    expect(mockDb.updateOne).toHaveBeenCalledWith(
+      { _id: otherSessionId, userId, revokedAt: null },
+      { $set: { revokedAt: expect.any(Date) } }
+    );
+  });
+
+  it('should return 404 for a session of another user', async () => {
+    mockDb.updateOne.mockResolvedValue({ matchedCount: 0 });
+
+    const response = await DELETE_ONE(buildRequest(`/sessions/${otherSessionId}`, 'DELETE'), {
+      params: { id: otherSessionId.toString() },
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should revoke the session of the refresh token on logout and clear the cookie', async () => {
+    const response = await LOGOUT(buildRequest('/logout', 'POST', { cookie: 'refreshToken=refresh-token' }));
+
+    expect(response.status).toBe(200);
+    expect(mockDb.updateOne).toHaveBeenCalledWith(
+      { tokenHash: hashRefreshToken('refresh-token'), revokedAt: null },
+      { $set: { revokedAt: expect.any(Date) } }
+    );
+    expect(response.headers.get('set-cookie')).toContain('refreshToken=;');
+  });
+
+  it('should fall back to the session of the access token on logout', async () => {
+    const response = await LOGOUT(buildRequest('/logout', 'POST'));
+
+    expect(response.status).toBe(200);
+    expect(mockDb.updateOne).toHaveBeenCalledWith(
+      { _id: sessionId, userId, revokedAt: null },
+      { $set: { revokedAt: expect.any(Date) } }
+    );
+  });
+});
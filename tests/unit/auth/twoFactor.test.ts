@@ -0,0 +1,128 @@
+// tests/unit/auth/twoFactor.test.ts
+
+import { POST as LOGIN } from '@/app/api/auth/login/route';
+import { POST as VERIFY_CODE } from '@/app/api/auth/two-factor/route';
+import { PUT as CONFIRM_SETUP, DELETE as DISABLE } from '@/app/api/users/two-factor/route';
+import dbConnect from '@/lib/mongodb';
+import { generateChallengeToken, generateToken, verifyChallengeToken, verifyToken } from '@/lib/auth';
+import { generateTotp, generateTotpSecret, getTotpStep } from '@/lib/totp';
+import { RECOVERY_CODE_COUNT } from '@/lib/twoFactor';
+import { verifyPassword } from '@/models/User';
+import { checkLoginThrottle, recordLoginFailure } from '@/lib/loginThrottle';
+import { ObjectId } from 'mongodb';
+
+jest.mock('@/lib/mongodb');
+jest.mock('@/lib/auth');
+jest.mock('@/lib/loginThrottle', () => ({
+  ...jest.requireActual('@/lib/loginThrottle'),
+  checkLoginThrottle: jest.fn(),
+  recordLoginFailure: jest.fn(),
+  clearLoginFailures: jest.fn(),
+}));
+jest.mock('@/models/User', () => ({
+  ...jest.requireActual('@/models/User'),
+  verifyPassword: jest.fn(),
+}));
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  findOne: jest.fn(),
+  insertOne: jest.fn(),
+  updateOne: jest.fn(),
+};
+
+(dbConnect as jest.Mock).mockResolvedValue(mockDb);
+
+describe('Two-factor authentication', () => {
+  const userId = new ObjectId();
+  const sessionId = new ObjectId();
+  const secret = generateTotpSecret();
+  const user = { _id: userId, email: 'test@example.com', password: 'hashed', twoFactorEnabled: true, twoFactorSecret: secret };
+
+  const buildRequest = (url: string, method: string, body: any) =>
+    new Request(`http://localhost:3000/api${url}`, {
+      method,
+      headers: new Headers({ authorization: 'Bearer token' }),
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (verifyToken as jest.Mock).mockReturnValue({ userId: userId.toHexString(), sessionId: sessionId.toHexString() });
+    (verifyChallengeToken as jest.Mock).mockReturnValue({ userId: userId.toHexString() });
+    (generateChallengeToken as jest.Mock).mockReturnValue('challenge');
+    (generateToken as jest.Mock).mockReturnValue('jwt');
+    (verifyPassword as jest.Mock).mockResolvedValue(true);
+    (checkLoginThrottle as jest.Mock).mockResolvedValue(0);
+  });
+
+  it('should answer the login of a 2FA user with a challenge and no session', async () => {
+    mockDb.findOne.mockResolvedValueOnce(user);
+
+    const response = await LOGIN(buildRequest('/auth/login', 'POST', { email: user.email, password: 'secret' }));
+
+    expect(response.status).toBe(200);
+    const json = await response.json();
+    expect(json).toMatchObject({ twoFactorRequired: true, challengeToken: 'challenge' });
+    expect(json.token).toBeUndefined();
+    expect(mockDb.insertOne).not.toHaveBeenCalled();
+  });
+
+  it('should start a session for a valid code and consume its time step', async () => {
+    mockDb.findOne.mockResolvedValueOnce(user);
+    mockDb.updateOne.mockResolvedValueOnce({ modifiedCount: 1 });
+    const code = generateTotp(secret, getTotpStep());
+
+    const response = await VERIFY_CODE(buildRequest('/auth/two-factor', 'POST', { challengeToken: 'challenge', code }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).token).toBe('jwt');
+    expect(mockDb.insertOne).toHaveBeenCalledTimes(1);
+    const [filter, update] = mockDb.updateOne.mock.calls[0];
+    expect(filter.$or).toBeDefined();
+    expect(typeof update.$set.twoFactorLastUsedStep).toBe('number');
+  });
+
+  it('should refuse a wrong or replayed code and an expired challenge', async () => {
+    mockDb.findOne.mockResolvedValueOnce(user);
+    mockDb.updateOne.mockResolvedValueOnce({ modifiedCount: 0 });
+    const wrongCode = await VERIFY_CODE(buildRequest('/auth/two-factor', 'POST', { challengeToken: 'challenge', code: 'abcd-efgh' }));
+    expect(wrongCode.status).toBe(400);
+    expect(recordLoginFailure).toHaveBeenCalledWith(mockDb, expect.objectContaining({ userId, reason: 'two_factor' }));
+
+    (verifyChallengeToken as jest.Mock).mockImplementation(() => {
+      throw new Error('Invalid challenge');
+    });
+    const expired = await VERIFY_CODE(buildRequest('/auth/two-factor', 'POST', { challengeToken: 'old', code: '123456' }));
+    expect(expired.status).toBe(401);
+
+    expect(mockDb.insertOne).not.toHaveBeenCalled();
+  });
+
+  it('should enable 2FA once a code confirms the pending secret', async () => {
+    mockDb.findOne
+      .mockResolvedValueOnce({ _id: sessionId })
+      .mockResolvedValueOnce({ _id: userId, email: user.email, twoFactorPendingSecret: secret });
+    const code = generateTotp(secret, getTotpStep());
+
+    const response = await CONFIRM_SETUP(buildRequest('/users/two-factor', 'PUT', { code }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).recoveryCodes).toHaveLength(RECOVERY_CODE_COUNT);
+    const [, update] = mockDb.updateOne.mock.calls[0];
+    expect(update.$set).toMatchObject({ twoFactorEnabled: true, twoFactorSecret: secret });
+    expect(update.$set.twoFactorRecoveryCodes).toHaveLength(RECOVERY_CODE_COUNT);
+  });
+
+  it('should keep 2FA enabled when the password is wrong', async () => {
+    mockDb.findOne.mockResolvedValueOnce({ _id: sessionId }).mockResolvedValueOnce(user);
+    (verifyPassword as jest.Mock).mockResolvedValue(false);
+
+    const response = await DISABLE(
+      buildRequest('/users/two-factor', 'DELETE', { password: 'wrong', code: generateTotp(secret, getTotpStep()) })
+    );
+
+    expect(response.status).toBe(403);
+    expect(mockDb.updateOne).not.toHaveBeenCalled();
+  });
+});
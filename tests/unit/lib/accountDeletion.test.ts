@@ -0,0 +1,53 @@
+// tests/unit/lib/accountDeletion.test.ts
+
+import { ObjectId } from 'mongodb';
+import { getAccountDeletionGraceDays, purgeDueAccounts, USER_DATA_COLLECTIONS } from '@/lib/accountDeletion';
+
+jest.mock('@/lib/mail');
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  find: jest.fn().mockReturnThis(),
+  toArray: jest.fn(),
+  deleteMany: jest.fn(),
+  deleteOne: jest.fn(),
+};
+
+describe('Account deletion', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    delete process.env.ACCOUNT_DELETION_GRACE_DAYS;
+  });
+
+  it('should read the grace period and refuse an invalid one', () => {
+    expect(getAccountDeletionGraceDays()).toBe(30);
+
+    process.env.ACCOUNT_DELETION_GRACE_DAYS = '7';
+    expect(getAccountDeletionGraceDays()).toBe(7);
+
+    process.env.ACCOUNT_DELETION_GRACE_DAYS = '-1';
+    expect(() => getAccountDeletionGraceDays()).toThrow('Invalid ACCOUNT_DELETION_GRACE_DAYS: -1');
+  });
+
+  it('should purge the data of every due account before the account itself', async () => {
+    const users = [
+      { _id: new ObjectId(), email: 'first@example.com' },
+      { _id: new ObjectId(), email: 'second@example.com' },
+    ];
+    const now = new Date();
+    mockDb.toArray.mockResolvedValue(users);
+
+    const purged = await purgeDueAccounts(mockDb as any, now);
+
+    expect(purged).toBe(2);
+    expect(mockDb.find).toHaveBeenCalledWith({ deletionScheduledFor: { $lte: now } }, expect.anything());
+    USER_DATA_COLLECTIONS.forEach((name) => expect(mockDb.collection).toHaveBeenCalledWith(name));
+    expect(mockDb.deleteMany).toHaveBeenCalledTimes(USER_DATA_COLLECTIONS.length * 2);
+    expect(mockDb.deleteMany).toHaveBeenCalledWith({ userId: users[0]._id });
+    expect(mockDb.deleteOne).toHaveBeenCalledWith({ _id: 'account:first@example.com' });
+    expect(mockDb.deleteOne).toHaveBeenLastCalledWith({ _id: users[1]._id });
+  });
+});
@@ -0,0 +1,49 @@
+// tests/unit/lib/apiError.test.ts
+
+import { ApiError, describeApiError, getFieldErrorMessages } from '@/lib/apiError';
+
+// Returns the key and its options, so the tests can see which message was chosen
+const t = (key: string, options?: Record<string, unknown>) => (options ? `${key} ${JSON.stringify(options)}` : key);
+
+describe('API errors', () => {
+  it('should take the status and default message of its code', () => {
+    const error = new ApiError('TASK_NOT_FOUND');
+
+    expect(error.status).toBe(404);
+    expect(error.message).toBe('Task not found');
+  });
+
+  it('should rebuild the error of a response and keep unknown codes from leaking through', () => {
+    const error = ApiError.fromResponse(409, { code: 'TAG_EXISTS', message: 'Tag already exists', requestId: 'req-1' });
+    const unknown = ApiError.fromResponse(503, { code: 'NOT_A_CODE' as never });
+
+    expect(error).toEqual(expect.objectContaining({ code: 'TAG_EXISTS', status: 409, requestId: 'req-1' }));
+    expect(unknown).toEqual(expect.objectContaining({ code: 'INTERNAL_ERROR', status: 503 }));
+  });
+
+  it('should describe an error by its code, or an invalid request by its first field error', () => {
+    const invalid = new ApiError('VALIDATION_FAILED', 'Title is required', {
+      errors: [{ path: 'title', code: 'too_long', message: 'Title is too long', params: { max: 50 } }],
+    });
+
+    expect(describeApiError(new ApiError('PASSWORD_INCORRECT'), t)).toBe('apiErrors.PASSWORD_INCORRECT');
+    expect(describeApiError(invalid, t)).toBe('apiErrors.fields.too_long {"max":50}');
+    expect(describeApiError(new TypeError('Failed to fetch'), t)).toBe('apiErrors.INTERNAL_ERROR');
+  });
+
+  it('should key the localized field messages by path, keeping the first error of each field', () => {
+    const error = new ApiError('VALIDATION_FAILED', undefined, {
+      errors: [
+        { path: 'title', code: 'required', message: 'Title is required' },
+        { path: 'blockedBy', code: 'cycle', message: 'Dependency cycle detected' },
+        { path: 'title', code: 'invalid', message: 'Invalid title' },
+      ],
+    });
+
+    expect(getFieldErrorMessages(error, t)).toEqual({
+      title: 'apiErrors.fields.required',
+      blockedBy: 'apiErrors.fields.cycle',
+    });
+    expect(getFieldErrorMessages(new Error('Offline'), t)).toEqual({});
+  });
+});
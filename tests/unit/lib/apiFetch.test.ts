@@ -0,0 +1,84 @@
+/**
+ * @jest-environment jsdom
+ */
+
+// apiFetch.test.ts
+import { apiFetch } from '@/lib/apiFetch';
+import { ApiError } from '@/lib/apiError';
+
+const jsonResponse = (status: number, body: any) => ({
+  status,
+  ok: status >= 200 && status < 300,
+  json: jest.fn().mockResolvedValue(body),
+});
+
+describe('apiFetch', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    global.fetch = jest.fn();
+  });
+
+  it('should renew an expired token and replay the request', async () => {
+    localStorage.setItem('token', 'expiredToken');
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse(401, { success: false }))
+      .mockResolvedValueOnce(jsonResponse(200, { success: true, token: 'freshToken' }))
+      .mockResolvedValueOnce(jsonResponse(200, { success: true, tasks: [] }));
+
+    const data = await apiFetch('/api/tasks', { method: 'POST', body: '{}' });
+
+    expect(data).toEqual({ success: true, tasks: [] });
+    expect(localStorage.getItem('token')).toBe('freshToken');
+    expect((global.fetch as jest.Mock).mock.calls[1][0]).toBe('/api/auth/refresh');
+    const [url, options] = (global.fetch as jest.Mock).mock.calls[2];
+    expect(url).toBe('/api/tasks');
+    expect(options).toEqual(expect.objectContaining({ method: 'POST', body: '{}' }));
+    expect(options.headers.Authorization).toBe('Bearer freshToken');
+  });
+
+  it('should return null when the session cannot be renewed', async () => {
+    localStorage.setItem('token', 'expiredToken');
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(jsonResponse(401, { success: false }))
+      .mockResolvedValueOnce(jsonResponse(401, { success: false }));
+
+    expect(await apiFetch('/api/tasks')).toBeNull();
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not try to renew when no token is stored', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse(401, { success: false }));
+
+    expect(await apiFetch('/api/tasks')).toBeNull();
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw the code, field errors and request ID of a failed request', async () => {
+    const errors = [{ path: 'title', code: 'required', message: 'Title is required' }];
+    (global.fetch as jest.Mock).mockResolvedValueOnce(jsonResponse(400, {
+      success: false,
+      code: 'VALIDATION_FAILED',
+      message: 'Title is required',
+      details: { errors },
+      requestId: 'req-1',
+    }));
+
+    const error = await apiFetch('/api/tasks', { method: 'POST', body: '{}' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toEqual(expect.objectContaining({ code: 'VALIDATION_FAILED', status: 400, requestId: 'req-1' }));
+    expect(error.fieldErrors).toEqual(errors);
+  });
+
+  it('should keep the status of a response without an error envelope', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      status: 502,
+      ok: false,
+      json: jest.fn().mockRejectedValue(new SyntaxError('Unexpected token')),
+    });
+
+    const error = await apiFetch('/api/tasks').catch((e) => e);
+
+    expect(error).toEqual(expect.objectContaining({ code: 'INTERNAL_ERROR', status: 502 }));
+  });
+});
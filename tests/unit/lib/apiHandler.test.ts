@@ -0,0 +1,123 @@
+// tests/unit/lib/apiHandler.test.ts
+
+import { withAuth } from '@/lib/apiHandler';
+import dbConnect from '@/lib/mongodb';
+import { verifyToken } from '@/lib/auth';
+import { NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { invalidField } from '@/lib/schema';
+import { ApiError } from '@/lib/apiError';
+
+jest.mock('@/lib/mongodb');
+jest.mock('@/lib/auth');
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  findOne: jest.fn(),
+};
+
+describe('withAuth', () => {
+  const userId = '64b7f0c2a1b2c3d4e5f60718';
+  const sessionId = '64b7f0c2a1b2c3d4e5f60719';
+  const handler = jest.fn(async () => NextResponse.json({ success: true }));
+  const route = withAuth<{ id: string }>(handler);
+
+  const makeRequest = (headers: Record<string, string> = { Authorization: 'Bearer token' }) =>
+    new Request('http://localhost:3000/api/tasks', { method: 'GET', headers: new Headers(headers) });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (dbConnect as jest.Mock).mockResolvedValue(mockDb);
+  });
+
+  it('should return 401 without calling the handler when the token is missing', async () => {
+    const response = await route(makeRequest({}));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual(expect.objectContaining({ code: 'AUTH_TOKEN_MISSING', message: 'No token provided' }));
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 instead of 500 when the token does not verify', async () => {
+    (verifyToken as jest.Mock).mockImplementation(() => {
+      throw new Error('jwt malformed');
+    });
+
+    const response = await route(makeRequest());
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).code).toBe('AUTH_TOKEN_INVALID');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 when the session of the token was revoked', async () => {
+    (verifyToken as jest.Mock).mockReturnValue({ userId, sessionId });
+    mockDb.findOne.mockResolvedValueOnce(null);
+
+    const response = await route(makeRequest());
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).code).toBe('SESSION_REVOKED');
+  });
+
+  it('should pass the db, user, session and route params to the handler', async () => {
+    (verifyToken as jest.Mock).mockReturnValue({ userId, sessionId });
+    mockDb.findOne.mockResolvedValueOnce({ _id: new ObjectId(sessionId) });
+    const request = makeRequest();
+
+    const response = await route(request, { params: { id: 'abc' } });
+
+    expect(response.status).toBe(200);
+    expect(handler).toHaveBeenCalledWith(
+      request,
+      { db: mockDb, userId: new ObjectId(userId), sessionId },
+      { params: { id: 'abc' } }
+    );
+  });
+
+  it('should return 400 with the field errors when the handler throws a ValidationError', async () => {
+    (verifyToken as jest.Mock).mockReturnValue({ userId });
+    handler.mockRejectedValueOnce(invalidField('categoryId', 'Category not found', 'not_found'));
+
+    const response = await route(makeRequest());
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      success: false,
+      code: 'VALIDATION_FAILED',
+      message: 'Category not found',
+      details: { errors: [{ path: 'categoryId', code: 'not_found', message: 'Category not found' }] },
+      requestId: expect.any(String),
+    });
+  });
+
+  it('should answer with the code and status of an ApiError thrown by the handler', async () => {
+    (verifyToken as jest.Mock).mockReturnValue({ userId });
+    handler.mockRejectedValueOnce(new ApiError('TASK_BLOCKED', undefined, { blockers: [] }));
+
+    const response = await route(makeRequest());
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual(expect.objectContaining({ code: 'TASK_BLOCKED', details: { blockers: [] } }));
+  });
+
+  it('should return 500 without the message of an unexpected error, logged with the request ID', async () => {
+    (verifyToken as jest.Mock).mockReturnValue({ userId });
+    handler.mockRejectedValueOnce(new Error('Database down'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await route(makeRequest());
+    const json = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(json).toEqual({
+      success: false,
+      code: 'INTERNAL_ERROR',
+      message: 'Internal server error',
+      requestId: expect.any(String),
+    });
+    expect(response.headers.get('X-Request-Id')).toBe(json.requestId);
+    expect(consoleError).toHaveBeenCalledWith(`Request ${json.requestId} failed:`, expect.any(Error));
+    consoleError.mockRestore();
+  });
+});
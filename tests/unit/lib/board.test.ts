@@ -0,0 +1,48 @@
+// tests/unit/lib/board.test.ts
+
+import { getTaskStatus, moveTask } from '@/lib/board';
+import { Task } from '@/types/TaskCategoryTypes';
+
+const buildTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+  _id: id,
+  title: `Task ${id}`,
+  completed: false,
+  priority: 'medium',
+  ...overrides,
+});
+
+describe('Board helpers', () => {
+  it('should derive the column from the completed flag when no status is stored', () => {
+    expect(getTaskStatus(buildTask('1'))).toBe('todo');
+    expect(getTaskStatus(buildTask('2', { completed: true }))).toBe('done');
+    expect(getTaskStatus(buildTask('3', { status: 'blocked' }))).toBe('blocked');
+  });
+
+  it('should move a task before another one in a different column', () => {
+    const tasks = [
+      buildTask('a', { status: 'todo', position: 0 }),
+      buildTask('b', { status: 'in_progress', position: 0 }),
+      buildTask('c', { status: 'in_progress', position: 1 }),
+    ];
+
+    const result = moveTask(tasks, 'a', 'in_progress', 'c');
+
+    expect(result.columnTaskIds).toEqual(['b', 'a', 'c']);
+    expect(result.tasks.find((task) => task._id === 'a')).toEqual(
+      expect.objectContaining({ status: 'in_progress', position: 1 })
+    );
+    expect(result.tasks.find((task) => task._id === 'c')?.position).toBe(2);
+  });
+
+  it('should append the task when dropped on an empty area and complete it in the done column', () => {
+    const tasks = [
+      buildTask('a', { status: 'todo', position: 0 }),
+      buildTask('b', { status: 'done', position: 0, completed: true }),
+    ];
+
+    const result = moveTask(tasks, 'a', 'done', null);
+
+    expect(result.columnTaskIds).toEqual(['b', 'a']);
+    expect(result.tasks.find((task) => task._id === 'a')?.completed).toBe(true);
+  });
+});
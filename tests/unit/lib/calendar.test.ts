@@ -0,0 +1,110 @@
+// tests/unit/lib/calendar.test.ts
+
+import {
+  expandRecurringTasks,
+  getMonthGrid,
+  getRescheduledDueDate,
+  groupTasksByDay,
+  isTaskOverdue,
+  rescheduleTask,
+  toDateKey,
+} from '@/lib/calendar';
+import { apiFetch } from '@/lib/apiFetch';
+import { Task } from '@/types/TaskCategoryTypes';
+
+jest.mock('@/lib/apiFetch', () => ({
+  apiFetch: jest.fn(),
+}));
+
+const buildTask = (id: string, overrides: Partial<Task> = {}): Task => ({
+  _id: id,
+  title: `Task ${id}`,
+  completed: false,
+  priority: 'medium',
+  ...overrides,
+});
+
+describe('Calendar helpers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should build a six-week grid starting on Sunday', () => {
+    const grid = getMonthGrid(new Date(2030, 4, 15)); // May 2030 starts on a Wednesday
+
+    expect(grid).toHaveLength(42);
+    expect(grid[0].getDay()).toBe(0);
+    expect(toDateKey(grid[0])).toBe('2030-04-28');
+    expect(toDateKey(grid[3])).toBe('2030-05-01');
+  });
+
+  it('should group tasks by local day ordered by due time', () => {
+    const tasks = [
+      buildTask('late', { dueDate: new Date(2030, 0, 10, 18, 0).toISOString(), dueTime: '18:00' }),
+      buildTask('early', { dueDate: new Date(2030, 0, 10, 9, 0).toISOString(), dueTime: '09:00' }),
+      buildTask('undated'),
+    ];
+
+    const byDay = groupTasksByDay(tasks);
+
+    expect(Object.keys(byDay)).toEqual(['2030-01-10']);
+    expect(byDay['2030-01-10'].map((task) => task._id)).toEqual(['early', 'late']);
+  });
+
+  it('should only flag open tasks past their due date as overdue', () => {
+    const now = new Date(2030, 0, 10);
+    const pastDue = new Date(2030, 0, 9).toISOString();
+
+    expect(isTaskOverdue(buildTask('1', { dueDate: pastDue }), now)).toBe(true);
+    expect(isTaskOverdue(buildTask('2', { dueDate: pastDue, completed: true }), now)).toBe(false);
+    expect(isTaskOverdue(buildTask('3'), now)).toBe(false);
+  });
+
+  it('should keep the due time when moving a task to another day', () => {
+    const task = buildTask('1', { dueDate: new Date(2030, 0, 10, 14, 30).toISOString() });
+
+    const dueDate = getRescheduledDueDate(task, '2030-02-03');
+
+    expect(toDateKey(dueDate)).toBe('2030-02-03');
+    expect(dueDate.getHours()).toBe(14);
+    expect(dueDate.getMinutes()).toBe(30);
+  });
+
+  it('should send the new due date to the API', async () => {
+    const task = buildTask('abc', { dueDate: new Date(2030, 0, 10, 23, 59).toISOString() });
+    (apiFetch as jest.Mock).mockResolvedValue({ success: true, task: { ...task, title: 'Updated' } });
+
+    const updated = await rescheduleTask(task, '2030-01-12');
+
+    expect(apiFetch).toHaveBeenCalledWith('/api/tasks/abc', {
+      method: 'PUT',
+      body: JSON.stringify({ dueDate: new Date(2030, 0, 12, 23, 59).toISOString() }),
+    });
+    expect(updated.title).toBe('Updated');
+  });
+
+  it('should throw when the API rejects the change', async () => {
+    (apiFetch as jest.Mock).mockResolvedValue(null);
+
+    await expect(rescheduleTask(buildTask('abc'), '2030-01-12')).rejects.toThrow('Failed to reschedule task');
+  });
+
+  it('should project the future occurrences of open recurring tasks inside the range', () => {
+    const tasks = [
+      buildTask('daily', {
+        dueDate: new Date(2030, 0, 30, 9, 0).toISOString(),
+        recurrence: { frequency: 'daily', interval: 1, count: 3 },
+      }),
+      buildTask('done', {
+        completed: true,
+        dueDate: new Date(2030, 0, 30, 9, 0).toISOString(),
+        recurrence: { frequency: 'daily', interval: 1 },
+      }),
+    ];
+
+    const expanded = expandRecurringTasks(tasks, new Date(2030, 0, 1), new Date(2030, 1, 28));
+
+    expect(expanded.map((task) => task._id)).toEqual(['daily', 'done', 'daily:2030-01-31', 'daily:2030-02-01']);
+    expect(expanded[2]).toEqual(expect.objectContaining({ recurringTaskId: 'daily', occurrence: 2 }));
+  });
+});
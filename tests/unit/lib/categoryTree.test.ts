@@ -0,0 +1,30 @@
+// tests/unit/lib/categoryTree.test.ts
+
+import { buildCategoryTree, flattenCategoryTree, getDescendantIds } from '@/lib/categoryTree';
+
+describe('Category tree helpers', () => {
+  const categories = [
+    { _id: 'work', name: 'Work', parentId: null },
+    { _id: 'meetings', name: 'Meetings', parentId: 'work' },
+    { _id: 'calls', name: 'Calls', parentId: 'meetings' },
+    { _id: 'admin', name: 'Admin', parentId: 'work' },
+    { _id: 'orphan', name: 'Orphan', parentId: 'deleted' },
+  ];
+
+  it('should nest categories under their parents, sorted by name', () => {
+    const rows = flattenCategoryTree(buildCategoryTree(categories)).map(({ category, depth }) => [category._id, depth]);
+
+    expect(rows).toEqual([
+      ['orphan', 0],
+      ['work', 0],
+      ['admin', 1],
+      ['meetings', 1],
+      ['calls', 2],
+    ]);
+  });
+
+  it('should collect sub-categories at any depth', () => {
+    expect(getDescendantIds(categories, 'work')).toEqual(new Set(['meetings', 'calls', 'admin']));
+    expect(getDescendantIds(categories, 'calls').size).toBe(0);
+  });
+});
@@ -0,0 +1,33 @@
+// tests/unit/lib/dashboardStats.test.ts
+
+import { formatDashboardStats, resolveTimeZone, toZonedDateKey } from '@/lib/dashboardStats';
+
+describe('Dashboard statistics helpers', () => {
+  it('should fall back to UTC for missing or unknown time zones', () => {
+    expect(resolveTimeZone(null)).toBe('UTC');
+    expect(resolveTimeZone('Not/A_Zone')).toBe('UTC');
+    expect(resolveTimeZone('America/Sao_Paulo')).toBe('America/Sao_Paulo');
+  });
+
+  it('should compute day keys in the given time zone', () => {
+    const date = new Date('2024-06-15T01:30:00.000Z');
+
+    expect(toZonedDateKey(date, 'UTC')).toBe('2024-06-15');
+    expect(toZonedDateKey(date, 'America/Sao_Paulo')).toBe('2024-06-14');
+  });
+
+  it('should fill the days without completions in the trend, ending today', () => {
+    const now = new Date('2024-06-15T12:00:00.000Z');
+    const stats = formatDashboardStats(
+      { totals: [], byPriority: [], byCategory: [], completionTrend: [{ _id: '2024-06-14', count: 3 }] },
+      {},
+      now,
+      'UTC'
+    );
+
+    expect(stats.completionTrend).toHaveLength(30);
+    expect(stats.completionTrend[0]).toEqual({ date: '2024-05-17', count: 0 });
+    expect(stats.completionTrend[28]).toEqual({ date: '2024-06-14', count: 3 });
+    expect(stats.completionTrend[29]).toEqual({ date: '2024-06-15', count: 0 });
+  });
+});
@@ -0,0 +1,125 @@
+// tests/unit/lib/dataExport.test.ts
+
+import { ObjectId } from 'mongodb';
+import { buildExportFiles, collectExportData, DATA_EXPORT_FORMAT, startDataExport } from '@/lib/dataExport';
+import { readZip } from '@/lib/zip';
+
+const userId = new ObjectId();
+const categoryId = new ObjectId();
+const tagId = new ObjectId();
+
+const user = {
+  _id: userId,
+  username: 'ann',
+  email: 'ann@example.com',
+  password: 'hashed',
+  firstName: 'Ann',
+  twoFactorSecret: 'SECRET',
+  twoFactorRecoveryCodes: ['hash'],
+};
+
+const task = {
+  _id: new ObjectId(),
+  userId,
+  title: '=SUM(A1)',
+  resume: 'Buy milk, eggs',
+  description: '<p>From the <b>store</b></p>',
+  categoryId: categoryId.toString(),
+  tagIds: [tagId],
+  dueDate: new Date('2030-01-31T00:00:00.000Z'),
+  subtasks: [{ _id: new ObjectId(), title: 'Milk', completed: true, dueDate: null }],
+  createdAt: new Date('2025-01-01T10:00:00.000Z'),
+};
+
+// Each collection answers with its own documents
+const buildDb = (documents: Record<string, any[]>) => {
+  const collections: Record<string, any> = {};
+  const collection = jest.fn((name: string) => {
+    if (!collections[name]) {
+      const docs = documents[name] || [];
+      const cursor = {
+        sort: jest.fn().mockReturnThis(),
+        batchSize: jest.fn().mockReturnThis(),
+        toArray: jest.fn().mockResolvedValue(docs),
+        [Symbol.asyncIterator]: async function* () {
+          yield* docs;
+        },
+      };
+      collections[name] = {
+        findOne: jest.fn().mockResolvedValue(docs[0] || null),
+        find: jest.fn().mockReturnValue(cursor),
+        countDocuments: jest.fn().mockResolvedValue(docs.length),
+        insertOne: jest.fn(),
+        updateOne: jest.fn(),
+        createIndex: jest.fn(),
+      };
+    }
+    return collections[name];
+  });
+  return { db: { collection } as any, collections };
+};
+
+describe('Data export', () => {
+  const documents = {
+    users: [user],
+    categories: [{ _id: categoryId, name: 'Home', slug: 'home', userId, parentId: null }],
+    tags: [{ _id: tagId, name: 'errands', color: '#22c55e', userId, createdAt: new Date('2025-01-01') }],
+    tasks: [task],
+  };
+
+  it('should export the profile without credentials, and tasks with string IDs and ISO dates', async () => {
+    const { db } = buildDb(documents);
+
+    const data = await collectExportData(db, userId);
+
+    expect(data).toEqual(expect.objectContaining({ format: DATA_EXPORT_FORMAT, version: 1 }));
+    expect(data.profile).toEqual({ username: 'ann', email: 'ann@example.com', firstName: 'Ann' });
+    expect(data.categories[0]).toEqual(expect.objectContaining({ id: categoryId.toString(), parentId: null }));
+    expect(data.tasks[0]).toEqual(expect.objectContaining({
+      id: task._id.toString(),
+      description: '<p>From the <b>store</b></p>',
+      tagIds: [tagId.toString()],
+      dueDate: '2030-01-31T00:00:00.000Z',
+      subtasks: [{ id: task.subtasks[0]._id.toString(), title: 'Milk', completed: true, dueDate: null }],
+    }));
+    expect(JSON.stringify(data)).not.toContain('SECRET');
+  });
+
+  it('should write JSON that reads back to the same data, and CSV for spreadsheets', async () => {
+    const { db } = buildDb(documents);
+    const data = await collectExportData(db, userId);
+
+    const files = buildExportFiles(data);
+    const csv = files.find(({ name }) => name === 'tasks.csv')!.content.toString('utf8');
+
+    expect(files.map(({ name }) => name)).toEqual(['data.json', 'tasks.csv', 'categories.csv', 'tags.csv']);
+    expect(JSON.parse(files[0].content.toString('utf8'))).toEqual(data);
+    expect(csv.startsWith('\uFEFFid,title,resume,description')).toBe(true);
+    expect(csv).toContain(`${task._id},'=SUM(A1),"Buy milk, eggs",<p>From the <b>store</b></p>`);
+    expect(csv).toContain(',Home,errands,[x] Milk,');
+  });
+
+  it('should start a job that stores the archive and ends as ready', async () => {
+    const { db, collections } = buildDb(documents);
+
+    const job = await startDataExport(db, userId);
+    await new Promise((resolve) => setImmediate(resolve));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(job).toEqual(expect.objectContaining({ userId, status: 'pending', progress: 0 }));
+    expect(collections.dataExports.insertOne).toHaveBeenCalledWith(job);
+    const [filter, update] = collections.dataExports.updateOne.mock.calls.at(-1);
+    expect(filter).toEqual({ _id: job._id });
+    expect(update.$set).toEqual(expect.objectContaining({ status: 'ready', progress: 100 }));
+    const names = readZip(Buffer.from(update.$set.archive.buffer)).map(({ name }) => name);
+    expect(names).toContain('data.json');
+  });
+
+  it('should return the running job instead of starting another one', async () => {
+    const running = { _id: new ObjectId(), userId, status: 'running', progress: 40, createdAt: new Date() };
+    const { db, collections } = buildDb({ ...documents, dataExports: [running] });
+
+    expect(await startDataExport(db, userId)).toBe(running);
+    expect(collections.dataExports.insertOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,88 @@
+// tests/unit/lib/dependencies.test.ts
+
+import { ObjectId } from 'mongodb';
+import {
+  DependencyError,
+  hasDependencyCycle,
+  parseDependencyIds,
+  validateDependencies,
+} from '@/lib/dependencies';
+
+describe('Task dependency helpers', () => {
+  it('should parse and deduplicate task IDs', () => {
+    const id = new ObjectId().toHexString();
+
+    expect(parseDependencyIds([id, id], 'blockedBy')).toEqual([new ObjectId(id)]);
+    expect(() => parseDependencyIds(['not-an-id'], 'blockedBy')).toThrow('Invalid blockedBy');
+    expect(() => parseDependencyIds('abc', 'blocks')).toThrow(DependencyError);
+  });
+
+  it('should detect direct and indirect cycles', () => {
+    const graph = new Map([
+      ['a', ['b']],
+      ['b', ['c']],
+      ['c', []],
+    ]);
+    expect(hasDependencyCycle('a', graph)).toBe(false);
+
+    graph.set('c', ['a']);
+    expect(hasDependencyCycle('a', graph)).toBe(true);
+  });
+
+  describe('validateDependencies', () => {
+    const userId = new ObjectId();
+    const taskId = new ObjectId();
+    const otherId = new ObjectId();
+    const thirdId = new ObjectId();
+
+    // `tasks` are the tasks the blockers lead to; `found` is the number of dependencies that exist
+    const buildDb = (tasks: any[], found = 1) => ({
+      collection: jest.fn().mockReturnThis(),
+      countDocuments: jest.fn().mockResolvedValue(found),
+      aggregate: jest.fn().mockReturnValue({ toArray: jest.fn().mockResolvedValue(tasks) }),
+    }) as any;
+
+    it('should reject a task that depends on itself', async () => {
+      await expect(
+        validateDependencies(buildDb([]), userId, taskId, { blockedBy: [taskId] })
+      ).rejects.toThrow('A task cannot depend on itself');
+    });
+
+    it('should reject tasks of other users or unknown tasks', async () => {
+      const db = buildDb([], 0);
+
+      await expect(
+        validateDependencies(db, userId, taskId, { blockedBy: [otherId] })
+      ).rejects.toThrow('Dependency not found');
+      expect(db.countDocuments).toHaveBeenCalledWith({ userId, _id: { $in: [otherId] } });
+    });
+
+    it('should reject a blocker that is blocked by the task through another task', async () => {
+      const db = buildDb([
+        { _id: otherId, blockedBy: [thirdId], upstream: [{ _id: thirdId, blockedBy: [taskId] }, { _id: taskId }] },
+      ]);
+
+      await expect(
+        validateDependencies(db, userId, taskId, { blockedBy: [otherId] })
+      ).rejects.toThrow('Dependency cycle detected');
+      // Only the tasks the new blockers lead to are loaded
+      expect(db.aggregate.mock.calls[0][0][0]).toEqual({ $match: { userId, _id: { $in: [otherId] } } });
+    });
+
+    it('should reject blocking a task that the task is blocked by', async () => {
+      const db = buildDb([{ _id: taskId, blockedBy: [otherId], upstream: [{ _id: otherId }] }]);
+
+      await expect(
+        validateDependencies(db, userId, taskId, { blocks: [otherId] })
+      ).rejects.toThrow('Dependency cycle detected');
+    });
+
+    it('should accept dependencies without cycles', async () => {
+      const db = buildDb([{ _id: otherId, upstream: [] }], 2);
+
+      await expect(
+        validateDependencies(db, userId, taskId, { blockedBy: [otherId], blocks: [thirdId] })
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,121 @@
+// tests/unit/lib/ical.test.ts
+
+import { ObjectId } from 'mongodb';
+import {
+  buildIcsCalendar,
+  findIcsComponents,
+  fromRRule,
+  getIcsDate,
+  getIcsText,
+  getIcsTextList,
+  IcsError,
+  parseIcs,
+  toRRule,
+} from '@/lib/ical';
+import { buildTaskCalendar, taskToIcsComponent } from '@/lib/taskCalendar';
+import { RecurrenceError } from '@/lib/recurrence';
+
+const userId = new ObjectId();
+const categoryId = new ObjectId();
+const tagId = new ObjectId();
+
+const task = {
+  _id: new ObjectId(),
+  userId,
+  title: 'Pay rent, water; gas',
+  resume: 'Monthly bills',
+  description: '<p>Use the <b>bank</b> app</p>',
+  priority: 'high',
+  status: 'todo',
+  completed: false,
+  dueDate: new Date(2030, 0, 31, 10, 30),
+  dueTime: '10:30',
+  categoryId: categoryId.toString(),
+  tagIds: [tagId],
+  recurrence: { frequency: 'monthly', interval: 1, monthDay: 31, until: '2030-12-31' },
+} as any;
+
+const buildDb = () => {
+  const documents: Record<string, any[]> = {
+    categories: [{ _id: categoryId, name: 'Home' }],
+    tags: [{ _id: tagId, name: 'bills' }],
+  };
+  return {
+    collection: jest.fn((name: string) => ({
+      find: jest.fn().mockReturnValue({ toArray: jest.fn().mockResolvedValue(documents[name] || []) }),
+    })),
+  } as any;
+};
+
+describe('iCalendar', () => {
+  it('should write events with escaped text, folded lines and CRLF endings, and read them back', async () => {
+    const ics = await buildTaskCalendar(buildDb(), userId, [{ ...task, title: 'x'.repeat(100) }, task], {
+      component: 'event',
+      appUrl: 'https://tasks.example.com',
+      feed: { categoryIds: [categoryId] },
+    });
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics).toContain('X-WR-CALNAME:Tasks: Home\r\n');
+    expect(ics.split('\r\n').every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(ics).toContain('SUMMARY:Pay rent\\, water\\; gas\r\n');
+    expect(ics).toContain('DURATION:PT30M');
+    expect(ics).toContain('RRULE:FREQ=MONTHLY;BYMONTHDAY=31;UNTIL=');
+
+    const events = findIcsComponents(parseIcs(ics), ['VEVENT']);
+    expect(events).toHaveLength(2);
+    expect(getIcsText(events[0], 'SUMMARY')).toBe('x'.repeat(100));
+    expect(getIcsText(events[1], 'SUMMARY')).toBe('Pay rent, water; gas');
+    expect(getIcsText(events[1], 'DESCRIPTION')).toBe('Monthly bills\n\nUse the bank app');
+    expect(getIcsTextList(events[1], 'CATEGORIES')).toEqual(['Home', 'bills']);
+    expect(getIcsText(events[1], 'URL')).toBe(`https://tasks.example.com/tasks/edit/${task._id}`);
+    expect(getIcsDate(events[1], 'DTSTART')).toEqual({ date: task.dueDate, allDay: false });
+  });
+
+  it('should write tasks without a due time as all-day events, and to-dos with their status', () => {
+    const allDay = { ...task, dueDate: new Date(2030, 0, 31), dueTime: null, recurrence: null };
+    const event = taskToIcsComponent(allDay, 'event');
+    const todo = taskToIcsComponent({ ...allDay, completed: true, completedAt: new Date() }, 'todo');
+    const undated = taskToIcsComponent({ ...allDay, dueDate: null }, 'event');
+
+    expect(event.properties.find(({ name }) => name === 'DTEND')).toEqual(
+      { name: 'DTEND', params: { VALUE: 'DATE' }, value: '20300201' }
+    );
+    expect(getIcsDate(event, 'DTSTART')).toEqual({ date: allDay.dueDate, allDay: true });
+    expect(todo.name).toBe('VTODO');
+    expect(getIcsText(todo, 'STATUS')).toBe('COMPLETED');
+    expect(getIcsText(todo, 'PRIORITY')).toBe('3');
+    expect(undated.name).toBe('VTODO');
+  });
+
+  it('should read dates in UTC and in a time zone', () => {
+    const [calendar] = parseIcs([
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=America/Sao_Paulo:20300115T090000',
+      'DTEND:20300115T130000Z',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\n'));
+    const [event] = calendar.components;
+
+    expect(getIcsDate(event, 'DTSTART')!.date.toISOString()).toBe('2030-01-15T12:00:00.000Z');
+    expect(getIcsDate(event, 'DTEND')!.date.toISOString()).toBe('2030-01-15T13:00:00.000Z');
+    expect(() => parseIcs('not a calendar')).toThrow(IcsError);
+  });
+
+  it('should convert recurrence rules both ways and reject the parts tasks cannot repeat on', () => {
+    const start = new Date(2030, 0, 14); // A Monday
+
+    expect(toRRule({ frequency: 'weekly', interval: 2, weekdays: [1, 3], count: 5 } as any, true))
+      .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=5');
+    expect(toRRule({ frequency: 'monthly', interval: 1, nthWeekday: { nth: -1, weekday: 5 } } as any, true))
+      .toBe('FREQ=MONTHLY;BYDAY=-1FR');
+    expect(fromRRule('FREQ=WEEKLY;INTERVAL=2', start)).toEqual({ frequency: 'weekly', interval: 2, weekdays: [1] });
+    expect(fromRRule('FREQ=MONTHLY;BYDAY=2TU;UNTIL=20301231', start)).toEqual({
+      frequency: 'monthly', interval: 1, nthWeekday: { nth: 2, weekday: 2 }, until: '2030-12-31',
+    });
+    expect(() => fromRRule('FREQ=DAILY;BYHOUR=9', start)).toThrow(RecurrenceError);
+    expect(() => fromRRule('FREQ=MONTHLY;BYDAY=MO,TU', start)).toThrow(RecurrenceError);
+  });
+});
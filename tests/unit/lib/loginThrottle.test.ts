@@ -0,0 +1,80 @@
+// tests/unit/lib/loginThrottle.test.ts
+
+import { checkLoginThrottle, countThrottledAttempt, LOCKOUT_MINUTES, recordLoginFailure } from '@/lib/loginThrottle';
+import { ObjectId } from 'mongodb';
+
+jest.mock('@/lib/auth');
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  createIndex: jest.fn(),
+  find: jest.fn().mockReturnThis(),
+  toArray: jest.fn(),
+  findOneAndUpdate: jest.fn(),
+  updateOne: jest.fn(),
+  insertOne: jest.fn(),
+};
+
+describe('Login throttling', () => {
+  const request = new Request('http://localhost:3000/api/auth/login', {
+    method: 'POST',
+    headers: new Headers({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'Firefox' }),
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // Seconds of wait set on the counter of a key by the last recorded failure
+  const getLockSeconds = (key: string) => {
+    const [, update] = mockDb.updateOne.mock.calls.find(([filter]) => filter._id === key);
+    return Math.max(0, Math.round((update.$set.lockedUntil.getTime() - Date.now()) / 1000));
+  };
+
+  it('should count a failure per email and per address and keep it for the account owner', async () => {
+    const userId = new ObjectId();
+    mockDb.findOneAndUpdate.mockResolvedValueOnce({ failures: 5 }).mockResolvedValueOnce({ failures: 5 });
+
+    await recordLoginFailure(mockDb as any, { email: ' Test@Example.com', userId, reason: 'password', req: request });
+
+    expect(mockDb.findOneAndUpdate.mock.calls.map(([filter]) => filter._id)).toEqual(['account:test@example.com', 'ip:203.0.113.7']);
+    // The backoff of an email starts after 3 failures and doubles with each one; an address gets more room
+    expect(getLockSeconds('account:test@example.com')).toBe(4);
+    expect(getLockSeconds('ip:203.0.113.7')).toBe(0);
+    expect(mockDb.insertOne.mock.calls[0][0]).toMatchObject({ userId, reason: 'password', ip: '203.0.113.7', userAgent: 'Firefox' });
+    expect(mockDb.createIndex).toHaveBeenCalledWith({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  });
+
+  it('should lock an email out after too many failures, without an audit entry for unknown emails', async () => {
+    mockDb.findOneAndUpdate.mockResolvedValueOnce({ failures: 10 }).mockResolvedValueOnce({ failures: 10 });
+
+    await recordLoginFailure(mockDb as any, { email: 'nobody@example.com', reason: 'password', req: request });
+
+    expect(getLockSeconds('account:nobody@example.com')).toBe(LOCKOUT_MINUTES * 60);
+    expect(mockDb.insertOne).not.toHaveBeenCalled();
+  });
+
+  it('should count password reset requests apart from login failures', async () => {
+    mockDb.findOneAndUpdate.mockResolvedValueOnce({ failures: 1 }).mockResolvedValueOnce({ failures: 1 });
+    mockDb.toArray.mockResolvedValue([]);
+
+    await countThrottledAttempt(mockDb as any, 'Test@Example.com', request, 'password_reset');
+    await checkLoginThrottle(mockDb as any, 'test@example.com', request, 'password_reset');
+
+    const keys = ['password_reset:account:test@example.com', 'password_reset:ip:203.0.113.7'];
+    expect(mockDb.findOneAndUpdate.mock.calls.map(([filter]) => filter._id)).toEqual(keys);
+    expect(mockDb.find).toHaveBeenCalledWith({ _id: { $in: keys }, lockedUntil: { $gt: expect.any(Date) } });
+    expect(mockDb.insertOne).not.toHaveBeenCalled();
+  });
+
+  it('should return the longest wait among the email and the address', async () => {
+    mockDb.toArray.mockResolvedValue([
+      { _id: 'account:test@example.com', lockedUntil: new Date(Date.now() + 30 * 1000) },
+      { _id: 'ip:203.0.113.7', lockedUntil: new Date(Date.now() + 90 * 1000) },
+    ]);
+    expect(await checkLoginThrottle(mockDb as any, 'test@example.com', request)).toBe(90);
+
+    mockDb.toArray.mockResolvedValue([]);
+    expect(await checkLoginThrottle(mockDb as any, 'test@example.com', request)).toBe(0);
+  });
+});
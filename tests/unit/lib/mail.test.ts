@@ -0,0 +1,99 @@
+// tests/unit/lib/mail.test.ts
+
+import net from 'net';
+import { buildMimeMessage } from '@/lib/mail/mime';
+import { createSmtpTransport } from '@/lib/mail/smtpTransport';
+
+const decodeBody = (raw: string) => {
+  const [, body] = raw.split('\r\n\r\n');
+  return Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8');
+};
+
+describe('Mail helpers', () => {
+  it('should build a message with encoded headers and body', () => {
+    const raw = buildMimeMessage(
+      { to: 'ana@example.com', subject: 'Redefinição de senha', text: 'Olá!\n.\nLink' },
+      'App <no-reply@example.com>'
+    );
+
+    expect(raw).toContain('From: App <no-reply@example.com>\r\nTo: ana@example.com');
+    expect(raw).toContain(`Subject: =?UTF-8?B?${Buffer.from('Redefinição de senha').toString('base64')}?=`);
+    expect(raw).toMatch(/Message-ID: <[0-9a-f]+@example\.com>/);
+    expect(decodeBody(raw)).toBe('Olá!\n.\nLink');
+  });
+
+  // A plain SMTP server that accepts every command, without STARTTLS
+  const startServer = async () => {
+    const commands: string[] = [];
+    const server = net.createServer((socket) => {
+      let inData = false;
+      let buffer = '';
+      socket.write('220 test ESMTP\r\n');
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString();
+        let index;
+        while ((index = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 queued\r\n');
+            }
+            continue;
+          }
+          commands.push(line);
+          if (line.startsWith('EHLO')) socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+          else if (line.startsWith('AUTH')) socket.write('235 ok\r\n');
+          else if (line === 'DATA') {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (line === 'QUIT') socket.end('221 bye\r\n');
+          else socket.write('250 ok\r\n');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+    return { port, commands, close: () => server.close() };
+  };
+
+  it('should send a message through an SMTP server', async () => {
+    const { port, commands, close } = await startServer();
+
+    try {
+      const transport = createSmtpTransport({ host: '127.0.0.1', port, secure: false, from: 'App <no-reply@example.com>' });
+      await transport.send({ to: 'ana@example.com', subject: 'Hello', text: 'Hi' });
+    } finally {
+      close();
+    }
+
+    expect(commands).toEqual([
+      expect.stringMatching(/^EHLO /),
+      'MAIL FROM:<no-reply@example.com>',
+      'RCPT TO:<ana@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+  });
+
+  it('should not send credentials over a connection without TLS', async () => {
+    const { port, commands, close } = await startServer();
+
+    try {
+      const transport = createSmtpTransport({
+        host: '127.0.0.1',
+        port,
+        secure: false,
+        user: 'user',
+        password: 'secret',
+        from: 'App <no-reply@example.com>',
+      });
+      await expect(transport.send({ to: 'ana@example.com', subject: 'Hello', text: 'Hi' })).rejects.toThrow(/STARTTLS/);
+    } finally {
+      close();
+    }
+
+    expect(commands).toEqual([expect.stringMatching(/^EHLO /)]);
+  });
+});
@@ -0,0 +1,50 @@
+// tests/unit/lib/qrCode.test.ts
+
+import { encodeQrCode } from '@/lib/qrCode';
+
+const render = (matrix: boolean[][]) => matrix.map((row) => row.map((dark) => (dark ? '#' : '.')).join(''));
+
+describe('encodeQrCode', () => {
+  it('should encode a short text as a version 1 symbol', () => {
+    // Reference symbol for "hello" at error correction level M
+    expect(render(encodeQrCode('hello'))).toEqual([
+      '#######..##...#######',
+      '#.....#.##....#.....#',
+      '#.###.#..#.##.#.###.#',
+      '#.###.#...##..#.###.#',
+      '#.###.#.##..#.#.###.#',
+      '#.....#.....#.#.....#',
+      '#######.#.#.#.#######',
+      '..........###........',
+      '#.#.#.#..#.#....#..#.',
+      '..#.##....#...#....##',
+      '.#.#..#.###.#...#####',
+      '##..#.........#....#.',
+      '.##.#.##..#.#.#.#....',
+      '........####.#.#..###',
+      '#######...##.###..###',
+      '#.....#...####.##....',
+      '#.###.#.#.##.###...##',
+      '#.###.#..#....##..##.',
+      '#.###.#.###.#...#.#.#',
+      '#.....#..#....#.#..#.',
+      '#######.###.#.##...##',
+    ]);
+  });
+
+  it('should pick a larger version for an otpauth link', () => {
+    const matrix = encodeQrCode(
+      'otpauth://totp/Personal%20Task%20Tracker%3Auser%40example.com?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&issuer=Personal+Task+Tracker&algorithm=SHA1&digits=6&period=30'
+    );
+
+    expect(matrix.length).toBe(matrix[0].length);
+    expect((matrix.length - 17) % 4).toBe(0);
+    expect(matrix.length).toBeGreaterThan(21);
+    // Finder pattern in the top-right corner
+    expect(render(matrix)[0].slice(-7)).toBe('#######');
+  });
+
+  it('should refuse a text too long for any version', () => {
+    expect(() => encodeQrCode('x'.repeat(3000))).toThrow();
+  });
+});
@@ -0,0 +1,81 @@
+// tests/unit/lib/recurrence.test.ts
+
+import { getNextOccurrence, getOccurrencesBetween, parseRecurrence, RecurrenceError } from '@/lib/recurrence';
+import { RecurrenceRule } from '@/types/TaskCategoryTypes';
+
+const day = (year: number, month: number, date: number, hours = 9) => new Date(year, month - 1, date, hours, 30);
+
+describe('Recurrence rules', () => {
+  it('should keep only the fields that apply to the frequency', () => {
+    expect(parseRecurrence({ frequency: 'daily', weekdays: [1], monthDay: 3 })).toEqual({ frequency: 'daily', interval: 1 });
+    expect(parseRecurrence({ frequency: 'weekly', interval: 2, weekdays: [5, 1, 5] })).toEqual({
+      frequency: 'weekly',
+      interval: 2,
+      weekdays: [1, 5],
+    });
+  });
+
+  it.each([
+    [{ frequency: 'hourly' }],
+    [{ frequency: 'daily', interval: 0 }],
+    [{ frequency: 'weekly', weekdays: [] }],
+    [{ frequency: 'monthly' }],
+    [{ frequency: 'monthly', nthWeekday: { nth: 5, weekday: 1 } }],
+    [{ frequency: 'daily', count: 3, until: '2030-01-01' }],
+  ])('should reject the invalid rule %j', (rule) => {
+    expect(() => parseRecurrence(rule)).toThrow(RecurrenceError);
+  });
+
+  it('should repeat daily and keep the time of day', () => {
+    const rule: RecurrenceRule = { frequency: 'daily', interval: 3 };
+
+    expect(getNextOccurrence(rule, day(2030, 1, 30))).toEqual(day(2030, 2, 2));
+  });
+
+  it('should repeat weekly on the chosen weekdays, skipping inactive weeks', () => {
+    const rule: RecurrenceRule = { frequency: 'weekly', interval: 2, weekdays: [1, 4] }; // Monday and Thursday
+
+    expect(getNextOccurrence(rule, day(2030, 1, 7))).toEqual(day(2030, 1, 10)); // Monday -> Thursday
+    expect(getNextOccurrence(rule, day(2030, 1, 10))).toEqual(day(2030, 1, 21)); // Thursday -> Monday two weeks later
+  });
+
+  it('should repeat monthly by day of the month, skipping months without that day', () => {
+    const rule: RecurrenceRule = { frequency: 'monthly', interval: 1, monthDay: 31 };
+
+    expect(getNextOccurrence(rule, day(2030, 1, 31))).toEqual(day(2030, 3, 31));
+  });
+
+  it('should repeat monthly on the nth or last weekday', () => {
+    const secondTuesday: RecurrenceRule = { frequency: 'monthly', interval: 1, nthWeekday: { nth: 2, weekday: 2 } };
+    const lastFriday: RecurrenceRule = { frequency: 'monthly', interval: 1, nthWeekday: { nth: -1, weekday: 5 } };
+
+    expect(getNextOccurrence(secondTuesday, day(2030, 1, 8))).toEqual(day(2030, 2, 12));
+    expect(getNextOccurrence(lastFriday, day(2030, 1, 25))).toEqual(day(2030, 2, 22));
+  });
+
+  it('should repeat yearly, skipping February 29th in common years', () => {
+    const rule: RecurrenceRule = { frequency: 'yearly', interval: 1 };
+
+    expect(getNextOccurrence(rule, day(2028, 2, 29))).toEqual(day(2032, 2, 29));
+  });
+
+  it('should end after the given number of occurrences or on the end date', () => {
+    const daily: RecurrenceRule = { frequency: 'daily', interval: 1 };
+
+    expect(getNextOccurrence({ ...daily, count: 3 }, day(2030, 1, 2), 2)).toEqual(day(2030, 1, 3));
+    expect(getNextOccurrence({ ...daily, count: 3 }, day(2030, 1, 3), 3)).toBeNull();
+    expect(getNextOccurrence({ ...daily, until: '2030-01-03' }, day(2030, 1, 3))).toBeNull();
+  });
+
+  it('should list the occurrences inside a range', () => {
+    const rule: RecurrenceRule = { frequency: 'weekly', interval: 1, weekdays: [1], count: 4 };
+
+    const occurrences = getOccurrencesBetween(rule, day(2030, 1, 7), 1, day(2030, 1, 10, 0), day(2030, 3, 1, 0));
+
+    expect(occurrences).toEqual([
+      { date: day(2030, 1, 14), occurrence: 2 },
+      { date: day(2030, 1, 21), occurrence: 3 },
+      { date: day(2030, 1, 28), occurrence: 4 },
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+// tests/unit/lib/schema.test.ts
+
+import { ObjectId } from 'mongodb';
+import {
+  array,
+  date,
+  email,
+  object,
+  objectId,
+  optional,
+  parseBody,
+  string,
+  validate,
+  ValidationError,
+} from '@/lib/schema';
+import { newTaskSchema, taskParamsSchema } from '@/lib/taskSchema';
+
+const errorsOf = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof ValidationError) return error.errors;
+    throw error;
+  }
+  return [];
+};
+
+describe('Request schemas', () => {
+  const schema = object({
+    name: string({ label: 'Name', max: 5 }),
+    email: optional(email()),
+    items: optional(array(object({ id: objectId({ label: 'item ID' }) }))),
+  });
+
+  it('should return the trimmed value and drop unknown fields', () => {
+    expect(validate({ name: ' Ann ', role: 'admin' }, schema)).toEqual({ name: 'Ann' });
+  });
+
+  it('should report every error with the path of its field', () => {
+    const errors = errorsOf(() =>
+      validate({ name: 'Annabel', email: 'ann', items: [{ id: 'abc' }] }, schema)
+    );
+
+    expect(errors).toEqual([
+      { path: 'name', code: 'too_long', message: 'Name must be at most 5 characters long', params: { max: 5 } },
+      { path: 'email', code: 'invalid', message: 'Invalid email' },
+      { path: 'items.0.id', code: 'invalid', message: 'Invalid item ID' },
+    ]);
+  });
+
+  it('should refuse a body that is not an object', () => {
+    expect(errorsOf(() => validate(['Ann'], schema))).toEqual([
+      { path: '', code: 'invalid', message: 'Invalid request body' },
+    ]);
+  });
+
+  it('should treat a blank optional value as missing only when asked', () => {
+    expect(validate('', optional(date(), { blank: true }))).toBeUndefined();
+    expect(errorsOf(() => validate('', optional(date({ label: 'due date' }))))).toEqual([
+      { path: '', code: 'invalid', message: 'Invalid due date' },
+    ]);
+  });
+
+  it('should convert valid IDs and reject malformed ones', () => {
+    const id = '64b7f0c2a1b2c3d4e5f60718';
+
+    expect(validate({ id }, taskParamsSchema).id).toEqual(new ObjectId(id));
+    expect(errorsOf(() => validate({ id: 'not-an-id' }, taskParamsSchema))).toEqual([
+      { path: 'id', code: 'invalid', message: 'Invalid task ID' },
+    ]);
+  });
+
+  it('should report nested task fields and reuse the recurrence parser', () => {
+    const errors = errorsOf(() =>
+      validate(
+        {
+          title: 'Task',
+          resume: '',
+          categoryId: 'abc',
+          subtasks: [{ title: 'First' }, { title: ' ' }],
+          recurrence: { frequency: 'hourly' },
+        },
+        newTaskSchema
+      )
+    );
+
+    expect(errors.map((error) => error.path)).toEqual(['resume', 'categoryId', 'recurrence', 'subtasks.1.title']);
+  });
+
+  it('should refuse a body that is not JSON', async () => {
+    const req = { json: jest.fn().mockRejectedValue(new SyntaxError('Unexpected token')) } as unknown as Request;
+
+    await expect(parseBody(req, schema)).rejects.toThrow('Invalid JSON body');
+  });
+});
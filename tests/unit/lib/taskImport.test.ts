@@ -0,0 +1,190 @@
+// tests/unit/lib/taskImport.test.ts
+
+import { ObjectId } from 'mongodb';
+import { parseCsv } from '@/lib/csv';
+import { createZip } from '@/lib/zip';
+import { buildExportFiles, DATA_EXPORT_FORMAT } from '@/lib/dataExport';
+import { buildIcsCalendar } from '@/lib/ical';
+import { taskToIcsComponent } from '@/lib/taskCalendar';
+import { planTaskImport, readImportFile, suggestCsvMapping, TaskImportError } from '@/lib/taskImport';
+
+const userId = new ObjectId();
+
+const buildDb = (categories: any[] = [], tags: any[] = []) => {
+  const documents: Record<string, any[]> = { categories, tags };
+  return {
+    collection: jest.fn((name: string) => ({
+      find: jest.fn().mockReturnValue({ toArray: jest.fn().mockResolvedValue(documents[name] || []) }),
+    })),
+  } as any;
+};
+
+const exportData = {
+  format: DATA_EXPORT_FORMAT,
+  version: 1,
+  exportedAt: '2025-01-01T00:00:00.000Z',
+  profile: {},
+  categories: [{ id: 'c1', name: 'Home', slug: 'home', description: '', color: null, icon: null, parentId: null }],
+  tags: [{ id: 't1', name: 'errands', color: '#22c55e', createdAt: '2025-01-01T00:00:00.000Z' }],
+  tasks: [{
+    id: 'a1', title: '=SUM(A1)', resume: 'Buy milk, eggs', description: '', status: 'in_progress', priority: 'high',
+    completed: false, completedAt: null, dueDate: '2030-01-31T12:00:00.000Z', dueTime: '10:30', categoryId: 'c1',
+    tagIds: ['t1'], blockedBy: [], subtasks: [{ id: 's1', title: 'Milk', completed: true, dueDate: null }],
+    autoCompleteSubtasks: false, recurrence: null, occurrence: null, createdAt: '2025-01-01T00:00:00.000Z',
+  }],
+};
+
+describe('Task import', () => {
+  it('should read CSV files with quotes, line breaks and either separator', () => {
+    expect(parseCsv('\uFEFFtitle,notes\r\n"a, ""b""","line 1\nline 2"\r\n\r\n\'=1+1,x\r\n')).toEqual([
+      ['title', 'notes'],
+      ['a, "b"', 'line 1\nline 2'],
+      ['=1+1', 'x'],
+    ]);
+    expect(parseCsv('Name;Due date\nRent;2030-01-01')).toEqual([['Name', 'Due date'], ['Rent', '2030-01-01']]);
+  });
+
+  it('should guess the columns of a CSV header and read our own tasks.csv back', () => {
+    expect(suggestCsvMapping(['Task', 'Project', 'Due Date', 'Labels', 'Unknown']))
+      .toEqual({ title: 0, category: 1, dueDate: 2, tags: 3 });
+
+    const csv = buildExportFiles(exportData as any)[1].content.toString('utf8');
+    const file = readImportFile('csv', csv);
+
+    expect(file.source).toBe('csv');
+    expect(file.rows[0]).toEqual(expect.objectContaining({
+      row: 2,
+      title: '=SUM(A1)',
+      resume: 'Buy milk, eggs',
+      category: 'Home',
+      priority: 'high',
+      status: 'in_progress',
+      completed: false,
+      tags: ['errands'],
+      subtasks: [{ title: 'Milk', completed: true }],
+    }));
+  });
+
+  it('should detect data exports, Todoist and Trello files, and read export archives', () => {
+    const todoist = {
+      projects: [{ id: 1, name: 'Work' }],
+      items: [
+        { id: 10, content: 'Report', priority: 4, project_id: 1, due: { date: '2030-02-01T09:15:00' }, labels: ['q1'] },
+        { id: 11, content: 'Charts', parent_id: 10, checked: true },
+      ],
+    };
+    const trello = {
+      lists: [{ id: 'l1', name: 'Backlog' }, { id: 'l2', name: 'Old', closed: true }],
+      cards: [
+        { id: 'k1', name: 'Design', desc: 'Logo', idList: 'l1', labels: [{ name: 'ui' }, { name: '' }] },
+        { id: 'k2', name: 'Archived', idList: 'l2' },
+      ],
+      checklists: [{ idCard: 'k1', checkItems: [{ name: 'Sketch', state: 'complete' }] }],
+    };
+    const archive = createZip([{ name: 'data.json', content: Buffer.from(JSON.stringify(exportData)) }]);
+
+    expect(readImportFile('json', JSON.stringify(exportData)).rows[0])
+      .toEqual(expect.objectContaining({ category: 'Home', tags: ['errands'], dueTime: '10:30' }));
+    expect(readImportFile('zip', archive.toString('base64')).source).toBe('export');
+
+    const todoistFile = readImportFile('json', JSON.stringify(todoist));
+    expect(todoistFile.source).toBe('todoist');
+    expect(todoistFile.rows).toEqual([expect.objectContaining({
+      title: 'Report', resume: 'Report', category: 'Work', priority: 'highest', dueDate: '2030-02-01', dueTime: '09:15',
+      tags: ['q1'], subtasks: [{ title: 'Charts', completed: true, dueDate: undefined }],
+    })]);
+
+    const trelloFile = readImportFile('json', JSON.stringify(trello));
+    expect(trelloFile.source).toBe('trello');
+    expect(trelloFile.rows).toEqual([expect.objectContaining({
+      title: 'Design', description: 'Logo', category: 'Backlog', tags: ['ui'],
+      subtasks: [{ title: 'Sketch', completed: true }],
+    })]);
+
+    expect(() => readImportFile('json', '{"unknown":true}')).toThrow(TaskImportError);
+    expect(() => readImportFile('zip', 'bm90IGEgemlw')).toThrow(TaskImportError);
+  });
+
+  it('should report the errors of each row and plan only the categories and tags of valid rows', async () => {
+    const homeId = new ObjectId();
+    const db = buildDb([{ _id: homeId, name: 'Home' }], []);
+    const file = readImportFile('csv', [
+      'title,summary,category,priority,due,time,tags',
+      'Rent,Pay rent,home,high,2030-01-31,,bills',
+      'Gym,,Health,,,,',
+      ',Missing title,Work,urgent,2000-01-01,,',
+      'Call,Call mom,Family,,,09:00,',
+    ].join('\n'));
+
+    const plan = await planTaskImport(db, userId, file);
+
+    expect(plan.tasks).toHaveLength(2);
+    expect(plan.tasks[0]).toEqual(expect.objectContaining({
+      title: 'Rent', resume: 'Pay rent', userId, categoryId: homeId.toString(), priority: 'high', status: 'todo',
+    }));
+    expect(plan.tasks[0].tagIds).toEqual([plan.tags[0]._id]);
+    expect(plan.tasks[1]).toEqual(expect.objectContaining({ title: 'Gym', resume: 'Gym' }));
+    expect(plan.categories.map(({ name }) => name)).toEqual(['Health']);
+    expect(plan.tags.map(({ name }) => name)).toEqual(['bills']);
+
+    expect(plan.rows[2]).toEqual(expect.objectContaining({ row: 4, category: 'Work' }));
+    expect(plan.rows[2].errors.map(({ path, code }) => [path, code])).toEqual([
+      ['title', 'required'],
+      ['priority', 'invalid'],
+      ['dueDate', 'past_date'],
+    ]);
+    expect(plan.rows[3].errors.map(({ path, code }) => [path, code])).toEqual([['dueTime', 'due_date_required']]);
+  });
+
+  it('should restore the categories, tags and past due dates of a data export, and past due dates of completed rows', async () => {
+    const data = {
+      ...exportData,
+      categories: [
+        { id: 'c1', name: 'Home', slug: 'home', description: 'House', color: '#ff0000', icon: 'home', parentId: null },
+        { id: 'c2', name: 'Garden', slug: 'garden', description: '', color: 'green', icon: null, parentId: 'c1' },
+      ],
+      tasks: [{ ...exportData.tasks[0], categoryId: 'c2', dueDate: '2000-01-31T12:00:00.000Z' }],
+    };
+
+    const plan = await planTaskImport(buildDb(), userId, readImportFile('json', JSON.stringify(data)));
+
+    expect(plan.rows[0].errors).toEqual([]);
+    expect(plan.tasks[0]).toEqual(expect.objectContaining({ dueDate: expect.any(Date), dueTime: '10:30' }));
+    expect(plan.tasks[0].dueDate!.getFullYear()).toBe(2000);
+    const [home, garden] = plan.categories;
+    expect(home).toEqual(expect.objectContaining({ name: 'Home', description: 'House', color: '#ff0000', icon: 'home', parentId: null }));
+    // Details that are not valid are left out, the parent is kept
+    expect(garden).toEqual(expect.objectContaining({ name: 'Garden', color: undefined, parentId: home._id }));
+    expect(plan.tasks[0].categoryId).toBe(garden._id!.toString());
+    expect(plan.tags).toEqual([expect.objectContaining({ name: 'errands', color: '#22c55e' })]);
+
+    const csvPlan = await planTaskImport(buildDb(), userId, readImportFile('csv', 'title,due,done\nOld,2000-01-01,yes\nLate,2000-01-01,no'));
+    expect(csvPlan.rows.map(({ errors }) => errors.map(({ code }) => code))).toEqual([[], ['past_date']]);
+  });
+
+  it('should read the events and to-dos of an iCalendar file, with the categories and rules written by our feeds', () => {
+    const dueDate = new Date(2030, 0, 31, 10, 30);
+    const task = {
+      _id: new ObjectId(), title: 'Rent', priority: 'highest', dueDate, dueTime: '10:30',
+      recurrence: { frequency: 'monthly', interval: 1, monthDay: 31 },
+    } as any;
+    const ics = buildIcsCalendar([
+      taskToIcsComponent(task, 'event', { category: 'Home', tags: ['bills'] }),
+      taskToIcsComponent({ ...task, title: 'Done', completed: true, dueDate: null }, 'todo'),
+      { name: 'VEVENT', properties: [{ name: 'SUMMARY', params: {}, value: 'Gone' }, { name: 'STATUS', params: {}, value: 'CANCELLED' }], components: [] },
+      { name: 'VEVENT', properties: [{ name: 'SUMMARY', params: {}, value: 'Gym at 9' }, { name: 'DTSTART', params: {}, value: '20300101T090000Z' }, { name: 'RRULE', params: {}, value: 'FREQ=DAILY;BYHOUR=9' }], components: [] },
+    ]);
+
+    const file = readImportFile('ics', ics);
+
+    expect(file.source).toBe('ics');
+    expect(file.rows).toHaveLength(3);
+    expect(file.rows[0]).toEqual(expect.objectContaining({
+      title: 'Rent', category: 'Home', tags: ['bills'], priority: 'highest', completed: false,
+      dueDate: dueDate.toISOString(), dueTime: '10:30', recurrence: { frequency: 'monthly', interval: 1, monthDay: 31 },
+    }));
+    expect(file.rows[1]).toEqual(expect.objectContaining({ title: 'Done', completed: true, dueDate: undefined }));
+    expect(file.rows[2]).toEqual(expect.objectContaining({ title: 'Gym at 9', recurrence: 'FREQ=DAILY;BYHOUR=9' }));
+    expect(() => readImportFile('ics', 'BEGIN:VCALENDAR')).toThrow(TaskImportError);
+  });
+});
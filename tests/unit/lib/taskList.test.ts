@@ -0,0 +1,43 @@
+// tests/unit/lib/taskList.test.ts
+
+import { groupTasks, sortTasks } from '@/lib/taskList';
+import { Task, Category } from '@/types/TaskCategoryTypes';
+
+const categories: Category[] = [
+  { _id: 'work', name: 'Work' },
+  { _id: 'home', name: 'Home' },
+];
+
+const tasks: Task[] = [
+  { _id: '1', title: 'Write report', completed: false, priority: 'low', categoryId: 'work', dueDate: '2030-01-10' },
+  { _id: '2', title: 'Buy groceries', completed: false, priority: 'highest', categoryId: 'home' },
+  { _id: '3', title: 'Call bank', completed: true, priority: 'medium', dueDate: '2030-01-05' },
+];
+
+describe('Task list helpers', () => {
+  it('should sort tasks by priority from the most urgent', () => {
+    const sorted = sortTasks(tasks, 'priority', 'asc');
+    expect(sorted.map((task) => task._id)).toEqual(['2', '3', '1']);
+  });
+
+  it('should keep tasks without a due date last in both directions', () => {
+    expect(sortTasks(tasks, 'dueDate', 'asc').map((task) => task._id)).toEqual(['3', '1', '2']);
+    expect(sortTasks(tasks, 'dueDate', 'desc').map((task) => task._id)).toEqual(['1', '3', '2']);
+  });
+
+  it('should sort tasks by category name', () => {
+    const sorted = sortTasks(tasks, 'category', 'asc', categories);
+    expect(sorted.map((task) => task._id)).toEqual(['2', '1', '3']);
+  });
+
+  it('should group tasks by category with uncategorized tasks last', () => {
+    const groups = groupTasks(tasks, 'category', categories);
+    expect(groups.map((group) => group.key)).toEqual(['work', 'home', '']);
+    expect(groups[2].tasks[0]._id).toBe('3');
+  });
+
+  it('should group tasks by priority and skip empty groups', () => {
+    const groups = groupTasks(tasks, 'priority');
+    expect(groups.map((group) => group.key)).toEqual(['highest', 'medium', 'low']);
+  });
+});
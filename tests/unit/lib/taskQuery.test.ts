@@ -0,0 +1,104 @@
+// tests/unit/lib/taskQuery.test.ts
+
+import { ObjectId } from 'mongodb';
+import { encodeCursor, parseTaskQuery, TaskQueryError, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '@/lib/taskQuery';
+
+const userId = new ObjectId('507f1f77bcf86cd799439011');
+const now = new Date('2024-06-15T12:00:00.000Z');
+
+const parse = (query: string) => parseTaskQuery(new URLSearchParams(query), userId, now);
+
+describe('Task query parsing', () => {
+  it('should only filter by user, sort by newest first and return the default page size when no parameters are given', () => {
+    const query = parse('');
+
+    expect(query.filter).toEqual({ userId });
+    expect(query.sort).toEqual({ createdAt: -1, _id: -1 });
+    expect(query.limit).toBe(DEFAULT_PAGE_SIZE);
+    expect(query.cursorFilter).toBeUndefined();
+  });
+
+  it('should combine priority, category, completion, due range and search filters', () => {
+    const query = parse('priority=high,highest&category=none&completed=false&dueFrom=2024-06-01&dueTo=2024-06-30&q=a.b');
+
+    expect(query.filter).toEqual({
+      $and: [
+        { userId },
+        { priority: { $in: ['high', 'highest'] } },
+        { categoryId: { $in: [null, ''] } },
+        { completed: { $ne: true } },
+        { dueDate: { $gte: new Date('2024-06-01'), $lte: new Date('2024-06-30T23:59:59.999Z') } },
+        { $or: [{ title: /a\.b/i }, { resume: /a\.b/i }] },
+      ],
+    });
+  });
+
+  it('should match any or all of the selected tags', () => {
+    const first = new ObjectId();
+    const second = new ObjectId();
+
+    expect(parse(`tags=${first},${second}`).filter).toEqual({
+      $and: [{ userId }, { tagIds: { $in: [first, second] } }],
+    });
+    expect(parse(`tags=${first},${second}&tagMatch=all`).filter).toEqual({
+      $and: [{ userId }, { tagIds: { $all: [first, second] } }],
+    });
+    expect(() => parse('tags=not-an-id')).toThrow(TaskQueryError);
+  });
+
+  it('should select open tasks past their due date for overdue=true', () => {
+    const query = parse('overdue=true');
+
+    expect(query.filter).toEqual({
+      $and: [{ userId }, { dueDate: { $lt: now }, completed: { $ne: true } }],
+    });
+  });
+
+  it('should default to ascending order for fields other than createdAt and cap the page size', () => {
+    const query = parse(`sort=dueDate&limit=${MAX_PAGE_SIZE + 50}`);
+
+    expect(query.sort).toEqual({ dueDate: 1, _id: 1 });
+    expect(query.limit).toBe(MAX_PAGE_SIZE);
+  });
+
+  it.each([
+    ['priority=urgent'],
+    ['completed=maybe'],
+    ['dueFrom=not-a-date'],
+    ['sort=priority'],
+    ['order=up'],
+    ['limit=0'],
+    ['cursor=garbage'],
+  ])('should reject the malformed parameter %s', (queryString) => {
+    expect(() => parse(queryString)).toThrow(TaskQueryError);
+  });
+
+  it('should continue after the last task of the previous page', () => {
+    const lastTask = { _id: new ObjectId(), dueDate: new Date('2024-06-20T10:00:00.000Z') };
+    const cursor = encodeCursor(lastTask, 'dueDate');
+
+    const query = parse(`sort=dueDate&order=asc&cursor=${cursor}`);
+
+    expect(query.cursorFilter).toEqual({
+      $or: [
+        { dueDate: { $gt: lastTask.dueDate } },
+        { dueDate: lastTask.dueDate, _id: { $gt: lastTask._id } },
+      ],
+    });
+  });
+
+  it('should include tasks without a value after the cursor in descending order', () => {
+    const lastTask = { _id: new ObjectId(), title: 'Middle' };
+    const cursor = encodeCursor(lastTask, 'title');
+
+    const query = parse(`sort=title&order=desc&cursor=${cursor}`);
+
+    expect(query.cursorFilter).toEqual({
+      $or: [
+        { title: { $lt: 'Middle' } },
+        { title: 'Middle', _id: { $lt: lastTask._id } },
+        { title: null },
+      ],
+    });
+  });
+});
@@ -0,0 +1,68 @@
+// tests/unit/lib/taskSelection.test.ts
+
+import { MAX_BATCH_TASKS, runTaskBatch, toggleTaskSelection } from '@/lib/taskSelection';
+import { apiFetch } from '@/lib/apiFetch';
+
+jest.mock('@/lib/apiFetch', () => ({
+  apiFetch: jest.fn(),
+}));
+
+describe('toggleTaskSelection', () => {
+  const shownIds = ['a', 'b', 'c', 'd', 'e'];
+
+  it('should select and unselect a single task', () => {
+    expect(toggleTaskSelection([], shownIds, 'b')).toEqual(['b']);
+    expect(toggleTaskSelection(['b', 'd'], shownIds, 'b')).toEqual(['d']);
+  });
+
+  it('should add the tasks between the anchor and the clicked task with shift, in either direction', () => {
+    expect(toggleTaskSelection(['b'], shownIds, 'd', { anchorId: 'b', range: true })).toEqual(['b', 'c', 'd']);
+    expect(toggleTaskSelection(['e'], shownIds, 'c', { anchorId: 'e', range: true })).toEqual(['e', 'c', 'd']);
+  });
+
+  it('should toggle only the clicked task when the anchor is not shown anymore', () => {
+    expect(toggleTaskSelection(['x'], shownIds, 'c', { anchorId: 'x', range: true })).toEqual(['x', 'c']);
+  });
+});
+
+describe('runTaskBatch', () => {
+  const ids = (count: number, prefix: string) => Array.from({ length: count }, (_, index) => `${prefix}${index}`);
+
+  // Answers every request like the batch endpoint, with the results given for some tasks and success for the others
+  const mockBatch = (resultFor: (taskId: string, call: number) => object | undefined = () => undefined) => {
+    (apiFetch as jest.Mock).mockImplementation(async (_url: string, { body }: { body: string }) => {
+      const call = (apiFetch as jest.Mock).mock.calls.length;
+      const { action, taskIds } = JSON.parse(body);
+      const results = taskIds.map((taskId: string) => ({ taskId, success: true, ...resultFor(taskId, call) }));
+      return { success: true, action, results };
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should send large selections in several requests and merge their results in order', async () => {
+    const taskIds = ids(MAX_BATCH_TASKS * 2 + 1, 't');
+    mockBatch((taskId) => (taskId === 't3' ? { success: false, code: 'TASK_NOT_FOUND' } : undefined));
+
+    const response = await runTaskBatch({ action: 'priority', priority: 'high', taskIds });
+
+    const sent = (apiFetch as jest.Mock).mock.calls.map(([, { body }]) => JSON.parse(body).taskIds.length);
+    expect(sent).toEqual([MAX_BATCH_TASKS, MAX_BATCH_TASKS, 1]);
+    expect(response.results.map(({ taskId }) => taskId)).toEqual(taskIds);
+    expect(response).toEqual(expect.objectContaining({ action: 'priority', updatedCount: taskIds.length - 1, failedCount: 1 }));
+  });
+
+  it('should send again a task blocked by a task that a later request completed', async () => {
+    const taskIds = [...ids(MAX_BATCH_TASKS, 'a'), 'blocker'];
+    const blockers = [{ _id: 'blocker', title: 'Design', completed: false }];
+    mockBatch((taskId, call) => (taskId === 'a0' && call === 1 ? { success: false, code: 'TASK_BLOCKED', blockers } : undefined));
+
+    const response = await runTaskBatch({ action: 'complete', taskIds });
+
+    expect((apiFetch as jest.Mock).mock.calls).toHaveLength(3);
+    expect(JSON.parse((apiFetch as jest.Mock).mock.calls[2][1].body).taskIds).toEqual(['a0']);
+    expect(response.failedCount).toBe(0);
+  });
+});
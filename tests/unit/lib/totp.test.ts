@@ -0,0 +1,44 @@
+// tests/unit/lib/totp.test.ts
+
+import { base32Decode, base32Encode, buildOtpAuthUrl, findTotpStep, generateTotp, getTotpStep } from '@/lib/totp';
+
+describe('TOTP', () => {
+  // The SHA1 secret of the test vectors in RFC 6238, appendix B
+  const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('should round-trip base32', () => {
+    expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(secret.toLowerCase()).toString()).toBe('12345678901234567890');
+    expect(() => base32Decode('not base32!')).toThrow('Invalid base32 character');
+  });
+
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('should match the RFC 6238 code at %i seconds', (seconds, code) => {
+    expect(generateTotp(secret, getTotpStep(seconds * 1000))).toBe(code);
+  });
+
+  it('should accept codes of the neighbouring steps only', () => {
+    const time = 1111111111 * 1000;
+    const step = getTotpStep(time);
+
+    expect(findTotpStep(secret, '050471', time)).toBe(step);
+    expect(findTotpStep(secret, generateTotp(secret, step - 1), time)).toBe(step - 1);
+    expect(findTotpStep(secret, generateTotp(secret, step + 1), time)).toBe(step + 1);
+    expect(findTotpStep(secret, generateTotp(secret, step - 2), time)).toBeNull();
+    expect(findTotpStep(secret, '12345', time)).toBeNull();
+  });
+
+  it('should build an otpauth link with the account name', () => {
+    const url = new URL(buildOtpAuthUrl(secret, 'user@example.com'));
+
+    expect(url.protocol).toBe('otpauth:');
+    expect(decodeURIComponent(url.pathname)).toContain('user@example.com');
+    expect(url.searchParams.get('secret')).toBe(secret);
+    expect(url.searchParams.get('digits')).toBe('6');
+  });
+});
@@ -0,0 +1,33 @@
+// tests/unit/lib/zip.test.ts
+
+import { createZip, readZip, ZipError } from '@/lib/zip';
+
+describe('ZIP archives', () => {
+  const files = [
+    { name: 'data.json', content: Buffer.from(JSON.stringify({ tasks: ['Café ☕'] })) },
+    { name: 'tâches.csv', content: Buffer.from('id,title\r\n1,"a, b"\r\n'.repeat(100)) },
+    { name: 'empty.txt', content: Buffer.alloc(0) },
+  ];
+
+  it('should read back the files it writes, with UTF-8 names', () => {
+    const archive = createZip(files);
+
+    expect(archive.readUInt32LE(0)).toBe(0x04034b50);
+    expect(readZip(archive)).toEqual(files);
+  });
+
+  it('should refuse data that is not an archive or whose content was altered', () => {
+    const archive = createZip(files);
+    const corrupted = Buffer.from(archive);
+    corrupted[40] ^= 0xff; // Inside the compressed data of the first file, after its 30-byte header and name
+
+    expect(() => readZip(Buffer.from('not a zip file at all, only some text'))).toThrow(ZipError);
+    expect(() => readZip(corrupted)).toThrow(ZipError);
+  });
+
+  it('should stop extracting past the maximum size', () => {
+    const archive = createZip([{ name: 'zeros.bin', content: Buffer.alloc(1024 * 1024) }]);
+
+    expect(() => readZip(archive, { maxSize: 1024 })).toThrow('ZIP archive is too large');
+  });
+});
@@ -1,104 +1,177 @@
-import { createMocks } from 'node-mocks-http';
 import { DELETE } from '@/app/api/users/delete/route';
+import { POST as RESTORE } from '@/app/api/users/restore/route';
 import dbConnect from '@/lib/mongodb';
 import { generateToken, verifyToken } from '@/lib/auth';
+import { sendMail } from '@/lib/mail';
+import { verifyPassword } from '@/models/User';
+import { checkLoginThrottle, recordLoginFailure } from '@/lib/loginThrottle';
 import { ObjectId } from 'mongodb';
 
 jest.mock('@/lib/mongodb');
 jest.mock('@/lib/auth');
+jest.mock('@/lib/mail');
+jest.mock('@/models/User', () => ({
+  ...jest.requireActual('@/models/User'),
+  verifyPassword: jest.fn(),
+}));
+jest.mock('@/lib/loginThrottle', () => ({
+  ...jest.requireActual('@/lib/loginThrottle'),
+  checkLoginThrottle: jest.fn(),
+  recordLoginFailure: jest.fn(),
+}));
 
 const mockDb = {
   collection: jest.fn().mockReturnThis(),
+  findOne: jest.fn(),
+  updateOne: jest.fn(),
+  updateMany: jest.fn(),
   deleteOne: jest.fn(),
+  deleteMany: jest.fn(),
 };
 
 (dbConnect as jest.Mock).mockResolvedValue(mockDb);
 
 describe('DELETE /api/users/delete', () => {
+  const userId = new ObjectId();
+  const sessionId = new ObjectId();
+  const user = { _id: userId, email: 'test@example.com', username: 'test', password: 'hashed' };
+
+  const buildRequest = (body?: any, headers = new Headers({ authorization: `Bearer ${generateToken(userId.toHexString())}` })) =>
+    new Request('http://localhost:3000/api/users/delete', {
+      method: 'DELETE',
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  // The first lookup checks that the session of the token is still active
+  const mockLookups = (...results: any[]) => {
+    mockDb.findOne.mockResolvedValueOnce({ _id: sessionId });
+    results.forEach((result) => mockDb.findOne.mockResolvedValueOnce(result));
+  };
+
   beforeEach(() => {
     jest.clearAllMocks();
+    mockDb.collection.mockReturnThis();
+    (verifyToken as jest.Mock).mockReturnValue({ userId: userId.toHexString(), sessionId: sessionId.toHexString() });
+    mockDb.updateMany.mockResolvedValue({ modifiedCount: 2 });
+    (checkLoginThrottle as jest.Mock).mockResolvedValue(0);
   });
 
-  it('should delete the user when authenticated', async () => {
-    const userId = new ObjectId().toHexString();
-    const token = generateToken(userId);
+  afterEach(() => {
+    delete process.env.ACCOUNT_DELETION_GRACE_DAYS;
+  });
 
-    (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
+  it('should schedule the deletion, log out every session and email the date', async () => {
+    mockLookups(user);
+    (verifyPassword as jest.Mock).mockResolvedValue(true);
 
-    // Create a new Headers object to simulate correct header structure
-    const headers = new Headers({
-      authorization: `Bearer ${token}`,
-    });
+    const response = await DELETE(buildRequest({ password: 'secret' }));
 
-    // Convert mocked request to the expected Request object
-    const request = new Request('http://localhost:3000/api/users/delete', {
-      method: 'DELETE',
-      headers: headers,
-    });
+    expect(response.status).toBe(200);
+    const json = await response.json();
+    const [filter, update] = mockDb.updateOne.mock.calls[0];
+    expect(filter).toEqual({ _id: userId });
+    expect(update.$set.deletionScheduledFor.toISOString()).toBe(json.deletionScheduledFor);
+    expect(update.$set.deletionScheduledFor.getTime() - update.$set.deletionRequestedAt.getTime()).toBe(30 * 24 * 60 * 60 * 1000);
+    expect(mockDb.updateMany).toHaveBeenCalledWith({ userId, revokedAt: null }, { $set: { revokedAt: expect.any(Date) } });
+    expect((sendMail as jest.Mock).mock.calls[0][0].to).toBe('test@example.com');
+    expect(response.headers.get('set-cookie')).toContain('refreshToken=;');
+    expect(mockDb.deleteOne).not.toHaveBeenCalled();
+  });
 
-    mockDb.collection.mockReturnValue({
-      deleteOne: mockDb.deleteOne.mockResolvedValue({ deletedCount: 1 }),
-    });
+  it('should delete the user and their data at once without a grace period', async () => {
+    process.env.ACCOUNT_DELETION_GRACE_DAYS = '0';
+    mockLookups(user);
+    (verifyPassword as jest.Mock).mockResolvedValue(true);
 
-    const response = await DELETE(request);
+    const response = await DELETE(buildRequest({ password: 'secret' }));
 
     expect(response.status).toBe(200);
-    const json = await response.json();
-    expect(json).toEqual({
-      success: true,
-      message: 'User deleted successfully',
-    });
+    expect(mockDb.collection).toHaveBeenCalledWith('tasks');
+    expect(mockDb.collection).toHaveBeenCalledWith('categories');
+    expect(mockDb.deleteMany).toHaveBeenCalledWith({ userId });
+    expect(mockDb.deleteOne).toHaveBeenLastCalledWith({ _id: userId });
   });
 
-  it('should return 401 if no token is provided', async () => {
-    // Create an empty Headers object for no token
-    const headers = new Headers();
+  it('should refuse a wrong password, a missing 2FA code and a deletion already scheduled', async () => {
+    mockLookups(user);
+    (verifyPassword as jest.Mock).mockResolvedValue(false);
+    const wrongPassword = await DELETE(buildRequest({ password: 'wrong' }));
+    expect(wrongPassword.status).toBe(403);
+    expect((await wrongPassword.json()).code).toBe('PASSWORD_INCORRECT');
+    expect(recordLoginFailure).toHaveBeenCalledWith(mockDb, { email: 'test@example.com', userId, reason: 'password', req: expect.any(Request) });
+
+    mockLookups({ ...user, twoFactorEnabled: true });
+    const missingCode = await DELETE(buildRequest({ password: 'secret' }));
+    expect(missingCode.status).toBe(400);
+    expect((await missingCode.json()).details.errors[0]).toEqual(expect.objectContaining({ path: 'code', code: 'required' }));
+
+    mockLookups({ ...user, deletionScheduledFor: new Date(Date.now() + 1000) });
+    const scheduled = await DELETE(buildRequest({ password: 'secret' }));
+    expect(scheduled.status).toBe(409);
+
+    expect(mockDb.updateOne).not.toHaveBeenCalled();
+    expect(sendMail).not.toHaveBeenCalled();
+  });
 
-    // Convert mocked request to the expected Request object
-    const request = new Request('http://localhost:3000/api/users/delete', {
-      method: 'DELETE',
-      headers: headers,
-    });
+  it('should refuse to check the password while failed logins of the account must wait', async () => {
+    mockLookups(user);
+    (checkLoginThrottle as jest.Mock).mockResolvedValue(30);
 
-    const response = await DELETE(request);
+    const response = await DELETE(buildRequest({ password: 'secret' }));
+
+    expect(response.status).toBe(429);
+    expect((await response.json()).details).toEqual({ retryAfter: 30 });
+    expect(checkLoginThrottle).toHaveBeenCalledWith(mockDb, 'test@example.com', expect.any(Request));
+    expect(verifyPassword).not.toHaveBeenCalled();
+    expect(mockDb.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 if no token is provided', async () => {
+    const response = await DELETE(buildRequest({ password: 'secret' }, new Headers()));
 
     expect(response.status).toBe(401);
     const json = await response.json();
     expect(json).toEqual({
       success: false,
+      code: 'AUTH_TOKEN_MISSING',
       message: 'No token provided',
+      requestId: expect.any(String),
     });
   });
 
   it('should return 500 if there is a server error', async () => {
-    const userId = new ObjectId().toHexString();
-    const token = generateToken(userId);
+    mockLookups(user);
+    (verifyPassword as jest.Mock).mockResolvedValue(true);
+    mockDb.updateOne.mockRejectedValueOnce(new Error('Internal server error'));
 
-    (verifyToken as jest.Mock).mockImplementation(() => ({ userId }));
-
-    // Create a new Headers object to simulate correct header structure
-    const headers = new Headers({
-      authorization: `Bearer ${token}`,
-    });
-
-    // Convert mocked request to the expected Request object
-    const request = new Request('http://localhost:3000/api/users/delete', {
-      method: 'DELETE',
-      headers: headers,
-    });
-
-    mockDb.collection.mockReturnValue({
-      deleteOne: mockDb.deleteOne.mockRejectedValue(new Error('Internal server error')),
-    });
-
-    const response = await DELETE(request);
+    const response = await DELETE(buildRequest({ password: 'secret' }));
 
     expect(response.status).toBe(500);
     const json = await response.json();
     expect(json).toEqual({
       success: false,
+      code: 'INTERNAL_ERROR',
       message: 'Internal server error',
-      error: 'Internal server error',
+      requestId: expect.any(String),
     });
   });
+
+  it('should restore an account during its grace period only', async () => {
+    const restoreRequest = () =>
+      new Request('http://localhost:3000/api/users/restore', { method: 'POST', headers: new Headers({ authorization: 'Bearer token' }) });
+
+    mockLookups({ ...user, deletionScheduledFor: new Date(Date.now() + 60 * 1000) });
+    const restored = await RESTORE(restoreRequest());
+    expect(restored.status).toBe(200);
+    expect(mockDb.updateOne).toHaveBeenCalledWith(
+      { _id: userId },
+      { $unset: { deletionRequestedAt: '', deletionScheduledFor: '' } }
+    );
+
+    mockLookups({ ...user, deletionScheduledFor: new Date(Date.now() - 60 * 1000) });
+    const tooLate = await RESTORE(restoreRequest());
+    expect(tooLate.status).toBe(400);
+    expect((await tooLate.json()).code).toBe('ACCOUNT_DELETION_NOT_SCHEDULED');
+  });
 });
@@ -0,0 +1,139 @@
+// tests/unit/users/security.test.ts
+
+import { PUT as CHANGE_EMAIL } from '@/app/api/users/email/route';
+import { PUT as CHANGE_PASSWORD } from '@/app/api/users/password/route';
+import dbConnect from '@/lib/mongodb';
+import { verifyToken } from '@/lib/auth';
+import { sendMail } from '@/lib/mail';
+import { hashPassword, verifyPassword } from '@/models/User';
+import { checkLoginThrottle, recordLoginFailure } from '@/lib/loginThrottle';
+import { ObjectId } from 'mongodb';
+
+jest.mock('@/lib/mongodb');
+jest.mock('@/lib/auth');
+jest.mock('@/lib/mail');
+jest.mock('@/models/User', () => ({
+  ...jest.requireActual('@/models/User'),
+  hashPassword: jest.fn(),
+  verifyPassword: jest.fn(),
+}));
+jest.mock('@/lib/loginThrottle', () => ({
+  ...jest.requireActual('@/lib/loginThrottle'),
+  checkLoginThrottle: jest.fn(),
+  recordLoginFailure: jest.fn(),
+}));
+
+const mockDb = {
+  collection: jest.fn().mockReturnThis(),
+  findOne: jest.fn(),
+  updateOne: jest.fn(),
+  updateMany: jest.fn(),
+};
+
+(dbConnect as jest.Mock).mockResolvedValue(mockDb);
+
+describe('Email and password changes', () => {
+  const userId = new ObjectId();
+  const sessionId = new ObjectId();
+  const user = { _id: userId, email: 'old@example.com', username: 'test', password: 'hashed' };
+
+  const buildRequest = (url: string, body: any) =>
+    new Request(`http://localhost:3000/api/users/${url}`, {
+      method: 'PUT',
+      headers: new Headers({ authorization: 'Bearer token' }),
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb.findOne.mockReset();
+    (verifyToken as jest.Mock).mockReturnValue({ userId: userId.toHexString(), sessionId: sessionId.toHexString() });
+    (hashPassword as jest.Mock).mockResolvedValue('new-hash');
+    mockDb.updateMany.mockResolvedValue({ modifiedCount: 2 });
+    (checkLoginThrottle as jest.Mock).mockResolvedValue(0);
+  });
+
+  // The first lookup checks that the session of the token is still active
+  const mockLookups = (...results: any[]) => {
+    mockDb.findOne.mockResolvedValueOnce({ _id: sessionId });
+    results.forEach((result) => mockDb.findOne.mockResolvedValueOnce(result));
+  };
+
+  it('should keep the new email pending and send the link to it', async () => {
+    mockLookups(user, null);
+    (verifyPassword as jest.Mock).mockResolvedValue(true);
+
+    const response = await CHANGE_EMAIL(buildRequest('email', { currentPassword: 'secret', email: 'new@example.com' }));
+
+    expect(response.status).toBe(200);
+    const [filter, update] = mockDb.updateOne.mock.calls[0];
+    expect(filter).toEqual({ _id: userId });
+    expect(update.$set.pendingEmail).toBe('new@example.com');
+    expect(update.$set.email).toBeUndefined();
+    expect((sendMail as jest.Mock).mock.calls[0][0].to).toBe('new@example.com');
+  });
+
+  it('should refuse an email change with a wrong password or an email in use', async () => {
+    mockLookups(user);
+    (verifyPassword as jest.Mock).mockResolvedValue(false);
+    const wrongPassword = await CHANGE_EMAIL(buildRequest('email', { currentPassword: 'wrong', email: 'new@example.com' }));
+    expect(wrongPassword.status).toBe(403);
+    expect(recordLoginFailure).toHaveBeenCalledWith(mockDb, { email: 'old@example.com', userId, reason: 'password', req: expect.any(Request) });
+
+    mockLookups(user, { _id: new ObjectId(), email: 'new@example.com' });
+    (verifyPassword as jest.Mock).mockResolvedValue(true);
+    const inUse = await CHANGE_EMAIL(buildRequest('email', { currentPassword: 'secret', email: 'new@example.com' }));
+    expect(inUse.status).toBe(409);
+
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+
+  it('should reject weak new passwords with the broken rules', async () => {
+    mockLookups(user);
+
+    const response = await CHANGE_PASSWORD(buildRequest('password', { currentPassword: 'secret', newPassword: 'password' }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).details).toEqual({
+      errors: [expect.objectContaining({ path: 'newPassword', code: 'weak_password' })],
+      rules: ['number'],
+    });
+    expect(mockDb.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should change the password and log out the other sessions', async () => {
+    mockLookups(user);
+    (verifyPassword as jest.Mock).mockImplementation(async (password: string) => password === 'secret');
+
+    const response = await CHANGE_PASSWORD(buildRequest('password', { currentPassword: 'secret', newPassword: 'better-pass1' }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).revoked).toBe(2);
+    expect(mockDb.updateOne).toHaveBeenCalledWith(
+      { _id: userId },
+      { $set: { password: 'new-hash' }, $unset: { passwordResetTokenHash: '', passwordResetExpiresAt: '' } }
+    );
+    expect(mockDb.updateMany).toHaveBeenCalledWith(
+      { userId, revokedAt: null, _id: { $ne: sessionId } },
+      { $set: { revokedAt: expect.any(Date) } }
+    );
+  });
+
+  it('should count wrong current passwords as failed logins and refuse them while throttled', async () => {
+    mockLookups(user);
+    (verifyPassword as jest.Mock).mockResolvedValue(false);
+    const wrongPassword = await CHANGE_PASSWORD(buildRequest('password', { currentPassword: 'wrong', newPassword: 'better-pass1' }));
+    expect(wrongPassword.status).toBe(403);
+    expect(checkLoginThrottle).toHaveBeenCalledWith(mockDb, 'old@example.com', expect.any(Request));
+    expect(recordLoginFailure).toHaveBeenCalledWith(mockDb, { email: 'old@example.com', userId, reason: 'password', req: expect.any(Request) });
+
+    mockLookups(user);
+    (verifyPassword as jest.Mock).mockClear();
+    (checkLoginThrottle as jest.Mock).mockResolvedValue(30);
+    const throttled = await CHANGE_PASSWORD(buildRequest('password', { currentPassword: 'secret', newPassword: 'better-pass1' }));
+    expect(throttled.status).toBe(429);
+    expect((await throttled.json()).details).toEqual({ retryAfter: 30 });
+    expect(verifyPassword).not.toHaveBeenCalled();
+    expect(mockDb.updateOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,18 @@
+// 
+/**
+ * types/CalendarFeedTypes.ts
+ * Type definitions for the iCalendar feeds returned by `/api/users/calendar-feeds`.
+ * 
+ * @interface CalendarFeed - A secret URL that publishes the user's tasks to calendar apps. The URL itself is only
+ *   returned once, when the feed is created.
+ */
+
+export type CalendarFeedComponent = "event" | "todo";
+
+export interface CalendarFeed {
+  _id: string;
+  categoryIds: string[]; // Empty for every category
+  component: CalendarFeedComponent; // Tasks are published as events or as to-dos
+  createdAt: string;
+  lastUsedAt?: string; // Last time a calendar app read the feed
+}
@@ -0,0 +1,29 @@
+// 
+/**
+ * types/DashboardTypes.ts
+ * Type definitions for the statistics returned by `GET /api/dashboard`.
+ * 
+ * `TaskCountSummary` holds the total, completed and overdue counts of a group of tasks, and
+ * `DashboardStats` combines the overall counts with the breakdowns and the completion trend.
+ * 
+ * @interface TaskCountSummary - Task counts for a priority or category.
+ * @interface DashboardStats - The dashboard payload rendered by the dashboard charts.
+ */
+
+export interface TaskCountSummary {
+  total: number;
+  completed: number;
+  overdue: number;
+}
+
+export interface DashboardStats {
+  totalTasks: number;
+  tasksCompleted: number;
+  tasksPending: number;
+  dueToday: number;
+  overdue: number;
+  unreadMessages: number;
+  byPriority: (TaskCountSummary & { priority: string })[];
+  byCategory: (TaskCountSummary & { categoryId: string | null; name: string | null })[];
+  completionTrend: { date: string; count: number }[]; // One entry per day, oldest first
+}
@@ -0,0 +1,20 @@
+// 
+/**
+ * types/DataExportTypes.ts
+ * Type definitions for the data export jobs returned by `/api/users/export`.
+ * 
+ * @interface DataExportJob - An export of the user's data, as shown on the profile page while it runs and once
+ *   it can be downloaded.
+ */
+
+export interface DataExportJob {
+  _id: string;
+  status: "pending" | "running" | "ready" | "failed";
+  progress: number; // Percentage of the work done
+  size?: number; // Size of the ZIP archive in bytes, once ready
+  createdAt: string;
+  completedAt?: string;
+  expiresAt: string; // The archive can be downloaded until then
+}
+
+export type DataExportFormat = "zip" | "json" | "csv";
@@ -0,0 +1,26 @@
+// 
+/**
+ * types/SessionTypes.ts
+ * Type definitions for the sessions returned by `GET /api/auth/sessions` and the failed login attempts returned
+ * by `GET /api/auth/login-attempts`.
+ * 
+ * @interface UserSession - A logged-in device of the user, as listed on the profile page.
+ * @interface FailedLoginAttempt - A failed login on the account of the user, as listed on the profile page.
+ */
+
+export interface UserSession {
+  _id: string;
+  userAgent?: string;
+  ip?: string;
+  createdAt: string;
+  lastUsedAt: string; // Last time the session renewed its access token
+  current: boolean; // True for the session of the browser making the request
+}
+
+export interface FailedLoginAttempt {
+  _id: string;
+  reason: "password" | "two_factor"; // Wrong password, or wrong code at the two-factor step
+  userAgent?: string;
+  ip?: string;
+  createdAt: string;
+}
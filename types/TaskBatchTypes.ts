@@ -0,0 +1,37 @@
+// 
+/**
+ * types/TaskBatchTypes.ts
+ * Type definitions for the bulk actions of the tasks page and the answer of `POST /api/tasks/batch`.
+ * 
+ * @interface TaskBatchRequest - An action and the tasks it applies to, with the value of the action.
+ * @interface TaskBatchResult - Whether one task was changed, and why not.
+ * @interface TaskBatchResponse - The results of every task of the batch.
+ */
+
+import { ApiErrorCode } from "@/lib/apiError";
+import { TaskReference } from "@/types/TaskCategoryTypes";
+
+export type TaskBatchAction = "complete" | "uncomplete" | "priority" | "category" | "reschedule" | "delete";
+
+export interface TaskBatchRequest {
+  action: TaskBatchAction;
+  taskIds: string[];
+  priority?: string;
+  categoryId?: string | null; // null removes the category
+  dueDate?: string; // Start of the new day, as an ISO date
+  force?: boolean; // Completes tasks whose blockers are still open
+}
+
+export interface TaskBatchResult {
+  taskId: string;
+  success: boolean;
+  code?: ApiErrorCode;
+  blockers?: TaskReference[];
+}
+
+export interface TaskBatchResponse {
+  action: TaskBatchAction;
+  updatedCount: number;
+  failedCount: number;
+  results: TaskBatchResult[];
+}
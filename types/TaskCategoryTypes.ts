@@ -6,12 +6,58 @@
  * `Task` interface outlines the properties for a task, including priority levels and optional 
  * due date, due time, and category association.
  * 
- * `Category` interface defines the structure for a category with a unique identifier and name.
+ * `TaskStatus` lists the workflow states a task can be in on the board view, and `BoardColumn`
+ * describes a configurable board column bound to one of those states.
+ * 
+ * `RecurrenceRule` describes how a recurring task repeats, modelled after iCalendar RRULEs: a frequency
+ * and interval, the weekdays of weekly rules, the day or nth weekday of monthly rules, and an optional
+ * end after a number of occurrences or on a date.
+ * 
+ * `Subtask` interface describes an item of a task's checklist.
+ * 
+ * `TaskReference` is the short form of a task used to show dependencies: the tasks blocking a task
+ * (`blockers`) and the tasks it blocks (`blocking`).
+ * 
+ * `Category` interface defines the structure for a category with a unique identifier and name, and
+ * optionally a description, color, icon and the parent category it is nested under.
+ * 
+ * `Tag` interface describes a colored label; a task can have many tags.
  * 
  * @interface Task - Represents a task object with details like priority, due date, and category.
+ * @interface RecurrenceRule - Represents the repeat rule of a recurring task.
+ * @interface Subtask - Represents a checklist item inside a task.
+ * @interface TaskReference - Represents a related task in a dependency.
  * @interface Category - Represents a category with a unique identifier and name.
+ * @interface Tag - Represents a colored label that can be added to many tasks.
  */
 
+export type TaskStatus = "todo" | "in_progress" | "blocked" | "done";
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Repeat every `interval` days, weeks, months or years
+  weekdays?: number[]; // Weekly rules: days of the week, 0 (Sunday) to 6 (Saturday)
+  monthDay?: number; // Monthly rules: day of the month, 1 to 31
+  nthWeekday?: { nth: number; weekday: number }; // Monthly rules: e.g. { nth: 2, weekday: 2 } for the 2nd Tuesday, nth -1 for the last
+  count?: number; // Ends after this many occurrences
+  until?: string; // Ends on this date (YYYY-MM-DD)
+}
+
+export interface Subtask {
+  _id: string;
+  title: string;
+  completed: boolean;
+  dueDate?: string | null;
+}
+
+export interface TaskReference {
+  _id: string;
+  title: string;
+  completed: boolean;
+}
+
 export interface Task {
   _id: string;
   title: string;
@@ -20,9 +66,37 @@ export interface Task {
   dueDate?: string;
   dueTime?: string;
   categoryId?: string;
+  status?: TaskStatus;
+  position?: number;
+  createdAt?: string;
+  recurrence?: RecurrenceRule | null;
+  occurrence?: number; // 1-based index of this occurrence in its series
+  recurringTaskId?: string; // Set on projected future occurrences, pointing to the task they repeat
+  subtasks?: Subtask[];
+  autoCompleteSubtasks?: boolean;
+  blockedBy?: string[]; // IDs of the tasks that must be completed first
+  blockers?: TaskReference[]; // The tasks in `blockedBy`, as returned by the API
+  blocking?: TaskReference[]; // The tasks this task blocks
+  tagIds?: string[];
+}
+
+export interface BoardColumn {
+  status: TaskStatus;
+  visible: boolean;
 }
 
 export interface Category {
   _id: string;
   name: string;
+  description?: string;
+  color?: string; // Hex color, e.g. "#3b82f6"
+  icon?: string; // One of CATEGORY_ICONS (see lib/categoryTree.ts)
+  parentId?: string | null; // Parent category, null for top-level categories
+}
+
+export interface Tag {
+  _id: string;
+  name: string;
+  color: string; // Hex color, e.g. "#3b82f6"
+  taskCount?: number; // Number of tasks using the tag, returned by GET /api/tags
 }
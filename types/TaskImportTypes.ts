@@ -0,0 +1,62 @@
+// 
+/**
+ * types/TaskImportTypes.ts
+ * Type definitions for the task import wizard and the responses of `/api/tasks/import`.
+ * 
+ * @interface TaskImportRow - A row of the imported file, with what was read from it and its errors.
+ * @interface TaskImportPreview - The answer of `POST /api/tasks/import/preview`.
+ * @interface TaskImportResult - The answer of `POST /api/tasks/import`, once the valid rows are saved.
+ */
+
+import { FieldError } from "@/lib/apiError";
+
+export type TaskImportFormat = "csv" | "json" | "zip" | "ics";
+
+// What the file was saved by: a CSV file, a data export of this app, Todoist, Trello or an iCalendar file
+export type TaskImportSource = "csv" | "export" | "todoist" | "trello" | "ics";
+
+export type TaskImportField =
+  | "title"
+  | "resume"
+  | "description"
+  | "category"
+  | "priority"
+  | "status"
+  | "completed"
+  | "dueDate"
+  | "dueTime"
+  | "tags"
+  | "subtasks";
+
+// Column (0-based) of each field in a CSV file
+export type CsvMapping = Partial<Record<TaskImportField, number>>;
+
+export interface TaskImportRow {
+  row: number; // Row of the CSV file (the header is row 1), or position of the task in a JSON file
+  title: string;
+  category: string | null;
+  priority: string | null;
+  dueDate: string | null;
+  completed: boolean;
+  tags: string[];
+  subtasks: number; // Number of subtasks
+  errors: FieldError[];
+}
+
+export interface TaskImportPreview {
+  source: TaskImportSource;
+  columns?: string[]; // Header of a CSV file
+  mapping?: CsvMapping;
+  rows: TaskImportRow[];
+  validCount: number;
+  newCategories: string[];
+  newTags: string[];
+}
+
+export interface TaskImportResult {
+  imported: number;
+  skipped: number;
+  createdCategories: string[];
+  createdTags: string[];
+  errors: { row: number; errors: FieldError[] }[];
+}